@@ -0,0 +1,482 @@
+import type { AstNode } from 'langium';
+import type { LangiumSharedServices } from 'langium/lsp';
+import type { Annotation, DiagramModel, Ontology, Vocabulary, VocabularyBundle } from 'oml-language';
+import {
+    computeDiagramModel, getImportClosure, getLexicalForm, getMemberIri, isEntity, isRelationEntity,
+    isScalar, isScalarProperty, isUnreifiedRelation, isVocabulary, isVocabularyBundle, resolveMember
+} from 'oml-language';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { escapeXml, getDiagramNeighborhood, renderDiagramSvg } from './svg.js';
+
+export interface DocsOptions {
+    /** Directory the site is written to */
+    outDir: string;
+    /** Title of the index page */
+    title?: string;
+}
+
+/**
+ * An entry of the search index of a site.
+ */
+export interface DocsSearchEntry {
+    name: string;
+    qualifiedName: string;
+    kind: string;
+    ontology: string;
+    iri?: string;
+    url: string;
+    description?: string;
+}
+
+type Term = AstNode & { name?: string; ownedAnnotations: Annotation[] };
+type DocumentedOntology = Vocabulary | VocabularyBundle;
+type Relation = { name: string; term: Term; anchor?: string; sources: AstNode[]; targets: AstNode[] };
+
+const KIND_NAMES: Record<string, string> = {
+    Concept: 'Concept',
+    Aspect: 'Aspect',
+    RelationEntity: 'Relation entity',
+    UnreifiedRelation: 'Relation',
+    Scalar: 'Scalar',
+    ScalarProperty: 'Scalar property',
+    AnnotationProperty: 'Annotation property',
+};
+
+const STYLE = `body { font-family: system-ui, sans-serif; margin: 0; color: #1f2937; line-height: 1.5; }
+header { background: #1e3a8a; color: #fff; padding: 0.6em 1.5em; }
+header a { color: #fff; text-decoration: none; font-weight: bold; }
+main { padding: 1em 1.5em 3em; max-width: 70em; }
+a { color: #1d4ed8; }
+h1 { margin-bottom: 0.2em; }
+.kind { display: inline-block; background: #e5e7eb; border-radius: 3px; padding: 0 0.5em; font-size: 0.85em; }
+.iri { color: #6b7280; font-family: monospace; }
+table { border-collapse: collapse; margin: 0.5em 0; }
+td, th { border: 1px solid #d1d5db; padding: 0.2em 0.6em; text-align: left; vertical-align: top; }
+code { background: #f3f4f6; padding: 0 0.2em; }
+.inherited { color: #6b7280; }
+.diagram-box { overflow-x: auto; border: 1px solid #e5e7eb; padding: 0.5em; margin: 0.5em 0; }
+#search { width: 100%; max-width: 30em; font-size: 1em; padding: 0.3em; }
+#results li span { color: #6b7280; }
+`;
+
+const SEARCH_SCRIPT = `const entries = JSON.parse(document.getElementById('search-data').textContent);
+const input = document.getElementById('search');
+const results = document.getElementById('results');
+input.addEventListener('input', () => {
+    const query = input.value.trim().toLowerCase();
+    results.replaceChildren(...(query ? entries.filter(e => e.qualifiedName.toLowerCase().includes(query) || (e.description || '').toLowerCase().includes(query)).slice(0, 50) : []).map(e => {
+        const item = document.createElement('li');
+        const link = document.createElement('a');
+        link.href = e.url;
+        link.textContent = e.qualifiedName;
+        const kind = document.createElement('span');
+        kind.textContent = ' ' + e.kind + (e.description ? ' \u2014 ' + e.description : '');
+        item.append(link, kind);
+        return item;
+    }));
+});
+`;
+
+/**
+ * Generates a static HTML site documenting vocabularies and vocabulary bundles, and the vocabularies
+ * they import: a page per ontology and per term with its annotations, specializations, relations,
+ * restrictions and keys, SVG diagrams, an index page with a search box and a search index
+ * (`search.json`). Pages link to each other with relative URLs, so the site works offline.
+ *
+ * @returns The files written
+ */
+export async function generateDocs(ontologies: Ontology[], shared: LangiumSharedServices, options: DocsOptions): Promise<string[]> {
+    return new DocsGenerator(ontologies, shared, options).generate();
+}
+
+class DocsGenerator {
+
+    protected readonly ontologies: DocumentedOntology[];
+    protected readonly directories = new Map<DocumentedOntology, string>();
+    protected readonly pages = new Map<AstNode, string>();
+    /** The declarations of terms and their `ref` statements */
+    protected readonly contributions = new Map<AstNode, Term[]>();
+    protected readonly superTerms = new Map<AstNode, AstNode[]>();
+    protected readonly subTerms = new Map<AstNode, AstNode[]>();
+    protected readonly relations: Relation[] = [];
+    protected readonly scalarProperties: Term[] = [];
+    protected readonly files: string[] = [];
+
+    constructor(roots: Ontology[], protected readonly shared: LangiumSharedServices, protected readonly options: DocsOptions) {
+        const closure = new Set<Ontology>(roots.flatMap(root => getImportClosure(root)));
+        this.ontologies = [...closure]
+            .filter((ontology): ontology is DocumentedOntology => isVocabulary(ontology) || isVocabularyBundle(ontology))
+            .sort((a, b) => a.prefix.localeCompare(b.prefix));
+        const used = new Set<string>();
+        for (const ontology of this.ontologies) {
+            this.directories.set(ontology, unique(toFileName(ontology.prefix), used));
+        }
+        for (const vocabulary of this.ontologies.filter(isVocabulary)) {
+            const directory = this.directories.get(vocabulary)!;
+            const names = new Set<string>(['index']);
+            for (const statement of vocabulary.ownedStatements as Term[]) {
+                const declaration = resolveMember(statement);
+                this.contributions.set(declaration, [...this.contributions.get(declaration) ?? [], statement]);
+                if (declaration === statement && statement.name && KIND_NAMES[statement.$type]) {
+                    this.pages.set(statement, `${directory}/${unique(toFileName(statement.name), names)}.html`);
+                }
+            }
+        }
+        for (const [declaration, members] of this.contributions) {
+            const supers = members
+                .flatMap(member => (member as { ownedSpecializations?: { superTerm?: { ref?: AstNode } }[] }).ownedSpecializations ?? [])
+                .map(axiom => axiom.superTerm?.ref)
+                .filter(term => term !== undefined)
+                .map(term => resolveMember(term));
+            this.superTerms.set(declaration, [...new Set(supers)]);
+            for (const superTerm of supers) {
+                this.subTerms.set(superTerm, [...new Set([...this.subTerms.get(superTerm) ?? [], declaration])]);
+            }
+            this.collectProperties(declaration, members);
+        }
+    }
+
+    async generate(): Promise<string[]> {
+        const search: DocsSearchEntry[] = [];
+        for (const ontology of this.ontologies) {
+            const directory = this.directories.get(ontology)!;
+            const diagram = isVocabulary(ontology) ? await computeDiagramModel(this.shared, ontology.$document!.uri.toString()) : { nodes: [], edges: [] };
+            await this.write(`${directory}/index.html`, this.renderPage(ontology.prefix, 1, this.renderOntology(ontology, diagram)));
+            if (!isVocabulary(ontology)) {
+                continue;
+            }
+            for (const term of ontology.ownedStatements as Term[]) {
+                const page = this.pages.get(term);
+                if (!page) {
+                    continue;
+                }
+                await this.write(page, this.renderPage(this.getQualifiedName(term), 1, this.renderTerm(term, ontology, diagram)));
+                search.push({
+                    name: term.name!,
+                    qualifiedName: this.getQualifiedName(term),
+                    kind: KIND_NAMES[term.$type],
+                    ontology: ontology.namespace,
+                    iri: getMemberIri(term),
+                    url: page,
+                    ...(this.getDescription(term) ? { description: this.getDescription(term) } : {}),
+                });
+            }
+        }
+        await this.write('search.json', `${JSON.stringify(search, null, 2)}\n`);
+        await this.write('style.css', STYLE);
+        await this.write('index.html', this.renderPage(this.options.title ?? 'Vocabularies', 0, this.renderIndex(search)));
+        return this.files;
+    }
+
+    protected collectProperties(declaration: AstNode, members: Term[]): void {
+        const ends = (references: { ref?: AstNode }[]) => references.map(r => r.ref).filter(r => r !== undefined).map(r => resolveMember(r));
+        if (isScalarProperty(declaration)) {
+            this.scalarProperties.push(declaration);
+        } else if (isRelationEntity(declaration)) {
+            const sources = ends(members.flatMap(m => (m as typeof declaration).sources ?? []));
+            const targets = ends(members.flatMap(m => (m as typeof declaration).targets ?? []));
+            if (declaration.forwardRelation?.name) {
+                this.relations.push({ name: declaration.forwardRelation.name, term: declaration, anchor: 'forward', sources, targets });
+            }
+            if (declaration.reverseRelation?.name) {
+                this.relations.push({ name: declaration.reverseRelation.name, term: declaration, anchor: 'reverse', sources: targets, targets: sources });
+            }
+        } else if (isUnreifiedRelation(declaration) && declaration.name) {
+            const sources = ends(members.flatMap(m => (m as typeof declaration).sources ?? []));
+            const targets = ends(members.flatMap(m => (m as typeof declaration).targets ?? []));
+            this.relations.push({ name: declaration.name, term: declaration, sources, targets });
+            if (declaration.reverseRelation?.name) {
+                this.relations.push({ name: declaration.reverseRelation.name, term: declaration, anchor: 'reverse', sources: targets, targets: sources });
+            }
+        }
+    }
+
+    protected renderIndex(search: DocsSearchEntry[]): string {
+        const items = this.ontologies.map(ontology => {
+            const count = isVocabulary(ontology) ? ontology.ownedStatements.filter(s => this.pages.has(s)).length : 0;
+            const description = this.getDescription(ontology);
+            return `<li>${this.link(ontology, 0)} <span class="kind">${isVocabulary(ontology) ? 'vocabulary' : 'vocabulary bundle'}</span> <span class="iri">${escapeXml(ontology.namespace)}</span>`
+                + `${count > 0 ? ` \u2014 ${count} term(s)` : ''}${description ? `<br>${escapeXml(description)}` : ''}</li>`;
+        });
+        return [
+            `<h1>${escapeXml(this.options.title ?? 'Vocabularies')}</h1>`,
+            '<input id="search" type="search" placeholder="Search terms" autocomplete="off">',
+            '<ul id="results"></ul>',
+            '<h2>Ontologies</h2>',
+            `<ul>${items.join('\n')}</ul>`,
+            `<script type="application/json" id="search-data">${JSON.stringify(search).replace(/</g, '\\u003c')}</script>`,
+            `<script>\n${SEARCH_SCRIPT}</script>`,
+        ].join('\n');
+    }
+
+    protected renderOntology(ontology: DocumentedOntology, diagram: DiagramModel): string {
+        const sections = [
+            `<h1>${escapeXml(ontology.prefix)} <span class="kind">${isVocabulary(ontology) ? 'vocabulary' : 'vocabulary bundle'}</span></h1>`,
+            `<div class="iri">${escapeXml(ontology.namespace)}</div>`,
+            this.renderAnnotations(ontology.ownedAnnotations, 1),
+        ];
+        if (ontology.ownedImports.length > 0) {
+            sections.push('<h2>Imports</h2>', `<ul>${ontology.ownedImports.map(imp => {
+                const imported = imp.imported?.ref;
+                const target = imported && (isVocabulary(imported) || isVocabularyBundle(imported)) && this.directories.has(imported)
+                    ? this.link(imported, 1)
+                    : escapeXml(imported?.namespace ?? imp.imported?.$refText ?? '');
+                return `<li>${imp.kind} ${target}${imp.prefix ? ` as <code>${escapeXml(imp.prefix)}</code>` : ''}</li>`;
+            }).join('')}</ul>`);
+        }
+        if (isVocabulary(ontology)) {
+            const svg = renderDiagramSvg(diagram, id => this.getDiagramHref(ontology, id, 1));
+            if (svg) {
+                sections.push('<h2>Diagram</h2>', `<div class="diagram-box">${svg}</div>`);
+            }
+            for (const [type, title] of Object.entries(KIND_NAMES)) {
+                const terms = ontology.ownedStatements.filter(s => s.$type === type && this.pages.has(s));
+                if (terms.length > 0) {
+                    sections.push(`<h2>${title}s</h2>`, `<ul>${terms.map(term => `<li>${this.link(term, 1)}${this.getDescription(term) ? ` \u2014 ${escapeXml(this.getDescription(term)!)}` : ''}</li>`).join('')}</ul>`);
+                }
+            }
+        }
+        return sections.join('\n');
+    }
+
+    protected renderTerm(term: Term, vocabulary: Vocabulary, diagram: DiagramModel): string {
+        const members = this.contributions.get(term) ?? [term];
+        const sections = [
+            `<h1>${escapeXml(this.getQualifiedName(term))} <span class="kind">${KIND_NAMES[term.$type]}</span></h1>`,
+            `<div class="iri">${escapeXml(getMemberIri(term) ?? '')}</div>`,
+            `<p>Defined in ${this.link(vocabulary, 1)}</p>`,
+            this.renderAnnotations(members.flatMap(member => member.ownedAnnotations), 1),
+        ];
+
+        const supers = this.superTerms.get(term) ?? [];
+        const subs = this.subTerms.get(term) ?? [];
+        const inherited = [...this.getAllSuperTerms(term)].filter(t => !supers.includes(t));
+        if (supers.length > 0 || subs.length > 0) {
+            sections.push('<h2>Specialization</h2>', this.renderTable([
+                ...(supers.length > 0 ? [['Specializes', this.links(supers)]] : []),
+                ...(inherited.length > 0 ? [['Inherits from', this.links(inherited)]] : []),
+                ...(subs.length > 0 ? [['Specialized by', this.links(subs)]] : []),
+            ]));
+        }
+        const equivalences = members.flatMap(m => (m as { ownedEquivalences?: AstNode[] }).ownedEquivalences ?? []);
+        if (equivalences.length > 0) {
+            sections.push('<h2>Equivalences</h2>', this.renderAxioms(equivalences));
+        }
+
+        if (isRelationEntity(term) || isUnreifiedRelation(term)) {
+            const ends = (key: 'sources' | 'targets') => this.links(members.flatMap(m => (m as typeof term)[key] ?? []).map(r => r.ref).filter(r => r !== undefined).map(r => resolveMember(r)));
+            const characteristics = (['functional', 'inverseFunctional', 'symmetric', 'asymmetric', 'reflexive', 'irreflexive', 'transitive'] as const).filter(c => term[c]);
+            sections.push('<h2>Relation</h2>', this.renderTable([
+                ['From', ends('sources')],
+                ['To', ends('targets')],
+                ...(isRelationEntity(term) && term.forwardRelation ? [['Forward', `<code id="forward">${escapeXml(term.forwardRelation.name ?? '')}</code>`]] : []),
+                ...(term.reverseRelation ? [['Reverse', `<code id="reverse">${escapeXml(term.reverseRelation.name ?? '')}</code>`]] : []),
+                ...(characteristics.length > 0 ? [['Characteristics', characteristics.map(c => c.replace(/([A-Z])/, ' $1').toLowerCase()).join(', ')]] : []),
+            ]));
+        }
+        if (isScalarProperty(term)) {
+            sections.push('<h2>Property</h2>', this.renderTable([
+                ['Domain', this.links(members.flatMap(m => (m as typeof term).domains).map(r => r.ref).filter(r => r !== undefined).map(r => resolveMember(r)))],
+                ['Range', this.links(members.flatMap(m => (m as typeof term).ranges).map(r => r.ref).filter(r => r !== undefined).map(r => resolveMember(r)))],
+                ...(term.functional ? [['Characteristics', 'functional']] : []),
+            ]));
+        }
+        if (isScalar(term)) {
+            const enumeration = members.map(m => (m as typeof term).ownedEnumeration).find(e => e !== undefined);
+            if (enumeration) {
+                sections.push('<h2>Values</h2>', `<ul>${enumeration.literals.map(literal => `<li><code>${escapeXml(getLexicalForm(literal))}</code></li>`).join('')}</ul>`);
+            }
+            const users = this.scalarProperties.filter(p => isScalarProperty(p) && p.ranges.some(r => r.ref && resolveMember(r.ref) === term));
+            if (users.length > 0) {
+                sections.push('<h2>Used by</h2>', `<ul>${users.map(p => `<li>${this.link(p, 1)}</li>`).join('')}</ul>`);
+            }
+        }
+
+        if (isEntity(term)) {
+            const types = [term, ...this.getAllSuperTerms(term)];
+            const from = (owner: AstNode) => owner === term ? '' : ` <span class="inherited">(from ${this.link(owner, 1)})</span>`;
+            const properties = this.scalarProperties.flatMap(property => {
+                const domains = (this.contributions.get(property) ?? [property]).flatMap(m => isScalarProperty(m) ? m.domains : []).map(r => r.ref && resolveMember(r.ref));
+                const owner = types.find(type => domains.includes(type as never));
+                if (!owner || !isScalarProperty(property)) return [];
+                const ranges = property.ranges.map(r => r.ref).filter(r => r !== undefined).map(r => resolveMember(r));
+                return [[`${this.link(property, 1)}${from(owner)}`, this.links(ranges), property.functional ? 'functional' : '']];
+            });
+            if (properties.length > 0) {
+                sections.push('<h2>Properties</h2>', this.renderTable(properties, ['Property', 'Range', '']));
+            }
+            const outgoing = this.relations.flatMap(relation => {
+                const owner = types.find(type => relation.sources.includes(type));
+                return owner ? [[`${this.linkRelation(relation)}${from(owner)}`, this.links(relation.targets)]] : [];
+            });
+            if (outgoing.length > 0) {
+                sections.push('<h2>Outgoing relations</h2>', this.renderTable(outgoing, ['Relation', 'To']));
+            }
+            const incoming = this.relations.flatMap(relation => {
+                const owner = types.find(type => relation.targets.includes(type));
+                return owner ? [[this.links(relation.sources), `${this.linkRelation(relation)}${from(owner)}`]] : [];
+            });
+            if (incoming.length > 0) {
+                sections.push('<h2>Incoming relations</h2>', this.renderTable(incoming, ['From', 'Relation']));
+            }
+            const restrictions = types.flatMap(type => (this.contributions.get(type) ?? [type])
+                .flatMap(member => (member as { ownedPropertyRestrictions?: AstNode[] }).ownedPropertyRestrictions ?? [])
+                .map(axiom => `<li><code>${escapeXml(getSourceText(axiom))}</code>${from(type)}</li>`));
+            if (restrictions.length > 0) {
+                sections.push('<h2>Restrictions</h2>', `<ul>${restrictions.join('')}</ul>`);
+            }
+            const keys = types.flatMap(type => (this.contributions.get(type) ?? [type])
+                .flatMap(member => (member as { ownedKeys?: AstNode[] }).ownedKeys ?? [])
+                .map(axiom => `<li><code>${escapeXml(getSourceText(axiom))}</code>${from(type)}</li>`));
+            if (keys.length > 0) {
+                sections.push('<h2>Keys</h2>', `<ul>${keys.join('')}</ul>`);
+            }
+            const enumeration = members.map(m => (m as { ownedEnumeration?: AstNode }).ownedEnumeration).find(e => e !== undefined);
+            if (enumeration) {
+                sections.push('<h2>Instances</h2>', `<p><code>${escapeXml(getSourceText(enumeration))}</code></p>`);
+            }
+        }
+
+        const neighborhood = getDiagramNeighborhood(diagram, term.name!);
+        const svg = renderDiagramSvg(neighborhood, id => this.getDiagramHref(vocabulary, id, 1));
+        if (svg) {
+            sections.push('<h2>Diagram</h2>', `<div class="diagram-box">${svg}</div>`);
+        }
+        return sections.filter(section => section !== '').join('\n');
+    }
+
+    protected renderAnnotations(annotations: Annotation[], depth: number): string {
+        const rows = annotations.map(annotation => {
+            const property = annotation.property?.ref;
+            const name = property ? this.link(resolveMember(property), depth) : escapeXml(annotation.property?.$refText ?? '');
+            const values = [
+                ...annotation.literalValues.map(literal => escapeXml(getLexicalForm(literal))),
+                ...annotation.referencedValues.map(r => r.ref ? this.link(resolveMember(r.ref), depth) : escapeXml(r.$refText)),
+            ];
+            return [name, values.join(', ')];
+        });
+        return rows.length > 0 ? `<h2>Annotations</h2>\n${this.renderTable(rows)}` : '';
+    }
+
+    protected renderAxioms(axioms: AstNode[]): string {
+        return `<ul>${axioms.map(axiom => `<li><code>${escapeXml(getSourceText(axiom))}</code></li>`).join('')}</ul>`;
+    }
+
+    protected renderTable(rows: string[][], headers?: string[]): string {
+        const head = headers ? `<tr>${headers.map(h => `<th>${h}</th>`).join('')}</tr>` : '';
+        return `<table>${head}${rows.map(row => `<tr>${row.map((cell, index) => !headers && index === 0 ? `<th>${cell}</th>` : `<td>${cell}</td>`).join('')}</tr>`).join('')}</table>`;
+    }
+
+    protected renderPage(title: string, depth: number, body: string): string {
+        const root = depth > 0 ? '../' : '';
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body>
+<header><a href="${root}index.html">${escapeXml(this.options.title ?? 'Vocabularies')}</a></header>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+    }
+
+    protected link(node: AstNode, depth: number): string {
+        const ontology = node as DocumentedOntology;
+        const page = this.directories.has(ontology) ? `${this.directories.get(ontology)}/index.html` : this.pages.get(node);
+        const label = this.directories.has(ontology) ? ontology.prefix : this.getQualifiedName(node);
+        return page ? `<a href="${escapeXml(`${depth > 0 ? '../' : ''}${encodeURI(page)}`)}">${escapeXml(label)}</a>` : `<code>${escapeXml(label)}</code>`;
+    }
+
+    protected links(nodes: AstNode[]): string {
+        return [...new Set(nodes)].map(node => this.link(node, 1)).join(', ');
+    }
+
+    protected linkRelation(relation: Relation): string {
+        const page = this.pages.get(relation.term);
+        const label = `${this.getOntologyPrefix(relation.term)}:${relation.name}`;
+        return page ? `<a href="../${escapeXml(encodeURI(page))}${relation.anchor ? `#${relation.anchor}` : ''}">${escapeXml(label)}</a>` : `<code>${escapeXml(label)}</code>`;
+    }
+
+    /**
+     * Returns the page of a diagram node: the ids of the diagram of a vocabulary are the names
+     * of its members, or the prefix of an import and a name.
+     */
+    protected getDiagramHref(vocabulary: Vocabulary, id: string, depth: number): string | undefined {
+        const [prefix, name] = id.includes(':') ? id.split(':', 2) : [undefined, id];
+        const ontology = prefix === undefined
+            ? vocabulary
+            : vocabulary.ownedImports.find(imp => (imp.prefix ?? imp.imported?.ref?.prefix) === prefix)?.imported?.ref;
+        const member = ontology && isVocabulary(ontology)
+            ? ontology.ownedStatements.find(s => (s as Term).name === name && this.pages.has(s))
+            : undefined;
+        const page = member && this.pages.get(member);
+        return page ? `${depth > 0 ? '../' : ''}${encodeURI(page)}` : undefined;
+    }
+
+    protected getAllSuperTerms(term: AstNode): Set<AstNode> {
+        const result = new Set<AstNode>();
+        const visit = (current: AstNode) => {
+            for (const superTerm of this.superTerms.get(current) ?? []) {
+                if (!result.has(superTerm) && superTerm !== term) {
+                    result.add(superTerm);
+                    visit(superTerm);
+                }
+            }
+        };
+        visit(term);
+        return result;
+    }
+
+    protected getDescription(node: AstNode): string | undefined {
+        const annotations = (this.contributions.get(node) ?? [node as Term]).flatMap(member => (member as Term).ownedAnnotations ?? []);
+        const description = annotations.find(a => a.property?.ref?.name === 'description' || a.property?.$refText.endsWith(':description'));
+        return description?.literalValues[0] ? getLexicalForm(description.literalValues[0]) : undefined;
+    }
+
+    protected getQualifiedName(node: AstNode): string {
+        return `${this.getOntologyPrefix(node)}:${(node as Term).name ?? ''}`;
+    }
+
+    protected getOntologyPrefix(node: AstNode): string {
+        let container: AstNode | undefined = node;
+        while (container && !isVocabulary(container)) {
+            container = container.$container;
+        }
+        return container ? (container as Vocabulary).prefix : '';
+    }
+
+    protected async write(file: string, content: string): Promise<void> {
+        const target = path.join(this.options.outDir, file);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, content, 'utf-8');
+        this.files.push(target);
+    }
+}
+
+function getSourceText(node: AstNode): string {
+    return (node.$cstNode?.text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function toFileName(name: string): string {
+    return name.replace(/[^\w.-]/g, '_').replace(/^\./, '_');
+}
+
+/**
+ * Returns a name not used yet, also when compared without case (for case-insensitive file systems).
+ */
+function unique(name: string, used: Set<string>): string {
+    let candidate = name;
+    for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+        candidate = `${name}-${i}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+}
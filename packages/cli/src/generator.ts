@@ -1,25 +1,203 @@
-import type { Ontology } from 'oml-language';
+import type { AstNode } from 'langium';
+import type { Entity, Ontology, Scalar, SemanticProperty } from 'oml-language';
 import { expandToNode, joinToNode, toString } from 'langium/generate';
-import { isVocabulary } from 'oml-language';
+import {
+    getJsonEnumeration, getJsonScalarType, getStandardName, isAspect, isConcept, isEntity, isFunctionalProperty, isRelationEntity, isScalar,
+    isScalarProperty, isUnreifiedRelation, isVocabulary, JsonNaming, OntologyClosure, resolveMember
+} from 'oml-language';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { extractDestinationAndName } from './util.js';
 
-export function generateJavaScript(model: Ontology, filePath: string, destination: string | undefined): string {
+/**
+ * Generates TypeScript types for the descriptions using the vocabularies of an ontology and its
+ * imports, as exported to JSON by `export --format json`: an interface per concept, aspect and
+ * relation entity, a type per scalar, type guards and a loader for description exports.
+ */
+export function generateTypeScript(model: Ontology, filePath: string, destination: string | undefined): string {
     const data = extractDestinationAndName(filePath, destination);
-    const generatedFilePath = `${path.join(data.destination, data.name)}.js`;
-
-    const concepts = isVocabulary(model) ? model.ownedStatements.filter(s => (s as any).$type === 'Concept') : [];
-
-    const fileNode = expandToNode`
-        "use strict";
-
-        ${joinToNode(concepts, (c: any) => `console.log('Concept: ${c.name}');`, { appendNewLineIfNotEmpty: true })}
-    `.appendNewLineIfNotEmpty();
+    const generatedFilePath = `${path.join(data.destination, data.name)}.ts`;
 
     if (!fs.existsSync(data.destination)) {
         fs.mkdirSync(data.destination, { recursive: true });
     }
-    fs.writeFileSync(generatedFilePath, toString(fileNode));
+    fs.writeFileSync(generatedFilePath, new TypeScriptGenerator(model).generate());
     return generatedFilePath;
 }
+
+class TypeScriptGenerator {
+
+    protected readonly closure: OntologyClosure;
+    protected readonly naming: JsonNaming;
+    protected readonly entities: Entity[];
+    protected readonly scalars: Scalar[];
+    protected readonly properties: SemanticProperty[];
+    protected readonly identifiers = new Map<AstNode, string>();
+
+    constructor(protected readonly model: Ontology) {
+        this.closure = new OntologyClosure(model);
+        this.naming = new JsonNaming(this.closure.ontologies);
+        const statements = this.closure.ontologies
+            .filter(isVocabulary)
+            .flatMap(vocabulary => vocabulary.ownedStatements)
+            .filter(statement => resolveMember(statement) === statement);
+        this.entities = statements.filter(isEntity);
+        this.scalars = statements.filter(isScalar).filter(scalar => !getStandardName(scalar));
+        this.properties = statements.flatMap((statement): SemanticProperty[] => {
+            if (isScalarProperty(statement)) return [statement];
+            if (isRelationEntity(statement)) return [statement.forwardRelation, statement.reverseRelation].filter(r => r !== undefined);
+            if (isUnreifiedRelation(statement)) return [statement, statement.reverseRelation].filter(r => r !== undefined);
+            return [];
+        });
+        const used = new Set(['OmlInstance', 'Reference', 'Related', 'DescriptionModel']);
+        for (const type of [...this.entities, ...this.scalars]) {
+            const name = this.naming.getTypeName(type);
+            let identifier = name.split(':').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('').replace(/[^\w$]/g, '_');
+            while (used.has(identifier)) {
+                identifier = `${identifier}_`;
+            }
+            used.add(identifier);
+            this.identifiers.set(type, identifier);
+        }
+    }
+
+    generate(): string {
+        const untyped = this.properties.filter(property => this.closure.getDomains(property).length === 0);
+        const fileNode = expandToNode`
+            // Generated by oml-cli from ${this.model.namespace} and the ontologies it imports. Do not edit.
+
+            /** The IRI of an instance, typed by the instances it may refer to */
+            export type Reference<T extends OmlInstance = OmlInstance> = string & { readonly __target?: T };
+
+            /** An instance referenced by its IRI, or contained in its subject */
+            export type Related<T extends OmlInstance = OmlInstance> = Reference<T> | T;
+
+            /** An instance of a description export; named instances have an IRI */
+            export interface OmlInstance {
+                '@id'?: string;
+                '@type'?: string[];
+                ${joinToNode(untyped, property => this.generateField(property), { appendNewLineIfNotEmpty: true })}
+            }
+
+            ${joinToNode(this.scalars, scalar => this.generateScalar(scalar), { separator: '\n', appendNewLineIfNotEmpty: true })}
+
+            ${joinToNode(this.entities, entity => this.generateInterface(entity), { separator: '\n', appendNewLineIfNotEmpty: true })}
+
+            /** The type names of each type and of its subtypes */
+            const SUBTYPES: Record<string, readonly string[]> = {
+                ${joinToNode(this.entities, entity => `${JSON.stringify(this.naming.getTypeName(entity))}: [${this.getSubtypeNames(entity).map(name => JSON.stringify(name)).join(', ')}],`, { appendNewLineIfNotEmpty: true })}
+            };
+
+            /**
+             * Whether a value is an instance of the type with the given name, or of one of its subtypes.
+             */
+            export function hasType(value: unknown, type: string): boolean {
+                const types = (value as OmlInstance | null)?.['@type'];
+                return Array.isArray(types) && types.some(name => (SUBTYPES[type] ?? [type]).includes(name));
+            }
+
+            ${joinToNode(this.entities, entity => this.generateTypeGuard(entity), { separator: '\n', appendNewLineIfNotEmpty: true })}
+
+            /** The instances of a description export, indexed by IRI */
+            export interface DescriptionModel {
+                readonly iri: string;
+                readonly instances: OmlInstance[];
+                get(iri: string): OmlInstance | undefined;
+                resolve<T extends OmlInstance>(value: Related<T>): T | undefined;
+                resolveAll<T extends OmlInstance>(values: Related<T> | Related<T>[] | undefined): T[];
+                instancesOf<T extends OmlInstance>(guard: (value: unknown) => value is T): T[];
+            }
+
+            /**
+             * Loads a description exported by \`export --format json\`, given as text or parsed JSON.
+             */
+            export function loadDescription(json: unknown): DescriptionModel {
+                const data = typeof json === 'string' ? JSON.parse(json) : json;
+                if (typeof data !== 'object' || data === null || !Array.isArray((data as { instances?: unknown }).instances)) {
+                    throw new Error('Not a description export: expected an object with an "instances" array');
+                }
+                const instances = (data as { instances: OmlInstance[] }).instances;
+                const index = new Map<string, OmlInstance>();
+                for (const instance of instances) {
+                    if (instance['@id']) {
+                        index.set(instance['@id'], instance);
+                    }
+                }
+                const resolve = <T extends OmlInstance>(value: Related<T>): T | undefined =>
+                    typeof value === 'string' ? index.get(value) as T | undefined : value;
+                return {
+                    iri: String((data as { '@id'?: unknown })['@id'] ?? ''),
+                    instances,
+                    get: iri => index.get(iri),
+                    resolve,
+                    resolveAll: values => (Array.isArray(values) ? values : values === undefined ? [] : [values])
+                        .map(value => resolve(value))
+                        .filter((value): value is NonNullable<typeof value> => value !== undefined),
+                    instancesOf: guard => instances.filter(guard),
+                };
+            }
+        `.appendNewLineIfNotEmpty();
+        return toString(fileNode);
+    }
+
+    protected generateScalar(scalar: Scalar): string {
+        const enumeration = getJsonEnumeration(scalar, this.closure);
+        const type = enumeration ? enumeration.map(value => JSON.stringify(value)).join(' | ') : this.getPrimitiveType(scalar);
+        return `/** Scalar ${this.getQualifiedName(scalar)} */\nexport type ${this.identifiers.get(scalar)} = ${type};`;
+    }
+
+    protected generateInterface(entity: Entity): string {
+        const kind = isConcept(entity) ? 'Concept' : isAspect(entity) ? 'Aspect' : 'Relation entity';
+        const superTypes = this.closure.getDirectSuperTerms(entity).filter(isEntity).map(type => this.identifiers.get(resolveMember(type))).filter(name => name !== undefined);
+        const fields: string[] = [];
+        if (isRelationEntity(entity)) {
+            const ends = (references: { ref?: Entity }[]) => this.getReferenceType(references.map(r => r.ref).filter(type => type !== undefined));
+            fields.push(`from?: ${ends(entity.sources)}[];`, `to?: ${ends(entity.targets)}[];`);
+        }
+        const properties = this.properties.filter(property => this.closure.getDomains(property).some(domain => resolveMember(domain) === entity));
+        fields.push(...properties.map(property => this.generateField(property)));
+        const body = fields.length > 0 ? ` {\n${fields.map(field => `    ${field}`).join('\n')}\n}` : ' {}';
+        const extendsClause = [...new Set(superTypes.length > 0 ? superTypes : ['OmlInstance'])].join(', ');
+        return `/** ${kind} ${this.getQualifiedName(entity)} */\nexport interface ${this.identifiers.get(entity)} extends ${extendsClause}${body}`;
+    }
+
+    protected generateField(property: SemanticProperty): string {
+        const ranges = this.closure.getRanges(property);
+        let type: string;
+        if (isScalarProperty(property)) {
+            const types = ranges.filter(isScalar).map(scalar => this.identifiers.get(resolveMember(scalar)) ?? this.getPrimitiveType(scalar));
+            type = types.length > 0 ? [...new Set(types)].join(' | ') : 'string | number | boolean';
+        } else {
+            type = `Related<${this.getReferenceType(ranges.filter(isEntity)).replace(/^Reference<(.*)>$/, '$1')}>`;
+        }
+        const key = this.naming.getPropertyName(property);
+        const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+        return isFunctionalProperty(property) ? `${name}?: ${type};` : `${name}?: ${type.includes('|') ? `(${type})` : type}[];`;
+    }
+
+    protected generateTypeGuard(entity: Entity): string {
+        const name = this.identifiers.get(entity)!;
+        return `export function is${name.charAt(0).toUpperCase()}${name.slice(1)}(value: unknown): value is ${name} {\n    return hasType(value, ${JSON.stringify(this.naming.getTypeName(entity))});\n}`;
+    }
+
+    protected getReferenceType(types: AstNode[]): string {
+        const names = types.map(type => this.identifiers.get(resolveMember(type))).filter(name => name !== undefined);
+        return `Reference<${names.length > 0 ? [...new Set(names)].join(' & ') : 'OmlInstance'}>`;
+    }
+
+    protected getPrimitiveType(scalar: Scalar): string {
+        const type = getJsonScalarType(scalar, this.closure);
+        return type === 'integer' ? 'number' : type;
+    }
+
+    protected getSubtypeNames(entity: Entity): string[] {
+        return this.entities
+            .filter(other => this.closure.isSubTermOf(other, entity))
+            .map(other => this.naming.getTypeName(other));
+    }
+
+    protected getQualifiedName(member: AstNode): string {
+        const ontology = this.closure.ontologies.find(o => o === member.$container);
+        return `${ontology?.prefix ?? ''}:${(member as { name?: string }).name}`;
+    }
+}
@@ -1,13 +1,21 @@
-import type { Ontology } from 'oml-language';
-import { createOmlServices, OmlLanguageMetaData } from 'oml-language';
+import type { ConsistencyIssue, CsvImportMapping, Description, DescriptionBundle, MethodologyPlaybook, Ontology, RdfFormat, SemanticDiffInput, SemanticDiffResult, SparqlResult } from 'oml-language';
+import {
+    checkConsistency, computeSemanticDiff, formatSemanticDiff, exportInstancesCsv, exportRelationMatrixCsv, createOmlServices, enforcePlaybook, exportDescriptionJson, generateJsonLdContext, generateJsonSchema, findPlaybook, createSparqlDataset, detectRdfFormat, executeSparql, formatOmlDocument, formatSparqlTable, generateShapes, getCoveringBundles, getImportClosure, importOwlVocabularies,
+    isDescription, isDescriptionBundle, isOntology, isVocabulary, isVocabularyBundle, loadPlaybook, OmlLanguageMetaData, parseRdf, planInstancesCsvImport, RDF_FORMATS, serializeGraph, serializeOntology, toSparqlJson
+} from 'oml-language';
 import chalk from 'chalk';
 import { Command } from 'commander';
-import { extractAstNode } from './util.js';
-import { generateJavaScript } from './generator.js';
+import { collectOmlFiles, extractWorkspaceDocument, extractWorkspaceDocuments } from './util.js';
+import { formatReport, getExitCode, REPORT_FORMATS } from './reporters.js';
+import type { IssueSeverity, ReportFormat, ValidationIssue } from './reporters.js';
+import { generateTypeScript } from './generator.js';
+import { generateDocs } from './docs.js';
 import { NodeFileSystem } from 'langium/node';
 import * as url from 'node:url';
 import * as fs from 'node:fs/promises';
+import { existsSync } from 'node:fs';
 import * as path from 'node:path';
+import { AstUtils, URI } from 'langium';
 const __dirname = url.fileURLToPath(new URL('.', import.meta.url));
 
 const packagePath = path.resolve(__dirname, '..', 'package.json');
@@ -15,13 +23,606 @@ const packageContent = await fs.readFile(packagePath, 'utf-8');
 
 export const generateAction = async (fileName: string, opts: GenerateOptions): Promise<void> => {
     const services = createOmlServices(NodeFileSystem).Oml;
-    const model = await extractAstNode<Ontology>(fileName, services);
-    const generatedFilePath = generateJavaScript(model, fileName, opts.destination);
-    console.log(chalk.green(`JavaScript code generated successfully: ${generatedFilePath}`));
+    const document = await extractWorkspaceDocument(fileName, services, opts.workspace);
+    const generatedFilePath = generateTypeScript(document.parseResult.value as Ontology, fileName, opts.destination);
+    console.log(chalk.green(`TypeScript types generated successfully: ${generatedFilePath}`));
 };
 
 export type GenerateOptions = {
     destination?: string;
+    workspace?: string;
+}
+
+export const formatAction = async (paths: string[], opts: FormatOptions): Promise<void> => {
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const files = collectOmlFiles(paths, services.LanguageMetaData.fileExtensions);
+    const options = { tabSize: Number(opts.tabSize ?? 4), insertSpaces: !opts.useTabs };
+
+    let unformatted = 0;
+    let failed = 0;
+    for (const file of files) {
+        const document = await services.shared.workspace.LangiumDocuments.getOrCreateDocument(URI.file(file));
+        const relative = path.relative(process.cwd(), file);
+        if (document.parseResult.lexerErrors.length > 0 || document.parseResult.parserErrors.length > 0) {
+            console.error(chalk.red(`${relative}: skipped, the file has syntax errors`));
+            failed++;
+            continue;
+        }
+        const original = document.textDocument.getText();
+        const formatted = await formatOmlDocument(services, document, options);
+        if (formatted === original) {
+            continue;
+        }
+        unformatted++;
+        if (opts.check) {
+            console.log(chalk.yellow(`${relative}: not formatted`));
+        } else {
+            await fs.writeFile(file, formatted, 'utf-8');
+            console.log(chalk.green(`${relative}: formatted`));
+        }
+    }
+
+    if (opts.check) {
+        console.log(unformatted === 0
+            ? chalk.green(`All ${files.length - failed} file(s) are formatted.`)
+            : chalk.yellow(`${unformatted} of ${files.length - failed} file(s) need formatting.`));
+    }
+    if (failed > 0 || (opts.check && unformatted > 0)) {
+        process.exitCode = 1;
+    }
+};
+
+export type FormatOptions = {
+    check?: boolean;
+    tabSize?: string;
+    useTabs?: boolean;
+}
+
+export const exportAction = async (fileName: string, opts: ExportOptions): Promise<void> => {
+    const format = opts.format ?? 'turtle';
+    if (format !== 'json' && !RDF_FORMATS.includes(format as RdfFormat)) {
+        console.error(chalk.red(`Unknown format '${format}'. Use one of: ${[...RDF_FORMATS, 'json'].join(', ')}.`));
+        process.exitCode = 1;
+        return;
+    }
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const document = await extractWorkspaceDocument(fileName, services, opts.workspace);
+    const ontology = document.parseResult.value as Ontology;
+    if (format === 'json' && !isDescription(ontology) && !isDescriptionBundle(ontology)) {
+        console.error(chalk.red(`${fileName}: only descriptions and description bundles are exported to JSON`));
+        process.exitCode = 1;
+        return;
+    }
+    const output = format === 'json'
+        ? `${JSON.stringify(exportDescriptionJson(ontology as Description | DescriptionBundle), null, 2)}\n`
+        : serializeOntology(ontology, format as RdfFormat, { closure: opts.closure });
+    if (opts.out) {
+        await fs.mkdir(path.dirname(path.resolve(opts.out)), { recursive: true });
+        await fs.writeFile(opts.out, output, 'utf-8');
+        console.log(chalk.green(`Exported ${path.relative(process.cwd(), path.resolve(fileName))} to ${opts.out}`));
+    } else {
+        process.stdout.write(output);
+    }
+};
+
+export type ExportOptions = {
+    format?: string;
+    out?: string;
+    closure?: boolean;
+    workspace?: string;
+}
+
+export const importAction = async (fileName: string, opts: ImportOptions): Promise<void> => {
+    const format = opts.format as RdfFormat | undefined;
+    if (format && !RDF_FORMATS.includes(format)) {
+        console.error(chalk.red(`Unknown format '${format}'. Use one of: ${RDF_FORMATS.join(', ')}.`));
+        process.exitCode = 1;
+        return;
+    }
+    const text = await fs.readFile(fileName, 'utf-8');
+    let parsed: ReturnType<typeof parseRdf>;
+    try {
+        parsed = parseRdf(text, format ?? detectRdfFormat(fileName, text), url.pathToFileURL(path.resolve(fileName)).href);
+    } catch (error) {
+        console.error(chalk.red(`${fileName}: ${error instanceof Error ? error.message : String(error)}`));
+        process.exitCode = 1;
+        return;
+    }
+    const result = importOwlVocabularies(parsed.graph, { prefixes: parsed.prefixes, printer: { indent: '    ' } });
+    if (result.vocabularies.length === 0) {
+        console.error(chalk.red(`No ontology or term declarations found in ${fileName}`));
+        process.exitCode = 1;
+    }
+
+    const outDir = opts.outDir ?? process.cwd();
+    for (const vocabulary of result.vocabularies) {
+        const target = path.join(outDir, vocabulary.path);
+        const relative = path.relative(process.cwd(), target);
+        if (opts.dryRun) {
+            console.log(chalk.bold(`// ${relative}`));
+            console.log(vocabulary.text);
+            continue;
+        }
+        if (!opts.force && await fs.access(target).then(() => true, () => false)) {
+            console.error(chalk.red(`${relative}: already exists, use --force to overwrite`));
+            process.exitCode = 1;
+            continue;
+        }
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, vocabulary.text, 'utf-8');
+        console.log(chalk.green(`${relative}: imported <${vocabulary.namespace}>`));
+    }
+
+    for (const unsupported of result.unsupported) {
+        console.warn(chalk.yellow(`unsupported: ${unsupported.subject} ${unsupported.construct}: ${unsupported.reason}`));
+    }
+    if (result.unsupported.length > 0 && opts.strict) {
+        process.exitCode = 1;
+    }
+};
+
+export type ImportOptions = {
+    format?: string;
+    outDir?: string;
+    dryRun?: boolean;
+    force?: boolean;
+    strict?: boolean;
+}
+
+export const shaclAction = async (fileName: string, opts: ShaclOptions): Promise<void> => {
+    const format = (opts.format ?? 'turtle') as RdfFormat;
+    if (!RDF_FORMATS.includes(format)) {
+        console.error(chalk.red(`Unknown format '${format}'. Use one of: ${RDF_FORMATS.join(', ')}.`));
+        process.exitCode = 1;
+        return;
+    }
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const document = await extractWorkspaceDocument(fileName, services, opts.workspace);
+    const ontology = document.parseResult.value as Ontology;
+    if (isDescription(ontology) || isDescriptionBundle(ontology)) {
+        console.error(chalk.red(`${fileName}: shapes are generated from vocabularies or vocabulary bundles`));
+        process.exitCode = 1;
+        return;
+    }
+    const playbook = opts.playbook ? loadPlaybook(opts.playbook) : undefined;
+    const result = generateShapes(ontology, { closure: opts.closure, playbook });
+    for (const warning of result.warnings) {
+        console.warn(chalk.yellow(`playbook: ${warning}`));
+    }
+    const output = serializeGraph(result.graph, format, result.prefixes);
+    if (opts.out) {
+        await fs.mkdir(path.dirname(path.resolve(opts.out)), { recursive: true });
+        await fs.writeFile(opts.out, output, 'utf-8');
+        console.log(chalk.green(`Generated ${result.shapeCount.vocabulary + result.shapeCount.playbook} shape(s) for ${path.relative(process.cwd(), path.resolve(fileName))} in ${opts.out}`));
+    } else {
+        process.stdout.write(output);
+    }
+};
+
+export type ShaclOptions = {
+    format?: string;
+    out?: string;
+    closure?: boolean;
+    playbook?: string;
+    workspace?: string;
+}
+
+export const jsonSchemaAction = async (fileName: string, opts: JsonSchemaOptions): Promise<void> => {
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const document = await extractWorkspaceDocument(fileName, services, opts.workspace);
+    const ontology = document.parseResult.value as Ontology;
+    if (isDescription(ontology) || isDescriptionBundle(ontology)) {
+        console.error(chalk.red(`${fileName}: schemas are generated from vocabularies or vocabulary bundles`));
+        process.exitCode = 1;
+        return;
+    }
+    const schema = `${JSON.stringify(generateJsonSchema(ontology), null, 2)}\n`;
+    if (opts.out) {
+        await fs.mkdir(path.dirname(path.resolve(opts.out)), { recursive: true });
+        await fs.writeFile(opts.out, schema, 'utf-8');
+        console.log(chalk.green(`Generated the JSON Schema of ${path.relative(process.cwd(), path.resolve(fileName))} in ${opts.out}`));
+    } else {
+        process.stdout.write(schema);
+    }
+    if (opts.context) {
+        await fs.mkdir(path.dirname(path.resolve(opts.context)), { recursive: true });
+        await fs.writeFile(opts.context, `${JSON.stringify(generateJsonLdContext(ontology), null, 2)}\n`, 'utf-8');
+        console.error(chalk.green(`Generated the JSON-LD context of ${path.relative(process.cwd(), path.resolve(fileName))} in ${opts.context}`));
+    }
+};
+
+export type JsonSchemaOptions = {
+    out?: string;
+    context?: string;
+    workspace?: string;
+}
+
+export const importCsvAction = async (csvFile: string, opts: ImportCsvOptions): Promise<void> => {
+    const workspace = path.resolve(opts.workspace ?? process.cwd());
+    let mapping: CsvImportMapping;
+    try {
+        mapping = opts.mapping ? JSON.parse(await fs.readFile(opts.mapping, 'utf-8')) : { nameColumn: '' };
+        mapping = {
+            ...mapping,
+            ...(opts.name ? { nameColumn: opts.name } : {}),
+            ...(opts.type ? { type: opts.type } : {}),
+            ...(opts.typeColumn ? { typeColumn: opts.typeColumn } : {}),
+            ...(opts.separator ? { separator: opts.separator } : {}),
+            ...(opts.delimiter ? { delimiter: opts.delimiter } : {}),
+            properties: { ...mapping.properties, ...parseColumnMappings(opts.property ?? []) },
+            relations: { ...mapping.relations, ...parseColumnMappings(opts.relation ?? []) },
+        };
+    } catch (error) {
+        console.error(chalk.red(`${opts.mapping ?? 'mapping'}: ${error instanceof Error ? error.message : String(error)}`));
+        process.exitCode = 1;
+        return;
+    }
+    if (!mapping.nameColumn) {
+        console.error(chalk.red('Give the column of the instance names with --name or in the --mapping file.'));
+        process.exitCode = 1;
+        return;
+    }
+    try {
+        const target = opts.description ? path.resolve(opts.description) : undefined;
+        const services = createOmlServices(NodeFileSystem).Oml;
+        const documents = await extractWorkspaceDocuments(services, workspace, target && existsSync(target) ? [target] : []);
+        const result = planInstancesCsvImport(await fs.readFile(csvFile, 'utf-8'), {
+            mapping,
+            documents,
+            workspace,
+            target,
+            namespace: opts.namespace,
+            prefix: opts.prefix,
+            playbookPath: opts.playbook ? path.resolve(opts.playbook) : undefined,
+        });
+        for (const file of result.files) {
+            if (!opts.dryRun) {
+                await fs.mkdir(path.dirname(file.path), { recursive: true });
+                await fs.writeFile(file.path, file.content, 'utf-8');
+            }
+            const relative = path.relative(process.cwd(), file.path);
+            console.log(chalk.green(`${relative}: ${opts.dryRun ? 'would import' : 'imported'} ${file.instances.length} instance(s)${file.created ? ' into a new description' : ''}`));
+        }
+        for (const error of result.errors) {
+            console.error(chalk.red(`${csvFile}:${error.line}: ${error.name ? `${error.name}: ` : ''}${error.message}`));
+        }
+        if (result.errors.length > 0) {
+            process.exitCode = 1;
+        }
+    } catch (error) {
+        console.error(chalk.red(`${csvFile}: ${error instanceof Error ? error.message : String(error)}`));
+        process.exitCode = 1;
+    }
+};
+
+function parseColumnMappings(entries: string[]): Record<string, string> {
+    const mappings: Record<string, string> = {};
+    for (const entry of entries) {
+        const index = entry.lastIndexOf('=');
+        if (index <= 0 || index === entry.length - 1) {
+            throw new Error(`"${entry}" is not column=name`);
+        }
+        mappings[entry.substring(0, index)] = entry.substring(index + 1);
+    }
+    return mappings;
+}
+
+export type ImportCsvOptions = {
+    description?: string;
+    mapping?: string;
+    name?: string;
+    type?: string;
+    typeColumn?: string;
+    property?: string[];
+    relation?: string[];
+    separator?: string;
+    delimiter?: string;
+    namespace?: string;
+    prefix?: string;
+    playbook?: string;
+    dryRun?: boolean;
+    workspace?: string;
+}
+
+export const exportCsvAction = async (fileName: string, opts: ExportCsvOptions): Promise<void> => {
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const document = await extractWorkspaceDocument(fileName, services, opts.workspace);
+    const ontology = document.parseResult.value as Ontology;
+    if (!isDescription(ontology) && !isDescriptionBundle(ontology)) {
+        console.error(chalk.red(`${fileName}: instances are exported from descriptions or description bundles`));
+        process.exitCode = 1;
+        return;
+    }
+    let csv: string;
+    try {
+        csv = opts.matrix
+            ? exportRelationMatrixCsv(ontology, { rowType: opts.type, columnType: opts.matrix, relation: opts.relation, separator: opts.separator, delimiter: opts.delimiter })
+            : exportInstancesCsv(ontology, { type: opts.type, columns: opts.column, separator: opts.separator, delimiter: opts.delimiter });
+    } catch (error) {
+        console.error(chalk.red(`${fileName}: ${error instanceof Error ? error.message : String(error)}`));
+        process.exitCode = 1;
+        return;
+    }
+    if (opts.out) {
+        await fs.mkdir(path.dirname(path.resolve(opts.out)), { recursive: true });
+        await fs.writeFile(opts.out, csv, 'utf-8');
+        console.log(chalk.green(`Exported ${opts.matrix ? `the ${opts.type} × ${opts.matrix} matrix` : `the ${opts.type} instances`} of ${path.relative(process.cwd(), path.resolve(fileName))} to ${opts.out}`));
+    } else {
+        process.stdout.write(csv);
+    }
+};
+
+export type ExportCsvOptions = {
+    type: string;
+    column?: string[];
+    matrix?: string;
+    relation?: string;
+    separator?: string;
+    delimiter?: string;
+    out?: string;
+    workspace?: string;
+}
+
+export const docsAction = async (files: string[], opts: DocsOptions): Promise<void> => {
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const workspace = path.resolve(opts.workspace ?? process.cwd());
+    const paths = files.map(file => path.resolve(file));
+    const documents = await extractWorkspaceDocuments(services, workspace, paths);
+    const roots = paths.length > 0
+        ? documents.filter(document => paths.includes(document.uri.fsPath))
+        : documents;
+    const ontologies = roots
+        .map(document => document.parseResult.value)
+        .filter(isOntology)
+        .filter(ontology => paths.length > 0 || isVocabulary(ontology) || isVocabularyBundle(ontology));
+    for (const file of paths.filter(file => !roots.some(document => document.uri.fsPath === file))) {
+        console.error(chalk.red(`File ${file} does not exist.`));
+        process.exitCode = 1;
+    }
+    if (ontologies.length === 0) {
+        console.error(chalk.red(paths.length > 0 ? 'No ontologies to document.' : `No vocabularies found in ${workspace}.`));
+        process.exitCode = 1;
+        return;
+    }
+    const outDir = path.resolve(opts.out ?? 'docs');
+    const written = await generateDocs(ontologies, services.shared, { outDir, title: opts.title });
+    console.log(chalk.green(`Documentation generated in ${path.relative(process.cwd(), outDir) || '.'} (${written.length} files)`));
+};
+
+export type DocsOptions = {
+    out?: string;
+    title?: string;
+    workspace?: string;
+}
+
+export const diffAction = async (oldVersion: string, newVersion: string | undefined, opts: DiffOptions): Promise<void> => {
+    const format = opts.format ?? 'text';
+    if (!['text', 'json'].includes(format)) {
+        console.error(chalk.red(`Unknown format '${format}'. Use one of: text, json.`));
+        process.exitCode = 1;
+        return;
+    }
+    // Existing paths are compared as they are; anything else is a git revision of --path
+    let oldInput: SemanticDiffInput;
+    let newInput: SemanticDiffInput;
+    if (existsSync(oldVersion)) {
+        if (!newVersion || !existsSync(newVersion)) {
+            console.error(chalk.red(`${newVersion ?? 'A new version'} is required to compare with ${oldVersion}, and must exist.`));
+            process.exitCode = 1;
+            return;
+        }
+        oldInput = { path: oldVersion };
+        newInput = { path: newVersion };
+    } else {
+        const scope = opts.path ?? process.cwd();
+        oldInput = { path: scope, revision: oldVersion };
+        newInput = { path: scope, revision: newVersion };
+    }
+    let result: SemanticDiffResult;
+    try {
+        result = await computeSemanticDiff(oldInput, newInput);
+    } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exitCode = 1;
+        return;
+    }
+    for (const error of result.errors) {
+        console.error(chalk.yellow(`Syntax error in ${error}`));
+    }
+    if (format === 'json') {
+        console.log(JSON.stringify(result.diff, null, 2));
+    } else {
+        const colors: Record<string, (text: string) => string> = { '+': chalk.green, '-': chalk.red, '~': chalk.yellow, '<': chalk.bold };
+        for (const line of formatSemanticDiff(result.diff).trimEnd().split('\n')) {
+            console.log((colors[line.trimStart()[0]] ?? String)(line));
+        }
+    }
+    if (opts.failOnBreaking && result.diff.summary.breaking > 0) {
+        process.exitCode = 1;
+    }
+};
+
+export type DiffOptions = {
+    path?: string;
+    format?: string;
+    failOnBreaking?: boolean;
+}
+
+export const queryAction = async (query: string | undefined, opts: QueryOptions): Promise<void> => {
+    const format = opts.format ?? 'table';
+    if (!['table', 'json', ...RDF_FORMATS].includes(format)) {
+        console.error(chalk.red(`Unknown format '${format}'. Use one of: table, json, ${RDF_FORMATS.join(', ')}.`));
+        process.exitCode = 1;
+        return;
+    }
+    const text = opts.file ? await fs.readFile(opts.file, 'utf-8') : query;
+    if (!text) {
+        console.error(chalk.red('Give a query, or a query file with --file.'));
+        process.exitCode = 1;
+        return;
+    }
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const documents = await extractWorkspaceDocuments(services, opts.workspace);
+    const { graph, prefixes } = createSparqlDataset(documents.map(d => d.parseResult.value).filter(isOntology));
+    let result: SparqlResult;
+    try {
+        result = executeSparql(graph, text, { prefixes });
+    } catch (error) {
+        console.error(chalk.red(`${opts.file ?? 'query'}: ${error instanceof Error ? error.message : String(error)}`));
+        process.exitCode = 1;
+        return;
+    }
+    if (format === 'json') {
+        console.log(JSON.stringify(toSparqlJson(result), null, 2));
+    } else if (format !== 'table') {
+        if (result.type !== 'CONSTRUCT') {
+            console.error(chalk.red(`The ${format} format is only available for CONSTRUCT queries.`));
+            process.exitCode = 1;
+            return;
+        }
+        process.stdout.write(serializeGraph(result.graph, format as RdfFormat, prefixes));
+    } else {
+        console.log(formatSparqlTable(result, prefixes));
+    }
+};
+
+export type QueryOptions = {
+    file?: string;
+    format?: string;
+    workspace?: string;
+}
+
+export const consistencyAction = async (fileName: string, opts: ConsistencyOptions): Promise<void> => {
+    const format = opts.format ?? 'human';
+    if (!['human', 'json'].includes(format)) {
+        console.error(chalk.red(`Unknown format '${format}'. Use one of: human, json.`));
+        process.exitCode = 1;
+        return;
+    }
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const document = await extractWorkspaceDocument(fileName, services, opts.workspace);
+    const ontology = document.parseResult.value as Ontology;
+    // Without a bundle of its own, the ontology is checked against the workspace bundles covering it
+    const candidates = services.shared.workspace.LangiumDocuments.all.map(d => d.parseResult.value).filter(isOntology).toArray();
+    const bundles = getImportClosure(ontology).some(isVocabularyBundle) ? [] : getCoveringBundles(ontology, candidates);
+    const report = checkConsistency(ontology, { bundles });
+    const location = (issue: ConsistencyIssue) => {
+        const file = path.relative(process.cwd(), AstUtils.getDocument(issue.node).uri.fsPath);
+        return `${file}:${(issue.node.$cstNode?.range.start.line ?? 0) + 1}`;
+    };
+
+    if (format === 'json') {
+        console.log(JSON.stringify({
+            bundles: report.bundles.map(bundle => bundle.namespace),
+            closedWorld: report.closedWorld?.namespace,
+            issues: report.issues.map(issue => ({ kind: issue.kind, location: location(issue), message: issue.message, explanation: issue.explanation })),
+        }, null, 2));
+    } else if (report.bundles.length === 0 && !report.closedWorld) {
+        console.log(chalk.yellow(`${fileName} is not covered by any vocabulary bundle; no disjointness to check.`));
+    } else {
+        for (const issue of report.issues) {
+            console.log(`${location(issue)}: ${chalk.red(issue.message)}`);
+            for (const line of issue.explanation) {
+                console.log(chalk.gray(`    ${line}`));
+            }
+        }
+        const checked = report.bundles.map(bundle => bundle.prefix).join(', ') || 'no vocabulary bundle';
+        if (report.issues.length === 0) {
+            console.log(chalk.green(`${fileName} is consistent (bundles: ${checked}).`));
+        } else {
+            console.log(chalk.red(`${report.issues.length} consistency issue(s) (bundles: ${checked}).`));
+        }
+    }
+    if (report.issues.length > 0) {
+        process.exitCode = 1;
+    }
+};
+
+export type ConsistencyOptions = {
+    format?: string;
+    workspace?: string;
+}
+
+export const validateAction = async (paths: string[], opts: ValidateOptions): Promise<void> => {
+    const format = (opts.format ?? 'human') as ReportFormat;
+    if (!REPORT_FORMATS.includes(format)) {
+        console.error(chalk.red(`Unknown format '${format}'. Use one of: ${REPORT_FORMATS.join(', ')}.`));
+        process.exitCode = 1;
+        return;
+    }
+    const failOn = (opts.failOn ?? 'error') as IssueSeverity | 'none';
+    if (!['error', 'warning', 'info', 'none'].includes(failOn)) {
+        console.error(chalk.red(`Unknown severity '${failOn}'. Use one of: error, warning, info, none.`));
+        process.exitCode = 1;
+        return;
+    }
+    const workspace = path.resolve(opts.workspace ?? process.cwd());
+    let playbook: MethodologyPlaybook | undefined;
+    if (opts.playbook) {
+        const playbookPath = opts.playbook === true ? findPlaybook(workspace) : opts.playbook;
+        if (!playbookPath) {
+            console.error(chalk.red(`No playbook found in ${workspace}; give one with --playbook <file>.`));
+            process.exitCode = 1;
+            return;
+        }
+        playbook = loadPlaybook(playbookPath);
+    }
+
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const files = collectOmlFiles(paths, services.LanguageMetaData.fileExtensions);
+    const documents = await extractWorkspaceDocuments(services, workspace, files);
+    const issues: ValidationIssue[] = [];
+    const severities: Record<number, IssueSeverity> = { 1: 'error', 2: 'warning', 3: 'info', 4: 'info' };
+    for (const document of documents.filter(d => files.includes(d.uri.fsPath))) {
+        const file = document.uri.fsPath;
+        for (const diagnostic of await services.validation.DocumentValidator.validateDocument(document)) {
+            const { start, end } = diagnostic.range;
+            const code = (diagnostic.data as { code?: string } | undefined)?.code ?? diagnostic.code;
+            issues.push({
+                file,
+                line: start.line + 1,
+                column: start.character + 1,
+                endLine: end.line + 1,
+                endColumn: end.character + 1,
+                severity: severities[diagnostic.severity ?? 1],
+                message: diagnostic.message,
+                rule: `oml/${code ?? 'validation'}`,
+            });
+        }
+        const root = document.parseResult.value;
+        if (playbook && isDescription(root)) {
+            for (const violation of enforcePlaybook(playbook, root, file).violations) {
+                const line = violation.location?.line ?? 1;
+                issues.push({
+                    file,
+                    line,
+                    column: 1,
+                    endLine: line,
+                    endColumn: 1,
+                    severity: violation.severity,
+                    message: violation.message,
+                    rule: `playbook/${violation.type}`,
+                });
+            }
+        }
+    }
+
+    const output = formatReport({ files, issues }, format, { root: process.cwd(), toolVersion: JSON.parse(packageContent).version });
+    if (opts.out) {
+        await fs.mkdir(path.dirname(path.resolve(opts.out)), { recursive: true });
+        await fs.writeFile(opts.out, output + '\n', 'utf-8');
+    } else {
+        console.log(output);
+    }
+    process.exitCode = getExitCode(issues, failOn);
+};
+
+export type ValidateOptions = {
+    format?: string;
+    out?: string;
+    failOn?: string;
+    playbook?: string | boolean;
+    workspace?: string;
 }
 
 export default function(): void {
@@ -34,8 +635,141 @@ export default function(): void {
         .command('generate')
         .argument('<file>', `source file (possible file extensions: ${fileExtensions})`)
         .option('-d, --destination <dir>', 'destination directory of generating')
-    .description('generates JavaScript code that lists concepts defined in a vocabulary source file')
+        .option('-w, --workspace <dir>', 'directory whose OML files are loaded to resolve imports', process.cwd())
+        .description('generates TypeScript types, type guards and a JSON loader for the descriptions of an ontology\'s vocabularies')
         .action(generateAction);
 
+    program
+        .command('format')
+        .argument('<paths...>', `source files or directories (possible file extensions: ${fileExtensions})`)
+        .option('-c, --check', 'only check formatting; exits with code 1 if any file is not formatted')
+        .option('--tab-size <n>', 'number of spaces per indentation level', '4')
+        .option('--use-tabs', 'indent with tabs instead of spaces')
+        .description('formats OML files in place, preserving comments')
+        .action(formatAction);
+
+    program
+        .command('export')
+        .argument('<file>', `source file (possible file extensions: ${fileExtensions})`)
+        .option('-f, --format <format>', `output format: ${RDF_FORMATS.join(', ')} or json (descriptions only)`, 'turtle')
+        .option('-o, --out <file>', 'output file; prints to stdout when omitted')
+        .option('--closure', 'also export the ontologies imported by the file, transitively (bundles always export their closure)')
+        .option('-w, --workspace <dir>', 'directory whose OML files are loaded to resolve imports', process.cwd())
+        .description('exports an ontology to OWL 2 in Turtle, N-Triples or RDF/XML, or a description to JSON')
+        .action(exportAction);
+
+    program
+        .command('import')
+        .argument('<file>', 'OWL file in Turtle, N-Triples or RDF/XML')
+        .option('-f, --format <format>', `input format: ${RDF_FORMATS.join(', ')}; detected from the file when omitted`)
+        .option('-o, --out-dir <dir>', 'directory the vocabularies are written to, one file per namespace', process.cwd())
+        .option('--dry-run', 'print the vocabularies instead of writing them')
+        .option('--force', 'overwrite existing vocabulary files')
+        .option('--strict', 'exit with code 1 when some constructs could not be imported')
+        .description('imports an OWL ontology as OML vocabularies, reporting the constructs it cannot map')
+        .action(importAction);
+
+    program
+        .command('shacl')
+        .argument('<file>', `vocabulary or vocabulary bundle (possible file extensions: ${fileExtensions})`)
+        .option('-f, --format <format>', `output format: ${RDF_FORMATS.join(', ')}`, 'turtle')
+        .option('-o, --out <file>', 'output file; prints to stdout when omitted')
+        .option('--closure', 'also generate shapes for the imported vocabularies, transitively (bundles always use their closure)')
+        .option('-p, --playbook <file>', 'methodology playbook whose description constraints are added as shapes')
+        .option('-w, --workspace <dir>', 'directory whose OML files are loaded to resolve imports', process.cwd())
+        .description('generates SHACL shapes from a vocabulary and, optionally, the constraints of a playbook')
+        .action(shaclAction);
+
+    program
+        .command('json-schema')
+        .argument('<file>', `vocabulary or vocabulary bundle (possible file extensions: ${fileExtensions})`)
+        .option('-o, --out <file>', 'output file for the JSON Schema; prints to stdout when omitted')
+        .option('-c, --context <file>', 'also write the JSON-LD context to this file')
+        .option('-w, --workspace <dir>', 'directory whose OML files are loaded to resolve imports', process.cwd())
+        .description('generates a JSON Schema and a JSON-LD context for descriptions exported to JSON')
+        .action(jsonSchemaAction);
+
+    const collect = (value: string, previous: string[] = []) => [...previous, value];
+    program
+        .command('import-csv')
+        .argument('<csv>', 'CSV file whose first row holds the column headers')
+        .option('-d, --description <file>', 'description the instances are added to (created with --namespace if missing); rows are routed by type when omitted')
+        .option('-m, --mapping <file>', 'JSON column mapping: { nameColumn, type, typeColumn, properties, relations, separator, delimiter }')
+        .option('--name <column>', 'column of the instance names')
+        .option('--type <type>', 'type of all instances')
+        .option('--type-column <column>', 'column of the instance types')
+        .option('--property <column=property>', 'column holding values of a scalar property (repeatable)', collect)
+        .option('--relation <column=relation>', 'column holding names of related instances (repeatable)', collect)
+        .option('--separator <text>', 'separator of several values in a cell (default: ";")')
+        .option('--delimiter <char>', 'field delimiter of the CSV file')
+        .option('--namespace <iri>', 'namespace of the description when it is created')
+        .option('--prefix <prefix>', 'prefix of the description when it is created')
+        .option('-p, --playbook <file>', 'methodology playbook used for routing (found in the workspace when omitted)')
+        .option('--dry-run', 'report the instances and row errors without changing files')
+        .option('-w, --workspace <dir>', 'directory whose OML files are loaded to resolve names', process.cwd())
+        .description('imports concept instances from the rows of a CSV file into descriptions, reporting errors per row')
+        .action(importCsvAction);
+
+    program
+        .command('export-csv')
+        .argument('<file>', `description or description bundle (possible file extensions: ${fileExtensions})`)
+        .requiredOption('-t, --type <type>', 'type whose instances, including those of its subtypes, are the rows')
+        .option('-c, --column <[header=]value>', 'column: @name, @iri, @types, a property, or ^relation for the instances relating to the row (repeatable; default: name, types and the properties of the type)', collect)
+        .option('-m, --matrix <type>', 'export the relation instances between the rows and the instances of this type as a matrix')
+        .option('-r, --relation <relation>', 'relation entity, or unreified relation, whose instances fill the matrix cells (default: all)')
+        .option('--separator <text>', 'separator of several values in a cell (default: "; ")')
+        .option('--delimiter <char>', 'field delimiter (default: ",")')
+        .option('-o, --out <file>', 'output file; prints to stdout when omitted')
+        .option('-w, --workspace <dir>', 'directory whose OML files are loaded to resolve imports', process.cwd())
+        .description('exports the instances of a type as CSV with configurable columns, or a relation matrix between two types')
+        .action(exportCsvAction);
+
+    program
+        .command('docs')
+        .argument('[files...]', 'ontologies to document with the vocabularies they import (default: all vocabularies and vocabulary bundles of the workspace)')
+        .option('-o, --out <dir>', 'output directory', 'docs')
+        .option('-t, --title <title>', 'title of the site')
+        .option('-w, --workspace <dir>', 'directory whose OML files are loaded', process.cwd())
+        .description('generates a static HTML site with a page per vocabulary and per term, diagrams and a search index')
+        .action(docsAction);
+
+    program
+        .command('diff')
+        .argument('<old>', 'old file or directory, or a git revision')
+        .argument('[new]', 'new file or directory, or a git revision (default for revisions: the working tree)')
+        .option('-p, --path <path>', 'file or directory compared between revisions', process.cwd())
+        .option('-f, --format <format>', 'output format: text or json', 'text')
+        .option('--fail-on-breaking', 'exit with 1 when there are breaking changes')
+        .description('compares two versions of ontologies by their ASTs: added, removed and changed terms, axioms, imports, instances and property values, with breaking changes')
+        .action(diffAction);
+
+    program
+        .command('query')
+        .argument('[query]', 'SPARQL SELECT, ASK or CONSTRUCT query; the prefixes of the workspace ontologies are predeclared')
+        .option('-F, --file <file>', 'read the query from a file')
+        .option('-f, --format <format>', `output format: table, json, or for CONSTRUCT ${RDF_FORMATS.join(', ')}`, 'table')
+        .option('-w, --workspace <dir>', 'directory whose OML files are queried', process.cwd())
+        .description('runs a SPARQL query over the RDF view of the OML files of a workspace')
+        .action(queryAction);
+
+    program
+        .command('validate')
+        .argument('<paths...>', `source files or directories (possible file extensions: ${fileExtensions})`)
+        .option('-f, --format <format>', `output format: ${REPORT_FORMATS.join(', ')}`, 'human')
+        .option('-o, --out <file>', 'output file; prints to stdout when omitted')
+        .option('--fail-on <severity>', 'lowest severity that fails the run: error, warning, info or none', 'error')
+        .option('-p, --playbook [file]', 'also enforce a methodology playbook on descriptions; searched in the workspace when no file is given')
+        .option('-w, --workspace <dir>', 'directory whose OML files are loaded to resolve imports', process.cwd())
+        .description('validates OML files; exits with 1 for errors, 2 for warnings or 3 for infos, down to --fail-on')
+        .action(validateAction);
+
+    program
+        .command('consistency')
+        .argument('<file>', `bundle, vocabulary or description (possible file extensions: ${fileExtensions})`)
+        .option('-f, --format <format>', 'output format: human, json', 'human')
+        .option('-w, --workspace <dir>', 'directory whose OML files are loaded to resolve imports and find bundles', process.cwd())
+        .description('reports unsatisfiable classes, inconsistent instances and closed-world violations under bundle disjointness')
+        .action(consistencyAction);
+
     program.parse(process.argv);
 }
@@ -0,0 +1,197 @@
+import chalk from 'chalk';
+import * as path from 'node:path';
+import * as url from 'node:url';
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A diagnostic of the OML validator or a playbook violation. Lines and columns are 1-based.
+ */
+export interface ValidationIssue {
+    file: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    severity: IssueSeverity;
+    message: string;
+    /** e.g. `oml/validation`, `oml/linking-error` or `playbook/wrong_direction` */
+    rule: string;
+}
+
+export interface ValidationReport {
+    /** The validated files, absolute */
+    files: string[];
+    issues: ValidationIssue[];
+}
+
+export const REPORT_FORMATS = ['human', 'json', 'sarif', 'junit'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export interface ReportOptions {
+    /** Directory file paths are reported relative to */
+    root: string;
+    toolVersion: string;
+}
+
+const SEVERITIES: IssueSeverity[] = ['error', 'warning', 'info'];
+
+export function formatReport(report: ValidationReport, format: ReportFormat, options: ReportOptions): string {
+    const issues = [...report.issues].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+    switch (format) {
+        case 'json': return formatJson(report, issues, options);
+        case 'sarif': return formatSarif(issues, options);
+        case 'junit': return formatJunit(report, issues, options);
+        default: return formatHuman(report, issues, options);
+    }
+}
+
+export function countBySeverity(issues: ValidationIssue[]): Record<IssueSeverity, number> {
+    const counts = { error: 0, warning: 0, info: 0 };
+    for (const issue of issues) {
+        counts[issue.severity]++;
+    }
+    return counts;
+}
+
+function relative(file: string, options: ReportOptions): string {
+    return path.relative(options.root, file).split(path.sep).join('/');
+}
+
+function formatHuman(report: ValidationReport, issues: ValidationIssue[], options: ReportOptions): string {
+    const lines: string[] = [];
+    const colors: Record<IssueSeverity, (text: string) => string> = { error: chalk.red, warning: chalk.yellow, info: chalk.blue };
+    let file: string | undefined;
+    for (const issue of issues) {
+        if (issue.file !== file) {
+            file = issue.file;
+            if (lines.length > 0) {
+                lines.push('');
+            }
+            lines.push(chalk.underline(relative(file, options)));
+        }
+        const position = `${issue.line}:${issue.column}`.padEnd(8);
+        lines.push(`  ${chalk.gray(position)} ${colors[issue.severity](issue.severity.padEnd(7))} ${issue.message}  ${chalk.gray(issue.rule)}`);
+    }
+    const counts = countBySeverity(issues);
+    if (issues.length === 0) {
+        lines.push(chalk.green(`No problems found in ${report.files.length} file(s).`));
+    } else {
+        const summary = `${issues.length} problem(s) in ${report.files.length} file(s): ${counts.error} error(s), ${counts.warning} warning(s), ${counts.info} info(s)`;
+        lines.push('', counts.error > 0 ? chalk.red(summary) : chalk.yellow(summary));
+    }
+    return lines.join('\n');
+}
+
+function formatJson(report: ValidationReport, issues: ValidationIssue[], options: ReportOptions): string {
+    return JSON.stringify({
+        files: report.files.map(file => relative(file, options)),
+        summary: countBySeverity(issues),
+        issues: issues.map(issue => ({ ...issue, file: relative(issue.file, options) })),
+    }, null, 2);
+}
+
+/**
+ * SARIF 2.1.0 log with one run; file locations are relative to the `%SRCROOT%` base,
+ * or absolute for files outside of it.
+ */
+function formatSarif(issues: ValidationIssue[], options: ReportOptions): string {
+    const rules = [...new Set(issues.map(issue => issue.rule))].sort();
+    const levels: Record<IssueSeverity, string> = { error: 'error', warning: 'warning', info: 'note' };
+    const sarif = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'oml-cli',
+                    version: options.toolVersion,
+                    rules: rules.map(id => ({ id, shortDescription: { text: describeRule(id) } })),
+                },
+            },
+            originalUriBaseIds: {
+                '%SRCROOT%': { uri: url.pathToFileURL(options.root + path.sep).href },
+            },
+            results: issues.map(issue => ({
+                ruleId: issue.rule,
+                ruleIndex: rules.indexOf(issue.rule),
+                level: levels[issue.severity],
+                message: { text: issue.message },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: getArtifactLocation(issue.file, options),
+                        region: {
+                            startLine: issue.line,
+                            startColumn: issue.column,
+                            endLine: issue.endLine,
+                            endColumn: issue.endColumn,
+                        },
+                    },
+                }],
+            })),
+        }],
+    };
+    return JSON.stringify(sarif, null, 2);
+}
+
+function getArtifactLocation(file: string, options: ReportOptions): { uri: string, uriBaseId?: string } {
+    const uri = relative(file, options);
+    return uri.startsWith('../') ? { uri: url.pathToFileURL(file).href } : { uri, uriBaseId: '%SRCROOT%' };
+}
+
+function describeRule(id: string): string {
+    const [source, name] = id.split('/');
+    return source === 'playbook' ? `Methodology playbook: ${name.replace(/_/g, ' ')}` : `OML ${name.replace(/-/g, ' ')}`;
+}
+
+/**
+ * JUnit XML with a test suite per file: a passing test case for a file without issues,
+ * otherwise a failing test case per issue.
+ */
+function formatJunit(report: ValidationReport, issues: ValidationIssue[], options: ReportOptions): string {
+    const suites: string[] = [];
+    let total = 0;
+    let failures = 0;
+    for (const file of [...report.files].sort()) {
+        const relativePath = relative(file, options);
+        const name = escapeXml(relativePath);
+        const fileIssues = issues.filter(issue => issue.file === file);
+        const cases = fileIssues.length === 0
+            ? [`      <testcase classname="${name}" name="validate"/>`]
+            : fileIssues.map(issue => [
+                `      <testcase classname="${name}" name="${escapeXml(`${issue.line}:${issue.column} ${issue.rule}`)}">`,
+                `        <failure type="${issue.severity}" message="${escapeXml(issue.message)}">${escapeXml(`${relativePath}:${issue.line}:${issue.column} ${issue.severity}: ${issue.message}`)}</failure>`,
+                '      </testcase>',
+            ].join('\n'));
+        total += cases.length;
+        failures += fileIssues.length;
+        suites.push([
+            `    <testsuite name="${name}" tests="${cases.length}" failures="${fileIssues.length}" errors="0">`,
+            ...cases,
+            '    </testsuite>',
+        ].join('\n'));
+    }
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="oml validate" tests="${total}" failures="${failures}" errors="0">`,
+        ...suites,
+        '</testsuites>',
+    ].join('\n');
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+/**
+ * Returns the exit code for the issues: 1 for errors, 2 for warnings and 3 for infos, considering
+ * only the severities at or above the threshold, or 0 when there are none.
+ */
+export function getExitCode(issues: ValidationIssue[], failOn: IssueSeverity | 'none'): number {
+    if (failOn === 'none') {
+        return 0;
+    }
+    const threshold = SEVERITIES.indexOf(failOn);
+    const worst = Math.min(...issues.map(issue => SEVERITIES.indexOf(issue.severity)));
+    return worst <= threshold ? worst + 1 : 0;
+}
@@ -0,0 +1,191 @@
+import type { DiagramEdge, DiagramModel, DiagramNode } from 'oml-language';
+
+const CHAR_WIDTH = 7;
+const LINE_HEIGHT = 16;
+const PADDING = 10;
+const GAP_X = 40;
+const GAP_Y = 70;
+
+const FILLS: Record<DiagramNode['kind'], string> = {
+    'concept': '#dbeafe',
+    'aspect': '#ede9fe',
+    'relation-entity': '#fef3c7',
+    'relation': '#fef3c7',
+    'scalar': '#dcfce7',
+    'equivalence': '#f3f4f6',
+    'concept-instance': '#e0f2fe',
+    'relation-instance': '#fff7ed',
+};
+
+type Box = { node: DiagramNode; x: number; y: number; width: number; height: number };
+
+/**
+ * Renders a diagram model as a standalone SVG. Nodes are laid out in layers, supertypes above their
+ * subtypes, and are linked to the page `href` returns for their id, if any.
+ */
+export function renderDiagramSvg(model: DiagramModel, href: (id: string) => string | undefined = () => undefined): string {
+    if (model.nodes.length === 0) {
+        return '';
+    }
+    const boxes = layout(model);
+    const width = Math.max(...[...boxes.values()].map(box => box.x + box.width)) + PADDING;
+    const height = Math.max(...[...boxes.values()].map(box => box.y + box.height)) + PADDING;
+    const edges = model.edges.map(edge => renderEdge(edge, boxes)).filter(edge => edge !== '');
+    const nodes = [...boxes.values()].map(box => renderNode(box, href(box.node.id)));
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" class="diagram" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="12">`,
+        '<defs>',
+        '<marker id="specialization" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="12" markerHeight="12" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="#fff" stroke="#374151"/></marker>',
+        '<marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="#374151"/></marker>',
+        '</defs>',
+        ...edges,
+        ...nodes,
+        '</svg>',
+    ].join('\n');
+}
+
+/**
+ * Returns the part of a diagram around a node: its edges and the nodes they connect, following
+ * edges through the relation and equivalence nodes that stand between types.
+ */
+export function getDiagramNeighborhood(model: DiagramModel, id: string): DiagramModel {
+    const byId = new Map(model.nodes.map(node => [node.id, node]));
+    if (!byId.has(id)) {
+        return { nodes: [], edges: [] };
+    }
+    const ids = new Set([id]);
+    const edges = new Set<DiagramEdge>();
+    const visit = (current: string, depth: number) => {
+        for (const edge of model.edges.filter(e => e.source === current || e.target === current)) {
+            edges.add(edge);
+            const other = edge.source === current ? edge.target : edge.source;
+            const kind = byId.get(other)?.kind;
+            if (!ids.has(other)) {
+                ids.add(other);
+                if (depth === 0 && (kind === 'relation' || kind === 'equivalence' || kind === 'relation-instance')) {
+                    visit(other, depth + 1);
+                }
+            }
+        }
+    };
+    visit(id, 0);
+    return {
+        nodes: model.nodes.filter(node => ids.has(node.id)),
+        edges: [...edges].filter(edge => byId.has(edge.source) && byId.has(edge.target)),
+    };
+}
+
+function layout(model: DiagramModel): Map<string, Box> {
+    const nodes = new Map(model.nodes.map(node => [node.id, node]));
+    const supers = new Map<string, string[]>();
+    for (const edge of model.edges.filter(e => e.kind === 'specialization' || e.kind === 'equivalence')) {
+        if (nodes.has(edge.source) && nodes.has(edge.target)) {
+            supers.set(edge.source, [...supers.get(edge.source) ?? [], edge.target]);
+        }
+    }
+
+    // Layer by the longest specialization path, so that supertypes are above their subtypes
+    const layers = new Map<string, number>();
+    const getLayer = (id: string, visiting: Set<string>): number => {
+        if (layers.has(id)) return layers.get(id)!;
+        if (visiting.has(id)) return 0;
+        visiting.add(id);
+        const layer = Math.max(-1, ...(supers.get(id) ?? []).map(s => getLayer(s, visiting))) + 1;
+        visiting.delete(id);
+        layers.set(id, layer);
+        return layer;
+    };
+    model.nodes.forEach(node => getLayer(node.id, new Set()));
+
+    const rows: DiagramNode[][] = [];
+    for (const node of model.nodes) {
+        (rows[layers.get(node.id)!] ??= []).push(node);
+    }
+    const boxes = new Map<string, Box>();
+    let y = PADDING;
+    for (const row of rows.filter(r => r !== undefined)) {
+        // Order a layer by the position of the nodes it is connected to in the layers above
+        const center = (node: DiagramNode) => {
+            const neighbors = model.edges
+                .filter(e => e.source === node.id || e.target === node.id)
+                .map(e => boxes.get(e.source === node.id ? e.target : e.source))
+                .filter(box => box !== undefined);
+            return neighbors.length > 0 ? neighbors.reduce((sum, box) => sum + box.x + box.width / 2, 0) / neighbors.length : Number.MAX_SAFE_INTEGER;
+        };
+        const ordered = row
+            .map(node => ({ node, center: center(node) }))
+            .sort((a, b) => a.center - b.center || (a.node.label ?? a.node.id).localeCompare(b.node.label ?? b.node.id));
+        let x = PADDING;
+        let rowHeight = 0;
+        for (const { node } of ordered) {
+            const lines = [node.label ?? node.id, ...node.properties ?? []];
+            const width = Math.max(...lines.map(line => line.length)) * CHAR_WIDTH + 2 * PADDING;
+            const height = lines.length * LINE_HEIGHT + PADDING;
+            boxes.set(node.id, { node, x, y, width, height });
+            x += width + GAP_X;
+            rowHeight = Math.max(rowHeight, height);
+        }
+        y += rowHeight + GAP_Y;
+    }
+    return boxes;
+}
+
+function renderNode(box: Box, href: string | undefined): string {
+    const { node, x, y, width, height } = box;
+    const rounded = node.kind === 'concept-instance' || node.kind === 'relation-instance' ? ' rx="10"' : ' rx="2"';
+    const dashed = node.kind === 'aspect' ? ' stroke-dasharray="4 2"' : '';
+    const label = node.kind === 'relation' || node.kind === 'relation-entity' ? `«${node.label ?? node.id}»` : node.label ?? node.id;
+    const parts = [
+        `<rect x="${x}" y="${y}" width="${width}" height="${height}"${rounded} fill="${FILLS[node.kind]}" stroke="#374151"${dashed}/>`,
+        `<text x="${x + width / 2}" y="${y + LINE_HEIGHT}" text-anchor="middle" font-weight="bold">${escapeXml(label)}</text>`,
+        ...(node.properties ?? []).map((property, index) =>
+            `<text x="${x + PADDING}" y="${y + LINE_HEIGHT * (index + 2)}">${escapeXml(property)}</text>`),
+    ];
+    const group = `<g class="node ${node.kind}"><title>${escapeXml(node.id)}</title>${parts.join('')}</g>`;
+    return href ? `<a href="${escapeXml(href)}">${group}</a>` : group;
+}
+
+function renderEdge(edge: DiagramEdge, boxes: Map<string, Box>): string {
+    const source = boxes.get(edge.source);
+    const target = boxes.get(edge.target);
+    if (!source || !target || source === target) {
+        return '';
+    }
+    const [x1, y1] = clip(source, target);
+    const [x2, y2] = clip(target, source);
+    const marker = edge.kind === 'specialization' || (edge.kind === 'equivalence' && edge.hasMarker)
+        ? ' marker-end="url(#specialization)"'
+        : edge.hasMarker ? ' marker-end="url(#arrow)"' : '';
+    const dashed = edge.kind === 'equivalence' ? ' stroke-dasharray="6 3"' : '';
+    const line = `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#374151"${dashed}${marker}/>`;
+    const label = edge.kind === 'relation' && edge.label
+        ? `<text x="${(x1 + x2) / 2}" y="${(y1 + y2) / 2 - 4}" text-anchor="middle" fill="#92400e">${escapeXml(edge.label)}</text>`
+        : '';
+    return `<g class="edge ${edge.kind}">${line}${label}</g>`;
+}
+
+/**
+ * Returns where the line from the center of a box to the center of another leaves the first box.
+ */
+function clip(from: Box, to: Box): [number, number] {
+    const cx = from.x + from.width / 2;
+    const cy = from.y + from.height / 2;
+    const dx = to.x + to.width / 2 - cx;
+    const dy = to.y + to.height / 2 - cy;
+    if (dx === 0 && dy === 0) {
+        return [cx, cy];
+    }
+    const scale = Math.min(
+        dx !== 0 ? from.width / 2 / Math.abs(dx) : Number.POSITIVE_INFINITY,
+        dy !== 0 ? from.height / 2 / Math.abs(dy) : Number.POSITIVE_INFINITY,
+    );
+    return [round(cx + dx * scale), round(cy + dy * scale)];
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+export function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -5,6 +5,54 @@ import * as fs from 'node:fs';
 import { URI } from 'langium';
 
 export async function extractDocument(fileName: string, services: LangiumCoreServices): Promise<LangiumDocument> {
+    checkSourceFile(fileName, services);
+
+    const document = await services.shared.workspace.LangiumDocuments.getOrCreateDocument(URI.file(path.resolve(fileName)));
+    await services.shared.workspace.DocumentBuilder.build([document], { validation: true });
+
+    exitOnValidationErrors(document);
+    return document;
+}
+
+/**
+ * Loads a file together with all OML files of the workspace directory, so that the ontologies
+ * it imports resolve. Exits on validation errors in the file itself.
+ */
+export async function extractWorkspaceDocument(fileName: string, services: LangiumCoreServices, workspace: string = process.cwd()): Promise<LangiumDocument> {
+    checkSourceFile(fileName, services);
+
+    const filePath = path.resolve(fileName);
+    const files = collectOmlFiles([workspace], services.LanguageMetaData.fileExtensions);
+    if (!files.includes(filePath)) {
+        files.push(filePath);
+    }
+    const documents: LangiumDocument[] = [];
+    for (const file of files) {
+        documents.push(await services.shared.workspace.LangiumDocuments.getOrCreateDocument(URI.file(file)));
+    }
+    await services.shared.workspace.DocumentBuilder.build(documents, { validation: true });
+
+    const document = documents[files.indexOf(filePath)];
+    exitOnValidationErrors(document);
+    return document;
+}
+
+/**
+ * Loads all OML files of the workspace directory, and the given files outside of it,
+ * linked to each other but not validated.
+ */
+export async function extractWorkspaceDocuments(services: LangiumCoreServices, workspace: string = process.cwd(), extraFiles: string[] = []): Promise<LangiumDocument[]> {
+    const files = collectOmlFiles([workspace], services.LanguageMetaData.fileExtensions);
+    files.push(...extraFiles.filter(file => !files.includes(file)));
+    const documents: LangiumDocument[] = [];
+    for (const file of files) {
+        documents.push(await services.shared.workspace.LangiumDocuments.getOrCreateDocument(URI.file(file)));
+    }
+    await services.shared.workspace.DocumentBuilder.build(documents, { validation: false });
+    return documents;
+}
+
+function checkSourceFile(fileName: string, services: LangiumCoreServices): void {
     const extensions = services.LanguageMetaData.fileExtensions;
     if (!extensions.includes(path.extname(fileName))) {
         console.error(chalk.yellow(`Please choose a file with one of these extensions: ${extensions}.`));
@@ -15,10 +63,9 @@ export async function extractDocument(fileName: string, services: LangiumCoreSer
         console.error(chalk.red(`File ${fileName} does not exist.`));
         process.exit(1);
     }
+}
 
-    const document = await services.shared.workspace.LangiumDocuments.getOrCreateDocument(URI.file(path.resolve(fileName)));
-    await services.shared.workspace.DocumentBuilder.build([document], { validation: true });
-
+function exitOnValidationErrors(document: LangiumDocument): void {
     const validationErrors = (document.diagnostics ?? []).filter(e => e.severity === 1);
     if (validationErrors.length > 0) {
         console.error(chalk.red('There are validation errors:'));
@@ -29,8 +76,6 @@ export async function extractDocument(fileName: string, services: LangiumCoreSer
         }
         process.exit(1);
     }
-
-    return document;
 }
 
 export async function extractAstNode<T extends AstNode>(fileName: string, services: LangiumCoreServices): Promise<T> {
@@ -49,3 +94,36 @@ export function extractDestinationAndName(filePath: string, destination: string
         name: path.basename(filePath)
     };
 }
+
+/**
+ * Expands files and directories into the list of OML files they contain.
+ * Directories are searched recursively, skipping hidden folders, node_modules and build.
+ */
+export function collectOmlFiles(paths: string[], extensions: readonly string[]): string[] {
+    const files: string[] = [];
+    const walk = (dir: string) => {
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            if (entry.name.startsWith('.') || entry.name === 'node_modules' || entry.name === 'build') {
+                continue;
+            }
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                walk(fullPath);
+            } else if (extensions.includes(path.extname(entry.name))) {
+                files.push(fullPath);
+            }
+        }
+    };
+    for (const p of paths) {
+        if (!fs.existsSync(p)) {
+            console.error(chalk.red(`File ${p} does not exist.`));
+            process.exit(1);
+        }
+        if (fs.statSync(p).isDirectory()) {
+            walk(p);
+        } else {
+            files.push(p);
+        }
+    }
+    return files.map(f => path.resolve(f));
+}
@@ -1,10 +1,31 @@
 export * from './oml-module.js';
 export * from './oml-validator.js';
+export * from './oml-instance-validator.js';
+export * from './oml-semantics.js';
+export * from './oml-reasoner.js';
+export * from './oml-consistency.js';
+export * from './oml-json.js';
+export * from './oml-json-schema.js';
+export * from './oml-csv.js';
+export * from './oml-diff.js';
+export * from './oml-literals.js';
+export * from './oml-rdf.js';
+export * from './oml-rdf-parser.js';
+export * from './oml-owl.js';
+export * from './oml-owl-import.js';
+export * from './oml-playbook.js';
+export * from './oml-methodology.js';
+export * from './oml-shacl.js';
+export * from './oml-sparql-parser.js';
+export * from './oml-sparql.js';
 export * from './oml-converter.js';
 export * from './oml-scope.js';
 export * from './oml-completion.js';
 export * from './oml-hover.js';
 export * from './oml-node-kind-provider.js';
+export * from './oml-rename.js';
+export * from './oml-formatter.js';
+export * from './oml-code-actions.js';
 export * from './oml-diagram.js';
 export * from './generated/ast.js';
 export * from './generated/grammar.js';
@@ -6,6 +6,7 @@ import { allTools, methodologyModeToolNames } from './tools/index.js';
 import { getWorkspaceRoot } from './tools/common.js';
 import { createToolRegistry, createPluginLifecycleManager, type Tool } from './tools/registry/index.js';
 import { preferencesState } from './tools/preferences/preferences-state.js';
+import { changeJournal } from './services/index.js';
 
 /**
  * Initialize and register all tools with the registry
@@ -91,8 +92,8 @@ async function main() {
                     // Increment usage tracking
                     registry.recordUsage(tool.name);
                     
-                    // Execute handler
-                    const result = await handler(...args);
+                    // Execute handler, journaling the files it changes for undo
+                    const result = await changeJournal.record<ReturnType<typeof handler>>(tool.name, args[0], () => handler(...args));
                     
                     // Record success
                     await lifecycleManager.emitEvent('ENABLED' as any, tool.name);
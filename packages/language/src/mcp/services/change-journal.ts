@@ -0,0 +1,167 @@
+/**
+ * Change Journal
+ *
+ * Keeps a persistent, per-workspace history of the files changed by MCP tool calls, so
+ * that changes can be undone and redone. Before a tool call first writes or deletes a
+ * file, the file's content is snapshotted; when the call ends, the content before and
+ * after is recorded as one change, tagged with the tool name and parameters. Calls that
+ * run at the same time are recorded as separate changes.
+ *
+ * The journal is stored in .oml-mcp/history.json under the workspace root.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { getWorkspaceRoot } from './workspace-resolver.js';
+
+const JOURNAL_PATH = path.join('.oml-mcp', 'history.json');
+
+/** Older changes are dropped beyond this many */
+const MAX_CHANGES = 50;
+
+export interface FileSnapshot {
+    /** Path relative to the workspace root */
+    path: string;
+    /** Content before the change, or null if the file did not exist */
+    before: string | null;
+    /** Content after the change, or null if the file was deleted */
+    after: string | null;
+}
+
+export interface ChangeEntry {
+    id: number;
+    timestamp: string;
+    tool: string;
+    params: unknown;
+    files: FileSnapshot[];
+}
+
+export interface ChangeHistory {
+    /** Changes that can be undone, oldest first */
+    undo: ChangeEntry[];
+    /** Undone changes that can be redone, most recently undone last */
+    redo: ChangeEntry[];
+}
+
+interface JournalData extends ChangeHistory {
+    nextId: number;
+}
+
+interface PendingChange {
+    tool: string;
+    params: unknown;
+    before: Map<string, string | null>;
+}
+
+function readFileOrNull(filePath: string): string | null {
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+}
+
+class ChangeJournal {
+    /** The change being recorded for the call chain */
+    private readonly pending = new AsyncLocalStorage<PendingChange>();
+
+    /**
+     * Run a tool call, recording the files it changes as one change.
+     * Calls it makes belong to its change.
+     */
+    async record<T>(tool: string, params: unknown, run: () => Promise<T>): Promise<T> {
+        if (this.pending.getStore()) {
+            return run();
+        }
+        const pending: PendingChange = { tool, params, before: new Map() };
+        try {
+            return await this.pending.run(pending, run);
+        } finally {
+            this.commit(pending);
+        }
+    }
+
+    /**
+     * Snapshot a file that is about to be written or deleted, unless it was already
+     * snapshotted for the change being recorded.
+     */
+    recordFileBeforeChange(filePath: string): void {
+        const resolved = path.resolve(filePath);
+        const pending = this.pending.getStore();
+        if (pending && !pending.before.has(resolved)) {
+            pending.before.set(resolved, readFileOrNull(resolved));
+        }
+    }
+
+    getHistory(): ChangeHistory {
+        const { undo, redo } = this.load();
+        return { undo, redo };
+    }
+
+    /**
+     * Move the most recent change to the redo stack, after its files were restored.
+     */
+    markUndone(id: number): void {
+        const journal = this.load();
+        if (journal.undo.at(-1)?.id === id) {
+            journal.redo.push(journal.undo.pop()!);
+            this.save(journal);
+        }
+    }
+
+    /**
+     * Move the most recently undone change back to the undo stack, after it was reapplied.
+     */
+    markRedone(id: number): void {
+        const journal = this.load();
+        if (journal.redo.at(-1)?.id === id) {
+            journal.undo.push(journal.redo.pop()!);
+            this.save(journal);
+        }
+    }
+
+    resolvePath(snapshot: FileSnapshot): string {
+        return path.resolve(getWorkspaceRoot(), snapshot.path);
+    }
+
+    private commit(pending: PendingChange): void {
+        const root = getWorkspaceRoot();
+        const files: FileSnapshot[] = [];
+        for (const [file, before] of pending.before) {
+            const after = readFileOrNull(file);
+            if (after !== before) {
+                files.push({ path: path.relative(root, file).replace(/\\/g, '/'), before, after });
+            }
+        }
+        if (files.length === 0) {
+            return;
+        }
+        // A failing journal must not fail the tool call that was recorded
+        try {
+            const journal = this.load();
+            journal.undo.push({ id: journal.nextId++, timestamp: new Date().toISOString(), tool: pending.tool, params: pending.params, files });
+            journal.undo = journal.undo.slice(-MAX_CHANGES);
+            journal.redo = [];
+            this.save(journal);
+        } catch (error) {
+            console.error('[change-journal] Failed to record change:', error);
+        }
+    }
+
+    private journalFile(): string {
+        return path.join(getWorkspaceRoot(), JOURNAL_PATH);
+    }
+
+    private load(): JournalData {
+        const file = this.journalFile();
+        if (!fs.existsSync(file)) {
+            return { nextId: 1, undo: [], redo: [] };
+        }
+        return JSON.parse(fs.readFileSync(file, 'utf-8')) as JournalData;
+    }
+
+    private save(journal: JournalData): void {
+        const file = this.journalFile();
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, JSON.stringify(journal, null, 2), 'utf-8');
+    }
+}
+
+export const changeJournal = new ChangeJournal();
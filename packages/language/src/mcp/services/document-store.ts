@@ -8,6 +8,7 @@
 import * as fs from 'fs';
 import { URI } from 'langium';
 import { getOmlServices } from './oml-services.js';
+import { isFileOverlayActive } from './file-overlay.js';
 
 export interface CachedDocument {
     uri: string;
@@ -118,8 +119,8 @@ export async function getFreshDocument(fileUri: string) {
     const parsedUri = URI.parse(fileUri);
     const filePath = parsedUri.fsPath;
     
-    // Check if we have a valid cached version
-    const cached = getCachedDocument(filePath);
+    // Check if we have a valid cached version (staged files are not cached, they have no mtime)
+    const cached = isFileOverlayActive() ? null : getCachedDocument(filePath);
     if (cached) {
         return cached.parseResult;
     }
@@ -138,7 +139,37 @@ export async function getFreshDocument(fileUri: string) {
     await services.shared.workspace.DocumentBuilder.build([document], { validation: false });
     
     // Cache it
-    cacheDocument(filePath, document);
+    if (!isFileOverlayActive()) {
+        cacheDocument(filePath, document);
+    }
     
     return document;
 }
+
+/**
+ * Load every OML file under a directory into Langium's workspace and link them together.
+ * 
+ * Cross-file features (find references, rename) need all documents to be indexed,
+ * which single-document loading via getFreshDocument does not provide.
+ * Documents that changed on disk are re-read.
+ * 
+ * @param filePaths Absolute paths of the OML files to load
+ * @returns The loaded documents, in the order of filePaths
+ */
+export async function loadWorkspaceDocuments(filePaths: string[]) {
+    const services = getOmlServices();
+    const langiumDocs = services.shared.workspace.LangiumDocuments;
+
+    const documents = [];
+    for (const filePath of filePaths) {
+        const uri = URI.file(filePath);
+        if (langiumDocs.hasDocument(uri)) {
+            langiumDocs.deleteDocument(uri);
+        }
+        invalidateDocument(filePath);
+        documents.push(await langiumDocs.getOrCreateDocument(uri));
+    }
+    await services.shared.workspace.DocumentBuilder.build(documents, { validation: false });
+
+    return documents;
+}
@@ -0,0 +1,174 @@
+/**
+ * In-Memory File Overlay
+ *
+ * Lets a sequence of tool calls run against staged copies of workspace files. While an
+ * overlay is active, tools read the staged content of the files earlier calls changed,
+ * and their writes and deletions are staged instead of reaching the disk. The caller
+ * then commits the staged files or discards them.
+ *
+ * An overlay belongs to the call chain that started it: tool calls running at the same
+ * time outside that chain neither see its staged files nor stage into it.
+ *
+ * Langium reads through the same overlay when its services are created with
+ * OverlayFileSystem instead of NodeFileSystem.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { FileSystemNode, URI } from 'langium';
+import { NodeFileSystemProvider } from 'langium/node';
+
+/**
+ * Staged files by absolute path (their new content, or null when deleted), for the call
+ * chain running in an overlay.
+ */
+const overlayStorage = new AsyncLocalStorage<Map<string, string | null>>();
+
+function currentOverlay(): Map<string, string | null> | undefined {
+    return overlayStorage.getStore();
+}
+
+/**
+ * Run calls with their file changes staged in memory.
+ *
+ * @param staged Receives the staged files (content, or null for deletions), to commit or
+ *   discard once the calls are done, also when they throw
+ * @throws Error if the caller already runs in an overlay
+ */
+export async function runInFileOverlay<T>(staged: Map<string, string | null>, run: () => Promise<T>): Promise<T> {
+    if (currentOverlay()) {
+        throw new Error('A batch of changes is already in progress');
+    }
+    return overlayStorage.run(staged, run);
+}
+
+/**
+ * A copy of the files staged so far in the caller's overlay (content, or null for deletions).
+ */
+export function getStagedFiles(): Map<string, string | null> {
+    return new Map(currentOverlay() ?? []);
+}
+
+/**
+ * Whether the caller runs in an overlay.
+ */
+export function isFileOverlayActive(): boolean {
+    return currentOverlay() !== undefined;
+}
+
+/**
+ * Read a text file, seeing the staged content if any.
+ *
+ * @throws Error if the file does not exist or was deleted in the overlay
+ */
+export function readWorkspaceFile(filePath: string): string {
+    const staged = currentOverlay()?.get(path.resolve(filePath));
+    if (staged === null) {
+        throw new Error(`ENOENT: no such file, open '${filePath}'`);
+    }
+    return staged ?? fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Check whether a file or directory exists, seeing staged files.
+ */
+export function workspaceFileExists(filePath: string): boolean {
+    const resolved = path.resolve(filePath);
+    const stagedFiles = currentOverlay();
+    const staged = stagedFiles?.get(resolved);
+    if (staged !== undefined) {
+        return staged !== null;
+    }
+    if (stagedFiles && [...stagedFiles].some(([file, content]) => content !== null && file.startsWith(resolved + path.sep))) {
+        return true;
+    }
+    return fs.existsSync(filePath);
+}
+
+/**
+ * Stage the new content of a file if an overlay is active.
+ *
+ * @returns true if the content was staged, false if the caller must write it to disk
+ */
+export function stageFileWrite(filePath: string, content: string): boolean {
+    const stagedFiles = currentOverlay();
+    if (!stagedFiles) {
+        return false;
+    }
+    stagedFiles.set(path.resolve(filePath), content);
+    return true;
+}
+
+/**
+ * Stage the deletion of a file if an overlay is active.
+ *
+ * @returns true if the deletion was staged, false if the caller must delete the file
+ */
+export function stageFileDeletion(filePath: string): boolean {
+    const stagedFiles = currentOverlay();
+    if (!stagedFiles) {
+        return false;
+    }
+    stagedFiles.set(path.resolve(filePath), null);
+    return true;
+}
+
+/**
+ * Adjust the files found on disk under a directory to the overlay: add the staged new
+ * files and remove the staged deletions.
+ */
+export function applyOverlayToFileList(dirPath: string, files: string[], extension: string): string[] {
+    const stagedFiles = currentOverlay();
+    if (!stagedFiles) {
+        return files;
+    }
+    const root = path.resolve(dirPath) + path.sep;
+    const result = files.filter(file => stagedFiles.get(path.resolve(file)) !== null);
+    for (const [file, content] of stagedFiles) {
+        if (content !== null && file.startsWith(root) && file.endsWith(extension) && !result.includes(file)) {
+            result.push(file);
+        }
+    }
+    return result;
+}
+
+/**
+ * A Langium file system provider that reads staged files from the overlay.
+ */
+export class OverlayFileSystemProvider extends NodeFileSystemProvider {
+
+    override async readFile(uri: URI): Promise<string> {
+        return this.readFileSync(uri);
+    }
+
+    override readFileSync(uri: URI): string {
+        return currentOverlay()?.has(path.resolve(uri.fsPath)) ? readWorkspaceFile(uri.fsPath) : super.readFileSync(uri);
+    }
+
+    override async exists(uri: URI): Promise<boolean> {
+        return this.existsSync(uri);
+    }
+
+    override existsSync(uri: URI): boolean {
+        return workspaceFileExists(uri.fsPath);
+    }
+
+    override async stat(uri: URI): Promise<FileSystemNode> {
+        return this.statSync(uri);
+    }
+
+    override statSync(uri: URI): FileSystemNode {
+        if (typeof currentOverlay()?.get(path.resolve(uri.fsPath)) === 'string') {
+            return { isFile: true, isDirectory: false, uri };
+        }
+        return super.statSync(uri);
+    }
+}
+
+/**
+ * The module context for createOmlServices that reads through the overlay.
+ */
+export const OverlayFileSystem = {
+    fileSystemProvider: () => new OverlayFileSystemProvider(),
+};
@@ -26,6 +26,7 @@ export {
     clearDocumentCache,
     getCacheSizeInfo,
     getFreshDocument,
+    loadWorkspaceDocuments,
     type CachedDocument,
 } from './document-store.js';
 
@@ -45,3 +46,21 @@ export {
     findFileInAncestors,
     findOmlFiles,
 } from './workspace-resolver.js';
+
+export {
+    runInFileOverlay,
+    getStagedFiles,
+    isFileOverlayActive,
+    readWorkspaceFile,
+    workspaceFileExists,
+    stageFileWrite,
+    stageFileDeletion,
+    OverlayFileSystem,
+} from './file-overlay.js';
+
+export {
+    changeJournal,
+    type ChangeEntry,
+    type ChangeHistory,
+    type FileSnapshot,
+} from './change-journal.js';
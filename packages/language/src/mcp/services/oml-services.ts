@@ -6,8 +6,8 @@
  * this can be replaced with LSP calls.
  */
 
-import { NodeFileSystem } from 'langium/node';
 import { createOmlServices } from '../../oml-module.js';
+import { OverlayFileSystem } from './file-overlay.js';
 
 type OmlServices = ReturnType<typeof createOmlServices>;
 
@@ -20,7 +20,7 @@ let servicesInstance: OmlServices | null = null;
  */
 export function getOmlServices(): OmlServices {
     if (!servicesInstance) {
-        servicesInstance = createOmlServices(NodeFileSystem);
+        servicesInstance = createOmlServices(OverlayFileSystem);
     }
     return servicesInstance;
 }
@@ -8,6 +8,7 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import { URI } from 'langium';
+import { applyOverlayToFileList } from './file-overlay.js';
 
 /**
  * Get the workspace root directory.
@@ -233,5 +234,5 @@ export function findOmlFiles(
     }
     
     walk(dirPath);
-    return results;
+    return applyOverlayToFileList(dirPath, results, '.oml');
 }
@@ -1,9 +1,8 @@
 import { z } from 'zod';
-import * as fs from 'fs';
-import { NodeFileSystem } from 'langium/node';
 import { createOmlServices } from '../../../oml-module.js';
 import { pathToFileUri, fileUriToPath, writeFileAndNotify, getFreshDocument } from '../common.js';
 import { isVocabulary, isDescription, isVocabularyBundle, isDescriptionBundle } from '../../../generated/ast.js';
+import { readWorkspaceFile, workspaceFileExists, OverlayFileSystem } from '../../services/index.js';
 
 const paramsSchema = {
     ontology: z.string().describe('ABSOLUTE file path to the ontology'),
@@ -41,14 +40,14 @@ export const deleteAnnotationHandler = async (
         const fileUri = pathToFileUri(ontology);
         const filePath = fileUriToPath(fileUri);
 
-        if (!fs.existsSync(filePath)) {
+        if (!workspaceFileExists(filePath)) {
             return {
                 isError: true,
                 content: [{ type: 'text' as const, text: `Ontology not found at ${filePath}` }],
             };
         }
 
-        const text = fs.readFileSync(filePath, 'utf-8');
+        const text = readWorkspaceFile(filePath);
         const eol = text.includes('\r\n') ? '\r\n' : '\n';
 
         // Escape property for regex
@@ -63,7 +62,7 @@ export const deleteAnnotationHandler = async (
 
         if (target) {
             // Find the target term/instance and remove annotation from it
-            const services = createOmlServices(NodeFileSystem);
+            const services = createOmlServices(OverlayFileSystem);
             const document = await getFreshDocument(services, fileUri);
             const root = document.parseResult.value;
             
@@ -2,16 +2,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as net from 'net';
 import { createMessageConnection, StreamMessageReader, StreamMessageWriter } from 'vscode-jsonrpc/node.js';
-import {
-    getOmlServices,
-    getFreshDocument as getFreshDocumentFromStore,
-    invalidateDocument,
-    getWorkspaceRoot as getWorkspaceRootFromResolver,
-    resolveWorkspacePath as resolveWorkspacePathFromResolver,
-    pathToFileUri as pathToFileUriFromResolver,
-    fileUriToPath as fileUriToPathFromResolver,
-    detectIndentation as detectIndentationFromResolver,
-} from '../services/index.js';
+import { AstNode, AstUtils, GrammarUtils, URI } from 'langium';
+import { getOmlServices, getFreshDocument as getFreshDocumentFromStore, invalidateDocument, getWorkspaceRoot as getWorkspaceRootFromResolver, resolveWorkspacePath as resolveWorkspacePathFromResolver, pathToFileUri as pathToFileUriFromResolver, fileUriToPath as fileUriToPathFromResolver, detectIndentation as detectIndentationFromResolver, findOmlFiles, loadWorkspaceDocuments, readWorkspaceFile, workspaceFileExists, stageFileWrite, isFileOverlayActive, changeJournal } from '../services/index.js';
 import {
     AnnotationProperty,
     Aspect,
@@ -24,6 +16,8 @@ import {
     Vocabulary,
     isDescription,
     isVocabulary,
+    isImport,
+    isOntology,
     isAnnotationProperty,
     isAspect,
     isConcept,
@@ -32,6 +26,9 @@ import {
     isScalarProperty,
     isUnreifiedRelation
 } from '../../generated/ast.js';
+import { quoteOmlString } from '../../oml-converter.js';
+import { getReferenceImpactType } from '../../oml-semantics.js';
+import type { ReferenceImpactType } from '../../oml-semantics.js';
 
 export const LSP_BRIDGE_PORT = 5007;
 
@@ -177,7 +174,7 @@ export async function loadVocabularyDocument(ontology: string) {
     const fileUri = pathToFileUri(ontology);
     const filePath = fileUriToPath(fileUri);
 
-    if (!fs.existsSync(filePath)) {
+    if (!workspaceFileExists(filePath)) {
         throw new Error(`File not found at ${filePath}`);
     }
 
@@ -201,7 +198,7 @@ export async function loadVocabularyDocument(ontology: string) {
         throw new Error(`The target ontology "${filePath}" is not a vocabulary. Use loadAnyOntologyDocument() for descriptions or bundles.`);
     }
 
-    const text = fs.readFileSync(filePath, 'utf-8');
+    const text = readWorkspaceFile(filePath);
     const eol = text.includes('\r\n') ? '\r\n' : '\n';
     const indent = detectIndentation(text);
 
@@ -216,7 +213,7 @@ export async function loadAnyOntologyDocument(ontology: string) {
     const fileUri = pathToFileUri(ontology);
     const filePath = fileUriToPath(fileUri);
 
-    if (!fs.existsSync(filePath)) {
+    if (!workspaceFileExists(filePath)) {
         throw new Error(`File not found at ${filePath}`);
     }
 
@@ -248,7 +245,7 @@ export async function loadAnyOntologyDocument(ontology: string) {
         throw new Error('The target file is not a vocabulary or description.');
     }
 
-    const text = fs.readFileSync(filePath, 'utf-8');
+    const text = readWorkspaceFile(filePath);
     const eol = text.includes('\r\n') ? '\r\n' : '\n';
     const indent = detectIndentation(text);
     
@@ -291,10 +288,10 @@ export function formatLiteral(lit: LiteralParam): string {
         case 'boolean':
             return lit.value ? 'true' : 'false';
         case 'quoted': {
-            const value = String(lit.value).replace(/"/g, '\\"');
-            if (lit.scalarType) return `"${value}"^^${lit.scalarType}`;
-            if (lit.langTag) return `"${value}"$${lit.langTag}`;
-            return `"${value}"`;
+            const quoted = quoteOmlString(String(lit.value));
+            if (lit.scalarType) return `${quoted}^^${lit.scalarType}`;
+            if (lit.langTag) return `${quoted}$${lit.langTag}`;
+            return quoted;
         }
         default:
             return String(lit.value);
@@ -415,6 +412,13 @@ export function validateReferencedPrefixes(
 }
 
 export async function writeFileAndNotify(filePath: string, fileUri: string, newContent: string) {
+    // Inside a batch the content is only staged, and written when the batch commits
+    if (stageFileWrite(filePath, newContent)) {
+        return;
+    }
+    changeJournal.recordFileBeforeChange(filePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
     // Write with explicit sync to ensure content is flushed to disk
     const fd = fs.openSync(filePath, 'w');
     fs.writeSync(fd, newContent, 0, 'utf-8');
@@ -424,6 +428,14 @@ export async function writeFileAndNotify(filePath: string, fileUri: string, newC
     // Invalidate cached document immediately to avoid stale reads (especially on Windows mtime resolution)
     invalidateDocument(filePath);
 
+    await notifyLspBridge(fileUri, newContent);
+}
+
+/**
+ * Send the content of a document to the LSP bridge, replacing what the language server
+ * holds for it, or only close it when no content is given (e.g. after a deletion).
+ */
+export async function notifyLspBridge(fileUri: string, content?: string) {
     let socket: net.Socket | undefined;
     let connection: ReturnType<typeof createMessageConnection> | undefined;
 
@@ -446,14 +458,16 @@ export async function writeFileAndNotify(filePath: string, fileUri: string, newC
         });
 
         // Then send didOpen with the new content
-        await connection.sendNotification('textDocument/didOpen', {
-            textDocument: {
-                uri: fileUri,
-                languageId: 'oml',
-                version: Date.now(),
-                text: newContent,
-            },
-        });
+        if (content !== undefined) {
+            await connection.sendNotification('textDocument/didOpen', {
+                textDocument: {
+                    uri: fileUri,
+                    languageId: 'oml',
+                    version: Date.now(),
+                    text: content,
+                },
+            });
+        }
         
         console.error(`[mcp] LSP notified for ${fileUri}`);
     } catch (error) {
@@ -581,7 +595,8 @@ export async function appendValidationIfSafeMode(
     fileUri: string,
     safeMode: boolean
 ): Promise<ToolResult> {
-    if (result.isError || !safeMode) {
+    // Inside a batch, the combined result is validated once at the end
+    if (result.isError || !safeMode || isFileOverlayActive()) {
         return result;
     }
     
@@ -613,7 +628,7 @@ export interface ImpactReference {
     file: string;           // Relative path to the file
     line?: number;          // Line number if available
     context: string;        // The matching line/context
-    type: 'specialization' | 'instance' | 'restriction' | 'relation' | 'property' | 'import' | 'reference';
+    type: ReferenceImpactType;
 }
 
 export interface ImpactAnalysis {
@@ -710,7 +725,7 @@ export async function findSymbolReferences(
                     }
                     
                     try {
-                        const content = fs.readFileSync(fullPath, 'utf-8');
+                        const content = readWorkspaceFile(fullPath);
                         const lines = content.split(/\r?\n/);
                         const relativePath = path.relative(workspaceRoot, fullPath).replace(/\\/g, '/');
                         
@@ -768,6 +783,125 @@ export async function findSymbolReferences(
     return { symbol: symbolName, references, summary };
 }
 
+/**
+ * A reference to an ontology found in a workspace file, located precisely
+ * so that it can be rewritten.
+ */
+export interface OntologyReference extends ImpactReference {
+    filePath: string;       // Absolute path to the file
+    offset: number;         // Start offset of the referencing token
+    length: number;         // Length of the referencing token
+    text: string;           // The referencing token as written
+    role: 'namespace' | 'prefix' | 'iri' | 'qname';
+}
+
+/**
+ * Whether a full IRI reference (`<...>`) names a member of a namespace, rather than of a
+ * namespace that only starts the same (e.g. http://ex.org/a/b# for http://ex.org/a/).
+ */
+function isIriInNamespace(refText: string, namespace: string): boolean {
+    const match = /^<(.*[#/])[^#/>]+>$/.exec(refText);
+    return match !== null && [namespace, `${namespace}#`, `${namespace}/`].includes(match[1]);
+}
+
+/**
+ * Find all references to an ontology (by namespace or prefix) across the workspace.
+ *
+ * Unlike findSymbolReferences, this parses each file so that only real tokens are
+ * reported: import namespaces and `as` prefixes, full IRIs inside the namespace,
+ * and qualified names whose prefix is bound to the ontology in that file.
+ * The ontology file itself is included, its own header excluded.
+ */
+export async function findOntologyReferences(
+    namespace: string,
+    prefix: string,
+    ontologyFilePath: string
+): Promise<OntologyReference[]> {
+    const services = getOmlServices();
+    const workspaceRoot = getWorkspaceRoot();
+    const ontologyFileNormalized = path.normalize(ontologyFilePath).toLowerCase();
+    const bareNamespace = namespace.replace(/^<|>$/g, '');
+
+    const files = findOmlFiles(workspaceRoot);
+    if (!files.some(f => path.normalize(f).toLowerCase() === ontologyFileNormalized)) {
+        files.push(ontologyFilePath);
+    }
+
+    const references: OntologyReference[] = [];
+
+    for (const filePath of files) {
+        let content: string;
+        try {
+            content = readWorkspaceFile(filePath);
+        } catch {
+            continue; // Skip unreadable files
+        }
+        if (!content.includes(bareNamespace) && !content.includes(`${prefix}:`)) {
+            continue;
+        }
+
+        const document = services.shared.workspace.LangiumDocumentFactory.fromString(content, URI.file(filePath));
+        const root = document.parseResult.value;
+        if (!isOntology(root)) continue;
+
+        const relativePath = path.relative(workspaceRoot, filePath).replace(/\\/g, '/');
+        const push = (offset: number, length: number, role: OntologyReference['role'], type: ImpactReference['type']) => {
+            const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+            const lineEnd = content.indexOf('\n', offset);
+            const line = content.substring(lineStart, lineEnd === -1 ? content.length : lineEnd).trim();
+            references.push({
+                file: relativePath,
+                filePath,
+                line: content.substring(0, offset).split('\n').length,
+                context: line.substring(0, 80) + (line.length > 80 ? '...' : ''),
+                type,
+                offset,
+                length,
+                text: content.substring(offset, offset + length),
+                role,
+            });
+        };
+
+        // Prefixes bound to the ontology in this file
+        const boundPrefixes = new Set<string>();
+        if (path.normalize(filePath).toLowerCase() === ontologyFileNormalized) {
+            boundPrefixes.add(prefix);
+        }
+
+        for (const imp of root.ownedImports) {
+            const refNode = imp.imported?.$refNode;
+            if (!refNode || imp.imported.$refText.replace(/^<|>$/g, '') !== bareNamespace) continue;
+            push(refNode.offset, refNode.length, 'namespace', 'import');
+            const prefixNode = imp.$cstNode ? GrammarUtils.findNodeForProperty(imp.$cstNode, 'prefix') : undefined;
+            if (imp.prefix && prefixNode) {
+                push(prefixNode.offset, prefixNode.length, 'prefix', 'import');
+            }
+            boundPrefixes.add((imp.prefix ?? prefix).replace(/^\^/, ''));
+        }
+
+        for (const node of AstUtils.streamAst(root)) {
+            if (isImport(node)) continue;
+            for (const { reference, container, property } of AstUtils.streamReferences(node)) {
+                const refNode = reference.$refNode;
+                if (!refNode) continue;
+                const refText = reference.$refText;
+                if (refText.startsWith('<')) {
+                    if (isIriInNamespace(refText, bareNamespace)) {
+                        push(refNode.offset, refNode.length, 'iri', getReferenceImpactType(container, property));
+                    }
+                } else {
+                    const colon = refText.indexOf(':');
+                    if (colon > 0 && boundPrefixes.has(refText.substring(0, colon))) {
+                        push(refNode.offset, refNode.length, 'qname', getReferenceImpactType(container, property));
+                    }
+                }
+            }
+        }
+    }
+
+    return references;
+}
+
 /**
  * Format impact analysis for display to user
  */
@@ -814,3 +948,151 @@ export function formatImpactWarning(impact: ImpactAnalysis, maxReferences: numbe
 }
 
 
+
+// ============================================================================
+// RENAME UTILITIES
+// ============================================================================
+
+/** A replacement of a range of a text, by offset */
+export type TextEdit = { offset: number; length: number; newText: string };
+
+/**
+ * Apply non-overlapping edits to a text.
+ */
+export function applyEdits(text: string, edits: TextEdit[]): string {
+    // Apply from the end so earlier offsets stay valid
+    const sorted = [...edits].sort((a, b) => b.offset - a.offset);
+    let result = text;
+    for (const edit of sorted) {
+        result = result.substring(0, edit.offset) + edit.newText + result.substring(edit.offset + edit.length);
+    }
+    return result;
+}
+
+export interface RenameEdit {
+    line: number;           // 1-based line of the edit
+    oldText: string;        // Replaced text
+    newText: string;        // Inserted text
+}
+
+export interface RenameFileChange {
+    filePath: string;       // Absolute path to the file
+    fileUri: string;        // file:// URI of the file
+    relativePath: string;   // Workspace-relative path
+    oldText: string;        // Current content
+    newText: string;        // Content after the rename
+    edits: RenameEdit[];
+}
+
+/**
+ * Load an OML file together with all workspace OML files, so that its imports
+ * and the references into it resolve.
+ *
+ * @param filePath Absolute path of the OML file
+ * @returns The document of the file and all loaded documents
+ */
+export async function loadWorkspaceDocument(filePath: string) {
+    const targetNormalized = path.normalize(filePath).toLowerCase();
+    const files = findOmlFiles(getWorkspaceRoot());
+    if (!files.some(f => path.normalize(f).toLowerCase() === targetNormalized)) {
+        files.push(filePath);
+    }
+    const documents = await loadWorkspaceDocuments(files);
+    const document = documents.find(d => path.normalize(d.uri.fsPath).toLowerCase() === targetNormalized);
+    if (!document) {
+        throw new Error(`Could not load ${filePath}`);
+    }
+    return { document, documents };
+}
+
+/**
+ * Compute a workspace-wide rename of a named element without the language server.
+ * Loads all workspace OML files, then asks the OML RenameProvider for the edits so that
+ * local, qualified (prefix:Name) and IRI (<ns#Name>) references are all rewritten.
+ *
+ * @param filePath Absolute path of the file declaring the element
+ * @param isTarget Selects the declaration to rename among the named nodes of that file
+ * @param newName New local name
+ */
+export async function computeWorkspaceRename(
+    filePath: string,
+    isTarget: (node: AstNode & { name: string }) => boolean,
+    newName: string
+): Promise<RenameFileChange[]> {
+    const services = getOmlServices();
+    const workspaceRoot = getWorkspaceRoot();
+    const { document, documents } = await loadWorkspaceDocument(filePath);
+
+    const target = AstUtils.streamAst(document.parseResult.value)
+        .find(node => typeof (node as any).name === 'string' && isTarget(node as AstNode & { name: string }));
+    const nameNode = target ? services.Oml.references.NameProvider.getNameNode(target) : undefined;
+    if (!nameNode) {
+        throw new Error('Could not locate the declaration to rename.');
+    }
+
+    const renameProvider = services.Oml.lsp.RenameProvider;
+    const workspaceEdit = renameProvider
+        ? await renameProvider.rename(document, {
+            textDocument: { uri: document.uri.toString() },
+            position: nameNode.range.start,
+            newName,
+        })
+        : undefined;
+    if (!workspaceEdit?.changes) {
+        throw new Error(`"${newName}" is not a valid OML name.`);
+    }
+
+    const changes: RenameFileChange[] = [];
+    for (const [uri, edits] of Object.entries(workspaceEdit.changes)) {
+        const changedDocument = documents.find(d => d.uri.toString() === uri);
+        if (!changedDocument) continue;
+        const textDocument = changedDocument.textDocument;
+        const oldText = textDocument.getText();
+        const sorted = [...edits].sort((a, b) => textDocument.offsetAt(b.range.start) - textDocument.offsetAt(a.range.start));
+        let newText = oldText;
+        for (const edit of sorted) {
+            newText = newText.slice(0, textDocument.offsetAt(edit.range.start)) + edit.newText + newText.slice(textDocument.offsetAt(edit.range.end));
+        }
+        const changedPath = changedDocument.uri.fsPath;
+        changes.push({
+            filePath: changedPath,
+            fileUri: uri,
+            relativePath: path.relative(workspaceRoot, changedPath).replace(/\\/g, '/'),
+            oldText,
+            newText,
+            edits: edits
+                .map(edit => ({ line: edit.range.start.line + 1, oldText: textDocument.getText(edit.range), newText: edit.newText }))
+                .sort((a, b) => a.line - b.line),
+        });
+    }
+    changes.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+    return changes;
+}
+
+/**
+ * Write the files of a computed rename and notify the LSP bridge.
+ */
+export async function applyWorkspaceRename(changes: RenameFileChange[]): Promise<void> {
+    for (const change of changes) {
+        if (change.newText !== change.oldText) {
+            await writeFileAndNotify(change.filePath, change.fileUri, change.newText);
+        }
+    }
+}
+
+/**
+ * Format a computed rename as a per-file listing of every edit.
+ */
+export function formatRenameReport(oldName: string, newName: string, changes: RenameFileChange[]): string {
+    const totalEdits = changes.reduce((sum, c) => sum + c.edits.length, 0);
+    const lines: string[] = [
+        `✓ Renamed "${oldName}" to "${newName}". Updated ${changes.length} file(s) with ${totalEdits} edit(s).`,
+    ];
+    for (const change of changes) {
+        lines.push('', `  📄 ${change.relativePath}:`);
+        for (const edit of change.edits) {
+            lines.push(`     L${edit.line}: ${edit.oldText} → ${edit.newText}`);
+        }
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,132 @@
+/**
+ * Unified Diff Utilities
+ *
+ * Produces unified diffs (the `diff -u` / `git diff` format) between two versions
+ * of a file so tools can show the exact textual effect of a change.
+ */
+
+export interface UnifiedDiffOptions {
+    /** Number of unchanged context lines around each hunk (default: 3) */
+    context?: number;
+}
+
+type DiffOp = { kind: 'equal' | 'delete' | 'insert'; line: string };
+
+/**
+ * Create a unified diff between two texts.
+ * Returns an empty string when the texts are identical.
+ *
+ * @param fileLabel Path shown in the ---/+++ headers (usually workspace-relative)
+ * @param oldText Original content
+ * @param newText Updated content
+ */
+export function createUnifiedDiff(fileLabel: string, oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+    if (oldText === newText) return '';
+
+    const context = options.context ?? 3;
+    const oldLines = oldText.split(/\r?\n/);
+    const newLines = newText.split(/\r?\n/);
+    const ops = diffLines(oldLines, newLines);
+
+    const lines: string[] = [`--- a/${fileLabel}`, `+++ b/${fileLabel}`];
+
+    // Group operations into hunks separated by more than 2*context unchanged lines
+    let i = 0;
+    while (i < ops.length) {
+        while (i < ops.length && ops[i].kind === 'equal') i++;
+        if (i >= ops.length) break;
+
+        const start = Math.max(0, i - context);
+        let end = i;
+        while (end < ops.length) {
+            if (ops[end].kind !== 'equal') {
+                end++;
+                continue;
+            }
+            let run = 0;
+            while (end + run < ops.length && ops[end + run].kind === 'equal') run++;
+            if (end + run >= ops.length || run > context * 2) {
+                end = Math.min(ops.length, end + context);
+                break;
+            }
+            end += run;
+        }
+
+        // Compute 1-based line numbers for the hunk header
+        let oldStart = 1;
+        let newStart = 1;
+        for (let k = 0; k < start; k++) {
+            if (ops[k].kind !== 'insert') oldStart++;
+            if (ops[k].kind !== 'delete') newStart++;
+        }
+        let oldCount = 0;
+        let newCount = 0;
+        const body: string[] = [];
+        for (let k = start; k < end; k++) {
+            const op = ops[k];
+            if (op.kind === 'equal') {
+                body.push(` ${op.line}`);
+                oldCount++;
+                newCount++;
+            } else if (op.kind === 'delete') {
+                body.push(`-${op.line}`);
+                oldCount++;
+            } else {
+                body.push(`+${op.line}`);
+                newCount++;
+            }
+        }
+        lines.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+        lines.push(...body);
+        i = end;
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Line-level diff: strips the common prefix/suffix, then runs an LCS on the remainder.
+ * Edits made by the tools are local, so the LCS table stays small in practice.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+
+    const ops: DiffOp[] = a.slice(0, prefix).map(line => ({ kind: 'equal' as const, line }));
+
+    const n = midA.length;
+    const m = midB.length;
+    const table: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+    for (let x = n - 1; x >= 0; x--) {
+        for (let y = m - 1; y >= 0; y--) {
+            table[x][y] = midA[x] === midB[y] ? table[x + 1][y + 1] + 1 : Math.max(table[x + 1][y], table[x][y + 1]);
+        }
+    }
+    let x = 0;
+    let y = 0;
+    while (x < n && y < m) {
+        if (midA[x] === midB[y]) {
+            ops.push({ kind: 'equal', line: midA[x] });
+            x++;
+            y++;
+        } else if (table[x + 1][y] >= table[x][y + 1]) {
+            ops.push({ kind: 'delete', line: midA[x++] });
+        } else {
+            ops.push({ kind: 'insert', line: midB[y++] });
+        }
+    }
+    while (x < n) ops.push({ kind: 'delete', line: midA[x++] });
+    while (y < m) ops.push({ kind: 'insert', line: midB[y++] });
+
+    ops.push(...a.slice(a.length - suffix).map(line => ({ kind: 'equal' as const, line })));
+    return ops;
+}
@@ -26,3 +26,9 @@ export {
     ValidationError,
     handleError,
 } from './error-handler.js';
+
+// Diffs
+export {
+    UnifiedDiffOptions,
+    createUnifiedDiff,
+} from './diff.js';
@@ -99,6 +99,6 @@ export function configureLogger(logger: Logger): void {
 /**
  * Create a logger for a specific module
  */
-export function createLogger(moduleName: string, minLevel: LogLevel = LogLevel.DEBUG): Logger {
+export function createLogger(moduleName: string, minLevel: LogLevel = getDefaultLogLevel()): Logger {
     return new ConsoleLogger(`[OML-MCP:${moduleName}]`, minLevel);
 }
@@ -1,8 +1,7 @@
-import * as fs from 'fs';
-import { NodeFileSystem } from 'langium/node';
 import { createOmlServices } from '../../oml-module.js';
 import { Description, isDescription } from '../../generated/ast.js';
 import { pathToFileUri, fileUriToPath, detectIndentation, getFreshDocument, writeFileAndNotify } from './common.js';
+import { readWorkspaceFile, workspaceFileExists, OverlayFileSystem } from '../services/index.js';
 
 /**
  * Custom error class for when an ontology file doesn't exist.
@@ -33,11 +32,11 @@ export async function loadDescriptionDocument(ontology: string) {
     const fileUri = pathToFileUri(ontology);
     const filePath = fileUriToPath(fileUri);
 
-    if (!fs.existsSync(filePath)) {
+    if (!workspaceFileExists(filePath)) {
         throw new OntologyNotFoundError(filePath);
     }
 
-    const services = createOmlServices(NodeFileSystem);
+    const services = createOmlServices(OverlayFileSystem);
     // Use getFreshDocument to ensure we always read fresh content from disk
     const document = await getFreshDocument(services, fileUri);
 
@@ -65,7 +64,7 @@ export async function loadDescriptionDocument(ontology: string) {
         throw new WrongOntologyTypeError(filePath, 'description', actualType);
     }
 
-    const text = fs.readFileSync(filePath, 'utf-8');
+    const text = readWorkspaceFile(filePath);
     const eol = text.includes('\r\n') ? '\r\n' : '\n';
     const indent = detectIndentation(text);
 
@@ -0,0 +1,217 @@
+/**
+ * Dry Runs of Mutation Tools
+ *
+ * Runs tool calls against the in-memory file overlay (see services/file-overlay.ts) and
+ * validates the files as the calls would leave them, without writing anything. Every tool
+ * that changes ontologies (see MUTATION_TOOL) gets a `dryRun` option from withDryRun, which
+ * reports the unified diff of each file the call would touch and the validation result
+ * instead of writing. In the `confirm` autonomy mode dry runs are the default.
+ */
+
+import * as fs from 'fs';
+import { z } from 'zod';
+import { URI } from 'langium';
+import type { ToolRegistration } from './types.js';
+import { notifyLspBridge, pathToFileUri, runValidation } from './common.js';
+import { createUnifiedDiff } from './common/diff.js';
+import { preferencesState } from './preferences/preferences-state.js';
+import {
+    findOmlFiles, getOmlServices, getRelativeWorkspacePath, getStagedFiles, getWorkspaceRoot, invalidateDocument,
+    isFileOverlayActive, loadWorkspaceDocuments, runInFileOverlay
+} from '../services/index.js';
+
+/** Tools that change ontologies, and can be dry run and batched */
+export const MUTATION_TOOL = /^(create|add|update|delete|move|rename|import)_|^(apply_text_edit|bulk_import_instances|ensure_imports|format_oml)$/;
+
+/** How MUTATION_TOOL reads in tool descriptions and messages */
+export const MUTATION_TOOL_DESCRIPTION = 'create_*, add_*, update_*, delete_*, move_*, rename_* and import_* tools, apply_text_edit, bulk_import_instances, ensure_imports and format_oml';
+
+type ToolResult = { content: Array<{ type: 'text'; text: string }>; isError?: boolean };
+
+export interface StagedRun<T> {
+    /** What the staged calls returned */
+    result: T;
+    /** The staged files: their new content, or null for deletions */
+    staged: Map<string, string | null>;
+    /** Validation errors by absolute file path; in unchanged files only the introduced ones */
+    errors: Map<string, Set<string>>;
+}
+
+/**
+ * Forget the documents parsed from staged content, so that later reads see the disk again.
+ */
+function discardStagedDocuments(files: Iterable<string>): void {
+    const documents = getOmlServices().shared.workspace.LangiumDocuments;
+    for (const file of files) {
+        invalidateDocument(file);
+        const uri = URI.file(file);
+        if (documents.hasDocument(uri)) {
+            documents.deleteDocument(uri);
+        }
+    }
+}
+
+/**
+ * Validate OML files in the workspace they are part of.
+ *
+ * @param only Report the errors of these files only
+ * @returns Error messages by absolute file path
+ */
+async function validateFiles(filePaths: string[], only?: Set<string>): Promise<Map<string, Set<string>>> {
+    const documents = await loadWorkspaceDocuments(filePaths);
+    const validator = getOmlServices().Oml.validation.DocumentValidator;
+    const errors = new Map<string, Set<string>>();
+    for (const document of documents) {
+        if (only && !only.has(document.uri.fsPath)) {
+            continue;
+        }
+        const messages = (await validator.validateDocument(document))
+            .filter(d => d.severity === 1)
+            .map(d => `Line ${d.range.start.line + 1}:${d.range.start.character + 1} - ${d.message}`);
+        if (messages.length > 0) {
+            errors.set(document.uri.fsPath, new Set(messages));
+        }
+    }
+    return errors;
+}
+
+/**
+ * Give the language server the disk content of the files it was sent staged content of.
+ */
+async function restoreLanguageServer(staged: Map<string, string | null>): Promise<void> {
+    for (const [file, content] of staged) {
+        if (content !== null) {
+            await notifyLspBridge(pathToFileUri(file), fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : undefined);
+        }
+    }
+}
+
+/**
+ * Validate the workspace as the staged files leave it, and ask the language server about
+ * the changed files. Runs in the overlay.
+ */
+async function validateStagedWorkspace(): Promise<Map<string, Set<string>>> {
+    const changed = [...getStagedFiles()].filter(([, content]) => content !== null);
+    const errors = await validateFiles([...new Set([...findOmlFiles(getWorkspaceRoot()), ...changed.map(([file]) => file)])]);
+    for (const [file, content] of changed) {
+        const fileUri = pathToFileUri(file);
+        await notifyLspBridge(fileUri, content!);
+        const lspErrors = await runValidation(fileUri);
+        for (const message of lspErrors?.split('\n') ?? []) {
+            errors.set(file, (errors.get(file) ?? new Set()).add(message));
+        }
+    }
+    return errors;
+}
+
+/**
+ * Run tool calls with their file changes staged in memory, and validate the whole workspace
+ * as they would leave it. Nothing is written: the caller commits the staged files or not.
+ *
+ * @param run The calls to stage
+ * @param shouldValidate Whether the result is worth validating (e.g. false when a call failed)
+ */
+export async function runStaged<T>(run: () => Promise<T>, shouldValidate: (result: T) => boolean): Promise<StagedRun<T>> {
+    const staged = new Map<string, string | null>();
+    let errors = new Map<string, Set<string>>();
+    let result: T;
+    try {
+        result = await runInFileOverlay(staged, async () => {
+            const outcome = await run();
+            if (shouldValidate(outcome)) {
+                errors = await validateStagedWorkspace();
+            }
+            return outcome;
+        });
+    } finally {
+        discardStagedDocuments(staged.keys());
+    }
+    await restoreLanguageServer(staged);
+
+    // In the files the calls did not change, only the errors they introduced count
+    const unchanged = new Set([...errors.keys()].filter(file => !staged.has(file)));
+    if (unchanged.size > 0) {
+        const before = await validateFiles(findOmlFiles(getWorkspaceRoot()), unchanged);
+        for (const file of unchanged) {
+            const introduced = [...errors.get(file)!].filter(message => !before.get(file)?.has(message));
+            introduced.length > 0 ? errors.set(file, new Set(introduced)) : errors.delete(file);
+        }
+    }
+    return { result, staged, errors };
+}
+
+export function formatValidationErrors(errors: Map<string, Set<string>>): string {
+    return [...errors]
+        .map(([file, messages]) => `${getRelativeWorkspacePath(file)}:\n${[...messages].map(m => `  ${m}`).join('\n')}`)
+        .join('\n');
+}
+
+/**
+ * Report the staged files as unified diffs against the disk, with the validation result.
+ */
+export function formatDryRunReport(staged: Map<string, string | null>, errors: Map<string, Set<string>>): string {
+    const diffs = [...staged]
+        .map(([file, content]) => {
+            const current = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : '';
+            const label = getRelativeWorkspacePath(file);
+            const diff = createUnifiedDiff(label, current, content ?? '');
+            return content === null ? `(deleted) ${label}\n${diff}` : diff;
+        })
+        .filter(diff => diff.length > 0);
+
+    const validation = errors.size > 0
+        ? `⚠ Validation errors in the result:\n${formatValidationErrors(errors)}`
+        : '✓ Validation passed';
+    return `${diffs.length > 0 ? diffs.join('\n\n') : '(no file would change)'}\n\n${validation}`;
+}
+
+/**
+ * Remove the unified diffs a tool put in its report, which the dry run report shows anyway.
+ */
+function stripUnifiedDiffs(text: string): string {
+    return text.replace(/^--- a\/.*\n\+\+\+ b\/.*(\n[-+ @\\].*)*\n*/gm, '');
+}
+
+/**
+ * Add the `dryRun` option to a mutation tool. Dry runs default to true in the `confirm`
+ * autonomy mode, so that the change can be shown before it is made with dryRun: false.
+ * Calls made by a batch or another dry run are staged anyway, and the option is ignored
+ * for them; calls running alongside one are not part of its overlay.
+ */
+export function withDryRun(registration: ToolRegistration): ToolRegistration {
+    const { tool, handler } = registration;
+    if (!MUTATION_TOOL.test(tool.name)) {
+        return registration;
+    }
+    return {
+        ...registration,
+        tool: {
+            ...tool,
+            paramsSchema: {
+                ...(tool.paramsSchema as z.ZodRawShape),
+                dryRun: z.boolean().optional().describe('If true, return the unified diff of every file the call would change and the validation result, without writing. Default: true in the confirm autonomy mode, false otherwise'),
+            },
+        },
+        handler: async ({ dryRun, ...params }: { dryRun?: boolean } & Record<string, unknown>, ...rest: unknown[]) => {
+            const confirmMode = preferencesState.getPreferences().autonomy === 'confirm';
+            if (isFileOverlayActive() || !(dryRun ?? confirmMode)) {
+                return handler(params, ...rest);
+            }
+            const { result, staged, errors } = await runStaged<ToolResult>(() => handler(params, ...rest), result => !result.isError);
+            if (result.isError) {
+                return result;
+            }
+            // The call's own report (e.g. the rows it skipped), then what it would do to the files
+            const report = stripUnifiedDiffs(result.content.map(c => c.text).join('\n')).trim().replace(/^✓\s*/, '');
+            const apply = dryRun === undefined
+                ? `\n\nNothing was written (dry run is the default in confirm mode). After confirmation, call ${tool.name} again with dryRun: false to apply the change.`
+                : `\n\nNothing was written. Call ${tool.name} again without dryRun to apply the change.`;
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `✓ Dry run of ${tool.name}: ${report}\n\n${formatDryRunReport(staged, errors)}${apply}`,
+                }],
+            };
+        },
+    };
+}
@@ -0,0 +1,67 @@
+/**
+ * Shared helpers of the change history tools: restoring the files of a journaled change
+ * and describing changes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { notifyLspBridge, pathToFileUri } from '../common.js';
+import { changeJournal, invalidateDocument, type ChangeEntry } from '../../services/index.js';
+
+export type HistoryDirection = 'undo' | 'redo';
+
+/**
+ * The content each file must have for the change to be undone or redone cleanly, and the
+ * content it gets.
+ */
+function contents(snapshot: ChangeEntry['files'][number], direction: HistoryDirection) {
+    return direction === 'undo'
+        ? { expected: snapshot.after, target: snapshot.before }
+        : { expected: snapshot.before, target: snapshot.after };
+}
+
+/**
+ * Find the files of a change that were edited after the change was made (or undone).
+ *
+ * @returns Workspace-relative paths of the edited files
+ */
+export function findEditedFiles(entry: ChangeEntry, direction: HistoryDirection): string[] {
+    return entry.files
+        .filter(snapshot => {
+            const file = changeJournal.resolvePath(snapshot);
+            const current = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : null;
+            return current !== contents(snapshot, direction).expected;
+        })
+        .map(snapshot => snapshot.path);
+}
+
+/**
+ * Write (or delete) the files of a change as they were before it (undo) or after it (redo),
+ * and tell the LSP bridge about them.
+ */
+export async function restoreFiles(entry: ChangeEntry, direction: HistoryDirection): Promise<void> {
+    for (const snapshot of entry.files) {
+        const file = changeJournal.resolvePath(snapshot);
+        const fileUri = pathToFileUri(file);
+        const { target } = contents(snapshot, direction);
+        // Written directly: going through writeFileAndNotify would journal the restore as a new change
+        if (target === null) {
+            if (fs.existsSync(file)) {
+                fs.unlinkSync(file);
+            }
+        } else {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, target, 'utf-8');
+        }
+        invalidateDocument(file);
+        await notifyLspBridge(fileUri, target ?? undefined);
+    }
+}
+
+export function describeChange(entry: ChangeEntry): string {
+    const files = entry.files.map(snapshot => {
+        const action = snapshot.before === null ? 'created' : snapshot.after === null ? 'deleted' : 'modified';
+        return `    ${action}: ${snapshot.path}`;
+    });
+    return `#${entry.id} ${entry.tool} (${entry.timestamp})\n${files.join('\n')}`;
+}
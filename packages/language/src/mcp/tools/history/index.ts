@@ -0,0 +1,10 @@
+import type { ToolRegistration } from '../types.js';
+import { undoLastChangeHandler, undoLastChangeTool, undoLastChangeMetadata } from './undo-last-change.js';
+import { redoChangeHandler, redoChangeTool, redoChangeMetadata } from './redo-change.js';
+import { listChangeHistoryHandler, listChangeHistoryTool, listChangeHistoryMetadata } from './list-change-history.js';
+
+export const historyTools: ToolRegistration[] = [
+    { tool: undoLastChangeTool, handler: undoLastChangeHandler, metadata: undoLastChangeMetadata },
+    { tool: redoChangeTool, handler: redoChangeHandler, metadata: redoChangeMetadata },
+    { tool: listChangeHistoryTool, handler: listChangeHistoryHandler, metadata: listChangeHistoryMetadata },
+];
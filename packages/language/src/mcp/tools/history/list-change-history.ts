@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { changeJournal } from '../../services/index.js';
+import { describeChange } from './history-common.js';
+
+const paramsSchema = {
+    limit: z.number().int().positive().optional().describe('Maximum number of changes to list in each of the undo and redo stacks. Default: 20'),
+    includeParams: z.boolean().optional().describe('Include the parameters of each tool call. Default: false'),
+};
+
+export const listChangeHistoryTool = {
+    name: 'list_change_history' as const,
+    description: `Lists the journaled changes of MCP tools in this workspace: the changes undo_last_change would undo (most recent first) and the undone changes redo_change would reapply.
+
+Each change shows the tool that made it, when, and the files it created, modified or deleted.`,
+    paramsSchema,
+};
+
+export const listChangeHistoryMetadata = {
+    id: 'list_change_history',
+    displayName: 'List Change History',
+    layer: 'core' as const,
+    severity: 'low' as const,
+    version: '1.0.0',
+    shortDescription: 'List the changes that can be undone and redone',
+    description: 'Lists the journaled tool changes of the workspace with their tool, time and files, for use with undo_last_change and redo_change.',
+    tags: ['history', 'undo', 'redo', 'journal', 'query'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+export const listChangeHistoryHandler = async ({ limit = 20, includeParams }: { limit?: number; includeParams?: boolean }) => {
+    try {
+        const { undo, redo } = changeJournal.getHistory();
+        const describe = (entries: typeof undo) => entries.slice(-limit).reverse().map(entry =>
+            includeParams ? `${describeChange(entry)}\n    params: ${JSON.stringify(entry.params)}` : describeChange(entry));
+
+        const sections = [
+            `Undoable changes (${undo.length}, most recent first):\n${undo.length > 0 ? describe(undo).join('\n') : '  (none)'}`,
+            `Redoable changes (${redo.length}, next first):\n${redo.length > 0 ? describe(redo).join('\n') : '  (none)'}`,
+        ];
+        return {
+            content: [{ type: 'text' as const, text: sections.join('\n\n') }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [{ type: 'text' as const, text: `Error listing change history: ${error instanceof Error ? error.message : String(error)}` }],
+        };
+    }
+};
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { changeJournal } from '../../services/index.js';
+import { describeChange, findEditedFiles, restoreFiles } from './history-common.js';
+
+const paramsSchema = {
+    force: z.boolean().optional().describe('Reapply the change even if its files were edited after it was undone. Default: false'),
+};
+
+export const redoChangeTool = {
+    name: 'redo_change' as const,
+    description: `Reapplies the most recently undone change, writing its files as the original tool call left them.
+
+Redo is only possible until a new change is made: any new tool change clears the changes that can be redone.
+
+If a file was edited after the change was undone, the redo is refused unless force is true.`,
+    paramsSchema,
+};
+
+export const redoChangeMetadata = {
+    id: 'redo_change',
+    displayName: 'Redo Change',
+    layer: 'core' as const,
+    severity: 'high' as const,
+    version: '1.0.0',
+    shortDescription: 'Reapply the most recently undone tool change',
+    description: 'Writes the files of the most recently undone journaled change as the tool call left them and notifies the language server.',
+    tags: ['history', 'redo', 'journal'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+export const redoChangeHandler = async ({ force }: { force?: boolean }) => {
+    try {
+        const entry = changeJournal.getHistory().redo.at(-1);
+        if (!entry) {
+            return { isError: true, content: [{ type: 'text' as const, text: 'There is no undone change to redo.' }] };
+        }
+
+        const edited = findEditedFiles(entry, 'redo');
+        if (edited.length > 0 && !force) {
+            return {
+                isError: true,
+                content: [{
+                    type: 'text' as const,
+                    text: `Cannot redo change #${entry.id} (${entry.tool}): these files were edited since it was undone:\n${edited.map(f => `  • ${f}`).join('\n')}\n\nUse force: true to overwrite them anyway.`,
+                }],
+            };
+        }
+
+        await restoreFiles(entry, 'redo');
+        changeJournal.markRedone(entry.id);
+        return {
+            content: [{ type: 'text' as const, text: `✓ Redid change ${describeChange(entry)}` }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [{ type: 'text' as const, text: `Error redoing change: ${error instanceof Error ? error.message : String(error)}` }],
+        };
+    }
+};
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { changeJournal } from '../../services/index.js';
+import { describeChange, findEditedFiles, restoreFiles } from './history-common.js';
+
+const paramsSchema = {
+    force: z.boolean().optional().describe('Restore the files even if they were edited after the change was made. Default: false'),
+};
+
+export const undoLastChangeTool = {
+    name: 'undo_last_change' as const,
+    description: `Undoes the most recent change made by an MCP tool, restoring every file it created, modified or deleted to its content before the change.
+
+Changes are journaled per workspace and survive server restarts. Undo repeatedly to step further back; use redo_change to reapply an undone change, and list_change_history to see what can be undone.
+
+If a file was edited after the change was made, the undo is refused unless force is true.`,
+    paramsSchema,
+};
+
+export const undoLastChangeMetadata = {
+    id: 'undo_last_change',
+    displayName: 'Undo Last Change',
+    layer: 'core' as const,
+    severity: 'high' as const,
+    version: '1.0.0',
+    shortDescription: 'Restore the files of the most recent tool change',
+    description: 'Restores the files changed by the most recent journaled MCP tool call to their previous content and notifies the language server.',
+    tags: ['history', 'undo', 'journal'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+export const undoLastChangeHandler = async ({ force }: { force?: boolean }) => {
+    try {
+        const entry = changeJournal.getHistory().undo.at(-1);
+        if (!entry) {
+            return { isError: true, content: [{ type: 'text' as const, text: 'There is no change to undo.' }] };
+        }
+
+        const edited = findEditedFiles(entry, 'undo');
+        if (edited.length > 0 && !force) {
+            return {
+                isError: true,
+                content: [{
+                    type: 'text' as const,
+                    text: `Cannot undo change #${entry.id} (${entry.tool}): these files were edited since:\n${edited.map(f => `  • ${f}`).join('\n')}\n\nUse force: true to restore them anyway, losing those edits.`,
+                }],
+            };
+        }
+
+        await restoreFiles(entry, 'undo');
+        changeJournal.markUndone(entry.id);
+        return {
+            content: [{ type: 'text' as const, text: `✓ Undid change ${describeChange(entry)}\n\nUse redo_change to reapply it.` }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [{ type: 'text' as const, text: `Error undoing change: ${error instanceof Error ? error.message : String(error)}` }],
+        };
+    }
+};
@@ -4,27 +4,35 @@ import { axiomTools } from './axioms/index.js';
 import { instanceTools } from './instances/index.js';
 import { ontologyTools } from './ontology/index.js';
 import { ruleTools } from './rules/index.js';
+import { interchangeTools } from './interchange/index.js';
 import { validateOmlHandler, validateOmlTool, validateOmlMetadata } from './validate-tool.js';
-import { pendingTools } from './stubs/pending-tools.js';
 import { ensureImportsHandler, ensureImportsTool } from './methodology/ensure-imports.js';
 import { clarifyMethodologyPreferencesHandler, clarifyMethodologyPreferencesTool } from './methodology/clarify-methodology-preferences.js';
 import { extractMethodologyRulesHandler, extractMethodologyRulesTool } from './methodology/extract-methodology-rules.js';
 import { enforceMethodologyRulesHandler, enforceMethodologyRulesTool, enforceMethodologyRulesMetadata } from './methodology/enforce-methodology-rules.js';
 import { extractDescriptionSchemasHandler, extractDescriptionSchemasTool } from './methodology/extract-description-schemas.js';
-import { suggestOmlSymbolsTool, analyzeImpactTool, analyzeImpactHandler, suggestOmlSymbolsMetadata, analyzeImpactMetadata } from './query/index.js';
+import { suggestOmlSymbolsTool, analyzeImpactTool, analyzeImpactHandler, suggestOmlSymbolsMetadata, analyzeImpactMetadata, querySparqlTool, querySparqlHandler, querySparqlMetadata, getInferredFactsTool, getInferredFactsHandler, getInferredFactsMetadata, checkConsistencyTool, checkConsistencyHandler, checkConsistencyMetadata, semanticDiffTool, semanticDiffHandler, semanticDiffMetadata } from './query/index.js';
 import { suggestOmlSymbolsHandler } from './query/suggest-oml-symbols.js';
 import { preferencesTools } from './preferences/index.js';
+import { historyTools } from './history/index.js';
+import { withDryRun } from './dry-run.js';
 
 const coreTools: ToolRegistration[] = [
     { tool: validateOmlTool, handler: validateOmlHandler, metadata: validateOmlMetadata },
     { tool: suggestOmlSymbolsTool, handler: suggestOmlSymbolsHandler, metadata: suggestOmlSymbolsMetadata },
     { tool: analyzeImpactTool, handler: analyzeImpactHandler, metadata: analyzeImpactMetadata },
-    ...termTools,
-    ...axiomTools,
-    ...instanceTools,
-    ...ontologyTools,
-    ...ruleTools,
-    { tool: ensureImportsTool, handler: ensureImportsHandler },
+    { tool: querySparqlTool, handler: querySparqlHandler, metadata: querySparqlMetadata },
+    { tool: getInferredFactsTool, handler: getInferredFactsHandler, metadata: getInferredFactsMetadata },
+    { tool: checkConsistencyTool, handler: checkConsistencyHandler, metadata: checkConsistencyMetadata },
+    { tool: semanticDiffTool, handler: semanticDiffHandler, metadata: semanticDiffMetadata },
+    ...termTools.map(withDryRun),
+    ...axiomTools.map(withDryRun),
+    ...instanceTools.map(withDryRun),
+    ...ontologyTools.map(withDryRun),
+    ...ruleTools.map(withDryRun),
+    ...interchangeTools.map(withDryRun),
+    ...historyTools,
+    withDryRun({ tool: ensureImportsTool, handler: ensureImportsHandler }),
     { tool: clarifyMethodologyPreferencesTool, handler: clarifyMethodologyPreferencesHandler },
     { tool: extractMethodologyRulesTool, handler: extractMethodologyRulesHandler },
     { tool: enforceMethodologyRulesTool, handler: enforceMethodologyRulesHandler, metadata: enforceMethodologyRulesMetadata },
@@ -64,6 +72,7 @@ export const phase2Tools: ToolRegistration[] = pickTools([
     'create_relation_instance',
     'delete_instance',
     'update_instance',
+    'rename_instance',
 ]);
 
 export const phase3Tools: ToolRegistration[] = pickTools([
@@ -71,6 +80,8 @@ export const phase3Tools: ToolRegistration[] = pickTools([
     'add_import',
     'delete_import',
     'delete_ontology',
+    'update_ontology',
+    'format_oml',
     'add_equivalence',
     'delete_equivalence',
     'delete_restriction',
@@ -92,6 +103,9 @@ export const phase3Tools: ToolRegistration[] = pickTools([
     'extract_methodology_rules',
     'enforce_methodology_rules',
     'extract_description_schemas',
+    'export_owl',
+    'import_owl',
+    'generate_shacl',
 ]);
 
 export const methodologyModeToolNames = new Set<string>([
@@ -102,7 +116,4 @@ export const methodologyModeToolNames = new Set<string>([
     'extract_description_schemas',
 ]);
 
-export const allTools: ToolRegistration[] = [
-    ...coreTools,
-    ...pendingTools.map((p) => ({ tool: p.tool, handler: p.handler }))
-];
+export const allTools: ToolRegistration[] = [...coreTools];
@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import * as fs from 'fs';
+import { planInstancesCsvImport } from '../../../oml-csv.js';
+import type { CsvImportMapping, CsvImportPlan } from '../../../oml-csv.js';
+import { getWorkspaceRoot, pathToFileUri, resolveWorkspacePath } from '../common.js';
+import { writeDescriptionAndNotify } from '../description-common.js';
+import { findOmlFiles, getRelativeWorkspacePath, loadWorkspaceDocuments } from '../../services/index.js';
+
+const mappingSchema = z.object({
+    nameColumn: z.string().describe('Column holding the instance names (OML identifiers)'),
+    type: z.string().optional().describe('Type of every instance (simple or qualified concept/aspect name)'),
+    typeColumn: z.string().optional().describe('Column holding the type(s) of each instance, instead of or in addition to type'),
+    properties: z.record(z.string()).optional().describe('Scalar property per column, e.g. {"Title": "requirement:title"}'),
+    relations: z.record(z.string()).optional().describe('Relation per column whose cells hold instance names, e.g. {"Satisfies": "requirement:satisfies"}'),
+    separator: z.string().optional().describe('Separates several values in one cell. Default: ";"'),
+    delimiter: z.string().optional().describe('Field delimiter of the CSV file. Default: ","'),
+});
+
+const paramsSchema = {
+    csvPath: z.string().describe('CSV file to import (absolute or workspace-relative); its first row holds the column headers'),
+    mapping: mappingSchema.describe('Which columns hold the names, types, property values and related instances'),
+    ontology: z.string().optional().describe('Description to add the instances to (absolute or workspace-relative). When omitted, each row is routed by its type with route_instance'),
+    namespace: z.string().optional().describe('Namespace for creating the description when ontology does not exist yet'),
+    prefix: z.string().optional().describe('Prefix for creating the description. Default: the file name'),
+    playbookPath: z.string().optional().describe('Methodology playbook for routing (auto-detected when omitted)'),
+};
+
+export interface BulkImportOptions {
+    csvPath: string;
+    mapping: CsvImportMapping;
+    ontology?: string;
+    namespace?: string;
+    prefix?: string;
+    playbookPath?: string;
+    dryRun?: boolean;
+}
+
+export interface BulkImportResult extends CsvImportPlan {
+    dryRun: boolean;
+}
+
+export const bulkImportInstancesTool = {
+    name: 'bulk_import_instances' as const,
+    description: `Creates many concept instances at once from a CSV file and a column mapping, producing or appending to description files.
+
+Mapping:
+- nameColumn: the column with the instance names
+- type and/or typeColumn: the type of all rows, or a column with each row's type(s)
+- properties: {column: scalar property}; cells are converted to the property's range (numbers, booleans, enumerations)
+- relations: {column: relation}; cells hold names of instances of the CSV, of the target description or qualified names
+- separator: splits several values in a cell (default ";")
+
+Types, properties and relations are resolved like create_concept_instance, and imports are added. Without ontology, each row goes to the description route_instance recommends for its type; with ontology, rows whose type the playbook does not allow there are rejected. A missing ontology is created when namespace is given.
+
+Rows with problems (invalid or duplicate names, unknown types, bad values, unknown related instances, existing instances, routing) are reported by line and skipped; the others are imported. Use dryRun to check a file first.`,
+    paramsSchema,
+};
+
+export const bulkImportInstancesMetadata = {
+    id: 'bulk_import_instances',
+    displayName: 'Bulk Import Instances',
+    layer: 'description' as const,
+    severity: 'high' as const,
+    version: '1.0.0',
+    shortDescription: 'Import concept instances from a CSV file',
+    description: 'Creates concept instances with property values and relations from the rows of a CSV file, routed by the methodology playbook and reporting errors per row.',
+    tags: ['import', 'csv', 'bulk', 'description', 'instance-creation'],
+    dependencies: ['create_concept_instance', 'route_instance'],
+    addedDate: '2024-01-01',
+};
+
+/**
+ * Imports the rows of a CSV file as concept instances (see planInstancesCsvImport) and, unless on a
+ * dry run, writes the descriptions. Problems with the file or the mapping are thrown.
+ */
+export async function bulkImportInstances(options: BulkImportOptions): Promise<BulkImportResult> {
+    const csvPath = resolveWorkspacePath(options.csvPath);
+    if (!fs.existsSync(csvPath)) {
+        throw new Error(`CSV file not found at ${csvPath}`);
+    }
+    const workspace = getWorkspaceRoot();
+    const target = options.ontology ? resolveWorkspacePath(options.ontology) : undefined;
+    const files = findOmlFiles(workspace);
+    if (target && fs.existsSync(target) && !files.includes(target)) {
+        files.push(target);
+    }
+    const documents = await loadWorkspaceDocuments(files);
+    const plan = planInstancesCsvImport(fs.readFileSync(csvPath, 'utf-8'), {
+        mapping: options.mapping,
+        documents,
+        workspace,
+        target,
+        namespace: options.namespace,
+        prefix: options.prefix,
+        playbookPath: options.playbookPath,
+    });
+    const dryRun = options.dryRun ?? false;
+    if (!dryRun) {
+        for (const file of plan.files) {
+            await writeDescriptionAndNotify(file.path, pathToFileUri(file.path), file.content);
+        }
+    }
+    return { ...plan, dryRun };
+}
+
+function formatResult(result: BulkImportResult, csvPath: string): string {
+    const count = result.files.reduce((sum, file) => sum + file.instances.length, 0);
+    const lines = [`✓ ${result.dryRun ? 'Dry run: would import' : 'Imported'} ${count} of ${result.rows} row(s) from ${getRelativeWorkspacePath(csvPath)}`];
+    for (const file of result.files) {
+        lines.push('', `${getRelativeWorkspacePath(file.path)}${file.created ? ' (new description)' : ''}: ${file.instances.join(', ')}`);
+    }
+    if (result.errors.length > 0) {
+        lines.push('', `${result.errors.length} row error(s):`, ...result.errors.map(error => `- line ${error.line}${error.name ? ` (${error.name})` : ''}: ${error.message}`));
+    }
+    return lines.join('\n');
+}
+
+export const bulkImportInstancesHandler = async (params: BulkImportOptions) => {
+    try {
+        const result = await bulkImportInstances(params);
+        return {
+            content: [{ type: 'text' as const, text: formatResult(result, resolveWorkspacePath(params.csvPath)) }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error importing CSV: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
@@ -1,4 +1,3 @@
-import * as fs from 'fs';
 import { z } from 'zod';
 import { AnnotationParam, PropertyValueParam, collectImportPrefixes, formatAnnotations, formatLiteral, insertBeforeClosingBrace, normalizeNameCase, stripLocalPrefix, appendValidationIfSafeMode } from '../common.js';
 import { annotationParamSchema, propertyValueParamSchema } from '../schemas.js';
@@ -6,6 +5,7 @@ import { loadDescriptionDocument, writeDescriptionAndNotify, findInstance, Ontol
 import { resolveSymbolName, createResolutionErrorResult, parseVocabularyForProperties, type OmlSymbolType } from '../query/index.js';
 import { preferencesState } from '../preferences/preferences-state.js';
 import { ensureImportsHandler } from '../methodology/ensure-imports.js';
+import { readWorkspaceFile } from '../../services/index.js';
 
 const paramsSchema = {
     ontology: z.string().describe('ABSOLUTE file path to a DESCRIPTION ontology file. Use the full path from the open file, e.g., c:/Users/.../file.oml'),
@@ -326,12 +326,12 @@ export const createConceptInstanceHandler = async (params: {
 
         // Verify the instance was persisted (guards against stale writes or editor race conditions)
         const instanceRegex = new RegExp(`\\binstance\\s+${name}\\b`);
-        let persistedText = fs.readFileSync(currentFilePath, 'utf-8');
+        let persistedText = readWorkspaceFile(currentFilePath);
         if (!instanceRegex.test(persistedText)) {
             // Retry once against the latest file contents
             const retryContent = insertBeforeClosingBrace(persistedText, instanceText);
             await writeDescriptionAndNotify(currentFilePath, currentFileUri, retryContent);
-            persistedText = fs.readFileSync(currentFilePath, 'utf-8');
+            persistedText = readWorkspaceFile(currentFilePath);
             if (!instanceRegex.test(persistedText)) {
                 return {
                     isError: true,
@@ -393,7 +393,7 @@ export const createConceptInstanceHandler = async (params: {
         if (error instanceof WrongOntologyTypeError) {
             // If the file exists but is empty, instruct to initialize it with create_ontology
             try {
-                const existingText = fs.readFileSync(error.filePath, 'utf-8');
+                const existingText = readWorkspaceFile(error.filePath);
                 if (existingText.trim().length === 0) {
                     return {
                         isError: true,
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { loadDescriptionDocument, findInstance, OntologyNotFoundError, WrongOntologyTypeError } from '../description-common.js';
+import { computeWorkspaceRename, applyWorkspaceRename, formatRenameReport } from '../common.js';
+
+const paramsSchema = {
+    ontology: z.string().describe('ABSOLUTE file path to the description declaring the instance'),
+    instance: z.string().describe('Current name of the instance'),
+    newName: z.string().describe('New name for the instance'),
+};
+
+export const renameInstanceTool = {
+    name: 'rename_instance' as const,
+    description: `Renames a concept or relation instance across all referencing files in the workspace.
+
+Rewrites the declaration and every reference to the instance (relation instance from/to,
+property values, "ref" statements, oneOf enumerations), whether written as a local name,
+a qualified name (prefix:name) or a full IRI. Works without the editor running.
+
+Use dryRun=true to preview the diffs without writing.
+To change types or property values instead, use update_instance.`,
+    paramsSchema,
+};
+
+export const renameInstanceMetadata = {
+    id: 'rename_instance',
+    displayName: 'Rename Instance',
+    layer: 'description' as const,
+    severity: 'high' as const,
+    version: '1.0.0',
+    shortDescription: 'Rename an instance and all its references',
+    description: 'Renames a concept or relation instance and rewrites every reference to it across the workspace.',
+    tags: ['instance-update', 'description', 'refactoring'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+export const renameInstanceHandler = async (
+    { ontology, instance, newName }: { ontology: string; instance: string; newName: string }
+) => {
+    try {
+        const { description, filePath } = await loadDescriptionDocument(ontology);
+
+        if (!findInstance(description, instance)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Instance "${instance}" was not found in the description.` }],
+            };
+        }
+
+        if (instance === newName) {
+            return {
+                content: [{ type: 'text' as const, text: `No change: the instance is already named "${instance}".` }],
+            };
+        }
+
+        if (findInstance(description, newName)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Instance "${newName}" already exists in the description.` }],
+            };
+        }
+
+        const changes = await computeWorkspaceRename(
+            filePath,
+            (node) => (node.$type === 'ConceptInstance' || node.$type === 'RelationInstance') && node.name === instance,
+            newName
+        );
+
+        await applyWorkspaceRename(changes);
+
+        return {
+            content: [{ type: 'text' as const, text: formatRenameReport(instance, newName, changes) }],
+        };
+    } catch (error) {
+        if (error instanceof OntologyNotFoundError) {
+            return {
+                isError: true,
+                content: [{
+                    type: 'text' as const,
+                    text: `❌ ONTOLOGY NOT FOUND: ${error.filePath}\n\nThe description file does not exist.`
+                }],
+            };
+        }
+        if (error instanceof WrongOntologyTypeError) {
+            return {
+                isError: true,
+                content: [{
+                    type: 'text' as const,
+                    text: `❌ WRONG ONTOLOGY TYPE: Expected "description" but found "${error.actualType}". Instances can only exist in description files.`
+                }],
+            };
+        }
+        return {
+            isError: true,
+            content: [{ type: 'text' as const, text: `Error renaming instance: ${error instanceof Error ? error.message : String(error)}` }],
+        };
+    }
+};
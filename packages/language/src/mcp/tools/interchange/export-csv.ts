@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isDescription, isDescriptionBundle } from '../../../generated/ast.js';
+import { exportInstancesCsv, exportRelationMatrixCsv } from '../../../oml-csv.js';
+import { pathToFileUri, fileUriToPath, loadWorkspaceDocument, resolveWorkspacePath } from '../common.js';
+import { getRelativeWorkspacePath } from '../../services/index.js';
+
+const paramsSchema = {
+    ontology: z.string().describe('ABSOLUTE file path to the description or description bundle whose instances are exported'),
+    type: z.string().describe('Type whose instances (including instances of its subtypes) are the rows, e.g. "Requirement" or "requirement:Requirement"'),
+    columns: z.array(z.string()).optional().describe('Columns as "[header=]value": "@name", "@iri", "@types", a property or relation name, or "^relation" for the instances relating to the row. Default: name, types and the properties of the type'),
+    columnType: z.string().optional().describe('Export a relation matrix instead: the type whose instances are the columns'),
+    relation: z.string().optional().describe('For a matrix: the relation entity (or forward/reverse relation) whose relation instances fill the cells, or an unreified relation marked with x. Default: all relation instances'),
+    separator: z.string().optional().describe('Joins several values in a cell. Default: "; "'),
+    outputPath: z.string().optional().describe('File to write to (absolute or workspace-relative). When omitted, the CSV is returned as text'),
+};
+
+export const exportCsvTool = {
+    name: 'export_csv' as const,
+    description: `Exports the instances of a type in a description (or description bundle) as CSV for spreadsheets, including the instances of its subtypes.
+
+Table (default): one row per instance, with the given columns:
+- "@name", "@iri", "@types"
+- a scalar property or relation name (local, or prefix:name when ambiguous): its values, including those given by relation instances
+- "^relation": the instances relating to the row by the relation (reverse navigation)
+- "Header=value" to name a column
+Several values are joined with the separator.
+
+Matrix (with columnType): a row per instance of type, a column per instance of columnType and, in each cell, the relation instances from the row instance to the column instance (or x for an unreified relation).`,
+    paramsSchema,
+};
+
+export const exportCsvMetadata = {
+    id: 'export_csv',
+    displayName: 'Export CSV',
+    layer: 'core' as const,
+    severity: 'low' as const,
+    version: '1.0.0',
+    shortDescription: 'Export description instances or a relation matrix as CSV',
+    description: 'Flattens the instances of a type and their property values into CSV with configurable columns, or exports the relation instances between two types as a matrix.',
+    tags: ['export', 'csv', 'interchange', 'description', 'spreadsheet'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+export const exportCsvHandler = async (
+    { ontology, type, columns, columnType, relation, separator, outputPath }:
+    { ontology: string; type: string; columns?: string[]; columnType?: string; relation?: string; separator?: string; outputPath?: string }
+) => {
+    try {
+        const filePath = fileUriToPath(pathToFileUri(ontology));
+        if (!fs.existsSync(filePath)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Ontology not found at ${filePath}` }],
+            };
+        }
+
+        const { document } = await loadWorkspaceDocument(filePath);
+        const root = document.parseResult.value;
+        if (!isDescription(root) && !isDescriptionBundle(root)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `${getRelativeWorkspacePath(filePath)} is not a description or description bundle. Instances are exported from descriptions.` }],
+            };
+        }
+
+        const csv = columnType
+            ? exportRelationMatrixCsv(root, { rowType: type, columnType, relation, separator })
+            : exportInstancesCsv(root, { type, columns, separator });
+        const kind = columnType ? `the ${type} × ${columnType} matrix` : `the ${type} instances`;
+        if (outputPath) {
+            const target = resolveWorkspacePath(outputPath);
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.writeFileSync(target, csv, 'utf-8');
+            return {
+                content: [{ type: 'text' as const, text: `✓ Exported ${kind} of ${getRelativeWorkspacePath(filePath)} to ${getRelativeWorkspacePath(target)}` }],
+            };
+        }
+        return {
+            content: [{ type: 'text' as const, text: `✓ Exported ${kind} of ${getRelativeWorkspacePath(filePath)}\n\n${csv}` }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error exporting CSV: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
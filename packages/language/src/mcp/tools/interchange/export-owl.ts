@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isOntology } from '../../../generated/ast.js';
+import { exportOntologyToOwl } from '../../../oml-owl.js';
+import { RDF_FORMATS, serializeGraph } from '../../../oml-rdf.js';
+import type { RdfFormat } from '../../../oml-rdf.js';
+import { pathToFileUri, fileUriToPath, loadWorkspaceDocument, resolveWorkspacePath } from '../common.js';
+import { getRelativeWorkspacePath } from '../../services/index.js';
+
+const paramsSchema = {
+    ontology: z.string().describe('ABSOLUTE file path to the ontology (vocabulary, description or bundle) to export'),
+    format: z.enum(['turtle', 'ntriples', 'rdfxml']).optional().describe('RDF serialization. Default: turtle'),
+    closure: z.boolean().optional().describe('Also export the ontologies imported by the ontology, transitively. Bundles always export their closure. Default: false'),
+    outputPath: z.string().optional().describe('File to write the export to (absolute or workspace-relative). When omitted, the export is returned as text'),
+};
+
+export const exportOwlTool = {
+    name: 'export_owl' as const,
+    description: `Exports an OML ontology, or a bundle closure, to OWL 2 as Turtle, N-Triples or RDF/XML.
+
+Mapping:
+- Concepts, aspects and relation entities → owl:Class
+- Forward and unreified relations → owl:ObjectProperty (domain, range, characteristics); reverse relations → owl:inverseOf
+- Scalar properties → owl:DatatypeProperty; scalars → rdfs:Datatype with facets and enumerations
+- Restrictions → owl:Restriction; keys → owl:hasKey; rules → SWRL
+- Instances → owl:NamedIndividual with types and property values; relation instances also link their sources and targets
+
+Imports are resolved against the workspace. Give outputPath to write a file; otherwise the serialization is returned.`,
+    paramsSchema,
+};
+
+export const exportOwlMetadata = {
+    id: 'export_owl',
+    displayName: 'Export OWL',
+    layer: 'core' as const,
+    severity: 'low' as const,
+    version: '1.0.0',
+    shortDescription: 'Export an ontology to OWL (Turtle, N-Triples, RDF/XML)',
+    description: 'Serializes an ontology or a bundle closure to OWL 2 in Turtle, N-Triples or RDF/XML, optionally writing it to a file.',
+    tags: ['export', 'owl', 'rdf', 'interchange'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+export const exportOwlHandler = async (
+    { ontology, format = 'turtle', closure = false, outputPath }: { ontology: string; format?: RdfFormat; closure?: boolean; outputPath?: string }
+) => {
+    try {
+        const filePath = fileUriToPath(pathToFileUri(ontology));
+        if (!fs.existsSync(filePath)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Ontology not found at ${filePath}` }],
+            };
+        }
+        if (!RDF_FORMATS.includes(format)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Unknown format "${format}". Use one of: ${RDF_FORMATS.join(', ')}.` }],
+            };
+        }
+
+        const { document } = await loadWorkspaceDocument(filePath);
+        const root = document.parseResult.value;
+        if (!isOntology(root)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `${getRelativeWorkspacePath(filePath)} does not contain an ontology.` }],
+            };
+        }
+        const { parserErrors, lexerErrors } = document.parseResult;
+        if (parserErrors.length > 0 || lexerErrors.length > 0) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Cannot export: ${getRelativeWorkspacePath(filePath)} has syntax errors. Run validate_oml first.` }],
+            };
+        }
+
+        const result = exportOntologyToOwl(root, { closure });
+        const output = serializeGraph(result.graph, format, result.prefixes);
+        const summary = `${result.graph.triples.length} triple(s) from ${result.ontologies.length} ontolog${result.ontologies.length === 1 ? 'y' : 'ies'}`;
+
+        if (outputPath) {
+            const target = resolveWorkspacePath(outputPath);
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.writeFileSync(target, output, 'utf-8');
+            return {
+                content: [{ type: 'text' as const, text: `✓ Exported ${getRelativeWorkspacePath(filePath)} to ${getRelativeWorkspacePath(target)} (${format}, ${summary})` }],
+            };
+        }
+        return {
+            content: [{ type: 'text' as const, text: `✓ Exported ${getRelativeWorkspacePath(filePath)} (${format}, ${summary})\n\n${output}` }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error exporting ontology: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isDescription, isDescriptionBundle, isOntology } from '../../../generated/ast.js';
+import { generateJsonLdContext, generateJsonSchema } from '../../../oml-json-schema.js';
+import { pathToFileUri, fileUriToPath, loadWorkspaceDocument, resolveWorkspacePath } from '../common.js';
+import { getRelativeWorkspacePath } from '../../services/index.js';
+
+const paramsSchema = {
+    ontology: z.string().describe('ABSOLUTE file path to the vocabulary or vocabulary bundle whose terms the JSON data uses'),
+    format: z.enum(['schema', 'context']).optional().describe('schema (JSON Schema, draft 2020-12) or context (JSON-LD @context). Default: schema'),
+    outputPath: z.string().optional().describe('File to write to (absolute or workspace-relative). When omitted, the result is returned as text'),
+};
+
+export const generateJsonSchemaTool = {
+    name: 'generate_json_schema' as const,
+    description: `Generates a JSON Schema or a JSON-LD context for instance data in the JSON format of descriptions, from a vocabulary or vocabulary bundle and its imports.
+
+The JSON format is the one of \`oml export --format json\` and import_json_instances: { "@id": namespace, "instances": [ { "@id": IRI, "@type": [type names], property: value(s) } ] }. Types and properties are named by their local name, or prefix:name when ambiguous; functional properties hold one value, others an array.
+
+Schema: a definition per concept, aspect and relation entity, applied to instances whose @type names it, with:
+- the properties whose domain is the entity or a supertype; scalars map to string/number/integer/boolean with enumerations and facets, relations to IRIs (or nested instances)
+- minItems/maxItems and required from some, min, max, exactly and value restrictions and from keys
+- from/to for relation entities
+
+Context: type and property names → IRIs, relations → @id, scalar properties → their XSD datatype, non-functional properties → @set, instances → @graph, from/to → oml:hasSource/oml:hasTarget.`,
+    paramsSchema,
+};
+
+export const generateJsonSchemaMetadata = {
+    id: 'generate_json_schema',
+    displayName: 'Generate JSON Schema',
+    layer: 'core' as const,
+    severity: 'low' as const,
+    version: '1.0.0',
+    shortDescription: 'Generate a JSON Schema or JSON-LD context for description data',
+    description: 'Derives a JSON Schema with cardinalities from restrictions, or a JSON-LD context, for exchanging description instances as JSON.',
+    tags: ['export', 'json', 'json-schema', 'json-ld', 'interchange'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+export const generateJsonSchemaHandler = async (
+    { ontology, format = 'schema', outputPath }: { ontology: string; format?: 'schema' | 'context'; outputPath?: string }
+) => {
+    try {
+        const filePath = fileUriToPath(pathToFileUri(ontology));
+        if (!fs.existsSync(filePath)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Ontology not found at ${filePath}` }],
+            };
+        }
+
+        const { document } = await loadWorkspaceDocument(filePath);
+        const root = document.parseResult.value;
+        if (!isOntology(root)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `${getRelativeWorkspacePath(filePath)} does not contain an ontology.` }],
+            };
+        }
+        if (isDescription(root) || isDescriptionBundle(root)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `${getRelativeWorkspacePath(filePath)} is a ${root.$type.replace('Bundle', ' bundle').toLowerCase()}. Schemas are generated from vocabularies or vocabulary bundles.` }],
+            };
+        }
+
+        const result = format === 'context' ? generateJsonLdContext(root) : generateJsonSchema(root);
+        const output = `${JSON.stringify(result, null, 2)}\n`;
+        const kind = format === 'context' ? 'JSON-LD context' : 'JSON Schema';
+        if (outputPath) {
+            const target = resolveWorkspacePath(outputPath);
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.writeFileSync(target, output, 'utf-8');
+            return {
+                content: [{ type: 'text' as const, text: `✓ Generated ${kind} for ${getRelativeWorkspacePath(filePath)} in ${getRelativeWorkspacePath(target)}` }],
+            };
+        }
+        return {
+            content: [{ type: 'text' as const, text: `✓ Generated ${kind} for ${getRelativeWorkspacePath(filePath)}\n\n${output}` }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error generating JSON schema: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
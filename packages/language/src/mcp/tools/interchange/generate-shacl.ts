@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isDescription, isDescriptionBundle, isOntology } from '../../../generated/ast.js';
+import { generateShapes } from '../../../oml-shacl.js';
+import { RDF_FORMATS, serializeGraph } from '../../../oml-rdf.js';
+import type { RdfFormat } from '../../../oml-rdf.js';
+import { findPlaybook, loadPlaybook } from '../methodology/core/index.js';
+import { pathToFileUri, fileUriToPath, loadWorkspaceDocument, resolveWorkspacePath } from '../common.js';
+import { getRelativeWorkspacePath } from '../../services/index.js';
+
+const paramsSchema = {
+    ontology: z.string().describe('ABSOLUTE file path to the vocabulary or vocabulary bundle to generate shapes for'),
+    format: z.enum(['turtle', 'ntriples', 'rdfxml']).optional().describe('RDF serialization of the shapes graph. Default: turtle'),
+    closure: z.boolean().optional().describe('Also generate shapes for the imported vocabularies, transitively. Bundles always use their closure. Default: false'),
+    playbookPath: z.string().optional().describe('Methodology playbook whose description constraints are added as shapes (absolute or workspace-relative)'),
+    usePlaybook: z.boolean().optional().describe('Look for a *_playbook.yaml from the ontology folder upward when playbookPath is not given. Default: false'),
+    outputPath: z.string().optional().describe('File to write the shapes to (absolute or workspace-relative). When omitted, the shapes are returned as text'),
+};
+
+export const generateShaclTool = {
+    name: 'generate_shacl' as const,
+    description: `Generates SHACL shapes from an OML vocabulary or vocabulary bundle, to validate RDF data exported from descriptions.
+
+Each concept, aspect and relation entity gets a node shape (<entity IRI>Shape, sh:targetClass) with property shapes for:
+- range restrictions: all → sh:class / sh:datatype; some → sh:qualifiedValueShape with sh:qualifiedMinCount 1
+- cardinality restrictions → sh:minCount / sh:maxCount, qualified when a range is given
+- value restrictions → sh:hasValue; keys → exactly one value per key property
+- properties and relations whose domain is the entity or a supertype → range and, when functional, sh:maxCount 1
+Inherited restrictions and properties are repeated on each subtype's shape.
+
+With a playbook, each description constraint becomes a node shape targeting the entities its appliesTo selects, with sh:message and sh:severity (error → sh:Violation, warning → sh:Warning, info → sh:Info); required/minOccurrences/maxOccurrences → counts, targetMustBe → sh:class, targetMustBeOneOf → sh:or.`,
+    paramsSchema,
+};
+
+export const generateShaclMetadata = {
+    id: 'generate_shacl',
+    displayName: 'Generate SHACL',
+    layer: 'core' as const,
+    severity: 'low' as const,
+    version: '1.0.0',
+    shortDescription: 'Generate SHACL shapes from vocabularies and playbook constraints',
+    description: 'Derives SHACL node and property shapes from the restrictions, keys and properties of vocabularies, optionally merging the description constraints of a methodology playbook.',
+    tags: ['export', 'shacl', 'rdf', 'interchange', 'validation', 'playbook'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+export const generateShaclHandler = async (
+    { ontology, format = 'turtle', closure = false, playbookPath, usePlaybook = false, outputPath }:
+    { ontology: string; format?: RdfFormat; closure?: boolean; playbookPath?: string; usePlaybook?: boolean; outputPath?: string }
+) => {
+    try {
+        const filePath = fileUriToPath(pathToFileUri(ontology));
+        if (!fs.existsSync(filePath)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Ontology not found at ${filePath}` }],
+            };
+        }
+        if (!RDF_FORMATS.includes(format)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Unknown format "${format}". Use one of: ${RDF_FORMATS.join(', ')}.` }],
+            };
+        }
+
+        const { document } = await loadWorkspaceDocument(filePath);
+        const root = document.parseResult.value;
+        if (!isOntology(root)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `${getRelativeWorkspacePath(filePath)} does not contain an ontology.` }],
+            };
+        }
+        if (isDescription(root) || isDescriptionBundle(root)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `${getRelativeWorkspacePath(filePath)} is a ${root.$type.replace('Bundle', ' bundle').toLowerCase()}. Shapes are generated from vocabularies or vocabulary bundles.` }],
+            };
+        }
+        const { parserErrors, lexerErrors } = document.parseResult;
+        if (parserErrors.length > 0 || lexerErrors.length > 0) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Cannot generate shapes: ${getRelativeWorkspacePath(filePath)} has syntax errors. Run validate_oml first.` }],
+            };
+        }
+
+        const playbookFile = playbookPath
+            ? resolveWorkspacePath(playbookPath)
+            : usePlaybook ? findPlaybook(path.dirname(filePath)) ?? undefined : undefined;
+        if (usePlaybook && !playbookFile) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `No playbook found from ${getRelativeWorkspacePath(path.dirname(filePath))} upward. Give playbookPath instead.` }],
+            };
+        }
+        const playbook = playbookFile ? loadPlaybook(playbookFile) : undefined;
+
+        const result = generateShapes(root, { closure, playbook });
+        const output = serializeGraph(result.graph, format, result.prefixes);
+        const playbookSummary = playbookFile ? ` and ${result.shapeCount.playbook} from ${getRelativeWorkspacePath(playbookFile)}` : '';
+        const summary = `${result.shapeCount.vocabulary} node shape(s) from vocabularies${playbookSummary}`;
+        const warnings = result.warnings.length > 0
+            ? `\n\n${result.warnings.length} warning(s):\n${result.warnings.map(w => `- ${w}`).join('\n')}`
+            : '';
+
+        if (outputPath) {
+            const target = resolveWorkspacePath(outputPath);
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.writeFileSync(target, output, 'utf-8');
+            return {
+                content: [{ type: 'text' as const, text: `✓ Generated SHACL for ${getRelativeWorkspacePath(filePath)} in ${getRelativeWorkspacePath(target)} (${format}, ${summary})${warnings}` }],
+            };
+        }
+        return {
+            content: [{ type: 'text' as const, text: `✓ Generated SHACL for ${getRelativeWorkspacePath(filePath)} (${format}, ${summary})${warnings}\n\n${output}` }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error generating SHACL: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import * as fs from 'fs';
+import { isDescription, isOntology } from '../../../generated/ast.js';
+import type { Ontology } from '../../../generated/ast.js';
+import { planDescriptionJsonImport } from '../../../oml-json.js';
+import type { JsonImportInstance, JsonImportIssue, JsonLiteral } from '../../../oml-json.js';
+import { pathToFileUri, fileUriToPath, loadWorkspaceDocument, resolveWorkspacePath } from '../common.js';
+import type { LiteralParam, PropertyValueParam } from '../common.js';
+import { createConceptInstanceHandler } from '../instances/create-concept-instance.js';
+import { createRelationInstanceHandler } from '../instances/create-relation-instance.js';
+import { getRelativeWorkspacePath } from '../../services/index.js';
+
+const paramsSchema = {
+    ontology: z.string().describe('ABSOLUTE file path to the DESCRIPTION the instances are added to. It must exist - use create_ontology first if needed.'),
+    inputPath: z.string().optional().describe('JSON file to import (absolute or workspace-relative)'),
+    json: z.string().optional().describe('JSON text to import, instead of inputPath'),
+    vocabulary: z.string().optional().describe('Vocabulary or vocabulary bundle whose type and property names the JSON uses (absolute or workspace-relative). Default: the vocabularies the description already uses'),
+};
+
+export const importJsonInstancesTool = {
+    name: 'import_json_instances' as const,
+    description: `Imports instance data in the JSON format of descriptions into a description, creating each instance with create_concept_instance or create_relation_instance.
+
+Expected JSON (as produced by \`oml export --format json\` and described by generate_json_schema):
+{ "@id": "http://example.com/data#", "instances": [ { "@id": "http://example.com/data#r1", "@type": ["Robot"], "name": "R2", "owns": "http://example.com/data#t1" } ] }
+
+- @id: IRIs of the document's instances become local names; IRIs of other descriptions become prefix:name references
+- @type: type names (local, or prefix:name when ambiguous); a relation entity type makes a relation instance with from/to
+- other keys: property names with literals (checked against the property range and enumerations) or IRIs; nested instances with an @id are imported too
+- forward/reverse relation values implied by relation instances of the document are not repeated
+
+Problems (unknown names, wrong literal types, unresolvable IRIs, existing instances) are reported per instance or value; the rest is imported.`,
+    paramsSchema,
+};
+
+export const importJsonInstancesMetadata = {
+    id: 'import_json_instances',
+    displayName: 'Import JSON Instances',
+    layer: 'description' as const,
+    severity: 'high' as const,
+    version: '1.0.0',
+    shortDescription: 'Import JSON instance data into a description',
+    description: 'Converts a JSON document conforming to the generated JSON Schema into concept and relation instances of a description, reporting problems per instance.',
+    tags: ['import', 'json', 'interchange', 'description', 'instance-creation'],
+    dependencies: ['create_concept_instance', 'create_relation_instance'],
+    addedDate: '2024-01-01',
+};
+
+function toLiteralParam(value: JsonLiteral): LiteralParam {
+    if (typeof value === 'boolean') return { type: 'boolean', value };
+    if (typeof value === 'number') return { type: Number.isInteger(value) ? 'integer' : 'decimal', value };
+    return { type: 'quoted', value };
+}
+
+function toPropertyValues(instance: JsonImportInstance): PropertyValueParam[] {
+    return instance.values.map(value => ({
+        property: value.property,
+        ...(value.literals.length > 0 ? { literalValues: value.literals.map(toLiteralParam) } : {}),
+        ...(value.references.length > 0 ? { referencedValues: value.references } : {}),
+    }));
+}
+
+function formatIssues(issues: JsonImportIssue[]): string {
+    if (issues.length === 0) {
+        return 'No problems.';
+    }
+    return `${issues.length} problem(s):\n${issues.map(issue => `- ${issue.path || '(document)'}: ${issue.message}`).join('\n')}`;
+}
+
+export const importJsonInstancesHandler = async (
+    { ontology, inputPath, json, vocabulary }:
+    { ontology: string; inputPath?: string; json?: string; vocabulary?: string }
+) => {
+    try {
+        const filePath = fileUriToPath(pathToFileUri(ontology));
+        if (!fs.existsSync(filePath)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Description not found at ${filePath}. Create it with create_ontology (kind="description") first.` }],
+            };
+        }
+        if ((inputPath === undefined) === (json === undefined)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: 'Give either inputPath or json.' }],
+            };
+        }
+        const source = inputPath ? resolveWorkspacePath(inputPath) : undefined;
+        if (source && !fs.existsSync(source)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `File not found at ${source}` }],
+            };
+        }
+        let data: unknown;
+        try {
+            data = JSON.parse(source ? fs.readFileSync(source, 'utf-8') : json!);
+        } catch (error) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }],
+            };
+        }
+
+        const { document, documents } = await loadWorkspaceDocument(filePath);
+        const description = document.parseResult.value;
+        if (!isDescription(description)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `${getRelativeWorkspacePath(filePath)} is not a description. Instances are imported into descriptions.` }],
+            };
+        }
+        let names: Ontology = description;
+        if (vocabulary) {
+            const vocabularyPath = resolveWorkspacePath(vocabulary);
+            const vocabularyDocument = documents.find(d => d.uri.fsPath === vocabularyPath)
+                ?? (await loadWorkspaceDocument(vocabularyPath)).document;
+            const root = vocabularyDocument.parseResult.value;
+            if (!isOntology(root)) {
+                return {
+                    isError: true,
+                    content: [{ type: 'text' as const, text: `${getRelativeWorkspacePath(vocabularyPath)} does not contain an ontology.` }],
+                };
+            }
+            names = root;
+        }
+
+        const ontologies = documents.map(d => d.parseResult.value).filter(isOntology);
+        const plan = planDescriptionJsonImport(data, names, { namespace: description.namespace, ontologies });
+        const relativePath = getRelativeWorkspacePath(filePath);
+        const from = source ? getRelativeWorkspacePath(source) : 'JSON';
+        const created: string[] = [];
+        const issues = [...plan.issues];
+        for (const instance of plan.instances) {
+            const params = { ontology: filePath, name: instance.name, types: instance.types, propertyValues: toPropertyValues(instance) };
+            const result = instance.relation
+                ? await createRelationInstanceHandler({ ...params, sources: instance.sources, targets: instance.targets })
+                : await createConceptInstanceHandler(params);
+            if (result.isError) {
+                const message = result.content.map(c => c.text).join(' ').trim().split('\n').find(line => line.trim() && !/^=+$/.test(line.trim())) ?? 'not created';
+                issues.push({ path: instance.path, message: `${instance.name}: ${message.trim()}` });
+            } else {
+                created.push(instance.name);
+            }
+        }
+        return {
+            content: [{ type: 'text' as const, text: `✓ Imported ${created.length} of ${plan.instances.length} instance(s) from ${from} into ${relativePath}${created.length > 0 ? `: ${created.join(', ')}` : ''}\n\n${formatIssues(issues)}` }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error importing JSON: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import * as fs from 'fs';
+import * as path from 'path';
+import { importOwlVocabularies } from '../../../oml-owl-import.js';
+import type { UnsupportedConstruct } from '../../../oml-owl-import.js';
+import { detectRdfFormat, parseRdf } from '../../../oml-rdf-parser.js';
+import { RDF_FORMATS } from '../../../oml-rdf.js';
+import type { RdfFormat } from '../../../oml-rdf.js';
+import { pathToFileUri, resolveWorkspacePath, writeFileAndNotify } from '../common.js';
+import { getRelativeWorkspacePath, workspaceFileExists } from '../../services/index.js';
+
+const paramsSchema = {
+    inputPath: z.string().describe('File to import (absolute or workspace-relative): Turtle (.ttl), N-Triples (.nt) or RDF/XML (.rdf, .owl)'),
+    format: z.enum(['turtle', 'ntriples', 'rdfxml']).optional().describe('RDF serialization of the file. Default: detected from the extension and content'),
+    outputDirectory: z.string().optional().describe('Folder the vocabularies are written to, one file per namespace (e.g. example.com/vocab.oml). Default: the workspace root'),
+    overwrite: z.boolean().optional().describe('Replace existing vocabulary files. Default: false'),
+};
+
+export const importOwlTool = {
+    name: 'import_owl' as const,
+    description: `Imports an OWL ontology (Turtle, N-Triples or RDF/XML) as OML vocabularies, one per namespace of declared terms.
+
+Mapping:
+- owl:Class → concept (aspect or relation entity when marked as such by an OML export)
+- owl:ObjectProperty → relation with sources, targets and characteristics; owl:inverseOf alone → reverse relation
+- owl:DatatypeProperty → scalar property; rdfs:Datatype → scalar with facets and enumerations
+- rdfs:subClassOf / subPropertyOf → specializations; equivalences, restrictions and keys → the matching axioms
+- rdfs:label, rdfs:comment and other annotation properties → annotations
+
+Individuals, rules, unions, disjointness and other constructs without a vocabulary counterpart are listed as unsupported, with the subject and predicate of each.`,
+    paramsSchema,
+};
+
+export const importOwlMetadata = {
+    id: 'import_owl',
+    displayName: 'Import OWL',
+    layer: 'core' as const,
+    severity: 'medium' as const,
+    version: '1.0.0',
+    shortDescription: 'Import an OWL ontology as OML vocabularies',
+    description: 'Reads Turtle, N-Triples or RDF/XML and generates OML vocabularies, reporting the constructs that could not be imported.',
+    tags: ['import', 'owl', 'rdf', 'interchange', 'vocabulary'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+function formatUnsupported(unsupported: UnsupportedConstruct[]): string {
+    if (unsupported.length === 0) {
+        return 'No unsupported constructs.';
+    }
+    const lines = unsupported.map(u => `- ${u.subject} ${u.construct}: ${u.reason}`);
+    return `${unsupported.length} unsupported construct(s):\n${lines.join('\n')}`;
+}
+
+export const importOwlHandler = async (
+    { inputPath, format, outputDirectory, overwrite = false }:
+    { inputPath: string; format?: RdfFormat; outputDirectory?: string; overwrite?: boolean }
+) => {
+    try {
+        const filePath = resolveWorkspacePath(inputPath);
+        if (!fs.existsSync(filePath)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `File not found at ${filePath}` }],
+            };
+        }
+        if (format && !RDF_FORMATS.includes(format)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Unknown format "${format}". Use one of: ${RDF_FORMATS.join(', ')}.` }],
+            };
+        }
+
+        const text = fs.readFileSync(filePath, 'utf-8');
+        const rdfFormat = format ?? detectRdfFormat(filePath, text);
+        const { graph, prefixes } = parseRdf(text, rdfFormat, pathToFileUri(filePath));
+        const result = importOwlVocabularies(graph, { prefixes });
+        if (result.vocabularies.length === 0) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `No ontology or term declarations found in ${getRelativeWorkspacePath(filePath)}.\n\n${formatUnsupported(result.unsupported)}` }],
+            };
+        }
+
+        const outputRoot = resolveWorkspacePath(outputDirectory ?? '.');
+        const targets = result.vocabularies.map(vocabulary => ({ vocabulary, target: path.join(outputRoot, vocabulary.path) }));
+        const existing = targets.filter(({ target }) => workspaceFileExists(target));
+        if (existing.length > 0 && !overwrite) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Cannot import: ${existing.map(({ target }) => getRelativeWorkspacePath(target)).join(', ')} already exist(s). Set overwrite to replace them.` }],
+            };
+        }
+        for (const { vocabulary, target } of targets) {
+            await writeFileAndNotify(target, pathToFileUri(target), vocabulary.text);
+        }
+        const written = targets.map(({ vocabulary, target }) => `- ${getRelativeWorkspacePath(target)} (${vocabulary.prefix}: <${vocabulary.namespace}>)`);
+        return {
+            content: [{ type: 'text' as const, text: `✓ Imported ${getRelativeWorkspacePath(filePath)} (${rdfFormat}, ${graph.triples.length} triple(s)) into:\n${written.join('\n')}\n\n${formatUnsupported(result.unsupported)}` }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error importing ontology: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
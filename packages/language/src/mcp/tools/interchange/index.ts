@@ -0,0 +1,16 @@
+import type { ToolRegistration } from '../types.js';
+import { exportOwlHandler, exportOwlTool, exportOwlMetadata } from './export-owl.js';
+import { importOwlHandler, importOwlTool, importOwlMetadata } from './import-owl.js';
+import { generateShaclHandler, generateShaclTool, generateShaclMetadata } from './generate-shacl.js';
+import { generateJsonSchemaHandler, generateJsonSchemaTool, generateJsonSchemaMetadata } from './generate-json-schema.js';
+import { importJsonInstancesHandler, importJsonInstancesTool, importJsonInstancesMetadata } from './import-json.js';
+import { exportCsvHandler, exportCsvTool, exportCsvMetadata } from './export-csv.js';
+
+export const interchangeTools: ToolRegistration[] = [
+    { tool: exportOwlTool, handler: exportOwlHandler, metadata: exportOwlMetadata },
+    { tool: importOwlTool, handler: importOwlHandler, metadata: importOwlMetadata },
+    { tool: generateShaclTool, handler: generateShaclHandler, metadata: generateShaclMetadata },
+    { tool: generateJsonSchemaTool, handler: generateJsonSchemaHandler, metadata: generateJsonSchemaMetadata },
+    { tool: importJsonInstancesTool, handler: importJsonInstancesHandler, metadata: importJsonInstancesMetadata },
+    { tool: exportCsvTool, handler: exportCsvHandler, metadata: exportCsvMetadata },
+];
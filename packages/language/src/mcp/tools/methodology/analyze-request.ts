@@ -10,7 +10,7 @@
 import { z } from 'zod';
 import * as fs from 'fs';
 import { resolvePlaybookPath, loadPlaybook } from './core/index.js';
-import type { MethodologyPlaybook, DescriptionConstraint } from './playbook-types.js';
+import type { MethodologyPlaybook, DescriptionConstraint } from '../../../oml-playbook.js';
 import type { ToolMetadata } from '../types.js';
 
 export const analyzeMethodologyRequestTool = {
@@ -8,7 +8,7 @@
  * - Merging schemas into playbooks
  */
 
-import { DescriptionSchema, InstanceTemplate, NamingPattern } from '../playbook-types.js';
+import { DescriptionSchema, InstanceTemplate, NamingPattern } from '../../../../oml-playbook.js';
 
 /**
  * Information extracted from analyzing a description file
@@ -1,12 +1,10 @@
 import { z } from 'zod';
 import * as net from 'net';
-import * as fs from 'fs';
-import * as path from 'path';
 import { URI } from 'langium';
-import { NodeFileSystem } from 'langium/node';
 import { createOmlServices } from '../../../oml-module.js';
 import { isVocabulary, isDescription, isVocabularyBundle, isDescriptionBundle } from '../../../generated/ast.js';
 import { loadAnyOntologyDocument, writeFileAndNotify, getWorkspaceRoot, LSP_BRIDGE_PORT } from '../common.js';
+import { findOmlFiles, isFileOverlayActive, OverlayFileSystem } from '../../services/index.js';
 
 // Well-known external imports with their IRIs (not discoverable from workspace)
 const WELL_KNOWN_IMPORTS: Record<string, { iri: string }> = {
@@ -121,26 +119,7 @@ async function queryWorkspaceFiles(): Promise<string[] | null> {
  * Fallback: scan workspace directory for .oml files
  */
 function scanWorkspaceForOmlFiles(workspaceRoot: string): string[] {
-    const omlFiles: string[] = [];
-    
-    function scanDir(dir: string) {
-        try {
-            const entries = fs.readdirSync(dir, { withFileTypes: true });
-            for (const entry of entries) {
-                const fullPath = path.join(dir, entry.name);
-                if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules' && entry.name !== 'build') {
-                    scanDir(fullPath);
-                } else if (entry.isFile() && entry.name.endsWith('.oml')) {
-                    omlFiles.push(URI.file(fullPath).toString());
-                }
-            }
-        } catch {
-            // Skip directories we can't read
-        }
-    }
-    
-    scanDir(workspaceRoot);
-    return omlFiles;
+    return findOmlFiles(workspaceRoot).map(file => URI.file(file).toString());
 }
 
 /**
@@ -149,14 +128,14 @@ function scanWorkspaceForOmlFiles(workspaceRoot: string): string[] {
 async function buildWorkspacePrefixMap(): Promise<Map<string, string>> {
     const prefixMap = new Map<string, string>();
     
-    // Try LSP first, fall back to filesystem scan
-    let omlFileUris = await queryWorkspaceFiles();
+    // Try LSP first, fall back to filesystem scan (the LSP does not know the files staged by a batch)
+    let omlFileUris = isFileOverlayActive() ? null : await queryWorkspaceFiles();
     if (!omlFileUris) {
         console.error('[ensure_imports] LSP unavailable, scanning filesystem');
         omlFileUris = scanWorkspaceForOmlFiles(getWorkspaceRoot());
     }
     
-    const services = createOmlServices(NodeFileSystem);
+    const services = createOmlServices(OverlayFileSystem);
     
     for (const omlFileUri of omlFileUris) {
         try {
@@ -186,12 +165,12 @@ async function buildWorkspacePrefixMap(): Promise<Map<string, string>> {
 async function buildSymbolToNamespaceMap(): Promise<Map<string, string>> {
     const symbolMap = new Map<string, string>();
     
-    let omlFileUris = await queryWorkspaceFiles();
+    let omlFileUris = isFileOverlayActive() ? null : await queryWorkspaceFiles();
     if (!omlFileUris) {
         omlFileUris = scanWorkspaceForOmlFiles(getWorkspaceRoot());
     }
     
-    const services = createOmlServices(NodeFileSystem);
+    const services = createOmlServices(OverlayFileSystem);
     
     for (const omlFileUri of omlFileUris) {
         try {
@@ -20,7 +20,7 @@ import {
     ConceptInstance,
     RelationInstance,
 } from '../../../generated/ast.js';
-import type { DescriptionSchema, DescriptionConstraint} from './playbook-types.js';
+import type { DescriptionSchema, DescriptionConstraint} from '../../../oml-playbook.js';
 import { loadPlaybook, savePlaybook } from './core/index.js';
 
 export const extractDescriptionSchemasTool = {
@@ -26,7 +26,7 @@ import {
     ConceptRule,
     ContainmentRule,
     AllocationRule,
-} from './playbook-types.js';
+} from '../../../oml-playbook.js';
 
 export const extractMethodologyRulesTool = {
     name: 'extract_methodology_rules' as const,
@@ -7,7 +7,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { resolveWorkspacePath } from '../common.js';
 import { loadPlaybook as loadPlaybookCached, savePlaybook as savePlaybookCached } from './core/index.js';
-import type { MethodologyPlaybook, DescriptionSchema, DescriptionConstraint } from './playbook-types.js';
+import type { MethodologyPlaybook, DescriptionSchema, DescriptionConstraint } from '../../../oml-playbook.js';
 
 // ============================================================================
 // Playbook Auto-Detection
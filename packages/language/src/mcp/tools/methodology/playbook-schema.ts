@@ -4,7 +4,7 @@
  */
 
 import { z } from 'zod';
-import type { MethodologyPlaybook } from './playbook-types.js';
+import type { MethodologyPlaybook } from '../../../oml-playbook.js';
 
 /**
  * Zod schema for AppliesTo.
@@ -14,7 +14,7 @@
 import { z } from 'zod';
 import * as fs from 'fs';
 import { resolvePlaybookPath, loadPlaybook } from './core/index.js';
-import type { MethodologyPlaybook, InstanceTemplate, NamingPattern, PropertyMapping, AppliesTo } from './playbook-types.js';
+import type { MethodologyPlaybook, InstanceTemplate, NamingPattern, PropertyMapping, AppliesTo } from '../../../oml-playbook.js';
 import type { ToolMetadata } from '../types.js';
 
 export const prepareInstanceTool = {
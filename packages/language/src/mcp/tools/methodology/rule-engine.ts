@@ -3,7 +3,7 @@
  * All functions are pure with no side effects for predictable behavior.
  */
 
-import type { AppliesTo, DescriptionConstraint, PropertyConstraint } from './playbook-types.js';
+import type { AppliesTo, DescriptionConstraint, PropertyConstraint } from '../../../oml-playbook.js';
 
 /**
  * Specificity scores for deterministic precedence.
@@ -15,7 +15,7 @@ import type {
     InstanceTemplate,
     NamingPattern,
     PropertyMapping,
-} from './playbook-types.js';
+} from '../../../oml-playbook.js';
 import {
     resolvePlaybookPath,
     loadPlaybook,
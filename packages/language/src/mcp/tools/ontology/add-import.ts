@@ -1,6 +1,4 @@
 import { z } from 'zod';
-import * as fs from 'fs';
-import { NodeFileSystem } from 'langium/node';
 import { createOmlServices } from '../../../oml-module.js';
 import {
     pathToFileUri,
@@ -11,6 +9,7 @@ import {
     getFreshDocument,
 } from '../common.js';
 import { isVocabulary, isDescription, isVocabularyBundle, isDescriptionBundle } from '../../../generated/ast.js';
+import { readWorkspaceFile, workspaceFileExists, OverlayFileSystem } from '../../services/index.js';
 
 const paramsSchema = {
     ontology: z.string().describe('ABSOLUTE file path to the ontology where the import will be added. Use the full path from the open file.'),
@@ -61,14 +60,14 @@ export const addImportHandler = async (
         const sourceFileUri = pathToFileUri(ontology);
         const sourceFilePath = fileUriToPath(sourceFileUri);
 
-        if (!fs.existsSync(sourceFilePath)) {
+        if (!workspaceFileExists(sourceFilePath)) {
             return {
                 isError: true,
                 content: [{ type: 'text' as const, text: `Source ontology not found.\n\nProvided: ${ontology}\nResolved to: ${sourceFilePath}\n\nTIP: Use the absolute file path from the open file, not a relative path.` }],
             };
         }
 
-        const services = createOmlServices(NodeFileSystem);
+        const services = createOmlServices(OverlayFileSystem);
         // Use getFreshDocument to ensure we read the current content from disk
         const sourceDocument = await getFreshDocument(services, sourceFileUri);
 
@@ -87,7 +86,7 @@ export const addImportHandler = async (
         const targetFileUri = pathToFileUri(targetOntologyPath);
         const targetFilePath = fileUriToPath(targetFileUri);
 
-        if (!fs.existsSync(targetFilePath)) {
+        if (!workspaceFileExists(targetFilePath)) {
             return {
                 isError: true,
                 content: [{ type: 'text' as const, text: `Target ontology not found.\n\nProvided: ${targetOntologyPath}\nResolved to: ${targetFilePath}\n\nTIP: Use ensure_imports instead - it auto-discovers workspace vocabularies by prefix and handles path resolution automatically.` }],
@@ -116,7 +115,7 @@ export const addImportHandler = async (
         }
         
         // Read target text to capture the exact prefix token (including leading ^ if present)
-        const targetText = fs.readFileSync(targetFilePath, 'utf-8');
+        const targetText = readWorkspaceFile(targetFilePath);
         const prefixMatch = targetText.match(/\bas\s+([^\s{]+)/);
         let targetPrefix = prefixMatch ? prefixMatch[1] : targetRoot.prefix;
         
@@ -137,7 +136,7 @@ export const addImportHandler = async (
         }
 
         // Read source file content
-        const sourceText = fs.readFileSync(sourceFilePath, 'utf-8');
+        const sourceText = readWorkspaceFile(sourceFilePath);
         const eol = sourceText.includes('\r\n') ? '\r\n' : '\n';
         const indent = detectIndentation(sourceText);
 
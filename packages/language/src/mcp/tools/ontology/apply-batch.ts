@@ -0,0 +1,161 @@
+/**
+ * Apply Batch Tool
+ *
+ * Runs an ordered list of mutation tool calls as one transaction. The calls edit staged
+ * in-memory copies of the files (see services/file-overlay.ts), the combined result is
+ * validated, and the files are written only when every call succeeded and no validation
+ * errors were found. Otherwise nothing is written.
+ */
+
+import { z } from 'zod';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ToolRegistration } from '../types.js';
+import { notifyLspBridge, pathToFileUri, writeFileAndNotify } from '../common.js';
+import { formatDryRunReport, formatValidationErrors, MUTATION_TOOL, MUTATION_TOOL_DESCRIPTION, runStaged } from '../dry-run.js';
+import { preferencesState } from '../preferences/preferences-state.js';
+import { changeJournal, getRelativeWorkspacePath } from '../../services/index.js';
+
+const operationSchema = z.object({
+    tool: z.string().describe(`Name of a tool that changes ontologies: ${MUTATION_TOOL_DESCRIPTION}`),
+    params: z.record(z.string(), z.unknown()).describe('Parameters of the tool call, as for the tool itself'),
+});
+
+const paramsSchema = {
+    operations: z.array(operationSchema).min(1).describe('Tool calls to apply, in order'),
+    dryRun: z.boolean().optional().describe('If true, return the unified diff of every file the batch would change and the validation result, without writing. Default: true in the confirm autonomy mode, false otherwise'),
+};
+
+export const applyBatchTool = {
+    name: 'apply_batch' as const,
+    description: `Applies an ordered list of tool calls (${MUTATION_TOOL_DESCRIPTION}) as one all-or-nothing transaction.
+
+Each call sees the changes of the calls before it, but they are made to in-memory copies of the files. When all calls succeed, the changed files are validated together, and only then written to disk. If a call fails or validation finds errors, no file is changed and the failing call or the errors are reported.
+
+With dryRun, the batch is staged and validated the same way, and the unified diffs of the files are returned instead of written.
+
+Use it for related changes that must not be left half-done, e.g. creating a concept, adding its restrictions and creating instances of it.
+
+Example:
+{ "operations": [
+  { "tool": "create_concept", "params": { "ontology": "/ws/vocab.oml", "name": "Pump" } },
+  { "tool": "add_specialization", "params": { "ontology": "/ws/vocab.oml", "subTerm": "Pump", "superTerm": "Component" } }
+] }`,
+    paramsSchema,
+};
+
+export const applyBatchMetadata = {
+    id: 'apply_batch',
+    displayName: 'Apply Batch',
+    layer: 'core' as const,
+    severity: 'high' as const,
+    version: '1.0.0',
+    shortDescription: 'Apply several mutation tool calls atomically, with validation',
+    description: 'Runs create/add/update/delete/move tool calls against in-memory copies of the files, validates the combined result and writes all files, or none when a call fails or validation finds errors.',
+    tags: ['batch', 'transaction', 'atomic', 'ontology', 'edit'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+type Operation = z.infer<typeof operationSchema>;
+type ToolResult = { content: Array<{ type: 'text'; text: string }>; isError?: boolean };
+
+async function commitStagedFiles(staged: Map<string, string | null>): Promise<void> {
+    for (const [file, content] of staged) {
+        const fileUri = pathToFileUri(file);
+        if (content === null) {
+            changeJournal.recordFileBeforeChange(file);
+            if (fs.existsSync(file)) {
+                fs.unlinkSync(file);
+            }
+            await notifyLspBridge(fileUri);
+        } else {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            await writeFileAndNotify(file, fileUri, content);
+        }
+    }
+}
+
+function failure(text: string): ToolResult {
+    return { isError: true, content: [{ type: 'text' as const, text: `${text}\n\nNo files were changed.` }] };
+}
+
+export const applyBatchHandler = async ({ operations, dryRun }: { operations: Operation[]; dryRun?: boolean }): Promise<ToolResult> => {
+    // Resolved lazily: the registry imports this module
+    const { allTools } = await import('../index.js');
+    const toolsByName = new Map<string, ToolRegistration>(allTools.map(t => [t.tool.name, t]));
+
+    // Check every call before running any
+    const calls: { tool: ToolRegistration; params: Record<string, unknown> }[] = [];
+    for (const [index, operation] of operations.entries()) {
+        const tool = toolsByName.get(operation.tool);
+        if (!tool || !MUTATION_TOOL.test(operation.tool)) {
+            return failure(`Operation ${index + 1}: '${operation.tool}' is not one of the ${MUTATION_TOOL_DESCRIPTION}.`);
+        }
+        const parsed = z.object(tool.tool.paramsSchema as z.ZodRawShape).safeParse(operation.params);
+        if (!parsed.success) {
+            const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'params'}: ${issue.message}`).join('; ');
+            return failure(`Operation ${index + 1} (${operation.tool}): invalid parameters: ${issues}`);
+        }
+        calls.push({ tool, params: parsed.data });
+    }
+
+    const summaries: string[] = [];
+    let staged: Map<string, string | null>;
+    let errors: Map<string, Set<string>>;
+    let failed: ToolResult | undefined;
+    try {
+        ({ result: failed, staged, errors } = await runStaged(async () => {
+            for (const [index, { tool, params }] of calls.entries()) {
+                let result: ToolResult;
+                try {
+                    result = await tool.handler(params);
+                } catch (error) {
+                    result = { isError: true, content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }] };
+                }
+                const text = result.content.map(c => c.text).join('\n').trim();
+                if (result.isError) {
+                    return failure(`Operation ${index + 1} of ${calls.length} (${tool.tool.name}) failed:\n${text}`);
+                }
+                summaries.push(`${index + 1}. ${tool.tool.name}: ${text.split('\n')[0]}`);
+            }
+            return undefined;
+        }, result => result === undefined));
+    } catch (error) {
+        return failure(`Error applying batch: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (failed) {
+        return failed;
+    }
+
+    if (dryRun ?? preferencesState.getPreferences().autonomy === 'confirm') {
+        const apply = dryRun === undefined
+            ? 'Nothing was written (dry run is the default in confirm mode). After confirmation, call apply_batch again with dryRun: false to apply the batch.'
+            : 'Nothing was written. Call apply_batch again without dryRun to apply the batch.';
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `✓ Dry run of ${calls.length} operation(s)\n\n${summaries.join('\n')}\n\n${formatDryRunReport(staged, errors)}\n\n${apply}`,
+            }],
+        };
+    }
+    if (errors.size > 0) {
+        return failure(`All ${calls.length} operations succeeded, but the result has validation errors:\n${formatValidationErrors(errors)}`);
+    }
+
+    try {
+        await commitStagedFiles(staged);
+    } catch (error) {
+        return {
+            isError: true,
+            content: [{ type: 'text' as const, text: `Error writing the batch: ${error instanceof Error ? error.message : String(error)}. Some files may have been written.` }],
+        };
+    }
+    const files = [...staged].map(([file, content]) => `  ${content === null ? 'deleted' : 'written'}: ${getRelativeWorkspacePath(file)}`);
+    return {
+        content: [{
+            type: 'text' as const,
+            text: `✓ Applied ${calls.length} operation(s) and validated the result\n\n${summaries.join('\n')}\n\nFiles:\n${files.join('\n')}`,
+        }],
+    };
+};
@@ -6,9 +6,9 @@
  */
 
 import { z } from 'zod';
-import * as fs from 'fs';
 import * as path from 'path';
-import { resolveWorkspacePath } from '../common.js';
+import { pathToFileUri, resolveWorkspacePath, writeFileAndNotify } from '../common.js';
+import { readWorkspaceFile, workspaceFileExists } from '../../services/index.js';
 import { createLogger, handleError, FileNotFoundError, FileReadError } from '../common/index.js';
 
 const logger = createLogger('apply-text-edit');
@@ -65,7 +65,6 @@ Examples:
             text: z.string().describe('Text to insert (will be a new line)'),
         })).optional().describe('Insert new lines at specific positions'),
         deleteLines: z.array(z.number().int().positive()).optional().describe('1-based line numbers to delete'),
-        dryRun: z.boolean().default(false).describe('Preview changes without writing to file'),
     },
 };
 
@@ -107,7 +106,6 @@ interface ApplyTextEditParams {
     rangeEdits?: RangeEdit[];
     insertLines?: InsertLine[];
     deleteLines?: number[];
-    dryRun?: boolean;
 }
 
 interface EditResult {
@@ -120,7 +118,7 @@ interface EditResult {
 
 export async function applyTextEditHandler(params: ApplyTextEditParams) {
     try {
-        const { filePath, lineEdits, rangeEdits, insertLines, deleteLines, dryRun = false } = params;
+        const { filePath, lineEdits, rangeEdits, insertLines, deleteLines } = params;
 
         // Resolve and validate file path
         let resolvedPath: string;
@@ -130,16 +128,16 @@ export async function applyTextEditHandler(params: ApplyTextEditParams) {
             resolvedPath = resolveWorkspacePath(filePath);
         }
 
-        logger.info(`Processing text edits`, { path: resolvedPath, dryRun });
+        logger.info(`Processing text edits`, { path: resolvedPath });
 
-        if (!fs.existsSync(resolvedPath)) {
+        if (!workspaceFileExists(resolvedPath)) {
             throw new FileNotFoundError(resolvedPath);
         }
 
         // Read file content
         let content: string;
         try {
-            content = fs.readFileSync(resolvedPath, 'utf-8');
+            content = readWorkspaceFile(resolvedPath);
         } catch (err) {
             throw new FileReadError(resolvedPath, err as Error);
         }
@@ -315,21 +313,8 @@ export async function applyTextEditHandler(params: ApplyTextEditParams) {
         const successCount = results.filter(r => r.success).length;
         const failCount = results.filter(r => !r.success).length;
 
-        if (dryRun) {
-            logger.info(`Dry run complete`, { successCount, failCount });
-            return {
-                content: [{
-                    type: 'text' as const,
-                    text: `## Dry Run Results\n\n` +
-                        `**${successCount} edits would succeed, ${failCount} would fail**\n\n` +
-                        `### Edit Results:\n${formatResults(results)}\n\n` +
-                        `### Preview:\n\`\`\`oml\n${newContent}\n\`\`\``,
-                }],
-            };
-        }
-
-        // Write the file
-        fs.writeFileSync(resolvedPath, newContent, 'utf-8');
+        // Write the file (journaled, staged in batches, and sent to the language server)
+        await writeFileAndNotify(resolvedPath, pathToFileUri(resolvedPath), newContent);
         logger.info(`File updated`, { path: resolvedPath, successCount, failCount });
 
         return {
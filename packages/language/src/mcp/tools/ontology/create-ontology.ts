@@ -4,6 +4,7 @@ import * as path from 'path';
 import { AnnotationParam, escapePrefix, resolveWorkspacePath } from '../common.js';
 import { annotationParamSchema } from '../schemas.js';
 import { ensureImportsHandler } from '../methodology/ensure-imports.js';
+import { changeJournal, readWorkspaceFile, stageFileWrite, workspaceFileExists } from '../../services/index.js';
 
 const paramsSchema = {
     filePath: z.string().describe('ABSOLUTE file path where the ontology will be created. Use the full path from the currently open file.'),
@@ -104,11 +105,11 @@ export const createOntologyHandler = async (params: {
         let content = '';
 
         // Check if file already exists
-        const fileExists = fs.existsSync(filePath);
+        const fileExists = workspaceFileExists(filePath);
         console.error(`[create_ontology] File exists: ${fileExists}`);
         
         if (fileExists) {
-            const existingContent = fs.readFileSync(filePath, 'utf-8');
+            const existingContent = readWorkspaceFile(filePath);
             console.error(`[create_ontology] Existing content (${existingContent.length} chars): "${existingContent.substring(0, 100)}"`);
             
             // Strip old annotations (lines starting with @) and find vocabulary declaration
@@ -137,27 +138,31 @@ export const createOntologyHandler = async (params: {
             // Create new file
             content = annotationsText + `${kindKeyword} ${formattedNamespace} as ${prefix} {${eol}${eol}${eol}${eol}}`;
             console.error(`[create_ontology] Creating new file`);
+        }
+
+        console.error(`[create_ontology] Content to write (${content.length} chars):\n${content}`);
+        
+        // Inside a batch the file is only staged
+        if (!stageFileWrite(filePath, content)) {
+            changeJournal.recordFileBeforeChange(filePath);
 
             // Create directory if needed
             const dir = path.dirname(filePath);
-            console.error(`[create_ontology] Directory: ${dir}`);
             if (dir && dir !== '.' && !fs.existsSync(dir)) {
                 console.error(`[create_ontology] Creating directory: ${dir}`);
                 fs.mkdirSync(dir, { recursive: true });
             }
-        }
 
-        console.error(`[create_ontology] Content to write (${content.length} chars):\n${content}`);
-        
-        // Write file with explicit sync to ensure content is flushed to disk
-        const fd = fs.openSync(filePath, 'w');
-        fs.writeSync(fd, content, 0, 'utf-8');
-        fs.fsyncSync(fd);
-        fs.closeSync(fd);
-        console.error(`[create_ontology] File written and synced successfully`);
+            // Write file with explicit sync to ensure content is flushed to disk
+            const fd = fs.openSync(filePath, 'w');
+            fs.writeSync(fd, content, 0, 'utf-8');
+            fs.fsyncSync(fd);
+            fs.closeSync(fd);
+            console.error(`[create_ontology] File written and synced successfully`);
+        }
         
         // Verify the write
-        const verifyContent = fs.readFileSync(filePath, 'utf-8');
+        const verifyContent = readWorkspaceFile(filePath);
         console.error(`[create_ontology] Verified file content (${verifyContent.length} chars): ${verifyContent.substring(0, 100)}...`);
 
         // Auto-ensure imports for any annotation prefixes used (dc:, xsd:)
@@ -176,7 +181,7 @@ export const createOntologyHandler = async (params: {
         }
 
         // Final verification - read back the file to confirm content
-        const finalContent = fs.readFileSync(filePath, 'utf-8');
+        const finalContent = readWorkspaceFile(filePath);
         const contentPreview = finalContent.length > 200 ? finalContent.substring(0, 200) + '...' : finalContent;
         
         return {
@@ -1,6 +1,6 @@
 import { z } from 'zod';
-import * as fs from 'fs';
 import { pathToFileUri, fileUriToPath, writeFileAndNotify } from '../common.js';
+import { readWorkspaceFile, workspaceFileExists } from '../../services/index.js';
 
 const paramsSchema = {
     ontology: z.string().describe('ABSOLUTE file path to the ontology where the import will be removed'),
@@ -36,14 +36,14 @@ export const deleteImportHandler = async (
         const fileUri = pathToFileUri(ontology);
         const filePath = fileUriToPath(fileUri);
 
-        if (!fs.existsSync(filePath)) {
+        if (!workspaceFileExists(filePath)) {
             return {
                 isError: true,
                 content: [{ type: 'text' as const, text: `Ontology not found at ${filePath}` }],
             };
         }
 
-        const text = fs.readFileSync(filePath, 'utf-8');
+        const text = readWorkspaceFile(filePath);
         const eol = text.includes('\r\n') ? '\r\n' : '\n';
 
         // Match import patterns: extends/uses/includes <namespace> as prefix
@@ -5,6 +5,7 @@ import * as net from 'net';
 import { StreamMessageReader, StreamMessageWriter } from 'vscode-jsonrpc/node.js';
 import { createMessageConnection } from 'vscode-jsonrpc';
 import { pathToFileUri, fileUriToPath, LSP_BRIDGE_PORT } from '../common.js';
+import { changeJournal, readWorkspaceFile, stageFileDeletion, workspaceFileExists } from '../../services/index.js';
 
 async function notifyFileDeleted(fileUri: string) {
     let socket: net.Socket | undefined;
@@ -77,7 +78,7 @@ async function findDependentFiles(ontologyPath: string, workspaceRoot: string):
     // Extract the namespace from the ontology file
     let namespace: string | null = null;
     try {
-        const content = fs.readFileSync(ontologyPath, 'utf-8');
+        const content = readWorkspaceFile(ontologyPath);
         const nsMatch = content.match(/(vocabulary|description|vocabulary bundle|description bundle)\s+<([^>]+)>/);
         if (nsMatch) {
             namespace = nsMatch[2];
@@ -96,7 +97,7 @@ async function findDependentFiles(ontologyPath: string, workspaceRoot: string):
                     searchDir(fullPath);
                 } else if (entry.isFile() && entry.name.endsWith('.oml') && fullPath !== ontologyPath) {
                     try {
-                        const content = fs.readFileSync(fullPath, 'utf-8');
+                        const content = readWorkspaceFile(fullPath);
                         // Check if this file imports the target ontology
                         if (namespace && content.includes(`<${namespace}>`)) {
                             dependents.push(fullPath);
@@ -125,7 +126,7 @@ export const deleteOntologyHandler = async (
         const fileUri = pathToFileUri(ontology);
         const filePath = fileUriToPath(fileUri);
 
-        if (!fs.existsSync(filePath)) {
+        if (!workspaceFileExists(filePath)) {
             return {
                 isError: true,
                 content: [{ type: 'text' as const, text: `Ontology not found at ${filePath}` }],
@@ -160,11 +161,16 @@ export const deleteOntologyHandler = async (
             };
         }
 
-        // Notify LSP that file is being removed
-        await notifyFileDeleted(fileUri);
+        // Inside a batch the deletion is only staged
+        if (!stageFileDeletion(filePath)) {
+            changeJournal.recordFileBeforeChange(filePath);
 
-        // Delete the file
-        fs.unlinkSync(filePath);
+            // Notify LSP that file is being removed
+            await notifyFileDeleted(fileUri);
+
+            // Delete the file
+            fs.unlinkSync(filePath);
+        }
 
         const message = dependents.length > 0
             ? `✓ Deleted ontology ${path.basename(filePath)}\n\n⚠️ Warning: ${dependents.length} file(s) may have broken references:\n${dependents.map(d => `  • ${path.relative(workspaceRoot, d).replace(/\\/g, '/')}`).join('\n')}\n\nRun validate_oml on these files to identify issues.`
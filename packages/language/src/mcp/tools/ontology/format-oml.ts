@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { URI } from 'langium';
+import { formatOmlDocument } from '../../../oml-formatter.js';
+import { pathToFileUri, fileUriToPath, writeFileAndNotify, detectIndentation } from '../common.js';
+import { createUnifiedDiff } from '../common/index.js';
+import { getOmlServices, getRelativeWorkspacePath, readWorkspaceFile, workspaceFileExists } from '../../services/index.js';
+
+const paramsSchema = {
+    ontology: z.string().describe('ABSOLUTE file path to the ontology to format'),
+};
+
+export const formatOmlTool = {
+    name: 'format_oml' as const,
+    description: `Formats an OML file with the standard OML layout, preserving comments.
+
+Normalizes:
+- Indentation (keeps the file's current indentation unit)
+- One blank line between statements, imports on consecutive lines
+- Bracket blocks: one entry per line, closing bracket on its own line
+- Annotations on their own lines above the annotated element
+- Spacing between tokens
+
+Run after a series of edits to keep files stylistically consistent. Use dryRun=true to preview the diff.
+Files with syntax errors are not formatted.`,
+    paramsSchema,
+};
+
+export const formatOmlMetadata = {
+    id: 'format_oml',
+    displayName: 'Format OML',
+    layer: 'core' as const,
+    severity: 'low' as const,
+    version: '1.0.0',
+    shortDescription: 'Format an OML file',
+    description: 'Formats an OML file (indentation, blank lines, blocks, annotations) while preserving comments.',
+    tags: ['formatting', 'ontology-structure'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+export const formatOmlHandler = async (
+    { ontology }: { ontology: string }
+) => {
+    try {
+        const fileUri = pathToFileUri(ontology);
+        const filePath = fileUriToPath(fileUri);
+
+        if (!workspaceFileExists(filePath)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Ontology not found at ${filePath}` }],
+            };
+        }
+
+        const text = readWorkspaceFile(filePath);
+        const services = getOmlServices();
+        const document = services.shared.workspace.LangiumDocumentFactory.fromString(text, URI.file(filePath));
+        const { lexerErrors, parserErrors } = document.parseResult;
+        if (lexerErrors.length > 0 || parserErrors.length > 0) {
+            const messages = [...lexerErrors, ...parserErrors].map(e => `  • ${e.message}`).join('\n');
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Cannot format: the file has syntax errors.\n\n${messages}` }],
+            };
+        }
+
+        const indent = detectIndentation(text);
+        const formatted = await formatOmlDocument(services.Oml, document, {
+            tabSize: indent.startsWith('\t') ? 4 : indent.length,
+            insertSpaces: !indent.startsWith('\t'),
+        });
+
+        const relativePath = getRelativeWorkspacePath(filePath);
+        if (formatted === text) {
+            return {
+                content: [{ type: 'text' as const, text: `✓ ${relativePath} is already formatted.` }],
+            };
+        }
+
+        const diff = createUnifiedDiff(relativePath, text, formatted);
+        await writeFileAndNotify(filePath, fileUri, formatted);
+        return {
+            content: [{ type: 'text' as const, text: `✓ Formatted ${relativePath}\n\n${diff}` }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error formatting ontology: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
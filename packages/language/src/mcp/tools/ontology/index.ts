@@ -3,12 +3,18 @@ import { createOntologyHandler, createOntologyTool, createOntologyMetadata } fro
 import { addImportHandler, addImportTool, addImportMetadata } from './add-import.js';
 import { deleteImportHandler, deleteImportTool, deleteImportMetadata } from './delete-import.js';
 import { deleteOntologyHandler, deleteOntologyTool, deleteOntologyMetadata } from './delete-ontology.js';
+import { updateOntologyHandler, updateOntologyTool, updateOntologyMetadata } from './update-ontology.js';
+import { formatOmlHandler, formatOmlTool, formatOmlMetadata } from './format-oml.js';
 import { applyTextEditHandler, applyTextEditTool, applyTextEditMetadata } from './apply-text-edit.js';
+import { applyBatchHandler, applyBatchTool, applyBatchMetadata } from './apply-batch.js';
 
 export const ontologyTools: ToolRegistration[] = [
     { tool: createOntologyTool, handler: createOntologyHandler, metadata: createOntologyMetadata },
     { tool: addImportTool, handler: addImportHandler, metadata: addImportMetadata },
     { tool: deleteImportTool, handler: deleteImportHandler, metadata: deleteImportMetadata },
     { tool: deleteOntologyTool, handler: deleteOntologyHandler, metadata: deleteOntologyMetadata },
+    { tool: updateOntologyTool, handler: updateOntologyHandler, metadata: updateOntologyMetadata },
+    { tool: formatOmlTool, handler: formatOmlHandler, metadata: formatOmlMetadata },
     { tool: applyTextEditTool, handler: applyTextEditHandler, metadata: applyTextEditMetadata },
+    { tool: applyBatchTool, handler: applyBatchHandler, metadata: applyBatchMetadata },
 ];
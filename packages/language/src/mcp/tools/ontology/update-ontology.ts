@@ -0,0 +1,273 @@
+import { z } from 'zod';
+import { GrammarUtils, URI } from 'langium';
+import {
+    pathToFileUri,
+    fileUriToPath,
+    writeFileAndNotify,
+    escapePrefix,
+    collectImportPrefixes,
+    findOntologyReferences,
+    getWorkspaceRoot,
+    OntologyReference,
+    TextEdit,
+    applyEdits,
+} from '../common.js';
+import { createUnifiedDiff } from '../common/index.js';
+import { getOmlServices, findOmlFiles, getRelativeWorkspacePath, readWorkspaceFile, workspaceFileExists } from '../../services/index.js';
+import { isOntology } from '../../../generated/ast.js';
+
+const paramsSchema = {
+    ontology: z.string().describe('ABSOLUTE file path to the ontology whose namespace and/or prefix should change'),
+    newNamespace: z.string().optional().describe('New namespace IRI, with or without angle brackets. Must end with "#" or "/". Example: "http://example.com/vocab/base#"'),
+    newPrefix: z.string().optional().describe('New prefix for the ontology. Example: "core"'),
+};
+
+export const updateOntologyTool = {
+    name: 'update_ontology' as const,
+    description: `Changes an ontology's namespace and/or prefix and rewrites every reference to it across the workspace.
+
+Updates:
+- The ontology header (namespace and prefix)
+- Every extends/uses/includes import of the ontology (and its "as" prefix when it matched the old prefix)
+- Every qualified reference (prefix:Term) bound to the ontology, including in the ontology itself
+- Every full IRI reference (<namespace#Term>) into the ontology
+
+Refuses the change if the new namespace is already used by another ontology, or if the new prefix
+is already bound to another import in an affected file.
+
+Returns a unified diff per changed file. Use dryRun=true to preview the changes without writing.
+
+Example: Rename the "base" vocabulary to "core":
+  ontology: "C:/project/vocabulary/base.oml"
+  newNamespace: "http://example.com/vocabulary/core#"
+  newPrefix: "core"`,
+    paramsSchema,
+};
+
+export const updateOntologyMetadata = {
+    id: 'update_ontology',
+    displayName: 'Update Ontology',
+    layer: 'core' as const,
+    severity: 'high' as const,
+    version: '1.0.0',
+    shortDescription: 'Change an ontology namespace or prefix with workspace-wide reference rewriting',
+    description: 'Changes the namespace and/or prefix of an ontology and rewrites all imports and qualified references across the workspace.',
+    tags: ['ontology-structure', 'import-management', 'refactoring'],
+    dependencies: ['validate_oml'],
+    addedDate: '2024-01-01',
+};
+
+/**
+ * Find another ontology in the workspace that already declares the given namespace.
+ */
+function findNamespaceOwner(namespace: string, excludeFilePath: string): string | undefined {
+    const escaped = namespace.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const headerPattern = new RegExp(`^\\s*(?:vocabulary|description)(?:\\s+bundle)?\\s+<${escaped}>`, 'm');
+    for (const filePath of findOmlFiles(getWorkspaceRoot())) {
+        if (filePath === excludeFilePath) continue;
+        try {
+            if (headerPattern.test(readWorkspaceFile(filePath))) {
+                return filePath;
+            }
+        } catch {
+            // Skip unreadable files
+        }
+    }
+    return undefined;
+}
+
+export const updateOntologyHandler = async (
+    { ontology, newNamespace, newPrefix }: { ontology: string; newNamespace?: string; newPrefix?: string }
+) => {
+    try {
+        if (!newNamespace && !newPrefix) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: 'Nothing to update: provide newNamespace and/or newPrefix.' }],
+            };
+        }
+
+        const fileUri = pathToFileUri(ontology);
+        const filePath = fileUriToPath(fileUri);
+
+        if (!workspaceFileExists(filePath)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Ontology not found at ${filePath}` }],
+            };
+        }
+
+        // Parse the current disk content so CST offsets match the text we rewrite
+        const text = readWorkspaceFile(filePath);
+        const services = getOmlServices();
+        const document = services.shared.workspace.LangiumDocumentFactory.fromString(text, URI.file(filePath));
+        const root = document.parseResult.value;
+        if (!isOntology(root) || !root.$cstNode) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: 'Target file does not contain a parsable ontology.' }],
+            };
+        }
+
+        const oldNamespace = root.namespace.replace(/^<|>$/g, '');
+        const oldPrefix = root.prefix.replace(/^\^/, '');
+        const targetNamespace = newNamespace ? newNamespace.trim().replace(/^<|>$/g, '') : oldNamespace;
+        const targetPrefix = newPrefix ? newPrefix.trim().replace(/^\^/, '') : oldPrefix;
+
+        if (!/^[^# ]*[#/]$/.test(targetNamespace)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Invalid namespace "${targetNamespace}": it must not contain spaces and must end with "#" or "/".` }],
+            };
+        }
+        if (!/^[A-Za-z0-9_.\-~%]+$/.test(targetPrefix)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Invalid prefix "${targetPrefix}".` }],
+            };
+        }
+
+        const namespaceChanged = targetNamespace !== oldNamespace;
+        const prefixChanged = targetPrefix !== oldPrefix;
+        if (!namespaceChanged && !prefixChanged) {
+            return {
+                content: [{ type: 'text' as const, text: `✓ Ontology already has namespace <${oldNamespace}> and prefix ${oldPrefix}; nothing to do.` }],
+            };
+        }
+
+        if (namespaceChanged) {
+            const owner = findNamespaceOwner(targetNamespace, filePath);
+            if (owner) {
+                return {
+                    isError: true,
+                    content: [{ type: 'text' as const, text: `Namespace <${targetNamespace}> is already used by ${getRelativeWorkspacePath(owner)}.` }],
+                };
+            }
+        }
+
+        const references = await findOntologyReferences(oldNamespace, oldPrefix, filePath);
+
+        // Collect edits per file
+        const editsByFile = new Map<string, TextEdit[]>();
+        const addEdit = (file: string, edit: TextEdit) => {
+            const edits = editsByFile.get(file) ?? [];
+            edits.push(edit);
+            editsByFile.set(file, edits);
+        };
+
+        // Ontology header
+        const namespaceNode = GrammarUtils.findNodeForProperty(root.$cstNode, 'namespace');
+        const prefixNode = GrammarUtils.findNodeForProperty(root.$cstNode, 'prefix');
+        if (namespaceChanged && namespaceNode) {
+            addEdit(filePath, { offset: namespaceNode.offset, length: namespaceNode.length, newText: `<${targetNamespace}>` });
+        }
+        if (prefixChanged && prefixNode) {
+            addEdit(filePath, { offset: prefixNode.offset, length: prefixNode.length, newText: escapePrefix(targetPrefix) });
+        }
+
+        // Files in which the old prefix gets renamed, for collision checks
+        const prefixRenamedIn = new Set<string>(prefixChanged ? [filePath] : []);
+
+        for (const ref of references) {
+            const edit = rewriteReference(ref, oldNamespace, targetNamespace, oldPrefix, targetPrefix, namespaceChanged, prefixChanged);
+            if (!edit) continue;
+            addEdit(ref.filePath, edit);
+            if (prefixChanged && (ref.role === 'qname' || ref.role === 'prefix')) {
+                prefixRenamedIn.add(ref.filePath);
+            }
+        }
+
+        // Refuse prefix collisions with other imports in affected files
+        const collisions: string[] = [];
+        for (const affected of prefixRenamedIn) {
+            const content = readWorkspaceFile(affected);
+            const bound = new Set([...collectImportPrefixes(content)].map(p => p.replace(/^\^/, '')));
+            const ownPrefix = content.match(/^\s*(?:vocabulary|description)(?:\s+bundle)?\s+<[^>]*>\s+as\s+\^?([^\s{]+)/m)?.[1];
+            if (ownPrefix && affected !== filePath) bound.add(ownPrefix);
+            if (bound.has(targetPrefix)) {
+                collisions.push(getRelativeWorkspacePath(affected));
+            }
+        }
+        if (collisions.length > 0) {
+            return {
+                isError: true,
+                content: [{
+                    type: 'text' as const,
+                    text: `Prefix "${targetPrefix}" is already bound in:\n${collisions.map(c => `  • ${c}`).join('\n')}\n\nChoose another prefix.`
+                }],
+            };
+        }
+
+        // Compute new contents and diffs
+        const changes: { filePath: string; relativePath: string; oldText: string; newText: string; editCount: number }[] = [];
+        for (const [changedPath, edits] of editsByFile) {
+            const oldText = changedPath === filePath ? text : readWorkspaceFile(changedPath);
+            const newText = applyEdits(oldText, edits);
+            if (newText !== oldText) {
+                changes.push({ filePath: changedPath, relativePath: getRelativeWorkspacePath(changedPath), oldText, newText, editCount: edits.length });
+            }
+        }
+        changes.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+
+        for (const change of changes) {
+            await writeFileAndNotify(change.filePath, pathToFileUri(change.filePath), change.newText);
+        }
+
+        const summary: string[] = [];
+        if (namespaceChanged) summary.push(`namespace <${oldNamespace}> → <${targetNamespace}>`);
+        if (prefixChanged) summary.push(`prefix ${oldPrefix} → ${targetPrefix}`);
+
+        const lines: string[] = [
+            `✓ Updated ${summary.join(', ')} in ${changes.length} file(s).`,
+            '',
+            ...changes.map(c => `  📄 ${c.relativePath}: ${c.editCount} edit(s)`),
+        ];
+        for (const change of changes) {
+            lines.push('', createUnifiedDiff(change.relativePath, change.oldText, change.newText));
+        }
+        if (changes.length > 1) {
+            lines.push('', 'Run validate_oml on the changed files to confirm all references still resolve.');
+        }
+
+        return {
+            content: [{ type: 'text' as const, text: lines.join('\n') }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error updating ontology: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
+
+function rewriteReference(
+    ref: OntologyReference,
+    oldNamespace: string,
+    newNamespace: string,
+    oldPrefix: string,
+    newPrefix: string,
+    namespaceChanged: boolean,
+    prefixChanged: boolean
+): TextEdit | undefined {
+    switch (ref.role) {
+        case 'namespace':
+            return namespaceChanged ? { offset: ref.offset, length: ref.length, newText: `<${newNamespace}>` } : undefined;
+        case 'iri':
+            return namespaceChanged
+                ? { offset: ref.offset, length: ref.length, newText: `<${newNamespace}${ref.text.slice(oldNamespace.length + 1)}` }
+                : undefined;
+        case 'prefix':
+            // Only imports that used the ontology's own prefix follow the rename; aliases are kept
+            return prefixChanged && ref.text.replace(/^\^/, '') === oldPrefix
+                ? { offset: ref.offset, length: ref.length, newText: escapePrefix(newPrefix) }
+                : undefined;
+        case 'qname': {
+            const colon = ref.text.indexOf(':');
+            return prefixChanged && ref.text.substring(0, colon) === oldPrefix
+                ? { offset: ref.offset, length: colon, newText: newPrefix }
+                : undefined;
+        }
+    }
+}
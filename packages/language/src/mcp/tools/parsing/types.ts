@@ -5,60 +5,9 @@
  * Ensures type safety across parsing, validation, and reporting modules.
  */
 
-import type { MethodologyPlaybook } from '../methodology/playbook-types.js';
+import type { MethodologyPlaybook } from '../../../oml-playbook.js';
 
-/**
- * A single property assertion extracted from an instance
- * Represents a property value on an instance in a description
- */
-export interface PropertyAssertion {
-    /** Qualified property name (e.g., "requirement:isExpressedBy") */
-    propertyName: string;
-    /** Property name with canonical prefix */
-    propertyQualified: string;
-    /** Values assigned to this property */
-    values: string[];
-    /** Instance that owns this property */
-    instanceName: string;
-    /** Types of the instance */
-    instanceTypes: string[];
-    /** Line number in source file (for error reporting) */
-    line?: number;
-}
-
-/**
- * Basic information about an instance in a description
- */
-export interface InstanceInfo {
-    /** Instance name */
-    name: string;
-    /** Type(s) of the instance */
-    types: string[];
-    /** Line number in source file */
-    line?: number;
-}
-
-/**
- * Map from import prefix alias to canonical prefix
- * Example: { "ent" => "entity" } for `uses <.../entity#> as ent`
- */
-export interface ImportPrefixMap {
-    [alias: string]: string;
-}
-
-/**
- * Result of parsing an OML description file
- */
-export interface ParsedDescription {
-    /** Property assertions extracted from instances */
-    assertions: PropertyAssertion[];
-    /** All instances found in the description */
-    instances: InstanceInfo[];
-    /** Raw source code */
-    sourceCode: string;
-    /** Map of import aliases to canonical prefixes */
-    importPrefixMap: ImportPrefixMap;
-}
+export type { PropertyAssertion, InstanceInfo, ImportPrefixMap, ParsedDescription } from '../../../oml-methodology.js';
 
 /**
  * Result of parsing a playbook YAML file
@@ -81,6 +81,7 @@ class PreferencesState {
         
         if (autonomy === 'confirm') {
             prompt += `  → Ask for confirmation before executing each tool call.\n`;
+            prompt += `  → Mutation tools dry run by default and return the diffs to show; apply confirmed changes with dryRun: false.\n`;
         } else if (autonomy === 'batch') {
             prompt += `  → Present a plan with all tool calls, ask for approval once, then execute.\n`;
         } else if (autonomy === 'auto') {
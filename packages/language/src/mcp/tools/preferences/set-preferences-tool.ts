@@ -2,7 +2,7 @@ import { z } from 'zod';
 import { preferencesState } from './preferences-state.js';
 
 const setPreferencesSchema = {
-    autonomy: z.enum(['confirm', 'batch', 'auto']).optional().describe('Autonomy mode: confirm (ask before each tool), batch (ask once for plan), auto (execute with validation)'),
+    autonomy: z.enum(['confirm', 'batch', 'auto']).optional().describe('Autonomy mode: confirm (ask before each tool; mutations dry run by default), batch (ask once for plan), auto (execute with validation)'),
     workflowMode: z.enum(['basic', 'methodology']).optional().describe('Workflow mode: basic (core OML operations only) or methodology (enables methodology-editing tools)'),
     policies: z.array(z.string()).optional().describe('User policies like "never add imports automatically", "prefer reusing existing concepts", etc.'),
     safeMode: z.boolean().optional().describe('Enable safe mode to automatically validate OML after mutations. Recommended for ensuring code correctness. When enabled, mutation tools will run validation and report any errors.'),
@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import * as fs from 'fs';
+import { AstUtils } from 'langium';
+import { isOntology, isVocabularyBundle } from '../../../generated/ast.js';
+import { checkConsistency, getCoveringBundles } from '../../../oml-consistency.js';
+import type { ConsistencyIssue, ConsistencyIssueKind } from '../../../oml-consistency.js';
+import { getImportClosure } from '../../../oml-semantics.js';
+import { pathToFileUri, fileUriToPath, loadWorkspaceDocument } from '../common.js';
+import { getRelativeWorkspacePath } from '../../services/index.js';
+
+const paramsSchema = {
+    ontology: z.string().describe('ABSOLUTE path of the bundle, vocabulary or description to check'),
+    format: z.enum(['text', 'json']).optional().describe('text (Markdown) or json. Default: text'),
+};
+
+export const checkConsistencyTool = {
+    name: 'check_consistency' as const,
+    description: `Checks an ontology for contradictions under the disjointness implied by vocabulary bundles.
+
+A vocabulary bundle makes the concepts (and the relation entities) of the vocabularies it includes disjoint, unless one specializes the other or an entity of the bundle specializes both. Reports:
+- Unsatisfiable classes: entities that specialize two disjoint entities
+- Inconsistent instances: instances whose asserted or inferred types include two disjoint entities
+- Closed-world violations (description bundles only): instances of the included descriptions missing the values their restrictions require (some, min, exactly, value, self)
+
+Each issue comes with an explanation naming the specializations, type assertions, inferences, restrictions and bundle involved.
+The bundles checked are those imported by the ontology; when it imports none, the workspace bundles that include one of its vocabularies are used.`,
+    paramsSchema,
+};
+
+export const checkConsistencyMetadata = {
+    id: 'check_consistency',
+    displayName: 'Check Consistency',
+    layer: 'query' as const,
+    severity: 'low' as const,
+    version: '1.0.0',
+    shortDescription: 'Find unsatisfiable classes and inconsistent instances under bundle disjointness',
+    description: 'Computes the closure of vocabulary and description bundles, derives the disjointness they imply and reports unsatisfiable classes, inconsistent instances and closed-world violations with explanations.',
+    tags: ['query', 'reasoning', 'consistency', 'bundle', 'analysis'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+const SECTION_TITLES: Record<ConsistencyIssueKind, string> = {
+    'unsatisfiable-class': 'Unsatisfiable classes',
+    'inconsistent-instance': 'Inconsistent instances',
+    'closed-world': 'Closed-world violations',
+};
+
+function getLocation(issue: ConsistencyIssue): string {
+    const document = AstUtils.getDocument(issue.node);
+    const line = (issue.node.$cstNode?.range.start.line ?? 0) + 1;
+    return `${getRelativeWorkspacePath(document.uri.fsPath)}:${line}`;
+}
+
+export const checkConsistencyHandler = async (
+    { ontology, format = 'text' }: { ontology: string; format?: 'text' | 'json' }
+) => {
+    try {
+        const filePath = fileUriToPath(pathToFileUri(ontology));
+        if (!fs.existsSync(filePath)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Ontology not found at ${filePath}` }],
+            };
+        }
+        const { document, documents } = await loadWorkspaceDocument(filePath);
+        const root = document.parseResult.value;
+        if (!isOntology(root)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `${getRelativeWorkspacePath(filePath)} does not contain an ontology.` }],
+            };
+        }
+
+        const hasBundle = getImportClosure(root).some(isVocabularyBundle);
+        const bundles = hasBundle ? [] : getCoveringBundles(root, documents.map(d => d.parseResult.value).filter(isOntology));
+        const report = checkConsistency(root, { bundles });
+        const relativePath = getRelativeWorkspacePath(filePath);
+
+        if (format === 'json') {
+            const json = {
+                ontology: relativePath,
+                bundles: report.bundles.map(bundle => bundle.namespace),
+                closedWorld: report.closedWorld?.namespace,
+                consistent: report.issues.length === 0,
+                issues: report.issues.map(issue => ({
+                    kind: issue.kind,
+                    location: getLocation(issue),
+                    message: issue.message,
+                    explanation: issue.explanation,
+                })),
+            };
+            return { content: [{ type: 'text' as const, text: JSON.stringify(json, null, 2) }] };
+        }
+
+        if (report.bundles.length === 0 && !report.closedWorld) {
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `✓ ${relativePath} is not covered by any vocabulary bundle, so no disjointness applies. Include its vocabularies in a vocabulary bundle to check them.`,
+                }],
+            };
+        }
+        const checked = [
+            ...report.bundles.map(bundle => `bundle ${bundle.prefix}`),
+            ...(report.closedWorld ? [`closed world of ${report.closedWorld.prefix}`] : []),
+        ].join(', ');
+        if (report.issues.length === 0) {
+            return { content: [{ type: 'text' as const, text: `✓ ${relativePath} is consistent (checked ${checked})` }] };
+        }
+
+        const lines = [`${report.issues.length} consistency issue(s) in ${relativePath} (checked ${checked})`];
+        for (const [kind, title] of Object.entries(SECTION_TITLES)) {
+            const section = report.issues.filter(issue => issue.kind === kind);
+            if (section.length > 0) {
+                lines.push('', `## ${title}`);
+                for (const issue of section) {
+                    lines.push(`- ${issue.message} (${getLocation(issue)})`, ...issue.explanation.map(line => `    - ${line}`));
+                }
+            }
+        }
+        return { content: [{ type: 'text' as const, text: lines.join('\n') }] };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error checking consistency: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import * as fs from 'fs';
+import { AstUtils } from 'langium';
+import type { AstNode } from 'langium';
+import { isEntity, isOntology, isSemanticProperty } from '../../../generated/ast.js';
+import type { Ontology } from '../../../generated/ast.js';
+import { OmlReasoner, formatInferredFact, formatJustification } from '../../../oml-reasoner.js';
+import type { InferredFact } from '../../../oml-reasoner.js';
+import { resolveMember } from '../../../oml-semantics.js';
+import { pathToFileUri, fileUriToPath, loadWorkspaceDocument } from '../common.js';
+import { getRelativeWorkspacePath } from '../../services/index.js';
+
+const paramsSchema = {
+    ontology: z.string().describe('ABSOLUTE path of the description (or vocabulary) to reason about'),
+    instance: z.string().optional().describe('Only report facts about this instance (name or prefix:name)'),
+    includeSpecializations: z.boolean().optional().describe('Also list the supertypes and equivalent terms entailed for the terms the ontology declares. Default: true'),
+    format: z.enum(['text', 'json']).optional().describe('text (Markdown) or json. Default: text'),
+    maxFacts: z.number().int().positive().optional().describe('Maximum number of facts returned. Default: 200'),
+};
+
+export const getInferredFactsTool = {
+    name: 'get_inferred_facts' as const,
+    description: `Computes the facts entailed by the vocabularies for the instances of a description, each with its justification.
+
+Inferences:
+- Specialization closure: supertypes through specializations and equivalences (A = B makes A and B equivalent)
+- Types from the domains and ranges of the properties an instance uses, and from the sources and targets of its relation instances
+- Reverse, symmetric and transitive relation values
+- Classification by equivalence axioms (e.g. concept Parent = Person [ restricts some hasChild to Person ])
+- Forward chaining of the vocabulary rules (e.g. rule R [ Vehicle(v) & hasPart(v, p) -> Part(p) ]) until nothing new is inferred
+
+Facts about instances of imported descriptions are only reported when they concern an instance of the given ontology.
+Use this to see why validation or enforce_methodology_rules treat an instance as having a type it does not assert.`,
+    paramsSchema,
+};
+
+export const getInferredFactsMetadata = {
+    id: 'get_inferred_facts',
+    displayName: 'Get Inferred Facts',
+    layer: 'query' as const,
+    severity: 'low' as const,
+    version: '1.0.0',
+    shortDescription: 'List the facts entailed for the instances of a description',
+    description: 'Runs the OML reasoner over an ontology and its imports and reports inferred types, property values and identities with their justifications, plus the entailed specialization closure.',
+    tags: ['query', 'reasoning', 'inference', 'rules', 'analysis'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+/**
+ * Returns prefix:name for members of an ontology, or the name alone for nodes without one.
+ */
+function getQualifiedName(node: AstNode): string {
+    const member = resolveMember(node) as AstNode & { name?: string };
+    if (!member.name) {
+        const container = member.$container as (AstNode & { name?: string }) | undefined;
+        return container?.name ? `equivalence of ${getQualifiedName(container)}` : member.$type;
+    }
+    const ontology = AstUtils.findRootNode(member);
+    return isOntology(ontology) ? `${ontology.prefix}:${member.name}` : member.name;
+}
+
+function getSubjects(fact: InferredFact): AstNode[] {
+    switch (fact.kind) {
+        case 'type': return [fact.instance];
+        case 'property': return [fact.subject];
+        case 'relation': return [fact.instance, fact.source, fact.target];
+        default: return fact.instances;
+    }
+}
+
+/**
+ * The supertypes and equivalent terms entailed for a term beyond its direct specializations.
+ */
+function getEntailedSpecializations(reasoner: OmlReasoner, root: Ontology) {
+    const result: { term: string; superTerms: string[]; equivalents: string[] }[] = [];
+    for (const statement of (root as { ownedStatements?: AstNode[] }).ownedStatements ?? []) {
+        if (!isEntity(statement) && !isSemanticProperty(statement)) {
+            continue;
+        }
+        const term = resolveMember<AstNode>(statement);
+        const direct = new Set(reasoner.closure.getDirectSuperTerms(term, false));
+        const equivalents = reasoner.getEquivalentTerms(term);
+        const superTerms = [...reasoner.getSuperTerms(term)].filter(t => t !== term && !direct.has(t) && !equivalents.includes(t));
+        if (superTerms.length > 0 || equivalents.length > 0) {
+            result.push({
+                term: getQualifiedName(term),
+                superTerms: superTerms.map(getQualifiedName),
+                equivalents: equivalents.map(getQualifiedName),
+            });
+        }
+    }
+    return result;
+}
+
+export const getInferredFactsHandler = async (
+    { ontology, instance, includeSpecializations = true, format = 'text', maxFacts = 200 }: {
+        ontology: string;
+        instance?: string;
+        includeSpecializations?: boolean;
+        format?: 'text' | 'json';
+        maxFacts?: number;
+    }
+) => {
+    try {
+        const filePath = fileUriToPath(pathToFileUri(ontology));
+        if (!fs.existsSync(filePath)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Ontology not found at ${filePath}` }],
+            };
+        }
+        const { document } = await loadWorkspaceDocument(filePath);
+        const root = document.parseResult.value;
+        if (!isOntology(root)) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `${getRelativeWorkspacePath(filePath)} does not contain an ontology.` }],
+            };
+        }
+
+        const reasoner = new OmlReasoner(root);
+        const matchesInstance = (node: AstNode) => {
+            if (AstUtils.findRootNode(node) !== root) return false;
+            if (!instance) return true;
+            const name = (node as { name?: string }).name;
+            return name === instance || getQualifiedName(node) === instance;
+        };
+        const facts = reasoner.getInferredFacts().filter(fact => getSubjects(fact).some(matchesInstance));
+        const shown = facts.slice(0, maxFacts);
+        const specializations = includeSpecializations && !instance ? getEntailedSpecializations(reasoner, root) : [];
+        const issues = reasoner.getIssues().map(issue => issue.message);
+        const relativePath = getRelativeWorkspacePath(filePath);
+
+        if (format === 'json') {
+            const json = {
+                ontology: relativePath,
+                total: facts.length,
+                facts: shown.map(fact => ({
+                    kind: fact.kind,
+                    statement: formatInferredFact(fact, getQualifiedName),
+                    justification: {
+                        kind: fact.justification.kind,
+                        axiom: getQualifiedName(fact.justification.axiom),
+                        premises: fact.justification.premises,
+                    },
+                })),
+                specializations,
+                issues,
+            };
+            return { content: [{ type: 'text' as const, text: JSON.stringify(json, null, 2) }] };
+        }
+
+        const truncated = facts.length > maxFacts ? ` (first ${maxFacts} shown)` : '';
+        const lines = [`✓ ${facts.length} inferred fact(s) for ${instance ? `'${instance}' in ` : ''}${relativePath}${truncated}`];
+        const sections: [string, InferredFact['kind'][]][] = [
+            ['Types', ['type']],
+            ['Property values', ['property', 'relation']],
+            ['Identities', ['sameAs', 'differentFrom']],
+        ];
+        for (const [title, kinds] of sections) {
+            const section = shown.filter(fact => kinds.includes(fact.kind));
+            if (section.length > 0) {
+                lines.push('', `## ${title}`);
+                lines.push(...section.map(fact => `- ${formatInferredFact(fact, getQualifiedName)} — ${formatJustification(fact.justification, getQualifiedName)}`));
+            }
+        }
+        if (specializations.length > 0) {
+            lines.push('', '## Entailed specializations');
+            for (const { term, superTerms, equivalents } of specializations) {
+                const parts = [
+                    ...(superTerms.length > 0 ? [`< ${superTerms.join(', ')}`] : []),
+                    ...(equivalents.length > 0 ? [`= ${equivalents.join(', ')}`] : []),
+                ];
+                lines.push(`- ${term} ${parts.join(' ')}`);
+            }
+        }
+        if (issues.length > 0) {
+            lines.push('', '## Rules not fully applied', ...issues.map(issue => `- ${issue}`));
+        }
+        return { content: [{ type: 'text' as const, text: lines.join('\n') }] };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error computing inferred facts: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
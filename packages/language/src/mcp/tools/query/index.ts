@@ -25,6 +25,30 @@ export {
     analyzeImpactHandler,
 } from './analyze-impact.js';
 
+export {
+    querySparqlTool,
+    querySparqlMetadata,
+    querySparqlHandler,
+} from './query-sparql.js';
+
+export {
+    getInferredFactsTool,
+    getInferredFactsMetadata,
+    getInferredFactsHandler,
+} from './get-inferred-facts.js';
+
+export {
+    checkConsistencyTool,
+    checkConsistencyMetadata,
+    checkConsistencyHandler,
+} from './check-consistency.js';
+
+export {
+    semanticDiffTool,
+    semanticDiffMetadata,
+    semanticDiffHandler,
+} from './semantic-diff.js';
+
 export {
     parseVocabularyForProperties,
     type ExtractedRelation,
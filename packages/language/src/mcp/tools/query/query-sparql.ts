@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import * as fs from 'fs';
+import { isOntology } from '../../../generated/ast.js';
+import type { Ontology } from '../../../generated/ast.js';
+import { getImportClosure } from '../../../oml-semantics.js';
+import { SparqlParseError } from '../../../oml-sparql-parser.js';
+import { createSparqlDataset, executeSparql, formatSparqlTable, toSparqlJson } from '../../../oml-sparql.js';
+import type { SparqlResult } from '../../../oml-sparql.js';
+import { pathToFileUri, fileUriToPath, getWorkspaceRoot, loadWorkspaceDocument } from '../common.js';
+import { findOmlFiles, getRelativeWorkspacePath, loadWorkspaceDocuments } from '../../services/index.js';
+
+const paramsSchema = {
+    query: z.string().describe('SPARQL 1.1 SELECT, ASK or CONSTRUCT query. The prefixes of the workspace ontologies and rdf, rdfs, owl, xsd, oml are predeclared'),
+    format: z.enum(['table', 'json']).optional().describe('table (Markdown) or json (SPARQL 1.1 Query Results JSON). Default: table'),
+    maxRows: z.number().int().positive().optional().describe('Maximum number of rows returned. Default: 100'),
+    ontology: z.string().optional().describe('ABSOLUTE path of an ontology: only that ontology and its imports are queried. Default: the whole workspace'),
+};
+
+export const querySparqlTool = {
+    name: 'query_sparql' as const,
+    description: `Runs a SPARQL 1.1 query (SELECT, ASK or CONSTRUCT) over an in-memory RDF view of the workspace, for ad-hoc questions the other query tools do not answer.
+
+The RDF view is the OWL mapping of the ontologies (as in export_owl):
+- Concepts, aspects and relation entities are owl:Class, with rdfs:subClassOf their supertypes and oml:Concept / oml:Aspect / oml:RelationEntity
+- Relations are owl:ObjectProperty, scalar properties owl:DatatypeProperty, with rdfs:domain / rdfs:range
+- Instances are owl:NamedIndividual with rdf:type their declared types and one triple per property value
+- Relation instances have oml:hasSource / oml:hasTarget, and their sources are linked to their targets by the forward relation
+- Annotations are triples of the annotation property (e.g. dc:description, rdfs:label)
+Only asserted facts are present: use property paths such as rdf:type/rdfs:subClassOf* to include subtypes.
+
+Supported: property paths, OPTIONAL, UNION, MINUS, FILTER (NOT) EXISTS, BIND, VALUES, subqueries, GROUP BY/HAVING with COUNT/SUM/MIN/MAX/AVG/SAMPLE/GROUP_CONCAT, ORDER BY, LIMIT/OFFSET and the usual string and numeric functions.
+
+Example, requirements without a verifying test:
+SELECT ?r WHERE { ?r rdf:type/rdfs:subClassOf* req:Requirement FILTER NOT EXISTS { ?t req:verifies ?r } }`,
+    paramsSchema,
+};
+
+export const querySparqlMetadata = {
+    id: 'query_sparql',
+    displayName: 'Query SPARQL',
+    layer: 'query' as const,
+    severity: 'low' as const,
+    version: '1.0.0',
+    shortDescription: 'Run SPARQL queries over the workspace',
+    description: 'Evaluates SPARQL SELECT, ASK and CONSTRUCT queries over the OWL view of the workspace ontologies and returns tables or JSON results.',
+    tags: ['query', 'sparql', 'rdf', 'analysis'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+function limitResult(result: SparqlResult, maxRows: number): { result: SparqlResult; total: number } {
+    if (result.type === 'SELECT') {
+        return { result: { ...result, solutions: result.solutions.slice(0, maxRows) }, total: result.solutions.length };
+    }
+    if (result.type === 'CONSTRUCT') {
+        return { result, total: result.graph.triples.length };
+    }
+    return { result, total: 1 };
+}
+
+export const querySparqlHandler = async (
+    { query, format = 'table', maxRows = 100, ontology }: { query: string; format?: 'table' | 'json'; maxRows?: number; ontology?: string }
+) => {
+    try {
+        let ontologies: Ontology[];
+        let scope: string;
+        if (ontology) {
+            const filePath = fileUriToPath(pathToFileUri(ontology));
+            if (!fs.existsSync(filePath)) {
+                return {
+                    isError: true,
+                    content: [{ type: 'text' as const, text: `Ontology not found at ${filePath}` }],
+                };
+            }
+            const { document } = await loadWorkspaceDocument(filePath);
+            const root = document.parseResult.value;
+            if (!isOntology(root)) {
+                return {
+                    isError: true,
+                    content: [{ type: 'text' as const, text: `${getRelativeWorkspacePath(filePath)} does not contain an ontology.` }],
+                };
+            }
+            ontologies = getImportClosure(root);
+            scope = `${getRelativeWorkspacePath(filePath)} and its imports`;
+        } else {
+            const documents = await loadWorkspaceDocuments(findOmlFiles(getWorkspaceRoot()));
+            ontologies = documents.map(d => d.parseResult.value).filter(isOntology);
+            scope = 'the workspace';
+        }
+
+        const dataset = createSparqlDataset(ontologies);
+        let result: SparqlResult;
+        try {
+            result = executeSparql(dataset.graph, query, { prefixes: dataset.prefixes });
+        } catch (error) {
+            if (error instanceof SparqlParseError) {
+                const prefixes = Object.keys(dataset.prefixes).join(', ');
+                return {
+                    isError: true,
+                    content: [{ type: 'text' as const, text: `Invalid query: ${error.message}\n\nPredeclared prefixes: ${prefixes}` }],
+                };
+            }
+            throw error;
+        }
+
+        const { result: limited, total } = limitResult(result, maxRows);
+        const count = result.type === 'SELECT' ? `${total} solution(s)` : result.type === 'CONSTRUCT' ? `${total} triple(s)` : `${result.value}`;
+        const truncated = total > maxRows && result.type !== 'ASK' ? ` (first ${maxRows} shown)` : '';
+        const output = format === 'json'
+            ? JSON.stringify(toSparqlJson(limited), null, 2)
+            : formatSparqlTable(limited, dataset.prefixes, maxRows);
+        return {
+            content: [{ type: 'text' as const, text: `✓ ${result.type} over ${scope} (${ontologies.length} ontolog${ontologies.length === 1 ? 'y' : 'ies'}, ${dataset.graph.triples.length} triples): ${count}${truncated}\n\n${output}` }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error running query: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
@@ -5,14 +5,13 @@
  */
 
 import * as fs from 'fs';
-import * as path from 'path';
 import * as net from 'net';
 import { URI } from 'langium';
-import { NodeFileSystem } from 'langium/node';
 import { createOmlServices } from '../../../oml-module.js';
 import { isVocabulary, isDescription, isVocabularyBundle, isDescriptionBundle } from '../../../generated/ast.js';
 import { fileUriToPath, getFreshDocument, getWorkspaceRoot, LSP_BRIDGE_PORT } from '../common.js';
 import { OmlSymbolType, ENTITY_TYPES } from './suggest-oml-symbols.js';
+import { findOmlFiles, isFileOverlayActive, OverlayFileSystem } from '../../services/index.js';
 
 const LSP_PORT = LSP_BRIDGE_PORT;
 
@@ -129,22 +128,7 @@ async function queryWorkspaceFiles(): Promise<{ uri: string }[] | null> {
  * Scan workspace for OML files (fallback when LSP unavailable)
  */
 function scanWorkspaceForOmlFiles(workspaceRoot: string): string[] {
-    const omlFiles: string[] = [];
-    function scanDir(dir: string) {
-        try {
-            const entries = fs.readdirSync(dir, { withFileTypes: true });
-            for (const entry of entries) {
-                const fullPath = path.join(dir, entry.name);
-                if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules' && entry.name !== 'build') {
-                    scanDir(fullPath);
-                } else if (entry.isFile() && entry.name.endsWith('.oml')) {
-                    omlFiles.push(URI.file(fullPath).toString());
-                }
-            }
-        } catch { /* skip unreadable */ }
-    }
-    scanDir(workspaceRoot);
-    return omlFiles;
+    return findOmlFiles(workspaceRoot).map(file => URI.file(file).toString());
 }
 
 /**
@@ -172,7 +156,7 @@ export async function resolveSymbolName(
                 return { success: false, error: `Context file not found: ${filePath}` };
             }
 
-            const services = createOmlServices(NodeFileSystem);
+            const services = createOmlServices(OverlayFileSystem);
             const document = await getFreshDocument(services, contextFileUri);
             const root = document.parseResult.value;
 
@@ -196,7 +180,7 @@ export async function resolveSymbolName(
             }
 
             // Get workspace files to find which vocabulary has this prefix
-            let omlFileUris = await queryWorkspaceFiles();
+            let omlFileUris = isFileOverlayActive() ? null : await queryWorkspaceFiles();
             if (!omlFileUris) {
                 omlFileUris = scanWorkspaceForOmlFiles(getWorkspaceRoot()).map(uri => ({ uri }));
             }
@@ -373,7 +357,7 @@ export async function resolveSymbolName(
             return { success: false, error: `Context file not found: ${filePath}` };
         }
 
-        const services = createOmlServices(NodeFileSystem);
+        const services = createOmlServices(OverlayFileSystem);
         const document = await getFreshDocument(services, contextFileUri);
         const root = document.parseResult.value;
 
@@ -398,7 +382,7 @@ export async function resolveSymbolName(
         }
 
         // Get workspace files
-        let omlFileUris = await queryWorkspaceFiles();
+        let omlFileUris = isFileOverlayActive() ? null : await queryWorkspaceFiles();
         if (!omlFileUris) {
             omlFileUris = scanWorkspaceForOmlFiles(getWorkspaceRoot()).map(uri => ({ uri }));
         }
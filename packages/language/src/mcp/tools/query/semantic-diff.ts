@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { computeSemanticDiff, formatSemanticDiff } from '../../../oml-diff.js';
+import { resolveWorkspacePath } from '../common.js';
+import { getRelativeWorkspacePath } from '../../services/index.js';
+
+const paramsSchema = {
+    oldPath: z.string().describe('File or directory of the old version (absolute or workspace-relative)'),
+    newPath: z.string().optional().describe('File or directory of the new version. Default: oldPath'),
+    oldRevision: z.string().optional().describe('Git revision (commit, branch, tag, e.g. "HEAD~1") to read the old version of oldPath from'),
+    newRevision: z.string().optional().describe('Git revision to read the new version of newPath from. Default: the working tree'),
+    format: z.enum(['text', 'json']).optional().describe('text or json. Default: text'),
+};
+
+export const semanticDiffTool = {
+    name: 'semantic_diff' as const,
+    description: `Compares two versions of OML ontologies by their parsed ASTs, ignoring formatting, comments and the order of statements and axioms.
+
+Inputs: two files, two directories, or the same file or directory at two git revisions (oldRevision, and newRevision or the working tree).
+
+Reports, per ontology (matched by namespace), added, removed and changed:
+- ontologies and imports
+- terms, rules and instances (matched by IRI), including kind changes
+- axioms (specializations, equivalences, restrictions, keys, domains, ranges, characteristics)
+- annotations and property values
+
+Changes that can break dependents are marked breaking with the reference categories of impact analysis (specialization, instance, restriction, relation, property, import, reference); for removed terms and instances these are the categories of their references in the old version.`,
+    paramsSchema,
+};
+
+export const semanticDiffMetadata = {
+    id: 'semantic_diff',
+    displayName: 'Semantic Diff',
+    layer: 'query' as const,
+    severity: 'low' as const,
+    version: '1.0.0',
+    shortDescription: 'Compare two versions of ontologies by AST and classify breaking changes',
+    description: 'Compares files, directories or git revisions of OML ontologies semantically, reporting added, removed and changed terms, axioms, imports, instances and property values with a breaking-change classification.',
+    tags: ['query', 'diff', 'review', 'git', 'analysis'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+export const semanticDiffHandler = async (
+    { oldPath, newPath, oldRevision, newRevision, format = 'text' }:
+    { oldPath: string; newPath?: string; oldRevision?: string; newRevision?: string; format?: 'text' | 'json' }
+) => {
+    try {
+        const oldInput = { path: resolveWorkspacePath(oldPath), revision: oldRevision };
+        const newInput = { path: resolveWorkspacePath(newPath ?? oldPath), revision: newRevision };
+        if (oldInput.path === newInput.path && oldInput.revision === newInput.revision) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: 'Both versions are the same. Give a newPath, or an oldRevision to compare with.' }],
+            };
+        }
+
+        const { diff, errors } = await computeSemanticDiff(oldInput, newInput);
+        if (format === 'json') {
+            return {
+                content: [{ type: 'text' as const, text: JSON.stringify({ ...diff, errors }, null, 2) }],
+            };
+        }
+        const label = (input: typeof oldInput) => `${getRelativeWorkspacePath(input.path)}${input.revision ? `@${input.revision}` : ''}`;
+        const warnings = errors.length > 0 ? `\n\nSyntax errors (the affected ontologies are compared as far as they parse):\n${errors.map(e => `- ${e}`).join('\n')}` : '';
+        return {
+            content: [{ type: 'text' as const, text: `✓ Compared ${label(oldInput)} with ${label(newInput)}\n\n${formatSemanticDiff(diff)}${warnings}` }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [
+                { type: 'text' as const, text: `Error computing semantic diff: ${error instanceof Error ? error.message : String(error)}` },
+            ],
+        };
+    }
+};
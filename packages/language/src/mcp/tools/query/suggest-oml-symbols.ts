@@ -1,11 +1,10 @@
 import { z } from 'zod';
 import * as net from 'net';
-import * as fs from 'fs';
 import { URI } from 'langium';
-import { NodeFileSystem } from 'langium/node';
 import { createOmlServices } from '../../../oml-module.js';
 import { isVocabulary, isDescription, isVocabularyBundle, isDescriptionBundle } from '../../../generated/ast.js';
 import { pathToFileUri, fileUriToPath, getFreshDocument } from '../common.js';
+import { OverlayFileSystem, workspaceFileExists } from '../../services/index.js';
 
 const LSP_PORT = 5007;
 
@@ -162,7 +161,7 @@ export const suggestOmlSymbolsHandler = async (
         const fileUri = pathToFileUri(uri);
         const filePath = fileUriToPath(fileUri);
 
-        if (!fs.existsSync(filePath)) {
+        if (!workspaceFileExists(filePath)) {
             return {
                 isError: true,
                 content: [{ type: 'text' as const, text: `File not found: ${filePath}` }],
@@ -170,7 +169,7 @@ export const suggestOmlSymbolsHandler = async (
         }
 
         // Load current ontology to get context (imports, namespace)
-        const services = createOmlServices(NodeFileSystem);
+        const services = createOmlServices(OverlayFileSystem);
         // Use getFreshDocument for the current file to ensure we read the latest content
         const document = await getFreshDocument(services, fileUri);
 
@@ -9,6 +9,7 @@ import { createAnnotationPropertyHandler, createAnnotationPropertyTool, createAn
 import { createRelationHandler, createRelationTool, createRelationMetadata } from './create-relation.js';
 import { deleteTermHandler, deleteTermTool } from './delete-term.js';
 import { updateTermHandler, updateTermTool } from './update-term.js';
+import { moveTermHandler, moveTermTool, moveTermMetadata } from './move-term.js';
 
 // AST-based alternative handler (mutates AST then serializes via printer)
 export { createConceptAstHandler } from './ast-create-concept.js';
@@ -24,4 +25,5 @@ export const termTools: ToolRegistration[] = [
     { tool: createAnnotationPropertyTool, handler: createAnnotationPropertyHandler, metadata: createAnnotationPropertyMetadata },
     { tool: deleteTermTool, handler: deleteTermHandler },
     { tool: updateTermTool, handler: updateTermHandler },
+    { tool: moveTermTool, handler: moveTermHandler, metadata: moveTermMetadata },
 ];
@@ -0,0 +1,442 @@
+import { z } from 'zod';
+import * as path from 'path';
+import { AstNode, AstUtils, GrammarUtils, isReference, type LangiumDocument } from 'langium';
+import {
+    applyEdits,
+    detectIndentation,
+    escapePrefix,
+    fileUriToPath,
+    findTerm,
+    getWorkspaceRoot,
+    pathToFileUri,
+    TextEdit,
+    writeFileAndNotify,
+} from '../common.js';
+import { findOmlFiles, getRelativeWorkspacePath, loadWorkspaceDocuments } from '../../services/index.js';
+import { isDescription, isImport, isOntology, isVocabulary, isVocabularyBundle, type Ontology } from '../../../generated/ast.js';
+
+const paramsSchema = {
+    ontology: z.string().describe('ABSOLUTE file path to the vocabulary that declares the term'),
+    term: z.string().describe('Name of the term to move'),
+    targetOntology: z.string().describe('ABSOLUTE file path to the vocabulary to move the term to'),
+};
+
+export const moveTermTool = {
+    name: 'move_term' as const,
+    description: `Moves a term to another vocabulary, with its axioms and annotations, and fixes up the workspace.
+
+- The declaration moves with everything inside it (specializations, restrictions, keys, forward/reverse relations, annotations), as do "ref" blocks refining the term in the source vocabulary
+- References inside the moved declaration are rewritten for the target vocabulary (qualified or local as needed)
+- Every reference to the term (and its forward/reverse relations) across the workspace is rewritten to the target vocabulary: local names, prefix:Name and full IRIs
+- extends (in vocabularies) or uses (in descriptions) imports of the target are added where needed, and imports of the source vocabulary are removed from files that only imported it for the moved term
+- Imports the source vocabulary only needed for the moved declaration are removed from it
+- Vocabulary bundles that included the term through the source include the target as well
+
+Refuses the move if the term has unresolved references, the target already declares one of the moved names, or the new imports would create an import cycle (e.g. the term specializes a term that stays in the source, while the source still references the term).
+
+Example: Move "Pump" from the base vocabulary to a new mechanical vocabulary:
+  ontology: "C:/project/vocabulary/base.oml"
+  term: "Pump"
+  targetOntology: "C:/project/vocabulary/mechanical.oml"`,
+    paramsSchema,
+};
+
+export const moveTermMetadata = {
+    id: 'move_term',
+    displayName: 'Move Term',
+    layer: 'vocabulary' as const,
+    severity: 'high' as const,
+    version: '1.0.0',
+    shortDescription: 'Move a term to another vocabulary, fixing references and imports',
+    description: 'Relocates a term with its axioms and annotations to another vocabulary, rewrites references across the workspace, adds and removes imports, and refuses moves that would create import cycles.',
+    tags: ['term', 'refactor', 'move', 'vocabulary', 'imports'],
+    dependencies: [],
+    addedDate: '2024-01-01',
+};
+
+/** The changes to one file */
+interface FilePlan {
+    document: LangiumDocument;
+    ontology: Ontology;
+    edits: TextEdit[];
+    /** Prefixes of the imports to add, by namespace */
+    addedImports: Map<string, string>;
+    /** Namespaces of the imports to remove */
+    removedImports: string[];
+    rewrittenReferences: number;
+    /** Whether the file references the moved elements */
+    referencesMoved: boolean;
+    /** Namespaces of the ontologies the file references outside the moved blocks, as they will be after the move */
+    referenced: Set<string>;
+}
+
+function samePath(a: string, b: string): boolean {
+    return path.normalize(a).toLowerCase() === path.normalize(b).toLowerCase();
+}
+
+function importedNamespace(imp: Ontology['ownedImports'][number]): string {
+    return imp.imported.$refText.replace(/^<|>$/g, '');
+}
+
+/** The local name of a reference written as Name or prefix:Name */
+function localPart(refText: string): string {
+    return refText.substring(refText.lastIndexOf(':') + 1);
+}
+
+/**
+ * The prefix under which a file refers to another ontology, planning an import of the
+ * ontology (under its own prefix) if the file does not import it yet.
+ */
+function prefixFor(plan: FilePlan, imported: Ontology): string {
+    const existing = plan.ontology.ownedImports.find(imp => importedNamespace(imp) === imported.namespace);
+    if (existing) {
+        return existing.prefix ?? imported.prefix;
+    }
+    const planned = plan.addedImports.get(imported.namespace);
+    if (planned) {
+        return planned;
+    }
+    const bound = plan.ontology.prefix === imported.prefix
+        || plan.ontology.ownedImports.some(imp => (imp.prefix ?? imp.imported.ref?.prefix) === imported.prefix)
+        || [...plan.addedImports.values()].includes(imported.prefix);
+    if (bound) {
+        throw new Error(`${getRelativeWorkspacePath(plan.document.uri.fsPath)} would need to import <${imported.namespace}>, but its prefix "${imported.prefix}" is already bound there. Import it under another prefix first.`);
+    }
+    plan.addedImports.set(imported.namespace, imported.prefix);
+    return imported.prefix;
+}
+
+/**
+ * Find an import path from one namespace to another.
+ *
+ * @returns The namespaces along the path, or undefined if there is none
+ */
+function findImportPath(imports: Map<string, Set<string>>, from: string, to: string): string[] | undefined {
+    const previous = new Map<string, string>();
+    const queue = [from];
+    const visited = new Set([from]);
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (current === to) {
+            const result = [to];
+            while (result[0] !== from) {
+                result.unshift(previous.get(result[0])!);
+            }
+            return result;
+        }
+        for (const next of imports.get(current) ?? []) {
+            if (!visited.has(next)) {
+                visited.add(next);
+                previous.set(next, current);
+                queue.push(next);
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * The range of a node with its indentation and the line break before it, so that
+ * removing it leaves no empty line.
+ */
+function wholeLinesRange(text: string, node: AstNode): TextEdit {
+    let start = node.$cstNode!.offset;
+    while (start > 0 && /[ \t]/.test(text[start - 1])) {
+        start--;
+    }
+    if (start > 0 && text[start - 1] === '\n') {
+        start--;
+        if (start > 0 && text[start - 1] === '\r') {
+            start--;
+        }
+    }
+    return { offset: start, length: node.$cstNode!.end - start, newText: '' };
+}
+
+/**
+ * The text of a node with its references rewritten, re-indented from its indentation in
+ * the source to the given one.
+ */
+function moveText(text: string, node: AstNode, edits: TextEdit[], indent: string, eol: string): string {
+    const { offset, end } = node.$cstNode!;
+    const relative = edits.map(edit => ({ ...edit, offset: edit.offset - offset }));
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    const baseIndent = text.substring(lineStart, offset);
+    return applyEdits(text.substring(offset, end), relative)
+        .split(/\r?\n/)
+        .map((line, index) => index === 0 ? indent + line : line.startsWith(baseIndent) ? indent + line.substring(baseIndent.length) : line)
+        .join(eol);
+}
+
+export const moveTermHandler = async (
+    { ontology, term, targetOntology }: { ontology: string; term: string; targetOntology: string }
+) => {
+    try {
+        const sourcePath = fileUriToPath(pathToFileUri(ontology));
+        const targetPath = fileUriToPath(pathToFileUri(targetOntology));
+        if (samePath(sourcePath, targetPath)) {
+            return { isError: true, content: [{ type: 'text' as const, text: 'The source and target vocabularies are the same file.' }] };
+        }
+
+        const files = findOmlFiles(getWorkspaceRoot());
+        for (const file of [sourcePath, targetPath]) {
+            if (!files.some(f => samePath(f, file))) {
+                files.push(file);
+            }
+        }
+        const documents = await loadWorkspaceDocuments(files);
+        const sourceDocument = documents.find(d => samePath(d.uri.fsPath, sourcePath));
+        const targetDocument = documents.find(d => samePath(d.uri.fsPath, targetPath));
+        const source = sourceDocument?.parseResult.value;
+        const target = targetDocument?.parseResult.value;
+        if (!isVocabulary(source) || !isVocabulary(target)) {
+            return { isError: true, content: [{ type: 'text' as const, text: 'Both the source and the target must be vocabularies.' }] };
+        }
+
+        const termNode = findTerm(source, term);
+        if (!termNode?.$cstNode) {
+            return { isError: true, content: [{ type: 'text' as const, text: `Term "${term}" was not found in the vocabulary.` }] };
+        }
+
+        // The declaration and its refinements in the source move; the named elements inside them change namespace
+        const blocks: AstNode[] = [termNode, ...source.ownedStatements.filter(s => 'ref' in s && isReference(s.ref) && s.ref.ref === termNode && s.$cstNode)];
+        const moved = new Set<AstNode>(AstUtils.streamAst(termNode).filter(n => typeof (n as { name?: unknown }).name === 'string'));
+        const movedNames = [...moved].map(n => (n as AstNode & { name: string }).name);
+        const clashes = AstUtils.streamAst(target).filter(n => movedNames.includes((n as { name?: unknown }).name as string)).toArray();
+        if (clashes.length > 0) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `The target vocabulary already declares ${clashes.map(n => `"${(n as AstNode & { name: string }).name}"`).join(', ')}.` }],
+            };
+        }
+
+        const plans = new Map<LangiumDocument, FilePlan>();
+        const planFor = (document: LangiumDocument): FilePlan => {
+            let plan = plans.get(document);
+            if (!plan) {
+                plan = {
+                    document, ontology: document.parseResult.value as Ontology, edits: [], addedImports: new Map(), removedImports: [],
+                    rewrittenReferences: 0, referencesMoved: false, referenced: new Set(),
+                };
+                plans.set(document, plan);
+            }
+            return plan;
+        };
+        const targetPlan = planFor(targetDocument!);
+        const sourcePlan = planFor(sourceDocument!);
+
+        // References inside the moved blocks are rewritten for the target vocabulary
+        const unresolved: string[] = [];
+        const blockNamespaces = new Set<string>();
+        const blockEdits = new Map<AstNode, TextEdit[]>(blocks.map(block => [block, []]));
+        for (const block of blocks) {
+            for (const node of AstUtils.streamAst(block)) {
+                for (const { reference } of AstUtils.streamReferences(node)) {
+                    const referenced = isReference(reference) ? reference.ref : undefined;
+                    const refNode = reference.$refNode;
+                    if (!referenced || !refNode) {
+                        unresolved.push(reference.$refText);
+                        continue;
+                    }
+                    const owner = AstUtils.findRootNode(referenced) as Ontology;
+                    const text = reference.$refText;
+                    let newText: string;
+                    if (moved.has(referenced) || owner === target) {
+                        newText = text.startsWith('<') ? `<${target.namespace}${(referenced as AstNode & { name: string }).name}>` : localPart(text);
+                    } else {
+                        blockNamespaces.add(owner.namespace);
+                        targetPlan.referenced.add(owner.namespace);
+                        const prefix = prefixFor(targetPlan, owner);
+                        newText = text.startsWith('<') ? text : `${escapePrefix(prefix)}:${localPart(text)}`;
+                    }
+                    if (newText !== text) {
+                        blockEdits.get(block)!.push({ offset: refNode.offset, length: refNode.length, newText });
+                    }
+                }
+            }
+        }
+        if (unresolved.length > 0) {
+            return {
+                isError: true,
+                content: [{ type: 'text' as const, text: `Cannot move "${term}": it has unresolved references (${[...new Set(unresolved)].join(', ')}). Fix them first.` }],
+            };
+        }
+
+        // References to the moved elements across the workspace follow them
+        const isInBlock = (node: AstNode) => blocks.some(block => AstUtils.hasContainerOfType(node, n => n === block));
+        for (const document of documents) {
+            const root = document.parseResult.value;
+            if (!isOntology(root)) continue;
+            for (const node of AstUtils.streamAst(root)) {
+                if (isImport(node) || (document === sourceDocument && isInBlock(node))) continue;
+                for (const { reference } of AstUtils.streamReferences(node)) {
+                    const referenced = isReference(reference) ? reference.ref : undefined;
+                    const refNode = reference.$refNode;
+                    if (!referenced || !refNode) continue;
+                    if (!moved.has(referenced)) {
+                        planFor(document).referenced.add((AstUtils.findRootNode(referenced) as Ontology).namespace);
+                        continue;
+                    }
+                    const plan = planFor(document);
+                    plan.referencesMoved = true;
+                    plan.referenced.add(target.namespace);
+                    const text = reference.$refText;
+                    const prefix = document === targetDocument ? undefined : prefixFor(plan, target);
+                    const newText = text.startsWith('<')
+                        ? `<${target.namespace}${(referenced as AstNode & { name: string }).name}>`
+                        : prefix ? `${escapePrefix(prefix)}:${localPart(text)}` : localPart(text);
+                    if (newText !== text) {
+                        plan.edits.push({ offset: refNode.offset, length: refNode.length, newText });
+                        plan.rewrittenReferences++;
+                    }
+                }
+            }
+        }
+
+        // Files that imported the source only for the moved elements no longer need it, and
+        // the source no longer needs what it imported only for the moved blocks
+        const removeImports = (plan: FilePlan, unused: (namespace: string) => boolean) => {
+            for (const imp of plan.ontology.ownedImports) {
+                const namespace = importedNamespace(imp);
+                if (imp.$cstNode && unused(namespace) && !plan.referenced.has(namespace)) {
+                    plan.edits.push(wholeLinesRange(plan.document.textDocument.getText(), imp));
+                    plan.removedImports.push(namespace);
+                }
+            }
+        };
+        for (const plan of plans.values()) {
+            if (plan === sourcePlan) {
+                removeImports(plan, namespace => blockNamespaces.has(namespace) && namespace !== target.namespace);
+            } else if (plan.referencesMoved) {
+                removeImports(plan, namespace => namespace === source.namespace);
+            }
+        }
+
+        // Refuse the move if an added import closes a cycle
+        const imports = new Map<string, Set<string>>();
+        for (const document of documents) {
+            const root = document.parseResult.value;
+            if (isOntology(root)) {
+                imports.set(root.namespace, new Set(root.ownedImports.map(importedNamespace)));
+            }
+        }
+        for (const plan of plans.values()) {
+            for (const namespace of plan.removedImports) {
+                imports.get(plan.ontology.namespace)?.delete(namespace);
+            }
+            for (const namespace of plan.addedImports.keys()) {
+                imports.get(plan.ontology.namespace)?.add(namespace);
+            }
+        }
+
+        // Bundles that reached the term through the source must reach it through the target now
+        for (const document of documents) {
+            const bundle = document.parseResult.value;
+            if (isVocabularyBundle(bundle) && findImportPath(imports, bundle.namespace, source.namespace)
+                && !findImportPath(imports, bundle.namespace, target.namespace)) {
+                prefixFor(planFor(document), target);
+                imports.get(bundle.namespace)?.add(target.namespace);
+            }
+        }
+        for (const plan of plans.values()) {
+            for (const namespace of plan.addedImports.keys()) {
+                const cycle = findImportPath(imports, namespace, plan.ontology.namespace);
+                if (cycle) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: 'text' as const,
+                            text: `Cannot move "${term}": ${getRelativeWorkspacePath(plan.document.uri.fsPath)} would have to import <${namespace}>, creating an import cycle:\n  ${[plan.ontology.namespace, ...cycle].map(ns => `<${ns}>`).join(' → ')}\n\nMove the terms it depends on, or the terms that depend on it, as well.`,
+                        }],
+                    };
+                }
+            }
+        }
+
+        // Take the blocks out of the source and add them at the end of the target, separated
+        // from the statements before them by a blank line (ahead of the imports to add, which
+        // may go at the same offset)
+        const sourceText = sourceDocument!.textDocument.getText();
+        const targetText = targetDocument!.textDocument.getText();
+        const targetEol = targetText.includes('\r\n') ? '\r\n' : '\n';
+        const movedText = blocks
+            .map(block => moveText(sourceText, block, blockEdits.get(block)!, detectIndentation(targetText), targetEol))
+            .join(targetEol + targetEol);
+        const closingBrace = targetText.lastIndexOf('}');
+        let insertAt = targetText.substring(0, closingBrace).search(/\s*$/);
+        // In an empty body, the line break after the brace stays as the blank line
+        const kept = targetText[insertAt - 1] === '{' ? targetText.substring(insertAt).match(/^[ \t]*\r?\n/)?.[0] : undefined;
+        insertAt += kept?.length ?? 0;
+        targetPlan.edits.push({
+            offset: insertAt,
+            length: closingBrace - insertAt,
+            newText: `${kept ? '' : targetEol}${targetEol}${movedText}${targetEol}`,
+        });
+        sourcePlan.edits.push(...blocks.map(block => wholeLinesRange(sourceText, block)));
+
+        // Plan the imports to add
+        for (const plan of plans.values()) {
+            if (plan.addedImports.size === 0) continue;
+            const kind = isVocabulary(plan.ontology) ? 'extends' : isDescription(plan.ontology) ? 'uses' : isVocabularyBundle(plan.ontology) ? 'includes' : undefined;
+            if (!kind) {
+                throw new Error(`${getRelativeWorkspacePath(plan.document.uri.fsPath)} cannot import vocabularies to reference terms.`);
+            }
+            const text = plan.document.textDocument.getText();
+            const eol = text.includes('\r\n') ? '\r\n' : '\n';
+            const indent = detectIndentation(text);
+            const statements = [...plan.addedImports].map(([namespace, prefix]) => `${indent}${kind} <${namespace}> as ${escapePrefix(prefix)}`);
+            const lastImport = plan.ontology.ownedImports.at(-1)?.$cstNode;
+            if (lastImport) {
+                plan.edits.push({ offset: lastImport.end, length: 0, newText: statements.map(s => eol + s).join('') });
+            } else {
+                const brace = GrammarUtils.findNodeForKeyword(plan.ontology.$cstNode, '{');
+                if (!brace) {
+                    throw new Error(`Could not find where to add imports in ${getRelativeWorkspacePath(plan.document.uri.fsPath)}.`);
+                }
+                // Separate the imports from the statements by a blank line, unless there is one already
+                const separated = /^[ \t]*(\r?\n[ \t]*\r?\n|\r?\n[ \t]*\}|\s*$)/.test(text.substring(brace.end));
+                plan.edits.push({ offset: brace.end, length: 0, newText: statements.map(s => eol + s).join('') + (separated ? '' : eol) });
+            }
+        }
+
+        const report: string[] = [];
+        for (const plan of [...plans.values()].sort((a, b) => a.document.uri.fsPath.localeCompare(b.document.uri.fsPath))) {
+            if (plan.edits.length === 0) continue;
+            const filePath = plan.document.uri.fsPath;
+            const text = plan.document.textDocument.getText();
+            const eol = text.includes('\r\n') ? '\r\n' : '\n';
+            let newText = applyEdits(text, plan.edits);
+            if (plan === sourcePlan) {
+                newText = newText.replace(/\r?\n{3,}/g, `${eol}${eol}`);
+            }
+            // Without imports left, the statements follow the header with the spacing the imports had
+            const brace = GrammarUtils.findNodeForKeyword(plan.ontology.$cstNode, '{');
+            const firstImport = plan.ontology.ownedImports[0]?.$cstNode;
+            if (brace && firstImport && plan.removedImports.length === plan.ontology.ownedImports.length && plan.addedImports.size === 0) {
+                const spacing = text.substring(brace.end, text.lastIndexOf('\n', firstImport.offset) + 1);
+                newText = newText.substring(0, brace.end) + newText.substring(brace.end).replace(/^\s*\n/, spacing);
+            }
+            await writeFileAndNotify(filePath, pathToFileUri(filePath), newText);
+
+            const details: string[] = [];
+            if (plan === sourcePlan) details.push(`removed ${blocks.length} block(s)`);
+            if (plan === targetPlan) details.push(`added ${blocks.length} block(s)`);
+            if (plan.rewrittenReferences > 0) details.push(`${plan.rewrittenReferences} reference(s) rewritten`);
+            for (const [namespace, prefix] of plan.addedImports) details.push(`imported <${namespace}> as ${prefix}`);
+            for (const namespace of plan.removedImports) details.push(`removed import of <${namespace}>`);
+            report.push(`  📄 ${getRelativeWorkspacePath(filePath)}: ${details.join(', ')}`);
+        }
+
+        return {
+            content: [{
+                type: 'text' as const,
+                text: `✓ Moved ${termNode.$type} "${term}" from ${getRelativeWorkspacePath(sourcePath)} to ${getRelativeWorkspacePath(targetPath)}\n\n${report.join('\n')}`,
+            }],
+        };
+    } catch (error) {
+        return {
+            isError: true,
+            content: [{ type: 'text' as const, text: `Error moving term: ${error instanceof Error ? error.message : String(error)}` }],
+        };
+    }
+};
@@ -10,7 +10,8 @@
  * 
  * Currently covers: Vocabulary, Import, Concept, Aspect, Scalar, RelationEntity,
  * ScalarProperty, AnnotationProperty, UnreifiedRelation, SpecializationAxiom,
- * KeyAxiom, InstanceEnumerationAxiom, Annotation, Literal.
+ * EquivalenceAxiom, PropertyRestrictionAxiom, KeyAxiom, InstanceEnumerationAxiom,
+ * Annotation, Literal.
  * 
  * Description / DescriptionBundle / VocabularyBundle printing can be added later.
  */
@@ -30,6 +31,10 @@ import type {
     KeyAxiom,
     InstanceEnumerationAxiom,
     LiteralEnumerationAxiom,
+    EntityEquivalenceAxiom,
+    ScalarEquivalenceAxiom,
+    PropertyEquivalenceAxiom,
+    PropertyRestrictionAxiom,
     Rule,
     BuiltIn,
     VocabularyStatement,
@@ -55,7 +60,11 @@ import {
     isDecimalLiteral,
     isDoubleLiteral,
     isBooleanLiteral,
+    isPropertyRangeRestrictionAxiom,
+    isPropertyCardinalityRestrictionAxiom,
+    isPropertyValueRestrictionAxiom,
 } from '../../../generated/ast.js';
+import { quoteOmlString } from '../../../oml-converter.js';
 
 export interface PrinterOptions {
     /** End-of-line string (defaults to '\n') */
@@ -179,11 +188,11 @@ function printConceptInner(c: Concept, o: Required<PrinterOptions>): string {
         blockText = ` [${o.eol}${blockLines.join(o.eol)}${o.eol}${ind}]`;
     }
 
-    // Specializations (< Super1, Super2)
-    const specText = printSpecializations(c.ownedSpecializations, o);
+    // Specializations (< Super1, Super2 [ restrictions ])
+    const specText = printEntitySpecializations(c.ownedSpecializations, c.ownedPropertyRestrictions, ind, o);
 
     // Equivalences — not commonly used programmatically, but preserve them
-    const eqText = printEntityEquivalences(c.ownedEquivalences, o);
+    const eqText = printEntityEquivalences(c.ownedEquivalences, ind, o);
 
     lines.push(`${ind}${nameOrRef}${blockText}${specText}${eqText}`);
     return lines.join(o.eol);
@@ -207,8 +216,8 @@ function printAspectInner(a: Aspect, o: Required<PrinterOptions>): string {
         const keyLines = (a.ownedKeys ?? []).map(k => printKeyAxiom(k, ind2, o));
         blockText = ` [${o.eol}${keyLines.join(o.eol)}${o.eol}${ind}]`;
     }
-    const specText = printSpecializations(a.ownedSpecializations, o);
-    const eqText = printEntityEquivalences(a.ownedEquivalences, o);
+    const specText = printEntitySpecializations(a.ownedSpecializations, a.ownedPropertyRestrictions, ind, o);
+    const eqText = printEntityEquivalences(a.ownedEquivalences, ind, o);
 
     lines.push(`${ind}${nameOrRef}${blockText}${specText}${eqText}`);
     return lines.join(o.eol);
@@ -231,8 +240,9 @@ function printScalarInner(s: Scalar, o: Required<PrinterOptions>): string {
         blockText = ` [${o.eol}${printLiteralEnumeration(s.ownedEnumeration!, ind + ind, o)}${o.eol}${ind}]`;
     }
     const specText = printSpecializations(s.ownedSpecializations, o);
+    const eqText = printScalarEquivalences(s.ownedEquivalences, ind, o);
 
-    lines.push(`${ind}${nameOrRef}${blockText}${specText}`);
+    lines.push(`${ind}${nameOrRef}${blockText}${specText}${eqText}`);
     return lines.join(o.eol);
 }
 
@@ -288,8 +298,8 @@ function printRelationEntityInner(re: RelationEntity, o: Required<PrinterOptions
         blockText = ` [${o.eol}${bodyLines.join(o.eol)}${o.eol}${ind}]`;
     }
 
-    const specText = printSpecializations(re.ownedSpecializations, o);
-    const eqText = printEntityEquivalences(re.ownedEquivalences, o);
+    const specText = printEntitySpecializations(re.ownedSpecializations, re.ownedPropertyRestrictions, ind, o);
+    const eqText = printEntityEquivalences(re.ownedEquivalences, ind, o);
 
     lines.push(`${ind}${nameOrRef}${blockText}${specText}${eqText}`);
     return lines.join(o.eol);
@@ -324,7 +334,8 @@ function printScalarPropertyInner(sp: ScalarProperty, o: Required<PrinterOptions
     }
 
     const specText = printSpecializations(sp.ownedSpecializations, o);
-    lines.push(`${ind}${nameOrRef}${blockText}${specText}`);
+    const eqText = printPropertyEquivalences(sp.ownedEquivalences, o);
+    lines.push(`${ind}${nameOrRef}${blockText}${specText}${eqText}`);
     return lines.join(o.eol);
 }
 
@@ -340,8 +351,9 @@ function printAnnotationPropertyInner(ap: AnnotationProperty, o: Required<Printe
 
     const nameOrRef = ap.name ? `annotation property ${ap.name}` : `ref annotation property ${ap.ref?.$refText ?? '??'}`;
     const specText = printSpecializations(ap.ownedSpecializations, o);
+    const eqText = printPropertyEquivalences(ap.ownedEquivalences, o);
 
-    lines.push(`${ind}${nameOrRef}${specText}`);
+    lines.push(`${ind}${nameOrRef}${specText}${eqText}`);
     return lines.join(o.eol);
 }
 
@@ -385,7 +397,8 @@ function printUnreifiedRelationInner(ur: UnreifiedRelation, o: Required<PrinterO
     }
 
     const specText = printSpecializations(ur.ownedSpecializations, o);
-    lines.push(`${ind}${nameOrRef}${blockText}${specText}`);
+    const eqText = printPropertyEquivalences(ur.ownedEquivalences, o);
+    lines.push(`${ind}${nameOrRef}${blockText}${specText}${eqText}`);
     return lines.join(o.eol);
 }
 
@@ -438,13 +451,78 @@ function printSpecializations(specs: SpecializationAxiom[] | undefined, _o: Requ
     return ` < ${[...new Set(names)].join(', ')}`;
 }
 
-function printEntityEquivalences(eqs: any[] | undefined, _o: Required<PrinterOptions>): string {
-    // EntityEquivalenceAxiom is rarely used in programmatic creation; minimal support
+/**
+ * Print `< A, B [ restrictions ]`, or `< [ restrictions ]` when only restrictions exist.
+ */
+function printEntitySpecializations(
+    specs: SpecializationAxiom[] | undefined,
+    restrictions: PropertyRestrictionAxiom[] | undefined,
+    indent: string,
+    o: Required<PrinterOptions>,
+): string {
+    const specText = printSpecializations(specs, o);
+    if (!restrictions || restrictions.length === 0) return specText;
+    return `${specText || ' <'}${printRestrictionBlock(restrictions, indent, o)}`;
+}
+
+function printRestrictionBlock(restrictions: PropertyRestrictionAxiom[], indent: string, o: Required<PrinterOptions>): string {
+    const lines = restrictions.map(r => `${indent}${o.indent}${printRestriction(r)}`);
+    return ` [${o.eol}${lines.join(o.eol)}${o.eol}${indent}]`;
+}
+
+function printRestriction(r: PropertyRestrictionAxiom): string {
+    const prop = r.property?.$refText ?? '??';
+    if (isPropertyRangeRestrictionAxiom(r)) {
+        return `restricts ${r.kind} ${prop} to ${r.range?.$refText ?? '??'}`;
+    }
+    if (isPropertyCardinalityRestrictionAxiom(r)) {
+        const range = r.range?.$refText ? ` ${r.range.$refText}` : '';
+        return `restricts ${prop} to ${r.kind} ${r.cardinality}${range}`;
+    }
+    if (isPropertyValueRestrictionAxiom(r)) {
+        const value = r.literalValue
+            ? printLiteral(r.literalValue)
+            : r.referencedValue?.$refText ?? r.containedValue?.$cstNode?.text ?? '??';
+        return `restricts ${prop} to ${value}`;
+    }
+    return `restricts ${prop} to self`;
+}
+
+function printEntityEquivalences(eqs: EntityEquivalenceAxiom[] | undefined, indent: string, o: Required<PrinterOptions>): string {
+    if (!eqs || eqs.length === 0) return '';
+    // Prefer the CST text of parsed axioms, so that their layout is preserved
+    const texts = eqs.map(eq => eq.$cstNode?.text ?? [
+        (eq.superTerms ?? []).map(t => t.$refText ?? '??').join(' & '),
+        eq.ownedPropertyRestrictions?.length ? printRestrictionBlock(eq.ownedPropertyRestrictions, indent, o).trimStart() : '',
+    ].filter(Boolean).join(' '));
+    return ' = ' + texts.join(', ');
+}
+
+function printScalarEquivalences(eqs: ScalarEquivalenceAxiom[] | undefined, indent: string, o: Required<PrinterOptions>): string {
     if (!eqs || eqs.length === 0) return '';
-    // Fall back to CST text if available
-    const texts = eqs.map((eq: any) => eq?.$cstNode?.text).filter(Boolean);
-    if (texts.length > 0) return ' = ' + texts.join(', ');
-    return '';
+    const texts = eqs.map(eq => {
+        if (eq.$cstNode?.text) return eq.$cstNode.text;
+        const facets: string[] = [
+            ...(eq.length ?? []).map(v => `length ${v}`),
+            ...(eq.minLength ?? []).map(v => `minLength ${v}`),
+            ...(eq.maxLength ?? []).map(v => `maxLength ${v}`),
+            ...(eq.pattern ?? []).map(v => `pattern ${quoteOmlString(v)}`),
+            ...(eq.language ?? []).map(v => `language ${v}`),
+            ...(eq.minInclusive ?? []).map(v => `minInclusive ${printLiteral(v)}`),
+            ...(eq.minExclusive ?? []).map(v => `minExclusive ${printLiteral(v)}`),
+            ...(eq.maxInclusive ?? []).map(v => `maxInclusive ${printLiteral(v)}`),
+            ...(eq.maxExclusive ?? []).map(v => `maxExclusive ${printLiteral(v)}`),
+        ];
+        const superTerm = eq.superTerms?.[0]?.$refText ?? '??';
+        if (facets.length === 0) return superTerm;
+        return `${superTerm} [${o.eol}${facets.map(f => `${indent}${o.indent}${f}`).join(o.eol)}${o.eol}${indent}]`;
+    });
+    return ' = ' + texts.join(', ');
+}
+
+function printPropertyEquivalences(eqs: PropertyEquivalenceAxiom[] | undefined, _o: Required<PrinterOptions>): string {
+    if (!eqs || eqs.length === 0) return '';
+    return ' = ' + eqs.map(eq => eq.superTerms?.[0]?.$refText ?? '??').join(', ');
 }
 
 function printKeyAxiom(key: KeyAxiom, indent: string, _o: Required<PrinterOptions>): string {
@@ -465,14 +543,21 @@ function printLiteralEnumeration(en: LiteralEnumerationAxiom, indent: string, _o
 function printLiteral(lit: Literal): string {
     if (isQuotedLiteral(lit)) {
         const ql = lit as QuotedLiteral;
-        const escaped = String(ql.value).replace(/"/g, '\\"');
-        if (ql.type?.$refText) return `"${escaped}"^^${ql.type.$refText}`;
-        if (ql.langTag) return `"${escaped}"$${ql.langTag}`;
-        return `"${escaped}"`;
+        const quoted = quoteOmlString(String(ql.value));
+        if (ql.type?.$refText) return `${quoted}^^${ql.type.$refText}`;
+        if (ql.langTag) return `${quoted}$${ql.langTag}`;
+        return quoted;
     }
     if (isIntegerLiteral(lit)) return String((lit as IntegerLiteral).value);
-    if (isDecimalLiteral(lit)) return String((lit as DecimalLiteral).value);
-    if (isDoubleLiteral(lit)) return String((lit as DoubleLiteral).value);
+    if (isDecimalLiteral(lit)) {
+        // A whole decimal printed without a fraction would read back as an integer
+        const text = String((lit as DecimalLiteral).value);
+        return /[.e]/i.test(text) ? text : `${text}.0`;
+    }
+    if (isDoubleLiteral(lit)) {
+        const text = String((lit as DoubleLiteral).value);
+        return /e/i.test(text) ? text : `${text}e0`;
+    }
     if (isBooleanLiteral(lit)) return (lit as BooleanLiteral).value ? 'true' : 'false';
     return String((lit as any).value ?? '??');
 }
@@ -0,0 +1,272 @@
+/**
+ * OML Code Action Provider
+ * Provides quick fixes for the diagnostics reported by OmlValidator
+ *
+ * Each fixable diagnostic carries an issue code (and the data the fix needs) in its `data` field,
+ * see IssueCodes and OmlDiagnosticData in oml-validator.ts.
+ */
+
+import type { AstNode, LangiumDocument, LangiumDocuments } from 'langium';
+import { AstUtils, CstUtils, GrammarUtils } from 'langium';
+import type { CodeActionProvider, LangiumServices, RenameProvider } from 'langium/lsp';
+import type { CodeActionParams, Diagnostic, Range } from 'vscode-languageserver-protocol';
+import { CodeAction, CodeActionKind, TextEdit } from 'vscode-languageserver-protocol';
+import { isConcept, isImport, isOntology, isSpecializationAxiom } from './generated/ast.js';
+import type { Ontology } from './generated/ast.js';
+import { getExpectedImportKind, IssueCodes } from './oml-validator.js';
+import type { OmlDiagnosticData } from './oml-validator.js';
+
+export class OmlCodeActionProvider implements CodeActionProvider {
+
+  protected readonly documents: LangiumDocuments;
+  protected readonly renameProvider: RenameProvider | undefined;
+
+  constructor(services: LangiumServices) {
+    this.documents = services.shared.workspace.LangiumDocuments;
+    this.renameProvider = services.lsp.RenameProvider;
+  }
+
+  async getCodeActions(document: LangiumDocument, params: CodeActionParams): Promise<CodeAction[]> {
+    const actions = new Map<string, CodeAction>();
+    for (const diagnostic of params.context.diagnostics) {
+      const action = await this.createCodeAction(document, diagnostic);
+      if (!action) {
+        continue;
+      }
+      // Several diagnostics can share one fix (e.g. two references into the same missing import)
+      const key = JSON.stringify(action.edit);
+      const existing = actions.get(key);
+      if (existing) {
+        existing.diagnostics?.push(diagnostic);
+      } else {
+        actions.set(key, action);
+      }
+    }
+    return [...actions.values()];
+  }
+
+  protected async createCodeAction(document: LangiumDocument, diagnostic: Diagnostic): Promise<CodeAction | undefined> {
+    const data = diagnostic.data as OmlDiagnosticData | undefined;
+    switch (data?.code) {
+      case IssueCodes.MissingImport:
+        return this.addMissingImport(document, diagnostic, data);
+      case IssueCodes.UnusedImport:
+        return this.removeUnusedImport(document, diagnostic);
+      case IssueCodes.ConceptNameCapital:
+        return this.capitalizeConceptName(document, diagnostic);
+      case IssueCodes.InvalidImportKind:
+        return this.changeImportKind(document, diagnostic, data);
+      case IssueCodes.RedundantSpecialization:
+        return this.removeSpecialization(document, diagnostic);
+    }
+    return undefined;
+  }
+
+  /**
+   * Adds an import of the ontology declaring the namespace (or prefix) of an unresolved reference,
+   * after the last import or at the start of the ontology body.
+   */
+  protected addMissingImport(document: LangiumDocument, diagnostic: Diagnostic, data: OmlDiagnosticData): CodeAction | undefined {
+    const ontology = document.parseResult.value;
+    if (!isOntology(ontology) || !ontology.$cstNode) {
+      return undefined;
+    }
+    const imported = this.findOntology(data.namespace, data.prefix);
+    if (!imported || imported === ontology) {
+      return undefined;
+    }
+    const kind = getExpectedImportKind(ontology.$type, imported.$type);
+    if (!kind) {
+      return undefined;
+    }
+
+    const text = document.textDocument.getText();
+    const statement = `${kind} <${imported.namespace}> as ${data.prefix ?? imported.prefix}`;
+    const lastImport = ontology.ownedImports.at(-1)?.$cstNode;
+    const anchor = lastImport ?? GrammarUtils.findNodeForKeyword(ontology.$cstNode, '{');
+    if (!anchor) {
+      return undefined;
+    }
+    const indentSource = lastImport ?? (ontology as { ownedStatements?: AstNode[] }).ownedStatements?.[0]?.$cstNode;
+    const indent = indentSource ? this.getIndentation(text, indentSource.offset) : '    ';
+    const position = document.textDocument.positionAt(anchor.end);
+
+    return {
+      title: `Add import: ${statement}`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      isPreferred: true,
+      edit: {
+        changes: {
+          [document.textDocument.uri]: [TextEdit.insert(position, `\n${indent}${statement}`)]
+        }
+      }
+    };
+  }
+
+  /**
+   * Deletes the line of an unused import.
+   */
+  protected removeUnusedImport(document: LangiumDocument, diagnostic: Diagnostic): CodeAction | undefined {
+    const ownedImport = this.findNode(document, diagnostic.range, isImport);
+    if (!ownedImport?.$cstNode) {
+      return undefined;
+    }
+    const text = document.textDocument.getText();
+    let start = ownedImport.$cstNode.offset;
+    let end = ownedImport.$cstNode.end;
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = text.indexOf('\n', end);
+    // Remove the whole line when the import is alone on it
+    if (text.substring(lineStart, start).trim() === '' && text.substring(end, lineEnd === -1 ? text.length : lineEnd).trim() === '') {
+      start = lineStart;
+      end = lineEnd === -1 ? text.length : lineEnd + 1;
+    }
+
+    return {
+      title: `Remove unused import of '${ownedImport.prefix}'`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      isPreferred: true,
+      edit: {
+        changes: {
+          [document.textDocument.uri]: [TextEdit.del({
+            start: document.textDocument.positionAt(start),
+            end: document.textDocument.positionAt(end)
+          })]
+        }
+      }
+    };
+  }
+
+  /**
+   * Renames a concept to start with a capital, updating all its references.
+   */
+  protected async capitalizeConceptName(document: LangiumDocument, diagnostic: Diagnostic): Promise<CodeAction | undefined> {
+    const concept = this.findNode(document, diagnostic.range, isConcept);
+    if (!concept?.name || !this.renameProvider) {
+      return undefined;
+    }
+    const newName = concept.name.charAt(0).toUpperCase() + concept.name.substring(1);
+    const edit = await this.renameProvider.rename(document, {
+      textDocument: { uri: document.textDocument.uri },
+      position: diagnostic.range.start,
+      newName
+    });
+    if (!edit) {
+      return undefined;
+    }
+
+    return {
+      title: `Rename '${concept.name}' to '${newName}'`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      isPreferred: true,
+      edit
+    };
+  }
+
+  /**
+   * Replaces the kind of an import with the one allowed between the two ontology types.
+   */
+  protected changeImportKind(document: LangiumDocument, diagnostic: Diagnostic, data: OmlDiagnosticData): CodeAction | undefined {
+    const ownedImport = this.findNode(document, diagnostic.range, isImport);
+    const kindNode = ownedImport?.$cstNode && GrammarUtils.findNodeForProperty(ownedImport.$cstNode, 'kind');
+    if (!ownedImport || !kindNode || !data.expectedKind || data.expectedKind === ownedImport.kind) {
+      return undefined;
+    }
+
+    return {
+      title: `Change '${ownedImport.kind}' to '${data.expectedKind}'`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      isPreferred: true,
+      edit: {
+        changes: {
+          [document.textDocument.uri]: [TextEdit.replace(kindNode.range, data.expectedKind)]
+        }
+      }
+    };
+  }
+
+  /**
+   * Removes a specialization from the list after `<`, together with its separator,
+   * or the whole `< Super` clause when it is the only one.
+   */
+  protected removeSpecialization(document: LangiumDocument, diagnostic: Diagnostic): CodeAction | undefined {
+    const axiom = this.findNode(document, diagnostic.range, isSpecializationAxiom);
+    const axiomNode = axiom?.$cstNode;
+    if (!axiom || !axiomNode) {
+      return undefined;
+    }
+    const container = axiom.$container as { ownedSpecializations: AstNode[], ownedPropertyRestrictions?: AstNode[] };
+    const siblings = container.ownedSpecializations;
+    const index = siblings.indexOf(axiom);
+    let start: number;
+    let end = axiomNode.end;
+    if (index > 0) {
+      start = siblings[index - 1].$cstNode!.end;
+    } else if (siblings.length > 1) {
+      start = axiomNode.offset;
+      end = siblings[1].$cstNode!.offset;
+    } else if ((container.ownedPropertyRestrictions ?? []).length > 0) {
+      // `< Super [ restrictions ]` becomes `< [ restrictions ]`
+      start = axiomNode.offset;
+      end = CstUtils.getNextNode(axiomNode)?.offset ?? end;
+    } else {
+      const specializes = CstUtils.getPreviousNode(axiomNode);
+      const before = specializes && CstUtils.getPreviousNode(specializes);
+      start = before?.end ?? specializes?.offset ?? axiomNode.offset;
+    }
+
+    return {
+      title: `Remove specialization of '${axiom.superTerm.$refText}'`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      isPreferred: true,
+      edit: {
+        changes: {
+          [document.textDocument.uri]: [TextEdit.del({
+            start: document.textDocument.positionAt(start),
+            end: document.textDocument.positionAt(end)
+          })]
+        }
+      }
+    };
+  }
+
+  /**
+   * Finds the closest node of the given type at the start of a diagnostic range.
+   */
+  protected findNode<T extends AstNode>(document: LangiumDocument, range: Range, guard: (node: unknown) => node is T): T | undefined {
+    const rootNode = document.parseResult.value.$cstNode;
+    if (!rootNode) {
+      return undefined;
+    }
+    const leaf = CstUtils.findLeafNodeAtOffset(rootNode, document.textDocument.offsetAt(range.start));
+    if (!leaf) {
+      return undefined;
+    }
+    return guard(leaf.astNode) ? leaf.astNode : AstUtils.getContainerOfType(leaf.astNode, guard);
+  }
+
+  /**
+   * Finds a loaded ontology by namespace (with or without its separator) or by prefix.
+   */
+  protected findOntology(namespace: string | undefined, prefix: string | undefined): Ontology | undefined {
+    const normalize = (ns: string) => ns.replace(/^<|>$/g, '').replace(/[#/]$/, '');
+    const ontologies = this.documents.all
+      .map(doc => doc.parseResult.value)
+      .filter(isOntology)
+      .toArray();
+    if (namespace) {
+      return ontologies.find(ontology => normalize(ontology.namespace) === normalize(namespace));
+    }
+    return prefix ? ontologies.find(ontology => ontology.prefix === prefix) : undefined;
+  }
+
+  private getIndentation(text: string, offset: number): string {
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    return text.substring(lineStart, offset).match(/^[ \t]*/)?.[0] ?? '';
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * OML Consistency
+ * Checks the consistency of an ontology under the disjointness implied by vocabulary bundles.
+ * A bundle closes the world over the vocabularies it includes: two of their concepts (or two of
+ * their relation entities) are disjoint unless one specializes the other or some entity of the
+ * bundle specializes both. An entity that specializes two disjoint entities is unsatisfiable,
+ * and an instance whose asserted or inferred types include two disjoint entities is inconsistent.
+ *
+ * A description bundle also closes the world over the descriptions it includes: the values its
+ * instances are required to have by their restrictions (`some`, `min`, `exactly`, values and self)
+ * must be asserted or inferred within the bundle.
+ */
+
+import { AstUtils } from 'langium';
+import type { AstNode } from 'langium';
+import {
+  isConcept,
+  isConceptInstance,
+  isDescription,
+  isDescriptionBundle,
+  isEntity,
+  isOntology,
+  isPropertyCardinalityRestrictionAxiom,
+  isPropertyRangeRestrictionAxiom,
+  isPropertySelfRestrictionAxiom,
+  isPropertyValueRestrictionAxiom,
+  isRelationEntity,
+  isRelationInstance,
+  isVocabularyBundle
+} from './generated/ast.js';
+import type {
+  DescriptionBundle,
+  Entity,
+  NamedInstance,
+  Ontology,
+  PropertyRestrictionAxiom,
+  VocabularyBundle
+} from './generated/ast.js';
+import { getLexicalForm } from './oml-literals.js';
+import { OmlReasoner, formatJustification } from './oml-reasoner.js';
+import type { InferredType } from './oml-reasoner.js';
+import type { PropertyValue } from './oml-semantics.js';
+import { getImportClosure, resolveMember } from './oml-semantics.js';
+
+export type ConsistencyIssueKind = 'unsatisfiable-class' | 'inconsistent-instance' | 'closed-world';
+
+export interface ConsistencyIssue {
+  kind: ConsistencyIssueKind
+  /** The unsatisfiable entity or the inconsistent instance */
+  node: AstNode
+  message: string
+  /** The specializations, type assertions, inferences, restrictions and bundles involved */
+  explanation: string[]
+}
+
+export interface ConsistencyReport {
+  /** The vocabulary bundles whose disjointness was checked */
+  bundles: VocabularyBundle[]
+  /** The description bundle whose closed world was checked, if the ontology is one */
+  closedWorld?: DescriptionBundle
+  issues: ConsistencyIssue[]
+}
+
+export interface ConsistencyOptions {
+  /** Bundles to check in addition to those in the import closure of the ontology */
+  bundles?: VocabularyBundle[]
+}
+
+/**
+ * Returns a bundle and the ontologies it includes, with the ontologies those extend.
+ * Used ontologies are not part of the closure.
+ */
+export function getBundleClosure(bundle: VocabularyBundle | DescriptionBundle): Ontology[] {
+  const closure = new Set<Ontology>();
+  const visit = (current: Ontology) => {
+    if (closure.has(current)) {
+      return;
+    }
+    closure.add(current);
+    for (const ownedImport of current.ownedImports) {
+      const imported = ownedImport.imported?.ref;
+      if (imported && ownedImport.kind !== 'uses') {
+        visit(imported);
+      }
+    }
+  };
+  visit(bundle);
+  return [...closure];
+}
+
+/**
+ * Returns the vocabulary bundles among the given ontologies that include a vocabulary
+ * of the ontology's import closure, for ontologies that import no bundle themselves.
+ */
+export function getCoveringBundles(ontology: Ontology, candidates: Ontology[]): VocabularyBundle[] {
+  const imported = new Set<Ontology>(getImportClosure(ontology));
+  return candidates
+    .filter(isVocabularyBundle)
+    .filter(bundle => getBundleClosure(bundle).some(member => member !== bundle && imported.has(member)));
+}
+
+/**
+ * The disjointness a vocabulary bundle implies between the concepts and relation entities
+ * declared in its closure.
+ */
+export class BundleDisjointness {
+
+  readonly entities: Set<Entity>;
+
+  constructor(readonly bundle: VocabularyBundle, protected readonly reasoner: OmlReasoner) {
+    this.entities = new Set(getBundleClosure(bundle)
+      .flatMap(ontology => (ontology as { ownedStatements?: AstNode[] }).ownedStatements ?? [])
+      .filter((statement): statement is Entity => (isConcept(statement) || isRelationEntity(statement)) && resolveMember(statement) === statement));
+  }
+
+  /**
+   * Whether the bundle makes the two entities disjoint.
+   */
+  areDisjoint(first: AstNode, second: AstNode): boolean {
+    const a = resolveMember(first);
+    const b = resolveMember(second);
+    if (a === b || a.$type !== b.$type || !this.entities.has(a as Entity) || !this.entities.has(b as Entity)) {
+      return false;
+    }
+    if (this.reasoner.isSubTermOf(a, b) || this.reasoner.isSubTermOf(b, a)) {
+      return false;
+    }
+    return ![...this.entities].some(entity => this.reasoner.isSubTermOf(entity, a) && this.reasoner.isSubTermOf(entity, b));
+  }
+
+  /**
+   * Returns the first pair of disjoint entities among the given types.
+   */
+  findDisjointPair(types: Iterable<AstNode>): [Entity, Entity] | undefined {
+    const candidates = [...types].filter(type => this.entities.has(type as Entity)) as Entity[];
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        if (this.areDisjoint(candidates[i], candidates[j])) {
+          return [candidates[i], candidates[j]];
+        }
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Checks an ontology against the disjointness of the vocabulary bundles in its import closure
+ * (and of the given bundles) and, for a description bundle, against its closed world.
+ */
+export function checkConsistency(ontology: Ontology, options: ConsistencyOptions = {}): ConsistencyReport {
+  const reasoner = new OmlReasoner(ontology);
+  const bundles = [...new Set([...reasoner.closure.ontologies.filter(isVocabularyBundle), ...(options.bundles ?? [])])];
+  const disjointness = bundles.map(bundle => new BundleDisjointness(bundle, reasoner));
+  const issues: ConsistencyIssue[] = [];
+  const statements = reasoner.closure.ontologies
+    .flatMap(o => (o as { ownedStatements?: AstNode[] }).ownedStatements ?? [])
+    .filter(statement => resolveMember(statement) === statement);
+
+  for (const entity of statements.filter(isEntity)) {
+    for (const bundle of disjointness) {
+      const pair = bundle.findDisjointPair(reasoner.getSuperTerms(entity));
+      if (pair) {
+        issues.push({
+          kind: 'unsatisfiable-class',
+          node: entity,
+          message: `${getQualifiedName(entity)} is unsatisfiable: it specializes ${getQualifiedName(pair[0])} and ${getQualifiedName(pair[1])}, which are disjoint.`,
+          explanation: [
+            ...pair.map(type => formatChain(getSpecializationChain(reasoner, entity, type))),
+            formatDisjointness(pair, bundle.bundle)
+          ]
+        });
+        break;
+      }
+    }
+  }
+
+  const instances = statements.filter((s): s is NamedInstance => isConceptInstance(s) || isRelationInstance(s));
+  for (const instance of instances) {
+    for (const bundle of disjointness) {
+      const pair = bundle.findDisjointPair(reasoner.getAllTypes(instance));
+      if (pair) {
+        issues.push({
+          kind: 'inconsistent-instance',
+          node: instance,
+          message: `${getQualifiedName(instance)} is inconsistent: it is an instance of ${getQualifiedName(pair[0])} and ${getQualifiedName(pair[1])}, which are disjoint.`,
+          explanation: [
+            ...pair.map(type => explainType(reasoner, instance, type)),
+            formatDisjointness(pair, bundle.bundle)
+          ]
+        });
+        break;
+      }
+    }
+  }
+
+  const closedWorld = isDescriptionBundle(ontology) ? ontology : undefined;
+  if (closedWorld) {
+    const descriptions = new Set<AstNode>(getBundleClosure(closedWorld).filter(isDescription));
+    for (const instance of instances.filter(i => descriptions.has(AstUtils.findRootNode(i)))) {
+      issues.push(...checkClosedWorld(reasoner, instance, closedWorld));
+    }
+  }
+
+  return { bundles, closedWorld, issues };
+}
+
+/**
+ * Reports the restrictions of the instance types that no value asserted or inferred in the bundle satisfies.
+ */
+function checkClosedWorld(reasoner: OmlReasoner, instance: NamedInstance, bundle: DescriptionBundle): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const restrictions = new Set(reasoner.getTypes(instance).flatMap(type => reasoner.getRestrictions(type)));
+  for (const restriction of restrictions) {
+    const property = restriction.property?.ref;
+    if (!property) {
+      continue;
+    }
+    const values = reasoner.getPropertyValues(instance, property);
+    const requirement = getUnmetRequirement(reasoner, instance, restriction, getQualifiedName(property), values);
+    if (requirement) {
+      const owner = restriction.$container.$type === 'EntityEquivalenceAxiom' ? restriction.$container.$container : restriction.$container;
+      issues.push({
+        kind: 'closed-world',
+        node: instance,
+        message: `${getQualifiedName(instance)} violates the closed world of description bundle ${bundle.prefix}: ${requirement}.`,
+        explanation: [
+          `${getQualifiedName(owner)} ${restriction.$cstNode?.text ?? `restricts ${getQualifiedName(property)}`}`,
+          explainType(reasoner, instance, owner),
+          `description bundle ${bundle.prefix} closes the world: only the values asserted or inferred in its descriptions exist`
+        ]
+      });
+    }
+  }
+  return issues;
+}
+
+function getUnmetRequirement(
+  reasoner: OmlReasoner,
+  instance: NamedInstance,
+  restriction: PropertyRestrictionAxiom,
+  property: string,
+  values: PropertyValue[]
+): string | undefined {
+  const hasType = (value: PropertyValue, type: AstNode | undefined) =>
+    !type || (value.instance !== undefined && reasoner.getAllTypes(value.instance).has(resolveMember(type)));
+  if (isPropertyRangeRestrictionAxiom(restriction)) {
+    const range = restriction.range?.ref;
+    if (restriction.kind === 'some' && range && !values.some(value => hasType(value, range))) {
+      return `no value of ${property} is an instance of ${getQualifiedName(range)}`;
+    }
+    const wrong = restriction.kind === 'all' && range ? values.filter(value => value.instance && !hasType(value, range)) : [];
+    if (wrong.length > 0) {
+      return `${wrong.map(value => getQualifiedName(value.instance!)).join(', ')} ${wrong.length === 1 ? 'is a value' : 'are values'} of ${property} not known to be an instance of ${getQualifiedName(range!)}`;
+    }
+  } else if (isPropertyCardinalityRestrictionAxiom(restriction) && restriction.kind !== 'max') {
+    const range = restriction.range?.ref;
+    const matching = values.filter(value => hasType(value, range));
+    if (matching.length < restriction.cardinality) {
+      const qualifier = range ? ` that are instances of ${getQualifiedName(range)}` : '';
+      return `${property} has ${matching.length} value(s)${qualifier} instead of ${restriction.kind} ${restriction.cardinality}`;
+    }
+  } else if (isPropertyValueRestrictionAxiom(restriction)) {
+    const expected = restriction.referencedValue?.ref;
+    if (expected && !values.some(value => value.instance && (value.instance === resolveMember(expected) || reasoner.isSameAs(value.instance, expected)))) {
+      return `${getQualifiedName(expected)} is not a value of ${property}`;
+    }
+    const literal = restriction.literalValue;
+    if (literal && !values.some(value => value.literal && getLexicalForm(value.literal) === getLexicalForm(literal))) {
+      return `${getLexicalForm(literal)} is not a value of ${property}`;
+    }
+  } else if (isPropertySelfRestrictionAxiom(restriction)) {
+    if (!values.some(value => value.instance === resolveMember(instance))) {
+      return `it is not related to itself by ${property}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Explains why an instance has a type: the asserted or inferred direct type it comes from,
+ * followed by the specializations leading to it.
+ */
+function explainType(reasoner: OmlReasoner, instance: NamedInstance, type: AstNode): string {
+  const asserted = new Set<AstNode>(reasoner.closure.getTypes(instance));
+  const origins = reasoner.getTypes(instance).filter(direct => reasoner.isSubTermOf(direct, type));
+  const origin = origins.find(direct => asserted.has(direct)) ?? origins[0];
+  if (!origin) {
+    return `${getQualifiedName(instance)} : ${getQualifiedName(type)}`;
+  }
+  const chain = getSpecializationChain(reasoner, origin, type);
+  const typing = `${getQualifiedName(instance)} : ${formatChain(chain)}`;
+  if (asserted.has(origin)) {
+    return `${typing} (asserted)`;
+  }
+  const inference = reasoner.getInferredFacts()
+    .find((fact): fact is InferredType => fact.kind === 'type' && fact.type === origin && reasoner.isSameAs(fact.instance, instance));
+  return inference ? `${typing} (inferred by ${formatJustification(inference.justification, getQualifiedName)})` : typing;
+}
+
+/**
+ * Returns the shortest path of direct specializations and equivalences from a term to one of its supertypes.
+ */
+function getSpecializationChain(reasoner: OmlReasoner, term: AstNode, superTerm: AstNode): AstNode[] {
+  const start = resolveMember(term);
+  const target = resolveMember(superTerm);
+  const previous = new Map<AstNode, AstNode | undefined>([[start, undefined]]);
+  const pending = [start];
+  while (pending.length > 0) {
+    const current = pending.shift()!;
+    if (current === target) {
+      const chain: AstNode[] = [];
+      for (let node: AstNode | undefined = current; node; node = previous.get(node)) {
+        chain.unshift(node);
+      }
+      return chain;
+    }
+    for (const next of reasoner.getDirectSuperTerms(current)) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        pending.push(next);
+      }
+    }
+  }
+  return [start, target];
+}
+
+function formatChain(chain: AstNode[]): string {
+  return chain.map(getQualifiedName).join(' < ');
+}
+
+function formatDisjointness([first, second]: [Entity, Entity], bundle: VocabularyBundle): string {
+  return `${getQualifiedName(first)} and ${getQualifiedName(second)} are disjoint in bundle ${bundle.prefix}: neither specializes the other and no entity of the bundle specializes both`;
+}
+
+function getQualifiedName(node: AstNode): string {
+  const member = resolveMember(node) as AstNode & { name?: string };
+  const ontology = AstUtils.findRootNode(member);
+  if (!member.name) {
+    return member.$type;
+  }
+  return isOntology(ontology) ? `${ontology.prefix}:${member.name}` : member.name;
+}
@@ -1,9 +1,11 @@
-import { DefaultValueConverter, GrammarAST } from 'langium';
+import { DefaultValueConverter, GrammarAST, ValueConverter } from 'langium';
 import type { CstNode, ValueType } from 'langium';
 
 /**
  * Normalizes NAMESPACE tokens by stripping surrounding angle brackets when used via RuleCall.
  * This ensures that namespace values stored in the AST are consistent and don't include the brackets.
+ * STRING tokens lose their whole delimiter, including the three quotes of long strings, and
+ * their backslash escapes are read.
  */
 export class OmlValueConverter extends DefaultValueConverter {
   protected override runConverter(rule: GrammarAST.AbstractRule, input: string, cstNode: CstNode): ValueType {
@@ -12,6 +14,26 @@ export class OmlValueConverter extends DefaultValueConverter {
       // Strip angle brackets from namespace: <http://example.com#> -> http://example.com#
       return input.substring(1, input.length - 1);
     }
+    if (rule.name === 'STRING' && (input.startsWith('"""') || input.startsWith("'''")) && input.length >= 6) {
+      // convertString drops one character at each end
+      return ValueConverter.convertString(input.substring(2, input.length - 2));
+    }
     return super.runConverter(rule, input, cstNode);
   }
 }
+
+/**
+ * Writes a string as an OML STRING token that converts back to the same value. A STRING ends at
+ * the first occurrence of its delimiter, escaped or not, so the delimiter is a quote the value
+ * does not contain; a value with both quotes is written in the triple quotes of the quote it
+ * does not end with, escaping that quote. Backslashes are always escaped.
+ */
+export function quoteOmlString(value: string): string {
+  const escaped = value.replace(/\\/g, '\\\\');
+  const quote = ['"', "'"].find(q => !value.includes(q));
+  if (quote) {
+    return `${quote}${escaped}${quote}`;
+  }
+  const delimiter = value.endsWith('"') ? "'''" : '"""';
+  return `${delimiter}${escaped.split(delimiter[0]).join(`\\${delimiter[0]}`)}${delimiter}`;
+}
@@ -0,0 +1,827 @@
+/**
+ * OML CSV
+ * Reads and writes comma-separated values (RFC 4180) for tabular import and export of instances:
+ * fields may be quoted with double quotes, doubling the quotes they contain, and then span several
+ * lines. Quotes inside unquoted fields are kept, a leading byte order mark is ignored and both CRLF
+ * and LF line breaks are accepted.
+ *
+ * Exports flatten the instances of a type (and of its subtypes) in descriptions into one row per
+ * instance with configurable columns, or relate the instances of two types in a matrix. Imports
+ * plan the reverse: a concept instance per row, added to a description or routed by a playbook.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AstUtils, GrammarUtils } from 'langium';
+import type { AstNode, LangiumDocument } from 'langium';
+import {
+  isAnnotationProperty,
+  isAnonymousRelationInstance,
+  isAspect,
+  isConcept,
+  isConceptInstance,
+  isDescription,
+  isEntity,
+  isForwardRelation,
+  isOntology,
+  isRelationEntity,
+  isRelationInstance,
+  isReverseRelation,
+  isScalar,
+  isScalarProperty,
+  isUnreifiedRelation
+} from './generated/ast.js';
+import type { Description, DescriptionBundle, Entity, NamedInstance, Ontology, RelationInstance, SemanticProperty } from './generated/ast.js';
+import { getBundleClosure } from './oml-consistency.js';
+import { quoteOmlString } from './oml-converter.js';
+import { getJsonEnumeration, getJsonScalarType, JsonNaming, toJsonLiteral } from './oml-json.js';
+import type { JsonLiteral } from './oml-json.js';
+import { getMemberIri } from './oml-owl.js';
+import { getKeywords } from './oml-owl-import.js';
+import { findPlaybook, findPlaybookFromDescription, routeInstanceType } from './oml-playbook.js';
+import { OntologyClosure, resolveMember } from './oml-semantics.js';
+import { getExpectedImportKind } from './oml-validator.js';
+
+/**
+ * A data row of a CSV table, with its values keyed by column header.
+ */
+export interface CsvRecord {
+  /** The line of the file the row starts on (1-based, the header being on line 1) */
+  line: number;
+  values: Record<string, string>;
+}
+
+/**
+ * A CSV table whose first row names the columns.
+ */
+export interface CsvTable {
+  columns: string[];
+  records: CsvRecord[];
+}
+
+/**
+ * Thrown for text that is not well-formed CSV.
+ */
+export class CsvSyntaxError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'CsvSyntaxError';
+  }
+}
+
+/**
+ * Splits CSV text into rows of fields, with the line each row starts on. Empty lines are skipped.
+ */
+export function parseCsvRows(text: string, delimiter = ','): { line: number; fields: string[] }[] {
+  const rows: { line: number; fields: string[] }[] = [];
+  const input = text.startsWith('﻿') ? text.substring(1) : text;
+  let line = 1;
+  let start = 1;
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let wasQuoted = false;
+  let closed = false;
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '' || wasQuoted) {
+      rows.push({ line: start, fields });
+    }
+    fields = [];
+    field = '';
+    wasQuoted = false;
+  };
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+        closed = true;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (closed && char !== delimiter && char !== '\n' && char !== '\r') {
+      throw new CsvSyntaxError('a quoted field must be followed by a delimiter or a line break', line);
+    } else if (char === '"' && field === '') {
+      quoted = true;
+      wasQuoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+      closed = false;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      closed = false;
+      start = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new CsvSyntaxError('unterminated quoted field', start);
+  }
+  endRow();
+  return rows;
+}
+
+/**
+ * Parses CSV text whose first row holds the column headers. Rows may have fewer fields than
+ * headers, the missing values being empty, but not more.
+ */
+export function parseCsv(text: string, delimiter = ','): CsvTable {
+  const [header, ...rows] = parseCsvRows(text, delimiter);
+  if (!header) {
+    return { columns: [], records: [] };
+  }
+  const columns = header.fields.map(column => column.trim());
+  const duplicate = columns.find((column, index) => columns.indexOf(column) !== index);
+  if (duplicate !== undefined) {
+    throw new CsvSyntaxError(`duplicate column "${duplicate}"`, header.line);
+  }
+  const records = rows.map(row => {
+    if (row.fields.length > columns.length) {
+      throw new CsvSyntaxError(`${row.fields.length} fields for ${columns.length} columns`, row.line);
+    }
+    const values: Record<string, string> = {};
+    columns.forEach((column, index) => values[column] = row.fields[index] ?? '');
+    return { line: row.line, values };
+  });
+  return { columns, records };
+}
+
+/**
+ * Formats rows of fields as CSV, quoting the fields that need it. Rows end with LF.
+ */
+export function formatCsv(rows: string[][], delimiter = ','): string {
+  const format = (field: string) => field.includes(delimiter) || /["\r\n]/.test(field) || field !== field.trim()
+    ? `"${field.replace(/"/g, '""')}"`
+    : field;
+  return rows.map(row => row.map(format).join(delimiter) + '\n').join('');
+}
+
+export interface CsvExportOptions {
+  /** The name of the type whose instances (including those of subtypes) are rows */
+  type: string;
+  /**
+   * The columns, each `[header=]value` where the value is `@name`, `@iri`, `@types`, a property
+   * (scalar property or relation) or `^relation` for the instances relating to the row by the
+   * relation. Default: the name, the types and the properties whose domain includes the type.
+   */
+  columns?: string[];
+  /** Joins the values of a cell. Default: `; ` */
+  separator?: string;
+  delimiter?: string;
+}
+
+export interface RelationMatrixOptions {
+  /** The name of the type whose instances are rows */
+  rowType: string;
+  /** The name of the type whose instances are columns */
+  columnType: string;
+  /**
+   * A relation entity (or one of its relations) whose relation instances fill the cells, or an
+   * unreified relation whose assertions are marked with `x`. Default: all relation instances.
+   */
+  relation?: string;
+  separator?: string;
+  delimiter?: string;
+}
+
+/**
+ * Exports the instances of a type in a description, or in the descriptions a description bundle
+ * includes, as CSV with one row per instance. Types and properties are named by their local name,
+ * or by `prefix:name` when ambiguous; instances of other descriptions by `prefix:name`.
+ */
+export function exportInstancesCsv(ontology: Description | DescriptionBundle, options: CsvExportOptions): string {
+  return new InstanceTableExporter(ontology).exportInstances(options);
+}
+
+/**
+ * Exports a matrix of the relation instances between the instances of two types as CSV: a row per
+ * instance of the row type, a column per instance of the column type and, in the cells, the relation
+ * instances from the row to the column.
+ */
+export function exportRelationMatrixCsv(ontology: Description | DescriptionBundle, options: RelationMatrixOptions): string {
+  return new InstanceTableExporter(ontology).exportRelationMatrix(options);
+}
+
+type Column = { header: string; value: (instance: NamedInstance) => string[] };
+
+class InstanceTableExporter {
+
+  protected readonly closure: OntologyClosure;
+  protected readonly naming: JsonNaming;
+  protected readonly descriptions: Description[];
+  protected readonly instances: NamedInstance[];
+
+  constructor(ontology: Description | DescriptionBundle) {
+    this.closure = new OntologyClosure(ontology);
+    this.naming = new JsonNaming(this.closure.ontologies);
+    this.descriptions = isDescription(ontology) ? [ontology] : getBundleClosure(ontology).filter(isDescription);
+    const declarations = this.descriptions
+      .flatMap(description => description.ownedStatements)
+      .filter((statement): statement is NamedInstance => isConceptInstance(statement) || isRelationInstance(statement))
+      .map(member => resolveMember(member));
+    this.instances = [...new Set(declarations)];
+  }
+
+  exportInstances(options: CsvExportOptions): string {
+    const type = this.resolveEntity(options.type);
+    const separator = options.separator ?? '; ';
+    const columns = (options.columns ?? this.getDefaultColumns(type)).map(spec => this.createColumn(spec));
+    const rows = this.getInstancesOf(type).map(instance => columns.map(column => column.value(instance).join(separator)));
+    return formatCsv([columns.map(column => column.header), ...rows], options.delimiter);
+  }
+
+  exportRelationMatrix(options: RelationMatrixOptions): string {
+    const rows = this.getInstancesOf(this.resolveEntity(options.rowType));
+    const columns = this.getInstancesOf(this.resolveEntity(options.columnType));
+    const cell = this.createMatrixCell(options.relation);
+    const separator = options.separator ?? '; ';
+    return formatCsv([
+      ['', ...columns.map(column => this.getInstanceName(column))],
+      ...rows.map(row => [this.getInstanceName(row), ...columns.map(column => cell(row, column).join(separator))])
+    ], options.delimiter);
+  }
+
+  protected resolveEntity(name: string): Entity {
+    const type = this.naming.resolveType(name);
+    if (!type || !isEntity(type)) {
+      throw new Error(`Unknown concept, aspect or relation entity '${name}'`);
+    }
+    return type;
+  }
+
+  protected resolveProperty(name: string): SemanticProperty {
+    const property = this.naming.resolveProperty(name);
+    if (!property) {
+      throw new Error(`Unknown property '${name}'`);
+    }
+    return property as SemanticProperty;
+  }
+
+  protected getInstancesOf(type: Entity): NamedInstance[] {
+    return this.instances.filter(instance => this.closure.getAllTypes(instance).has(type));
+  }
+
+  protected getDefaultColumns(type: Entity): string[] {
+    const superTypes = this.closure.getSuperTerms(type);
+    const properties = this.closure.ontologies
+      .flatMap(ontology => (ontology as { ownedStatements?: AstNode[] }).ownedStatements ?? [])
+      .filter(statement => resolveMember(statement) === statement)
+      .flatMap((statement): SemanticProperty[] => {
+        if (isScalarProperty(statement) || isUnreifiedRelation(statement)) return [statement];
+        if (isRelationEntity(statement)) return statement.forwardRelation ? [statement.forwardRelation] : [];
+        return [];
+      })
+      .filter(property => this.closure.getDomains(property).some(domain => superTypes.has(domain)));
+    return ['@name', '@types', ...properties.map(property => this.naming.getPropertyName(property))];
+  }
+
+  protected createColumn(spec: string): Column {
+    const separator = spec.indexOf('=');
+    const header = separator > 0 ? spec.substring(0, separator) : spec;
+    const value = separator > 0 ? spec.substring(separator + 1) : spec;
+    if (value === '@name') {
+      return { header, value: instance => [this.getInstanceName(instance)] };
+    }
+    if (value === '@iri') {
+      return { header, value: instance => [getMemberIri(instance) ?? ''] };
+    }
+    if (value === '@types') {
+      return { header, value: instance => [...new Set(this.closure.getTypes(instance).map(type => this.naming.getTypeName(type)))] };
+    }
+    if (value.startsWith('^')) {
+      const property = this.resolveProperty(value.substring(1));
+      const subjects = new Map<NamedInstance, NamedInstance[]>();
+      for (const subject of this.instances) {
+        for (const object of this.getRelatedInstances(subject, property)) {
+          subjects.set(object, [...subjects.get(object) ?? [], subject]);
+        }
+      }
+      return { header, value: instance => (subjects.get(instance) ?? []).map(subject => this.getInstanceName(subject)) };
+    }
+    const property = this.resolveProperty(value);
+    const range = this.closure.getRanges(property).find(isScalar);
+    const type = range ? getJsonScalarType(range, this.closure) : undefined;
+    return {
+      header,
+      value: instance => [...new Set(this.closure.getPropertyValues(instance, property).flatMap(value => {
+        if (value.literal) return [String(toJsonLiteral(value.literal, type))];
+        const related = this.toNamedInstance(value.instance);
+        return related ? [this.getInstanceName(related)] : [];
+      }))]
+    };
+  }
+
+  protected createMatrixCell(name: string | undefined): (row: NamedInstance, column: NamedInstance) => string[] {
+    const relation = name !== undefined ? this.naming.resolveType(name) ?? this.resolveProperty(name) : undefined;
+    if (relation && (isUnreifiedRelation(relation) || (isReverseRelation(relation) && isUnreifiedRelation(relation.$container)))) {
+      return (row, column) => this.getRelatedInstances(row, relation as SemanticProperty).includes(column) ? ['x'] : [];
+    }
+    if (relation && !isRelationEntity(relation) && !isForwardRelation(relation) && !isReverseRelation(relation)) {
+      throw new Error(`'${name}' is not a relation entity or relation`);
+    }
+    const entity = relation && (isForwardRelation(relation) || isReverseRelation(relation)) ? relation.$container as Entity : relation as Entity | undefined;
+    const reverse = relation !== undefined && isReverseRelation(relation);
+    const relationInstances = this.instances
+      .filter((instance): instance is RelationInstance => isRelationInstance(instance))
+      .filter(instance => !entity || this.closure.getAllTypes(instance).has(entity));
+    return (row, column) => {
+      const [source, target] = reverse ? [column, row] : [row, column];
+      return relationInstances
+        .filter(instance => this.closure.getContributions<RelationInstance>(instance).some(member =>
+          member.sources.some(s => s.ref && resolveMember(s.ref) === source) && member.targets.some(t => t.ref && resolveMember(t.ref) === target)))
+        .map(instance => this.getInstanceName(instance));
+    };
+  }
+
+  protected getRelatedInstances(instance: NamedInstance, property: SemanticProperty): NamedInstance[] {
+    return this.closure.getPropertyValues(instance, property)
+      .map(value => this.toNamedInstance(value.instance))
+      .filter(related => related !== undefined);
+  }
+
+  /**
+   * Returns a named value, or the target of an anonymous relation instance.
+   */
+  protected toNamedInstance(value: AstNode | undefined): NamedInstance | undefined {
+    if (isConceptInstance(value) || isRelationInstance(value)) {
+      return resolveMember(value);
+    }
+    if (isAnonymousRelationInstance(value) && value.target?.ref) {
+      return resolveMember(value.target.ref);
+    }
+    return undefined;
+  }
+
+  protected getInstanceName(instance: NamedInstance): string {
+    const description = instance.$container;
+    return this.descriptions.includes(description as Description) ? instance.name ?? '' : `${description.prefix}:${instance.name}`;
+  }
+}
+
+/**
+ * Which columns of a CSV table hold the names, types, property values and related instances of the
+ * concept instances to import.
+ */
+export interface CsvImportMapping {
+  /** The column holding the instance names (OML identifiers) */
+  nameColumn: string;
+  /** The type of every instance, a simple or qualified concept or aspect name */
+  type?: string;
+  /** The column holding the type(s) of each instance, instead of or in addition to `type` */
+  typeColumn?: string;
+  /** The scalar property of each column, e.g. `{ "Title": "requirement:title" }` */
+  properties?: Record<string, string>;
+  /** The relation of each column whose cells hold instance names, e.g. `{ "Satisfies": "requirement:satisfies" }` */
+  relations?: Record<string, string>;
+  /** Separates several values in one cell. Default: `;` */
+  separator?: string;
+  delimiter?: string;
+}
+
+export interface CsvImportOptions {
+  mapping: CsvImportMapping;
+  /** The linked documents of the workspace: they declare the names used by the mapping and the cells */
+  documents: LangiumDocument[];
+  /** The directory searched for the playbook and the descriptions rows are routed to */
+  workspace: string;
+  /** The description file all rows go into; when omitted, each row is routed by its type */
+  target?: string;
+  /** The namespace of the target description, when it does not exist yet */
+  namespace?: string;
+  /** The prefix of the target description, when it does not exist yet. Default: the file name */
+  prefix?: string;
+  /** The methodology playbook routing the rows. Default: the one found from the target or the workspace */
+  playbookPath?: string;
+}
+
+/**
+ * A row of the CSV table that is not imported.
+ */
+export interface CsvImportRowError {
+  /** The line of the row in the CSV text (the header being line 1) */
+  line: number;
+  name?: string;
+  message: string;
+}
+
+export interface CsvImportFile {
+  path: string;
+  /** Whether the description is new */
+  created: boolean;
+  instances: string[];
+  /** The text of the description with the instances and the imports they need */
+  content: string;
+}
+
+export interface CsvImportPlan {
+  /** The descriptions that get instances */
+  files: CsvImportFile[];
+  errors: CsvImportRowError[];
+  /** The number of data rows of the table */
+  rows: number;
+}
+
+/**
+ * Plans the import of the rows of a CSV table as concept instances: each row becomes an instance,
+ * with property values converted to the range of their property, relations to other rows or to
+ * existing instances, and the imports they need. Names resolve against the workspace documents,
+ * qualified by prefix or, when unambiguous, simple. Without a target, each row goes to the
+ * description the playbook routes its type to (see `routeInstanceType`); with one, rows whose type
+ * the playbook does not allow there are rejected.
+ *
+ * Problems with the table or the mapping are thrown; problems with a row are reported and the row
+ * is left out. Nothing is written: the plan holds the new text of each description.
+ */
+export function planInstancesCsvImport(text: string, options: CsvImportOptions): CsvImportPlan {
+  return new InstanceTableImporter(options).plan(parseCsv(text, options.mapping.delimiter ?? ','));
+}
+
+const ID_PATTERN = /^[a-zA-Z0-9\-_.~%][a-zA-Z0-9\-_.~%$]*$/;
+
+type MemberKind = (node: AstNode) => boolean;
+
+const isEntityType: MemberKind = node => isConcept(node) || isAspect(node);
+const isScalarPropertyType: MemberKind = node => isScalarProperty(node) || isAnnotationProperty(node);
+const isRelationType: MemberKind = node => isUnreifiedRelation(node) || isForwardRelation(node) || isReverseRelation(node);
+const isNamedInstance: MemberKind = node => isConceptInstance(node) || isRelationInstance(node);
+
+type NamedMember = AstNode & { name: string };
+
+interface ImportTarget {
+  path: string;
+  prefix: string;
+  namespace: string;
+  /** The description, unless it is to be created */
+  description?: Description;
+}
+
+interface ImportRow {
+  record: CsvRecord;
+  name: string;
+  types: NamedMember[];
+  target: ImportTarget;
+  /** The types as referenced from the target */
+  typeNames: string[];
+  /** The property values, as `property value, ...` */
+  lines: string[];
+  /** The imports the row needs, by namespace */
+  imports: Map<string, string>;
+}
+
+class InstanceTableImporter {
+
+  protected readonly ontologies: Ontology[];
+  /** The members declared in the workspace, by name */
+  protected readonly members = new Map<string, NamedMember[]>();
+  protected readonly targets = new Map<string, ImportTarget>();
+
+  constructor(protected readonly options: CsvImportOptions) {
+    this.ontologies = options.documents.map(document => document.parseResult.value).filter(isOntology);
+    for (const ontology of this.ontologies) {
+      for (const statement of (ontology as { ownedStatements?: AstNode[] }).ownedStatements ?? []) {
+        if (resolveMember(statement) !== statement) {
+          continue;
+        }
+        const relations = isRelationEntity(statement) ? [statement.forwardRelation, statement.reverseRelation]
+          : isUnreifiedRelation(statement) ? [statement.reverseRelation]
+          : [];
+        for (const member of [statement, ...relations]) {
+          const name = (member as { name?: string } | undefined)?.name;
+          if (member && name) {
+            this.members.set(name, [...this.members.get(name) ?? [], member as NamedMember]);
+          }
+        }
+      }
+    }
+  }
+
+  plan(table: CsvTable): CsvImportPlan {
+    const { mapping } = this.options;
+    const separator = mapping.separator ?? ';';
+    const columns = [mapping.nameColumn, mapping.typeColumn, ...Object.keys(mapping.properties ?? {}), ...Object.keys(mapping.relations ?? {})];
+    const missing = columns.filter((column): column is string => column !== undefined && !table.columns.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`Column(s) not in the table: ${missing.join(', ')}. Columns: ${table.columns.join(', ')}`);
+    }
+    if (!mapping.type && !mapping.typeColumn) {
+      throw new Error('The mapping needs a type or a typeColumn.');
+    }
+
+    const fixedTarget = this.options.target ? this.getTarget(this.options.target) : undefined;
+    if (fixedTarget && !fixedTarget.description && !this.options.namespace) {
+      throw new Error(`Description not found at ${fixedTarget.path}. Give a namespace to create it.`);
+    }
+    const playbookPath = this.options.playbookPath
+      ?? (fixedTarget ? findPlaybookFromDescription(fixedTarget.path) : findPlaybook(this.options.workspace))
+      ?? undefined;
+
+    const context = fixedTarget?.description;
+    const properties = Object.entries(mapping.properties ?? {}).map(([column, name]) => {
+      const property = this.resolve(name, isScalarPropertyType, context);
+      if (typeof property === 'string') {
+        throw new Error(`Property "${name}" of column "${column}": ${property}`);
+      }
+      return { column, property, convert: this.getLiteralConverter(property) };
+    });
+    const relations = Object.entries(mapping.relations ?? {}).map(([column, name]) => {
+      const relation = this.resolve(name, isRelationType, context);
+      if (typeof relation === 'string') {
+        throw new Error(`Relation "${name}" of column "${column}": ${relation}`);
+      }
+      return { column, relation };
+    });
+
+    // First pass: names, types and targets, so that relation cells can refer to any row
+    const errors: CsvImportRowError[] = [];
+    const rows: ImportRow[] = [];
+    const rowLines = new Map<string, number>();
+    for (const record of table.records) {
+      const name = record.values[mapping.nameColumn].trim();
+      const fail = (message: string) => errors.push({ line: record.line, ...(name ? { name } : {}), message });
+      if (!name) {
+        fail(`No name in column "${mapping.nameColumn}"`);
+        continue;
+      }
+      if (!ID_PATTERN.test(name)) {
+        fail(`"${name}" is not a valid OML name`);
+        continue;
+      }
+      if (rowLines.has(name)) {
+        fail(`Duplicate name, already on line ${rowLines.get(name)}`);
+        continue;
+      }
+      rowLines.set(name, record.line);
+
+      const typeNames = [...(mapping.type ? [mapping.type] : []), ...split(mapping.typeColumn ? record.values[mapping.typeColumn] : '', separator)];
+      if (typeNames.length === 0) {
+        fail(`No type in column "${mapping.typeColumn}"`);
+        continue;
+      }
+      const types = typeNames.map(typeName => this.resolve(typeName, isEntityType, context));
+      const unresolved = types.findIndex(type => typeof type === 'string');
+      if (unresolved >= 0) {
+        fail(`Type "${typeNames[unresolved]}": ${types[unresolved]}`);
+        continue;
+      }
+
+      const type = this.getCanonicalName(types[0] as NamedMember);
+      const routing = routeInstanceType(type, { playbookPath, workspacePath: this.options.workspace });
+      let target: ImportTarget;
+      if (fixedTarget) {
+        const entry = routing.routings.find(r => r.exists && path.resolve(r.absolutePath) === path.resolve(fixedTarget.path));
+        if (entry && !entry.isAllowed) {
+          const allowed = routing.recommended ? ` Use ${this.relative(routing.recommended.absolutePath)} instead.` : '';
+          fail(`The playbook does not allow ${type} in ${this.relative(fixedTarget.path)}.${allowed}`);
+          continue;
+        }
+        target = fixedTarget;
+      } else if (routing.recommended) {
+        try {
+          target = this.getTarget(routing.recommended.absolutePath);
+        } catch (error) {
+          fail(error instanceof Error ? error.message : String(error));
+          continue;
+        }
+      } else {
+        fail(`No description to route ${type} to: ${routing.explanation.split('\n')[0]}`);
+        continue;
+      }
+      if (target.description && findNamedInstance(target.description, name)) {
+        fail(`Instance already exists in ${this.relative(target.path)}`);
+        continue;
+      }
+      rows.push({ record, name, types: types as NamedMember[], target, typeNames: [], lines: [], imports: new Map() });
+    }
+
+    // Second pass: property values and related instances
+    const rowTargets = new Map(rows.map(row => [row.name, row.target]));
+    const imported: ImportRow[] = [];
+    for (const row of rows) {
+      const { target } = row;
+      const problems: string[] = [];
+      row.typeNames = row.types.map(type => this.getReference(type, row));
+      for (const { column, property, convert } of properties) {
+        const values: string[] = [];
+        for (const value of split(row.record.values[column], separator)) {
+          try {
+            values.push(convert(value));
+          } catch (error) {
+            problems.push(`Column "${column}": ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+        if (values.length > 0) {
+          row.lines.push(`${this.getReference(property, row)} ${values.join(', ')}`);
+        }
+      }
+      for (const { column, relation } of relations) {
+        const values: string[] = [];
+        for (const value of split(row.record.values[column], separator)) {
+          const related = rowTargets.get(value);
+          if (related === target) {
+            values.push(value);
+          } else if (related !== undefined) {
+            values.push(`${related.prefix}:${value}`);
+            row.imports.set(related.namespace, `extends <${related.namespace}> as ${related.prefix}`);
+          } else if (!value.includes(':') && target.description && findNamedInstance(target.description, value)) {
+            values.push(value);
+          } else if (rowLines.has(value)) {
+            problems.push(`Column "${column}": "${value}" is on line ${rowLines.get(value)}, which is not imported`);
+          } else {
+            const instance = this.resolve(value, isNamedInstance, target.description);
+            if (typeof instance === 'string') {
+              problems.push(`Column "${column}": instance "${value}" ${instance}`);
+            } else {
+              values.push(this.getReference(instance, row));
+            }
+          }
+        }
+        if (values.length > 0) {
+          row.lines.push(`${this.getReference(relation, row)} ${values.join(', ')}`);
+        }
+      }
+      if (problems.length > 0) {
+        errors.push(...problems.map(message => ({ line: row.record.line, name: row.name, message })));
+      } else {
+        imported.push(row);
+      }
+    }
+    errors.sort((a, b) => a.line - b.line);
+
+    const files: CsvImportFile[] = [];
+    for (const target of this.targets.values()) {
+      const targetRows = imported.filter(row => row.target === target);
+      if (targetRows.length > 0) {
+        files.push({
+          path: target.path,
+          created: !target.description,
+          instances: targetRows.map(row => row.name),
+          content: this.getContent(target, targetRows)
+        });
+      }
+    }
+    return { files, errors, rows: table.records.length };
+  }
+
+  protected getTarget(filePath: string): ImportTarget {
+    const resolved = path.resolve(filePath);
+    let target = this.targets.get(resolved);
+    if (!target) {
+      const document = this.options.documents.find(d => path.resolve(d.uri.fsPath) === resolved);
+      const root = document?.parseResult.value;
+      if (root && !isDescription(root)) {
+        throw new Error(`${this.relative(resolved)} is not a description`);
+      }
+      if (!root && fs.existsSync(resolved)) {
+        throw new Error(`${this.relative(resolved)} is not loaded with the workspace`);
+      }
+      target = root
+        ? { path: resolved, prefix: root.prefix, namespace: root.namespace, description: root }
+        : { path: resolved, prefix: this.options.prefix ?? toPrefix(resolved), namespace: (this.options.namespace ?? '').replace(/^<|>$/g, '') };
+      this.targets.set(resolved, target);
+    }
+    return target;
+  }
+
+  protected relative(filePath: string): string {
+    return path.relative(this.options.workspace, filePath);
+  }
+
+  /**
+   * Finds the workspace member of a name, either `prefix:name` (the prefix of its ontology or of an
+   * import of the context) or a simple name declared once. Returns why it cannot be found otherwise.
+   */
+  protected resolve(name: string, kind: MemberKind, context?: Description): NamedMember | string {
+    const separator = name.indexOf(':');
+    const prefix = separator >= 0 ? name.substring(0, separator) : undefined;
+    const candidates = (this.members.get(separator >= 0 ? name.substring(separator + 1) : name) ?? []).filter(kind);
+    const matches = prefix === undefined ? candidates : candidates.filter(member => {
+      const ontology = getOntology(member);
+      return ontology.prefix.replace(/^\^/, '') === prefix || context?.ownedImports.some(i => i.prefix === prefix && i.imported?.ref === ontology);
+    });
+    if (matches.length === 1) {
+      return matches[0];
+    }
+    if (matches.length > 1) {
+      return `is ambiguous, use one of ${matches.map(member => this.getCanonicalName(member)).join(', ')}`;
+    }
+    return 'not found';
+  }
+
+  /**
+   * Returns the name of a member in the description of a row, noting the import it needs.
+   */
+  protected getReference(member: NamedMember, row: ImportRow): string {
+    const ontology = getOntology(member);
+    const { description } = row.target;
+    if (ontology === description) {
+      return member.name;
+    }
+    const existing = description?.ownedImports.find(i => i.imported?.ref === ontology);
+    if (existing) {
+      return `${existing.prefix ?? ontology.prefix}:${member.name}`;
+    }
+    const kind = getExpectedImportKind('Description', ontology.$type);
+    if (kind) {
+      row.imports.set(ontology.namespace, `${kind} <${ontology.namespace}> as ${ontology.prefix}`);
+    }
+    return `${ontology.prefix}:${member.name}`;
+  }
+
+  protected getCanonicalName(member: NamedMember): string {
+    return `${getOntology(member).prefix.replace(/^\^/, '')}:${member.name}`;
+  }
+
+  /**
+   * Returns how the cells of a scalar property column become literals, from the range of the
+   * property; cells of properties without a scalar range are quoted.
+   */
+  protected getLiteralConverter(property: NamedMember): (value: string) => string {
+    const closure = new OntologyClosure(getOntology(property));
+    const range = closure.getRanges(property as SemanticProperty).find(isScalar);
+    if (!range) {
+      return value => quoteOmlString(value);
+    }
+    const type = getJsonScalarType(range, closure);
+    const enumeration = getJsonEnumeration(range, closure);
+    return value => {
+      let literal: string;
+      let jsonValue: JsonLiteral = value;
+      if (type === 'integer') {
+        if (!/^[+-]?\d+$/.test(value)) throw new Error(`"${value}" is not an integer`);
+        literal = value;
+      } else if (type === 'number') {
+        if (!/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(value)) throw new Error(`"${value}" is not a number`);
+        literal = value;
+      } else if (type === 'boolean') {
+        if (!/^(true|false)$/i.test(value)) throw new Error(`"${value}" is not true or false`);
+        literal = value.toLowerCase();
+        jsonValue = literal === 'true';
+      } else {
+        literal = quoteOmlString(value);
+      }
+      if (enumeration && !enumeration.some(allowed => String(allowed) === String(jsonValue))) {
+        throw new Error(`"${value}" is not one of ${enumeration.map(allowed => JSON.stringify(allowed)).join(', ')}`);
+      }
+      return literal;
+    };
+  }
+
+  /**
+   * Returns the text of a target with the instances of its rows before the closing brace and their
+   * imports after the existing ones.
+   */
+  protected getContent(target: ImportTarget, rows: ImportRow[]): string {
+    const { description } = target;
+    let text = description?.$document?.textDocument.getText()
+      ?? `description <${target.namespace}> as ${getKeywords().has(target.prefix) ? `^${target.prefix}` : target.prefix} {\n}\n`;
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const indent = text.match(/^([ \t]+)\S/m)?.[1] ?? '    ';
+
+    const existing = new Set(description?.ownedImports.map(i => i.imported?.ref?.namespace ?? i.imported?.$refText) ?? []);
+    const imports = [...new Map(rows.flatMap(row => [...row.imports])).entries()]
+      .filter(([namespace]) => !existing.has(namespace))
+      .map(([, statement]) => statement)
+      .sort((a, b) => a.localeCompare(b, 'en'));
+    if (imports.length > 0) {
+      // After the last import or, leaving a blank line, after the opening brace
+      const lastImport = description?.ownedImports.at(-1)?.$cstNode;
+      const brace = description?.$cstNode && GrammarUtils.findNodeForKeyword(description.$cstNode, '{');
+      const offset = lastImport?.end ?? brace?.end ?? text.indexOf('{') + 1;
+      text = text.substring(0, offset) + (lastImport ? '' : eol) + imports.map(statement => `${eol}${indent}${statement}`).join('') + text.substring(offset);
+    }
+
+    const instances = rows.map(row => {
+      const types = row.typeNames.join(', ');
+      const block = row.lines.length > 0 ? ` [${eol}${row.lines.map(line => `${indent}${indent}${line}`).join(eol)}${eol}${indent}]` : '';
+      return `${indent}instance ${row.name} : ${types}${block}`;
+    });
+    const closing = text.lastIndexOf('}');
+    const head = text.substring(0, closing).trimEnd();
+    return `${head}${eol}${eol}${instances.join(eol + eol)}${eol}${text.substring(closing)}`;
+  }
+}
+
+function getOntology(member: AstNode): Ontology {
+  return AstUtils.findRootNode(member) as Ontology;
+}
+
+function findNamedInstance(description: Description, name: string): AstNode | undefined {
+  return description.ownedStatements.find(statement => isNamedInstance(statement) && (statement as NamedInstance).name === name);
+}
+
+function split(cell: string, separator: string): string[] {
+  return cell.split(separator).map(value => value.trim()).filter(value => value !== '');
+}
+
+function toPrefix(filePath: string): string {
+  const name = path.basename(filePath, path.extname(filePath)).replace(/[^\w.-]/g, '_');
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+}
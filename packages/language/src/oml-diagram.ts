@@ -602,8 +602,6 @@ export async function computeDiagramModel(shared: LangiumSharedServices, uri: st
     const root: any = document.parseResult.value;
     const ctx = new DiagramContext(root);
 
-    console.log("URI called: ", uri)
-
     if (isVocabulary(root)) {
         return buildVocabularyDiagram(root, ctx);
     } else if (isDescription(root)) {
@@ -0,0 +1,573 @@
+/**
+ * OML Diff
+ * Compares two versions of a set of ontologies by their parsed ASTs rather than their text,
+ * so that reordered statements, reformatting and comments do not show up as changes.
+ *
+ * Ontologies are matched by namespace and their members by IRI. The axioms, annotations and
+ * property values of a member (including those added by `ref` statements) are compared as sets
+ * of canonical forms in which references are replaced by the IRIs they resolve to. Changes that
+ * can break ontologies or data depending on the old version are classified with the reference
+ * categories of impact analysis.
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AstNode, LangiumDocument, Reference } from 'langium';
+import { AstUtils, EmptyFileSystem, isAstNode, isReference, URI } from 'langium';
+import { isDescription, isDescriptionBundle, isOntology, isVocabulary } from './generated/ast.js';
+import type { Annotation, Import, Ontology } from './generated/ast.js';
+import { createOmlServices } from './oml-module.js';
+import { getMemberIri } from './oml-owl.js';
+import { getReferenceImpactType } from './oml-semantics.js';
+import type { ReferenceImpactType } from './oml-semantics.js';
+
+/**
+ * The text of an OML file of one version, with its path (used in messages only).
+ */
+export interface OntologySource {
+  path: string;
+  text: string;
+}
+
+export interface ParsedOntologies {
+  ontologies: Ontology[];
+  /** Syntax errors, as `path:line: message` */
+  errors: string[];
+}
+
+export type SemanticChangeKind = 'added' | 'removed' | 'changed';
+export type SemanticElement = 'ontology' | 'import' | 'term' | 'rule' | 'instance' | 'axiom' | 'annotation' | 'property value';
+
+export interface SemanticChange {
+  change: SemanticChangeKind;
+  element: SemanticElement;
+  /** Namespace of the ontology */
+  ontology: string;
+  /** Abbreviated IRI of the member, for changes inside a member */
+  member?: string;
+  /** The element before the change (for removals and changes) */
+  before?: string;
+  /** The element after the change (for additions and changes) */
+  after?: string;
+  /**
+   * Categories of the references the change can break; absent for non-breaking changes. For a
+   * removed member, these are the categories of its references in the old version.
+   */
+  breaking?: ReferenceImpactType[];
+  /** Number of references to a removed member in the old version */
+  references?: number;
+}
+
+export interface SemanticDiff {
+  changes: SemanticChange[];
+  summary: { added: number; removed: number; changed: number; breaking: number };
+}
+
+/**
+ * One version to compare: a file or directory, read from the file system or, with a revision,
+ * from the git repository containing it.
+ */
+export interface SemanticDiffInput {
+  path: string;
+  revision?: string;
+}
+
+export interface SemanticDiffResult {
+  diff: SemanticDiff;
+  /** Syntax errors in either version; the ontologies with errors are compared as far as they parse */
+  errors: string[];
+}
+
+/**
+ * Reads, parses and compares two versions.
+ */
+export async function computeSemanticDiff(oldInput: SemanticDiffInput, newInput: SemanticDiffInput): Promise<SemanticDiffResult> {
+  const oldVersion = await parseOntologySources(readOntologySources(oldInput));
+  const newVersion = await parseOntologySources(readOntologySources(newInput));
+  return {
+    diff: diffOntologies(oldVersion.ontologies, newVersion.ontologies),
+    errors: [...oldVersion.errors.map(e => `old: ${e}`), ...newVersion.errors.map(e => `new: ${e}`)],
+  };
+}
+
+/**
+ * Reads the OML files of one version of a file or directory.
+ */
+export function readOntologySources(input: SemanticDiffInput): OntologySource[] {
+  const target = path.resolve(input.path);
+  if (input.revision) {
+    return readRevisionSources(target, input.revision);
+  }
+  if (!fs.existsSync(target)) {
+    throw new Error(`${input.path} does not exist`);
+  }
+  if (fs.statSync(target).isDirectory()) {
+    return listOmlFiles(target).map(file => ({ path: path.relative(target, file), text: fs.readFileSync(file, 'utf-8') }));
+  }
+  return [{ path: path.basename(target), text: fs.readFileSync(target, 'utf-8') }];
+}
+
+function readRevisionSources(target: string, revision: string): OntologySource[] {
+  // The path may no longer exist in the working tree, so start from its closest existing ancestor
+  let existing = target;
+  while (!fs.existsSync(existing)) {
+    existing = path.dirname(existing);
+  }
+  const realTarget = path.join(fs.realpathSync(existing), path.relative(existing, target));
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync('git', args, { cwd, encoding: 'utf-8', maxBuffer: 256 * 1024 * 1024, stdio: ['ignore', 'pipe', 'pipe'] });
+  let root: string;
+  try {
+    root = git(fs.statSync(existing).isDirectory() ? existing : path.dirname(existing), 'rev-parse', '--show-toplevel').trim();
+    git(root, 'rev-parse', '--verify', '--quiet', `${revision}^{commit}`);
+  } catch {
+    throw new Error(`'${revision}' is not a revision of a git repository containing ${target}`);
+  }
+  const relative = path.relative(root, realTarget).split(path.sep).join('/') || '.';
+  return git(root, 'ls-tree', '-r', '--name-only', revision, '--', relative)
+    .split('\n')
+    .filter(file => file.endsWith('.oml'))
+    .map(file => ({ path: file, text: git(root, 'show', `${revision}:${file}`) }));
+}
+
+/**
+ * The OML files under a directory, skipping hidden, node_modules and build directories.
+ */
+function listOmlFiles(directory: string): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      return entry.name.startsWith('.') || entry.name === 'node_modules' || entry.name === 'build' ? [] : listOmlFiles(entryPath);
+    }
+    return entry.isFile() && entry.name.endsWith('.oml') ? [entryPath] : [];
+  }).sort();
+}
+
+/**
+ * Parses the files of one version in a workspace of their own, so that two versions of the
+ * same ontologies can be loaded side by side, and links them to each other.
+ */
+export async function parseOntologySources(sources: OntologySource[]): Promise<ParsedOntologies> {
+  const services = createOmlServices(EmptyFileSystem).Oml;
+  const documents: LangiumDocument[] = [];
+  for (const source of sources) {
+    const uri = URI.from({ scheme: 'oml-snapshot', path: `/${source.path.replace(/\\/g, '/').replace(/^\/+/, '')}` });
+    const document = services.shared.workspace.LangiumDocumentFactory.fromString(source.text, uri);
+    services.shared.workspace.LangiumDocuments.addDocument(document);
+    documents.push(document);
+  }
+  await services.shared.workspace.DocumentBuilder.build(documents, { validation: false });
+
+  const errors: string[] = [];
+  const ontologies: Ontology[] = [];
+  documents.forEach((document, index) => {
+    const { lexerErrors, parserErrors, value } = document.parseResult;
+    for (const error of lexerErrors) {
+      errors.push(`${sources[index].path}:${error.line ?? 0}: ${error.message}`);
+    }
+    for (const error of parserErrors) {
+      errors.push(`${sources[index].path}:${Number.isNaN(error.token.startLine) ? 0 : error.token.startLine}: ${error.message}`);
+    }
+    if (isOntology(value) && value.namespace) {
+      ontologies.push(value);
+    }
+  });
+  return { ontologies, errors };
+}
+
+/**
+ * Compares the ontologies of an old and a new version.
+ */
+export function diffOntologies(oldOntologies: Ontology[], newOntologies: Ontology[]): SemanticDiff {
+  return new OntologyDiffer(oldOntologies, newOntologies).diff();
+}
+
+/**
+ * Formats a diff as text: a section per ontology with a line per change, prefixed with `+`
+ * (added), `-` (removed) or `~` (changed), and a summary.
+ */
+export function formatSemanticDiff(diff: SemanticDiff): string {
+  if (diff.changes.length === 0) {
+    return 'No semantic changes.\n';
+  }
+  const lines: string[] = [];
+  let ontology: string | undefined;
+  for (const change of diff.changes) {
+    if (change.ontology !== ontology) {
+      ontology = change.ontology;
+      lines.push(...(lines.length > 0 ? [''] : []), `<${ontology}>`);
+    }
+    lines.push(`  ${formatSemanticChange(change)}`);
+  }
+  const { added, removed, changed, breaking } = diff.summary;
+  lines.push('', `${added} added, ${removed} removed, ${changed} changed (${breaking} breaking)`);
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Formats a change as a single line.
+ */
+export function formatSemanticChange(change: SemanticChange): string {
+  const sign = change.change === 'added' ? '+' : change.change === 'removed' ? '-' : '~';
+  const subject = change.member ? `${change.member}: ` : '';
+  const text = change.change === 'changed'
+    ? `${change.before} → ${change.after}`
+    : change.after ?? change.before ?? '';
+  const references = change.references ? `, ${change.references} reference(s)` : '';
+  const breaking = change.breaking ? ` [breaking: ${change.breaking.join(', ')}${references}]` : '';
+  return `${sign} ${change.element} ${subject}${text}${breaking}`;
+}
+
+/**
+ * An axiom, annotation or property value of a member, or an import or annotation of an ontology.
+ */
+interface DiffItem {
+  element: SemanticElement;
+  /** Identifies the item across versions, regardless of formatting and import prefixes */
+  canonical: string;
+  /** Pairs a removed and an added item as a change (e.g. the values of the same property) */
+  key?: string;
+  /** The canonical form with references as written, to compare items with unresolved references */
+  written: string;
+  /** Whether the item has a reference that does not resolve, and so is canonical as written */
+  unresolved?: boolean;
+  display: string;
+  /** Category of the references that removing or changing the item can break */
+  impact?: ReferenceImpactType;
+  /** Whether adding the item constrains existing users (restrictions, keys, domains) */
+  constraining?: boolean;
+}
+
+/**
+ * The statements of an ontology about one member: its declaration and `ref` statements.
+ */
+interface DiffMember {
+  iri: string;
+  label: string;
+  declaration?: AstNode;
+  statements: AstNode[];
+}
+
+const TERM_TYPES = new Set(['Aspect', 'Concept', 'RelationEntity', 'UnreifiedRelation', 'Scalar', 'ScalarProperty', 'AnnotationProperty']);
+const INSTANCE_TYPES = new Set(['ConceptInstance', 'RelationInstance']);
+const CONSTRAINING_TYPES = new Set([
+  'PropertyRangeRestrictionAxiom', 'PropertyCardinalityRestrictionAxiom', 'PropertyValueRestrictionAxiom', 'PropertySelfRestrictionAxiom', 'KeyAxiom'
+]);
+const IGNORED_PROPERTIES = new Set(['name', 'ref', 'namespace', 'prefix', 'ownedImports', 'ownedStatements']);
+
+class OntologyDiffer {
+
+  protected readonly changes: SemanticChange[] = [];
+  protected references?: Map<AstNode, Map<ReferenceImpactType, number>>;
+
+  constructor(protected readonly oldOntologies: Ontology[], protected readonly newOntologies: Ontology[]) {}
+
+  diff(): SemanticDiff {
+    const oldByNamespace = byNamespace(this.oldOntologies);
+    const newByNamespace = byNamespace(this.newOntologies);
+    const namespaces = [...new Set([...oldByNamespace.keys(), ...newByNamespace.keys()])].sort();
+    for (const namespace of namespaces) {
+      const oldOntology = oldByNamespace.get(namespace);
+      const newOntology = newByNamespace.get(namespace);
+      if (!oldOntology) {
+        this.add({ change: 'added', element: 'ontology', ontology: namespace, after: describeOntology(newOntology!) });
+      } else if (!newOntology) {
+        this.add({ change: 'removed', element: 'ontology', ontology: namespace, before: describeOntology(oldOntology), ...this.getBreaking(oldOntology) });
+      } else {
+        this.diffOntology(oldOntology, newOntology);
+      }
+    }
+    return {
+      changes: this.changes,
+      summary: {
+        added: this.changes.filter(c => c.change === 'added').length,
+        removed: this.changes.filter(c => c.change === 'removed').length,
+        changed: this.changes.filter(c => c.change === 'changed').length,
+        breaking: this.changes.filter(c => c.breaking).length,
+      },
+    };
+  }
+
+  protected diffOntology(oldOntology: Ontology, newOntology: Ontology): void {
+    const namespace = oldOntology.namespace;
+    if (oldOntology.$type !== newOntology.$type || oldOntology.prefix !== newOntology.prefix) {
+      // Importers that do not give a prefix of their own use the prefix of the ontology
+      this.add({ change: 'changed', element: 'ontology', ontology: namespace, before: describeOntology(oldOntology), after: describeOntology(newOntology), breaking: ['import'] });
+    }
+    this.diffItems(namespace, undefined, this.getOntologyItems(oldOntology), this.getOntologyItems(newOntology));
+
+    const oldMembers = this.getMembers(oldOntology);
+    const newMembers = this.getMembers(newOntology);
+    for (const [iri, oldMember] of oldMembers) {
+      const newMember = newMembers.get(iri);
+      const oldDeclaration = oldMember.declaration;
+      const newDeclaration = newMember?.declaration;
+      if (oldDeclaration && !newDeclaration) {
+        this.add({ change: 'removed', element: getElement(oldDeclaration), ontology: namespace, before: describeMember(oldDeclaration, oldMember.label), ...this.getBreaking(oldDeclaration) });
+      } else if (oldDeclaration && newDeclaration && oldDeclaration.$type !== newDeclaration.$type) {
+        this.add({
+          change: 'changed', element: getElement(newDeclaration), ontology: namespace,
+          before: describeMember(oldDeclaration, oldMember.label), after: describeMember(newDeclaration, newMember!.label), ...this.getBreaking(oldDeclaration)
+        });
+      }
+      if (oldDeclaration && !newDeclaration) {
+        continue;
+      }
+      this.diffItems(namespace, newMember?.label ?? oldMember.label, this.getMemberItems(oldMember), newMember ? this.getMemberItems(newMember) : []);
+    }
+    for (const [iri, newMember] of newMembers) {
+      if (oldMembers.has(iri)) {
+        continue;
+      }
+      if (newMember.declaration) {
+        this.add({ change: 'added', element: getElement(newMember.declaration), ontology: namespace, after: describeMember(newMember.declaration, newMember.label) });
+      }
+      this.diffItems(namespace, newMember.label, [], this.getMemberItems(newMember), !newMember.declaration);
+    }
+  }
+
+  /**
+   * Reports the items only in one version, pairing a removed and an added item with the same
+   * key as a change. Additions to a new member are only reported for `ref` statements, since
+   * the member itself is reported as added.
+   */
+  protected diffItems(ontology: string, member: string | undefined, oldItems: DiffItem[], newItems: DiffItem[], reportAdded = true): void {
+    const oldCanonicals = new Set(oldItems.map(item => item.canonical));
+    const newCanonicals = new Set(newItems.map(item => item.canonical));
+    const removed = oldItems.filter(item => !newCanonicals.has(item.canonical));
+    const added = newItems.filter(item => !oldCanonicals.has(item.canonical));
+    // A reference that resolves in one version only cannot be compared by IRI, so the item is
+    // left unchanged if both versions write it the same way
+    for (const item of [...removed]) {
+      const match = added.findIndex(other => (item.unresolved || other.unresolved) && other.written === item.written);
+      if (match >= 0) {
+        added.splice(match, 1);
+        removed.splice(removed.indexOf(item), 1);
+      }
+    }
+    for (const item of removed) {
+      const match = item.key !== undefined ? added.findIndex(other => other.key === item.key) : -1;
+      if (match >= 0) {
+        const [other] = added.splice(match, 1);
+        this.add({ change: 'changed', element: item.element, ontology, member, before: item.display, after: other.display, ...(item.impact ? { breaking: [item.impact] } : {}) });
+      } else {
+        this.add({ change: 'removed', element: item.element, ontology, member, before: item.display, ...(item.impact ? { breaking: [item.impact] } : {}) });
+      }
+    }
+    if (reportAdded) {
+      for (const item of added) {
+        this.add({ change: 'added', element: item.element, ontology, member, after: item.display, ...(item.constraining && item.impact ? { breaking: [item.impact] } : {}) });
+      }
+    }
+  }
+
+  protected getOntologyItems(ontology: Ontology): DiffItem[] {
+    const imports = ontology.ownedImports.map((imp: Import) => ({
+      element: 'import' as const,
+      canonical: `${imp.kind} ${imp.imported.$refText}`,
+      written: `${imp.kind} ${imp.imported.$refText}`,
+      display: getText(imp),
+      impact: 'import' as const,
+    }));
+    return [...imports, ...ontology.ownedAnnotations.map(annotation => this.getAnnotationItem(annotation))];
+  }
+
+  protected getMembers(ontology: Ontology): Map<string, DiffMember> {
+    const members = new Map<string, DiffMember>();
+    const statements: AstNode[] = isVocabulary(ontology) || isDescription(ontology) ? ontology.ownedStatements : [];
+    for (const statement of statements) {
+      const ref = (statement as { ref?: Reference }).ref;
+      const target = ref ? ref.ref : statement;
+      const iri = (target && getMemberIri(target)) ?? (ref ? ref.$refText : `${ontology.namespace}${(statement as { name?: string }).name ?? ''}`);
+      const member = members.get(iri) ?? { iri, label: target ? getLabel(target) : ref!.$refText, statements: [] };
+      member.statements.push(statement);
+      if (!ref) {
+        member.declaration = statement;
+      }
+      members.set(iri, member);
+    }
+    return members;
+  }
+
+  protected getMemberItems(member: DiffMember): DiffItem[] {
+    const items: DiffItem[] = [];
+    for (const statement of member.statements) {
+      const instance = INSTANCE_TYPES.has(statement.$type);
+      for (const [property, value] of Object.entries(statement)) {
+        if (property.startsWith('$') || IGNORED_PROPERTIES.has(property)) {
+          continue;
+        }
+        for (const element of Array.isArray(value) ? value : [value]) {
+          const item = this.getItem(statement, property, element, instance);
+          if (item) {
+            items.push(Array.isArray(value) && !isAstNode(element) ? { ...item, key: undefined } : item);
+          }
+        }
+      }
+    }
+    return items;
+  }
+
+  protected getItem(statement: AstNode, property: string, value: unknown, instance: boolean): DiffItem | undefined {
+    if (value === undefined || value === false || value === null) {
+      return undefined;
+    }
+    if (isReference(value)) {
+      return {
+        element: instance ? 'property value' : 'axiom',
+        canonical: `${property} ${canonicalize(value)}`,
+        key: property,
+        written: `${property} ${canonicalize(value, true)}`,
+        unresolved: !value.ref,
+        display: `${property} ${value.$refText}`,
+        impact: instance ? undefined : getReferenceImpactType(statement, property),
+        constraining: !instance,
+      };
+    }
+    if (isAstNode(value)) {
+      if (value.$type === 'Annotation') {
+        return this.getAnnotationItem(value as Annotation);
+      }
+      if (value.$type === 'PropertyValueAssertion') {
+        const propertyRef = (value as unknown as { property: Reference }).property;
+        return { element: 'property value', canonical: canonicalize(value), key: `property ${canonicalize(propertyRef)}`, display: getText(value), ...getWrittenForm(value) };
+      }
+      const propertyRef = (value as { property?: Reference }).property;
+      return {
+        element: 'axiom',
+        canonical: canonicalize(value),
+        key: CONSTRAINING_TYPES.has(value.$type) && propertyRef ? `${value.$type} ${canonicalize(propertyRef)}` : (Array.isArray((statement as unknown as Record<string, unknown>)[property]) ? undefined : property),
+        display: getText(value),
+        ...getWrittenForm(value),
+        impact: getReferenceImpactType(value, ''),
+        constraining: CONSTRAINING_TYPES.has(value.$type),
+      };
+    }
+    // Characteristics such as `functional`, constraining when added
+    const display = value === true ? property : `${property} ${String(value)}`;
+    return { element: 'axiom', canonical: display, key: property, display, written: display, impact: getReferenceImpactType(statement, property), constraining: !instance };
+  }
+
+  protected getAnnotationItem(annotation: Annotation): DiffItem {
+    return { element: 'annotation', canonical: canonicalize(annotation), key: `annotation ${canonicalize(annotation.property)}`, display: getText(annotation), ...getWrittenForm(annotation) };
+  }
+
+  /**
+   * Classifies the removal of a member or an ontology by the references to it in the old version,
+   * leaving out the references from within itself.
+   */
+  protected getBreaking(node: AstNode): Pick<SemanticChange, 'breaking' | 'references'> {
+    if (!this.references) {
+      this.references = new Map();
+      for (const ontology of this.oldOntologies) {
+        for (const container of AstUtils.streamAst(ontology)) {
+          for (const { reference, property } of AstUtils.streamReferences(container)) {
+            const target = isReference(reference) ? reference.ref : undefined;
+            if (!target) continue;
+            const type = getReferenceImpactType(container, property);
+            // Count the reference for the target and for the ontology containing it
+            for (const referenced of new Set([target, AstUtils.getContainerOfType(target, isOntology)])) {
+              if (referenced && !isInside(container, referenced)) {
+                const counts = this.references.get(referenced) ?? new Map<ReferenceImpactType, number>();
+                counts.set(type, (counts.get(type) ?? 0) + 1);
+                this.references.set(referenced, counts);
+              }
+            }
+          }
+        }
+      }
+    }
+    const counts = this.references.get(node);
+    if (!counts || counts.size === 0) {
+      return { breaking: [isOntology(node) ? 'import' : 'reference'] };
+    }
+    return { breaking: [...counts.keys()], references: [...counts.values()].reduce((sum, count) => sum + count, 0) };
+  }
+
+  protected add(change: SemanticChange): void {
+    this.changes.push(change);
+  }
+}
+
+function byNamespace(ontologies: Ontology[]): Map<string, Ontology> {
+  const result = new Map<string, Ontology>();
+  for (const ontology of ontologies) {
+    if (!result.has(ontology.namespace)) {
+      result.set(ontology.namespace, ontology);
+    }
+  }
+  return result;
+}
+
+function isInside(node: AstNode, container: AstNode): boolean {
+  for (let current: AstNode | undefined = node; current; current = current.$container) {
+    if (current === container) return true;
+  }
+  return false;
+}
+
+/**
+ * Returns a form of a node that is independent of formatting, of the order of its axioms and
+ * values and of import prefixes: references are replaced by the IRIs they resolve to, or kept
+ * as written when `asWritten` is set.
+ */
+function canonicalize(value: unknown, asWritten = false): string {
+  if (isReference(value)) {
+    if (asWritten) {
+      return `<${value.$refText}>`;
+    }
+    const iri = value.ref ? getMemberIri(value.ref) ?? (isOntology(value.ref) ? value.ref.namespace : undefined) : undefined;
+    return `<${iri ?? value.$refText}>`;
+  }
+  if (isAstNode(value)) {
+    const properties = Object.entries(value)
+      .filter(([property, v]) => !property.startsWith('$') && v !== undefined && v !== false && !(Array.isArray(v) && v.length === 0))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([property, v]) => `${property}=${canonicalize(v, asWritten)}`);
+    return `${value.$type}(${properties.join(',')})`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(v => canonicalize(v, asWritten)).sort().join(',')}]`;
+  }
+  return JSON.stringify(value);
+}
+
+function getWrittenForm(node: AstNode): Pick<DiffItem, 'written' | 'unresolved'> {
+  return { written: canonicalize(node, true), unresolved: hasUnresolvedReference(node) };
+}
+
+function hasUnresolvedReference(value: unknown): boolean {
+  if (isReference(value)) {
+    return !value.ref;
+  }
+  if (isAstNode(value)) {
+    return Object.entries(value).some(([property, v]) => !property.startsWith('$') && hasUnresolvedReference(v));
+  }
+  return Array.isArray(value) && value.some(hasUnresolvedReference);
+}
+
+function getText(node: AstNode): string {
+  return (node.$cstNode?.text ?? node.$type).replace(/\s+/g, ' ').trim();
+}
+
+function getLabel(member: AstNode): string {
+  const ontology = AstUtils.getContainerOfType(member, isOntology);
+  const name = (member as { name?: string }).name ?? '';
+  return ontology ? `${ontology.prefix}:${name}` : name;
+}
+
+function getElement(member: AstNode): SemanticElement {
+  if (TERM_TYPES.has(member.$type)) return 'term';
+  if (INSTANCE_TYPES.has(member.$type)) return 'instance';
+  return member.$type === 'Rule' || member.$type === 'BuiltIn' ? 'rule' : 'axiom';
+}
+
+function describeMember(member: AstNode, label: string): string {
+  return `${member.$type} ${label}`;
+}
+
+function describeOntology(ontology: Ontology): string {
+  const kind = isVocabulary(ontology) ? 'vocabulary' : isDescription(ontology) ? 'description' : isDescriptionBundle(ontology) ? 'description bundle' : 'vocabulary bundle';
+  return `${kind} ${ontology.prefix}`;
+}
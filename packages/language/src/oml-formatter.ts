@@ -0,0 +1,250 @@
+/**
+ * OML Formatter
+ * Normalizes layout of OML documents: indentation, blank lines between statements,
+ * bracket blocks, annotation placement and token spacing
+ *
+ * The rules are generic over the grammar: tokens on a line are separated by single spaces,
+ * punctuation is tightened, and selected children of `[ ... ]` blocks start a new indented line.
+ * Comments are preserved and re-indented with the code that follows them.
+ */
+
+import type { AstNode, CompositeCstNode, CstNode, LangiumDocument } from 'langium';
+import { CstUtils, isCompositeCstNode, isLeafCstNode, TextDocument } from 'langium';
+import { AbstractFormatter, Formatting } from 'langium/lsp';
+import type { FormattingAction, FormattingContext, LangiumServices, NodeFormatter } from 'langium/lsp';
+import type { FormattingOptions, TextEdit } from 'vscode-languageserver-protocol';
+import { isOntology, isRule } from './generated/ast.js';
+import type { Ontology } from './generated/ast.js';
+
+/**
+ * Keywords that start a new line when they appear directly inside a `[ ... ]` block.
+ */
+const LINE_KEYWORDS = new Set([
+  'from', 'to', 'domain', 'range',
+  'functional', 'inverse', 'symmetric', 'asymmetric', 'reflexive', 'irreflexive', 'transitive',
+  'length', 'minLength', 'maxLength', 'pattern', 'language',
+  'minInclusive', 'minExclusive', 'maxInclusive', 'maxExclusive'
+]);
+
+/**
+ * Containment properties whose elements start a new line inside a `[ ... ]` block.
+ */
+const LINE_PROPERTIES = new Set([
+  'ownedKeys', 'ownedEnumeration', 'forwardRelation', 'reverseRelation',
+  'ownedPropertyRestrictions', 'ownedPropertyValues'
+]);
+
+/**
+ * Move to a new line with one more level of indentation, leaving one blank line before.
+ */
+function indentWithBlankLine(): FormattingAction {
+  return { options: { priority: 1 }, moves: [{ tabs: 1, lines: 2 }] };
+}
+
+export class OmlFormatter extends AbstractFormatter {
+
+  protected format(node: AstNode): void {
+    const cst = node.$cstNode;
+    if (!cst || !isCompositeCstNode(cst)) {
+      return;
+    }
+    const formatter = this.getNodeFormatter(node);
+    const children = this.getContentNodes(node, cst).filter(child => !child.hidden);
+
+    this.formatSpacing(formatter, children);
+    this.formatAnnotations(node, formatter, children);
+    if (isOntology(node)) {
+      this.formatOntology(node, formatter, cst);
+    } else {
+      this.formatBlocks(node, formatter, children);
+    }
+  }
+
+  /**
+   * Unassigned rule calls (e.g. VocabularyStatement -> Type -> Entity -> Concept) wrap the
+   * tokens of an element in nested composite nodes; flatten them to the element's own tokens.
+   */
+  protected getContentNodes(node: AstNode, cst: CompositeCstNode): CstNode[] {
+    return cst.content.flatMap(child =>
+      isCompositeCstNode(child) && child.astNode === node ? this.getContentNodes(node, child) : [child]
+    );
+  }
+
+  /**
+   * Single spaces between tokens, tightened around punctuation.
+   */
+  protected formatSpacing(formatter: NodeFormatter<AstNode>, children: CstNode[]): void {
+    const tight = Formatting.noSpace({ priority: 1 });
+    for (let i = 1; i < children.length; i++) {
+      formatter.cst([children[i]]).prepend(Formatting.oneSpace({ priority: -1 }));
+    }
+    for (let i = 0; i < children.length; i++) {
+      const text = isLeafCstNode(children[i]) ? children[i].text : undefined;
+      const next = children[i + 1];
+      switch (text) {
+        case ',':
+        case ')':
+          formatter.cst([children[i]]).prepend(tight);
+          break;
+        case '(':
+          formatter.cst([children[i]]).prepend(tight);
+          if (next) formatter.cst([next]).prepend(tight);
+          break;
+        case '@':
+          if (next) formatter.cst([next]).prepend(tight);
+          break;
+        case '^^':
+        case '$':
+          formatter.cst([children[i]]).prepend(tight);
+          if (next) formatter.cst([next]).prepend(tight);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Each annotation of an element goes on its own line before the element.
+   */
+  protected formatAnnotations(node: AstNode, formatter: NodeFormatter<AstNode>, children: CstNode[]): void {
+    const annotations = (node as { ownedAnnotations?: AstNode[] }).ownedAnnotations ?? [];
+    for (const annotation of annotations) {
+      const index = children.findIndex(child => child === annotation.$cstNode);
+      const next = children[index + 1];
+      if (index >= 0 && next) {
+        formatter.cst([next]).prepend(Formatting.newLine({ priority: 1 }));
+      }
+    }
+  }
+
+  /**
+   * Ontology bodies: imports on consecutive lines, statements separated by one blank line.
+   */
+  protected formatOntology(ontology: Ontology, formatter: NodeFormatter<AstNode>, cst: CompositeCstNode): void {
+    const open = formatter.keyword('{');
+    const close = formatter.keyword('}');
+    formatter.interior(open, close).prepend(Formatting.indent());
+    close.prepend(Formatting.newLine({ priority: 1 }));
+
+    const statements = (ontology as { ownedStatements?: AstNode[] }).ownedStatements ?? [];
+    const first = ontology.ownedImports[0] ?? statements[0];
+    const content = this.getContentNodes(ontology, cst);
+    for (const statement of statements) {
+      if (!statement.$cstNode) {
+        continue;
+      }
+      // Comments directly above a statement stay attached to it; the blank line goes above them
+      const comments = this.getLeadingComments(content, content.indexOf(statement.$cstNode));
+      if (comments.length > 0) {
+        formatter.node(statement).prepend(Formatting.indent({ priority: 1 }));
+        if (statement !== first) {
+          formatter.cst([comments[0]]).prepend(indentWithBlankLine());
+        }
+      } else if (statement !== first) {
+        formatter.node(statement).prepend(indentWithBlankLine());
+      }
+    }
+  }
+
+  /**
+   * Returns the comments on their own lines directly before `content[index]`.
+   */
+  protected getLeadingComments(content: CstNode[], index: number): CstNode[] {
+    const comments: CstNode[] = [];
+    for (let i = index - 1; i >= 0 && content[i].hidden; i--) {
+      const previous = CstUtils.getPreviousNode(content[i], false);
+      if (previous && previous.range.end.line === content[i].range.start.line) {
+        break;
+      }
+      comments.unshift(content[i]);
+    }
+    return comments;
+  }
+
+  /**
+   * The default implementation only re-indents comments; this also normalizes the
+   * line breaks above a comment when a line formatting applies to it.
+   */
+  protected override createHiddenTextEdits(previous: CstNode | undefined, hidden: CstNode, formatting: FormattingAction | undefined, context: FormattingContext): TextEdit[] {
+    const edits = super.createHiddenTextEdits(previous, hidden, formatting, context);
+    const move = formatting?.moves.find(m => m.lines !== undefined);
+    if (!previous || !move?.lines || previous.range.end.line === hidden.range.start.line) {
+      return edits;
+    }
+    const indent = context.options.insertSpaces ? ' '.repeat(context.options.tabSize) : '\t';
+    const startLine = hidden.range.start.line;
+    return [
+      {
+        range: { start: previous.range.end, end: hidden.range.start },
+        newText: '\n'.repeat(move.lines) + indent.repeat(context.indentation + (move.tabs ?? 0))
+      },
+      ...edits.filter(edit => edit.range.start.line !== startLine)
+    ];
+  }
+
+  /**
+   * `[ ... ]` blocks: the opening bracket stays on the element line, line-starting children are
+   * indented on their own lines and the closing bracket goes on its own line.
+   */
+  protected formatBlocks(node: AstNode, formatter: NodeFormatter<AstNode>, children: CstNode[]): void {
+    let depth = 0;
+    let open: CstNode | undefined;
+    let lineStarts: CstNode[] = [];
+    for (let i = 0; i < children.length; i++) {
+      const child = children[i];
+      const text = isLeafCstNode(child) ? child.text : undefined;
+      if (text === '[') {
+        depth++;
+        open = child;
+        lineStarts = [];
+        formatter.cst([child]).prepend(Formatting.oneSpace({ priority: 1 }));
+      } else if (text === ']' && depth > 0) {
+        depth--;
+        for (const start of lineStarts) {
+          formatter.cst([start]).prepend(Formatting.indent({ priority: 1 }));
+        }
+        const empty = lineStarts.length === 0 && children[i - 1] === open;
+        formatter.cst([child]).prepend(empty ? Formatting.noSpace({ priority: 1 }) : Formatting.newLine({ priority: 1 }));
+      } else if (depth > 0 && this.isLineStart(node, child, children[i - 1], open)) {
+        lineStarts.push(child);
+      }
+    }
+  }
+
+  protected isLineStart(node: AstNode, child: CstNode, previous: CstNode | undefined, open: CstNode | undefined): boolean {
+    if (isLeafCstNode(child) && child.astNode === node) {
+      // 'inverse functional' stays on one line
+      return LINE_KEYWORDS.has(child.text) && !(child.text === 'functional' && previous?.text === 'inverse');
+    }
+    if (child.astNode !== node) {
+      if (isRule(node)) {
+        // Rule bodies: the whole implication goes on one line
+        return previous === open;
+      }
+      return LINE_PROPERTIES.has(child.astNode.$containerProperty ?? '');
+    }
+    return false;
+  }
+}
+
+
+/**
+ * Format a parsed OML document and return the formatted text.
+ * Used where no language client applies the edits (CLI, MCP tools).
+ */
+export async function formatOmlDocument(
+  services: LangiumServices,
+  document: LangiumDocument,
+  options: FormattingOptions = { tabSize: 4, insertSpaces: true }
+): Promise<string> {
+  const formatter = services.lsp.Formatter;
+  if (!formatter) {
+    return document.textDocument.getText();
+  }
+  const edits = await formatter.formatDocument(document, {
+    textDocument: { uri: document.uri.toString() },
+    options
+  });
+  const formatted = TextDocument.applyEdits(document.textDocument, edits);
+  // Inserted line breaks are '\n'; keep CRLF files consistent
+  return document.textDocument.getText().includes('\r\n') ? formatted.replace(/\r?\n/g, '\r\n') : formatted;
+}
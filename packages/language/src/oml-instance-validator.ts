@@ -0,0 +1,278 @@
+import type { AstNode, ValidationAcceptor } from 'langium';
+import { diagnosticData } from 'langium';
+import {
+    isAnonymousConceptInstance,
+    isConceptInstance,
+    isPropertyCardinalityRestrictionAxiom,
+    isPropertyRangeRestrictionAxiom,
+    isPropertySelfRestrictionAxiom,
+    isPropertyValueRestrictionAxiom,
+    isRelationEntity,
+    isRelationInstance,
+    isScalar,
+    isScalarProperty
+} from './generated/ast.js';
+import type {
+    AnonymousInstance,
+    Description,
+    Literal,
+    NamedInstance,
+    PropertyRestrictionAxiom,
+    PropertyValueAssertion,
+    RelationInstance,
+    Scalar
+} from './generated/ast.js';
+import { checkLiteral } from './oml-literals.js';
+import { OmlReasoner } from './oml-reasoner.js';
+import { OntologyClosure, resolveMember } from './oml-semantics.js';
+import type { PropertyValue } from './oml-semantics.js';
+import { IssueCodes } from './oml-validator.js';
+
+/**
+ * Semantic validation of description instances against the vocabularies they use:
+ * property domains and ranges, relation instance sources and targets, and the property
+ * restrictions of the instance types and their supertypes, and literal values against
+ * the range scalars of scalar properties (see oml-literals.ts).
+ *
+ * Values that may be asserted in other descriptions (lower bounds) are reported as warnings;
+ * values that contradict the vocabulary are reported as errors.
+ *
+ * Instance types and property values include those inferred by the vocabulary rules and
+ * equivalences (see oml-reasoner.ts). Domains and ranges are checked rather than used to infer types.
+ */
+export class OmlInstanceValidator {
+
+    checkDescriptionInstances(description: Description, accept: ValidationAcceptor): void {
+        const reasoner = new OmlReasoner(new OntologyClosure(description), { domainsAndRanges: false });
+        for (const instance of description.ownedStatements) {
+            if (isRelationInstance(instance)) {
+                this.checkRelationInstanceEnds(instance, reasoner, accept);
+            }
+            this.checkPropertyValues(instance, reasoner, accept);
+            // Restrictions apply to the instance as a whole, so only check them on its declaration
+            if (isConceptInstance(instance) || isRelationInstance(instance)) {
+                if (!instance.ref) {
+                    this.checkRestrictions(instance, reasoner, accept);
+                }
+            }
+        }
+    }
+
+    /**
+     * The sources and targets of a relation instance must be instances of the
+     * sources and targets of its relation entity types.
+     */
+    protected checkRelationInstanceEnds(instance: RelationInstance, reasoner: OmlReasoner, accept: ValidationAcceptor): void {
+        const relationEntities = reasoner.getTypes(instance).filter(isRelationEntity);
+        for (const relationEntity of relationEntities) {
+            for (const property of ['sources', 'targets'] as const) {
+                const expected = reasoner.closure.getContributions(relationEntity).flatMap(r => r[property]).map(r => r.ref).filter(isDefined);
+                instance[property].forEach((reference, index) => {
+                    const end = reference.ref;
+                    const missing = end ? this.getMissingTypes(end, expected, reasoner) : [];
+                    if (end && missing.length > 0) {
+                        const role = property === 'sources' ? 'source' : 'target';
+                        accept('error', `'${getName(end)}' is not an instance of ${formatNames(missing)}, the ${role} of relation entity '${getName(relationEntity)}'.`, {
+                            node: instance,
+                            property,
+                            index,
+                            data: diagnosticData(IssueCodes.RelationInstanceEnd)
+                        });
+                    }
+                });
+            }
+        }
+    }
+
+    /**
+     * Property values must respect the domain and range of their property.
+     */
+    protected checkPropertyValues(instance: NamedInstance | AnonymousInstance, reasoner: OmlReasoner, accept: ValidationAcceptor): void {
+        for (const assertion of instance.ownedPropertyValues) {
+            const property = assertion.property?.ref;
+            if (!property) {
+                continue;
+            }
+            const missingDomains = this.getMissingTypes(instance, reasoner.closure.getDomains(property), reasoner);
+            if (missingDomains.length > 0) {
+                accept('error', `'${getName(instance)}' is not an instance of ${formatNames(missingDomains)}, the domain of property '${getName(property)}'.`, {
+                    node: assertion,
+                    property: 'property',
+                    data: diagnosticData(IssueCodes.PropertyDomain)
+                });
+            }
+
+            if (isScalarProperty(property)) {
+                if (assertion.referencedValues.length > 0 || assertion.containedValues.length > 0) {
+                    accept('error', `Scalar property '${getName(property)}' expects literal values.`, {
+                        node: assertion,
+                        property: 'property',
+                        data: diagnosticData(IssueCodes.PropertyValueKind)
+                    });
+                }
+                this.checkLiteralValues(assertion, reasoner.closure.getRanges(property).filter(isScalar), reasoner, accept);
+            } else {
+                if (assertion.literalValues.length > 0) {
+                    accept('error', `Relation '${getName(property)}' expects instance values, not literals.`, {
+                        node: assertion,
+                        property: 'literalValues',
+                        data: diagnosticData(IssueCodes.PropertyValueKind)
+                    });
+                }
+                this.checkRangeOfValues(assertion, reasoner.closure.getRanges(property), reasoner, accept);
+            }
+
+            for (const contained of assertion.containedValues) {
+                this.checkPropertyValues(contained, reasoner, accept);
+            }
+        }
+    }
+
+    protected checkRangeOfValues(assertion: PropertyValueAssertion, ranges: AstNode[], reasoner: OmlReasoner, accept: ValidationAcceptor): void {
+        const property = assertion.property.ref!;
+        const report = (value: NamedInstance | AnonymousInstance, missing: AstNode[], reportProperty: 'referencedValues' | 'containedValues', index: number) =>
+            accept('error', `'${getName(value)}' is not an instance of ${formatNames(missing)}, the range of property '${getName(property)}'.`, {
+                node: assertion,
+                property: reportProperty,
+                index,
+                data: diagnosticData(IssueCodes.PropertyRange)
+            });
+        assertion.referencedValues.forEach((reference, index) => {
+            const value = reference.ref;
+            const missing = value ? this.getMissingTypes(value, ranges, reasoner) : [];
+            if (value && missing.length > 0) {
+                report(value, missing, 'referencedValues', index);
+            }
+        });
+        assertion.containedValues.forEach((value, index) => {
+            const missing = this.getMissingTypes(value, ranges, reasoner);
+            if (missing.length > 0) {
+                report(value, missing, 'containedValues', index);
+            }
+        });
+    }
+
+    /**
+     * Literal values must be values of every range scalar of their property, following
+     * the scalar specializations down to the standard datatypes.
+     */
+    protected checkLiteralValues(assertion: PropertyValueAssertion, ranges: Scalar[], reasoner: OmlReasoner, accept: ValidationAcceptor): void {
+        for (const literal of assertion.literalValues) {
+            for (const range of ranges) {
+                const problem = checkLiteral(literal, range, reasoner.closure);
+                if (problem) {
+                    accept('error', problem, { node: literal, data: diagnosticData(IssueCodes.InvalidLiteral) });
+                    break;
+                }
+            }
+        }
+    }
+
+    /**
+     * The instance must satisfy the property restrictions of its types and their supertypes.
+     */
+    protected checkRestrictions(instance: NamedInstance, reasoner: OmlReasoner, accept: ValidationAcceptor): void {
+        const restrictions = new Set(reasoner.getTypes(instance).flatMap(type => reasoner.getRestrictions(type)));
+        for (const restriction of restrictions) {
+            const property = restriction.property?.ref;
+            if (!property) {
+                continue;
+            }
+            const values = reasoner.getPropertyValues(instance, property);
+            const issue = this.checkRestriction(instance, restriction, values, reasoner);
+            if (issue) {
+                const owner = getName(restriction.$container.$type === 'EntityEquivalenceAxiom' ? restriction.$container.$container : restriction.$container);
+                accept(issue.severity, `${issue.message} (restricted by '${owner}')`, {
+                    node: instance,
+                    property: 'name',
+                    data: diagnosticData(IssueCodes.RestrictionViolation)
+                });
+            }
+        }
+    }
+
+    protected checkRestriction(
+        instance: NamedInstance,
+        restriction: PropertyRestrictionAxiom,
+        values: PropertyValue[],
+        reasoner: OmlReasoner
+    ): { severity: 'error' | 'warning', message: string } | undefined {
+        const name = getName(instance);
+        const propertyName = getName(restriction.property.ref!);
+        const hasType = (value: PropertyValue, type: AstNode) => value.instance !== undefined && reasoner.getAllTypes(value.instance).has(resolveMember(type));
+        const isUntyped = (value: PropertyValue) => value.instance !== undefined && reasoner.getTypes(value.instance).length === 0;
+
+        if (isPropertyRangeRestrictionAxiom(restriction)) {
+            const range = restriction.range?.ref;
+            if (!range) return undefined;
+            if (restriction.kind === 'all') {
+                const wrong = values.filter(value => value.instance && !isUntyped(value) && !hasType(value, range));
+                if (wrong.length > 0) {
+                    return { severity: 'error', message: `All values of '${propertyName}' on '${name}' must be instances of '${getName(range)}', but ${formatNames(wrong.map(v => v.instance!))} ${wrong.length === 1 ? 'is' : 'are'} not.` };
+                }
+            } else if (!values.some(value => hasType(value, range) || isUntyped(value))) {
+                return { severity: 'warning', message: `'${name}' must have at least one value of '${propertyName}' that is an instance of '${getName(range)}'.` };
+            }
+        } else if (isPropertyCardinalityRestrictionAxiom(restriction)) {
+            const range = restriction.range?.ref;
+            const matching = range ? values.filter(value => hasType(value, range)) : values;
+            const possible = range ? values.filter(value => hasType(value, range) || isUntyped(value)) : values;
+            const qualifier = range ? ` that ${restriction.cardinality === 1 ? 'is an instance' : 'are instances'} of '${getName(range)}'` : '';
+            const expected = `${restriction.kind} ${restriction.cardinality} value(s) of '${propertyName}'${qualifier}`;
+            if (restriction.kind !== 'min' && matching.length > restriction.cardinality) {
+                return { severity: 'error', message: `'${name}' must have ${expected}, but has ${matching.length}.` };
+            }
+            if (restriction.kind !== 'max' && possible.length < restriction.cardinality) {
+                return { severity: 'warning', message: `'${name}' must have ${expected}, but has ${possible.length}.` };
+            }
+        } else if (isPropertyValueRestrictionAxiom(restriction)) {
+            const expected = restriction.referencedValue?.ref;
+            if (expected) {
+                if (!values.some(value => value.instance === resolveMember(expected))) {
+                    return { severity: 'warning', message: `'${name}' must have '${getName(expected)}' as a value of '${propertyName}'.` };
+                }
+            } else if (restriction.literalValue) {
+                const literal = getLiteralText(restriction.literalValue);
+                if (!values.some(value => value.literal && getLiteralText(value.literal) === literal)) {
+                    return { severity: 'warning', message: `'${name}' must have ${literal} as a value of '${propertyName}'.` };
+                }
+            }
+        } else if (isPropertySelfRestrictionAxiom(restriction)) {
+            if (!values.some(value => value.instance === resolveMember(instance))) {
+                return { severity: 'warning', message: `'${name}' must be related to itself by '${propertyName}'.` };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the expected types the instance is not an instance of.
+     * Untyped instances are not checked.
+     */
+    protected getMissingTypes(instance: NamedInstance | AnonymousInstance, expected: AstNode[], reasoner: OmlReasoner): AstNode[] {
+        if (reasoner.getTypes(instance).length === 0) {
+            return [];
+        }
+        const types = reasoner.getAllTypes(instance);
+        return expected.filter(type => !types.has(resolveMember(type)));
+    }
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+    return value !== undefined;
+}
+
+function getName(node: AstNode): string {
+    if (isAnonymousConceptInstance(node)) {
+        return node.type?.ref ? `anonymous ${getName(node.type.ref)}` : 'anonymous instance';
+    }
+    return (resolveMember(node) as { name?: string }).name ?? node.$type;
+}
+
+function formatNames(nodes: AstNode[]): string {
+    return nodes.map(node => `'${getName(node)}'`).join(', ');
+}
+
+function getLiteralText(literal: Literal): string {
+    return literal.$cstNode?.text ?? String(literal.value);
+}
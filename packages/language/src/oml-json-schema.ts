@@ -0,0 +1,308 @@
+/**
+ * OML JSON Schema
+ * Generates, from a vocabulary or vocabulary bundle, a JSON Schema and a JSON-LD context for the
+ * JSON format of descriptions (see oml-json.ts), so that partners can exchange instance data in it.
+ *
+ * The schema has a definition per concept, aspect and relation entity of the closure, applied to
+ * every instance whose `@type` names the entity. Like SHACL shapes, each definition repeats what
+ * the entity inherits: the properties whose domain is the entity or a supertype, with their range,
+ * and the cardinalities implied by restrictions (some, min, max, exactly, value) and keys. Only
+ * lower bounds of qualified restrictions are kept, as they bound the values of any range too.
+ * Definitions leave other properties open, in keeping with the open world of OML.
+ *
+ * The context maps type and property names to IRIs, relations to `@id` values, scalar properties
+ * to their standard datatype, non-functional properties to sets, `instances` to the default graph
+ * and `from`/`to` to the sources and targets of relation instances.
+ */
+
+import type { AstNode } from 'langium';
+import {
+  isAspect,
+  isConcept,
+  isPropertyCardinalityRestrictionAxiom,
+  isPropertyRangeRestrictionAxiom,
+  isPropertyValueRestrictionAxiom,
+  isRelationEntity,
+  isScalar,
+  isScalarProperty,
+  isUnreifiedRelation,
+  isVocabulary
+} from './generated/ast.js';
+import type { Entity, KeyAxiom, Ontology, Scalar, ScalarEquivalenceAxiom, SemanticProperty } from './generated/ast.js';
+import { getJsonEnumeration, getJsonScalarType, isFunctionalProperty, JsonNaming, toJsonLiteral } from './oml-json.js';
+import { getStandardDatatypes, getStandardName } from './oml-literals.js';
+import { getMemberIri, getOntologyPrefixes } from './oml-owl.js';
+import { OML } from './oml-rdf.js';
+import { OntologyClosure, resolveMember } from './oml-semantics.js';
+
+export type JsonSchema = Record<string, unknown>;
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Generates the JSON Schema of the description exports whose instances are typed by the vocabularies
+ * of an ontology and its imports.
+ */
+export function generateJsonSchema(ontology: Ontology): JsonSchema {
+  return new JsonSchemaGenerator(ontology).generateSchema();
+}
+
+/**
+ * Generates the JSON-LD context that maps description exports using the vocabularies of an ontology
+ * and its imports to RDF.
+ */
+export function generateJsonLdContext(ontology: Ontology): JsonSchema {
+  return new JsonSchemaGenerator(ontology).generateContext();
+}
+
+/** Bounds on the number of values of a property */
+interface Cardinality {
+  min: number
+  max?: number
+}
+
+export class JsonSchemaGenerator {
+
+  protected readonly closure: OntologyClosure;
+  protected readonly naming: JsonNaming;
+  protected readonly entities: Entity[] = [];
+  protected readonly scalars: Scalar[] = [];
+  protected readonly properties: SemanticProperty[] = [];
+
+  constructor(readonly root: Ontology) {
+    this.closure = new OntologyClosure(root);
+    this.naming = new JsonNaming(this.closure.ontologies);
+    for (const ontology of this.closure.ontologies.filter(isVocabulary)) {
+      for (const statement of ontology.ownedStatements) {
+        if (resolveMember(statement) !== statement) {
+          continue;
+        }
+        if (isConcept(statement) || isAspect(statement) || isRelationEntity(statement)) {
+          this.entities.push(statement);
+        }
+        if (isScalar(statement) && !getStandardName(statement)) {
+          this.scalars.push(statement);
+        }
+        if (isScalarProperty(statement) || isUnreifiedRelation(statement)) {
+          this.properties.push(statement);
+        }
+        if (isRelationEntity(statement) && statement.forwardRelation) {
+          this.properties.push(statement.forwardRelation);
+        }
+        if ((isRelationEntity(statement) || isUnreifiedRelation(statement)) && statement.reverseRelation) {
+          this.properties.push(statement.reverseRelation);
+        }
+      }
+    }
+  }
+
+  generateSchema(): JsonSchema {
+    const defs: Record<string, JsonSchema> = {
+      Reference: { type: 'string', format: 'iri-reference', description: 'The IRI of a named instance' },
+      Related: { anyOf: [{ $ref: '#/$defs/Reference' }, { $ref: '#/$defs/Instance' }] },
+      Instance: {
+        type: 'object',
+        properties: {
+          '@id': { $ref: '#/$defs/Reference' },
+          '@type': { type: 'array', items: { enum: this.entities.map(entity => this.naming.getTypeName(entity)) }, uniqueItems: true }
+        },
+        allOf: this.entities.map(entity => ({
+          if: { properties: { '@type': { contains: { const: this.naming.getTypeName(entity) } } }, required: ['@type'] },
+          then: { $ref: this.getRef(entity) }
+        }))
+      }
+    };
+    for (const scalar of this.scalars) {
+      defs[this.naming.getTypeName(scalar)] = this.generateScalar(scalar);
+    }
+    for (const entity of this.entities) {
+      defs[this.naming.getTypeName(entity)] = this.generateEntity(entity);
+    }
+    return {
+      $schema: JSON_SCHEMA_DIALECT,
+      title: `Descriptions using ${this.root.namespace}`,
+      type: 'object',
+      required: ['instances'],
+      properties: {
+        '@context': {},
+        '@id': { type: 'string', format: 'iri', description: 'The namespace of the description' },
+        instances: { type: 'array', items: { $ref: '#/$defs/Instance' } }
+      },
+      $defs: defs
+    };
+  }
+
+  generateContext(): JsonSchema {
+    const prefixes = getOntologyPrefixes(this.closure.ontologies);
+    const context: Record<string, unknown> = { '@version': 1.1, ...prefixes, oml: OML };
+    const compact = (iri: string) => {
+      const prefix = Object.entries(prefixes).find(([, namespace]) => iri.startsWith(namespace) && iri.length > namespace.length);
+      return prefix ? `${prefix[0]}:${iri.substring(prefix[1].length)}` : iri;
+    };
+    context.instances = '@graph';
+    context.from = { '@id': 'oml:hasSource', '@type': '@id', '@container': '@set' };
+    context.to = { '@id': 'oml:hasTarget', '@type': '@id', '@container': '@set' };
+    for (const entity of this.entities) {
+      context[this.naming.getTypeName(entity)] = compact(getMemberIri(entity)!);
+    }
+    for (const property of this.properties) {
+      const definition: Record<string, string> = { '@id': compact(getMemberIri(property)!) };
+      if (isScalarProperty(property)) {
+        const range = this.closure.getRanges(property).find(isScalar);
+        const datatype = range && getStandardDatatypes(range, this.closure)[0];
+        if (datatype && datatype !== 'xsd:string' && datatype !== 'rdf:langString') {
+          definition['@type'] = datatype;
+        }
+      } else {
+        definition['@type'] = '@id';
+      }
+      if (!isFunctionalProperty(property)) {
+        definition['@container'] = '@set';
+      }
+      context[this.naming.getPropertyName(property)] = definition;
+    }
+    return { '@context': context };
+  }
+
+  protected getRef(type: AstNode): string {
+    return `#/$defs/${this.naming.getTypeName(type).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+  }
+
+  protected generateEntity(entity: Entity): JsonSchema {
+    const superTerms = this.closure.getSuperTerms(entity);
+    const kind = isConcept(entity) ? 'Concept' : isAspect(entity) ? 'Aspect' : 'Relation entity';
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    if (isRelationEntity(entity)) {
+      properties.from = { type: 'array', items: { $ref: '#/$defs/Reference' }, minItems: 1 };
+      properties.to = { type: 'array', items: { $ref: '#/$defs/Reference' }, minItems: 1 };
+    }
+    const cardinalities = this.getCardinalities(entity);
+    for (const property of this.properties) {
+      if (!this.closure.getDomains(property).some(domain => superTerms.has(domain)) && !cardinalities.has(property)) {
+        continue;
+      }
+      const name = this.naming.getPropertyName(property);
+      const { min, max } = cardinalities.get(property) ?? { min: 0 };
+      const value = this.generateValue(property);
+      if (isFunctionalProperty(property)) {
+        properties[name] = value;
+      } else {
+        properties[name] = {
+          type: 'array',
+          items: value,
+          ...(min > 0 ? { minItems: min } : {}),
+          ...(max !== undefined ? { maxItems: max } : {})
+        };
+      }
+      if (min > 0) {
+        required.push(name);
+      }
+    }
+    return {
+      description: `${kind} ${this.naming.getTypeName(entity)} (${getMemberIri(entity)})`,
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {})
+    };
+  }
+
+  /**
+   * The bounds that the restrictions and keys of an entity and its supertypes put on its properties.
+   */
+  protected getCardinalities(entity: Entity): Map<SemanticProperty, Cardinality> {
+    const cardinalities = new Map<SemanticProperty, Cardinality>();
+    const bound = (property: AstNode | undefined, min: number, max?: number) => {
+      if (!property) {
+        return;
+      }
+      const declaration = resolveMember(property) as SemanticProperty;
+      const cardinality = cardinalities.get(declaration) ?? { min: 0 };
+      cardinality.min = Math.max(cardinality.min, min);
+      if (max !== undefined) {
+        cardinality.max = Math.min(cardinality.max ?? max, max);
+      }
+      cardinalities.set(declaration, cardinality);
+    };
+    for (const restriction of this.closure.getRestrictions(entity)) {
+      const property = restriction.property?.ref;
+      if (isPropertyRangeRestrictionAxiom(restriction) && restriction.kind === 'some') {
+        bound(property, 1);
+      } else if (isPropertyCardinalityRestrictionAxiom(restriction)) {
+        const qualified = restriction.range !== undefined;
+        if (restriction.kind === 'min') {
+          bound(property, restriction.cardinality);
+        } else if (restriction.kind === 'max' && !qualified) {
+          bound(property, 0, restriction.cardinality);
+        } else if (restriction.kind === 'exactly') {
+          bound(property, restriction.cardinality, qualified ? undefined : restriction.cardinality);
+        }
+      } else if (isPropertyValueRestrictionAxiom(restriction)) {
+        bound(property, 1);
+      }
+    }
+    const keys = [...this.closure.getSuperTerms(entity)]
+      .flatMap(type => this.closure.getContributions(type))
+      .flatMap(member => (member as { ownedKeys?: KeyAxiom[] }).ownedKeys ?? []);
+    for (const property of keys.flatMap(key => key.properties).map(r => r.ref)) {
+      bound(property, 1, 1);
+    }
+    return cardinalities;
+  }
+
+  protected generateValue(property: SemanticProperty): JsonSchema {
+    const ranges = this.closure.getRanges(property);
+    if (!isScalarProperty(property)) {
+      const names = ranges.map(range => this.naming.getTypeName(range));
+      return { $ref: '#/$defs/Related', ...(names.length > 0 ? { description: `Instances of ${names.join(' and ')}` } : {}) };
+    }
+    const schemas = ranges.filter(isScalar).map(range => getStandardName(range)
+      ? { type: getJsonScalarType(range, this.closure) }
+      : { $ref: this.getRef(range) });
+    if (schemas.length === 0) {
+      return { type: ['string', 'number', 'boolean'] };
+    }
+    return schemas.length === 1 ? schemas[0] : { allOf: schemas };
+  }
+
+  /**
+   * The JSON type of a scalar with its enumeration, or the facets of it and its supertypes.
+   */
+  protected generateScalar(scalar: Scalar): JsonSchema {
+    const type = getJsonScalarType(scalar, this.closure);
+    const schema: JsonSchema = { description: `Scalar ${this.naming.getTypeName(scalar)} (${getMemberIri(scalar)})`, type };
+    const enumeration = getJsonEnumeration(scalar, this.closure);
+    if (enumeration) {
+      schema.enum = enumeration;
+      return schema;
+    }
+    const equivalences: ScalarEquivalenceAxiom[] = [...this.closure.getSuperTerms(scalar)]
+      .filter(isScalar)
+      .flatMap(type => this.closure.getContributions(type))
+      .flatMap(member => member.ownedEquivalences);
+    for (const equivalence of equivalences) {
+      const numeric = (facet: 'minInclusive' | 'maxInclusive' | 'minExclusive' | 'maxExclusive', keyword: string) => {
+        for (const literal of equivalence[facet]) {
+          const value = toJsonLiteral(literal, 'number');
+          if (typeof value === 'number') {
+            schema[keyword] = value;
+          }
+        }
+      };
+      for (const length of equivalence.length) {
+        schema.minLength = length;
+        schema.maxLength = length;
+      }
+      equivalence.minLength.forEach(length => schema.minLength = length);
+      equivalence.maxLength.forEach(length => schema.maxLength = length);
+      equivalence.pattern.forEach(pattern => schema.pattern = pattern);
+      if (type === 'number' || type === 'integer') {
+        numeric('minInclusive', 'minimum');
+        numeric('maxInclusive', 'maximum');
+        numeric('minExclusive', 'exclusiveMinimum');
+        numeric('maxExclusive', 'exclusiveMaximum');
+      }
+    }
+    return schema;
+  }
+}
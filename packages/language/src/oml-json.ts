@@ -0,0 +1,603 @@
+/**
+ * OML JSON
+ * Maps descriptions to plain JSON for applications: one object per instance with its IRI (`@id`),
+ * the names of its types (`@type`) and its property values keyed by property name. Relations
+ * hold the IRIs of the instances they relate, and contained (anonymous) instances are nested.
+ * Relation instances also list the instances they relate `from` and `to`, and add the values of
+ * the forward and reverse relations of their relation entity to those instances.
+ *
+ * Types and properties are named by their local name, or by `prefix:name` when the name is
+ * declared by several vocabularies of the closure. Functional properties hold a single value,
+ * other properties an array of values.
+ *
+ * Importing goes the other way: a JSON document in this format is planned as the named instances
+ * to create in a description, with qualified type and property names and references by name.
+ */
+
+import { AstUtils } from 'langium';
+import type { AstNode } from 'langium';
+import {
+  isAnonymousConceptInstance,
+  isAnonymousRelationInstance,
+  isAspect,
+  isBooleanLiteral,
+  isConcept,
+  isConceptInstance,
+  isDescription,
+  isForwardRelation,
+  isOntology,
+  isRelationEntity,
+  isRelationInstance,
+  isReverseRelation,
+  isScalar,
+  isScalarProperty,
+  isUnreifiedRelation,
+  isVocabulary
+} from './generated/ast.js';
+import type {
+  AnonymousInstance,
+  Description,
+  DescriptionBundle,
+  Literal,
+  NamedInstance,
+  Ontology,
+  PropertyValueAssertion,
+  Scalar,
+  SemanticProperty
+} from './generated/ast.js';
+import { getBundleClosure } from './oml-consistency.js';
+import { getLexicalForm, getStandardDatatypes } from './oml-literals.js';
+import { getMemberIri } from './oml-owl.js';
+import { getKeywords } from './oml-owl-import.js';
+import { OntologyClosure, resolveMember } from './oml-semantics.js';
+
+export type JsonScalarType = 'string' | 'number' | 'integer' | 'boolean';
+
+export type JsonLiteral = string | number | boolean;
+
+export type JsonValue = JsonLiteral | InstanceJson;
+
+export interface InstanceJson {
+  /** The IRI of a named instance */
+  '@id'?: string
+  '@type'?: string[]
+  [property: string]: JsonValue | JsonValue[] | undefined
+}
+
+export interface DescriptionJson {
+  /** The namespace of the exported description */
+  '@id': string
+  instances: InstanceJson[]
+}
+
+const INTEGER_DATATYPES = new Set([
+  'xsd:integer', 'xsd:nonNegativeInteger', 'xsd:positiveInteger', 'xsd:nonPositiveInteger', 'xsd:negativeInteger',
+  'xsd:long', 'xsd:int', 'xsd:short', 'xsd:byte', 'xsd:unsignedLong', 'xsd:unsignedInt', 'xsd:unsignedShort', 'xsd:unsignedByte'
+]);
+const NUMBER_DATATYPES = new Set(['xsd:decimal', 'xsd:double', 'xsd:float', 'owl:real']);
+
+type NamedMember = AstNode & { name?: string };
+
+/**
+ * The JSON names of the types and properties declared by the vocabularies of a set of ontologies.
+ */
+export class JsonNaming {
+
+  protected readonly typeNames = new Map<AstNode, string>();
+  protected readonly propertyNames = new Map<AstNode, string>();
+  /** The declarations by JSON name and by qualified name */
+  protected readonly types = new Map<string, AstNode>();
+  protected readonly properties = new Map<string, AstNode>();
+
+  constructor(ontologies: Ontology[]) {
+    const types: NamedMember[] = [];
+    const properties: NamedMember[] = [];
+    for (const ontology of ontologies.filter(isVocabulary)) {
+      for (const statement of ontology.ownedStatements) {
+        if (resolveMember(statement) !== statement) {
+          continue;
+        }
+        if (isConcept(statement) || isAspect(statement) || isRelationEntity(statement) || isScalar(statement)) {
+          types.push(statement);
+        }
+        if (isScalarProperty(statement) || isUnreifiedRelation(statement)) {
+          properties.push(statement);
+        }
+        if (isRelationEntity(statement) && statement.forwardRelation) {
+          properties.push(statement.forwardRelation);
+        }
+        if ((isRelationEntity(statement) || isUnreifiedRelation(statement)) && statement.reverseRelation) {
+          properties.push(statement.reverseRelation);
+        }
+      }
+    }
+    assignNames(types, this.typeNames, this.types);
+    assignNames(properties, this.propertyNames, this.properties);
+  }
+
+  getTypeName(type: AstNode): string {
+    const declaration = resolveMember(type);
+    return this.typeNames.get(declaration) ?? getQualifiedName(declaration);
+  }
+
+  getPropertyName(property: AstNode): string {
+    const declaration = resolveMember(property);
+    return this.propertyNames.get(declaration) ?? getQualifiedName(declaration);
+  }
+
+  /**
+   * Returns the type with the given JSON name or qualified name.
+   */
+  resolveType(name: string): AstNode | undefined {
+    return this.types.get(name);
+  }
+
+  /**
+   * Returns the property with the given JSON name or qualified name.
+   */
+  resolveProperty(name: string): AstNode | undefined {
+    return this.properties.get(name);
+  }
+}
+
+function assignNames(members: NamedMember[], names: Map<AstNode, string>, declarations: Map<string, AstNode>): void {
+  const counts = new Map<string, number>();
+  for (const { name = '' } of members) {
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  for (const member of members.filter(m => m.name)) {
+    const name = counts.get(member.name!)! > 1 ? getQualifiedName(member) : member.name!;
+    names.set(member, name);
+    declarations.set(name, member);
+    declarations.set(getQualifiedName(member), member);
+  }
+}
+
+function getQualifiedName(member: AstNode): string {
+  const name = (member as { name?: string }).name ?? member.$type;
+  const ontology = AstUtils.findRootNode(member);
+  return isOntology(ontology) ? `${ontology.prefix}:${name}` : name;
+}
+
+/**
+ * Returns the JSON type of the values of a scalar, from the standard datatype it specializes.
+ */
+export function getJsonScalarType(scalar: Scalar, closure: OntologyClosure): JsonScalarType {
+  const datatypes = getStandardDatatypes(scalar, closure);
+  if (datatypes.some(datatype => INTEGER_DATATYPES.has(datatype))) return 'integer';
+  if (datatypes.some(datatype => NUMBER_DATATYPES.has(datatype))) return 'number';
+  if (datatypes.includes('xsd:boolean')) return 'boolean';
+  return 'string';
+}
+
+/**
+ * Returns the values enumerated by a scalar or the nearest of its supertypes that has an enumeration.
+ */
+export function getJsonEnumeration(scalar: Scalar, closure: OntologyClosure): JsonLiteral[] | undefined {
+  const type = getJsonScalarType(scalar, closure);
+  for (const superTerm of closure.getSuperTerms(scalar)) {
+    const enumeration = closure.getContributions(superTerm)
+      .map(member => isScalar(member) ? member.ownedEnumeration : undefined)
+      .find(axiom => axiom !== undefined);
+    if (enumeration) {
+      return enumeration.literals.map(literal => toJsonLiteral(literal, type));
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Converts a literal to the JSON value of the given type, or to the value its syntax implies.
+ */
+export function toJsonLiteral(literal: Literal, type?: JsonScalarType): JsonLiteral {
+  if (isBooleanLiteral(literal)) {
+    return literal.value;
+  }
+  const lexical = getLexicalForm(literal);
+  const target = type ?? (literal.$type === 'QuotedLiteral' ? 'string' : 'number');
+  if (target === 'number' || target === 'integer') {
+    const value = Number(lexical);
+    return Number.isFinite(value) ? value : lexical;
+  }
+  if (target === 'boolean') {
+    return lexical === 'true' || lexical === '1';
+  }
+  return lexical;
+}
+
+/**
+ * Whether a property holds at most one value per instance.
+ */
+export function isFunctionalProperty(property: SemanticProperty): boolean {
+  const declaration = resolveMember(property);
+  if (isScalarProperty(declaration) || isUnreifiedRelation(declaration)) return declaration.functional;
+  if (isForwardRelation(declaration)) return declaration.$container.functional;
+  if (isReverseRelation(declaration)) return declaration.$container.inverseFunctional;
+  return false;
+}
+
+/**
+ * Exports the instances of a description, or of the descriptions a description bundle includes, to JSON.
+ */
+export function exportDescriptionJson(ontology: Description | DescriptionBundle): DescriptionJson {
+  return new DescriptionJsonExporter(ontology).export();
+}
+
+class DescriptionJsonExporter {
+
+  protected readonly closure: OntologyClosure;
+  protected readonly naming: JsonNaming;
+  /** The exported descriptions */
+  protected readonly descriptions: Description[];
+  protected readonly objects = new Map<NamedInstance, InstanceJson>();
+
+  constructor(protected readonly ontology: Description | DescriptionBundle) {
+    this.closure = new OntologyClosure(ontology);
+    this.naming = new JsonNaming(this.closure.ontologies);
+    this.descriptions = isDescription(ontology) ? [ontology] : getBundleClosure(ontology).filter(isDescription);
+  }
+
+  export(): DescriptionJson {
+    const members = this.descriptions
+      .flatMap(description => description.ownedStatements)
+      .filter((statement): statement is NamedInstance => isConceptInstance(statement) || isRelationInstance(statement));
+    for (const member of members) {
+      const object = this.getObject(resolveMember(member));
+      for (const assertion of member.ownedPropertyValues) {
+        this.addValues(object, assertion);
+      }
+      if (isRelationInstance(member)) {
+        this.addRelationInstance(member, object);
+      }
+    }
+    return { '@id': this.ontology.namespace, instances: [...this.objects.values()] };
+  }
+
+  protected getObject(instance: NamedInstance): InstanceJson {
+    let object = this.objects.get(instance);
+    if (!object) {
+      const types = [...new Set(this.closure.getTypes(instance).map(type => this.naming.getTypeName(type)))];
+      object = { '@id': getMemberIri(instance), ...(types.length > 0 ? { '@type': types } : {}) };
+      this.objects.set(instance, object);
+    }
+    return object;
+  }
+
+  protected addValues(object: InstanceJson, assertion: PropertyValueAssertion): void {
+    const property = assertion.property?.ref;
+    if (!property) {
+      return;
+    }
+    const range = this.closure.getRanges(property).find(isScalar);
+    const type = range ? getJsonScalarType(range, this.closure) : undefined;
+    const values: JsonValue[] = [
+      ...assertion.literalValues.map(literal => toJsonLiteral(literal, type)),
+      ...assertion.containedValues.map(value => this.toObject(value, property)),
+      ...assertion.referencedValues.map(value => value.ref && getMemberIri(value.ref)).filter(iri => iri !== undefined)
+    ];
+    for (const value of values) {
+      this.addValue(object, property, value);
+    }
+  }
+
+  protected addValue(object: InstanceJson, property: SemanticProperty, value: JsonValue): void {
+    const key = this.naming.getPropertyName(property);
+    if (isFunctionalProperty(property)) {
+      object[key] = value;
+    } else {
+      const values = (object[key] ??= []) as JsonValue[];
+      if (typeof value === 'object' || !values.includes(value)) {
+        values.push(value);
+      }
+    }
+  }
+
+  protected toObject(instance: AnonymousInstance, property: SemanticProperty): InstanceJson {
+    const object: InstanceJson = {};
+    if (isAnonymousConceptInstance(instance) && instance.type?.ref) {
+      object['@type'] = [this.naming.getTypeName(instance.type.ref)];
+    } else if (isAnonymousRelationInstance(instance)) {
+      const target = instance.target?.ref && getMemberIri(instance.target.ref);
+      const relation = resolveMember(property);
+      if (isForwardRelation(relation) || isReverseRelation(relation)) {
+        object['@type'] = [this.naming.getTypeName(relation.$container)];
+      }
+      if (target) {
+        object[isReverseRelation(relation) ? 'from' : 'to'] = [target];
+      }
+    }
+    for (const assertion of instance.ownedPropertyValues) {
+      this.addValues(object, assertion);
+    }
+    return object;
+  }
+
+  /**
+   * Lists the sources and targets of a relation instance and relates them by the forward
+   * and reverse relations of its relation entities.
+   */
+  protected addRelationInstance(member: NamedInstance & { sources: { ref?: NamedInstance }[], targets: { ref?: NamedInstance }[] }, object: InstanceJson): void {
+    const sources = member.sources.map(s => s.ref).filter(s => s !== undefined).map(s => resolveMember(s));
+    const targets = member.targets.map(t => t.ref).filter(t => t !== undefined).map(t => resolveMember(t));
+    const add = (key: 'from' | 'to', instances: NamedInstance[]) => {
+      const iris = instances.map(instance => getMemberIri(instance)).filter(iri => iri !== undefined);
+      if (iris.length > 0) {
+        object[key] = [...new Set([...(object[key] as string[] | undefined) ?? [], ...iris])];
+      }
+    };
+    add('from', sources);
+    add('to', targets);
+    for (const entity of this.closure.getTypes(member).filter(isRelationEntity)) {
+      for (const [relation, subjects, values] of [[entity.forwardRelation, sources, targets], [entity.reverseRelation, targets, sources]] as const) {
+        if (!relation) {
+          continue;
+        }
+        for (const subject of subjects.filter(s => this.descriptions.includes(s.$container as Description))) {
+          for (const value of values) {
+            const iri = getMemberIri(value);
+            if (iri) {
+              this.addValue(this.getObject(subject), relation, iri);
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+export interface JsonImportValue {
+  /** The qualified name of the property */
+  property: string
+  literals: JsonLiteral[]
+  /** The names of the referenced instances: local, or qualified for instances of other descriptions */
+  references: string[]
+}
+
+/**
+ * A named instance to create, with qualified type names. Relation instances have sources and targets.
+ */
+export interface JsonImportInstance {
+  name: string
+  /** The location of the instance in the document, e.g. `instances[2]` */
+  path: string
+  types: string[]
+  relation: boolean
+  sources: string[]
+  targets: string[]
+  values: JsonImportValue[]
+}
+
+export interface JsonImportIssue {
+  /** The location of the problem in the document, e.g. `instances[2].color[0]` */
+  path: string
+  message: string
+}
+
+export interface JsonImportPlan {
+  /** Concept instances first, then relation instances */
+  instances: JsonImportInstance[]
+  /** Values and instances that cannot be imported; the rest of the plan leaves them out */
+  issues: JsonImportIssue[]
+}
+
+export interface JsonImportOptions {
+  /** The namespace of the description the instances are imported into */
+  namespace: string
+  /** Ontologies whose namespaces and prefixes qualify references to instances of other descriptions */
+  ontologies?: Ontology[]
+}
+
+const ID_PATTERN = /^[a-zA-Z0-9\-_.~%][a-zA-Z0-9\-_.~%$]*$/;
+
+/**
+ * Plans the import of a JSON document in the format of `exportDescriptionJson`, whose names are
+ * those of the vocabularies of an ontology and its imports.
+ */
+export function planDescriptionJsonImport(json: unknown, ontology: Ontology, options: JsonImportOptions): JsonImportPlan {
+  return new DescriptionJsonImporter(ontology, options).plan(json);
+}
+
+class DescriptionJsonImporter {
+
+  protected readonly closure: OntologyClosure;
+  protected readonly naming: JsonNaming;
+  protected readonly issues: JsonImportIssue[] = [];
+  /** The names of the instances of the document, by IRI */
+  protected readonly names = new Map<string, string>();
+  protected readonly instances: { object: InstanceJson, instance: JsonImportInstance }[] = [];
+  /** The forward and reverse relation values that relation instances of the document imply, as `property subject value` */
+  protected readonly implied = new Set<string>();
+  protected namespace = '';
+
+  constructor(ontology: Ontology, protected readonly options: JsonImportOptions) {
+    this.closure = new OntologyClosure(ontology);
+    this.naming = new JsonNaming(this.closure.ontologies);
+  }
+
+  plan(json: unknown): JsonImportPlan {
+    const document = json as Partial<DescriptionJson> | null;
+    if (typeof document !== 'object' || document === null || !Array.isArray(document.instances)) {
+      return { instances: [], issues: [{ path: '', message: 'expected an object with an "instances" array' }] };
+    }
+    this.namespace = typeof document['@id'] === 'string' ? document['@id'] : '';
+    document.instances.forEach((object, index) => this.collect(object, `instances[${index}]`));
+    const typed = this.instances.filter(({ object, instance }) => this.addTypes(object, instance));
+    for (const { object, instance } of typed) {
+      this.addValues(object, instance);
+    }
+    const instances = typed.map(({ instance }) => instance);
+    return { instances: [...instances.filter(i => !i.relation), ...instances.filter(i => i.relation)], issues: this.issues };
+  }
+
+  /**
+   * Names the instances of the document, including nested ones with an IRI.
+   */
+  protected collect(object: unknown, path: string): void {
+    if (!isObject(object)) {
+      this.issues.push({ path, message: 'expected an instance object' });
+      return;
+    }
+    const iri = object['@id'];
+    if (typeof iri !== 'string') {
+      this.issues.push({ path, message: 'named instances need an "@id"' });
+      return;
+    }
+    if (this.names.has(iri)) {
+      this.issues.push({ path, message: `<${iri}> is declared twice` });
+      return;
+    }
+    const name = this.getLocalName(iri);
+    if (!ID_PATTERN.test(name)) {
+      this.issues.push({ path, message: `'${name}' (from <${iri}>) is not a valid OML name` });
+      return;
+    }
+    const escaped = getKeywords().has(name) ? `^${name}` : name;
+    this.names.set(iri, escaped);
+    this.instances.push({ object, instance: { name: escaped, path, types: [], relation: false, sources: [], targets: [], values: [] } });
+    for (const [key, value] of Object.entries(object)) {
+      (Array.isArray(value) ? value : [value]).forEach((item, index) => {
+        if (isObject(item) && typeof item['@id'] === 'string') {
+          this.collect(item, Array.isArray(value) ? `${path}.${key}[${index}]` : `${path}.${key}`);
+        }
+      });
+    }
+  }
+
+  protected getLocalName(iri: string): string {
+    for (const namespace of [this.namespace, this.options.namespace]) {
+      if (namespace && iri.startsWith(namespace) && iri.length > namespace.length) {
+        return iri.substring(namespace.length);
+      }
+    }
+    return iri.substring(Math.max(iri.lastIndexOf('#'), iri.lastIndexOf('/')) + 1);
+  }
+
+  /**
+   * Resolves the types of an instance, and the sources and targets of a relation instance.
+   * Returns false, leaving the instance out, when a type is unknown.
+   */
+  protected addTypes(object: InstanceJson, instance: JsonImportInstance): boolean {
+    const types = object['@type'] === undefined ? [] : Array.isArray(object['@type']) ? object['@type'] : [object['@type']];
+    const unknown = types.filter(name => {
+      const type = typeof name === 'string' ? this.naming.resolveType(name) : undefined;
+      if (!type || !(isConcept(type) || isAspect(type) || isRelationEntity(type))) {
+        return true;
+      }
+      instance.types.push(getQualifiedName(type));
+      instance.relation ||= isRelationEntity(type);
+      return false;
+    });
+    if (unknown.length > 0) {
+      const names = unknown.map(name => `'${name}'`).join(', ');
+      this.issues.push({ path: `${instance.path}.@type`, message: `${names} ${unknown.length > 1 ? 'are not concepts, aspects or relation entities' : 'is not a concept, aspect or relation entity'}; ${instance.name} is not imported` });
+      return false;
+    }
+    if (!instance.relation) {
+      return true;
+    }
+    instance.sources = this.getReferences(object.from, `${instance.path}.from`);
+    instance.targets = this.getReferences(object.to, `${instance.path}.to`);
+    for (const type of instance.types.map(name => this.naming.resolveType(name)).filter(isRelationEntity)) {
+      for (const source of instance.sources) {
+        for (const target of instance.targets) {
+          if (type.forwardRelation) this.implied.add(`${getQualifiedName(type.forwardRelation)} ${source} ${target}`);
+          if (type.reverseRelation) this.implied.add(`${getQualifiedName(type.reverseRelation)} ${target} ${source}`);
+        }
+      }
+    }
+    return true;
+  }
+
+  protected addValues(object: InstanceJson, instance: JsonImportInstance): void {
+    for (const [key, value] of Object.entries(object)) {
+      if (key === '@id' || key === '@type' || key === '@context' || (instance.relation && (key === 'from' || key === 'to'))) {
+        continue;
+      }
+      const path = `${instance.path}.${key}`;
+      const property = this.naming.resolveProperty(key);
+      if (!property || !(isScalarProperty(property) || isUnreifiedRelation(property) || isForwardRelation(property) || isReverseRelation(property))) {
+        this.issues.push({ path, message: `'${key}' is not a property of the vocabularies` });
+        continue;
+      }
+      const values = Array.isArray(value) ? value : [value];
+      if (isFunctionalProperty(property) && values.length > 1) {
+        this.issues.push({ path, message: `'${key}' is functional but has ${values.length} values` });
+        continue;
+      }
+      const qualified = getQualifiedName(property);
+      const result: JsonImportValue = { property: qualified, literals: [], references: [] };
+      if (isScalarProperty(property)) {
+        values.forEach((item, index) => {
+          const literal = this.getLiteral(item, property, Array.isArray(value) ? `${path}[${index}]` : path);
+          if (literal !== undefined) result.literals.push(literal);
+        });
+      } else {
+        result.references = this.getReferences(value, path)
+          .filter(reference => !this.implied.has(`${qualified} ${instance.name} ${reference}`));
+      }
+      if (result.literals.length > 0 || result.references.length > 0) {
+        instance.values.push(result);
+      }
+    }
+  }
+
+  protected getLiteral(value: unknown, property: SemanticProperty, path: string): JsonLiteral | undefined {
+    const range = this.closure.getRanges(property).find(isScalar);
+    const type = range ? getJsonScalarType(range, this.closure) : undefined;
+    const valid = type === undefined
+      ? ['string', 'number', 'boolean'].includes(typeof value)
+      : type === 'integer' ? Number.isInteger(value) : typeof value === type;
+    if (!valid) {
+      this.issues.push({ path, message: `expected ${type === 'integer' ? 'an integer' : `a ${type ?? 'literal'}`}, got ${JSON.stringify(value)}` });
+      return undefined;
+    }
+    const enumeration = range && getJsonEnumeration(range, this.closure);
+    if (enumeration && !enumeration.includes(value as JsonLiteral)) {
+      this.issues.push({ path, message: `${JSON.stringify(value)} is not one of ${enumeration.map(v => JSON.stringify(v)).join(', ')}` });
+      return undefined;
+    }
+    return value as JsonLiteral;
+  }
+
+  /**
+   * Returns the names of the instances an IRI or nested instance refers to: local names for
+   * instances of the document or of the target description, qualified names for the others.
+   */
+  protected getReferences(value: unknown, path: string): string[] {
+    const values = value === undefined ? [] : Array.isArray(value) ? value : [value];
+    const references: string[] = [];
+    values.forEach((item, index) => {
+      const itemPath = Array.isArray(value) ? `${path}[${index}]` : path;
+      const iri = isObject(item) ? item['@id'] : item;
+      if (typeof iri !== 'string') {
+        this.issues.push({ path: itemPath, message: isObject(item) ? 'contained instances without an "@id" are not supported' : `expected an IRI, got ${JSON.stringify(item)}` });
+        return;
+      }
+      const name = this.resolveIri(iri);
+      if (name) {
+        references.push(name);
+      } else {
+        this.issues.push({ path: itemPath, message: `<${iri}> is not an instance of the document or of a known description` });
+      }
+    });
+    return references;
+  }
+
+  protected resolveIri(iri: string): string | undefined {
+    const local = this.names.get(iri);
+    if (local) {
+      return local;
+    }
+    if (iri.startsWith(this.options.namespace) && ID_PATTERN.test(iri.substring(this.options.namespace.length))) {
+      return iri.substring(this.options.namespace.length);
+    }
+    const ontology = (this.options.ontologies ?? [])
+      .filter(o => iri.startsWith(o.namespace) && ID_PATTERN.test(iri.substring(o.namespace.length)))
+      .sort((a, b) => b.namespace.length - a.namespace.length)[0];
+    return ontology ? `${ontology.prefix}:${iri.substring(ontology.namespace.length)}` : undefined;
+  }
+}
+
+function isObject(value: unknown): value is InstanceJson {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
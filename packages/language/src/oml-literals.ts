@@ -0,0 +1,295 @@
+/**
+ * OML Literals
+ * Checks literal values against scalars: the lexical space of the XSD/RDF/OWL datatype
+ * a scalar specializes, and the facets and enumerations of the scalar and its supertypes
+ */
+
+import type { AstNode } from 'langium';
+import { GrammarUtils } from 'langium';
+import {
+  isBooleanLiteral,
+  isDecimalLiteral,
+  isDoubleLiteral,
+  isIntegerLiteral,
+  isQuotedLiteral,
+  isScalar,
+  isScalarEquivalenceAxiom,
+  isVocabulary
+} from './generated/ast.js';
+import type { Literal, Scalar } from './generated/ast.js';
+import type { OntologyClosure } from './oml-semantics.js';
+import { resolveMember } from './oml-semantics.js';
+
+/**
+ * Prefixes of the namespaces declaring the standard datatypes.
+ */
+export const STANDARD_NAMESPACES: Record<string, string> = {
+  'http://www.w3.org/2001/XMLSchema#': 'xsd',
+  'http://www.w3.org/1999/02/22-rdf-syntax-ns#': 'rdf',
+  'http://www.w3.org/2000/01/rdf-schema#': 'rdfs',
+  'http://www.w3.org/2002/07/owl#': 'owl'
+};
+
+interface Datatype {
+  pattern: RegExp
+  min?: bigint
+  max?: bigint
+}
+
+const INTEGER = /^[+-]?\d+$/;
+const DECIMAL = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+const FLOAT = /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|[+-]?INF|NaN)$/;
+const TIMEZONE = '(Z|[+-]\\d{2}:\\d{2})';
+const ANY = /^[\s\S]*$/;
+
+const datatype = (pattern: RegExp, min?: bigint, max?: bigint): Datatype => ({ pattern, min, max });
+const pow2 = (n: number) => BigInt(2) ** BigInt(n);
+
+/**
+ * Lexical spaces of the standard datatypes, with the value bounds of the integer types.
+ */
+const DATATYPES: Record<string, Datatype> = {
+  'xsd:integer': datatype(INTEGER),
+  'xsd:nonNegativeInteger': datatype(INTEGER, BigInt(0)),
+  'xsd:positiveInteger': datatype(INTEGER, BigInt(1)),
+  'xsd:nonPositiveInteger': datatype(INTEGER, undefined, BigInt(0)),
+  'xsd:negativeInteger': datatype(INTEGER, undefined, BigInt(-1)),
+  'xsd:long': datatype(INTEGER, -pow2(63), pow2(63) - BigInt(1)),
+  'xsd:int': datatype(INTEGER, -pow2(31), pow2(31) - BigInt(1)),
+  'xsd:short': datatype(INTEGER, -pow2(15), pow2(15) - BigInt(1)),
+  'xsd:byte': datatype(INTEGER, -pow2(7), pow2(7) - BigInt(1)),
+  'xsd:unsignedLong': datatype(INTEGER, BigInt(0), pow2(64) - BigInt(1)),
+  'xsd:unsignedInt': datatype(INTEGER, BigInt(0), pow2(32) - BigInt(1)),
+  'xsd:unsignedShort': datatype(INTEGER, BigInt(0), pow2(16) - BigInt(1)),
+  'xsd:unsignedByte': datatype(INTEGER, BigInt(0), pow2(8) - BigInt(1)),
+  'xsd:decimal': datatype(DECIMAL),
+  'owl:real': datatype(DECIMAL),
+  'owl:rational': datatype(/^[+-]?\d+(\/[1-9]\d*)?$/),
+  'xsd:double': datatype(FLOAT),
+  'xsd:float': datatype(FLOAT),
+  'xsd:boolean': datatype(/^(true|false|1|0)$/),
+  'xsd:string': datatype(ANY),
+  'xsd:normalizedString': datatype(/^[^\r\n\t]*$/),
+  'xsd:token': datatype(/^(\S+( \S+)*)?$/),
+  'xsd:language': datatype(/^[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*$/),
+  'xsd:Name': datatype(/^[\p{L}_:][\p{L}\p{N}._:\-]*$/u),
+  'xsd:NCName': datatype(/^[\p{L}_][\p{L}\p{N}._\-]*$/u),
+  'xsd:NMTOKEN': datatype(/^[\p{L}\p{N}._:\-]+$/u),
+  'xsd:anyURI': datatype(/^\S*$/),
+  'xsd:hexBinary': datatype(/^([0-9a-fA-F]{2})*$/),
+  'xsd:base64Binary': datatype(/^[A-Za-z0-9+/\s]*={0,2}$/),
+  'xsd:dateTime': datatype(new RegExp(`^-?\\d{4,}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?${TIMEZONE}?$`)),
+  'xsd:dateTimeStamp': datatype(new RegExp(`^-?\\d{4,}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?${TIMEZONE}$`)),
+  'xsd:date': datatype(new RegExp(`^-?\\d{4,}-\\d{2}-\\d{2}${TIMEZONE}?$`)),
+  'xsd:time': datatype(new RegExp(`^\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?${TIMEZONE}?$`)),
+  'xsd:gYear': datatype(new RegExp(`^-?\\d{4,}${TIMEZONE}?$`)),
+  'xsd:gYearMonth': datatype(new RegExp(`^-?\\d{4,}-\\d{2}${TIMEZONE}?$`)),
+  'xsd:duration': datatype(/^-?P(?=\d|T\d)(\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/),
+  'rdf:PlainLiteral': datatype(ANY),
+  'rdf:langString': datatype(ANY),
+  'rdf:XMLLiteral': datatype(ANY),
+  'rdfs:Literal': datatype(ANY)
+};
+
+const INTEGER_TYPES = Object.keys(DATATYPES).filter(name => DATATYPES[name].pattern === INTEGER);
+const STRING_TYPES = ['xsd:string', 'xsd:normalizedString', 'xsd:token', 'xsd:language', 'xsd:Name', 'xsd:NCName', 'xsd:NMTOKEN'];
+
+/**
+ * The standard datatypes each kind of literal can be a value of.
+ */
+const COMPATIBLE_TYPES: Record<string, string[]> = {
+  IntegerLiteral: [...INTEGER_TYPES, 'xsd:decimal', 'owl:real', 'owl:rational', 'xsd:double', 'xsd:float', 'rdfs:Literal'],
+  DecimalLiteral: ['xsd:decimal', 'owl:real', 'xsd:double', 'xsd:float', 'rdfs:Literal'],
+  DoubleLiteral: ['xsd:double', 'xsd:float', 'rdfs:Literal'],
+  BooleanLiteral: ['xsd:boolean', 'rdfs:Literal'],
+  QuotedLiteral: [...STRING_TYPES, 'rdf:PlainLiteral', 'rdfs:Literal'],
+  LangString: ['rdf:langString', 'rdf:PlainLiteral', 'rdfs:Literal']
+};
+
+/**
+ * Returns the prefixed name of a standard datatype (e.g. `xsd:integer`), or undefined for other scalars.
+ */
+export function getStandardName(scalar: Scalar): string | undefined {
+  const declaration = resolveMember(scalar);
+  const vocabulary = declaration.$container;
+  const prefix = isVocabulary(vocabulary) ? STANDARD_NAMESPACES[vocabulary.namespace.replace(/^<|>$/g, '')] : undefined;
+  return prefix && declaration.name ? `${prefix}:${declaration.name}` : undefined;
+}
+
+/**
+ * Returns the standard datatypes a scalar is or specializes.
+ */
+export function getStandardDatatypes(scalar: Scalar, closure: OntologyClosure): string[] {
+  return [...closure.getSuperTerms(scalar)]
+    .filter(isScalar)
+    .map(getStandardName)
+    .filter((name): name is string => name !== undefined);
+}
+
+/**
+ * Returns the lexical form of a literal, without quotes, type or language tag.
+ */
+export function getLexicalForm(literal: Literal): string {
+  if (isQuotedLiteral(literal)) {
+    // The value converter removed the quotes and read the escapes
+    return String(literal.value);
+  }
+  const valueNode = literal.$cstNode && GrammarUtils.findNodeForProperty(literal.$cstNode, 'value');
+  return valueNode?.text ?? String(literal.value);
+}
+
+/**
+ * Checks a literal against a scalar. Returns a description of the problem, or undefined if the
+ * literal is a valid value of the scalar.
+ */
+export function checkLiteral(literal: Literal, scalar: Scalar, closure: OntologyClosure): string | undefined {
+  const lexical = getLexicalForm(literal);
+  const rangeName = getScalarLabel(scalar, closure);
+
+  // A typed quoted literal must be typed by the scalar, a subtype of it, or a supertype it restricts;
+  // the value is checked against the more specific of the two
+  let valueType = scalar;
+  if (isQuotedLiteral(literal) && literal.type?.ref) {
+    const literalType = resolveMember(literal.type.ref);
+    if (closure.isSubTermOf(literalType, scalar)) {
+      valueType = literalType;
+    } else if (!closure.isSubTermOf(scalar, literalType)) {
+      return `Literal of type ${getScalarLabel(literalType, closure)} is not a value of ${rangeName}.`;
+    }
+  } else {
+    const kind = isQuotedLiteral(literal) && literal.langTag ? 'LangString' : literal.$type;
+    const standard = getStandardDatatypes(scalar, closure);
+    const compatible = COMPATIBLE_TYPES[kind] ?? [];
+    const incompatible = standard.filter(name => !compatible.includes(name));
+    if (incompatible.length > 0) {
+      // Only suggest a typed literal that would be valid
+      const hint = isQuotedLiteral(literal) && !checkLexicalForm(lexical, incompatible[0]) ? `; use a typed literal like "${lexical}"^^${incompatible[0]}` : '';
+      return `${describeLiteral(literal, lexical)} is not a value of ${rangeName}${hint}.`;
+    }
+  }
+
+  for (const name of getStandardDatatypes(valueType, closure)) {
+    const problem = checkLexicalForm(lexical, name);
+    if (problem) {
+      return `"${lexical}" ${problem}.`;
+    }
+  }
+
+  for (const type of closure.getSuperTerms(valueType)) {
+    if (!isScalar(type)) {
+      continue;
+    }
+    for (const member of closure.getContributions(type)) {
+      const problem = checkFacets(literal, lexical, member, closure);
+      if (problem) {
+        return `"${lexical}" ${problem} (facet of '${type.name}').`;
+      }
+    }
+  }
+  return undefined;
+}
+
+function checkLexicalForm(lexical: string, name: string): string | undefined {
+  const type = DATATYPES[name];
+  if (!type) {
+    return undefined;
+  }
+  if (!type.pattern.test(lexical)) {
+    return `is not a valid ${name}`;
+  }
+  if (type.min !== undefined || type.max !== undefined) {
+    const value = BigInt(lexical.replace(/^\+/, ''));
+    if (type.min !== undefined && value < type.min) return `is below the minimum ${type.min} of ${name}`;
+    if (type.max !== undefined && value > type.max) return `is above the maximum ${type.max} of ${name}`;
+  }
+  return undefined;
+}
+
+function checkFacets(literal: Literal, lexical: string, scalar: Scalar, closure: OntologyClosure): string | undefined {
+  const enumeration = scalar.ownedEnumeration?.literals;
+  if (enumeration && enumeration.length > 0 && !enumeration.some(value => isSameValue(getLexicalForm(value), lexical))) {
+    return `is not one of ${enumeration.map(value => getLexicalForm(value)).join(', ')}`;
+  }
+
+  const length = [...lexical].length;
+  for (const facets of scalar.ownedEquivalences.filter(isScalarEquivalenceAxiom)) {
+    for (const expected of facets.length) {
+      if (length !== expected) return `has length ${length}, expected ${expected}`;
+    }
+    for (const min of facets.minLength) {
+      if (length < min) return `is shorter than the minimum length ${min}`;
+    }
+    for (const max of facets.maxLength) {
+      if (length > max) return `is longer than the maximum length ${max}`;
+    }
+    for (const pattern of facets.pattern) {
+      const regexp = toRegExp(pattern);
+      if (regexp && !regexp.test(lexical)) return `does not match the pattern ${pattern}`;
+    }
+    for (const language of facets.language) {
+      const tag = isQuotedLiteral(literal) ? literal.langTag?.toLowerCase() : undefined;
+      if (!tag || (tag !== language.toLowerCase() && !tag.startsWith(`${language.toLowerCase()}-`))) {
+        return `does not have the language tag @${language}`;
+      }
+    }
+    const bounds: [Literal[], string, (order: number) => boolean][] = [
+      [facets.minInclusive, 'is less than the minimum', order => order >= 0],
+      [facets.minExclusive, 'is not greater than', order => order > 0],
+      [facets.maxInclusive, 'is greater than the maximum', order => order <= 0],
+      [facets.maxExclusive, 'is not less than', order => order < 0]
+    ];
+    for (const [limits, message, valid] of bounds) {
+      for (const limit of limits) {
+        const order = compareValues(lexical, getLexicalForm(limit));
+        if (order !== undefined && !valid(order)) return `${message} ${getLexicalForm(limit)}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Compares two lexical forms as numbers or as dates/times; undefined if they are not comparable.
+ */
+function compareValues(a: string, b: string): number | undefined {
+  const numbers = [Number(a), Number(b)];
+  if (a.trim() !== '' && b.trim() !== '' && !numbers.some(Number.isNaN)) {
+    return Math.sign(numbers[0] - numbers[1]);
+  }
+  const dates = [Date.parse(a), Date.parse(b)];
+  if (!dates.some(Number.isNaN)) {
+    return Math.sign(dates[0] - dates[1]);
+  }
+  return undefined;
+}
+
+function isSameValue(a: string, b: string): boolean {
+  return a === b || compareValues(a, b) === 0 && DECIMAL.test(a) && DECIMAL.test(b);
+}
+
+function toRegExp(pattern: string): RegExp | undefined {
+  try {
+    // XSD patterns are implicitly anchored
+    return new RegExp(`^(?:${pattern})$`, 'u');
+  } catch {
+    return undefined;
+  }
+}
+
+function describeLiteral(literal: Literal, lexical: string): string {
+  if (isIntegerLiteral(literal)) return `Integer ${lexical}`;
+  if (isDecimalLiteral(literal)) return `Decimal ${lexical}`;
+  if (isDoubleLiteral(literal)) return `Double ${lexical}`;
+  if (isBooleanLiteral(literal)) return `Boolean ${lexical}`;
+  return isQuotedLiteral(literal) && literal.langTag ? `Language-tagged string "${lexical}"@${literal.langTag}` : `String "${lexical}"`;
+}
+
+function getScalarLabel(scalar: AstNode, closure: OntologyClosure): string {
+  const declaration = resolveMember(scalar) as Scalar;
+  const standard = isScalar(declaration) ? getStandardName(declaration) : undefined;
+  if (standard) {
+    return standard;
+  }
+  const bases = isScalar(declaration) ? getStandardDatatypes(declaration, closure) : [];
+  return `'${declaration.name}'${bases.length > 0 ? ` (${bases.join(', ')})` : ''}`;
+}
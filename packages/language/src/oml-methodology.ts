@@ -0,0 +1,1010 @@
+/**
+ * OML Methodology
+ * Checks descriptions against a methodology playbook (see oml-playbook.ts): the preferred direction
+ * of relations, the types a description may hold and the properties its instances must set.
+ *
+ * The facts are taken from the linked description, and instance types include those entailed by
+ * the vocabularies, so that rules written for a concept also govern instances of its subtypes.
+ */
+
+import * as path from 'path';
+import { AstUtils } from 'langium';
+import type { AstNode } from 'langium';
+import {
+    isConceptInstance,
+    isOntology,
+    isRelationInstance,
+    ConceptInstance,
+    Description,
+    RelationInstance,
+} from './generated/ast.js';
+import { OmlReasoner } from './oml-reasoner.js';
+import {
+    AppliesTo,
+    DescriptionConstraint,
+    DescriptionSchema,
+    MethodologyPlaybook,
+    PlaybookCorrection,
+    PlaybookValidationResult,
+    PlaybookViolation,
+    PropertyConstraint,
+    RelationRule,
+} from './oml-playbook.js';
+
+/**
+ * Specificity ranking for rule priority determination.
+ * Higher values = higher priority (more specific rules override general ones)
+ */
+export enum Specificity {
+    EXACT_TYPE = 1000,
+    EXACT_TYPE_WITH_SUBTYPES = 500,
+    WILDCARD_SUFFIX = 200,
+    WILDCARD_PREFIX = 100,
+    GENERIC = 0,
+}
+
+/**
+ * Result of rule matching with specificity scoring
+ */
+export interface RuleMatchResult {
+    matches: boolean;
+    specificity: Specificity;
+    reason?: string;
+}
+
+/**
+ * Pure function: Get all relation rules from playbook
+ * Returns rules that can be validated
+ */
+export function getRelationRules(playbook: MethodologyPlaybook): RelationRule[] {
+    return playbook.relationRules || [];
+}
+
+/**
+ * Pure function: Validate a property against constraints
+ * Checks target type constraints
+ *
+ * @returns Object with validation result and error details
+ */
+export function validatePropertyConstraint(
+    property: string,
+    values: any[],
+    constraint: PropertyConstraint,
+): {
+    valid: boolean;
+    errors: string[];
+} {
+    const errors: string[] = [];
+
+    // Target type constraint: check that target matches required type
+    if (constraint.targetMustBe) {
+        if (!isTypeAllowed(constraint.targetMustBe, [constraint.targetMustBe])) {
+            errors.push(`Property "${property}" target does not match required type`);
+        }
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors,
+    };
+}
+
+/**
+ * Check if a property type is in the allowed list
+ * Simple type check - can be extended for complex type hierarchies
+ */
+export function isTypeAllowed(propertyType: string, allowedTypes: string[]): boolean {
+    return allowedTypes.includes(propertyType);
+}
+
+/**
+ * Check if a relation rule matches given direction requirements
+ */
+export function ruleMatchesDirection(
+    rule: RelationRule,
+    forwardRelation: string,
+    reverseRelation: string,
+): boolean {
+    return (
+        (rule.forwardRelation === forwardRelation && rule.reverseRelation === reverseRelation) ||
+        (rule.forwardRelation === reverseRelation && rule.reverseRelation === forwardRelation)
+    );
+}
+
+/**
+ * Get the preferred direction from a relation rule
+ */
+export function getPreferredDirection(rule: RelationRule): 'forward' | 'reverse' {
+    return rule.preferredDirection;
+}
+
+/**
+ * Check if a relation is in forward direction according to rule
+ */
+export function isForwardDirection(
+    rule: RelationRule,
+    actualRelation: string,
+): boolean {
+    return rule.forwardRelation === actualRelation && rule.preferredDirection === 'forward';
+}
+
+/**
+ * Check if a relation is in reverse direction according to rule
+ */
+export function isReverseDirection(
+    rule: RelationRule,
+    actualRelation: string,
+): boolean {
+    return rule.reverseRelation === actualRelation && rule.preferredDirection === 'reverse';
+}
+
+/**
+ * Check if instance type matches the AppliesTo criteria
+ * Used for description constraint filtering
+ * The type hierarchy maps each type to all its supertypes (see OmlReasoner)
+ */
+export function matchesAppliesTo(
+    instanceType: string,
+    appliesTo: AppliesTo,
+    typeHierarchy?: Map<string, string[]>,
+): RuleMatchResult {
+    // Empty appliesTo means applies to everything
+    if (
+        !appliesTo.conceptType &&
+        !appliesTo.conceptPattern &&
+        (!appliesTo.conceptTypes || appliesTo.conceptTypes.length === 0) &&
+        !appliesTo.anySubtypeOf
+    ) {
+        return { matches: true, specificity: Specificity.GENERIC };
+    }
+
+    // Check against exact type match
+    if (appliesTo.conceptType && instanceType === appliesTo.conceptType) {
+        return { matches: true, specificity: Specificity.EXACT_TYPE };
+    }
+
+    // Check if instanceType is a subtype of conceptType, when subtypes are included
+    if (appliesTo.conceptType && appliesTo.matchSubtypes && typeHierarchy?.get(instanceType)?.includes(appliesTo.conceptType)) {
+        return { matches: true, specificity: Specificity.EXACT_TYPE_WITH_SUBTYPES };
+    }
+
+    // Check against conceptTypes array
+    if (appliesTo.conceptTypes && appliesTo.conceptTypes.includes(instanceType)) {
+        return { matches: true, specificity: Specificity.EXACT_TYPE };
+    }
+
+    // Check if instanceType is a subtype of anySubtypeOf
+    if (appliesTo.anySubtypeOf && typeHierarchy?.has(instanceType)) {
+        const supertypes = typeHierarchy.get(instanceType) || [];
+        if (supertypes.includes(appliesTo.anySubtypeOf)) {
+            return { matches: true, specificity: Specificity.EXACT_TYPE_WITH_SUBTYPES };
+        }
+    }
+
+    // Check pattern matching
+    if (appliesTo.conceptPattern) {
+        const regex = patternToRegex(appliesTo.conceptPattern);
+        if (regex.test(instanceType)) {
+            // Determine specificity based on wildcard position
+            if (appliesTo.conceptPattern.startsWith('*')) {
+                return { matches: true, specificity: Specificity.WILDCARD_SUFFIX };
+            } else {
+                return { matches: true, specificity: Specificity.WILDCARD_PREFIX };
+            }
+        }
+    }
+
+    return { matches: false, specificity: Specificity.GENERIC };
+}
+
+/**
+ * Convert pattern string with wildcards to regex
+ * Supports: "Requirement" (exact), "*Requirement" (suffix), "Requirement*" (prefix)
+ */
+function patternToRegex(pattern: string): RegExp {
+    // Escape special regex characters
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+
+    return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Get applicable description constraint rules for an instance type
+ * Used for description-level constraint validation
+ */
+export function getApplicableDescriptionRules(
+    instanceType: string,
+    constraints: DescriptionConstraint[],
+    typeHierarchy?: Map<string, string[]>,
+): Array<{
+    rule: DescriptionConstraint;
+    specificity: number;
+    matchReason: string;
+}> {
+    const matches: Array<{
+        rule: DescriptionConstraint;
+        specificity: number;
+        matchReason: string;
+    }> = [];
+
+    for (const rule of constraints) {
+        const match = matchesAppliesTo(instanceType, rule.appliesTo, typeHierarchy);
+
+        if (match.matches) {
+            matches.push({
+                rule,
+                specificity: match.specificity,
+                matchReason: match.reason || 'matched',
+            });
+        }
+    }
+
+    // Sort by specificity (descending), then by rule ID (for determinism when tied)
+    matches.sort((a, b) => {
+        if (a.specificity !== b.specificity) {
+            return b.specificity - a.specificity; // Higher specificity first
+        }
+        // Tie-breaker: alphabetical by rule ID (deterministic)
+        return a.rule.id.localeCompare(b.rule.id);
+    });
+
+    return matches;
+}
+
+/**
+ * Validate a property assertion against a PropertyConstraint
+ * Checks required properties, cardinality, and target types
+ */
+export function validateDescriptionPropertyConstraint(
+    assertion: {
+        propertyName: string;
+        values: string[];
+        instanceName: string;
+        instanceType: string;
+    },
+    constraint: PropertyConstraint,
+    typeHierarchy?: Map<string, string[]>,
+): { isValid: boolean; reason?: string } {
+    // Check property name matches
+    if (constraint.property !== assertion.propertyName) {
+        return { isValid: true }; // Not applicable
+    }
+
+    // Check required property
+    if (constraint.targetMustBe && assertion.values.length === 0) {
+        return {
+            isValid: false,
+            reason: `Property "${constraint.property}" is required but not set`,
+        };
+    }
+
+    return { isValid: true };
+}
+
+/**
+ * A single property assertion extracted from an instance
+ * Represents a property value on an instance in a description
+ */
+export interface PropertyAssertion {
+    /** Qualified property name (e.g., "requirement:isExpressedBy") */
+    propertyName: string;
+    /** Property name with canonical prefix */
+    propertyQualified: string;
+    /** Values assigned to this property */
+    values: string[];
+    /** Instance that owns this property */
+    instanceName: string;
+    /** Types of the instance */
+    instanceTypes: string[];
+    /** Line number in source file, 1-based (for error reporting) */
+    line?: number;
+}
+
+/**
+ * Basic information about an instance in a description
+ */
+export interface InstanceInfo {
+    /** Instance name */
+    name: string;
+    /** Type(s) of the instance */
+    types: string[];
+    /** Line number in source file, 1-based */
+    line?: number;
+}
+
+/**
+ * Map from import prefix alias to canonical prefix
+ * Example: { "ent" => "entity" } for `uses <.../entity#> as ent`
+ */
+export interface ImportPrefixMap {
+    [alias: string]: string;
+}
+
+/**
+ * Result of parsing an OML description file
+ */
+export interface ParsedDescription {
+    /** Property assertions extracted from instances */
+    assertions: PropertyAssertion[];
+    /** All instances found in the description */
+    instances: InstanceInfo[];
+    /** Raw source code */
+    sourceCode: string;
+    /** Map of import aliases to canonical prefixes */
+    importPrefixMap: ImportPrefixMap;
+}
+
+/**
+ * Extract and resolve import prefixes from a description AST
+ * Builds a map from user-specified aliases to canonical prefixes
+ *
+ * @param description Parsed OML description AST
+ * @returns Map of import aliases to canonical prefixes
+ */
+export function buildImportPrefixMap(description: Description): ImportPrefixMap {
+    const importPrefixMap: ImportPrefixMap = {};
+
+    for (const imp of description.ownedImports || []) {
+        if (!imp.prefix) {
+            continue;
+        }
+
+        // Try to get canonical prefix from resolved reference
+        let canonicalPrefix: string | undefined;
+        const importedOntology = imp.imported?.ref as { prefix?: string } | undefined;
+        canonicalPrefix = importedOntology?.prefix;
+
+        // If reference not resolved, try to extract from namespace IRI
+        // Namespace format: <https://example.com/path/vocabname#> -> vocabname
+        if (!canonicalPrefix && imp.imported?.$refText) {
+            const namespace = imp.imported.$refText;
+            const match = namespace.match(/\/([^/#]+)[#/]>?$/);
+            if (match) {
+                canonicalPrefix = match[1];
+            }
+        }
+
+        if (canonicalPrefix && canonicalPrefix !== imp.prefix) {
+            importPrefixMap[imp.prefix] = canonicalPrefix;
+        }
+    }
+
+    return importPrefixMap;
+}
+
+/**
+ * Resolve an import alias in a qualified name
+ * Example: "ent:Actor" -> "entity:Actor" using importPrefixMap
+ *
+ * @param qualifiedName Name with prefix (e.g., "ent:Actor")
+ * @param importPrefixMap Map of aliases to canonical prefixes
+ * @returns Resolved qualified name
+ */
+export function resolveImportAlias(qualifiedName: string, importPrefixMap: ImportPrefixMap): string {
+    const colonIndex = qualifiedName.indexOf(':');
+    if (colonIndex === -1) return qualifiedName;
+
+    const prefix = qualifiedName.substring(0, colonIndex);
+    const name = qualifiedName.substring(colonIndex + 1);
+    const canonicalPrefix = importPrefixMap[prefix];
+
+    return canonicalPrefix ? `${canonicalPrefix}:${name}` : qualifiedName;
+}
+
+/**
+ * Get canonical qualified name from a resolved concept reference
+ * Tries to use ref information first, falls back to source text
+ *
+ * @param typeRef Reference object from AST
+ * @param importPrefixMap Map for alias resolution
+ * @returns Canonical qualified name
+ */
+export function getCanonicalType(
+    typeRef: { ref?: { name?: string; $container?: { prefix?: string } }; $refText?: string },
+    importPrefixMap: ImportPrefixMap,
+): string {
+    const sourceText = typeRef.$refText || 'Unknown';
+
+    // Try to get canonical name from resolved reference
+    if (typeRef.ref?.name && typeRef.ref.$container) {
+        const vocabPrefix = (typeRef.ref.$container as any).prefix;
+        if (vocabPrefix) {
+            return `${vocabPrefix}:${typeRef.ref.name}`;
+        }
+    }
+
+    // Fallback to source text with alias resolution
+    return resolveImportAlias(sourceText, importPrefixMap);
+}
+
+/**
+ * Extract property assertions from a single concept instance
+ *
+ * @param instance The concept instance to process
+ * @param importPrefixMap Map for resolving import aliases
+ * @returns Array of property assertions from the instance
+ */
+function extractPropertyAssertions(instance: ConceptInstance, importPrefixMap: ImportPrefixMap): PropertyAssertion[] {
+    const assertions: PropertyAssertion[] = [];
+    const instanceName = instance.name || 'unnamed';
+
+    const instanceTypes = instance.ownedTypes?.map((t) => getCanonicalType(t.type as any, importPrefixMap)) || [];
+
+    for (const pva of instance.ownedPropertyValues || []) {
+        let propName = 'unknown';
+        let propQualified = 'unknown';
+
+        if (pva.property) {
+            if (pva.property.ref?.name) {
+                propName = pva.property.ref.name;
+
+                // Find vocabulary prefix by traversing container chain
+                let vocabPrefix: string | undefined;
+                let container: unknown = pva.property.ref.$container;
+                while (container) {
+                    const containerWithPrefix = container as { prefix?: string; $container?: unknown };
+                    if (containerWithPrefix.prefix) {
+                        vocabPrefix = containerWithPrefix.prefix;
+                        break;
+                    }
+                    container = containerWithPrefix.$container;
+                }
+
+                propQualified = vocabPrefix ? `${vocabPrefix}:${propName}` : propName;
+            } else if (pva.property.$refText) {
+                propName = pva.property.$refText;
+                propQualified = resolveImportAlias(propName, importPrefixMap);
+            }
+        }
+
+        // Get values - can be referenced instances or literals
+        const values: string[] = [];
+
+        // Referenced values (for relation properties)
+        for (const ref of pva.referencedValues || []) {
+            const refInstance = ref.ref;
+            values.push(refInstance?.name || 'unknown');
+        }
+
+        // Literal values (for scalar properties)
+        for (const lit of pva.literalValues || []) {
+            const litValue = (lit as any).value;
+            if (litValue !== undefined && litValue !== null) {
+                values.push(String(litValue));
+            }
+        }
+
+        assertions.push({
+            propertyName: propQualified,
+            propertyQualified: propQualified,
+            values,
+            instanceName,
+            instanceTypes,
+            line: pva.$cstNode ? pva.$cstNode.range.start.line + 1 : undefined,
+        });
+    }
+
+    return assertions;
+}
+
+/**
+ * Extract all instances from a description
+ *
+ * @param description Parsed description AST
+ * @param importPrefixMap Map for resolving import aliases
+ * @returns Array of instance info and their property assertions
+ */
+function extractInstances(
+    description: Description,
+    importPrefixMap: ImportPrefixMap,
+): { instances: InstanceInfo[]; assertions: PropertyAssertion[] } {
+    const instances: InstanceInfo[] = [];
+    const assertions: PropertyAssertion[] = [];
+
+    for (const statement of description.ownedStatements || []) {
+        if (isConceptInstance(statement)) {
+            const instance = statement as ConceptInstance;
+            const instanceName = instance.name || 'unnamed';
+            const instanceLine = instance.$cstNode?.range?.start?.line ? instance.$cstNode.range.start.line + 1 : undefined;
+
+            const instanceTypes = instance.ownedTypes?.map((t: any) => getCanonicalType(t.type as any, importPrefixMap)) || [];
+
+            instances.push({
+                name: instanceName,
+                types: instanceTypes,
+                line: instanceLine,
+            });
+
+            // Extract property assertions from this instance
+            assertions.push(...extractPropertyAssertions(instance, importPrefixMap));
+        }
+
+        if (isRelationInstance(statement)) {
+            const instance = statement as RelationInstance;
+            const instanceName = instance.name || 'unnamed';
+            const instanceLine = instance.$cstNode?.range?.start?.line
+                ? instance.$cstNode.range.start.line + 1
+                : undefined;
+
+            const instanceTypes = instance.ownedTypes?.map((t: any) => t.type?.$refText || t.type?.ref?.name || 'Unknown') || [];
+
+            instances.push({
+                name: instanceName,
+                types: instanceTypes,
+                line: instanceLine,
+            });
+        }
+    }
+
+    return { instances, assertions };
+}
+
+/**
+ * Parse an OML description AST and extract all relevant information
+ * This is a pure function - no file I/O, only AST processing
+ *
+ * @param description Parsed OML description AST
+ * @param sourceCode Raw OML source code (for reference)
+ * @returns Parsed description with assertions, instances, and metadata
+ */
+export function parseDescriptionAst(description: Description, sourceCode: string): ParsedDescription {
+    const importPrefixMap = buildImportPrefixMap(description);
+    const { instances, assertions } = extractInstances(description, importPrefixMap);
+    return {
+        assertions,
+        instances,
+        sourceCode,
+        importPrefixMap,
+    };
+}
+
+/**
+ * Build lookup maps for quick rule access.
+ */
+export interface RuleLookups {
+    /** Map from forward relation to rule */
+    forwardToRule: Map<string, RelationRule>;
+    /** Map from reverse relation to rule */
+    reverseToRule: Map<string, RelationRule>;
+    /** All relation names that have rules */
+    allRelationNames: Set<string>;
+}
+
+export function buildRuleLookups(playbook: MethodologyPlaybook): RuleLookups {
+    const forwardToRule = new Map<string, RelationRule>();
+    const reverseToRule = new Map<string, RelationRule>();
+    const allRelationNames = new Set<string>();
+    
+    for (const rule of playbook.relationRules) {
+        // Store with full qualified name
+        forwardToRule.set(rule.forwardRelation, rule);
+        reverseToRule.set(rule.reverseRelation, rule);
+        
+        // Also store short names (after colon)
+        const forwardShort = rule.forwardRelation.split(':').pop() || rule.forwardRelation;
+        const reverseShort = rule.reverseRelation.split(':').pop() || rule.reverseRelation;
+        forwardToRule.set(forwardShort, rule);
+        reverseToRule.set(reverseShort, rule);
+        
+        allRelationNames.add(rule.forwardRelation);
+        allRelationNames.add(rule.reverseRelation);
+        allRelationNames.add(forwardShort);
+        allRelationNames.add(reverseShort);
+    }
+    
+    return { forwardToRule, reverseToRule, allRelationNames };
+}
+
+/**
+ * Types of the description instances as qualified names (prefix:Name), including the
+ * types entailed by the vocabularies.
+ */
+interface TypeInference {
+    /** Map of instance name to its asserted and inferred types */
+    instanceTypes: Map<string, string[]>;
+    /** Map of instance name to all its types, including supertypes */
+    allTypes: Map<string, string[]>;
+    /** Map of type to all its supertypes, for subtype matching */
+    typeHierarchy: Map<string, string[]>;
+}
+
+/**
+ * Runs the reasoner over the description, so that rules apply to instances of subtypes and
+ * to instances typed by the vocabulary rules, domains and ranges.
+ */
+function inferTypes(description: Description): TypeInference {
+    const reasoner = new OmlReasoner(description);
+    const qualify = (node: AstNode): string => {
+        const ontology = AstUtils.findRootNode(node);
+        const name = (node as { name?: string }).name ?? node.$type;
+        return isOntology(ontology) ? `${ontology.prefix}:${name}` : name;
+    };
+    const inference: TypeInference = { instanceTypes: new Map(), allTypes: new Map(), typeHierarchy: new Map() };
+    for (const statement of description.ownedStatements) {
+        if ((!isConceptInstance(statement) && !isRelationInstance(statement)) || !statement.name) {
+            continue;
+        }
+        const types = reasoner.getTypes(statement);
+        inference.instanceTypes.set(statement.name, types.map(qualify));
+        inference.allTypes.set(statement.name, [...reasoner.getAllTypes(statement)].map(qualify));
+        for (const type of types) {
+            const superTypes = [...reasoner.getSuperTerms(type)].filter(superType => superType !== type);
+            inference.typeHierarchy.set(qualify(type), superTypes.map(qualify));
+        }
+    }
+    return inference;
+}
+
+/**
+ * Check assertions against playbook rules.
+ */
+function validateAssertions(
+    assertions: PropertyAssertion[],
+    instances: InstanceInfo[],
+    lookups: RuleLookups,
+    playbook: MethodologyPlaybook,
+    filePath?: string
+): { violations: PlaybookViolation[]; corrections: PlaybookCorrection[] } {
+    const violations: PlaybookViolation[] = [];
+    const corrections: PlaybookCorrection[] = [];
+    
+    // Build instance type map
+    const instanceTypes = new Map<string, string[]>();
+    for (const inst of instances) {
+        instanceTypes.set(inst.name, inst.types);
+    }
+    
+    for (const assertion of assertions) {
+        // Check if this property is a relation with a rule
+        const forwardRule = lookups.forwardToRule.get(assertion.propertyName);
+        const reverseRule = lookups.reverseToRule.get(assertion.propertyName);
+        
+        const rule = forwardRule || reverseRule;
+        if (!rule) {
+            continue;
+        }
+        
+        // Determine if this is the forward or reverse direction
+        const isForward = !!forwardRule && !reverseRule;
+        const isReverse = !!reverseRule && !forwardRule;
+        
+        // Check if using wrong direction
+        const usingWrongDirection = 
+            (rule.preferredDirection === 'forward' && isReverse) ||
+            (rule.preferredDirection === 'reverse' && isForward);
+        
+        if (usingWrongDirection) {
+            const preferredRelation = rule.preferredDirection === 'forward' 
+                ? rule.forwardRelation 
+                : rule.reverseRelation;
+            const currentRelation = isForward ? rule.forwardRelation : rule.reverseRelation;
+            
+            violations.push({
+                type: 'wrong_direction',
+                location: {
+                    file: filePath || 'unknown',
+                    line: assertion.line,
+                    instance: assertion.instanceName,
+                },
+                rule: `Relation direction: use ${preferredRelation}`,
+                message: `Instance "${assertion.instanceName}" uses "${currentRelation}" but playbook specifies "${preferredRelation}" should be used. ` +
+                    `Move this assertion to the target instance using the ${rule.preferredDirection} relation.`,
+                severity: 'warning',
+            });
+            
+            // Generate correction
+            for (const targetValue of assertion.values) {
+                corrections.push({
+                    violationType: 'wrong_direction',
+                    remove: {
+                        instance: assertion.instanceName,
+                        property: currentRelation,
+                        value: targetValue,
+                    },
+                    add: {
+                        instance: targetValue,
+                        property: preferredRelation,
+                        value: assertion.instanceName,
+                    },
+                    explanation: `Move assertion from "${assertion.instanceName} [ ${assertion.propertyName} ${targetValue} ]" ` +
+                        `to "${targetValue} [ ${preferredRelation} ${assertion.instanceName} ]"`,
+                });
+            }
+        }
+    }
+    
+    return { violations, corrections };
+}
+
+/**
+ * Validates description-level constraints using the rule engine.
+ * This enforces rules like "requirements can only be expressed by stakeholders".
+ * 
+ * @param assertions - Property assertions from the description
+ * @param instances - Instances defined in the description
+ * @param schema - Description schema defining allowed types and constraints
+ * @param instanceTypes - Map of instance name to its types
+ * @param inference - Inferred instance types and type hierarchy
+ * @param filePath - Path to the description file (for error reporting)
+ * @returns Violations found
+ */
+function validateDescriptionConstraints(
+    assertions: PropertyAssertion[],
+    instances: InstanceInfo[],
+    schema: DescriptionSchema | undefined,
+    instanceTypes: Map<string, string[]>,
+    importPrefixMap: ImportPrefixMap,
+    inference: TypeInference,
+    filePath?: string
+): PlaybookViolation[] {
+    const violations: PlaybookViolation[] = [];
+    
+    // Helper to resolve import prefix aliases (e.g., "ent:Actor" -> "entity:Actor")
+    const resolveTypeAlias = (type: string): string => resolveImportAlias(type, importPrefixMap);
+    
+    // Helper to normalize an array of types
+    const normalizeTypes = (types: string[]): string[] => types.map(resolveTypeAlias);
+    
+    if (!schema) {
+        // No schema for this description, skip constraint validation
+        return violations;
+    }
+    
+    // Normalize allowed types for alias resolution
+    const normalizedAllowedTypes = normalizeTypes(schema.allowedTypes);
+    
+    // 1. Check that all instances are of allowed types
+    for (const inst of instances) {
+        for (const instType of inst.types) {
+            const normalizedType = resolveTypeAlias(instType);
+            if (!isTypeAllowed(normalizedType, normalizedAllowedTypes)) {
+                violations.push({
+                    type: 'type_not_allowed',
+                    location: {
+                        file: filePath || 'unknown',
+                        line: inst.line,
+                        instance: inst.name,
+                    },
+                    rule: `Type placement: ${schema.file}`,
+                    message: `Instance "${inst.name}" of type "${instType}" is not allowed in this description. ` +
+                        `Allowed types: ${schema.allowedTypes.join(', ')}`,
+                    severity: 'warning',
+                });
+            }
+        }
+    }
+    
+    // 2. Validate property constraints for each instance
+    for (const inst of instances) {
+        // Asserted and inferred types, normalized for rule matching
+        const types = [...new Set([...normalizeTypes(inst.types), ...(inference.instanceTypes.get(inst.name) ?? [])])];
+        const appliedRules = new Set<string>();
+        
+        // Get assertions for this instance
+        const instanceAssertions = assertions.filter(a => a.instanceName === inst.name);
+        
+        // For each type of the instance, find applicable rules (once per rule)
+        for (const normalizedType of types) {
+            const applicableRules = getApplicableDescriptionRules(normalizedType, schema.constraints, inference.typeHierarchy);
+            for (const { rule } of applicableRules) {
+                if (appliedRules.has(rule.id)) {
+                    continue;
+                }
+                appliedRules.add(rule.id);
+                
+                for (const constraint of rule.constraints) {
+                    // Find assertion for this property
+                    const matchingAssertion = instanceAssertions.find(
+                        a => a.propertyName === constraint.property
+                    );
+                    
+                    // Build assertion object for validation
+                    const assertionForValidation = {
+                        propertyName: constraint.property,
+                        values: matchingAssertion?.values || [],
+                        instanceName: inst.name,
+                        instanceType: normalizedType,
+                    };
+                    
+                    const validationResult = validateDescriptionPropertyConstraint(
+                        assertionForValidation,
+                        constraint
+                    );
+                    
+                    if (!validationResult.isValid) {
+                        violations.push({
+                            type: 'missing_property',  // Reusing existing violation type for required properties
+                            location: {
+                                file: filePath || 'unknown',
+                                line: matchingAssertion?.line || inst.line,
+                                instance: inst.name,
+                            },
+                            rule: rule.id,
+                            message: `${rule.message}: ${validationResult.reason}`,
+                            severity: rule.severity || 'warning',
+                        });
+                    }
+                    
+                    // Check target type constraints if we have target type info
+                    if (constraint.targetMustBe && matchingAssertion) {
+                        const normalizedTargetMustBe = resolveTypeAlias(constraint.targetMustBe);
+                        for (const targetValue of matchingAssertion.values) {
+                            const targetTypes = instanceTypes.get(targetValue);
+                            
+                            if (!targetTypes) {
+                                // Target instance not found - could be from another file or invalid reference
+                                violations.push({
+                                    type: 'invalid_target_type',
+                                    location: {
+                                        file: filePath || 'unknown',
+                                        line: matchingAssertion.line,
+                                        instance: inst.name,
+                                    },
+                                    rule: rule.id,
+                                    message: `${rule.message}: Property "${constraint.property}" references "${targetValue}" ` +
+                                        `which is not a known ${constraint.targetMustBe} instance in this description. ` +
+                                        `Expected: a local instance of type "${constraint.targetMustBe}"`,
+                                    severity: rule.severity || 'warning',
+                                });
+                            } else {
+                                // Target found - check if it has the required type or a subtype of it
+                                const normalizedTargetTypes = inference.allTypes.get(targetValue) ?? normalizeTypes(targetTypes);
+                                if (!normalizedTargetTypes.includes(normalizedTargetMustBe)) {
+                                    violations.push({
+                                        type: 'invalid_target_type',
+                                        location: {
+                                            file: filePath || 'unknown',
+                                            line: matchingAssertion.line,
+                                            instance: inst.name,
+                                        },
+                                        rule: rule.id,
+                                        message: `${rule.message}: Property "${constraint.property}" target "${targetValue}" ` +
+                                            `must be of type "${constraint.targetMustBe}" but has types [${targetTypes.join(', ')}]`,
+                                        severity: rule.severity || 'warning',
+                                    });
+                                }
+                            }
+                        }
+                    }
+                    
+                    // Check targetMustBeOneOf
+                    if (constraint.targetMustBeOneOf && constraint.targetMustBeOneOf.length > 0 && matchingAssertion) {
+                        const normalizedTargetMustBeOneOf = normalizeTypes(constraint.targetMustBeOneOf);
+                        for (const targetValue of matchingAssertion.values) {
+                            const targetTypes = instanceTypes.get(targetValue);
+                            
+                            if (!targetTypes) {
+                                // Target instance not found
+                                violations.push({
+                                    type: 'invalid_target_type',
+                                    location: {
+                                        file: filePath || 'unknown',
+                                        line: matchingAssertion.line,
+                                        instance: inst.name,
+                                    },
+                                    rule: rule.id,
+                                    message: `${rule.message}: Property "${constraint.property}" references "${targetValue}" ` +
+                                        `which is not a known instance in this description. ` +
+                                        `Expected: a local instance of type(s) [${constraint.targetMustBeOneOf.join(', ')}]`,
+                                    severity: rule.severity || 'warning',
+                                });
+                            } else {
+                                // Normalize both sides for alias resolution, including supertypes
+                                const normalizedTargetTypes = inference.allTypes.get(targetValue) ?? normalizeTypes(targetTypes);
+                                const hasAllowedType = normalizedTargetTypes.some(t => 
+                                    normalizedTargetMustBeOneOf.includes(t)
+                                );
+                                if (!hasAllowedType) {
+                                    violations.push({
+                                        type: 'invalid_target_type',
+                                        location: {
+                                            file: filePath || 'unknown',
+                                            line: matchingAssertion.line,
+                                            instance: inst.name,
+                                        },
+                                        rule: rule.id,
+                                        message: `${rule.message}: Property "${constraint.property}" target "${targetValue}" ` +
+                                            `must be one of [${constraint.targetMustBeOneOf.join(', ')}] ` +
+                                            `but has types [${targetTypes.join(', ')}]`,
+                                        severity: rule.severity || 'warning',
+                                    });
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }
+    
+    return violations;
+}
+
+/**
+ * Get the description schema for a file from the playbook.
+ * Matches by filename or file path pattern.
+ * 
+ * @param playbook - The methodology playbook
+ * @param filePath - Path to the description file
+ * @returns DescriptionSchema if found, undefined otherwise
+ */
+function getDescriptionSchema(
+    playbook: MethodologyPlaybook,
+    filePath: string
+): DescriptionSchema | undefined {
+    if (!playbook.descriptions) {
+        return undefined;
+    }
+    
+    const fileName = path.basename(filePath);
+    
+    // Try exact match first
+    if (playbook.descriptions[fileName]) {
+        return playbook.descriptions[fileName];
+    }
+    
+    // Try pattern matching (file paths can contain patterns)
+    for (const [key, schema] of Object.entries(playbook.descriptions)) {
+        // Simple pattern: if key contains *, treat as glob
+        if (key.includes('*')) {
+            const regexPattern = key
+                .replace(/\./g, '\\.')
+                .replace(/\*/g, '.*');
+            const regex = new RegExp(`^${regexPattern}$`);
+            
+            if (regex.test(fileName) || regex.test(filePath)) {
+                return schema;
+            }
+        }
+    }
+    
+    return undefined;
+}
+
+/**
+ * Checks a loaded description against the relation direction rules of a playbook and, when the
+ * playbook has a schema for the file, against its description constraints.
+ * Instance types include those inferred from the vocabularies.
+ *
+ * @param playbook - The methodology playbook
+ * @param description - The description, linked to the vocabularies it uses
+ * @param filePath - Path of the description file, used to find its schema and to report locations
+ */
+export function enforcePlaybook(
+    playbook: MethodologyPlaybook,
+    description: Description,
+    filePath?: string
+): PlaybookValidationResult {
+    const content = description.$document?.textDocument.getText() ?? description.$cstNode?.text ?? '';
+    const { assertions, instances, importPrefixMap } = parseDescriptionAst(description, content);
+    const inference = inferTypes(description);
+    
+    // Build instance type map for constraint validation
+    const instanceTypes = new Map<string, string[]>();
+    for (const inst of instances) {
+        instanceTypes.set(inst.name, inst.types);
+    }
+    
+    // Validate relation direction rules
+    const lookups = buildRuleLookups(playbook);
+    const { violations, corrections } = validateAssertions(assertions, instances, lookups, playbook, filePath);
+    
+    // Validate description-level constraints
+    const descriptionSchema = filePath ? getDescriptionSchema(playbook, filePath) : undefined;
+    const constraintViolations = validateDescriptionConstraints(
+        assertions,
+        instances,
+        descriptionSchema,
+        instanceTypes,
+        importPrefixMap,
+        inference,
+        filePath
+    );
+    
+    const allViolations = [...violations, ...constraintViolations];
+    return {
+        isValid: allViolations.length === 0,
+        violations: allViolations,
+        corrections,
+    };
+}
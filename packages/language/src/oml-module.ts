@@ -2,18 +2,23 @@ import { type Module, inject } from 'langium';
 import { createDefaultModule, createDefaultSharedModule, type DefaultSharedModuleContext, type LangiumServices, type LangiumSharedServices, type PartialLangiumServices, type PartialLangiumSharedServices } from 'langium/lsp';
 import { OmlGeneratedModule, OmlGeneratedSharedModule } from './generated/module.js';
 import { OmlValidator, registerValidationChecks } from './oml-validator.js';
+import { OmlInstanceValidator } from './oml-instance-validator.js';
 import { OmlValueConverter } from './oml-converter.js';
 import { OmlScopeProvider } from './oml-scope.js';
 import { OmlCompletionProvider } from './oml-completion.js';
 import { OmlHoverProvider } from './oml-hover.js';
 import { OmlNodeKindProvider } from './oml-node-kind-provider.js';
+import { OmlRenameProvider } from './oml-rename.js';
+import { OmlFormatter } from './oml-formatter.js';
+import { OmlCodeActionProvider } from './oml-code-actions.js';
 
 /**
  * Declaration of custom services - add your own service classes here.
  */
 export type OmlAddedServices = {
     validation: {
-        OmlValidator: OmlValidator
+        OmlValidator: OmlValidator,
+        OmlInstanceValidator: OmlInstanceValidator
     }
 }
 
@@ -30,7 +35,8 @@ export type OmlServices = LangiumServices & OmlAddedServices
  */
 export const OmlModule: Module<OmlServices, PartialLangiumServices & OmlAddedServices> = {
     validation: {
-        OmlValidator: () => new OmlValidator()
+        OmlValidator: () => new OmlValidator(),
+        OmlInstanceValidator: () => new OmlInstanceValidator()
     },
     parser: {
         ValueConverter: () => new OmlValueConverter()
@@ -40,7 +46,10 @@ export const OmlModule: Module<OmlServices, PartialLangiumServices & OmlAddedSer
     },
     lsp: {
         CompletionProvider: (services: any) => new OmlCompletionProvider(services),
-        HoverProvider: (services: any) => new OmlHoverProvider(services)
+        HoverProvider: (services: any) => new OmlHoverProvider(services),
+        RenameProvider: (services: any) => new OmlRenameProvider(services),
+        Formatter: () => new OmlFormatter(),
+        CodeActionProvider: (services: any) => new OmlCodeActionProvider(services)
     }
 };
 
@@ -0,0 +1,988 @@
+/**
+ * OML from OWL
+ * Maps OWL 2 ontologies in RDF back to OML vocabularies, the inverse of the mapping in oml-owl.ts
+ *
+ * Classes, object, data and annotation properties and datatypes are imported with their
+ * hierarchies, equivalences, restrictions, keys and annotations; the `oml:` markers written by the
+ * export restore aspects, relation entities and their forward and reverse relations. Everything
+ * else (individuals, rules, unions, disjointness, ...) is reported as unsupported, one entry per
+ * subject and predicate, rather than dropped.
+ */
+
+import type { AstNode, Reference } from 'langium';
+import { AstUtils, GrammarAST } from 'langium';
+import type {
+  Annotation,
+  Import,
+  Literal,
+  PropertyRestrictionAxiom,
+  Vocabulary,
+  VocabularyStatement
+} from './generated/ast.js';
+import { OmlGrammar } from './generated/grammar.js';
+import { printVocabulary } from './mcp/tools/terms/oml-printer.js';
+import type { PrinterOptions } from './mcp/tools/terms/oml-printer.js';
+import { OML, OWL, RDF, RDFS, STANDARD_PREFIXES, SWRL, termKey, XSD } from './oml-rdf.js';
+import type { RdfGraph, RdfLiteral, RdfSubject, RdfTerm, Triple } from './oml-rdf.js';
+
+export interface OwlImportOptions {
+  /** Known prefixes of namespaces, e.g. the ones declared by the parsed document */
+  prefixes?: Record<string, string>
+  /** Layout of the printed vocabularies */
+  printer?: PrinterOptions
+}
+
+export interface ImportedVocabulary {
+  namespace: string
+  prefix: string
+  /** Location relative to the output folder derived from the namespace, e.g. `example.com/vocab.oml` */
+  path: string
+  text: string
+}
+
+export interface UnsupportedConstruct {
+  /** IRI (or blank node label) of the subject the construct is stated on */
+  subject: string
+  /** The predicate of the construct, followed by the type for `rdf:type` */
+  construct: string
+  reason: string
+}
+
+export interface OwlImport {
+  vocabularies: ImportedVocabulary[]
+  unsupported: UnsupportedConstruct[]
+}
+
+/**
+ * Maps the OWL ontologies of a graph to OML vocabularies, one per namespace of declared terms.
+ */
+export function importOwlVocabularies(graph: RdfGraph, options: OwlImportOptions = {}): OwlImport {
+  return new OwlImporter(graph, options).import();
+}
+
+/**
+ * Returns the file a vocabulary of the given namespace goes to, following the openCAESAR layout
+ * (`http://example.com/vocab#` is `example.com/vocab.oml`).
+ */
+export function getNamespacePath(namespace: string): string {
+  const path = namespace
+    .replace(/^[a-zA-Z][a-zA-Z0-9+.-]*:(\/\/)?/, '')
+    .replace(/[#/]+$/, '')
+    .replace(/[^a-zA-Z0-9/._~-]/g, '_');
+  return `${path || 'vocabulary'}.oml`;
+}
+
+const ID_PATTERN = /^[a-zA-Z0-9\-_.~%][a-zA-Z0-9\-_.~%$]*$/;
+
+/** Namespaces whose terms are never declared by an imported vocabulary */
+const BUILT_IN_NAMESPACES = [RDF, RDFS, OWL, XSD, SWRL, OML];
+
+/** Annotation properties of RDFS and OWL that need no declaration */
+const ANNOTATION_PROPERTIES = new Set([
+  `${RDFS}label`, `${RDFS}comment`, `${RDFS}seeAlso`, `${RDFS}isDefinedBy`, `${OWL}versionInfo`, `${OWL}deprecated`
+]);
+
+const CHARACTERISTICS = {
+  FunctionalProperty: 'functional',
+  InverseFunctionalProperty: 'inverseFunctional',
+  SymmetricProperty: 'symmetric',
+  AsymmetricProperty: 'asymmetric',
+  ReflexiveProperty: 'reflexive',
+  IrreflexiveProperty: 'irreflexive',
+  TransitiveProperty: 'transitive'
+} as const;
+
+const CARDINALITIES = {
+  cardinality: 'exactly',
+  qualifiedCardinality: 'exactly',
+  minCardinality: 'min',
+  minQualifiedCardinality: 'min',
+  maxCardinality: 'max',
+  maxQualifiedCardinality: 'max'
+} as const;
+
+const RESTRICTION_PREDICATES = [
+  'onProperty', 'allValuesFrom', 'someValuesFrom', 'hasValue', 'hasSelf', 'onClass', 'onDataRange', ...Object.keys(CARDINALITIES)
+].map(name => `${OWL}${name}`);
+
+const FACETS = {
+  length: 'length',
+  minLength: 'minLength',
+  maxLength: 'maxLength',
+  pattern: 'pattern',
+  langRange: 'language',
+  minInclusive: 'minInclusive',
+  minExclusive: 'minExclusive',
+  maxInclusive: 'maxInclusive',
+  maxExclusive: 'maxExclusive'
+} as const;
+
+type DeclarationKind = 'ontology' | 'class' | 'object' | 'data' | 'annotation' | 'datatype';
+
+const DECLARATION_TYPES: Record<string, DeclarationKind> = {
+  [`${OWL}Ontology`]: 'ontology',
+  [`${OWL}Class`]: 'class',
+  [`${OWL}ObjectProperty`]: 'object',
+  [`${OWL}DatatypeProperty`]: 'data',
+  [`${OWL}AnnotationProperty`]: 'annotation',
+  [`${RDFS}Datatype`]: 'datatype'
+};
+
+let keywords: Set<string> | undefined;
+
+/**
+ * Returns the keywords of the grammar that names must escape with `^`.
+ */
+export function getKeywords(): Set<string> {
+  return keywords ??= new Set(
+    AstUtils.streamAllContents(OmlGrammar())
+      .filter(GrammarAST.isKeyword)
+      .map(keyword => keyword.value)
+      .filter(value => /^[a-zA-Z]/.test(value))
+  );
+}
+
+function makeRef<T extends AstNode>(refText: string): Reference<T> {
+  return { $refText: refText } as unknown as Reference<T>;
+}
+
+function makeNode<T extends AstNode>($type: T['$type'], properties: Record<string, unknown> = {}): T {
+  return { $type, ...properties } as unknown as T;
+}
+
+/**
+ * Splits an IRI after its last `#` or `/` into a namespace and a local name.
+ */
+function splitIri(iri: string): [string, string] {
+  const index = Math.max(iri.lastIndexOf('#'), iri.lastIndexOf('/'));
+  return index < 0 ? [iri, ''] : [iri.substring(0, index + 1), iri.substring(index + 1)];
+}
+
+/**
+ * The vocabulary generated for a namespace and the imports it needs.
+ */
+interface VocabularyState {
+  vocabulary: Vocabulary
+  imports: Map<string, Import>
+}
+
+export class OwlImporter {
+
+  protected readonly bySubject = new Map<string, Triple[]>();
+  protected readonly objectCounts = new Map<string, number>();
+  protected readonly consumed = new Set<Triple>();
+  protected readonly declarations = new Map<string, DeclarationKind>();
+  protected readonly vocabularies = new Map<string, VocabularyState>();
+  protected readonly prefixes = new Map<string, string>();
+  protected readonly unsupported: UnsupportedConstruct[] = [];
+
+  constructor(readonly graph: RdfGraph, readonly options: OwlImportOptions = {}) {
+    for (const triple of graph.triples) {
+      const key = termKey(triple.subject);
+      const triples = this.bySubject.get(key) ?? [];
+      triples.push(triple);
+      this.bySubject.set(key, triples);
+      const objectKey = termKey(triple.object);
+      this.objectCounts.set(objectKey, (this.objectCounts.get(objectKey) ?? 0) + 1);
+    }
+  }
+
+  import(): OwlImport {
+    this.collectDeclarations();
+    const relationEntities = new Set<string>();
+    const forwardRelations = new Map<string, string>();
+    const reverseRelations = new Map<string, string>();
+    this.collectRelations(relationEntities, forwardRelations, reverseRelations);
+
+    for (const [iri, kind] of this.declarations) {
+      const state = this.getState(iri, kind);
+      if (!state) {
+        continue;
+      }
+      if (kind === 'ontology') {
+        this.importOntology(iri, state);
+        continue;
+      }
+      const forwardOf = [...forwardRelations].find(([, forward]) => forward === iri);
+      const reverseOf = [...reverseRelations].find(([, reverse]) => reverse === iri);
+      if (forwardOf || reverseOf) {
+        // Imported with their relation entity or unreified relation
+        continue;
+      }
+      const statement = this.importStatement(iri, kind, state, relationEntities, forwardRelations, reverseRelations);
+      if (statement) {
+        (statement as { $container: AstNode }).$container = state.vocabulary;
+        state.vocabulary.ownedStatements.push(statement);
+      }
+    }
+
+    this.reportUnconsumed();
+    const vocabularies = [...this.vocabularies.values()].map(({ vocabulary }) => {
+      AstUtils.linkContentToContainer(vocabulary, { deep: true });
+      return {
+        namespace: vocabulary.namespace,
+        prefix: vocabulary.prefix,
+        path: getNamespacePath(vocabulary.namespace),
+        text: printVocabulary(vocabulary, this.options.printer)
+      };
+    });
+    return { vocabularies, unsupported: this.unsupported };
+  }
+
+  /**
+   * Finds the declared ontologies and terms, in the order of the graph.
+   */
+  protected collectDeclarations(): void {
+    for (const triple of this.graph.triples) {
+      const kind = triple.predicate.value === `${RDF}type` && triple.object.termType === 'NamedNode'
+        ? DECLARATION_TYPES[triple.object.value]
+        : undefined;
+      if (!kind || triple.subject.termType !== 'NamedNode') {
+        continue;
+      }
+      const iri = triple.subject.value;
+      if (BUILT_IN_NAMESPACES.some(namespace => iri.startsWith(namespace))) {
+        // Redeclarations of RDFS and OWL terms (e.g. rdfs:label as an annotation property) are implied
+        this.consumed.add(triple);
+        continue;
+      }
+      if (!this.declarations.has(iri)) {
+        this.declarations.set(iri, kind);
+        this.consumed.add(triple);
+      } else if (this.declarations.get(iri) === kind) {
+        this.consumed.add(triple);
+      }
+    }
+  }
+
+  /**
+   * Finds the classes marked as relation entities, their forward relations (`oml:relationEntity`)
+   * and the reverse relations of forward and unreified relations: properties declared with
+   * `owl:inverseOf` alone, or undeclared inverses named in the namespace of the relation.
+   */
+  protected collectRelations(relationEntities: Set<string>, forwardRelations: Map<string, string>, reverseRelations: Map<string, string>): void {
+    for (const [iri, kind] of this.declarations) {
+      if (kind === 'class' && this.objects(iri, `${RDFS}subClassOf`).some(o => o.value === `${OML}RelationEntity`)) {
+        relationEntities.add(iri);
+      }
+    }
+    for (const [iri, kind] of this.declarations) {
+      if (kind !== 'object') {
+        continue;
+      }
+      const entity = this.objects(iri, `${OML}relationEntity`).find(o => relationEntities.has(o.value));
+      if (entity && !forwardRelations.has(entity.value)) {
+        forwardRelations.set(entity.value, iri);
+      }
+    }
+    for (const [iri, kind] of this.declarations) {
+      if (kind !== 'object' || [...forwardRelations.values()].includes(iri)) {
+        continue;
+      }
+      const inverse = this.objects(iri, `${OWL}inverseOf`).find(o => this.declarations.get(o.value) === 'object');
+      const ownAxioms = this.triples(iri).some(t => [`${RDFS}domain`, `${RDFS}range`, `${RDFS}subPropertyOf`, `${OWL}equivalentProperty`].includes(t.predicate.value));
+      if (inverse && !ownAxioms && !reverseRelations.has(inverse.value) && ![...reverseRelations.values()].includes(inverse.value)) {
+        reverseRelations.set(inverse.value, iri);
+      }
+    }
+    const inverses = [...this.bySubject.values()].flat()
+      .filter(t => t.predicate.value === `${OWL}inverseOf` && t.subject.termType === 'NamedNode' && t.object.termType === 'NamedNode');
+    for (const [iri, kind] of this.declarations) {
+      if (kind !== 'object' || reverseRelations.has(iri) || [...reverseRelations.values()].includes(iri)) {
+        continue;
+      }
+      const reverse = inverses
+        .map(t => t.subject.value === iri ? t.object.value : t.object.value === iri ? t.subject.value : undefined)
+        .find(other => other !== undefined && !this.declarations.has(other) && splitIri(other)[0] === splitIri(iri)[0]
+          && ID_PATTERN.test(splitIri(other)[1]) && ![...reverseRelations.values()].includes(other));
+      if (reverse) {
+        reverseRelations.set(iri, reverse);
+      }
+    }
+  }
+
+  /**
+   * Returns the vocabulary of the namespace of a declaration, creating it on first use.
+   */
+  protected getState(iri: string, kind: DeclarationKind): VocabularyState | undefined {
+    let namespace: string;
+    if (kind === 'ontology') {
+      // The IRI of an exported ontology is its namespace without the separator
+      namespace = [...this.declarations.keys()]
+        .map(term => splitIri(term)[0])
+        .find(candidate => candidate === `${iri}#` || candidate === `${iri}/`) ?? (/[#/]$/.test(iri) ? iri : `${iri}#`);
+    } else {
+      const [termNamespace, name] = splitIri(iri);
+      if (!ID_PATTERN.test(name)) {
+        this.reportSubject(iri, `'${name}' is not a valid OML name`);
+        return undefined;
+      }
+      namespace = termNamespace;
+    }
+    let state = this.vocabularies.get(namespace);
+    if (!state) {
+      const vocabulary = makeNode<Vocabulary>('Vocabulary', {
+        namespace,
+        prefix: '',
+        ownedAnnotations: [],
+        ownedImports: [],
+        ownedStatements: []
+      });
+      state = { vocabulary, imports: new Map() };
+      this.vocabularies.set(namespace, state);
+      vocabulary.prefix = this.getPrefix(namespace);
+    }
+    return state;
+  }
+
+  /**
+   * Returns the prefix of a namespace: a known one if any, otherwise one derived from its last segment.
+   */
+  protected getPrefix(namespace: string): string {
+    const existing = this.prefixes.get(namespace);
+    if (existing) {
+      return existing;
+    }
+    const used = new Set(this.prefixes.values());
+    const known = [...Object.entries(this.options.prefixes ?? {}), ...Object.entries(STANDARD_PREFIXES)]
+      .find(([prefix, iri]) => iri === namespace && prefix && ID_PATTERN.test(prefix) && !used.has(prefix) && !getKeywords().has(prefix));
+    let prefix = known?.[0];
+    if (!prefix) {
+      const segment = namespace.replace(/[#/]+$/, '').split(/[/#:]/).pop() ?? '';
+      const base = segment.replace(/\.[a-zA-Z0-9]+$/, '').replace(/[^a-zA-Z0-9_-]/g, '').toLowerCase();
+      const candidate = /^[a-z]/.test(base) ? base : `ns${base}`;
+      prefix = candidate;
+      for (let index = 1; used.has(prefix) || getKeywords().has(prefix); index++) {
+        prefix = `${candidate}${index}`;
+      }
+    }
+    this.prefixes.set(namespace, prefix);
+    return prefix;
+  }
+
+  protected importOntology(iri: string, state: VocabularyState): void {
+    for (const triple of this.triples(iri, `${OWL}imports`)) {
+      if (triple.object.termType === 'NamedNode') {
+        const imported = triple.object.value;
+        // Any namespace the graph uses tells which separator the imported ontology has
+        const namespace = [...this.vocabularies.keys(), ...Object.values(this.options.prefixes ?? {}), ...this.getUsedNamespaces()]
+          .find(candidate => candidate.replace(/[#/]$/, '') === imported) ?? (/[#/]$/.test(imported) ? imported : `${imported}#`);
+        this.addImport(state, namespace);
+        this.consumed.add(triple);
+      }
+    }
+    state.vocabulary.ownedAnnotations.push(...this.importAnnotations(iri, state));
+  }
+
+  protected getUsedNamespaces(): Set<string> {
+    return new Set(this.graph.triples
+      .flatMap(t => [t.subject, t.predicate, t.object])
+      .filter(term => term.termType === 'NamedNode')
+      .map(term => splitIri(term.value)[0]));
+  }
+
+  protected importStatement(
+    iri: string,
+    kind: DeclarationKind,
+    state: VocabularyState,
+    relationEntities: Set<string>,
+    forwardRelations: Map<string, string>,
+    reverseRelations: Map<string, string>
+  ): VocabularyStatement | undefined {
+    const name = this.escapeName(splitIri(iri)[1]);
+    let statement: VocabularyStatement;
+    switch (kind) {
+      case 'class': {
+        const markers = this.triples(iri, `${RDFS}subClassOf`).filter(t => t.object.value.startsWith(OML));
+        markers.forEach(t => this.consumed.add(t));
+        const type = relationEntities.has(iri)
+          ? 'RelationEntity'
+          : markers.some(t => t.object.value === `${OML}Aspect`) ? 'Aspect' : 'Concept';
+        statement = makeNode(type, { name, ownedKeys: [], ownedSpecializations: [], ownedEquivalences: [], ownedPropertyRestrictions: [] });
+        this.importEntityAxioms(iri, statement, state);
+        if (type === 'RelationEntity') {
+          this.importRelationEntity(iri, statement, state, forwardRelations, reverseRelations);
+        }
+        break;
+      }
+      case 'object':
+        statement = makeNode('UnreifiedRelation', { name, sources: [], targets: [], ownedSpecializations: [], ownedEquivalences: [] });
+        this.importRelationEnds(iri, statement, state);
+        this.importReverseRelation(iri, statement, state, reverseRelations);
+        this.importPropertyAxioms(iri, statement, state);
+        break;
+      case 'data': {
+        statement = makeNode('ScalarProperty', {
+          name,
+          domains: this.importReferences(iri, `${RDFS}domain`, state),
+          ranges: this.importReferences(iri, `${RDFS}range`, state),
+          functional: this.importCharacteristic(iri, 'FunctionalProperty'),
+          ownedSpecializations: [],
+          ownedEquivalences: []
+        });
+        this.importPropertyAxioms(iri, statement, state);
+        break;
+      }
+      case 'annotation':
+        statement = makeNode('AnnotationProperty', { name, ownedSpecializations: [], ownedEquivalences: [] });
+        this.importPropertyAxioms(iri, statement, state);
+        break;
+      case 'datatype':
+        statement = makeNode('Scalar', { name, ownedSpecializations: [], ownedEquivalences: [] });
+        this.importScalarAxioms(iri, statement, state);
+        break;
+      default:
+        return undefined;
+    }
+    (statement as { ownedAnnotations: Annotation[] }).ownedAnnotations = this.importAnnotations(iri, state);
+    return statement;
+  }
+
+  /**
+   * Specializations, equivalences, restrictions, keys and enumerations of an entity.
+   */
+  protected importEntityAxioms(iri: string, entity: VocabularyStatement, state: VocabularyState): void {
+    const target = entity as unknown as {
+      ownedSpecializations: AstNode[], ownedEquivalences: AstNode[], ownedPropertyRestrictions: AstNode[],
+      ownedKeys: AstNode[], ownedEnumeration?: AstNode
+    };
+    for (const triple of this.triples(iri, `${RDFS}subClassOf`)) {
+      if (this.consumed.has(triple)) {
+        continue;
+      }
+      if (triple.object.termType === 'NamedNode') {
+        const superTerm = this.reference(triple.object.value, state);
+        if (superTerm) {
+          target.ownedSpecializations.push(makeNode('SpecializationAxiom', { superTerm: makeRef(superTerm) }));
+          this.consumed.add(triple);
+        }
+      } else if (triple.object.termType === 'BlankNode') {
+        const used: Triple[] = [];
+        const restriction = this.importRestriction(triple.object, state, used);
+        if (restriction) {
+          target.ownedPropertyRestrictions.push(restriction);
+          [triple, ...used].forEach(t => this.consumed.add(t));
+        }
+      }
+    }
+
+    for (const triple of this.triples(iri, `${OWL}equivalentClass`)) {
+      const used: Triple[] = [];
+      if (triple.object.termType === 'NamedNode') {
+        const superTerm = this.reference(triple.object.value, state);
+        if (superTerm) {
+          target.ownedEquivalences.push(makeNode('EntityEquivalenceAxiom', { superTerms: [makeRef(superTerm)], ownedPropertyRestrictions: [] }));
+          this.consumed.add(triple);
+        }
+        continue;
+      }
+      if (triple.object.termType !== 'BlankNode') {
+        continue;
+      }
+      const fields = this.readBlankNode(triple.object, [`${RDF}type`, `${OWL}intersectionOf`, `${OWL}oneOf`], used);
+      const intersection = fields?.get(`${OWL}intersectionOf`);
+      const oneOf = fields?.get(`${OWL}oneOf`);
+      if (intersection?.length === 1 && !oneOf) {
+        const equivalence = this.importIntersection(intersection[0], state, used);
+        if (equivalence) {
+          target.ownedEquivalences.push(equivalence);
+          [triple, ...used].forEach(t => this.consumed.add(t));
+        }
+      } else if (oneOf?.length === 1 && !intersection && entity.$type === 'Concept' && !target.ownedEnumeration) {
+        const instances = this.readList(oneOf[0], used)?.map(item => item.termType === 'NamedNode' ? this.reference(item.value, state) : undefined);
+        if (instances && instances.every(instance => instance !== undefined)) {
+          target.ownedEnumeration = makeNode('InstanceEnumerationAxiom', { instances: instances.map(instance => makeRef(instance!)) });
+          [triple, ...used].forEach(t => this.consumed.add(t));
+        }
+      }
+    }
+
+    for (const triple of this.triples(iri, `${OWL}hasKey`)) {
+      const used: Triple[] = [];
+      const properties = this.readList(triple.object, used)?.map(item => item.termType === 'NamedNode' ? this.reference(item.value, state) : undefined);
+      if (properties && properties.length > 0 && properties.every(property => property !== undefined)) {
+        target.ownedKeys.push(makeNode('KeyAxiom', { properties: properties.map(property => makeRef(property!)) }));
+        [triple, ...used].forEach(t => this.consumed.add(t));
+      }
+    }
+  }
+
+  /**
+   * An intersection of named classes and restrictions, as the operand of an equivalence.
+   */
+  protected importIntersection(list: RdfTerm, state: VocabularyState, used: Triple[]): AstNode | undefined {
+    const items = this.readList(list, used);
+    if (!items || items.length === 0) {
+      return undefined;
+    }
+    const superTerms: Reference<AstNode>[] = [];
+    const restrictions: PropertyRestrictionAxiom[] = [];
+    for (const item of items) {
+      if (item.termType === 'NamedNode') {
+        const superTerm = this.reference(item.value, state);
+        if (!superTerm) {
+          return undefined;
+        }
+        superTerms.push(makeRef(superTerm));
+      } else {
+        const restriction = item.termType === 'BlankNode' ? this.importRestriction(item, state, used) : undefined;
+        if (!restriction) {
+          return undefined;
+        }
+        restrictions.push(restriction);
+      }
+    }
+    // The grammar needs at least one class before the restrictions
+    return superTerms.length > 0
+      ? makeNode('EntityEquivalenceAxiom', { superTerms, ownedPropertyRestrictions: restrictions })
+      : undefined;
+  }
+
+  protected importRestriction(node: RdfSubject, state: VocabularyState, used: Triple[]): PropertyRestrictionAxiom | undefined {
+    const fields = this.readBlankNode(node, [`${RDF}type`, ...RESTRICTION_PREDICATES], used);
+    const single = (predicate: string) => {
+      const values = fields?.get(`${OWL}${predicate}`);
+      return values?.length === 1 ? values[0] : undefined;
+    };
+    const propertyNode = single('onProperty');
+    const property = propertyNode?.termType === 'NamedNode' ? this.reference(propertyNode.value, state) : undefined;
+    if (!fields || !property || !fields.get(`${RDF}type`)?.some(type => type.value === `${OWL}Restriction`)) {
+      return undefined;
+    }
+    const named = (term: RdfTerm | undefined) => term?.termType === 'NamedNode' ? this.reference(term.value, state) : undefined;
+
+    for (const kind of ['all', 'some'] as const) {
+      const range = named(single(`${kind}ValuesFrom`));
+      if (range) {
+        return makeNode<PropertyRestrictionAxiom>('PropertyRangeRestrictionAxiom', { kind, property: makeRef(property), range: makeRef(range) });
+      }
+    }
+    for (const [predicate, kind] of Object.entries(CARDINALITIES)) {
+      const cardinality = single(predicate);
+      if (cardinality?.termType !== 'Literal' || !/^\d+$/.test(cardinality.value)) {
+        continue;
+      }
+      const rangeNode = single('onClass') ?? single('onDataRange');
+      const range = named(rangeNode);
+      if (rangeNode && !range) {
+        return undefined;
+      }
+      return makeNode<PropertyRestrictionAxiom>('PropertyCardinalityRestrictionAxiom', {
+        kind,
+        property: makeRef(property),
+        cardinality: Number(cardinality.value),
+        range: range ? makeRef(range) : undefined
+      });
+    }
+    const value = single('hasValue');
+    if (value?.termType === 'Literal') {
+      const literalValue = this.literal(value, state);
+      return literalValue ? makeNode<PropertyRestrictionAxiom>('PropertyValueRestrictionAxiom', { property: makeRef(property), literalValue }) : undefined;
+    }
+    if (value?.termType === 'NamedNode') {
+      const referencedValue = this.reference(value.value, state);
+      return referencedValue ? makeNode<PropertyRestrictionAxiom>('PropertyValueRestrictionAxiom', { property: makeRef(property), referencedValue: makeRef(referencedValue) }) : undefined;
+    }
+    if (single('hasSelf')?.value === 'true') {
+      return makeNode<PropertyRestrictionAxiom>('PropertySelfRestrictionAxiom', { property: makeRef(property) });
+    }
+    return undefined;
+  }
+
+  /**
+   * The sources, targets, characteristics and forward and reverse relations of a relation entity,
+   * which the export puts on its forward relation.
+   */
+  protected importRelationEntity(
+    iri: string,
+    entity: VocabularyStatement,
+    state: VocabularyState,
+    forwardRelations: Map<string, string>,
+    reverseRelations: Map<string, string>
+  ): void {
+    const forward = forwardRelations.get(iri);
+    if (!forward) {
+      return;
+    }
+    this.triples(forward, `${OML}relationEntity`).filter(t => t.object.value === iri).forEach(t => this.consumed.add(t));
+    this.triples(forward, `${RDF}type`).filter(t => t.object.value === `${OWL}ObjectProperty`).forEach(t => this.consumed.add(t));
+    this.importRelationEnds(forward, entity, state);
+    const forwardName = this.escapeName(splitIri(forward)[1]);
+    if (splitIri(forward)[0] !== state.vocabulary.namespace || !ID_PATTERN.test(splitIri(forward)[1])) {
+      this.reportSubject(forward, `The forward relation must be named in the namespace of relation entity <${iri}>`);
+      return;
+    }
+    (entity as unknown as { forwardRelation: AstNode }).forwardRelation = makeNode('ForwardRelation', {
+      name: forwardName,
+      ownedAnnotations: this.importAnnotations(forward, state)
+    });
+    this.importReverseRelation(forward, entity, state, reverseRelations);
+  }
+
+  /**
+   * Domains and ranges of an object property as the sources and targets of a relation, with its characteristics.
+   */
+  protected importRelationEnds(iri: string, relation: VocabularyStatement, state: VocabularyState): void {
+    const target = relation as unknown as Record<string, unknown>;
+    target.sources = this.importReferences(iri, `${RDFS}domain`, state);
+    target.targets = this.importReferences(iri, `${RDFS}range`, state);
+    for (const [characteristic, flag] of Object.entries(CHARACTERISTICS)) {
+      target[flag] = this.importCharacteristic(iri, characteristic);
+    }
+  }
+
+  protected importReverseRelation(iri: string, relation: VocabularyStatement, state: VocabularyState, reverseRelations: Map<string, string>): void {
+    const reverse = reverseRelations.get(iri);
+    if (!reverse) {
+      return;
+    }
+    const [namespace, name] = splitIri(reverse);
+    if (namespace !== state.vocabulary.namespace || !ID_PATTERN.test(name)) {
+      this.reportSubject(reverse, `The reverse relation must be named in the namespace of <${iri}>`);
+      return;
+    }
+    this.triples(reverse, `${OWL}inverseOf`).filter(t => t.object.value === iri).forEach(t => this.consumed.add(t));
+    this.triples(iri, `${OWL}inverseOf`).filter(t => t.object.value === reverse).forEach(t => this.consumed.add(t));
+    (relation as unknown as { reverseRelation: AstNode }).reverseRelation = makeNode('ReverseRelation', {
+      name: this.escapeName(name),
+      ownedAnnotations: this.importAnnotations(reverse, state)
+    });
+  }
+
+  protected importPropertyAxioms(iri: string, property: VocabularyStatement, state: VocabularyState): void {
+    const target = property as unknown as { ownedSpecializations: AstNode[], ownedEquivalences: AstNode[] };
+    target.ownedSpecializations.push(...this.importReferences(iri, `${RDFS}subPropertyOf`, state)
+      .map(superTerm => makeNode('SpecializationAxiom', { superTerm })));
+    target.ownedEquivalences.push(...this.importReferences(iri, `${OWL}equivalentProperty`, state)
+      .map(superTerm => makeNode('PropertyEquivalenceAxiom', { superTerms: [superTerm] })));
+  }
+
+  /**
+   * Equivalences to named datatypes and datatype restrictions, and enumerations of literals.
+   */
+  protected importScalarAxioms(iri: string, scalar: VocabularyStatement, state: VocabularyState): void {
+    const target = scalar as unknown as { ownedEquivalences: AstNode[], ownedEnumeration?: AstNode };
+    for (const triple of this.triples(iri, `${OWL}equivalentClass`)) {
+      const used: Triple[] = [];
+      if (triple.object.termType === 'NamedNode') {
+        const superTerm = this.reference(triple.object.value, state);
+        if (superTerm) {
+          target.ownedEquivalences.push(this.makeScalarEquivalence(superTerm));
+          this.consumed.add(triple);
+        }
+        continue;
+      }
+      const fields = triple.object.termType === 'BlankNode'
+        ? this.readBlankNode(triple.object, [`${RDF}type`, `${OWL}onDatatype`, `${OWL}withRestrictions`, `${OWL}oneOf`], used)
+        : undefined;
+      const onDatatype = fields?.get(`${OWL}onDatatype`);
+      const withRestrictions = fields?.get(`${OWL}withRestrictions`);
+      const oneOf = fields?.get(`${OWL}oneOf`);
+      if (onDatatype?.length === 1 && onDatatype[0].termType === 'NamedNode' && withRestrictions?.length === 1 && !oneOf) {
+        const superTerm = this.reference(onDatatype[0].value, state);
+        const equivalence = superTerm && this.importFacets(this.makeScalarEquivalence(superTerm), withRestrictions[0], state, used);
+        if (equivalence) {
+          target.ownedEquivalences.push(equivalence);
+          [triple, ...used].forEach(t => this.consumed.add(t));
+        }
+      } else if (oneOf?.length === 1 && !onDatatype && !withRestrictions && !target.ownedEnumeration) {
+        const literals = this.readList(oneOf[0], used)?.map(item => item.termType === 'Literal' ? this.literal(item, state) : undefined);
+        if (literals && literals.every(value => value !== undefined)) {
+          target.ownedEnumeration = makeNode('LiteralEnumerationAxiom', { literals });
+          [triple, ...used].forEach(t => this.consumed.add(t));
+        }
+      }
+    }
+  }
+
+  protected makeScalarEquivalence(superTerm: string): AstNode {
+    return makeNode('ScalarEquivalenceAxiom', {
+      superTerms: [makeRef(superTerm)],
+      ...Object.fromEntries(Object.values(FACETS).map(facet => [facet, []]))
+    });
+  }
+
+  protected importFacets(equivalence: AstNode, list: RdfTerm, state: VocabularyState, used: Triple[]): AstNode | undefined {
+    const target = equivalence as unknown as Record<string, unknown[]>;
+    for (const item of this.readList(list, used) ?? []) {
+      const fields = item.termType === 'BlankNode' ? this.readBlankNode(item, Object.keys(FACETS).map(facet => `${XSD}${facet}`), used) : undefined;
+      const [predicate, values] = fields && fields.size === 1 ? [...fields][0] : [];
+      const facet = predicate && FACETS[predicate.substring(XSD.length) as keyof typeof FACETS];
+      const value = values?.length === 1 && values[0].termType === 'Literal' ? values[0] : undefined;
+      if (!facet || !value) {
+        return undefined;
+      }
+      if (facet === 'length' || facet === 'minLength' || facet === 'maxLength') {
+        if (!/^\d+$/.test(value.value)) {
+          return undefined;
+        }
+        target[facet].push(Number(value.value));
+      } else if (facet === 'pattern') {
+        target[facet].push(value.value);
+      } else if (facet === 'language') {
+        if (!ID_PATTERN.test(value.value)) {
+          return undefined;
+        }
+        target[facet].push(value.value);
+      } else {
+        const bound = this.literal(value, state);
+        if (!bound) {
+          return undefined;
+        }
+        target[facet].push(bound);
+      }
+    }
+    return equivalence;
+  }
+
+  /**
+   * Annotations are the remaining statements of a subject through annotation properties, one per property.
+   */
+  protected importAnnotations(iri: string, state: VocabularyState): Annotation[] {
+    const annotations = new Map<string, Annotation>();
+    for (const triple of this.triples(iri)) {
+      if (this.consumed.has(triple) || !this.isAnnotationProperty(triple.predicate.value)) {
+        continue;
+      }
+      let value: Literal | string | undefined;
+      if (triple.object.termType === 'Literal') {
+        value = this.literal(triple.object, state);
+      } else if (triple.object.termType === 'NamedNode') {
+        // Only terms can be referenced; other IRIs are kept as URIs
+        value = this.declarations.has(triple.object.value)
+          ? this.reference(triple.object.value, state)
+          : this.literal({ termType: 'Literal', value: triple.object.value, datatype: `${XSD}anyURI` }, state);
+      }
+      const property = value !== undefined ? this.reference(triple.predicate.value, state) : undefined;
+      if (value === undefined || !property) {
+        continue;
+      }
+      let annotation = annotations.get(property);
+      if (!annotation) {
+        annotation = makeNode<Annotation>('Annotation', { property: makeRef(property), literalValues: [], referencedValues: [] });
+        annotations.set(property, annotation);
+      }
+      if (typeof value === 'string') {
+        annotation.referencedValues.push(makeRef(value));
+      } else {
+        annotation.literalValues.push(value);
+      }
+      this.consumed.add(triple);
+    }
+    return [...annotations.values()];
+  }
+
+  protected isAnnotationProperty(iri: string): boolean {
+    if (ANNOTATION_PROPERTIES.has(iri) || this.declarations.get(iri) === 'annotation') {
+      return true;
+    }
+    // Undeclared properties outside of the built-in vocabularies (e.g. Dublin Core or SKOS) are taken as annotations
+    return !this.declarations.has(iri) && !BUILT_IN_NAMESPACES.some(namespace => iri.startsWith(namespace));
+  }
+
+  /**
+   * References to the named objects of a subject and predicate; the other objects are left for the report.
+   */
+  protected importReferences(iri: string, predicate: string, state: VocabularyState): Reference<AstNode>[] {
+    const references: Reference<AstNode>[] = [];
+    for (const triple of this.triples(iri, predicate)) {
+      const reference = triple.object.termType === 'NamedNode' ? this.reference(triple.object.value, state) : undefined;
+      if (reference) {
+        references.push(makeRef(reference));
+        this.consumed.add(triple);
+      }
+    }
+    return references;
+  }
+
+  protected importCharacteristic(iri: string, characteristic: string): boolean {
+    const triples = this.triples(iri, `${RDF}type`).filter(t => t.object.value === `${OWL}${characteristic}`);
+    triples.forEach(t => this.consumed.add(t));
+    return triples.length > 0;
+  }
+
+  /**
+   * Returns how a term is referenced from a vocabulary: by name in its own namespace, otherwise
+   * by a qualified name whose namespace is imported. Undefined when the IRI has no valid name.
+   */
+  protected reference(iri: string, state: VocabularyState): string | undefined {
+    const [namespace, name] = splitIri(iri);
+    if (!ID_PATTERN.test(name)) {
+      return undefined;
+    }
+    if (namespace === state.vocabulary.namespace) {
+      return this.escapeName(name);
+    }
+    this.addImport(state, namespace);
+    return `${this.getPrefix(namespace)}:${name}`;
+  }
+
+  protected addImport(state: VocabularyState, namespace: string): void {
+    if (namespace === state.vocabulary.namespace || state.imports.has(namespace)) {
+      return;
+    }
+    const ownedImport = makeNode<Import>('Import', {
+      kind: 'extends',
+      imported: makeRef(`<${namespace}>`),
+      prefix: this.getPrefix(namespace)
+    });
+    state.imports.set(namespace, ownedImport);
+    state.vocabulary.ownedImports.push(ownedImport);
+  }
+
+  protected literal(term: RdfLiteral, state: VocabularyState): Literal | undefined {
+    const { value, datatype, language } = term;
+    switch (datatype) {
+      case `${XSD}integer`:
+        if (/^[-+]?\d+$/.test(value) && Number.isSafeInteger(Number(value))) {
+          return makeNode<Literal>('IntegerLiteral', { value: Number(value) });
+        }
+        break;
+      case `${XSD}decimal`:
+        if (/^[-+]?(\d+(\.\d*)?|\.\d+)$/.test(value)) {
+          return makeNode<Literal>('DecimalLiteral', { value: Number(value) });
+        }
+        break;
+      case `${XSD}double`:
+        if (!Number.isNaN(Number(value)) && /\d/.test(value)) {
+          return makeNode<Literal>('DoubleLiteral', { value: Number(value) });
+        }
+        break;
+      case `${XSD}boolean`:
+        if (['true', 'false', '1', '0'].includes(value)) {
+          return makeNode<Literal>('BooleanLiteral', { value: value === 'true' || value === '1' });
+        }
+        break;
+      case `${RDF}langString`:
+        return language && ID_PATTERN.test(language) ? makeNode<Literal>('QuotedLiteral', { value, langTag: language }) : undefined;
+      case `${XSD}string`:
+        return makeNode<Literal>('QuotedLiteral', { value });
+    }
+    const type = this.reference(datatype, state);
+    return type ? makeNode<Literal>('QuotedLiteral', { value, type: makeRef(type) }) : undefined;
+  }
+
+  /**
+   * Local names that are keywords or would read as numbers are escaped with `^`.
+   */
+  protected escapeName(name: string): string {
+    return getKeywords().has(name) || /^[-+.\d]/.test(name) ? `^${name}` : name;
+  }
+
+  protected triples(iri: string, predicate?: string): Triple[] {
+    const triples = this.bySubject.get(`<${iri}>`) ?? [];
+    return predicate ? triples.filter(t => t.predicate.value === predicate) : triples;
+  }
+
+  protected objects(iri: string, predicate: string): RdfTerm[] {
+    return this.triples(iri, predicate).map(t => t.object);
+  }
+
+  /**
+   * Reads the statements of a blank node, grouped by predicate, when they only use the allowed predicates.
+   */
+  protected readBlankNode(node: RdfTerm, allowed: string[], used: Triple[]): Map<string, RdfTerm[]> | undefined {
+    if (node.termType !== 'BlankNode' || this.objectCounts.get(termKey(node)) !== 1) {
+      return undefined;
+    }
+    const triples = this.bySubject.get(termKey(node)) ?? [];
+    if (triples.some(t => !allowed.includes(t.predicate.value) || this.consumed.has(t))) {
+      return undefined;
+    }
+    const fields = new Map<string, RdfTerm[]>();
+    for (const triple of triples) {
+      fields.set(triple.predicate.value, [...fields.get(triple.predicate.value) ?? [], triple.object]);
+    }
+    used.push(...triples);
+    return fields;
+  }
+
+  /**
+   * Reads the items of an RDF collection.
+   */
+  protected readList(head: RdfTerm, used: Triple[]): RdfTerm[] | undefined {
+    const items: RdfTerm[] = [];
+    let current = head;
+    while (current.value !== `${RDF}nil` || current.termType !== 'NamedNode') {
+      const fields = this.readBlankNode(current, [`${RDF}first`, `${RDF}rest`, `${RDF}type`], used);
+      const first = fields?.get(`${RDF}first`);
+      const rest = fields?.get(`${RDF}rest`);
+      if (first?.length !== 1 || rest?.length !== 1) {
+        return undefined;
+      }
+      items.push(first[0]);
+      current = rest[0];
+    }
+    return items;
+  }
+
+  protected reportSubject(iri: string, reason: string): void {
+    for (const triple of this.triples(iri)) {
+      this.consumed.add(triple);
+      this.ignoreObject(triple.object);
+    }
+    this.unsupported.push({ subject: iri, construct: 'declaration', reason });
+  }
+
+  /**
+   * Marks the statements of a blank node, and of the blank nodes it uses, as reported.
+   */
+  protected ignoreObject(object: RdfTerm): void {
+    if (object.termType !== 'BlankNode') {
+      return;
+    }
+    for (const triple of this.bySubject.get(termKey(object)) ?? []) {
+      if (!this.consumed.has(triple)) {
+        this.consumed.add(triple);
+        this.ignoreObject(triple.object);
+      }
+    }
+  }
+
+  /**
+   * Reports the statements nothing was imported from, grouped by subject and predicate. Blank nodes
+   * only used by a reported statement are part of that statement.
+   */
+  protected reportUnconsumed(): void {
+    const reported = new Map<string, UnsupportedConstruct>();
+    for (const triple of this.graph.triples) {
+      if (this.consumed.has(triple)) {
+        continue;
+      }
+      if (triple.subject.termType === 'BlankNode' && this.objectCounts.has(termKey(triple.subject))) {
+        continue;
+      }
+      const predicate = this.compact(triple.predicate.value);
+      const construct = predicate === 'rdf:type' && triple.object.termType === 'NamedNode'
+        ? `rdf:type ${this.compact(triple.object.value)}`
+        : predicate;
+      const subject = triple.subject.termType === 'NamedNode' ? triple.subject.value : `_:${triple.subject.value}`;
+      const key = `${subject} ${construct}`;
+      if (!reported.has(key)) {
+        reported.set(key, { subject, construct, reason: this.describeUnsupported(triple) });
+      }
+    }
+    this.unsupported.push(...reported.values());
+  }
+
+  protected describeUnsupported(triple: Triple): string {
+    const subjectTypes = triple.subject.termType === 'NamedNode' ? this.objects(triple.subject.value, `${RDF}type`).map(o => o.value) : [];
+    if (subjectTypes.some(type => type.startsWith(SWRL))) {
+      return 'SWRL rules are not imported';
+    }
+    if (subjectTypes.includes(`${OWL}NamedIndividual`) || (triple.subject.termType === 'NamedNode' && !this.declarations.has(triple.subject.value))) {
+      return 'Individuals and statements about undeclared resources belong in OML descriptions';
+    }
+    if (triple.object.termType === 'BlankNode') {
+      return `The expression given to ${this.compact(triple.predicate.value)} has no OML equivalent`;
+    }
+    return `${this.compact(triple.predicate.value)} has no OML equivalent here`;
+  }
+
+  protected compact(iri: string): string {
+    const [namespace, name] = splitIri(iri);
+    const prefix = this.prefixes.get(namespace)
+      ?? Object.entries({ ...STANDARD_PREFIXES, ...this.options.prefixes }).find(([, candidate]) => candidate === namespace)?.[0];
+    return prefix ? `${prefix}:${name}` : `<${iri}>`;
+  }
+}
@@ -0,0 +1,587 @@
+/**
+ * OML to OWL
+ * Maps OML ontologies to OWL 2 in RDF, following the OWL 2 RDF mapping and SWRL for rules
+ *
+ * - Concepts, aspects and relation entities become classes (subclasses of oml:Concept, oml:Aspect
+ *   and oml:RelationEntity, so that the kind of entity survives the export)
+ * - Forward and unreified relations become object properties, reverse relations their inverses
+ * - Scalar properties become data properties, scalars datatypes and annotation properties stay annotation properties
+ * - Restrictions, keys and enumerations become the matching class expressions and axioms
+ * - Instances become named individuals; relation instances also link their sources and targets
+ *   through the forward relation of their types
+ */
+
+import type { AstNode } from 'langium';
+import { AstUtils } from 'langium';
+import {
+  isAnnotationProperty,
+  isAnonymousConceptInstance,
+  isAnonymousRelationInstance,
+  isAspect,
+  isBooleanLiteral,
+  isBuiltIn,
+  isBuiltInPredicate,
+  isConcept,
+  isConceptInstance,
+  isDecimalLiteral,
+  isDifferentFromPredicate,
+  isDoubleLiteral,
+  isIntegerLiteral,
+  isOntology,
+  isPropertyCardinalityRestrictionAxiom,
+  isPropertyPredicate,
+  isPropertyRangeRestrictionAxiom,
+  isPropertySelfRestrictionAxiom,
+  isPropertyValueRestrictionAxiom,
+  isRelationEntity,
+  isRelationEntityPredicate,
+  isRelationInstance,
+  isRule,
+  isSameAsPredicate,
+  isScalar,
+  isScalarProperty,
+  isTypePredicate,
+  isUnreifiedRelation
+} from './generated/ast.js';
+import type {
+  Annotation,
+  AnonymousInstance,
+  Argument,
+  Entity,
+  EntityEquivalenceAxiom,
+  Literal,
+  NamedInstance,
+  Ontology,
+  Predicate,
+  PropertyRestrictionAxiom,
+  PropertyValueAssertion,
+  RelationEntity,
+  Rule,
+  Scalar,
+  ScalarEquivalenceAxiom,
+  UnreifiedRelation
+} from './generated/ast.js';
+import { getLexicalForm } from './oml-literals.js';
+import { getImportClosure, OntologyClosure, resolveMember } from './oml-semantics.js';
+import { literal, namedNode, OML, OWL, RDF, RDFS, RdfGraph, serializeGraph, STANDARD_PREFIXES, SWRL, XSD } from './oml-rdf.js';
+import type { NamedNode, RdfFormat, RdfLiteral, RdfSubject, RdfTerm } from './oml-rdf.js';
+
+export interface OwlExportOptions {
+  /** Also export the ontologies imported by the ontology, transitively. Bundles always export their closure. */
+  closure?: boolean
+}
+
+export interface OwlExport {
+  graph: RdfGraph
+  /** The prefixes of the exported and imported ontologies, and of the standard vocabularies */
+  prefixes: Record<string, string>
+  /** The exported ontologies, the requested one first */
+  ontologies: Ontology[]
+}
+
+/**
+ * Returns the IRI of an ontology: its namespace without the trailing `#` or `/`.
+ */
+export function getOntologyIri(ontology: Ontology): string {
+  return ontology.namespace.replace(/[#/]$/, '');
+}
+
+/**
+ * Returns the IRI of a member (or of the member a `ref` statement points to).
+ */
+export function getMemberIri(member: AstNode): string | undefined {
+  const declaration = resolveMember(member);
+  const name = (declaration as { name?: string }).name;
+  const ontology = AstUtils.getContainerOfType(declaration, isOntology);
+  return name && ontology ? `${ontology.namespace}${name}` : undefined;
+}
+
+/**
+ * Maps an ontology (or its closure) to OWL.
+ */
+export function exportOntologyToOwl(ontology: Ontology, options: OwlExportOptions = {}): OwlExport {
+  return new OwlExporter(ontology).export(options);
+}
+
+/**
+ * Maps several ontologies, e.g. all those of a workspace, to one OWL graph. Each ontology is
+ * mapped once, in the context of its own import closure.
+ */
+export function exportOntologiesToOwl(ontologies: Ontology[]): OwlExport {
+  const graph = new RdfGraph();
+  for (const ontology of ontologies) {
+    new OwlExporter(ontology, graph).exportOntologies([ontology]);
+  }
+  return { graph, prefixes: getOntologyPrefixes(ontologies), ontologies };
+}
+
+/**
+ * Maps an ontology (or its closure) to OWL and serializes it in the given format.
+ */
+export function serializeOntology(ontology: Ontology, format: RdfFormat, options: OwlExportOptions = {}): string {
+  const { graph, prefixes } = exportOntologyToOwl(ontology, options);
+  return serializeGraph(graph, format, prefixes);
+}
+
+/**
+ * Returns the standard prefixes and those of the given ontologies and their imports, keeping the
+ * first prefix of each namespace.
+ */
+export function getOntologyPrefixes(ontologies: Ontology[]): Record<string, string> {
+  const prefixes: Record<string, string> = { ...STANDARD_PREFIXES };
+  const add = (prefix: string | undefined, namespace: string | undefined) => {
+    if (prefix && namespace && !(prefix in prefixes) && !Object.values(prefixes).includes(namespace)) {
+      prefixes[prefix] = namespace;
+    }
+  };
+  for (const ontology of ontologies) {
+    add(ontology.prefix, ontology.namespace);
+    for (const ownedImport of ontology.ownedImports) {
+      add(ownedImport.prefix ?? ownedImport.imported?.ref?.prefix, ownedImport.imported?.ref?.namespace);
+    }
+  }
+  return prefixes;
+}
+
+/**
+ * Maps an OML literal to an RDF literal: numbers and booleans to their XSD datatypes, quoted
+ * literals to their language or type (`xsd:string` when untyped).
+ */
+export function getRdfLiteral(value: Literal): RdfLiteral {
+  const lexical = getLexicalForm(value);
+  if (isIntegerLiteral(value)) {
+    return literal(lexical, `${XSD}integer`);
+  }
+  if (isDecimalLiteral(value)) {
+    return literal(lexical, `${XSD}decimal`);
+  }
+  if (isDoubleLiteral(value)) {
+    return literal(lexical, `${XSD}double`);
+  }
+  if (isBooleanLiteral(value)) {
+    return literal(lexical, `${XSD}boolean`);
+  }
+  if (value.langTag) {
+    return literal(lexical, undefined, value.langTag);
+  }
+  const type = value.type?.ref;
+  return literal(lexical, type ? getMemberIri(type) ?? `${XSD}string` : `${XSD}string`);
+}
+
+const CHARACTERISTICS = {
+  functional: 'FunctionalProperty',
+  inverseFunctional: 'InverseFunctionalProperty',
+  symmetric: 'SymmetricProperty',
+  asymmetric: 'AsymmetricProperty',
+  reflexive: 'ReflexiveProperty',
+  irreflexive: 'IrreflexiveProperty',
+  transitive: 'TransitiveProperty'
+} as const;
+
+const FACETS = ['length', 'minLength', 'maxLength', 'pattern', 'language', 'minInclusive', 'minExclusive', 'maxInclusive', 'maxExclusive'] as const;
+
+export class OwlExporter {
+
+  protected readonly closure: OntologyClosure;
+
+  constructor(readonly root: Ontology, protected readonly graph = new RdfGraph()) {
+    this.closure = new OntologyClosure(root);
+  }
+
+  export(options: OwlExportOptions = {}): OwlExport {
+    const bundle = this.root.$type === 'VocabularyBundle' || this.root.$type === 'DescriptionBundle';
+    return this.exportOntologies(options.closure || bundle ? getImportClosure(this.root) : [this.root]);
+  }
+
+  /**
+   * Maps the given ontologies, which are expected to be in the import closure of the root.
+   */
+  exportOntologies(ontologies: Ontology[]): OwlExport {
+    for (const ontology of ontologies) {
+      this.exportOntology(ontology);
+    }
+    return { graph: this.graph, prefixes: getOntologyPrefixes(ontologies), ontologies };
+  }
+
+  protected exportOntology(ontology: Ontology): void {
+    const subject = namedNode(getOntologyIri(ontology));
+    this.graph.add(subject, `${RDF}type`, `${OWL}Ontology`);
+    for (const ownedImport of ontology.ownedImports) {
+      const imported = ownedImport.imported?.ref;
+      const iri = imported ? getOntologyIri(imported) : ownedImport.imported?.$refText?.replace(/^<|>$/g, '').replace(/[#/]$/, '');
+      if (iri) {
+        this.graph.add(subject, `${OWL}imports`, iri);
+      }
+    }
+    this.exportAnnotations(subject, ontology.ownedAnnotations);
+    for (const statement of (ontology as { ownedStatements?: AstNode[] }).ownedStatements ?? []) {
+      this.exportStatement(statement);
+    }
+  }
+
+  protected exportStatement(statement: AstNode): void {
+    const iri = getMemberIri(statement);
+    if (!iri) {
+      return;
+    }
+    const subject = namedNode(iri);
+    // `ref` statements only add axioms to a member declared elsewhere
+    const declared = !(statement as { ref?: unknown }).ref;
+    this.exportAnnotations(subject, (statement as { ownedAnnotations?: Annotation[] }).ownedAnnotations ?? []);
+
+    if (isConcept(statement) || isAspect(statement) || isRelationEntity(statement)) {
+      if (declared) {
+        this.graph.add(subject, `${RDF}type`, `${OWL}Class`);
+        this.graph.add(subject, `${RDFS}subClassOf`, `${OML}${statement.$type}`);
+      }
+      this.exportEntityAxioms(subject, statement);
+      if (isConcept(statement) && statement.ownedEnumeration) {
+        const oneOf = this.graph.createBlankNode();
+        this.graph.add(oneOf, `${RDF}type`, `${OWL}Class`);
+        this.graph.add(oneOf, `${OWL}oneOf`, this.graph.createList(statement.ownedEnumeration.instances.map(r => this.reference(r.ref, r.$refText))));
+        this.graph.add(subject, `${OWL}equivalentClass`, oneOf);
+      }
+      if (isRelationEntity(statement)) {
+        this.exportRelations(statement);
+      }
+    } else if (isUnreifiedRelation(statement)) {
+      this.exportPropertyAxioms(subject, statement, declared);
+      this.exportRelations(statement);
+    } else if (isScalarProperty(statement)) {
+      if (declared) {
+        this.graph.add(subject, `${RDF}type`, `${OWL}DatatypeProperty`);
+      }
+      if (statement.functional) {
+        this.graph.add(subject, `${RDF}type`, `${OWL}FunctionalProperty`);
+      }
+      statement.domains.forEach(r => this.graph.add(subject, `${RDFS}domain`, this.reference(r.ref, r.$refText)));
+      statement.ranges.forEach(r => this.graph.add(subject, `${RDFS}range`, this.reference(r.ref, r.$refText)));
+      this.exportPropertyAxioms(subject, statement, false);
+    } else if (isAnnotationProperty(statement)) {
+      if (declared) {
+        this.graph.add(subject, `${RDF}type`, `${OWL}AnnotationProperty`);
+      }
+      this.exportPropertyAxioms(subject, statement, false);
+    } else if (isScalar(statement)) {
+      if (declared) {
+        this.graph.add(subject, `${RDF}type`, `${RDFS}Datatype`);
+      }
+      this.exportScalarAxioms(subject, statement);
+    } else if (isBuiltIn(statement)) {
+      if (declared) {
+        this.graph.add(subject, `${RDF}type`, `${SWRL}Builtin`);
+      }
+    } else if (isRule(statement)) {
+      this.exportRule(subject, statement);
+    } else if (isConceptInstance(statement) || isRelationInstance(statement)) {
+      this.exportInstance(subject, statement, declared);
+    }
+  }
+
+  protected exportAnnotations(subject: RdfSubject, annotations: Annotation[]): void {
+    for (const annotation of annotations) {
+      const property = this.reference(annotation.property?.ref, annotation.property?.$refText);
+      if (annotation.literalValues.length === 0 && annotation.referencedValues.length === 0) {
+        // A valueless annotation is a flag
+        this.graph.add(subject, property, literal('true', `${XSD}boolean`));
+      }
+      annotation.literalValues.forEach(value => this.graph.add(subject, property, this.literal(value)));
+      annotation.referencedValues.forEach(r => this.graph.add(subject, property, this.reference(r.ref, r.$refText)));
+    }
+  }
+
+  /**
+   * Specializations, equivalences, restrictions and keys of an entity.
+   */
+  protected exportEntityAxioms(subject: RdfSubject, entity: Entity): void {
+    for (const specialization of entity.ownedSpecializations) {
+      this.graph.add(subject, `${RDFS}subClassOf`, this.reference(specialization.superTerm?.ref, specialization.superTerm?.$refText));
+    }
+    for (const equivalence of entity.ownedEquivalences) {
+      this.graph.add(subject, `${OWL}equivalentClass`, this.exportEquivalence(equivalence));
+    }
+    for (const restriction of entity.ownedPropertyRestrictions) {
+      this.graph.add(subject, `${RDFS}subClassOf`, this.exportRestriction(restriction));
+    }
+    for (const key of entity.ownedKeys) {
+      this.graph.add(subject, `${OWL}hasKey`, this.graph.createList(key.properties.map(r => this.reference(r.ref, r.$refText))));
+    }
+  }
+
+  /**
+   * An equivalence to a single class is that class; otherwise the intersection of its classes and restrictions.
+   */
+  protected exportEquivalence(equivalence: EntityEquivalenceAxiom): RdfTerm {
+    const operands: RdfTerm[] = [
+      ...equivalence.superTerms.map(r => this.reference(r.ref, r.$refText)),
+      ...equivalence.ownedPropertyRestrictions.map(restriction => this.exportRestriction(restriction))
+    ];
+    if (operands.length === 1) {
+      return operands[0];
+    }
+    const intersection = this.graph.createBlankNode();
+    this.graph.add(intersection, `${RDF}type`, `${OWL}Class`);
+    this.graph.add(intersection, `${OWL}intersectionOf`, this.graph.createList(operands));
+    return intersection;
+  }
+
+  protected exportRestriction(restriction: PropertyRestrictionAxiom): RdfSubject {
+    const node = this.graph.createBlankNode();
+    this.graph.add(node, `${RDF}type`, `${OWL}Restriction`);
+    this.graph.add(node, `${OWL}onProperty`, this.reference(restriction.property?.ref, restriction.property?.$refText));
+    if (isPropertyRangeRestrictionAxiom(restriction)) {
+      const predicate = restriction.kind === 'all' ? 'allValuesFrom' : 'someValuesFrom';
+      this.graph.add(node, `${OWL}${predicate}`, this.reference(restriction.range?.ref, restriction.range?.$refText));
+    } else if (isPropertyCardinalityRestrictionAxiom(restriction)) {
+      const kind = { exactly: '', min: 'min', max: 'max' }[restriction.kind];
+      const cardinality = literal(String(restriction.cardinality), `${XSD}nonNegativeInteger`);
+      const range = restriction.range;
+      if (range) {
+        const qualified = kind ? `${kind}QualifiedCardinality` : 'qualifiedCardinality';
+        this.graph.add(node, `${OWL}${qualified}`, cardinality);
+        const onRange = isScalar(range.ref) ? 'onDataRange' : 'onClass';
+        this.graph.add(node, `${OWL}${onRange}`, this.reference(range.ref, range.$refText));
+      } else {
+        this.graph.add(node, `${OWL}${kind ? `${kind}Cardinality` : 'cardinality'}`, cardinality);
+      }
+    } else if (isPropertyValueRestrictionAxiom(restriction)) {
+      const value = restriction.literalValue
+        ? this.literal(restriction.literalValue)
+        : restriction.containedValue
+          ? this.exportAnonymousInstance(restriction.containedValue)
+          : this.reference(restriction.referencedValue?.ref, restriction.referencedValue?.$refText);
+      this.graph.add(node, `${OWL}hasValue`, value);
+    } else if (isPropertySelfRestrictionAxiom(restriction)) {
+      this.graph.add(node, `${OWL}hasSelf`, literal('true', `${XSD}boolean`));
+    }
+    return node;
+  }
+
+  /**
+   * The forward and reverse relations of a relation entity, or an unreified relation and its reverse.
+   */
+  protected exportRelations(relation: RelationEntity | UnreifiedRelation): void {
+    const forward = isUnreifiedRelation(relation) ? relation : relation.forwardRelation;
+    const forwardIri = forward && getMemberIri(forward);
+    if (!forward || !forwardIri) {
+      return;
+    }
+    const subject = namedNode(forwardIri);
+    if (forward !== relation) {
+      this.graph.add(subject, `${RDF}type`, `${OWL}ObjectProperty`);
+      this.exportAnnotations(subject, forward.ownedAnnotations);
+      this.graph.add(subject, `${OML}relationEntity`, getMemberIri(relation)!);
+    }
+    relation.sources.forEach(r => this.graph.add(subject, `${RDFS}domain`, this.reference(r.ref, r.$refText)));
+    relation.targets.forEach(r => this.graph.add(subject, `${RDFS}range`, this.reference(r.ref, r.$refText)));
+    for (const [flag, characteristic] of Object.entries(CHARACTERISTICS)) {
+      if (relation[flag as keyof typeof CHARACTERISTICS]) {
+        this.graph.add(subject, `${RDF}type`, `${OWL}${characteristic}`);
+      }
+    }
+
+    const reverseIri = relation.reverseRelation && getMemberIri(relation.reverseRelation);
+    if (relation.reverseRelation && reverseIri) {
+      const reverse = namedNode(reverseIri);
+      this.graph.add(reverse, `${RDF}type`, `${OWL}ObjectProperty`);
+      this.graph.add(reverse, `${OWL}inverseOf`, subject);
+      this.exportAnnotations(reverse, relation.reverseRelation.ownedAnnotations);
+    }
+  }
+
+  protected exportPropertyAxioms(subject: RdfSubject, property: AstNode, declared: boolean): void {
+    if (declared) {
+      this.graph.add(subject, `${RDF}type`, `${OWL}ObjectProperty`);
+    }
+    const { ownedSpecializations = [], ownedEquivalences = [] } = property as {
+      ownedSpecializations?: { superTerm?: { ref?: AstNode, $refText: string } }[],
+      ownedEquivalences?: { superTerms: { ref?: AstNode, $refText: string }[] }[]
+    };
+    for (const specialization of ownedSpecializations) {
+      this.graph.add(subject, `${RDFS}subPropertyOf`, this.reference(specialization.superTerm?.ref, specialization.superTerm?.$refText));
+    }
+    for (const equivalence of ownedEquivalences) {
+      equivalence.superTerms.forEach(r => this.graph.add(subject, `${OWL}equivalentProperty`, this.reference(r.ref, r.$refText)));
+    }
+  }
+
+  /**
+   * Facets become a datatype restriction and enumerations a data one-of. OWL has no datatype
+   * hierarchy, so a specialization without facets is kept as an equivalence to the supertype
+   * only when it is the single supertype.
+   */
+  protected exportScalarAxioms(subject: RdfSubject, scalar: Scalar): void {
+    for (const equivalence of scalar.ownedEquivalences) {
+      this.graph.add(subject, `${OWL}equivalentClass`, this.exportScalarEquivalence(equivalence));
+    }
+    if (scalar.ownedEnumeration) {
+      const oneOf = this.graph.createBlankNode();
+      this.graph.add(oneOf, `${RDF}type`, `${RDFS}Datatype`);
+      this.graph.add(oneOf, `${OWL}oneOf`, this.graph.createList(scalar.ownedEnumeration.literals.map(value => this.literal(value))));
+      this.graph.add(subject, `${OWL}equivalentClass`, oneOf);
+    }
+    if (scalar.ownedSpecializations.length === 1 && scalar.ownedEquivalences.length === 0 && !scalar.ownedEnumeration) {
+      const superTerm = scalar.ownedSpecializations[0].superTerm;
+      this.graph.add(subject, `${OWL}equivalentClass`, this.reference(superTerm?.ref, superTerm?.$refText));
+    }
+  }
+
+  protected exportScalarEquivalence(equivalence: ScalarEquivalenceAxiom): RdfTerm {
+    const superTerms = equivalence.superTerms.map(r => this.reference(r.ref, r.$refText));
+    const facets: RdfSubject[] = [];
+    for (const facet of FACETS) {
+      for (const value of equivalence[facet]) {
+        const node = this.graph.createBlankNode();
+        const object = typeof value === 'number'
+          ? literal(String(value), `${XSD}nonNegativeInteger`)
+          : typeof value === 'string' ? literal(value) : this.literal(value);
+        this.graph.add(node, `${XSD}${facet === 'language' ? 'langRange' : facet}`, object);
+        facets.push(node);
+      }
+    }
+    if (facets.length === 0 && superTerms.length === 1) {
+      return superTerms[0];
+    }
+    const node = this.graph.createBlankNode();
+    this.graph.add(node, `${RDF}type`, `${RDFS}Datatype`);
+    if (superTerms.length > 0) {
+      this.graph.add(node, `${OWL}onDatatype`, superTerms[0]);
+    }
+    this.graph.add(node, `${OWL}withRestrictions`, this.graph.createList(facets));
+    return node;
+  }
+
+  /**
+   * A rule becomes a SWRL implication whose variables are named `urn:swrl:var#<name>`.
+   */
+  protected exportRule(subject: RdfSubject, rule: Rule): void {
+    if (!rule.ref) {
+      this.graph.add(subject, `${RDF}type`, `${SWRL}Imp`);
+    }
+    this.graph.add(subject, `${SWRL}body`, this.graph.createList(rule.antecedent.flatMap(p => this.exportAtoms(p))));
+    this.graph.add(subject, `${SWRL}head`, this.graph.createList(rule.consequent.flatMap(p => this.exportAtoms(p))));
+  }
+
+  protected exportAtoms(predicate: Predicate): RdfSubject[] {
+    const atom = (type: string, values: [string, RdfTerm][]) => {
+      const node = this.graph.createBlankNode();
+      this.graph.add(node, `${RDF}type`, `${SWRL}${type}`);
+      values.forEach(([property, value]) => this.graph.add(node, `${SWRL}${property}`, value));
+      return node;
+    };
+    if (isTypePredicate(predicate)) {
+      const type = predicate.type?.ref;
+      return isScalar(type)
+        ? [atom('DataRangeAtom', [['dataRange', this.reference(type, predicate.type.$refText)], ['argument1', this.argument(predicate.argument)]])]
+        : [atom('ClassAtom', [['classPredicate', this.reference(type, predicate.type?.$refText)], ['argument1', this.argument(predicate.argument)]])];
+    }
+    if (isRelationEntityPredicate(predicate)) {
+      // R(source, r, target) is r a R, r oml:hasSource source, r oml:hasTarget target
+      const relation = this.argument(predicate.argument);
+      return [
+        atom('ClassAtom', [['classPredicate', this.reference(predicate.type?.ref, predicate.type?.$refText)], ['argument1', relation]]),
+        atom('IndividualPropertyAtom', [['propertyPredicate', namedNode(`${OML}hasSource`)], ['argument1', relation], ['argument2', this.argument(predicate.argument1)]]),
+        atom('IndividualPropertyAtom', [['propertyPredicate', namedNode(`${OML}hasTarget`)], ['argument1', relation], ['argument2', this.argument(predicate.argument2)]])
+      ];
+    }
+    if (isPropertyPredicate(predicate)) {
+      const property = predicate.property?.ref;
+      const type = isScalarProperty(property) ? 'DatavaluedPropertyAtom' : 'IndividualPropertyAtom';
+      return [atom(type, [
+        ['propertyPredicate', this.reference(property, predicate.property?.$refText)],
+        ['argument1', this.argument(predicate.argument1)],
+        ['argument2', this.argument(predicate.argument2)]
+      ])];
+    }
+    if (isSameAsPredicate(predicate) || isDifferentFromPredicate(predicate)) {
+      const type = isSameAsPredicate(predicate) ? 'SameIndividualAtom' : 'DifferentIndividualsAtom';
+      return [atom(type, [['argument1', this.argument(predicate.argument1)], ['argument2', this.argument(predicate.argument2)]])];
+    }
+    if (isBuiltInPredicate(predicate)) {
+      return [atom('BuiltinAtom', [
+        ['builtin', this.reference(predicate.builtIn?.ref, predicate.builtIn?.$refText)],
+        ['arguments', this.graph.createList(predicate.arguments.map(a => this.argument(a)))]
+      ])];
+    }
+    return [];
+  }
+
+  protected argument(argument: Argument): RdfTerm {
+    if (argument.variable) {
+      const variable = namedNode(`urn:swrl:var#${argument.variable}`);
+      this.graph.add(variable, `${RDF}type`, `${SWRL}Variable`);
+      return variable;
+    }
+    if (argument.literal) {
+      return this.literal(argument.literal);
+    }
+    return this.reference(argument.instance?.ref, argument.instance?.$refText);
+  }
+
+  protected exportInstance(subject: RdfSubject, instance: NamedInstance, declared: boolean): void {
+    if (declared) {
+      this.graph.add(subject, `${RDF}type`, `${OWL}NamedIndividual`);
+    }
+    for (const assertion of instance.ownedTypes) {
+      this.graph.add(subject, `${RDF}type`, this.reference(assertion.type?.ref, assertion.type?.$refText));
+    }
+    this.exportPropertyValues(subject, instance.ownedPropertyValues);
+    if (!isRelationInstance(instance)) {
+      return;
+    }
+    const sources = instance.sources.map(r => this.reference(r.ref, r.$refText));
+    const targets = instance.targets.map(r => this.reference(r.ref, r.$refText));
+    sources.forEach(source => this.graph.add(subject, `${OML}hasSource`, source));
+    targets.forEach(target => this.graph.add(subject, `${OML}hasTarget`, target));
+    // Link the ends directly through the forward relation of each relation entity type
+    for (const type of this.closure.getTypes(instance).filter(isRelationEntity)) {
+      const forwardIri = type.forwardRelation && getMemberIri(type.forwardRelation);
+      if (!forwardIri) {
+        continue;
+      }
+      for (const source of sources) {
+        targets.forEach(target => this.graph.add(source, forwardIri, target));
+      }
+    }
+  }
+
+  protected exportPropertyValues(subject: RdfSubject, assertions: PropertyValueAssertion[]): void {
+    for (const assertion of assertions) {
+      const property = this.reference(assertion.property?.ref, assertion.property?.$refText);
+      assertion.literalValues.forEach(value => this.graph.add(subject, property, this.literal(value)));
+      assertion.referencedValues.forEach(r => this.graph.add(subject, property, this.reference(r.ref, r.$refText)));
+      assertion.containedValues.forEach(value => this.graph.add(subject, property, this.exportAnonymousInstance(value)));
+    }
+  }
+
+  /**
+   * An anonymous instance becomes a blank node; an anonymous relation instance also links its target.
+   */
+  protected exportAnonymousInstance(instance: AnonymousInstance): RdfSubject {
+    const node = this.graph.createBlankNode();
+    if (isAnonymousConceptInstance(instance) && instance.type) {
+      this.graph.add(node, `${RDF}type`, this.reference(instance.type.ref, instance.type.$refText));
+    } else if (isAnonymousRelationInstance(instance)) {
+      this.graph.add(node, `${OML}hasTarget`, this.reference(instance.target?.ref, instance.target?.$refText));
+    }
+    this.exportPropertyValues(node, instance.ownedPropertyValues);
+    return node;
+  }
+
+  /**
+   * Returns the IRI of a referenced member. A reference that does not resolve keeps its text, as an
+   * IRI when it is one and as a `urn:oml:unresolved:` IRI otherwise.
+   */
+  protected reference(member: AstNode | undefined, text: string | undefined): NamedNode {
+    const iri = member && getMemberIri(member);
+    if (iri) {
+      return namedNode(iri);
+    }
+    const match = /^<(.*)>$/.exec(text ?? '');
+    return namedNode(match ? match[1] : `urn:oml:unresolved:${text ?? ''}`);
+  }
+
+  protected literal(value: Literal): RdfTerm {
+    return getRdfLiteral(value);
+  }
+}
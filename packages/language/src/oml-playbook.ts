@@ -0,0 +1,1364 @@
+/**
+ * OML Playbook
+ * Methodology playbooks: the modeling conventions of a methodology (relation directions,
+ * description schemas and their constraints), how they are found and loaded, and which
+ * description file an instance of a given type is routed to.
+ *
+ * A playbook is a YAML (or JSON) file next to or above the descriptions it governs, named
+ * `playbook.yaml` or `<methodology>_playbook.yaml`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import yaml from 'js-yaml';
+
+export interface PlaybookMetadata {
+    /** Name of the methodology (e.g., "Sierra") */
+    methodology: string;
+    /** Version of the playbook */
+    version: string;
+    /** When the playbook was generated */
+    generatedAt: string;
+    /** Source vocabulary files used */
+    sourceVocabularies: string[];
+}
+
+/**
+ * Rule for bidirectional relations.
+ * Specifies which end "owns" the assertion in descriptions.
+ */
+export interface RelationRule {
+    /** The forward relation name (e.g., "requirement:expresses") */
+    forwardRelation: string;
+    /** The reverse relation name (e.g., "requirement:isExpressedBy") */
+    reverseRelation: string;
+    /** The concept that should own/contain the assertion */
+    owningConcept: string;
+    /** Which direction to use: "forward" or "reverse" */
+    preferredDirection: 'forward' | 'reverse';
+    /** Human-readable explanation of the rule */
+    rationale?: string;
+    /** Source vocabulary file where this relation is defined */
+    sourceFile?: string;
+}
+
+/**
+ * Rule for relation entities (reified relations).
+ * These create instances of the relation itself.
+ */
+export interface RelationEntityRule {
+    /** The relation entity name (e.g., "process:DataFlow") */
+    relationEntity: string;
+    /** The forward relation name (e.g., "flowsTo") */
+    forwardRelation: string;
+    /** The reverse relation name (e.g., "flowsFrom") */
+    reverseRelation: string;
+    /** The source concept type */
+    fromConcept: string;
+    /** The target concept type */
+    toConcept: string;
+    /** Preferred modeling direction */
+    preferredDirection: 'forward' | 'reverse';
+    /** Human-readable explanation */
+    rationale?: string;
+    /** Source vocabulary file */
+    sourceFile?: string;
+}
+
+/**
+ * Rules for concept instantiation.
+ */
+export interface ConceptRule {
+    /** Fully qualified concept name (e.g., "requirement:Requirement") */
+    concept: string;
+    /** Properties that should always be set */
+    requiredProperties?: string[];
+    /** Properties that are recommended */
+    recommendedProperties?: string[];
+    /** Description file pattern where instances should live */
+    descriptionFilePattern?: string;
+    /** Parent container concept (for containment hierarchy) */
+    containerConcept?: string;
+    /** Human-readable notes */
+    notes?: string;
+}
+
+/**
+ * Containment rules from base:Container/base:Contained patterns.
+ */
+export interface ContainmentRule {
+    /** The container concept (e.g., "state:StateMachine") */
+    container: string;
+    /** The contained concept(s) (e.g., ["state:State"]) */
+    contained: string[];
+    /** The relation used (e.g., "base:contains") */
+    relation: string;
+    /** Any cardinality restrictions */
+    cardinality?: {
+        min?: number;
+        max?: number;
+        exactly?: number;
+    };
+    /** Source vocabulary file */
+    sourceFile?: string;
+}
+
+/**
+ * Allocation/assignment rules (e.g., Activity isAllocatedTo Entity).
+ */
+export interface AllocationRule {
+    /** What is being allocated (e.g., "process:Activity") */
+    subject: string;
+    /** What it's allocated to (e.g., "entity:Entity") */
+    target: string;
+    /** The allocation relation */
+    relation: string;
+    /** The reverse relation */
+    reverseRelation: string;
+    /** Which side owns the assertion */
+    owningConcept: string;
+    /** Preferred direction */
+    preferredDirection: 'forward' | 'reverse';
+    /** Human-readable rationale */
+    rationale?: string;
+}
+
+/**
+ * Pending decision that requires user input.
+ */
+export interface PendingDecision {
+    /** Type of decision needed */
+    type: 'relation_direction' | 'containment' | 'required_property';
+    /** The relation or concept in question */
+    subject: string;
+    /** Options to choose from */
+    options: {
+        id: string;
+        label: string;
+        description: string;
+    }[];
+    /** Context/explanation for the user */
+    context: string;
+    /** Default suggestion if any */
+    suggestedDefault?: string;
+}
+
+/**
+ * Determines which instances a rule applies to.
+ * Supports multiple matching strategies with explicit precedence.
+ */
+export interface AppliesTo {
+    /** Exact concept type (e.g., "requirement:SafetyRequirement") */
+    conceptType?: string;
+    
+    /** Include all subtypes? Default: false */
+    matchSubtypes?: boolean;
+    
+    /** Pattern matching (e.g., "*Requirement" matches all types ending in "Requirement") */
+    conceptPattern?: string;
+    
+    /** Match any of these types */
+    conceptTypes?: string[];
+    
+    /** Match any subtype of this base type */
+    anySubtypeOf?: string;
+}
+
+/**
+ * Naming pattern for auto-generating instance names.
+ */
+export interface NamingPattern {
+    /** Prefix for the name (e.g., "R" for R1, R2, ...) */
+    prefix: string;
+    
+    /** Counter style: 'number' (1,2,3), 'padded' (001,002), 'alpha' (A,B,C) */
+    counterStyle?: 'number' | 'padded' | 'alpha';
+    
+    /** Padding width for 'padded' style (default: 3) */
+    paddingWidth?: number;
+    
+    /** Starting number (default: 1) */
+    startFrom?: number;
+    
+    /** Optional suffix (e.g., "_req" for R1_req) */
+    suffix?: string;
+}
+
+/**
+ * Property mapping for auto-populating instance properties.
+ * Maps user-provided semantic fields to OML properties.
+ */
+export interface PropertyMapping {
+    /** OML property name (e.g., "base:description") */
+    property: string;
+    
+    /** Semantic field name that user provides (e.g., "name", "text", "target") */
+    mapsFrom: string;
+    
+    /** Is this a literal (scalar) or reference (relation)? */
+    valueType: 'literal' | 'reference';
+    
+    /** For literals: the scalar type (default: string/quoted) */
+    literalType?: 'quoted' | 'integer' | 'decimal' | 'double' | 'boolean';
+    
+    /** Is this mapping required? */
+    required?: boolean;
+    
+    /** Human-readable description of what this field means */
+    description?: string;
+    
+    /** Default value if not provided */
+    defaultValue?: string;
+}
+
+/**
+ * Template for creating instances of a specific type.
+ * Defines naming conventions and property mappings.
+ */
+export interface InstanceTemplate {
+    /** Unique identifier for this template */
+    id: string;
+    
+    /** What concept type(s) this template applies to */
+    appliesTo: AppliesTo;
+    
+    /** Naming pattern for auto-generating instance names */
+    naming?: NamingPattern;
+    
+    /** Property mappings from semantic fields to OML properties */
+    propertyMappings: PropertyMapping[];
+    
+    /** Human-readable description of this template */
+    description?: string;
+    
+    /** Example usage */
+    example?: {
+        input: Record<string, string>;
+        output: string;
+    };
+}
+
+/**
+ * Defines a constraint on a property.
+ */
+export interface PropertyConstraint {
+    /** Property name (e.g., "isExpressedBy", "description") */
+    property: string;
+    
+    /** Target must be this type */
+    targetMustBe?: string;
+    
+    /** Allow subtypes of target? Default: false */
+    targetMatchSubtypes?: boolean;
+    
+    /** Target must be one of these types */
+    targetMustBeOneOf?: string[];
+    
+    /** Property must exist (for required properties) */
+    required?: boolean;
+    
+    /** Minimum occurrences */
+    minOccurrences?: number;
+    
+    /** Maximum occurrences */
+    maxOccurrences?: number;
+}
+
+/**
+ * A constraint rule for a description.
+ * Rules are matched by precedence (most specific first).
+ */
+export interface DescriptionConstraint {
+    /** Unique identifier for this rule */
+    id: string;
+    
+    /** Human-readable message */
+    message: string;
+    
+    /** What instances does this apply to? */
+    appliesTo: AppliesTo;
+    
+    /** What constraint(s) to enforce? */
+    constraints: PropertyConstraint[];
+    
+    /** Severity level */
+    severity?: 'error' | 'warning' | 'info';
+    
+    /** Rationale for this rule */
+    rationale?: string;
+}
+
+/**
+ * Schema for a single description file.
+ * Defines what types are allowed and what constraints apply.
+ */
+export interface DescriptionSchema {
+    /** File path or name */
+    file: string;
+    
+    /** Human-readable purpose */
+    purpose: string;
+    
+    /** Allowed instance types in this description */
+    allowedTypes: string[];
+    
+    /** Routing priorities for LLM placement */
+    routing: Array<{
+        concept: string;
+        priority: number;  // 1 = primary, higher = lower priority
+    }>;
+    
+    /** Constraints specific to this description */
+    constraints: DescriptionConstraint[];
+}
+
+/**
+ * The complete Playbook structure.
+ */
+export interface MethodologyPlaybook {
+    /** Playbook metadata */
+    metadata: PlaybookMetadata;
+    
+    /** Rules for standard bidirectional relations */
+    relationRules: RelationRule[];
+    
+    /** Rules for relation entities (reified relations) */
+    relationEntityRules: RelationEntityRule[];
+    
+    /** Rules for concept instantiation */
+    conceptRules: ConceptRule[];
+    
+    /** Containment hierarchy rules */
+    containmentRules: ContainmentRule[];
+    
+    /** Allocation/assignment rules */
+    allocationRules: AllocationRule[];
+    
+    /** Description-level schemas (NEW) */
+    descriptions?: Record<string, DescriptionSchema>;
+    
+    /** Instance templates for naming and property mappings */
+    instanceTemplates?: InstanceTemplate[];
+}
+
+/**
+ * Result of playbook extraction with pending decisions.
+ */
+export interface PlaybookExtractionResult {
+    /** Partially completed playbook */
+    playbook: MethodologyPlaybook;
+    /** Decisions that need user input */
+    pendingDecisions: PendingDecision[];
+    /** Whether extraction is complete */
+    isComplete: boolean;
+}
+
+/**
+ * User's decision response.
+ */
+export interface DecisionResponse {
+    /** The subject (relation/concept) being decided */
+    subject: string;
+    /** The chosen option ID */
+    chosenOption: string;
+    /** Optional rationale provided by user */
+    rationale?: string;
+}
+
+/**
+ * Validation result when enforcing playbook rules.
+ */
+export interface PlaybookValidationResult {
+    /** Whether the description is valid according to playbook */
+    isValid: boolean;
+    /** Violations found */
+    violations: PlaybookViolation[];
+    /** Suggested corrections */
+    corrections: PlaybookCorrection[];
+}
+
+/**
+ * A single playbook rule violation.
+ */
+export interface PlaybookViolation {
+    /** Type of violation */
+    type: 'wrong_direction' | 'missing_property' | 'wrong_container' | 'invalid_cardinality' | 'invalid_target_type' | 'type_not_allowed';
+    /** Location in the OML file */
+    location?: {
+        file: string;
+        line?: number;
+        instance?: string;
+    };
+    /** The rule that was violated */
+    rule: string;
+    /** Human-readable message */
+    message: string;
+    /** Severity level */
+    severity: 'error' | 'warning' | 'info';
+}
+
+/**
+ * A suggested correction for a violation.
+ */
+export interface PlaybookCorrection {
+    /** The violation this corrects */
+    violationType: string;
+    /** What to remove (if applicable) */
+    remove?: {
+        instance: string;
+        property: string;
+        value: string;
+    };
+    /** What to add (if applicable) */
+    add?: {
+        instance: string;
+        property: string;
+        value: string;
+    };
+    /** Human-readable explanation */
+    explanation: string;
+    /** The corrected OML code snippet */
+    correctedCode?: string;
+}
+
+/**
+ * Receives the progress of the async loader functions; the MCP server passes its logger.
+ */
+export interface PlaybookLogger {
+    debug(message: string, context?: Record<string, any>): void;
+    info(message: string, context?: Record<string, any>): void;
+    warn(message: string, context?: Record<string, any>): void;
+    error(message: string, error?: Error | unknown, context?: Record<string, any>): void;
+}
+
+const SILENT_LOGGER: PlaybookLogger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+};
+
+interface CachedPlaybook {
+    playbook: MethodologyPlaybook;
+    modifiedTime: number;
+}
+
+const playbookCache = new Map<string, CachedPlaybook>();
+const MAX_PLAYBOOK_CACHE_SIZE = 10;
+
+function getCachedPlaybook(resolvedPath: string): MethodologyPlaybook | null {
+    const cached = playbookCache.get(resolvedPath);
+    if (!cached) return null;
+
+    try {
+        const stats = fs.statSync(resolvedPath);
+        if (stats.mtimeMs === cached.modifiedTime) {
+            return cached.playbook;
+        }
+        playbookCache.delete(resolvedPath);
+        return null;
+    } catch {
+        playbookCache.delete(resolvedPath);
+        return null;
+    }
+}
+
+async function getCachedPlaybookAsync(resolvedPath: string): Promise<{ cachedPlaybook?: MethodologyPlaybook; stats: fs.Stats } | null> {
+    const cached = playbookCache.get(resolvedPath);
+    try {
+        const stats = await fsPromises.stat(resolvedPath);
+        if (cached && stats.mtimeMs === cached.modifiedTime) {
+            return { cachedPlaybook: cached.playbook, stats };
+        }
+        if (cached) playbookCache.delete(resolvedPath);
+        return { stats };
+    } catch {
+        playbookCache.delete(resolvedPath);
+        return null;
+    }
+}
+
+function setPlaybookCache(resolvedPath: string, playbook: MethodologyPlaybook, stats?: fs.Stats): void {
+    try {
+        const fileStats = stats ?? fs.statSync(resolvedPath);
+        if (playbookCache.size >= MAX_PLAYBOOK_CACHE_SIZE) {
+            const firstKey = playbookCache.keys().next().value;
+            if (firstKey) playbookCache.delete(firstKey);
+        }
+        playbookCache.set(resolvedPath, {
+            playbook,
+            modifiedTime: fileStats.mtimeMs,
+        });
+    } catch {
+        // Ignore cache update if file is not readable
+    }
+}
+
+export function invalidatePlaybookCache(playbookPath?: string): void {
+    if (!playbookPath) {
+        playbookCache.clear();
+        return;
+    }
+
+    const resolvedPath = path.resolve(playbookPath);
+    playbookCache.delete(resolvedPath);
+}
+
+export function getPlaybookCacheInfo(): { size: number; maxSize: number; entries: string[] } {
+    return {
+        size: playbookCache.size,
+        maxSize: MAX_PLAYBOOK_CACHE_SIZE,
+        entries: [...playbookCache.keys()],
+    };
+}
+
+/**
+ * Async: Find playbook file by searching up directory tree
+ * Returns path to first playbook found (nearest/most specific)
+ *
+ * @param dirPath Starting directory to search from
+ * @param maxDepth Maximum directory levels to traverse (default 10)
+ * @param logger Optional logger instance
+ * @returns Full path to playbook file or null if not found
+ */
+export async function findPlaybookAsync(
+    dirPath: string,
+    maxDepth: number = 10,
+    logger: PlaybookLogger = SILENT_LOGGER,
+): Promise<string | null> {
+    async function search(dir: string, depth: number): Promise<string | null> {
+        if (depth >= maxDepth) return null;
+
+        try {
+            const files = await fsPromises.readdir(dir);
+
+            // Look for any playbook files
+            const playbookFile = files.find(
+                (f) =>
+                    f.endsWith('.yaml') ||
+                    f.endsWith('.yml')
+            );
+
+            if (playbookFile) {
+                const result = path.join(dir, playbookFile);
+                logger.debug(`Found playbook`, { path: result });
+                return result;
+            }
+        } catch (error) {
+            logger.debug(`Directory read failed`, { dir, error: String(error) });
+        }
+
+        // Move to parent directory
+        const parentDir = path.dirname(dir);
+
+        // Stop if we've reached filesystem root
+        if (parentDir === dir) return null;
+
+        return search(parentDir, depth + 1);
+    }
+
+    return search(dirPath, 0);
+}
+
+/**
+ * Synchronous version: Find playbook file by searching up directory tree
+ * Returns path to first playbook found (nearest/most specific)
+ * Use findPlaybookAsync for better scalability
+ *
+ * @param dirPath Starting directory to search from
+ * @param maxDepth Maximum directory levels to traverse (default 10)
+ * @param currentDepth Current traversal depth (for recursion)
+ * @returns Full path to playbook file or null if not found
+ */
+export function findPlaybook(
+    dirPath: string,
+    maxDepth: number = 10,
+    currentDepth: number = 0,
+): string | null {
+    if (currentDepth >= maxDepth) return null;
+
+    try {
+        const files = fs.readdirSync(dirPath);
+
+        // Look for any playbook files
+        const playbookFile = files.find(
+            (f) =>
+                f.endsWith('_playbook.yaml') ||
+                f.endsWith('_playbook.yml') ||
+                f === 'playbook.yaml' ||
+                f === 'playbook.yml',
+        );
+
+        if (playbookFile) {
+            return path.join(dirPath, playbookFile);
+        }
+    } catch {
+        // Directory read failed, continue up
+    }
+
+    // Move to parent directory
+    const parentDir = path.dirname(dirPath);
+
+    // Stop if we've reached filesystem root
+    if (parentDir === dirPath) return null;
+
+    return findPlaybook(parentDir, maxDepth, currentDepth + 1);
+}
+
+/**
+ * Async: Find playbook file associated with a description file
+ * Searches from the description file's directory upward
+ *
+ * @param descriptionPath Path to OML description file
+ * @param logger Optional logger instance
+ * @returns Full path to playbook or null if not found
+ */
+export async function findPlaybookFromDescriptionAsync(
+    descriptionPath: string,
+    logger: PlaybookLogger = SILENT_LOGGER,
+): Promise<string | null> {
+    const descDir = path.dirname(descriptionPath);
+    return findPlaybookAsync(descDir, 10, logger);
+}
+
+/**
+ * Async: Resolve a playbook path with fallback strategies
+ * Tries explicit path first, then auto-detection from description or methodology name
+ *
+ * @param params Object with optional playbookPath, descriptionPath, methodologyName
+ * @param logger Optional logger instance
+ * @returns Resolved full path to playbook or null if cannot resolve
+ */
+export async function resolvePlaybookPathAsync(
+    params: {
+        playbookPath?: string;
+        descriptionPath?: string;
+        methodologyName?: string;
+        workspacePath?: string;
+    },
+    logger: PlaybookLogger = SILENT_LOGGER,
+): Promise<string | null> {
+    // Try explicit path first
+    if (params.playbookPath) {
+        logger.debug(`Using explicit playbook path`, { path: params.playbookPath });
+        return params.playbookPath;
+    }
+
+    // Try auto-detection from description
+    if (params.descriptionPath) {
+        const found = await findPlaybookFromDescriptionAsync(params.descriptionPath, logger);
+        if (found) {
+            logger.debug(`Found playbook from description`, { description: params.descriptionPath, playbook: found });
+            return found;
+        }
+    }
+
+    // Try to find from methodology name
+    if (params.methodologyName) {
+        const startDir = params.workspacePath || process.cwd();
+        const found = await findPlaybookAsync(startDir, 10, logger);
+        if (found) {
+            logger.debug(`Found playbook by methodology name`, { methodology: params.methodologyName, playbook: found });
+            return found;
+        }
+    }
+
+    logger.warn(`Could not resolve playbook path`, params);
+    return null;
+}
+
+/**
+ * Find playbook file associated with a description file (sync version)
+ * Searches from the description file's directory upward
+ *
+ * @param descriptionPath Path to OML description file
+ * @returns Full path to playbook or null if not found
+ */
+export function findPlaybookFromDescription(descriptionPath: string): string | null {
+    const descDir = path.dirname(descriptionPath);
+    return findPlaybook(descDir);
+}
+
+/**
+ * Resolve a playbook path with fallback strategies (sync version)
+ * Tries explicit path first, then auto-detection from description or methodology name
+ *
+ * @param params Object with optional playbookPath, descriptionPath, methodologyName
+ * @returns Resolved full path to playbook or null if cannot resolve
+ */
+export function resolvePlaybookPath(params: {
+    playbookPath?: string;
+    descriptionPath?: string;
+    methodologyName?: string;
+    workspacePath?: string;
+}): string | null {
+    // Try explicit path first
+    if (params.playbookPath) {
+        return params.playbookPath;
+    }
+
+    // Try auto-detection from description
+    if (params.descriptionPath) {
+        const found = findPlaybookFromDescription(params.descriptionPath);
+        if (found) return found;
+    }
+
+    // Try to find from methodology name
+    if (params.methodologyName) {
+        const startDir = params.workspacePath || process.cwd();
+        const found = findPlaybook(startDir);
+        if (found) return found;
+    }
+
+    return null;
+}
+
+/**
+ * Async: Load and parse playbook file (YAML or JSON)
+ *
+ * @param playbookPath Full path to playbook file
+ * @param logger Optional logger instance
+ * @returns Parsed playbook object
+ * @throws If file not found or parsing fails
+ */
+export async function loadPlaybookAsync(
+    playbookPath: string,
+    logger: PlaybookLogger = SILENT_LOGGER,
+): Promise<MethodologyPlaybook> {
+    const resolvedPath = path.resolve(playbookPath);
+    try {
+        const cached = await getCachedPlaybookAsync(resolvedPath);
+        if (cached?.cachedPlaybook) {
+            logger.debug(`Playbook cache hit`, { path: resolvedPath });
+            return cached.cachedPlaybook;
+        }
+
+        logger.debug(`Loading playbook`, { path: resolvedPath });
+        const content = await fsPromises.readFile(resolvedPath, 'utf-8');
+
+        const ext = path.extname(resolvedPath).toLowerCase();
+        try {
+            const playbook = ext === '.json'
+                ? (JSON.parse(content) as MethodologyPlaybook)
+                : (yaml.load(content) as MethodologyPlaybook);
+            logger.info(`Playbook loaded successfully`, { path: resolvedPath, format: ext || 'yaml' });
+            if (cached?.stats) {
+                setPlaybookCache(resolvedPath, playbook, cached.stats);
+            } else {
+                setPlaybookCache(resolvedPath, playbook);
+            }
+            return playbook;
+        } catch (parseError) {
+            logger.error(`Failed to parse playbook`, parseError as Error, { path: resolvedPath, format: ext || 'yaml' });
+            throw new Error(`Could not parse playbook as ${ext === '.json' ? 'JSON' : 'YAML'}: ${resolvedPath}`);
+        }
+    } catch (error) {
+        logger.error(`Failed to load playbook`, error as Error, { path: resolvedPath });
+        throw new Error(`Failed to load playbook from ${resolvedPath}: ${error}`);
+    }
+}
+
+/**
+ * Async: Save playbook back to disk as YAML (or JSON if .json extension)
+ *
+ * @param playbookPath Full path where playbook should be saved
+ * @param playbook Playbook object to save
+ * @param logger Optional logger instance
+ */
+export async function savePlaybookAsync(
+    playbookPath: string,
+    playbook: MethodologyPlaybook,
+    logger: PlaybookLogger = SILENT_LOGGER,
+): Promise<void> {
+    try {
+        const resolvedPath = path.resolve(playbookPath);
+        logger.debug(`Saving playbook`, { path: resolvedPath });
+        const ext = path.extname(resolvedPath).toLowerCase();
+        const output = ext === '.json'
+            ? JSON.stringify(playbook, null, 2)
+            : yaml.dump(playbook, { noRefs: true, lineWidth: 120 });
+        await fsPromises.writeFile(resolvedPath, output, 'utf-8');
+        const stats = await fsPromises.stat(resolvedPath);
+        setPlaybookCache(resolvedPath, playbook, stats);
+        logger.info(`Playbook saved successfully`, { path: resolvedPath, format: ext || 'yaml' });
+    } catch (error) {
+        logger.error(`Failed to save playbook`, error as Error, { path: playbookPath });
+        throw new Error(`Failed to save playbook to ${playbookPath}: ${error}`);
+    }
+}
+
+/**
+ * Load and parse playbook file (YAML or JSON) - synchronous version
+ * Use loadPlaybookAsync for better scalability
+ *
+ * @param playbookPath Full path to playbook file
+ * @returns Parsed playbook object
+ * @throws If file not found or parsing fails
+ */
+export function loadPlaybook(playbookPath: string): MethodologyPlaybook {
+    try {
+        const resolvedPath = path.resolve(playbookPath);
+        const cached = getCachedPlaybook(resolvedPath);
+        if (cached) {
+            return cached;
+        }
+
+        const content = fs.readFileSync(resolvedPath, 'utf-8');
+
+        const ext = path.extname(resolvedPath).toLowerCase();
+        try {
+            const playbook = ext === '.json'
+                ? (JSON.parse(content) as MethodologyPlaybook)
+                : (yaml.load(content) as MethodologyPlaybook);
+            setPlaybookCache(resolvedPath, playbook);
+            return playbook;
+        } catch {
+            throw new Error(`Could not parse playbook as ${ext === '.json' ? 'JSON' : 'YAML'}: ${resolvedPath}`);
+        }
+    } catch (error) {
+        throw new Error(`Failed to load playbook from ${playbookPath}: ${error}`);
+    }
+}
+
+/**
+ * Save playbook back to disk as YAML (or JSON if .json extension) - synchronous version
+ * Use savePlaybookAsync for better scalability
+ *
+ * @param playbookPath Full path where playbook should be saved
+ * @param playbook Playbook object to save
+ */
+export function savePlaybook(playbookPath: string, playbook: MethodologyPlaybook): void {
+    try {
+        const resolvedPath = path.resolve(playbookPath);
+        const ext = path.extname(resolvedPath).toLowerCase();
+        const output = ext === '.json'
+            ? JSON.stringify(playbook, null, 2)
+            : yaml.dump(playbook, { noRefs: true, lineWidth: 120 });
+        fs.writeFileSync(resolvedPath, output, 'utf-8');
+        setPlaybookCache(resolvedPath, playbook);
+    } catch (error) {
+        throw new Error(`Failed to save playbook to ${playbookPath}: ${error}`);
+    }
+}
+
+/**
+ * Check if a file is likely a description file (contains 'instance' or 'description')
+ */
+export function isDescriptionFile(filePath: string): boolean {
+    try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        return /\binstance\b|\bdescription\b|\bconceptInstance\b|\brelationInstance\b/.test(content);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Find all description files in a directory tree
+ * Searches recursively up to specified depth
+ *
+ * @param dirPath Root directory to search
+ * @param maxDepth Maximum directory levels to search (default 5)
+ * @param currentDepth Current traversal depth
+ * @returns Array of full paths to description files found
+ */
+export function findDescriptionFiles(
+    dirPath: string,
+    maxDepth: number = 5,
+    currentDepth: number = 0,
+): string[] {
+    const results: string[] = [];
+
+    if (currentDepth >= maxDepth) return results;
+
+    try {
+        const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+
+        for (const entry of entries) {
+            const fullPath = path.join(dirPath, entry.name);
+
+            if (entry.isDirectory()) {
+                // Recurse into directories
+                results.push(...findDescriptionFiles(fullPath, maxDepth, currentDepth + 1));
+            } else if (entry.isFile() && entry.name.endsWith('.oml')) {
+                // Check if it's a description file
+                if (isDescriptionFile(fullPath)) {
+                    results.push(fullPath);
+                }
+            }
+        }
+    } catch {
+        // Directory read failed, skip
+    }
+
+    return results;
+}
+
+/**
+ * Auto-detect playbook path from methodology name
+ * Walks up directory tree looking for *_playbook.yaml files
+ *
+ * @param methodologyName Name of methodology to search for
+ * @param startFromPath Optional starting directory
+ * @returns Path to first matching playbook or null
+ */
+export function detectPlaybookPath(methodologyName: string, startFromPath?: string): string | null {
+    const methodologyLower = methodologyName.toLowerCase();
+
+    // Start from the description file's directory or workspace root
+    let currentDir = startFromPath ? path.dirname(startFromPath) : process.cwd();
+
+    // Walk up the directory tree (max 10 levels to avoid infinite loops)
+    const maxLevels = 10;
+    let level = 0;
+
+    while (level < maxLevels) {
+        // Check for any playbook files in current directory
+        try {
+            const files = fs.readdirSync(currentDir);
+
+            // Look for exact methodology match first
+            const exactMatch = files.find(
+                (f) =>
+                    f.toLowerCase() === `${methodologyLower}_playbook.yaml` ||
+                    f.toLowerCase() === `${methodologyLower}_playbook.yml` ||
+                    f.toLowerCase() === `${methodologyLower}_methodology.yaml`,
+            );
+
+            if (exactMatch) {
+                return path.join(currentDir, exactMatch);
+            }
+
+            // Then look for generic playbook files
+            const genericMatch = files.find(
+                (f) =>
+                    f.toLowerCase() === 'methodology_playbook.yaml' ||
+                    f.toLowerCase() === 'methodology_playbook.yml' ||
+                    f.toLowerCase() === 'playbook.yaml',
+            );
+
+            if (genericMatch) {
+                return path.join(currentDir, genericMatch);
+            }
+        } catch {
+            // Directory read failed, move up
+        }
+
+        // Move to parent directory
+        const parentDir = path.dirname(currentDir);
+
+        // Stop if we've reached filesystem root
+        if (parentDir === currentDir) {
+            break;
+        }
+
+        currentDir = parentDir;
+        level++;
+    }
+
+    return null;
+}
+
+/**
+ * Routing result for a single file.
+ */
+export interface FileRouting {
+    file: string;           // Filename from playbook
+    absolutePath: string;   // Resolved absolute path
+    exists: boolean;        // Whether file actually exists
+    priority: number;
+    confidence: number;     // 0-100
+    reason: string;
+    isAllowed: boolean;
+}
+
+/**
+ * Overall routing recommendation.
+ */
+export interface RoutingRecommendation {
+    recommended: FileRouting | null;
+    alternatives: FileRouting[];
+    explanation: string;
+    /** Every description of the playbook with its routing; empty when inferred without a playbook */
+    routings: FileRouting[];
+}
+
+/**
+ * Check if an OML file is a description (not a vocabulary).
+ * Reads the first few lines to check for the 'description' keyword.
+ */
+function declaresDescription(filePath: string): boolean {
+    try {
+        // Read just enough to find the ontology type declaration
+        const content = fs.readFileSync(filePath, 'utf-8').slice(0, 2000);
+        
+        // Description files start with 'description' keyword (after optional annotations)
+        // Vocabulary files start with 'vocabulary' keyword
+        // Skip comments and annotations to find the first keyword
+        const lines = content.split('\n');
+        for (const line of lines) {
+            const trimmed = line.trim();
+            // Skip comments, annotations, empty lines
+            if (trimmed.startsWith('//') || trimmed.startsWith('@') || trimmed === '') {
+                continue;
+            }
+            // Check for ontology type keywords
+            if (trimmed.startsWith('description ')) {
+                return true;
+            }
+            if (trimmed.startsWith('vocabulary ') || 
+                trimmed.startsWith('vocabulary_bundle ') ||
+                trimmed.startsWith('description_bundle ')) {
+                return false;
+            }
+            // If we hit another keyword first, it's not a simple description
+            break;
+        }
+        return false;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Search for OML DESCRIPTION files only (excludes vocabularies).
+ */
+function findDescriptionFilesByName(dirPath: string, maxDepth: number = 10, currentDepth: number = 0): Map<string, string> {
+    const results = new Map<string, string>(); // filename -> absolute path
+    
+    if (currentDepth > maxDepth) return results;
+    
+    try {
+        const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+        
+        for (const entry of entries) {
+            const fullPath = path.join(dirPath, entry.name);
+            
+            if (entry.isFile() && entry.name.endsWith('.oml')) {
+                // Only include description files
+                if (declaresDescription(fullPath)) {
+                    const existing = results.get(entry.name);
+                    if (!existing) {
+                        results.set(entry.name, fullPath);
+                    }
+                }
+            } else if (entry.isDirectory() && 
+                       !entry.name.startsWith('.') && 
+                       entry.name !== 'node_modules' && 
+                       entry.name !== 'build' &&
+                       !entry.name.includes('vocabulary')) {
+                // Skip vocabulary directories entirely for efficiency
+                const subResults = findDescriptionFilesByName(fullPath, maxDepth, currentDepth + 1);
+                for (const [name, subPath] of subResults) {
+                    const existing = results.get(name);
+                    if (!existing) {
+                        results.set(name, subPath);
+                    }
+                }
+            }
+        }
+    } catch {
+        // Ignore directories we can't read
+    }
+    
+    return results;
+}
+
+/**
+ * Find the actual path to a description file by searching the workspace.
+ * Only returns paths to DESCRIPTION files, not vocabularies.
+ */
+function resolveDescriptionPath(
+    fileName: string, 
+    workspacePath: string,
+    playbookDir?: string
+): string | null {
+    // First, check if the filename already contains a path
+    if (path.isAbsolute(fileName) && fs.existsSync(fileName)) {
+        // Verify it's actually a description file
+        if (declaresDescription(fileName)) {
+            return fileName;
+        }
+        return null;
+    }
+    
+    // Check relative to playbook directory first (most likely location)
+    if (playbookDir) {
+        const nearPlaybook = path.join(playbookDir, '..', fileName);
+        if (fs.existsSync(nearPlaybook) && declaresDescription(nearPlaybook)) {
+            return path.resolve(nearPlaybook);
+        }
+        
+        // Check sibling directories of playbook
+        const playbookParent = path.dirname(playbookDir);
+        try {
+            const siblings = fs.readdirSync(playbookParent, { withFileTypes: true });
+            for (const sibling of siblings) {
+                if (sibling.isDirectory()) {
+                    const inSibling = path.join(playbookParent, sibling.name, fileName);
+                    if (fs.existsSync(inSibling) && declaresDescription(inSibling)) {
+                        return path.resolve(inSibling);
+                    }
+                }
+            }
+        } catch {
+            // Ignore read errors
+        }
+    }
+    
+    // Search the entire workspace for description files only
+    const descriptionFiles = findDescriptionFilesByName(workspacePath);
+    const baseName = path.basename(fileName);
+    
+    // Try exact match first
+    if (descriptionFiles.has(baseName)) {
+        return descriptionFiles.get(baseName)!;
+    }
+    
+    // Try partial match (file might be referenced with different extension or path)
+    const nameWithoutExt = baseName.replace('.oml', '');
+    for (const [foundName, foundPath] of descriptionFiles) {
+        if (foundName.includes(nameWithoutExt) || nameWithoutExt.includes(foundName.replace('.oml', ''))) {
+            return foundPath;
+        }
+    }
+    
+    return null;
+}
+
+/**
+ * Calculate routing for a specific type.
+ */
+function calculateRouting(
+    instanceType: string,
+    descriptions: Record<string, DescriptionSchema>,
+    workspacePath: string,
+    playbookDir?: string
+): RoutingRecommendation {
+    const routings: FileRouting[] = [];
+    
+    for (const [fileName, schema] of Object.entries(descriptions)) {
+        const isAllowed = schema.allowedTypes.includes(instanceType);
+        
+        // Resolve the actual file path
+        const absolutePath = resolveDescriptionPath(fileName, workspacePath, playbookDir);
+        const exists = absolutePath !== null && fs.existsSync(absolutePath);
+        
+        // Check routing priorities
+        const routingEntry = schema.routing?.find(r => r.concept === instanceType);
+        const priority = routingEntry?.priority ?? 999;
+        
+        // Calculate confidence
+        let confidence = 0;
+        let reason = '';
+        
+        if (!exists) {
+            confidence = 0;
+            reason = 'File does not exist in workspace';
+        } else if (isAllowed) {
+            if (routingEntry) {
+                // Explicitly routed here
+                confidence = 100 - (priority - 1) * 10;  // Priority 1 = 100%, 2 = 90%, etc.
+                reason = `Explicitly routed with priority ${priority}`;
+            } else {
+                // Allowed but not explicitly routed
+                confidence = 50;
+                reason = 'Type is allowed but not explicitly routed';
+            }
+        } else {
+            // Check if type matches a pattern in allowed types
+            const patternMatch = schema.allowedTypes?.some(allowed => {
+                if (allowed.includes('*')) {
+                    const regex = new RegExp('^' + allowed.replace(/\*/g, '.*') + '$');
+                    return regex.test(instanceType);
+                }
+                return false;
+            });
+            
+            if (patternMatch) {
+                confidence = 30;
+                reason = 'Type matches a pattern in allowedTypes';
+            } else {
+                confidence = 0;
+                reason = 'Type not allowed in this description';
+            }
+        }
+        
+        routings.push({
+            file: fileName,
+            absolutePath: absolutePath || `(not found: ${fileName})`,
+            exists,
+            priority,
+            confidence,
+            reason,
+            isAllowed: (isAllowed || confidence > 0) && exists,
+        });
+    }
+    
+    // Sort by confidence (descending), then priority (ascending)
+    // Only consider files that exist
+    routings.sort((a, b) => {
+        // Existing files first
+        if (a.exists !== b.exists) return a.exists ? -1 : 1;
+        if (a.confidence !== b.confidence) return b.confidence - a.confidence;
+        return a.priority - b.priority;
+    });
+    
+    const recommended = routings.find(r => r.confidence > 0 && r.exists) || null;
+    const alternatives = routings.filter(r => r !== recommended && r.confidence > 0 && r.exists);
+    const notFound = routings.filter(r => !r.exists && r.confidence > 0);
+    
+    let explanation: string;
+    
+    if (recommended) {
+        if (recommended.confidence >= 90) {
+            explanation = `✅ Strong match: "${instanceType}" should go in "${recommended.absolutePath}"`;
+        } else if (recommended.confidence >= 50) {
+            explanation = `👍 Good match: "${instanceType}" is allowed in "${recommended.absolutePath}"`;
+        } else {
+            explanation = `⚠️ Weak match: "${instanceType}" may fit in "${recommended.absolutePath}"`;
+        }
+        
+        if (alternatives.length > 0) {
+            explanation += `\n\nAlternatives: ${alternatives.map(a => path.basename(a.absolutePath)).join(', ')}`;
+        }
+    } else if (notFound.length > 0) {
+        explanation = `⚠️ Playbook suggests "${notFound[0].file}" but file was not found in workspace.\n\n` +
+            `Searched for: ${notFound.map(f => f.file).join(', ')}\n\n` +
+            `You may need to create this description file first, or update the playbook with correct file paths.`;
+    } else {
+        explanation = `❌ No matching description found for type "${instanceType}".\n\n` +
+            `Consider:\n` +
+            `1. Creating a new description file\n` +
+            `2. Updating allowedTypes in the playbook to include this type`;
+    }
+    
+    return { recommended, alternatives, explanation, routings };
+}
+
+/**
+ * Infer routing when no playbook descriptions exist.
+ * Searches workspace for actual description files only (not vocabularies).
+ */
+function inferRouting(instanceType: string, workspacePath: string): RoutingRecommendation {
+    // Find only DESCRIPTION files in workspace (excludes vocabularies)
+    const descriptionFiles = findDescriptionFilesByName(workspacePath);
+    
+    // Best-effort inference based on type naming conventions
+    const typeParts = instanceType.split(':');
+    const prefix = typeParts[0] || '';
+    const name = typeParts[1] || typeParts[0];
+    
+    // Common patterns to search for
+    const searchPatterns: string[] = [];
+    
+    if (prefix.includes('requirement') || name.toLowerCase().includes('requirement')) {
+        searchPatterns.push('stakeholders_requirements', 'requirements', 'stakeholder');
+    }
+    if (prefix.includes('stakeholder') || name.toLowerCase().includes('stakeholder')) {
+        searchPatterns.push('stakeholders_requirements', 'stakeholders', 'stakeholder');
+    }
+    if (prefix.includes('component') || name.toLowerCase().includes('component')) {
+        searchPatterns.push('system_components', 'components', 'component');
+    }
+    if (prefix.includes('interface') || name.toLowerCase().includes('interface')) {
+        searchPatterns.push('interfaces', 'system_components');
+    }
+    if (prefix.includes('function') || name.toLowerCase().includes('function')) {
+        searchPatterns.push('functions', 'functional_analysis');
+    }
+    if (prefix.includes('capability') || name.toLowerCase().includes('capability')) {
+        searchPatterns.push('missions_capabilities', 'capabilities', 'capability');
+    }
+    if (prefix.includes('mission') || name.toLowerCase().includes('mission')) {
+        searchPatterns.push('missions_capabilities', 'missions', 'mission');
+    }
+    if (prefix.includes('process') || name.toLowerCase().includes('process') || 
+        prefix.includes('activity') || name.toLowerCase().includes('activity')) {
+        searchPatterns.push('processes_activities', 'processes', 'activities');
+    }
+    if (prefix.includes('scenario') || name.toLowerCase().includes('scenario')) {
+        searchPatterns.push('scenarios', 'scenario');
+    }
+    if (prefix.includes('state') || name.toLowerCase().includes('state')) {
+        searchPatterns.push('state_machines', 'states', 'state');
+    }
+    
+    // Default: use prefix
+    if (searchPatterns.length === 0) {
+        searchPatterns.push(prefix, `${prefix}_instances`);
+    }
+    
+    // Find matching description files
+    const matches: FileRouting[] = [];
+    
+    for (const [fileName, filePath] of descriptionFiles) {
+        const fileNameLower = fileName.toLowerCase();
+        
+        for (let i = 0; i < searchPatterns.length; i++) {
+            const pattern = searchPatterns[i].toLowerCase();
+            if (fileNameLower.includes(pattern)) {
+                matches.push({
+                    file: fileName,
+                    absolutePath: filePath,
+                    exists: true,
+                    priority: i + 1,
+                    confidence: 70 - i * 10,
+                    reason: `Matches pattern "${pattern}" from type "${instanceType}"`,
+                    isAllowed: true,
+                });
+                break; // Only match once per file
+            }
+        }
+    }
+    
+    // Sort by confidence
+    matches.sort((a, b) => b.confidence - a.confidence);
+    
+    const recommended = matches[0] || null;
+    const alternatives = matches.slice(1, 4);
+    
+    let explanation: string;
+    if (recommended) {
+        explanation = `No playbook found. Based on type "${instanceType}", suggesting "${recommended.absolutePath}"`;
+        if (alternatives.length > 0) {
+            explanation += `\n\nAlternatives: ${alternatives.map(a => a.absolutePath).join(', ')}`;
+        }
+    } else {
+        explanation = `No playbook found and no matching description files for type "${instanceType}".\n\n` +
+            `Found ${descriptionFiles.size} description files in workspace, but none match the expected patterns.\n` +
+            `You may need to create a new description file.`;
+    }
+    
+    return { recommended, alternatives, explanation, routings: [] };
+}
+
+/**
+ * Routes an instance type to a description file, following the playbook (given or found from the
+ * workspace) when it lists descriptions, or inferring from file names otherwise.
+ */
+export function routeInstanceType(
+    instanceType: string,
+    options: { playbookPath?: string; workspacePath?: string } = {}
+): RoutingRecommendation {
+    const workspacePath = options.workspacePath || process.cwd();
+    let playbook: MethodologyPlaybook | null = null;
+    let playbookDir: string | undefined;
+    
+    if (options.playbookPath && fs.existsSync(options.playbookPath)) {
+        playbook = loadPlaybook(options.playbookPath);
+        playbookDir = path.dirname(options.playbookPath);
+    } else {
+        const resolvedPath = resolvePlaybookPath({ workspacePath });
+        if (resolvedPath) {
+            playbook = loadPlaybook(resolvedPath);
+            playbookDir = path.dirname(resolvedPath);
+        }
+    }
+    
+    if (playbook?.descriptions && Object.keys(playbook.descriptions).length > 0) {
+        return calculateRouting(instanceType, playbook.descriptions, workspacePath, playbookDir);
+    }
+    return inferRouting(instanceType, workspacePath);
+}
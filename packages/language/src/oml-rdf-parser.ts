@@ -0,0 +1,678 @@
+/**
+ * OML RDF Parser
+ * Reads Turtle (and N-Triples, its subset) and RDF/XML into the in-memory graph of oml-rdf.ts
+ *
+ * Both parsers cover the syntax that OWL tools write in practice. Parse errors carry the
+ * line of the offending token, see RdfParseError.
+ */
+
+import { literal, namedNode, RDF, RdfGraph, XSD } from './oml-rdf.js';
+import type { BlankNode, NamedNode, RdfFormat, RdfSubject, RdfTerm } from './oml-rdf.js';
+
+export interface ParsedRdf {
+  graph: RdfGraph
+  /** The prefixes declared by the document, mapped to their namespaces */
+  prefixes: Record<string, string>
+}
+
+export class RdfParseError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'RdfParseError';
+  }
+}
+
+/**
+ * Guesses the format of an RDF file from its extension, then from its content.
+ */
+export function detectRdfFormat(fileName: string, text: string): RdfFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'nt') {
+    return 'ntriples';
+  }
+  if (extension === 'ttl' || extension === 'n3') {
+    return 'turtle';
+  }
+  if (extension === 'rdf' || extension === 'owl' || extension === 'xml') {
+    return 'rdfxml';
+  }
+  return /^\s*(<\?xml|<rdf:RDF)/.test(text) ? 'rdfxml' : 'turtle';
+}
+
+export function parseRdf(text: string, format: RdfFormat, baseIri = ''): ParsedRdf {
+  return format === 'rdfxml' ? parseRdfXml(text, baseIri) : parseTurtle(text, baseIri);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Turtle
+// ────────────────────────────────────────────────────────────────────────────
+
+const PN_LOCAL_ESCAPES = /\\([_~.\-!$&'()*+,;=/?#@%])/g;
+
+/**
+ * Parses Turtle; N-Triples documents are valid Turtle.
+ */
+export function parseTurtle(text: string, baseIri = ''): ParsedRdf {
+  return new TurtleParser(text, baseIri).parse();
+}
+
+class TurtleParser {
+
+  protected readonly graph = new RdfGraph();
+  protected readonly prefixes: Record<string, string> = {};
+  protected readonly blankNodes = new Map<string, BlankNode>();
+  protected position = 0;
+
+  constructor(protected readonly text: string, protected base: string) {}
+
+  parse(): ParsedRdf {
+    this.skipWhitespace();
+    while (this.position < this.text.length) {
+      this.parseStatement();
+      this.skipWhitespace();
+    }
+    return { graph: this.graph, prefixes: this.prefixes };
+  }
+
+  protected parseStatement(): void {
+    if (this.tryKeyword('@prefix')) {
+      this.parsePrefix();
+      this.expect('.');
+    } else if (this.tryKeyword('@base')) {
+      this.base = this.parseIri().value;
+      this.expect('.');
+    } else if (this.tryKeyword('PREFIX', true)) {
+      this.parsePrefix();
+    } else if (this.tryKeyword('BASE', true)) {
+      this.base = this.parseIri().value;
+    } else {
+      const subject = this.parseSubject();
+      this.skipWhitespace();
+      // A blank node property list may stand alone as a statement
+      if (this.peek() !== '.' || subject.termType !== 'BlankNode') {
+        this.parsePredicateObjectList(subject);
+      }
+      this.expect('.');
+    }
+  }
+
+  protected parsePrefix(): void {
+    this.skipWhitespace();
+    const match = /^([A-Za-z][\w.-]*)?:/.exec(this.text.substring(this.position));
+    if (!match) {
+      this.fail('Expected a prefix name');
+    }
+    this.position += match[0].length;
+    this.prefixes[match[1] ?? ''] = this.parseIri().value;
+  }
+
+  protected parseSubject(): RdfSubject {
+    this.skipWhitespace();
+    const char = this.peek();
+    if (char === '[') {
+      return this.parseBlankNodePropertyList();
+    }
+    if (char === '(') {
+      return this.parseCollection();
+    }
+    if (this.text.startsWith('_:', this.position)) {
+      return this.parseBlankNodeLabel();
+    }
+    return this.parseIri();
+  }
+
+  protected parsePredicateObjectList(subject: RdfSubject): void {
+    for (;;) {
+      this.skipWhitespace();
+      const predicate = this.tryA() ? namedNode(`${RDF}type`) : this.parseIri();
+      for (;;) {
+        this.graph.add(subject, predicate, this.parseObject());
+        this.skipWhitespace();
+        if (this.peek() !== ',') {
+          break;
+        }
+        this.position++;
+      }
+      this.skipWhitespace();
+      if (this.peek() !== ';') {
+        return;
+      }
+      while (this.peek() === ';') {
+        this.position++;
+        this.skipWhitespace();
+      }
+      // A trailing ';' is allowed before '.' and ']'
+      if (this.peek() === '.' || this.peek() === ']') {
+        return;
+      }
+    }
+  }
+
+  protected parseObject(): RdfTerm {
+    this.skipWhitespace();
+    const char = this.peek();
+    if (char === '"' || char === "'") {
+      return this.parseLiteral();
+    }
+    if (/[-+.\d]/.test(char)) {
+      return this.parseNumber();
+    }
+    if (this.tryKeyword('true')) {
+      return literal('true', `${XSD}boolean`);
+    }
+    if (this.tryKeyword('false')) {
+      return literal('false', `${XSD}boolean`);
+    }
+    return this.parseSubject();
+  }
+
+  protected parseBlankNodePropertyList(): BlankNode {
+    this.expect('[');
+    const node = this.graph.createBlankNode();
+    this.skipWhitespace();
+    if (this.peek() !== ']') {
+      this.parsePredicateObjectList(node);
+    }
+    this.expect(']');
+    return node;
+  }
+
+  protected parseCollection(): RdfSubject {
+    this.expect('(');
+    const items: RdfTerm[] = [];
+    this.skipWhitespace();
+    while (this.peek() !== ')') {
+      if (this.position >= this.text.length) {
+        this.fail('Unterminated collection');
+      }
+      items.push(this.parseObject());
+      this.skipWhitespace();
+    }
+    this.position++;
+    return this.graph.createList(items);
+  }
+
+  protected parseBlankNodeLabel(): BlankNode {
+    const match = /^_:([\w.-]*\w|\w)/.exec(this.text.substring(this.position));
+    if (!match) {
+      this.fail('Invalid blank node label');
+    }
+    this.position += match[0].length;
+    let node = this.blankNodes.get(match[1]);
+    if (!node) {
+      node = this.graph.createBlankNode();
+      this.blankNodes.set(match[1], node);
+    }
+    return node;
+  }
+
+  protected parseIri(): NamedNode {
+    this.skipWhitespace();
+    if (this.peek() === '<') {
+      const end = this.text.indexOf('>', this.position);
+      if (end < 0) {
+        this.fail('Unterminated IRI');
+      }
+      const iri = unescapeUnicode(this.text.substring(this.position + 1, end));
+      this.position = end + 1;
+      return namedNode(resolveIri(iri, this.base));
+    }
+    const match = /^([A-Za-z][\w.-]*)?:((?:[\w:%-]|\\[_~.\-!$&'()*+,;=/?#@%]|\.(?=[\w:%\\-]))*)/.exec(this.text.substring(this.position));
+    if (!match) {
+      this.fail(`Expected an IRI but found '${this.text.substring(this.position, this.position + 20).split(/\s/)[0]}'`);
+    }
+    const namespace = this.prefixes[match[1] ?? ''];
+    if (namespace === undefined) {
+      this.fail(`Undeclared prefix '${match[1] ?? ''}:'`);
+    }
+    this.position += match[0].length;
+    return namedNode(namespace + match[2].replace(PN_LOCAL_ESCAPES, '$1'));
+  }
+
+  protected parseLiteral(): RdfTerm {
+    const quote = this.peek();
+    const long = this.text.startsWith(quote.repeat(3), this.position);
+    const delimiter = long ? quote.repeat(3) : quote;
+    this.position += delimiter.length;
+    let value = '';
+    for (;;) {
+      if (this.position >= this.text.length) {
+        this.fail('Unterminated string');
+      }
+      if (this.text.startsWith(delimiter, this.position)) {
+        this.position += delimiter.length;
+        break;
+      }
+      const char = this.text[this.position];
+      if (char === '\\') {
+        value += this.parseEscape();
+        continue;
+      }
+      if (!long && (char === '\n' || char === '\r')) {
+        this.fail('Line break in a short string');
+      }
+      value += char;
+      this.position++;
+    }
+    if (this.peek() === '@') {
+      const match = /^@([A-Za-z]+(-[A-Za-z0-9]+)*)/.exec(this.text.substring(this.position));
+      if (!match) {
+        this.fail('Invalid language tag');
+      }
+      this.position += match[0].length;
+      return literal(value, undefined, match[1]);
+    }
+    if (this.text.startsWith('^^', this.position)) {
+      this.position += 2;
+      return literal(value, this.parseIri().value);
+    }
+    return literal(value);
+  }
+
+  protected parseEscape(): string {
+    const char = this.text[this.position + 1];
+    const simple: Record<string, string> = { t: '\t', b: '\b', n: '\n', r: '\r', f: '\f', '"': '"', "'": "'", '\\': '\\' };
+    if (char in simple) {
+      this.position += 2;
+      return simple[char];
+    }
+    const length = char === 'u' ? 4 : char === 'U' ? 8 : 0;
+    const hex = this.text.substring(this.position + 2, this.position + 2 + length);
+    if (length === 0 || !/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) {
+      this.fail(`Invalid escape '\\${char}'`);
+    }
+    this.position += 2 + length;
+    return String.fromCodePoint(parseInt(hex, 16));
+  }
+
+  protected parseNumber(): RdfTerm {
+    const match = /^[+-]?(\d+\.?\d*[eE][+-]?\d+|\.\d+[eE][+-]?\d+|\d*\.\d+|\d+)/.exec(this.text.substring(this.position));
+    if (!match) {
+      this.fail('Invalid number');
+    }
+    this.position += match[0].length;
+    const value = match[0];
+    const datatype = /[eE]/.test(value) ? 'double' : value.includes('.') ? 'decimal' : 'integer';
+    return literal(value, `${XSD}${datatype}`);
+  }
+
+  protected tryA(): boolean {
+    if (this.peek() === 'a' && /[\s<[("'_]/.test(this.text[this.position + 1] ?? '')) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  protected tryKeyword(keyword: string, ignoreCase = false): boolean {
+    this.skipWhitespace();
+    const candidate = this.text.substring(this.position, this.position + keyword.length);
+    const matches = ignoreCase ? candidate.toUpperCase() === keyword : candidate === keyword;
+    if (matches && !/[\w:]/.test(this.text[this.position + keyword.length] ?? '')) {
+      this.position += keyword.length;
+      return true;
+    }
+    return false;
+  }
+
+  protected expect(char: string): void {
+    this.skipWhitespace();
+    if (this.peek() !== char) {
+      this.fail(`Expected '${char}' but found '${this.peek() || 'end of file'}'`);
+    }
+    this.position++;
+  }
+
+  protected peek(): string {
+    return this.text[this.position] ?? '';
+  }
+
+  protected skipWhitespace(): void {
+    for (;;) {
+      const match = /^(\s+|#[^\n\r]*)/.exec(this.text.substring(this.position, this.position + 1024));
+      if (!match) {
+        return;
+      }
+      this.position += match[0].length;
+    }
+  }
+
+  protected fail(message: string): never {
+    throw new RdfParseError(message, this.text.substring(0, this.position).split('\n').length);
+  }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// RDF/XML
+// ────────────────────────────────────────────────────────────────────────────
+
+interface XmlElement {
+  name: string
+  attributes: Map<string, string>
+  children: XmlElement[]
+  text: string
+  /** The source of the content, kept for rdf:parseType="Literal" */
+  innerXml: string
+  line: number
+  namespaces: Map<string, string>
+}
+
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+/**
+ * Parses RDF/XML: node and property elements, property attributes, rdf:parseType
+ * Resource, Collection and Literal, xml:base and xml:lang.
+ */
+export function parseRdfXml(text: string, baseIri = ''): ParsedRdf {
+  const root = parseXml(text);
+  return new RdfXmlReader(baseIri).read(root);
+}
+
+class RdfXmlReader {
+
+  protected readonly graph = new RdfGraph();
+  protected readonly blankNodes = new Map<string, BlankNode>();
+  protected prefixes: Record<string, string> = {};
+
+  constructor(protected readonly base: string) {}
+
+  read(root: XmlElement): ParsedRdf {
+    for (const [prefix, namespace] of root.namespaces) {
+      if (prefix !== 'xml') {
+        this.prefixes[prefix] = namespace;
+      }
+    }
+    const context = { base: root.attributes.get(`${XML_NAMESPACE}base`) ?? this.base, language: root.attributes.get(`${XML_NAMESPACE}lang`) };
+    if (root.name === `${RDF}RDF`) {
+      root.children.forEach(child => this.readNode(child, context));
+    } else {
+      this.readNode(root, context);
+    }
+    return { graph: this.graph, prefixes: this.prefixes };
+  }
+
+  protected readNode(element: XmlElement, parent: { base: string, language?: string }): RdfSubject {
+    const context = this.getContext(element, parent);
+    const about = element.attributes.get(`${RDF}about`);
+    const id = element.attributes.get(`${RDF}ID`);
+    const nodeId = element.attributes.get(`${RDF}nodeID`);
+    const subject: RdfSubject = about !== undefined
+      ? namedNode(resolveIri(about, context.base))
+      : id !== undefined
+        ? namedNode(resolveIri(`#${id}`, context.base))
+        : nodeId !== undefined ? this.getBlankNode(nodeId) : this.graph.createBlankNode();
+
+    if (element.name !== `${RDF}Description`) {
+      this.graph.add(subject, `${RDF}type`, element.name);
+    }
+    for (const [name, value] of element.attributes) {
+      if (isSyntaxAttribute(name)) {
+        continue;
+      }
+      if (name === `${RDF}type`) {
+        this.graph.add(subject, name, resolveIri(value, context.base));
+      } else {
+        this.graph.add(subject, name, literal(value, undefined, context.language));
+      }
+    }
+    for (const child of element.children) {
+      this.readProperty(subject, child, context);
+    }
+    return subject;
+  }
+
+  protected readProperty(subject: RdfSubject, element: XmlElement, parent: { base: string, language?: string }): void {
+    const context = this.getContext(element, parent);
+    const predicate = element.name;
+    const parseType = element.attributes.get(`${RDF}parseType`);
+    const resource = element.attributes.get(`${RDF}resource`);
+    const nodeId = element.attributes.get(`${RDF}nodeID`);
+    const datatype = element.attributes.get(`${RDF}datatype`);
+
+    if (parseType === 'Resource') {
+      const node = this.graph.createBlankNode();
+      this.graph.add(subject, predicate, node);
+      element.children.forEach(child => this.readProperty(node, child, context));
+    } else if (parseType === 'Collection') {
+      const items = element.children.map(child => this.readNode(child, context));
+      this.graph.add(subject, predicate, this.graph.createList(items));
+    } else if (parseType === 'Literal') {
+      this.graph.add(subject, predicate, literal(element.innerXml, `${RDF}XMLLiteral`));
+    } else if (element.children.length > 0) {
+      this.graph.add(subject, predicate, this.readNode(element.children[0], context));
+    } else if (resource !== undefined || nodeId !== undefined || hasPropertyAttributes(element)) {
+      const object = resource !== undefined
+        ? namedNode(resolveIri(resource, context.base))
+        : nodeId !== undefined ? this.getBlankNode(nodeId) : this.graph.createBlankNode();
+      this.graph.add(subject, predicate, object);
+      for (const [name, value] of element.attributes) {
+        if (!isSyntaxAttribute(name)) {
+          this.graph.add(object, name, name === `${RDF}type` ? namedNode(resolveIri(value, context.base)) : literal(value, undefined, context.language));
+        }
+      }
+    } else if (datatype !== undefined) {
+      this.graph.add(subject, predicate, literal(element.text, resolveIri(datatype, context.base)));
+    } else {
+      this.graph.add(subject, predicate, literal(element.text, undefined, context.language));
+    }
+  }
+
+  protected getContext(element: XmlElement, parent: { base: string, language?: string }): { base: string, language?: string } {
+    const base = element.attributes.get(`${XML_NAMESPACE}base`);
+    const language = element.attributes.get(`${XML_NAMESPACE}lang`);
+    return {
+      base: base !== undefined ? resolveIri(base, parent.base) : parent.base,
+      language: language !== undefined ? language || undefined : parent.language
+    };
+  }
+
+  protected getBlankNode(id: string): BlankNode {
+    let node = this.blankNodes.get(id);
+    if (!node) {
+      node = this.graph.createBlankNode();
+      this.blankNodes.set(id, node);
+    }
+    return node;
+  }
+}
+
+function isSyntaxAttribute(name: string): boolean {
+  return name.startsWith(XML_NAMESPACE) ||
+    [`${RDF}about`, `${RDF}ID`, `${RDF}nodeID`, `${RDF}resource`, `${RDF}datatype`, `${RDF}parseType`].includes(name);
+}
+
+function hasPropertyAttributes(element: XmlElement): boolean {
+  return [...element.attributes.keys()].some(name => !isSyntaxAttribute(name));
+}
+
+/**
+ * A small namespace-aware XML parser: element and attribute names are expanded to
+ * `namespace + localName`, comments, processing instructions and DOCTYPEs are skipped.
+ */
+function parseXml(text: string): XmlElement {
+  let position = 0;
+  // Entities declared in the DOCTYPE, as OWL tools write for namespaces (`&owl;Thing`)
+  const entities = new Map<string, string>();
+  const doctype = /<!DOCTYPE[^[>]*\[([\s\S]*?)\]\s*>/.exec(text);
+  for (const match of doctype?.[1].matchAll(/<!ENTITY\s+([\w.-]+)\s+("([^"]*)"|'([^']*)')\s*>/g) ?? []) {
+    entities.set(match[1], match[3] ?? match[4]);
+  }
+  const decode = (value: string) => decodeEntities(value, entities);
+  const lineAt = (offset: number) => text.substring(0, offset).split('\n').length;
+  const fail = (message: string): never => {
+    throw new RdfParseError(message, lineAt(position));
+  };
+  const skipMisc = () => {
+    for (;;) {
+      const match = /^(\s+|<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE(\[[\s\S]*?\]|[^>])*>)/.exec(text.substring(position));
+      if (!match) {
+        return;
+      }
+      position += match[0].length;
+    }
+  };
+
+  const parseElement = (parentNamespaces: Map<string, string>): XmlElement => {
+    const start = position;
+    const open = /^<([\w.:-]+)/.exec(text.substring(position));
+    if (!open) {
+      fail('Expected an element');
+    }
+    position += open![0].length;
+    const rawAttributes: [string, string][] = [];
+    for (;;) {
+      const attribute = /^\s+([\w.:-]+)\s*=\s*("([^"]*)"|'([^']*)')/.exec(text.substring(position));
+      if (!attribute) {
+        break;
+      }
+      rawAttributes.push([attribute[1], decode(attribute[3] ?? attribute[4])]);
+      position += attribute[0].length;
+    }
+    const end = /^\s*(\/?)>/.exec(text.substring(position));
+    if (!end) {
+      fail(`Malformed start tag <${open![1]}>`);
+    }
+    position += end![0].length;
+
+    const namespaces = new Map(parentNamespaces);
+    for (const [name, value] of rawAttributes) {
+      if (name === 'xmlns') {
+        namespaces.set('', value);
+      } else if (name.startsWith('xmlns:')) {
+        namespaces.set(name.substring(6), value);
+      }
+    }
+    const expand = (qname: string, isAttribute: boolean) => {
+      const [prefix, localName] = qname.includes(':') ? qname.split(':', 2) : ['', qname];
+      if (prefix === 'xml') {
+        return XML_NAMESPACE + localName;
+      }
+      const namespace = prefix === '' && isAttribute ? undefined : namespaces.get(prefix);
+      if (namespace === undefined) {
+        // Unqualified RDF attributes (about, resource...) are deprecated but still written by some tools
+        return isAttribute && ['about', 'ID', 'nodeID', 'resource', 'datatype', 'parseType'].includes(qname) ? RDF + qname : qname;
+      }
+      return namespace + localName;
+    };
+    const element: XmlElement = {
+      name: expand(open![1], false),
+      attributes: new Map(rawAttributes.filter(([name]) => name !== 'xmlns' && !name.startsWith('xmlns:')).map(([name, value]) => [expand(name, true), value])),
+      children: [],
+      text: '',
+      innerXml: '',
+      line: lineAt(start),
+      namespaces
+    };
+    if (end![1] === '/') {
+      return element;
+    }
+
+    const contentStart = position;
+    for (;;) {
+      if (position >= text.length) {
+        fail(`Unclosed element <${open![1]}>`);
+      }
+      if (text.startsWith('</', position)) {
+        const close = /^<\/([\w.:-]+)\s*>/.exec(text.substring(position));
+        if (!close || close[1] !== open![1]) {
+          fail(`Expected </${open![1]}>`);
+        }
+        element.innerXml = text.substring(contentStart, position);
+        position += close![0].length;
+        return element;
+      }
+      if (text.startsWith('<![CDATA[', position)) {
+        const cdataEnd = text.indexOf(']]>', position);
+        if (cdataEnd < 0) {
+          fail('Unterminated CDATA section');
+        }
+        element.text += text.substring(position + 9, cdataEnd);
+        position = cdataEnd + 3;
+      } else if (text.startsWith('<!--', position) || text.startsWith('<?', position)) {
+        skipMisc();
+      } else if (text[position] === '<') {
+        element.children.push(parseElement(namespaces));
+      } else {
+        const next = text.indexOf('<', position);
+        const chunk = text.substring(position, next < 0 ? text.length : next);
+        element.text += decode(chunk);
+        position += chunk.length;
+      }
+    }
+  };
+
+  skipMisc();
+  const root = parseElement(new Map([['xml', XML_NAMESPACE]]));
+  skipMisc();
+  if (position < text.length) {
+    fail('Unexpected content after the root element');
+  }
+  return root;
+}
+
+function decodeEntities(value: string, entities: Map<string, string>): string {
+  return value.replace(/&(#x[0-9A-Fa-f]+|#\d+|[\w.-]+);/g, (reference: string, entity: string) => {
+    if (entities.has(entity)) {
+      return entities.get(entity)!;
+    }
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    if (!entity.startsWith('#')) {
+      return reference;
+    }
+    return String.fromCodePoint(entity.startsWith('#x') ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10));
+  });
+}
+
+function unescapeUnicode(iri: string): string {
+  return iri.replace(/\\u([0-9A-Fa-f]{4})|\\U([0-9A-Fa-f]{8})/g, (_, short: string, long: string) => String.fromCodePoint(parseInt(short ?? long, 16)));
+}
+
+/**
+ * Resolves a relative IRI reference against a base IRI (fragments, absolute paths and relative
+ * paths, whose `.` and `..` segments are removed).
+ */
+function resolveIri(iri: string, base: string): string {
+  if (/^[A-Za-z][\w+.-]*:/.test(iri) || !base) {
+    return iri;
+  }
+  if (iri === '') {
+    return base.replace(/#.*$/, '');
+  }
+  if (iri.startsWith('#')) {
+    return base.replace(/#.*$/, '') + iri;
+  }
+  if (iri.startsWith('//')) {
+    return `${base.split(':')[0]}:${iri}`;
+  }
+  const origin = /^[A-Za-z][\w+.-]*:\/\/[^/]*/.exec(base)?.[0] ?? '';
+  const [, path, suffix] = /^([^?#]*)(.*)$/s.exec(iri)!;
+  const directory = base.substring(origin.length).replace(/[#?].*$/, '').replace(/[^/]*$/, '');
+  return origin + removeDotSegments(path.startsWith('/') ? path : directory + path) + suffix;
+}
+
+function removeDotSegments(path: string): string {
+  const segments: string[] = [];
+  const input = path.split('/');
+  input.forEach((segment, index) => {
+    const last = index === input.length - 1;
+    if (segment === '..') {
+      // The empty segment before a leading slash stays
+      if (segments.length > (segments[0] === '' ? 1 : 0)) {
+        segments.pop();
+      }
+    } else if (segment !== '.') {
+      segments.push(segment);
+      return;
+    }
+    if (last) {
+      segments.push('');
+    }
+  });
+  return segments.join('/');
+}
@@ -0,0 +1,392 @@
+/**
+ * OML RDF
+ * A minimal in-memory RDF graph and its serializations to Turtle, N-Triples and RDF/XML
+ *
+ * The graph only keeps what the OWL mapping of OML needs: IRIs, blank nodes, typed and
+ * language-tagged literals, and RDF collections. Triples are kept in insertion order so that
+ * the serializations are stable from one export to the next.
+ */
+
+export interface NamedNode {
+  termType: 'NamedNode'
+  value: string
+}
+
+export interface BlankNode {
+  termType: 'BlankNode'
+  value: string
+}
+
+export interface RdfLiteral {
+  termType: 'Literal'
+  value: string
+  datatype: string
+  language?: string
+}
+
+export type RdfSubject = NamedNode | BlankNode;
+export type RdfTerm = NamedNode | BlankNode | RdfLiteral;
+
+export interface Triple {
+  subject: RdfSubject
+  predicate: NamedNode
+  object: RdfTerm
+}
+
+export type RdfFormat = 'turtle' | 'ntriples' | 'rdfxml';
+
+export const RDF_FORMATS: readonly RdfFormat[] = ['turtle', 'ntriples', 'rdfxml'];
+
+export const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+export const RDFS = 'http://www.w3.org/2000/01/rdf-schema#';
+export const OWL = 'http://www.w3.org/2002/07/owl#';
+export const XSD = 'http://www.w3.org/2001/XMLSchema#';
+export const SWRL = 'http://www.w3.org/2003/11/swrl#';
+export const SWRLB = 'http://www.w3.org/2003/11/swrlb#';
+export const OML = 'http://opencaesar.io/oml#';
+
+/**
+ * Prefixes every serialization declares, in addition to the ones of the exported ontologies.
+ */
+export const STANDARD_PREFIXES: Record<string, string> = {
+  rdf: RDF,
+  rdfs: RDFS,
+  owl: OWL,
+  xsd: XSD,
+  swrl: SWRL,
+  swrlb: SWRLB,
+  oml: OML
+};
+
+export function namedNode(iri: string): NamedNode {
+  return { termType: 'NamedNode', value: iri };
+}
+
+/**
+ * Creates a literal, typed by an IRI or tagged with a language (`rdf:langString`).
+ */
+export function literal(value: string, datatype: string = `${XSD}string`, language?: string): RdfLiteral {
+  return language
+    ? { termType: 'Literal', value, datatype: `${RDF}langString`, language }
+    : { termType: 'Literal', value, datatype };
+}
+
+export function termKey(term: RdfTerm): string {
+  switch (term.termType) {
+    case 'NamedNode':
+      return `<${term.value}>`;
+    case 'BlankNode':
+      return `_:${term.value}`;
+    case 'Literal':
+      return `"${term.value}"${term.language ? `@${term.language}` : `^^<${term.datatype}>`}`;
+  }
+}
+
+export class RdfGraph {
+
+  readonly triples: Triple[] = [];
+  protected readonly keys = new Set<string>();
+  protected blankNodeCount = 0;
+
+  /**
+   * Adds a triple, unless the graph already contains it.
+   */
+  add(subject: RdfSubject, predicate: NamedNode | string, object: RdfTerm | string): void {
+    const triple: Triple = {
+      subject,
+      predicate: typeof predicate === 'string' ? namedNode(predicate) : predicate,
+      object: typeof object === 'string' ? namedNode(object) : object
+    };
+    const key = `${termKey(triple.subject)} ${termKey(triple.predicate)} ${termKey(triple.object)}`;
+    if (!this.keys.has(key)) {
+      this.keys.add(key);
+      this.triples.push(triple);
+    }
+  }
+
+  createBlankNode(): BlankNode {
+    return { termType: 'BlankNode', value: `b${this.blankNodeCount++}` };
+  }
+
+  /**
+   * Adds an RDF collection of the given items and returns its head (`rdf:nil` when empty).
+   */
+  createList(items: RdfTerm[]): RdfSubject {
+    let head: RdfSubject = namedNode(`${RDF}nil`);
+    for (const item of [...items].reverse()) {
+      const node = this.createBlankNode();
+      this.add(node, `${RDF}first`, item);
+      this.add(node, `${RDF}rest`, head);
+      head = node;
+    }
+    return head;
+  }
+
+  /**
+   * Returns the triples matching the given terms; undefined terms match anything.
+   */
+  match(subject?: RdfSubject, predicate?: string, object?: RdfTerm): Triple[] {
+    return this.triples.filter(triple =>
+      (!subject || termKey(triple.subject) === termKey(subject)) &&
+      (!predicate || triple.predicate.value === predicate) &&
+      (!object || termKey(triple.object) === termKey(object)));
+  }
+}
+
+/**
+ * Serializes a graph in the given format. The prefixes are used by Turtle and RDF/XML only.
+ */
+export function serializeGraph(graph: RdfGraph, format: RdfFormat, prefixes: Record<string, string> = {}): string {
+  switch (format) {
+    case 'ntriples':
+      return writeNTriples(graph);
+    case 'turtle':
+      return writeTurtle(graph, prefixes);
+    case 'rdfxml':
+      return writeRdfXml(graph, prefixes);
+  }
+}
+
+export function writeNTriples(graph: RdfGraph): string {
+  const writeTerm = (term: RdfTerm): string => term.termType === 'Literal'
+    ? writeLiteral(term, iri => `<${escapeIri(iri)}>`)
+    : term.termType === 'NamedNode' ? `<${escapeIri(term.value)}>` : `_:${term.value}`;
+  return graph.triples
+    .map(triple => `${writeTerm(triple.subject)} ${writeTerm(triple.predicate)} ${writeTerm(triple.object)} .\n`)
+    .join('');
+}
+
+/**
+ * Writes Turtle grouped by subject. Blank nodes referenced exactly once are nested as `[ ... ]`
+ * and well-formed collections as `( ... )`; other blank nodes keep a label.
+ */
+export function writeTurtle(graph: RdfGraph, prefixes: Record<string, string>): string {
+  const bySubject = groupBySubject(graph);
+  const references = countBlankNodeReferences(graph);
+  const nested = new Set([...bySubject.keys()].filter(key => key.startsWith('_:') && references.get(key) === 1));
+  const usedPrefixes = new Set<string>();
+
+  const writeIri = (iri: string): string => {
+    if (iri === `${RDF}type`) {
+      return 'a';
+    }
+    const prefixed = compactIri(iri, prefixes);
+    if (prefixed) {
+      usedPrefixes.add(prefixed.split(':')[0]);
+      return prefixed;
+    }
+    return `<${escapeIri(iri)}>`;
+  };
+
+  const writeTerm = (term: RdfTerm, indent: string, visiting: Set<string>): string => {
+    if (term.termType === 'NamedNode') {
+      return term.value === `${RDF}type` ? `<${RDF}type>` : writeIri(term.value);
+    }
+    if (term.termType === 'Literal') {
+      return writeTurtleLiteral(term, writeIri);
+    }
+    const key = termKey(term);
+    if (!nested.has(key) || visiting.has(key)) {
+      return `_:${term.value}`;
+    }
+    const items = getListItems(key, bySubject, nested);
+    const inner = new Set(visiting).add(key);
+    if (items) {
+      return `( ${items.map(item => writeTerm(item, indent, inner)).join(' ')} )`;
+    }
+    const triples = bySubject.get(key) ?? [];
+    if (triples.length === 0) {
+      return '[]';
+    }
+    return `[\n${writePredicates(triples, `${indent}    `, inner)}\n${indent}]`;
+  };
+
+  const writePredicates = (triples: Triple[], indent: string, visiting: Set<string>): string => {
+    const byPredicate = new Map<string, Triple[]>();
+    for (const triple of triples) {
+      const list = byPredicate.get(triple.predicate.value) ?? [];
+      list.push(triple);
+      byPredicate.set(triple.predicate.value, list);
+    }
+    return [...byPredicate.entries()]
+      .map(([predicate, list]) => `${indent}${writeIri(predicate)} ${list.map(t => writeTerm(t.object, indent, visiting)).join(', ')}`)
+      .join(' ;\n');
+  };
+
+  const blocks: string[] = [];
+  for (const [key, triples] of bySubject) {
+    if (nested.has(key)) {
+      continue;
+    }
+    const subject = triples[0].subject;
+    const name = subject.termType === 'NamedNode' ? writeIri(subject.value) : `_:${subject.value}`;
+    blocks.push(`${name}\n${writePredicates(triples, '    ', new Set([key]))} .`);
+  }
+
+  const header = Object.entries(prefixes)
+    .filter(([prefix]) => usedPrefixes.has(prefix))
+    .map(([prefix, namespace]) => `@prefix ${prefix}: <${escapeIri(namespace)}> .`);
+  return [header.join('\n'), ...blocks].filter(part => part.length > 0).join('\n\n') + '\n';
+}
+
+/**
+ * Writes RDF/XML with one flat `rdf:Description` per subject. Blank nodes are written with
+ * `rdf:nodeID` so that shared and recursive structures need no nesting.
+ */
+export function writeRdfXml(graph: RdfGraph, prefixes: Record<string, string>): string {
+  const namespaces = new Map<string, string>(Object.entries(prefixes).map(([prefix, namespace]) => [namespace, prefix]));
+  namespaces.set(RDF, 'rdf');
+  const usedNamespaces = new Set<string>([RDF]);
+
+  const writePredicateName = (iri: string): string => {
+    const split = splitIri(iri);
+    if (!split) {
+      throw new Error(`The IRI <${iri}> cannot be written as an RDF/XML property element.`);
+    }
+    let prefix = namespaces.get(split.namespace);
+    if (!prefix) {
+      prefix = `ns${namespaces.size}`;
+      namespaces.set(split.namespace, prefix);
+    }
+    usedNamespaces.add(split.namespace);
+    return `${prefix}:${split.localName}`;
+  };
+
+  const lines: string[] = [];
+  for (const triples of groupBySubject(graph).values()) {
+    const subject = triples[0].subject;
+    const about = subject.termType === 'NamedNode'
+      ? `rdf:about="${escapeXml(subject.value)}"`
+      : `rdf:nodeID="${subject.value}"`;
+    lines.push(`  <rdf:Description ${about}>`);
+    for (const { predicate, object } of triples) {
+      const element = writePredicateName(predicate.value);
+      if (object.termType === 'NamedNode') {
+        lines.push(`    <${element} rdf:resource="${escapeXml(object.value)}"/>`);
+      } else if (object.termType === 'BlankNode') {
+        lines.push(`    <${element} rdf:nodeID="${object.value}"/>`);
+      } else {
+        const attribute = object.language
+          ? ` xml:lang="${escapeXml(object.language)}"`
+          : object.datatype === `${XSD}string` ? '' : ` rdf:datatype="${escapeXml(object.datatype)}"`;
+        lines.push(`    <${element}${attribute}>${escapeXml(object.value)}</${element}>`);
+      }
+    }
+    lines.push('  </rdf:Description>');
+  }
+
+  const declarations = [...namespaces.entries()]
+    .filter(([namespace]) => usedNamespaces.has(namespace))
+    .map(([namespace, prefix]) => `\n    xmlns:${prefix}="${escapeXml(namespace)}"`);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<rdf:RDF${declarations.join('')}>`,
+    ...lines,
+    '</rdf:RDF>',
+    ''
+  ].join('\n');
+}
+
+function groupBySubject(graph: RdfGraph): Map<string, Triple[]> {
+  const result = new Map<string, Triple[]>();
+  for (const triple of graph.triples) {
+    const key = termKey(triple.subject);
+    const list = result.get(key) ?? [];
+    list.push(triple);
+    result.set(key, list);
+  }
+  return result;
+}
+
+function countBlankNodeReferences(graph: RdfGraph): Map<string, number> {
+  const result = new Map<string, number>();
+  for (const { object } of graph.triples) {
+    if (object.termType === 'BlankNode') {
+      const key = termKey(object);
+      result.set(key, (result.get(key) ?? 0) + 1);
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the items of a collection whose nodes all have exactly an `rdf:first` and an `rdf:rest`.
+ */
+function getListItems(key: string, bySubject: Map<string, Triple[]>, nested: Set<string>): RdfTerm[] | undefined {
+  const items: RdfTerm[] = [];
+  let current = key;
+  while (current !== `<${RDF}nil>`) {
+    const triples = bySubject.get(current) ?? [];
+    const first = triples.find(t => t.predicate.value === `${RDF}first`);
+    const rest = triples.find(t => t.predicate.value === `${RDF}rest`);
+    if (triples.length !== 2 || !first || !rest || (current !== key && !nested.has(current))) {
+      return undefined;
+    }
+    items.push(first.object);
+    current = termKey(rest.object);
+  }
+  return items;
+}
+
+function writeLiteral(term: RdfLiteral, writeIri: (iri: string) => string): string {
+  const quoted = `"${escapeString(term.value)}"`;
+  if (term.language) {
+    return `${quoted}@${term.language}`;
+  }
+  return term.datatype === `${XSD}string` ? quoted : `${quoted}^^${writeIri(term.datatype)}`;
+}
+
+function writeTurtleLiteral(term: RdfLiteral, writeIri: (iri: string) => string): string {
+  const { value, datatype } = term;
+  if ((datatype === `${XSD}integer` && /^[+-]?\d+$/.test(value)) ||
+    (datatype === `${XSD}decimal` && /^[+-]?\d*\.\d+$/.test(value)) ||
+    (datatype === `${XSD}boolean` && /^(true|false)$/.test(value))) {
+    return value;
+  }
+  return writeLiteral(term, writeIri);
+}
+
+/**
+ * Returns the prefixed name of an IRI, when a prefix covers its namespace and the rest is a
+ * valid local name.
+ */
+function compactIri(iri: string, prefixes: Record<string, string>): string | undefined {
+  for (const [prefix, namespace] of Object.entries(prefixes)) {
+    if (iri.startsWith(namespace)) {
+      const localName = iri.substring(namespace.length);
+      if (/^[A-Za-z_][\w-]*(\.[\w-]+)*$/.test(localName)) {
+        return `${prefix}:${localName}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Splits an IRI after its last `#` or `/` into a namespace and an XML local name.
+ */
+function splitIri(iri: string): { namespace: string, localName: string } | undefined {
+  const match = /^(.*[#/])([A-Za-z_][\w.-]*)$/.exec(iri);
+  return match ? { namespace: match[1], localName: match[2] } : undefined;
+}
+
+function escapeString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+function escapeIri(iri: string): string {
+  return iri.replace(/[\u0000- <>"{}|^`\\]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0').toUpperCase()}`);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,987 @@
+/**
+ * OML Reasoner
+ * Derives the facts entailed by the vocabularies visible from an ontology: the specialization
+ * closure of terms (reading equivalences to a single term in both directions), the types implied
+ * by property domains and ranges, the values implied by reverse, symmetric and transitive
+ * relations, the classification of instances by equivalence axioms, and the consequents of the
+ * vocabulary rules, forward-chained over the instances until no new fact is found.
+ *
+ * The reasoning is open-world: restrictions that need all the values of a property to be known
+ * (`all`, `max` and `exactly`) never classify an instance, and sameAs facts are derived but do not
+ * merge the facts of the instances involved. Only the import closure of the root ontology is considered.
+ */
+
+import type { AstNode } from 'langium';
+import {
+  isAnnotationProperty,
+  isBuiltInPredicate,
+  isConceptInstance,
+  isDifferentFromPredicate,
+  isEntity,
+  isEntityEquivalenceAxiom,
+  isForwardRelation,
+  isPropertyCardinalityRestrictionAxiom,
+  isPropertyEquivalenceAxiom,
+  isPropertyPredicate,
+  isPropertyRangeRestrictionAxiom,
+  isPropertySelfRestrictionAxiom,
+  isPropertyValueRestrictionAxiom,
+  isQuotedLiteral,
+  isRelationEntity,
+  isRelationEntityPredicate,
+  isRelationInstance,
+  isReverseRelation,
+  isRule,
+  isSameAsPredicate,
+  isScalar,
+  isTypePredicate,
+  isUnreifiedRelation
+} from './generated/ast.js';
+import type {
+  AnonymousInstance,
+  Argument,
+  BuiltInPredicate,
+  Entity,
+  EntityEquivalenceAxiom,
+  Literal,
+  NamedInstance,
+  Ontology,
+  Predicate,
+  PropertyRestrictionAxiom,
+  RelationEntity,
+  Rule,
+  SemanticProperty
+} from './generated/ast.js';
+import { checkLiteral, getLexicalForm } from './oml-literals.js';
+import { OntologyClosure, resolveMember } from './oml-semantics.js';
+import type { PropertyValue } from './oml-semantics.js';
+
+export type InstanceNode = NamedInstance | AnonymousInstance;
+
+export type InferenceKind = 'equivalence' | 'domain' | 'range' | 'inverse' | 'symmetric' | 'transitive' | 'rule';
+
+/**
+ * Why a fact was inferred: the axiom it follows from and the facts that were used.
+ */
+export interface InferenceJustification {
+  kind: InferenceKind
+  /** The equivalence axiom, property, relation entity or rule the fact follows from */
+  axiom: AstNode
+  /** The facts the inference used, e.g. `hasPart(car, wheel)` */
+  premises: string[]
+}
+
+export interface InferredType {
+  kind: 'type'
+  instance: InstanceNode
+  type: Entity
+  justification: InferenceJustification
+}
+
+export interface InferredPropertyValue {
+  kind: 'property'
+  subject: InstanceNode
+  property: SemanticProperty
+  value: InstanceNode | Literal
+  justification: InferenceJustification
+}
+
+/** A relation instance that a rule relates a source to a target through a relation entity */
+export interface InferredRelation {
+  kind: 'relation'
+  instance: InstanceNode
+  relationEntity: RelationEntity
+  source: InstanceNode
+  target: InstanceNode
+  justification: InferenceJustification
+}
+
+export interface InferredIdentity {
+  kind: 'sameAs' | 'differentFrom'
+  instances: [InstanceNode, InstanceNode]
+  justification: InferenceJustification
+}
+
+export type InferredFact = InferredType | InferredPropertyValue | InferredRelation | InferredIdentity;
+
+export interface ReasonerOptions {
+  /** Type the subjects and values of properties by their domains and ranges (default: true) */
+  domainsAndRanges?: boolean
+  /** Forward-chain the rules of the vocabularies (default: true) */
+  rules?: boolean
+}
+
+/**
+ * A rule the reasoner could not fully apply, e.g. because it uses an unsupported built-in.
+ */
+export interface ReasonerIssue {
+  rule: Rule
+  message: string
+}
+
+interface ValueEntry {
+  value: InstanceNode | Literal
+  source: PropertyValue['source']
+}
+
+interface PropertyTriple extends ValueEntry {
+  subject: InstanceNode
+  property: SemanticProperty
+}
+
+interface RelationTuple {
+  instance: InstanceNode
+  entity: RelationEntity
+  source: InstanceNode
+  target: InstanceNode
+  origin: PropertyValue['source']
+}
+
+/** An equivalence axiom that defines the instances of an entity rather than relating it to another term */
+interface Definition {
+  entity: Entity
+  axiom: EntityEquivalenceAxiom
+  superTerms: Entity[]
+  restrictions: PropertyRestrictionAxiom[]
+}
+
+type Bindings = Map<string, InstanceNode | Literal>;
+
+/** Built-ins evaluated by the reasoner; they only test values that are already bound */
+const BUILTIN_TESTS: Record<string, (a: unknown, b: unknown, c?: unknown) => boolean> = {
+  equal: (a, b) => compareValues(a, b) === 0,
+  notEqual: (a, b) => compareValues(a, b) !== 0,
+  lessThan: (a, b) => compareValues(a, b) < 0,
+  lessThanOrEqual: (a, b) => compareValues(a, b) <= 0,
+  greaterThan: (a, b) => compareValues(a, b) > 0,
+  greaterThanOrEqual: (a, b) => compareValues(a, b) >= 0,
+  stringEqualIgnoreCase: (a, b) => String(a).toLowerCase() === String(b).toLowerCase(),
+  contains: (a, b) => String(a).includes(String(b)),
+  containsIgnoreCase: (a, b) => String(a).toLowerCase().includes(String(b).toLowerCase()),
+  startsWith: (a, b) => String(a).startsWith(String(b)),
+  endsWith: (a, b) => String(a).endsWith(String(b)),
+  matches: (a, b, flags) => new RegExp(String(b), flags === undefined ? undefined : String(flags)).test(String(a))
+};
+
+export class OmlReasoner {
+
+  readonly closure: OntologyClosure;
+  protected readonly options: Required<ReasonerOptions>;
+  /** The named instances of the closure (by declaration) and the anonymous instances they contain */
+  protected readonly instances: InstanceNode[] = [];
+  /** Asserted and inferred types of each instance */
+  protected readonly types = new Map<InstanceNode, Set<Entity>>();
+  /** Property values by property, then by subject, keyed by the value (or the text of a literal) */
+  protected readonly values = new Map<SemanticProperty, Map<InstanceNode, Map<unknown, ValueEntry>>>();
+  protected readonly tuples: RelationTuple[] = [];
+  protected readonly tuplesBySource = new Map<InstanceNode, RelationTuple[]>();
+  protected readonly tuplesByTarget = new Map<InstanceNode, RelationTuple[]>();
+  protected readonly sameAs = new Map<InstanceNode, Set<InstanceNode>>();
+  protected readonly differentFrom = new Map<InstanceNode, Set<InstanceNode>>();
+  /** Terms equivalent to exactly one other term, keyed by that term */
+  protected readonly equivalents = new Map<AstNode, AstNode[]>();
+  protected readonly definitions: Definition[] = [];
+  protected readonly rules: Rule[] = [];
+  protected readonly superTerms = new Map<AstNode, Set<AstNode>>();
+  protected readonly facts: InferredFact[] = [];
+  protected readonly issues = new Map<string, ReasonerIssue>();
+  protected saturated = false;
+
+  constructor(root: Ontology | OntologyClosure, options: ReasonerOptions = {}) {
+    this.closure = root instanceof OntologyClosure ? root : new OntologyClosure(root);
+    this.options = { domainsAndRanges: true, rules: true, ...options };
+    for (const ontology of this.closure.ontologies) {
+      for (const statement of (ontology as { ownedStatements?: AstNode[] }).ownedStatements ?? []) {
+        this.loadStatement(statement);
+      }
+    }
+  }
+
+  /**
+   * Returns the term and all its supertypes, following specializations and equivalences,
+   * and the terms declared equivalent to exactly one of them.
+   */
+  getSuperTerms(term: AstNode): Set<AstNode> {
+    const declaration = resolveMember(term);
+    let result = this.superTerms.get(declaration);
+    if (result) {
+      return result;
+    }
+    result = new Set<AstNode>();
+    const pending: AstNode[] = [declaration];
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      if (result.has(current)) {
+        continue;
+      }
+      result.add(current);
+      pending.push(...this.getDirectSuperTerms(current));
+    }
+    this.superTerms.set(declaration, result);
+    return result;
+  }
+
+  /**
+   * Returns the direct supertypes of a term and the terms declared equivalent to exactly it.
+   */
+  getDirectSuperTerms(term: AstNode): AstNode[] {
+    const declaration = resolveMember(term);
+    return [...this.closure.getDirectSuperTerms(declaration), ...(this.equivalents.get(declaration) ?? [])];
+  }
+
+  isSubTermOf(term: AstNode, superTerm: AstNode): boolean {
+    return this.getSuperTerms(term).has(resolveMember(superTerm));
+  }
+
+  /**
+   * Returns the other terms that are both a subtype and a supertype of the term.
+   */
+  getEquivalentTerms(term: AstNode): AstNode[] {
+    const declaration = resolveMember(term);
+    return [...this.getSuperTerms(declaration)].filter(other => other !== declaration && this.getSuperTerms(other).has(declaration));
+  }
+
+  /**
+   * Returns the property restrictions of an entity and of all its supertypes and equivalent entities.
+   */
+  getRestrictions(entity: AstNode): PropertyRestrictionAxiom[] {
+    return [...this.getSuperTerms(entity)]
+      .flatMap(type => this.closure.getContributions(type))
+      .flatMap(member => (member as { ownedPropertyRestrictions?: PropertyRestrictionAxiom[] }).ownedPropertyRestrictions ?? []);
+  }
+
+  /**
+   * Returns the asserted and inferred types of an instance.
+   */
+  getTypes(instance: InstanceNode): Entity[] {
+    this.saturate();
+    return [...(this.types.get(this.getKey(instance)) ?? this.closure.getTypes(instance))];
+  }
+
+  /**
+   * Returns the asserted and inferred types of an instance and all their supertypes.
+   */
+  getAllTypes(instance: InstanceNode): Set<AstNode> {
+    this.saturate();
+    return this.collectTypes(this.getKey(instance));
+  }
+
+  /**
+   * Returns the asserted and inferred values of a property (or of its sub-properties) on an instance.
+   */
+  getPropertyValues(instance: InstanceNode, property: SemanticProperty): PropertyValue[] {
+    this.saturate();
+    return this.getValues(this.getKey(instance), property).map(({ value, source }) =>
+      isInstanceNode(value) ? { source, instance: value } : { source, literal: value });
+  }
+
+  isSameAs(instance: InstanceNode, other: InstanceNode): boolean {
+    this.saturate();
+    return this.isSame(this.getKey(instance), this.getKey(other));
+  }
+
+  /**
+   * Returns the instances of the closure, including the anonymous instances they contain.
+   */
+  getInstances(): InstanceNode[] {
+    return [...this.instances];
+  }
+
+  /**
+   * Returns the inferred facts, in the order they were derived.
+   */
+  getInferredFacts(): InferredFact[] {
+    this.saturate();
+    return [...this.facts];
+  }
+
+  getIssues(): ReasonerIssue[] {
+    this.saturate();
+    return [...this.issues.values()];
+  }
+
+  /**
+   * Applies the inferences until no new fact is found. Facts are only ever added and the
+   * instances are fixed, so this terminates.
+   */
+  protected saturate(): void {
+    if (this.saturated) {
+      return;
+    }
+    this.saturated = true;
+    let changed = true;
+    while (changed) {
+      changed = false;
+      if (this.options.domainsAndRanges) {
+        changed = this.inferDomainsAndRanges() || changed;
+      }
+      changed = this.inferRelationCharacteristics() || changed;
+      changed = this.classify() || changed;
+      if (this.options.rules) {
+        changed = this.applyRules() || changed;
+      }
+    }
+  }
+
+  protected loadStatement(statement: AstNode): void {
+    if (isConceptInstance(statement) || isRelationInstance(statement)) {
+      const instance = resolveMember(statement);
+      this.addInstance(instance);
+      this.loadPropertyValues(instance, statement);
+      if (isRelationInstance(statement)) {
+        const entities = this.closure.getTypes(instance).filter(isRelationEntity);
+        for (const source of statement.sources.map(r => r.ref).filter(isDefined)) {
+          for (const target of statement.targets.map(r => r.ref).filter(isDefined)) {
+            entities.forEach(entity => this.addTuple(instance, entity, resolveMember(source), resolveMember(target), statement));
+          }
+        }
+      }
+    } else if (isRule(statement)) {
+      if (statement.antecedent.length > 0) {
+        this.rules.push(statement);
+      }
+    } else {
+      const declaration = resolveMember(statement);
+      for (const axiom of (statement as { ownedEquivalences?: AstNode[] }).ownedEquivalences ?? []) {
+        if (!isEntityEquivalenceAxiom(axiom) && !isPropertyEquivalenceAxiom(axiom)) {
+          continue;
+        }
+        const superTerms = axiom.superTerms.map(r => r.ref).filter(isDefined).map(term => resolveMember<AstNode>(term));
+        const restrictions = isEntityEquivalenceAxiom(axiom) ? axiom.ownedPropertyRestrictions : [];
+        if (superTerms.length === 1 && restrictions.length === 0) {
+          this.equivalents.set(superTerms[0], [...(this.equivalents.get(superTerms[0]) ?? []), declaration]);
+        } else if (isEntityEquivalenceAxiom(axiom) && isEntity(declaration) && restrictions.every(isMonotonic)) {
+          this.definitions.push({ entity: declaration, axiom, superTerms: superTerms.filter(isEntity), restrictions });
+        }
+      }
+    }
+  }
+
+  protected loadPropertyValues(subject: InstanceNode, member: InstanceNode): void {
+    for (const assertion of member.ownedPropertyValues) {
+      const property = assertion.property?.ref;
+      if (!property) {
+        continue;
+      }
+      for (const literal of assertion.literalValues) {
+        this.addValue(subject, property, literal, assertion);
+      }
+      for (const value of assertion.referencedValues.map(r => r.ref).filter(isDefined)) {
+        const instance = resolveMember(value);
+        this.addInstance(instance);
+        this.addValue(subject, property, instance, assertion);
+      }
+      for (const value of assertion.containedValues) {
+        this.addInstance(value);
+        this.loadPropertyValues(value, value);
+        this.addValue(subject, property, value, assertion);
+      }
+    }
+  }
+
+  protected inferDomainsAndRanges(): boolean {
+    let changed = false;
+    for (const triple of [...this.getTriples()]) {
+      const premises = [`${getName(triple.property)}(${formatValue(triple.subject)}, ${formatValue(triple.value)})`];
+      for (const property of this.getSuperTerms(triple.property) as Set<SemanticProperty>) {
+        for (const domain of this.closure.getDomains(property)) {
+          changed = this.addType(triple.subject, domain, { kind: 'domain', axiom: property, premises }) || changed;
+        }
+        if (isInstanceNode(triple.value)) {
+          for (const range of this.closure.getRanges(property).filter(isEntity)) {
+            changed = this.addType(triple.value, range, { kind: 'range', axiom: property, premises }) || changed;
+          }
+        }
+      }
+    }
+    // Relation instances of relation entities without a forward relation yield no triple
+    for (const tuple of [...this.tuples]) {
+      const premises = [`${getName(tuple.entity)}(${formatValue(tuple.source)}, ${formatValue(tuple.instance)}, ${formatValue(tuple.target)})`];
+      for (const entity of [...this.getSuperTerms(tuple.entity)].filter(isRelationEntity)) {
+        for (const contribution of this.closure.getContributions(entity)) {
+          for (const source of contribution.sources.map(r => r.ref).filter(isDefined)) {
+            changed = this.addType(tuple.source, resolveMember(source), { kind: 'domain', axiom: entity, premises }) || changed;
+          }
+          for (const target of contribution.targets.map(r => r.ref).filter(isDefined)) {
+            changed = this.addType(tuple.target, resolveMember(target), { kind: 'range', axiom: entity, premises }) || changed;
+          }
+        }
+      }
+    }
+    return changed;
+  }
+
+  protected inferRelationCharacteristics(): boolean {
+    let changed = false;
+    for (const triple of [...this.getTriples()]) {
+      const { subject, property, value } = triple;
+      if (!isInstanceNode(value)) {
+        continue;
+      }
+      const premise = `${getName(property)}(${formatValue(subject)}, ${formatValue(value)})`;
+      const inverse = getInverse(property);
+      if (inverse) {
+        changed = this.addValue(value, inverse, subject, property, { kind: 'inverse', axiom: property, premises: [premise] }) || changed;
+      }
+      const characteristics = getCharacteristics(property);
+      if (characteristics?.symmetric) {
+        changed = this.addValue(value, property, subject, property, { kind: 'symmetric', axiom: property, premises: [premise] }) || changed;
+      }
+      if (characteristics?.transitive) {
+        for (const next of this.getValues(value, property).map(entry => entry.value).filter(isInstanceNode)) {
+          const premises = [premise, `${getName(property)}(${formatValue(value)}, ${formatValue(next)})`];
+          changed = this.addValue(subject, property, next, property, { kind: 'transitive', axiom: property, premises }) || changed;
+        }
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Types instances by the entities whose equivalence axioms they satisfy.
+   */
+  protected classify(): boolean {
+    let changed = false;
+    for (const definition of this.definitions) {
+      for (const instance of this.instances) {
+        const types = this.collectTypes(instance);
+        if (types.has(definition.entity) || !definition.superTerms.every(term => types.has(term))) {
+          continue;
+        }
+        if (definition.restrictions.every(restriction => this.satisfies(instance, restriction))) {
+          const premises = definition.superTerms.map(term => `${getName(term)}(${formatValue(instance)})`);
+          premises.push(...definition.restrictions.map(restriction => restriction.$cstNode?.text ?? restriction.$type));
+          changed = this.addType(instance, definition.entity, { kind: 'equivalence', axiom: definition.axiom, premises }) || changed;
+        }
+      }
+    }
+    return changed;
+  }
+
+  protected satisfies(instance: InstanceNode, restriction: PropertyRestrictionAxiom): boolean {
+    const property = restriction.property?.ref;
+    if (!property) {
+      return false;
+    }
+    const values = this.getValues(instance, property).map(entry => entry.value);
+    if (isPropertyRangeRestrictionAxiom(restriction)) {
+      const range = restriction.range?.ref;
+      return range !== undefined && values.some(value => this.hasType(value, range));
+    }
+    if (isPropertyCardinalityRestrictionAxiom(restriction)) {
+      const range = restriction.range?.ref;
+      return values.filter(value => !range || this.hasType(value, range)).length >= restriction.cardinality;
+    }
+    if (isPropertyValueRestrictionAxiom(restriction)) {
+      const expected = restriction.referencedValue?.ref ? resolveMember(restriction.referencedValue.ref) : restriction.literalValue;
+      return expected !== undefined && values.some(value => isSameValue(value, expected));
+    }
+    if (isPropertySelfRestrictionAxiom(restriction)) {
+      return values.includes(instance);
+    }
+    return false;
+  }
+
+  protected hasType(value: InstanceNode | Literal, type: AstNode): boolean {
+    if (isScalar(type)) {
+      return !isInstanceNode(value) && checkLiteral(value, type, this.closure) === undefined;
+    }
+    return isInstanceNode(value) && this.collectTypes(value).has(resolveMember(type));
+  }
+
+  protected applyRules(): boolean {
+    let changed = false;
+    for (const rule of this.rules) {
+      // Collect the matches first, so that the facts a rule adds do not change the facts it iterates
+      const matches = [...this.match(rule, rule.antecedent, new Map(), [])];
+      for (const { bindings, premises } of matches) {
+        for (const predicate of rule.consequent) {
+          changed = this.assertPredicate(predicate, bindings, { kind: 'rule', axiom: rule, premises }) || changed;
+        }
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Enumerates the bindings of the variables that satisfy all the predicates, with the
+   * instantiated predicates as premises.
+   */
+  protected *match(rule: Rule, predicates: Predicate[], bindings: Bindings, premises: string[]): Generator<{ bindings: Bindings, premises: string[] }> {
+    if (predicates.length === 0) {
+      yield { bindings, premises };
+      return;
+    }
+    // Tests wait until the variables they use are bound; unsafe rules never match
+    const index = predicates.findIndex(predicate => !isTest(predicate) || getArguments(predicate).every(argument => this.resolve(argument, bindings) !== undefined));
+    if (index < 0) {
+      const message = `Rule '${rule.name ?? ''}' cannot be evaluated: ${predicates.map(predicate => formatPredicate(predicate, new Map())).join(' & ')} use(s) unbound variables.`;
+      this.issues.set(message, { rule, message });
+      return;
+    }
+    const predicate = predicates[index];
+    const rest = predicates.filter((_, i) => i !== index);
+    for (const next of this.matchPredicate(rule, predicate, bindings)) {
+      yield* this.match(rule, rest, next, [...premises, formatPredicate(predicate, next)]);
+    }
+  }
+
+  protected *matchPredicate(rule: Rule, predicate: Predicate, bindings: Bindings): Generator<Bindings> {
+    if (isTypePredicate(predicate)) {
+      const type = predicate.type?.ref;
+      const value = this.resolve(predicate.argument, bindings);
+      if (!type) {
+        return;
+      }
+      if (value !== undefined) {
+        if (this.hasType(value, type)) yield bindings;
+      } else if (!isScalar(type)) {
+        for (const instance of this.instances) {
+          if (this.collectTypes(instance).has(resolveMember(type))) {
+            yield* optional(this.unify(bindings, predicate.argument, instance));
+          }
+        }
+      }
+    } else if (isRelationEntityPredicate(predicate)) {
+      const type = predicate.type?.ref;
+      for (const tuple of type ? this.tuples : []) {
+        if (this.isSubTermOf(tuple.entity, type!)) {
+          const withSource = this.unify(bindings, predicate.argument1, tuple.source);
+          const withInstance = withSource && this.unify(withSource, predicate.argument, tuple.instance);
+          yield* optional(withInstance && this.unify(withInstance, predicate.argument2, tuple.target));
+        }
+      }
+    } else if (isPropertyPredicate(predicate)) {
+      const property = predicate.property?.ref;
+      if (!property || isAnnotationProperty(property)) {
+        return;
+      }
+      const subject = this.resolve(predicate.argument1, bindings);
+      if (subject !== undefined) {
+        for (const entry of isInstanceNode(subject) ? this.getValues(subject, property as SemanticProperty) : []) {
+          yield* optional(this.unify(bindings, predicate.argument2, entry.value));
+        }
+      } else {
+        for (const triple of [...this.getTriples(property as SemanticProperty)]) {
+          const withSubject = this.unify(bindings, predicate.argument1, triple.subject);
+          yield* optional(withSubject && this.unify(withSubject, predicate.argument2, triple.value));
+        }
+      }
+    } else if (isSameAsPredicate(predicate)) {
+      const first = this.resolve(predicate.argument1, bindings);
+      const second = this.resolve(predicate.argument2, bindings);
+      if (first !== undefined && second !== undefined) {
+        if (isSameValue(first, second) || (isInstanceNode(first) && isInstanceNode(second) && this.isSame(first, second))) yield bindings;
+      } else if (first !== undefined || second !== undefined) {
+        const [bound, argument] = first !== undefined ? [first, predicate.argument2] : [second!, predicate.argument1];
+        const same: (InstanceNode | Literal)[] = isInstanceNode(bound) ? [bound, ...(this.sameAs.get(bound) ?? [])] : [bound];
+        for (const value of new Set(same)) {
+          yield* optional(this.unify(bindings, argument, value));
+        }
+      }
+    } else if (isDifferentFromPredicate(predicate)) {
+      const first = this.resolve(predicate.argument1, bindings);
+      const second = this.resolve(predicate.argument2, bindings);
+      if (first !== undefined && second !== undefined && isInstanceNode(first) && isInstanceNode(second)) {
+        // Distinct instances are taken to be different unless they are inferred to be the same
+        if (first !== second && !this.isSame(first, second)) yield bindings;
+      }
+    } else if (isBuiltInPredicate(predicate)) {
+      const result = this.evaluateBuiltIn(rule, predicate, bindings);
+      if (result) yield bindings;
+    }
+  }
+
+  protected evaluateBuiltIn(rule: Rule, predicate: BuiltInPredicate, bindings: Bindings): boolean {
+    const name = predicate.builtIn?.ref ? resolveMember(predicate.builtIn.ref).name : predicate.builtIn?.$refText;
+    const test = name ? BUILTIN_TESTS[name] : undefined;
+    if (!test) {
+      const message = `Built-in '${name}' is not supported by the reasoner, so rule '${rule.name ?? ''}' never applies.`;
+      this.issues.set(message, { rule, message });
+      return false;
+    }
+    const values = predicate.arguments.map(argument => this.resolve(argument, bindings));
+    if (values.some(isInstanceNode) && name !== 'equal' && name !== 'notEqual') {
+      return false;
+    }
+    try {
+      const [a, b, c] = values.map(value => isInstanceNode(value) ? value : getLiteralValue(value!));
+      return test(a, b, c);
+    } catch (error) {
+      const message = `Built-in '${name}' failed in rule '${rule.name ?? ''}': ${error instanceof Error ? error.message : String(error)}`;
+      this.issues.set(message, { rule, message });
+      return false;
+    }
+  }
+
+  protected assertPredicate(predicate: Predicate, bindings: Bindings, justification: InferenceJustification): boolean {
+    if (isTypePredicate(predicate)) {
+      const type = predicate.type?.ref;
+      const instance = this.resolve(predicate.argument, bindings);
+      return isEntity(type) && isInstanceNode(instance) && this.addType(instance, resolveMember(type), justification);
+    }
+    if (isPropertyPredicate(predicate)) {
+      const property = predicate.property?.ref;
+      const subject = this.resolve(predicate.argument1, bindings);
+      const value = this.resolve(predicate.argument2, bindings);
+      if (!property || isAnnotationProperty(property) || !isInstanceNode(subject) || value === undefined) {
+        return false;
+      }
+      return this.addValue(subject, property as SemanticProperty, value, justification.axiom as Rule, justification);
+    }
+    if (isRelationEntityPredicate(predicate)) {
+      const entity = predicate.type?.ref;
+      const [source, instance, target] = [predicate.argument1, predicate.argument, predicate.argument2].map(argument => this.resolve(argument, bindings));
+      if (!entity || !isInstanceNode(source) || !isInstanceNode(instance) || !isInstanceNode(target)) {
+        return false;
+      }
+      const declaration = resolveMember(entity);
+      const typed = this.addType(instance, declaration, justification);
+      return this.addTuple(instance, declaration, source, target, justification.axiom as Rule, justification) || typed;
+    }
+    if (isSameAsPredicate(predicate) || isDifferentFromPredicate(predicate)) {
+      const first = this.resolve(predicate.argument1, bindings);
+      const second = this.resolve(predicate.argument2, bindings);
+      if (!isInstanceNode(first) || !isInstanceNode(second)) {
+        return false;
+      }
+      return this.addIdentity(isSameAsPredicate(predicate) ? 'sameAs' : 'differentFrom', first, second, justification);
+    }
+    return false;
+  }
+
+  protected resolve(argument: Argument, bindings: Bindings): InstanceNode | Literal | undefined {
+    if (argument.variable) {
+      return bindings.get(argument.variable);
+    }
+    if (argument.literal) {
+      return argument.literal;
+    }
+    return argument.instance?.ref ? resolveMember(argument.instance.ref) : undefined;
+  }
+
+  protected unify(bindings: Bindings, argument: Argument, value: InstanceNode | Literal): Bindings | undefined {
+    const current = this.resolve(argument, bindings);
+    if (current !== undefined) {
+      return isSameValue(current, value) ? bindings : undefined;
+    }
+    if (!argument.variable) {
+      return undefined;
+    }
+    return new Map(bindings).set(argument.variable, value);
+  }
+
+  protected addInstance(instance: InstanceNode): void {
+    if (!this.types.has(instance)) {
+      this.types.set(instance, new Set(this.closure.getTypes(instance)));
+      this.instances.push(instance);
+    }
+  }
+
+  protected addType(instance: InstanceNode, type: Entity, justification: InferenceJustification): boolean {
+    if (this.collectTypes(instance).has(type)) {
+      return false;
+    }
+    this.addInstance(instance);
+    this.types.get(instance)!.add(type);
+    this.facts.push({ kind: 'type', instance, type, justification });
+    return true;
+  }
+
+  protected addValue(
+    subject: InstanceNode,
+    property: SemanticProperty,
+    value: InstanceNode | Literal,
+    source: PropertyValue['source'],
+    justification?: InferenceJustification
+  ): boolean {
+    const declaration = resolveMember(property);
+    if (justification && this.getValues(subject, declaration).some(entry => isSameValue(entry.value, value))) {
+      return false;
+    }
+    let subjects = this.values.get(declaration);
+    if (!subjects) {
+      this.values.set(declaration, subjects = new Map());
+    }
+    let entries = subjects.get(subject);
+    if (!entries) {
+      subjects.set(subject, entries = new Map());
+    }
+    entries.set(isInstanceNode(value) ? value : getLiteralKey(value), { value, source });
+    if (justification) {
+      this.facts.push({ kind: 'property', subject, property: declaration, value, justification });
+    }
+    return true;
+  }
+
+  protected addTuple(
+    instance: InstanceNode,
+    entity: RelationEntity,
+    source: InstanceNode,
+    target: InstanceNode,
+    origin: PropertyValue['source'],
+    justification?: InferenceJustification
+  ): boolean {
+    const existing = this.tuplesBySource.get(source) ?? [];
+    if (existing.some(tuple => tuple.instance === instance && tuple.target === target && this.isSubTermOf(tuple.entity, entity))) {
+      return false;
+    }
+    const tuple = { instance, entity, source, target, origin };
+    this.tuples.push(tuple);
+    this.tuplesBySource.set(source, [...existing, tuple]);
+    this.tuplesByTarget.set(target, [...(this.tuplesByTarget.get(target) ?? []), tuple]);
+    if (justification) {
+      this.facts.push({ kind: 'relation', instance, relationEntity: entity, source, target, justification });
+    }
+    return true;
+  }
+
+  protected addIdentity(kind: 'sameAs' | 'differentFrom', first: InstanceNode, second: InstanceNode, justification: InferenceJustification): boolean {
+    if (kind === 'sameAs') {
+      if (this.isSame(first, second)) {
+        return false;
+      }
+      const merged = new Set([first, second, ...(this.sameAs.get(first) ?? []), ...(this.sameAs.get(second) ?? [])]);
+      merged.forEach(instance => this.sameAs.set(instance, merged));
+    } else {
+      if (this.differentFrom.get(first)?.has(second)) {
+        return false;
+      }
+      this.differentFrom.set(first, new Set([...(this.differentFrom.get(first) ?? []), second]));
+      this.differentFrom.set(second, new Set([...(this.differentFrom.get(second) ?? []), first]));
+    }
+    this.facts.push({ kind, instances: [first, second], justification });
+    return true;
+  }
+
+  protected isSame(first: InstanceNode, second: InstanceNode): boolean {
+    return first === second || (this.sameAs.get(first)?.has(second) ?? false);
+  }
+
+  protected collectTypes(instance: InstanceNode): Set<AstNode> {
+    const result = new Set<AstNode>();
+    for (const type of this.types.get(instance) ?? this.closure.getTypes(instance)) {
+      this.getSuperTerms(type).forEach(superType => result.add(superType));
+    }
+    return result;
+  }
+
+  /**
+   * Returns the values of a property or of its sub-properties on an instance, including those
+   * implied by relation instances whose source (or target) is the instance.
+   */
+  protected getValues(subject: InstanceNode, property: AstNode): ValueEntry[] {
+    const target = resolveMember(property);
+    const result = new Map<unknown, ValueEntry>();
+    for (const [asserted, subjects] of this.values) {
+      if (this.isSubTermOf(asserted, target)) {
+        subjects.get(subject)?.forEach((entry, key) => result.set(key, entry));
+      }
+    }
+    for (const tuple of this.tuplesBySource.get(subject) ?? []) {
+      if (this.getTupleRelation(tuple, 'forward', target)) {
+        result.set(tuple.target, { value: tuple.target, source: tuple.origin });
+      }
+    }
+    for (const tuple of this.tuplesByTarget.get(subject) ?? []) {
+      if (this.getTupleRelation(tuple, 'reverse', target)) {
+        result.set(tuple.source, { value: tuple.source, source: tuple.origin });
+      }
+    }
+    return [...result.values()];
+  }
+
+  /**
+   * Enumerates the property values, optionally only those of a property or its sub-properties.
+   */
+  protected *getTriples(property?: SemanticProperty): Generator<PropertyTriple> {
+    const target = property && resolveMember(property);
+    for (const [asserted, subjects] of this.values) {
+      if (target && !this.isSubTermOf(asserted, target)) {
+        continue;
+      }
+      for (const [subject, entries] of subjects) {
+        for (const entry of entries.values()) {
+          yield { subject, property: asserted, ...entry };
+        }
+      }
+    }
+    for (const tuple of this.tuples) {
+      const forward = this.getTupleRelation(tuple, 'forward', target);
+      if (forward) {
+        yield { subject: tuple.source, property: forward, value: tuple.target, source: tuple.origin };
+      }
+      const reverse = this.getTupleRelation(tuple, 'reverse', target);
+      if (reverse) {
+        yield { subject: tuple.target, property: reverse, value: tuple.source, source: tuple.origin };
+      }
+    }
+  }
+
+  /**
+   * Returns the relation a relation instance implies in a direction, if it matches the
+   * target property: its own forward (or reverse) relation or that of a relation entity it specializes.
+   */
+  protected getTupleRelation(tuple: RelationTuple, direction: 'forward' | 'reverse', target?: AstNode): SemanticProperty | undefined {
+    const declared = direction === 'forward' ? tuple.entity.forwardRelation : tuple.entity.reverseRelation;
+    if (!target || (declared && this.isSubTermOf(declared, target))) {
+      return declared;
+    }
+    const matchesDirection = direction === 'forward' ? isForwardRelation(target) : isReverseRelation(target) && isRelationEntity(target.$container);
+    if (matchesDirection && this.isSubTermOf(tuple.entity, (target as SemanticProperty).$container as RelationEntity)) {
+      return target as SemanticProperty;
+    }
+    return undefined;
+  }
+
+  protected getKey(instance: InstanceNode): InstanceNode {
+    return isConceptInstance(instance) || isRelationInstance(instance) ? resolveMember(instance) : instance;
+  }
+}
+
+/**
+ * Formats a fact as a short statement, e.g. `wheel : Part` or `car hasPart wheel`.
+ */
+export function formatInferredFact(fact: InferredFact, name: (node: AstNode) => string = getName): string {
+  const value = (node: InstanceNode | Literal) => isInstanceNode(node) ? formatValue(node, name) : formatValue(node);
+  switch (fact.kind) {
+    case 'type':
+      return `${value(fact.instance)} : ${name(fact.type)}`;
+    case 'property':
+      return `${value(fact.subject)} ${name(fact.property)} ${value(fact.value)}`;
+    case 'relation':
+      return `${value(fact.instance)} : ${name(fact.relationEntity)} from ${value(fact.source)} to ${value(fact.target)}`;
+    default:
+      return `${value(fact.instances[0])} ${fact.kind} ${value(fact.instances[1])}`;
+  }
+}
+
+/**
+ * Formats the justification of a fact, e.g. `rule Anc: hasParent(a, b)` or `range of hasPart`.
+ */
+export function formatJustification(justification: InferenceJustification, name: (node: AstNode) => string = getName): string {
+  const { kind, axiom, premises } = justification;
+  const reason = kind === 'domain' || kind === 'range' ? `${kind} of ${name(axiom)}`
+    : kind === 'equivalence' ? name(axiom)
+    : `${kind} ${name(axiom)}`;
+  return premises.length > 0 ? `${reason}: ${premises.join(' & ')}` : reason;
+}
+
+function isInstanceNode(value: unknown): value is InstanceNode {
+  const type = (value as AstNode | undefined)?.$type;
+  return type === 'ConceptInstance' || type === 'RelationInstance' || type === 'AnonymousConceptInstance' || type === 'AnonymousRelationInstance';
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
+
+function* optional<T>(value: T | undefined): Generator<T> {
+  if (value !== undefined) yield value;
+}
+
+function isMonotonic(restriction: PropertyRestrictionAxiom): boolean {
+  if (isPropertyRangeRestrictionAxiom(restriction)) return restriction.kind === 'some';
+  if (isPropertyCardinalityRestrictionAxiom(restriction)) return restriction.kind === 'min';
+  if (isPropertyValueRestrictionAxiom(restriction)) return restriction.containedValue === undefined;
+  return isPropertySelfRestrictionAxiom(restriction);
+}
+
+function isTest(predicate: Predicate): boolean {
+  return isBuiltInPredicate(predicate) || isDifferentFromPredicate(predicate) || (isTypePredicate(predicate) && isScalar(predicate.type?.ref));
+}
+
+function getArguments(predicate: Predicate): Argument[] {
+  if (isBuiltInPredicate(predicate)) return predicate.arguments;
+  if (isTypePredicate(predicate)) return [predicate.argument];
+  if (isRelationEntityPredicate(predicate)) return [predicate.argument1, predicate.argument, predicate.argument2];
+  return [(predicate as { argument1: Argument }).argument1, (predicate as { argument2: Argument }).argument2];
+}
+
+/**
+ * Returns the relation that holds in the other direction: the reverse of a forward or
+ * unreified relation, or the forward relation of a reverse one.
+ */
+function getInverse(property: SemanticProperty): SemanticProperty | undefined {
+  if (isForwardRelation(property)) return property.$container.reverseRelation;
+  if (isUnreifiedRelation(property)) return property.reverseRelation;
+  if (isReverseRelation(property)) {
+    const relation = property.$container;
+    return isRelationEntity(relation) ? relation.forwardRelation : relation;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the relation entity or unreified relation that declares the characteristics of a relation.
+ */
+function getCharacteristics(property: SemanticProperty): { symmetric: boolean, transitive: boolean } | undefined {
+  if (isForwardRelation(property) || isReverseRelation(property)) return property.$container;
+  if (isUnreifiedRelation(property)) return property;
+  return undefined;
+}
+
+function isSameValue(value: InstanceNode | Literal, other: InstanceNode | Literal): boolean {
+  if (value === other) return true;
+  return !isInstanceNode(value) && !isInstanceNode(other) && getLiteralKey(value) === getLiteralKey(other);
+}
+
+function getLiteralKey(literal: Literal): string {
+  const qualifier = isQuotedLiteral(literal) ? literal.langTag ?? literal.type?.$refText ?? '' : literal.$type;
+  return `${getLexicalForm(literal)}|${qualifier}`;
+}
+
+/**
+ * Returns the value of a literal for the built-ins: numbers for numeric literals (and quoted
+ * literals typed with a numeric lexical form), booleans, or the lexical form.
+ */
+function getLiteralValue(literal: Literal): string | number | boolean {
+  const text = getLexicalForm(literal);
+  switch (literal.$type) {
+    case 'BooleanLiteral':
+      return text === 'true';
+    case 'IntegerLiteral':
+    case 'DecimalLiteral':
+    case 'DoubleLiteral':
+      return Number(text);
+    default:
+      return isQuotedLiteral(literal) && literal.type && text.trim() !== '' && !isNaN(Number(text)) ? Number(text) : text;
+  }
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (isInstanceNode(a) || isInstanceNode(b)) return a === b ? 0 : 1;
+  const [x, y] = [String(a), String(b)];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function formatPredicate(predicate: Predicate, bindings: Bindings): string {
+  const format = (argument: Argument) => {
+    const value = argument.variable ? bindings.get(argument.variable) : argument.literal ?? argument.instance?.ref;
+    return value ? formatValue(value) : argument.variable ?? '?';
+  };
+  if (isBuiltInPredicate(predicate)) {
+    return `builtIn(${[predicate.builtIn?.$refText ?? '', ...predicate.arguments.map(format)].join(', ')})`;
+  }
+  const name = isTypePredicate(predicate) || isRelationEntityPredicate(predicate) ? predicate.type?.$refText
+    : isPropertyPredicate(predicate) ? predicate.property?.$refText
+    : isSameAsPredicate(predicate) ? 'sameAs' : 'differentFrom';
+  return `${name}(${getArguments(predicate).map(format).join(', ')})`;
+}
+
+function formatValue(value: AstNode, name: (node: AstNode) => string = getName): string {
+  if (isInstanceNode(value) && !isConceptInstance(value) && !isRelationInstance(value)) {
+    const type = (value as { type?: { ref?: AstNode } }).type?.ref;
+    return type ? `anonymous ${name(type)}` : 'anonymous instance';
+  }
+  if (isInstanceNode(value)) {
+    return name(value);
+  }
+  const literal = value as Literal;
+  return isQuotedLiteral(literal) ? JSON.stringify(getLexicalForm(literal)) : getLexicalForm(literal);
+}
+
+function getName(node: AstNode): string {
+  return (resolveMember(node) as { name?: string }).name ?? node.$type;
+}
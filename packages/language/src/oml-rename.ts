@@ -0,0 +1,137 @@
+/**
+ * OML Rename Provider
+ * Renames named elements (terms, relations, rules, instances) across the workspace
+ *
+ * References in OML are written as local names, qualified names (prefix:Name) or full IRIs
+ * (<namespace#Name>), so only the local-name part of each reference token is replaced.
+ */
+
+import type { LangiumDocument, LangiumDocuments } from 'langium';
+import { AstUtils, CstUtils, GrammarAST, URI } from 'langium';
+import { DefaultRenameProvider } from 'langium/lsp';
+import type { LangiumServices } from 'langium/lsp';
+import type { Range, RenameParams, TextDocumentPositionParams, WorkspaceEdit } from 'vscode-languageserver-protocol';
+import { TextEdit } from 'vscode-languageserver-protocol';
+
+const ID_PATTERN = /^[a-zA-Z0-9\-_.~%][a-zA-Z0-9\-_.~%$]*$/;
+
+export class OmlRenameProvider extends DefaultRenameProvider {
+
+  protected readonly keywords: Set<string>;
+  protected readonly documents: LangiumDocuments;
+
+  constructor(services: LangiumServices) {
+    super(services);
+    this.documents = services.shared.workspace.LangiumDocuments;
+    this.keywords = new Set(
+      AstUtils.streamAllContents(services.Grammar)
+        .filter(GrammarAST.isKeyword)
+        .map(keyword => keyword.value)
+        .filter(value => /^[a-zA-Z]/.test(value))
+    );
+  }
+
+  override async rename(document: LangiumDocument, params: RenameParams): Promise<WorkspaceEdit | undefined> {
+    const newName = this.normalizeNewName(params.newName);
+    if (!newName) {
+      return undefined;
+    }
+
+    const rootNode = document.parseResult.value.$cstNode;
+    if (!rootNode) {
+      return undefined;
+    }
+    const offset = document.textDocument.offsetAt(params.position);
+    const leafNode = CstUtils.findDeclarationNodeAtOffset(rootNode, offset, this.grammarConfig.nameRegexp);
+    if (!leafNode) {
+      return undefined;
+    }
+    const targetNodes = this.references.findDeclarations(leafNode);
+    if (targetNodes.length === 0) {
+      return undefined;
+    }
+
+    const changes: Record<string, TextEdit[]> = {};
+    const references = this.references.findReferences(targetNodes[0], { includeDeclaration: true });
+    for (const ref of references) {
+      const uri = ref.sourceUri.toString();
+      const edit = this.createReferenceEdit(ref.segment.range, this.getSegmentText(document, uri, ref.segment.offset, ref.segment.length), newName);
+      (changes[uri] ??= []).push(edit);
+    }
+    return { changes };
+  }
+
+  override prepareRename(document: LangiumDocument, params: TextDocumentPositionParams): Range | undefined {
+    const range = this.renameNodeRange(document, params.position);
+    if (!range) {
+      return undefined;
+    }
+    // Only offer the local name of a qualified name or IRI for editing
+    const text = document.textDocument.getText(range);
+    const local = this.getLocalNameSpan(text);
+    const start = document.textDocument.offsetAt(range.start) + local.start;
+    return {
+      start: document.textDocument.positionAt(start),
+      end: document.textDocument.positionAt(start + local.length)
+    };
+  }
+
+  /**
+   * Accepts a plain name, an escaped name (^name) or a qualified name whose
+   * prefix is ignored. Returns the text to insert for unqualified references.
+   */
+  protected normalizeNewName(newName: string): string | undefined {
+    let name = newName.trim();
+    const colon = name.lastIndexOf(':');
+    if (colon >= 0) {
+      name = name.substring(colon + 1);
+    }
+    name = name.replace(/^\^/, '');
+    if (!ID_PATTERN.test(name)) {
+      return undefined;
+    }
+    return name;
+  }
+
+  /**
+   * Replaces the local-name part of a reference token, keeping its prefix,
+   * namespace or escape character.
+   */
+  protected createReferenceEdit(range: Range, text: string, newName: string): TextEdit {
+    if (text.startsWith('<') || text.includes(':')) {
+      const local = this.getLocalNameSpan(text);
+      return TextEdit.replace(
+        {
+          start: { line: range.start.line, character: range.start.character + local.start },
+          end: { line: range.start.line, character: range.start.character + local.start + local.length }
+        },
+        newName
+      );
+    }
+    const escaped = text.startsWith('^') || this.keywords.has(newName) ? `^${newName}` : newName;
+    return TextEdit.replace(range, escaped);
+  }
+
+  /**
+   * Locates the local name inside a reference token:
+   * `Name`, `^Name`, `prefix:Name` or `<namespace#Name>`.
+   */
+  protected getLocalNameSpan(text: string): { start: number, length: number } {
+    if (text.startsWith('<')) {
+      const end = text.endsWith('>') ? text.length - 1 : text.length;
+      const start = Math.max(text.lastIndexOf('#', end), text.lastIndexOf('/', end)) + 1;
+      return { start, length: end - start };
+    }
+    const colon = text.indexOf(':');
+    if (colon >= 0) {
+      return { start: colon + 1, length: text.length - colon - 1 };
+    }
+    const start = text.startsWith('^') ? 1 : 0;
+    return { start, length: text.length - start };
+  }
+
+  private getSegmentText(document: LangiumDocument, uri: string, offset: number, length: number): string {
+    const source = uri === document.uri.toString() ? document : this.documents.getDocument(URI.parse(uri));
+    return source?.textDocument.getText().substring(offset, offset + length) ?? '';
+  }
+}
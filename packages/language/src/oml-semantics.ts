@@ -0,0 +1,315 @@
+/**
+ * OML Semantics
+ * Answers questions about the vocabulary semantics visible from an ontology:
+ * supertypes, property domains and ranges, restrictions, instance types and property values
+ *
+ * Only the import closure of the ontology is considered, and the axioms added to a member
+ * through `ref` statements anywhere in that closure count as axioms of the member itself.
+ */
+
+import type { AstNode, Reference } from 'langium';
+import {
+  isAnonymousConceptInstance,
+  isConceptInstance,
+  isForwardRelation,
+  isRelationInstance,
+  isReverseRelation,
+  isScalarProperty,
+  isUnreifiedRelation
+} from './generated/ast.js';
+import type {
+  AnonymousInstance,
+  Entity,
+  Literal,
+  NamedInstance,
+  Ontology,
+  PropertyRestrictionAxiom,
+  PropertyValueAssertion,
+  RelationInstance,
+  Rule,
+  SemanticProperty,
+  Type
+} from './generated/ast.js';
+
+/**
+ * A value of a property on an instance, either asserted on the instance or
+ * implied by a relation instance whose source (or target) is the instance.
+ * Values inferred by OmlReasoner come from a rule or from the characteristics of a relation.
+ */
+export interface PropertyValue {
+  /** The assertion, relation instance, rule or relation providing the value */
+  source: PropertyValueAssertion | RelationInstance | Rule | SemanticProperty
+  literal?: Literal
+  instance?: NamedInstance | AnonymousInstance
+}
+
+/**
+ * Returns the member a `ref` statement points to, or the member itself.
+ */
+export function resolveMember<T extends AstNode>(member: T): T {
+  const ref = (member as { ref?: Reference<T> }).ref;
+  return ref?.ref ?? member;
+}
+
+/**
+ * Returns the ontology and all ontologies it imports, transitively.
+ */
+export function getImportClosure(ontology: Ontology): Ontology[] {
+  const closure = new Set<Ontology>();
+  const visit = (current: Ontology) => {
+    if (closure.has(current)) {
+      return;
+    }
+    closure.add(current);
+    for (const ownedImport of current.ownedImports) {
+      const imported = ownedImport.imported?.ref;
+      if (imported) {
+        visit(imported);
+      }
+    }
+  };
+  visit(ontology);
+  return [...closure];
+}
+
+export class OntologyClosure {
+
+  readonly ontologies: Ontology[];
+  /** Declarations mapped to the declaration and its `ref` statements */
+  protected readonly contributions = new Map<AstNode, AstNode[]>();
+  protected readonly relationInstances: RelationInstance[] = [];
+  protected readonly superTerms = new Map<AstNode, Set<AstNode>>();
+
+  constructor(readonly root: Ontology) {
+    this.ontologies = getImportClosure(root);
+    for (const ontology of this.ontologies) {
+      for (const statement of (ontology as { ownedStatements?: AstNode[] }).ownedStatements ?? []) {
+        const declaration = resolveMember(statement);
+        const members = this.contributions.get(declaration) ?? [];
+        members.push(statement);
+        this.contributions.set(declaration, members);
+        if (isRelationInstance(statement)) {
+          this.relationInstances.push(statement);
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the declaration of a member and all `ref` statements of it in the closure.
+   */
+  getContributions<T extends AstNode>(member: T): T[] {
+    const declaration = resolveMember(member);
+    const members = this.contributions.get(declaration) as T[] | undefined;
+    if (!members) {
+      return member === declaration ? [declaration] : [declaration, member];
+    }
+    return members.includes(member) ? members : [...members, member];
+  }
+
+  /**
+   * Returns the term and all its supertypes, following specializations and equivalences.
+   */
+  getSuperTerms(term: AstNode): Set<AstNode> {
+    const declaration = resolveMember(term);
+    let result = this.superTerms.get(declaration);
+    if (result) {
+      return result;
+    }
+    result = new Set<AstNode>();
+    const pending: AstNode[] = [declaration];
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      if (result.has(current)) {
+        continue;
+      }
+      result.add(current);
+      pending.push(...this.getDirectSuperTerms(current));
+    }
+    this.superTerms.set(declaration, result);
+    return result;
+  }
+
+  /**
+   * Returns the direct supertypes of a term, declared by its specializations and,
+   * unless excluded, its equivalences.
+   */
+  getDirectSuperTerms(term: AstNode, includeEquivalences = true): AstNode[] {
+    const result: AstNode[] = [];
+    for (const member of this.getContributions(term)) {
+      const { ownedSpecializations = [], ownedEquivalences = [] } = member as {
+        ownedSpecializations?: { superTerm?: Reference<AstNode> }[],
+        ownedEquivalences?: { superTerms?: Reference<AstNode>[] }[]
+      };
+      const references = [
+        ...ownedSpecializations.map(s => s.superTerm),
+        ...(includeEquivalences ? ownedEquivalences.flatMap(e => e.superTerms ?? []) : [])
+      ];
+      for (const superTerm of references.map(r => r?.ref)) {
+        if (superTerm) result.push(resolveMember(superTerm));
+      }
+    }
+    return result;
+  }
+
+  isSubTermOf(term: AstNode, superTerm: AstNode): boolean {
+    return this.getSuperTerms(term).has(resolveMember(superTerm));
+  }
+
+  /**
+   * Returns the asserted types of an instance.
+   */
+  getTypes(instance: NamedInstance | AnonymousInstance): Entity[] {
+    if (isAnonymousConceptInstance(instance)) {
+      const type = instance.type?.ref;
+      return type ? [resolveMember(type)] : [];
+    }
+    if (!isConceptInstance(instance) && !isRelationInstance(instance)) {
+      return [];
+    }
+    return this.getContributions<NamedInstance>(instance)
+      .flatMap(member => member.ownedTypes)
+      .map(assertion => assertion.type?.ref)
+      .filter((type): type is Entity => type !== undefined)
+      .map(type => resolveMember(type));
+  }
+
+  /**
+   * Returns the asserted types of an instance and all their supertypes.
+   */
+  getAllTypes(instance: NamedInstance | AnonymousInstance): Set<AstNode> {
+    const result = new Set<AstNode>();
+    for (const type of this.getTypes(instance)) {
+      this.getSuperTerms(type).forEach(superType => result.add(superType));
+    }
+    return result;
+  }
+
+  /**
+   * Returns the domain of a property: the domains of a scalar property or the sources of a relation.
+   */
+  getDomains(property: SemanticProperty): Entity[] {
+    return this.getDomainsOrRanges(property, true) as Entity[];
+  }
+
+  /**
+   * Returns the range of a property: the ranges of a scalar property or the targets of a relation.
+   */
+  getRanges(property: SemanticProperty): Type[] {
+    return this.getDomainsOrRanges(property, false);
+  }
+
+  protected getDomainsOrRanges(property: SemanticProperty, domain: boolean): Type[] {
+    let references: Reference<Type>[];
+    if (isScalarProperty(property)) {
+      references = this.getContributions(property).flatMap<Reference<Type>>(p => domain ? p.domains : p.ranges);
+    } else if (isForwardRelation(property)) {
+      references = this.getContributions(property.$container).flatMap(r => domain ? r.sources : r.targets);
+    } else if (isReverseRelation(property)) {
+      // A reverse relation swaps the sources and targets of its relation
+      references = this.getContributions<{ sources: Reference<Entity>[], targets: Reference<Entity>[] } & AstNode>(property.$container)
+        .flatMap(r => domain ? r.targets : r.sources);
+    } else if (isUnreifiedRelation(property)) {
+      references = this.getContributions(property).flatMap(r => domain ? r.sources : r.targets);
+    } else {
+      references = [];
+    }
+    return [...new Set(references.map(r => r.ref).filter((type): type is Type => type !== undefined).map(type => resolveMember(type)))];
+  }
+
+  /**
+   * Returns the property restrictions of an entity and of all its supertypes.
+   */
+  getRestrictions(entity: AstNode): PropertyRestrictionAxiom[] {
+    return [...this.getSuperTerms(entity)]
+      .flatMap(type => this.getContributions(type))
+      .flatMap(member => (member as { ownedPropertyRestrictions?: PropertyRestrictionAxiom[] }).ownedPropertyRestrictions ?? []);
+  }
+
+  /**
+   * Returns the values of a property (or of its sub-properties) on an instance.
+   */
+  getPropertyValues(instance: NamedInstance | AnonymousInstance, property: SemanticProperty): PropertyValue[] {
+    const target = resolveMember(property);
+    const members: (NamedInstance | AnonymousInstance)[] =
+      isConceptInstance(instance) || isRelationInstance(instance) ? this.getContributions<NamedInstance>(instance) : [instance];
+    const values: PropertyValue[] = [];
+    for (const assertion of members.flatMap(member => member.ownedPropertyValues)) {
+      const asserted = assertion.property?.ref;
+      if (!asserted || !this.isSubTermOf(asserted, target)) {
+        continue;
+      }
+      values.push(...assertion.literalValues.map(literal => ({ source: assertion, literal })));
+      values.push(...assertion.containedValues.map(value => ({ source: assertion, instance: value })));
+      values.push(...assertion.referencedValues
+        .map(reference => reference.ref)
+        .filter((value): value is NamedInstance => value !== undefined)
+        .map(value => ({ source: assertion, instance: resolveMember(value) })));
+    }
+
+    // Relation instances typed by the relation entity of a forward (or reverse) relation
+    const forward = isForwardRelation(target);
+    if (forward || (isReverseRelation(target) && !isUnreifiedRelation(target.$container))) {
+      const relationEntity = target.$container;
+      const subject = resolveMember(instance);
+      for (const relationInstance of this.relationInstances) {
+        if (!this.getTypes(relationInstance).some(type => this.isSubTermOf(type, relationEntity))) {
+          continue;
+        }
+        const [from, to] = forward
+          ? [relationInstance.sources, relationInstance.targets]
+          : [relationInstance.targets, relationInstance.sources];
+        if (from.some(reference => reference.ref && resolveMember(reference.ref) === subject)) {
+          values.push(...to
+            .map(reference => reference.ref)
+            .filter((value): value is NamedInstance => value !== undefined)
+            .map(value => ({ source: relationInstance, instance: resolveMember(value) })));
+        }
+      }
+    }
+    return values;
+  }
+}
+
+/**
+ * What a reference is used for, as reported by impact analysis and semantic diffs.
+ */
+export type ReferenceImpactType = 'specialization' | 'instance' | 'restriction' | 'relation' | 'property' | 'import' | 'reference';
+
+/**
+ * Classify a cross-reference by the AST node that holds it.
+ */
+export function getReferenceImpactType(container: AstNode, property: string): ReferenceImpactType {
+  switch (container.$type) {
+    case 'Import':
+      return 'import';
+    case 'SpecializationAxiom':
+    case 'EntityEquivalenceAxiom':
+    case 'ScalarEquivalenceAxiom':
+    case 'PropertyEquivalenceAxiom':
+      return 'specialization';
+    case 'TypeAssertion':
+    case 'AnonymousConceptInstance':
+    case 'AnonymousRelationInstance':
+    case 'InstanceEnumerationAxiom':
+      return 'instance';
+    case 'PropertyRangeRestrictionAxiom':
+    case 'PropertyCardinalityRestrictionAxiom':
+    case 'PropertyValueRestrictionAxiom':
+    case 'PropertySelfRestrictionAxiom':
+      return 'restriction';
+    case 'PropertyValueAssertion':
+    case 'Annotation':
+    case 'KeyAxiom':
+      return 'property';
+    case 'RelationEntity':
+    case 'UnreifiedRelation':
+    case 'ScalarProperty':
+      return property === 'ref' ? 'reference' : 'relation';
+    case 'ConceptInstance':
+    case 'RelationInstance':
+      return property === 'ref' ? 'reference' : 'instance';
+    default:
+      return 'reference';
+  }
+}
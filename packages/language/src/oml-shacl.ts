@@ -0,0 +1,389 @@
+/**
+ * OML SHACL
+ * Generates SHACL shapes from vocabularies and, optionally, from the description constraints of a
+ * methodology playbook
+ *
+ * Each concept, aspect and relation entity gets a node shape targeting its class. Since exported
+ * descriptions only state the direct types of instances, the shape repeats what the entity inherits:
+ * - the range, cardinality and value restrictions of the entity and its supertypes
+ * - the keys, whose properties must have exactly one value
+ * - the scalar properties and relations whose domain is the entity or a supertype, with their range
+ *   and functionality
+ * Ranges that are standard datatypes become `sh:datatype`; other scalars contribute their facets and
+ * enumerations, since literals in descriptions are rarely typed by them. Self restrictions have no
+ * SHACL Core counterpart and are left out.
+ */
+
+import type { AstNode } from 'langium';
+import {
+  isAspect,
+  isConcept,
+  isForwardRelation,
+  isPropertyCardinalityRestrictionAxiom,
+  isPropertyRangeRestrictionAxiom,
+  isPropertyValueRestrictionAxiom,
+  isRelationEntity,
+  isReverseRelation,
+  isScalar,
+  isScalarProperty,
+  isUnreifiedRelation,
+  isVocabulary
+} from './generated/ast.js';
+import type {
+  Entity,
+  KeyAxiom,
+  Ontology,
+  PropertyRestrictionAxiom,
+  Scalar,
+  ScalarEquivalenceAxiom,
+  SemanticProperty
+} from './generated/ast.js';
+import type { AppliesTo, MethodologyPlaybook, PropertyConstraint } from './oml-playbook.js';
+import { matchesAppliesTo } from './oml-methodology.js';
+import { getStandardName } from './oml-literals.js';
+import { getMemberIri, getOntologyIri, getOntologyPrefixes, getRdfLiteral } from './oml-owl.js';
+import { literal, namedNode, RDF, RdfGraph, XSD } from './oml-rdf.js';
+import type { NamedNode, RdfSubject, RdfTerm } from './oml-rdf.js';
+import { getImportClosure, OntologyClosure, resolveMember } from './oml-semantics.js';
+
+export const SH = 'http://www.w3.org/ns/shacl#';
+
+export interface ShaclOptions {
+  /** Also generate shapes for the vocabularies imported by the ontology, transitively. Bundles always use their closure. */
+  closure?: boolean
+  /** A playbook whose description constraints are added as shapes */
+  playbook?: MethodologyPlaybook
+}
+
+export interface ShaclExport {
+  graph: RdfGraph
+  prefixes: Record<string, string>
+  /** Number of node shapes generated from vocabularies and from the playbook */
+  shapeCount: { vocabulary: number, playbook: number }
+  /** Playbook entries that could not be mapped, e.g. names that resolve to nothing */
+  warnings: string[]
+}
+
+/**
+ * Generates the SHACL shapes of an ontology (or its closure) and of a playbook.
+ */
+export function generateShapes(ontology: Ontology, options: ShaclOptions = {}): ShaclExport {
+  return new ShaclGenerator(ontology).generate(options);
+}
+
+const SEVERITIES = {
+  error: 'Violation',
+  warning: 'Warning',
+  info: 'Info'
+} as const;
+
+type Facet = 'length' | 'minLength' | 'maxLength' | 'pattern' | 'language' | 'minInclusive' | 'minExclusive' | 'maxInclusive' | 'maxExclusive';
+
+export class ShaclGenerator {
+
+  protected readonly graph = new RdfGraph();
+  protected readonly closure: OntologyClosure;
+  protected readonly warnings: string[] = [];
+  /** Entities, properties and their qualified names (`prefix:Name`) in the closure */
+  protected readonly entities = new Map<Entity, string>();
+  protected readonly properties = new Map<SemanticProperty, string>();
+
+  constructor(readonly root: Ontology) {
+    this.closure = new OntologyClosure(root);
+    for (const ontology of this.closure.ontologies) {
+      if (!isVocabulary(ontology)) {
+        continue;
+      }
+      for (const statement of ontology.ownedStatements) {
+        const name = (statement as { name?: string }).name;
+        if (!name) {
+          continue;
+        }
+        if (isConcept(statement) || isAspect(statement) || isRelationEntity(statement)) {
+          this.entities.set(statement, `${ontology.prefix}:${name}`);
+        }
+        if (isScalarProperty(statement) || isUnreifiedRelation(statement)) {
+          this.properties.set(statement, `${ontology.prefix}:${name}`);
+        }
+        const { forwardRelation, reverseRelation } = statement as { forwardRelation?: SemanticProperty & { name: string }, reverseRelation?: SemanticProperty & { name: string } };
+        for (const relation of [forwardRelation, reverseRelation]) {
+          if (relation?.name) {
+            this.properties.set(relation, `${ontology.prefix}:${relation.name}`);
+          }
+        }
+      }
+    }
+  }
+
+  generate(options: ShaclOptions = {}): ShaclExport {
+    const bundle = this.root.$type === 'VocabularyBundle';
+    const ontologies = options.closure || bundle ? getImportClosure(this.root) : [this.root];
+    let vocabularyShapes = 0;
+    for (const [entity] of this.entities) {
+      const ontology = resolveMember(entity).$container as Ontology;
+      if (ontologies.includes(ontology)) {
+        this.generateEntityShape(entity);
+        vocabularyShapes++;
+      }
+    }
+    const playbookShapes = options.playbook ? this.generatePlaybookShapes(options.playbook) : 0;
+    const prefixes = { ...getOntologyPrefixes(this.closure.ontologies), sh: SH };
+    return { graph: this.graph, prefixes, shapeCount: { vocabulary: vocabularyShapes, playbook: playbookShapes }, warnings: this.warnings };
+  }
+
+  protected generateEntityShape(entity: Entity): void {
+    const iri = getMemberIri(entity)!;
+    const shape = namedNode(`${iri}Shape`);
+    this.graph.add(shape, `${RDF}type`, `${SH}NodeShape`);
+    this.graph.add(shape, `${SH}targetClass`, iri);
+
+    for (const restriction of this.closure.getRestrictions(entity)) {
+      this.generateRestriction(shape, restriction);
+    }
+    const keys = [...this.closure.getSuperTerms(entity)]
+      .flatMap(type => this.closure.getContributions(type))
+      .flatMap(member => (member as { ownedKeys?: KeyAxiom[] }).ownedKeys ?? []);
+    for (const property of keys.flatMap(key => key.properties).map(r => r.ref).filter(p => p !== undefined)) {
+      const propertyShape = this.addPropertyShape(shape, property);
+      this.graph.add(propertyShape, `${SH}minCount`, literal('1', `${XSD}integer`));
+      this.graph.add(propertyShape, `${SH}maxCount`, literal('1', `${XSD}integer`));
+    }
+
+    const superTerms = this.closure.getSuperTerms(entity);
+    for (const [property] of this.properties) {
+      if (this.closure.getDomains(property).some(domain => superTerms.has(domain))) {
+        this.generatePropertyDeclaration(shape, property);
+      }
+    }
+  }
+
+  /**
+   * The range and functionality of a property whose domain the shape targets.
+   */
+  protected generatePropertyDeclaration(shape: RdfSubject, property: SemanticProperty): void {
+    const propertyShape = this.addPropertyShape(shape, property);
+    for (const range of this.closure.getRanges(property)) {
+      this.addRange(propertyShape, range);
+    }
+    if (this.isFunctional(property)) {
+      this.graph.add(propertyShape, `${SH}maxCount`, literal('1', `${XSD}integer`));
+    }
+  }
+
+  protected isFunctional(property: SemanticProperty): boolean {
+    if (isScalarProperty(property) || isUnreifiedRelation(property)) {
+      return this.closure.getContributions(property).some(member => member.functional);
+    }
+    if (isForwardRelation(property)) {
+      return this.closure.getContributions(property.$container).some(member => member.functional);
+    }
+    if (isReverseRelation(property)) {
+      return this.closure.getContributions(property.$container as AstNode & { inverseFunctional: boolean }).some(member => member.inverseFunctional);
+    }
+    return false;
+  }
+
+  protected generateRestriction(shape: RdfSubject, restriction: PropertyRestrictionAxiom): void {
+    const property = restriction.property?.ref;
+    if (!property) {
+      return;
+    }
+    if (isPropertyRangeRestrictionAxiom(restriction)) {
+      const range = restriction.range?.ref;
+      if (!range) {
+        return;
+      }
+      const propertyShape = this.addPropertyShape(shape, property);
+      if (restriction.kind === 'all') {
+        this.addRange(propertyShape, range);
+      } else {
+        this.addQualifiedRange(propertyShape, range, 'qualifiedMinCount', 1);
+      }
+    } else if (isPropertyCardinalityRestrictionAxiom(restriction)) {
+      const propertyShape = this.addPropertyShape(shape, property);
+      const range = restriction.range?.ref;
+      const bounds: ('min' | 'max')[] = restriction.kind === 'exactly' ? ['min', 'max'] : [restriction.kind];
+      for (const bound of bounds) {
+        if (range) {
+          this.addQualifiedRange(propertyShape, range, `qualified${bound === 'min' ? 'Min' : 'Max'}Count`, restriction.cardinality);
+        } else {
+          this.graph.add(propertyShape, `${SH}${bound}Count`, literal(String(restriction.cardinality), `${XSD}integer`));
+        }
+      }
+    } else if (isPropertyValueRestrictionAxiom(restriction)) {
+      const value = restriction.literalValue
+        ? getRdfLiteral(restriction.literalValue)
+        : restriction.referencedValue?.ref && getMemberIri(restriction.referencedValue.ref);
+      if (value) {
+        this.graph.add(this.addPropertyShape(shape, property), `${SH}hasValue`, value);
+      }
+    }
+  }
+
+  protected addPropertyShape(shape: RdfSubject, property: AstNode): RdfSubject {
+    const propertyShape = this.graph.createBlankNode();
+    this.graph.add(shape, `${SH}property`, propertyShape);
+    this.graph.add(propertyShape, `${SH}path`, getMemberIri(property) ?? `urn:oml:unresolved:${(property as { name?: string }).name ?? ''}`);
+    return propertyShape;
+  }
+
+  /**
+   * Constrains the values of a property shape to a class or to a scalar.
+   */
+  protected addRange(shape: RdfSubject, range: AstNode): void {
+    if (!isScalar(range)) {
+      const iri = getMemberIri(range);
+      if (iri) {
+        this.graph.add(shape, `${SH}class`, iri);
+      }
+      return;
+    }
+    if (getStandardName(range)) {
+      this.graph.add(shape, `${SH}datatype`, getMemberIri(range)!);
+      return;
+    }
+    this.addScalarConstraints(shape, range);
+  }
+
+  protected addQualifiedRange(shape: RdfSubject, range: AstNode, count: string, value: number): void {
+    const qualified = this.graph.createBlankNode();
+    this.addRange(qualified, range);
+    this.graph.add(shape, `${SH}qualifiedValueShape`, qualified);
+    this.graph.add(shape, `${SH}${count}`, literal(String(value), `${XSD}integer`));
+  }
+
+  /**
+   * Facets and enumerations of a scalar and its supertypes, and the standard datatype it restricts
+   * when the scalar declares no other constraint.
+   */
+  protected addScalarConstraints(shape: RdfSubject, scalar: Scalar): void {
+    const scalars = [...this.closure.getSuperTerms(scalar)].filter(isScalar);
+    const members = scalars.flatMap(type => this.closure.getContributions(type));
+    const equivalences: ScalarEquivalenceAxiom[] = members.flatMap(member => member.ownedEquivalences);
+    const facets: [Facet, string][] = [
+      ['length', 'minLength'], ['length', 'maxLength'], ['minLength', 'minLength'], ['maxLength', 'maxLength'],
+      ['pattern', 'pattern'], ['minInclusive', 'minInclusive'], ['minExclusive', 'minExclusive'],
+      ['maxInclusive', 'maxInclusive'], ['maxExclusive', 'maxExclusive']
+    ];
+    let constrained = false;
+    for (const equivalence of equivalences) {
+      for (const [facet, constraint] of facets) {
+        for (const value of equivalence[facet]) {
+          const object = typeof value === 'number'
+            ? literal(String(value), `${XSD}integer`)
+            : typeof value === 'string' ? literal(value) : getRdfLiteral(value);
+          this.graph.add(shape, `${SH}${constraint}`, object);
+          constrained = true;
+        }
+      }
+      if (equivalence.language.length > 0) {
+        this.graph.add(shape, `${SH}languageIn`, this.graph.createList(equivalence.language.map(language => literal(language))));
+        constrained = true;
+      }
+    }
+    const enumeration = members.find(member => member.ownedEnumeration)?.ownedEnumeration;
+    if (enumeration) {
+      this.graph.add(shape, `${SH}in`, this.graph.createList(enumeration.literals.map(value => getRdfLiteral(value))));
+      constrained = true;
+    }
+    if (!constrained) {
+      const standard = scalars.find(type => getStandardName(type));
+      if (standard) {
+        this.graph.add(shape, `${SH}datatype`, getMemberIri(standard)!);
+      }
+    }
+  }
+
+  /**
+   * Adds a node shape per description constraint of the playbook, targeting the entities its
+   * `appliesTo` selects.
+   */
+  protected generatePlaybookShapes(playbook: MethodologyPlaybook): number {
+    let count = 0;
+    const base = `${getOntologyIri(this.root)}/playbook#`;
+    for (const [file, schema] of Object.entries(playbook.descriptions ?? {})) {
+      for (const rule of schema.constraints ?? []) {
+        const targets = this.resolveAppliesTo(rule.appliesTo ?? {});
+        if (targets.length === 0) {
+          this.warnings.push(`Constraint '${rule.id}' (${file}) applies to no entity of the vocabularies`);
+          continue;
+        }
+        const shape = namedNode(`${base}${encodeURIComponent(rule.id)}`);
+        this.graph.add(shape, `${RDF}type`, `${SH}NodeShape`);
+        targets.forEach(target => this.graph.add(shape, `${SH}targetClass`, target));
+        this.graph.add(shape, `${SH}message`, literal(rule.message));
+        this.graph.add(shape, `${SH}severity`, `${SH}${SEVERITIES[rule.severity ?? 'error']}`);
+        for (const constraint of rule.constraints ?? []) {
+          this.generatePropertyConstraint(shape, rule.id, constraint);
+        }
+        count++;
+      }
+    }
+    return count;
+  }
+
+  protected generatePropertyConstraint(shape: RdfSubject, ruleId: string, constraint: PropertyConstraint): void {
+    const property = this.resolveName(constraint.property, this.properties);
+    if (!property) {
+      this.warnings.push(`Constraint '${ruleId}': property '${constraint.property}' not found`);
+      return;
+    }
+    const propertyShape = this.addPropertyShape(shape, property);
+    const minCount = Math.max(constraint.required ? 1 : 0, constraint.minOccurrences ?? 0);
+    if (minCount > 0) {
+      this.graph.add(propertyShape, `${SH}minCount`, literal(String(minCount), `${XSD}integer`));
+    }
+    if (constraint.maxOccurrences !== undefined) {
+      this.graph.add(propertyShape, `${SH}maxCount`, literal(String(constraint.maxOccurrences), `${XSD}integer`));
+    }
+
+    const targetNames = constraint.targetMustBe ? [constraint.targetMustBe] : constraint.targetMustBeOneOf ?? [];
+    const targets: NamedNode[] = [];
+    for (const name of targetNames) {
+      const entity = this.resolveName(name, this.entities);
+      if (!entity) {
+        this.warnings.push(`Constraint '${ruleId}': target type '${name}' not found`);
+        continue;
+      }
+      // sh:class also accepts instances of subclasses, which is why targetMatchSubtypes is not mapped
+      targets.push(namedNode(getMemberIri(entity)!));
+    }
+    if (targets.length === 1) {
+      this.graph.add(propertyShape, `${SH}class`, targets[0]);
+    } else if (targets.length > 1) {
+      const alternatives = targets.map(target => {
+        const alternative = this.graph.createBlankNode();
+        this.graph.add(alternative, `${SH}class`, target);
+        return alternative;
+      });
+      this.graph.add(propertyShape, `${SH}or`, this.graph.createList(alternatives));
+    }
+  }
+
+  /**
+   * Returns the classes of the entities an `appliesTo` selects, with the subtypes it asks for.
+   */
+  protected resolveAppliesTo(appliesTo: AppliesTo): RdfTerm[] {
+    const hierarchy = new Map<string, string[]>();
+    for (const [entity, name] of this.entities) {
+      hierarchy.set(name, [...this.closure.getSuperTerms(entity)].map(type => this.entities.get(type as Entity)).filter((n): n is string => n !== undefined));
+    }
+    const selected = new Set<Entity>();
+    for (const [entity, name] of this.entities) {
+      const match = matchesAppliesTo(name, appliesTo, hierarchy).matches
+        || (appliesTo.matchSubtypes && appliesTo.conceptType !== undefined && hierarchy.get(name)!.includes(appliesTo.conceptType));
+      if (match) {
+        selected.add(entity);
+      }
+    }
+    return [...selected].map(entity => namedNode(getMemberIri(entity)!));
+  }
+
+  /**
+   * Resolves a playbook name, qualified (`prefix:Name`) or simple, against the members of the closure.
+   */
+  protected resolveName<T extends AstNode>(name: string, members: Map<T, string>): T | undefined {
+    const entries = [...members];
+    return (entries.find(([, qualified]) => qualified === name) ?? entries.find(([, qualified]) => qualified.split(':')[1] === name))?.[0];
+  }
+}
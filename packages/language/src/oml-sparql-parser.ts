@@ -0,0 +1,970 @@
+/**
+ * OML SPARQL Parser
+ * Parses SPARQL 1.1 queries (SELECT, ASK, CONSTRUCT) into the algebra evaluated by the OML SPARQL engine
+ *
+ * Blank nodes and anonymous nodes (`[]`) in query patterns become hidden variables, named with a
+ * leading `.` that user variables cannot have; in CONSTRUCT templates they stay blank nodes and are
+ * renamed for each solution.
+ */
+
+import { literal, namedNode, RDF, STANDARD_PREFIXES, XSD } from './oml-rdf.js';
+import type { BlankNode, RdfTerm } from './oml-rdf.js';
+
+export type SparqlVariableOrTerm =
+  | { type: 'variable', name: string }
+  | { type: 'term', term: RdfTerm };
+
+export type SparqlPropertyPath =
+  | { type: 'link', iri: string }
+  | { type: 'inverse', path: SparqlPropertyPath }
+  | { type: 'sequence', paths: SparqlPropertyPath[] }
+  | { type: 'alternative', paths: SparqlPropertyPath[] }
+  | { type: 'repeat', path: SparqlPropertyPath, modifier: '*' | '+' | '?' }
+  | { type: 'negated', forward: string[], inverse: string[] };
+
+export interface SparqlTriplePattern {
+  subject: SparqlVariableOrTerm
+  /** A variable or IRI, or a path when the predicate is more than an IRI */
+  predicate: SparqlVariableOrTerm | SparqlPropertyPath
+  object: SparqlVariableOrTerm
+}
+
+export type SparqlExpression =
+  | SparqlVariableOrTerm
+  | { type: 'operation', operator: string, args: SparqlExpression[] }
+  | { type: 'call', name: string, args: SparqlExpression[], distinct?: boolean, separator?: string }
+  | { type: 'exists', negated: boolean, pattern: SparqlGroupPattern };
+
+export interface SparqlGroupPattern {
+  type: 'group'
+  patterns: SparqlPattern[]
+}
+
+export type SparqlPattern =
+  | SparqlGroupPattern
+  | { type: 'bgp', triples: SparqlTriplePattern[] }
+  | { type: 'optional', pattern: SparqlGroupPattern }
+  | { type: 'union', patterns: SparqlGroupPattern[] }
+  | { type: 'minus', pattern: SparqlGroupPattern }
+  | { type: 'filter', expression: SparqlExpression }
+  | { type: 'bind', expression: SparqlExpression, variable: string }
+  | { type: 'values', variables: string[], rows: (RdfTerm | undefined)[][] }
+  | { type: 'query', query: SparqlSelectQuery };
+
+export interface SparqlProjection {
+  variable: string
+  expression?: SparqlExpression
+}
+
+export interface SparqlGrouping {
+  expression: SparqlExpression
+  /** The variable of `GROUP BY (expression AS ?variable)`, or the grouped variable itself */
+  variable?: string
+}
+
+export interface SparqlOrdering {
+  expression: SparqlExpression
+  descending: boolean
+}
+
+interface QueryBase {
+  prefixes: Record<string, string>
+  where: SparqlGroupPattern
+  groupBy: SparqlGrouping[]
+  having: SparqlExpression[]
+  orderBy: SparqlOrdering[]
+  limit?: number
+  offset?: number
+}
+
+export interface SparqlSelectQuery extends QueryBase {
+  type: 'SELECT'
+  distinct: boolean
+  /** `*` selects the visible variables of the pattern */
+  projections: SparqlProjection[] | '*'
+}
+
+export interface SparqlAskQuery extends QueryBase {
+  type: 'ASK'
+}
+
+export interface SparqlConstructQuery extends QueryBase {
+  type: 'CONSTRUCT'
+  template: SparqlTriplePattern[]
+}
+
+export type SparqlQuery = SparqlSelectQuery | SparqlAskQuery | SparqlConstructQuery;
+
+export interface SparqlParseOptions {
+  /** Prefixes available without a PREFIX declaration, in addition to rdf, rdfs, owl and xsd */
+  prefixes?: Record<string, string>
+  baseIri?: string
+}
+
+export class SparqlParseError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'SparqlParseError';
+  }
+}
+
+export const SPARQL_AGGREGATES = new Set(['COUNT', 'SUM', 'MIN', 'MAX', 'AVG', 'SAMPLE', 'GROUP_CONCAT']);
+
+/**
+ * Built-in functions and their number of arguments (minimum and maximum).
+ */
+export const SPARQL_FUNCTIONS: Record<string, [number, number]> = {
+  STR: [1, 1], LANG: [1, 1], LANGMATCHES: [2, 2], DATATYPE: [1, 1], BOUND: [1, 1], IRI: [1, 1], URI: [1, 1],
+  STRDT: [2, 2], STRLANG: [2, 2], ISIRI: [1, 1], ISURI: [1, 1], ISBLANK: [1, 1], ISLITERAL: [1, 1], ISNUMERIC: [1, 1],
+  SAMETERM: [2, 2], IF: [3, 3], COALESCE: [1, Infinity], REGEX: [2, 3], REPLACE: [3, 4], CONTAINS: [2, 2],
+  STRSTARTS: [2, 2], STRENDS: [2, 2], STRBEFORE: [2, 2], STRAFTER: [2, 2], SUBSTR: [2, 3], STRLEN: [1, 1],
+  UCASE: [1, 1], LCASE: [1, 1], CONCAT: [0, Infinity], ENCODE_FOR_URI: [1, 1], ABS: [1, 1], ROUND: [1, 1],
+  CEIL: [1, 1], FLOOR: [1, 1]
+};
+
+const CASTS = ['string', 'integer', 'decimal', 'double', 'float', 'boolean', 'dateTime'].map(name => `${XSD}${name}`);
+
+export function parseSparql(text: string, options: SparqlParseOptions = {}): SparqlQuery {
+  return new SparqlParser(text, options).parseQuery();
+}
+
+interface Token {
+  type: 'iri' | 'pname' | 'variable' | 'blank' | 'string' | 'integer' | 'decimal' | 'double' | 'language' | 'word' | 'punctuation' | 'end'
+  value: string
+  line: number
+}
+
+const PN_CHARS = 'A-Za-z0-9_\\-\\u00B7\\u00C0-\\uFFFF';
+const PNAME = new RegExp(`^((?:[A-Za-z\\u00C0-\\uFFFF](?:[${PN_CHARS}.]*[${PN_CHARS}])?)?):((?:[${PN_CHARS}:%]|\\.(?=[${PN_CHARS}:%]))*)`);
+const VARIABLE = /^[?$]([A-Za-z0-9_\u00B7\u00C0-\uFFFF]+)/;
+const PUNCTUATION = ['&&', '||', '!=', '<=', '>=', '^^', '{', '}', '(', ')', '[', ']', '.', ',', ';', '*', '/', '|', '^', '+', '-', '!', '=', '<', '>', '?'];
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  let line = 1;
+  const fail = (message: string): never => {
+    throw new SparqlParseError(message, line);
+  };
+  while (position < text.length) {
+    const rest = text.slice(position);
+    const space = /^(?:\s+|#[^\n]*)+/.exec(rest);
+    if (space) {
+      line += space[0].split('\n').length - 1;
+      position += space[0].length;
+      continue;
+    }
+    const push = (type: Token['type'], value: string, length: number) => {
+      tokens.push({ type, value, line });
+      position += length;
+    };
+    let match: RegExpExecArray | null;
+    if ((match = /^<([^<>"{}|^`\\\s]*)>/.exec(rest))) {
+      push('iri', match[1], match[0].length);
+    } else if ((match = VARIABLE.exec(rest))) {
+      push('variable', match[1], match[0].length);
+    } else if ((match = new RegExp(`^_:([${PN_CHARS}](?:[${PN_CHARS}.]*[${PN_CHARS}])?)`).exec(rest))) {
+      push('blank', match[1], match[0].length);
+    } else if (rest[0] === '"' || rest[0] === '\'') {
+      const long = rest.startsWith(rest[0].repeat(3));
+      const delimiter = long ? rest[0].repeat(3) : rest[0];
+      let value = '';
+      let index = delimiter.length;
+      while (!rest.startsWith(delimiter, index)) {
+        if (index >= rest.length || (!long && rest[index] === '\n')) {
+          fail('Unterminated string');
+        }
+        if (rest[index] === '\\') {
+          const [char, length] = unescape(rest, index, fail);
+          value += char;
+          index += length;
+        } else {
+          line += rest[index] === '\n' ? 1 : 0;
+          value += rest[index++];
+        }
+      }
+      push('string', value, index + delimiter.length);
+    } else if ((match = /^@([a-zA-Z]+(?:-[a-zA-Z0-9]+)*)/.exec(rest))) {
+      push('language', match[1], match[0].length);
+    } else if ((match = /^(?:\d+\.\d*[eE][+-]?\d+|\.\d+[eE][+-]?\d+|\d+[eE][+-]?\d+)/.exec(rest))) {
+      push('double', match[0], match[0].length);
+    } else if ((match = /^\d*\.\d+/.exec(rest))) {
+      push('decimal', match[0], match[0].length);
+    } else if ((match = /^\d+/.exec(rest))) {
+      push('integer', match[0], match[0].length);
+    } else if ((match = PNAME.exec(rest))) {
+      push('pname', match[0], match[0].length);
+    } else if ((match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest))) {
+      push('word', match[0], match[0].length);
+    } else {
+      const punctuation = PUNCTUATION.find(p => rest.startsWith(p));
+      if (!punctuation) {
+        fail(`Unexpected character '${rest[0]}'`);
+      }
+      push('punctuation', punctuation!, punctuation!.length);
+    }
+  }
+  tokens.push({ type: 'end', value: '', line });
+  return tokens;
+}
+
+function unescape(text: string, index: number, fail: (message: string) => never): [string, number] {
+  const char = text[index + 1];
+  const simple: Record<string, string> = { t: '\t', n: '\n', r: '\r', b: '\b', f: '\f', '"': '"', '\'': '\'', '\\': '\\' };
+  if (char in simple) {
+    return [simple[char], 2];
+  }
+  const length = char === 'u' ? 4 : char === 'U' ? 8 : 0;
+  const hex = text.slice(index + 2, index + 2 + length);
+  if (length === 0 || !/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) {
+    fail(`Invalid escape sequence '\\${char ?? ''}'`);
+  }
+  return [String.fromCodePoint(parseInt(hex, 16)), 2 + length];
+}
+
+export class SparqlParser {
+
+  protected readonly tokens: Token[];
+  protected readonly prefixes: Record<string, string>;
+  protected baseIri: string;
+  protected index = 0;
+  protected blankNodeCount = 0;
+  /** In CONSTRUCT templates, blank nodes are kept as such rather than turned into variables */
+  protected templateBlankNodes?: Map<string, BlankNode>;
+
+  constructor(text: string, options: SparqlParseOptions = {}) {
+    this.tokens = tokenize(text);
+    this.prefixes = { rdf: STANDARD_PREFIXES.rdf, rdfs: STANDARD_PREFIXES.rdfs, owl: STANDARD_PREFIXES.owl, xsd: STANDARD_PREFIXES.xsd, ...options.prefixes };
+    this.baseIri = options.baseIri ?? '';
+  }
+
+  parseQuery(): SparqlQuery {
+    this.parsePrologue();
+    let query: SparqlQuery;
+    if (this.isWord('SELECT')) {
+      query = this.parseSelect();
+    } else if (this.isWord('ASK')) {
+      this.next();
+      this.rejectDataset();
+      this.acceptWord('WHERE');
+      query = { type: 'ASK', ...this.parseQueryBody() };
+    } else if (this.isWord('CONSTRUCT')) {
+      query = this.parseConstruct();
+    } else if (this.isWord('DESCRIBE') || this.isWord('INSERT') || this.isWord('DELETE') || this.isWord('LOAD') || this.isWord('CLEAR')) {
+      this.fail(`${this.peek().value.toUpperCase()} is not supported; use SELECT, ASK or CONSTRUCT`);
+    } else {
+      this.fail('Expected SELECT, ASK or CONSTRUCT');
+    }
+    if (this.acceptWord('VALUES')) {
+      query.where = { type: 'group', patterns: [query.where, this.parseValues()] };
+    }
+    if (this.peek().type !== 'end') {
+      this.fail(`Unexpected '${this.peek().value}' after the query`);
+    }
+    return query;
+  }
+
+  protected parsePrologue(): void {
+    for (;;) {
+      if (this.acceptWord('PREFIX')) {
+        const token = this.next();
+        if (token.type !== 'pname' || !token.value.endsWith(':')) {
+          this.fail('Expected a prefix name like \'ex:\'', token);
+        }
+        this.prefixes[token.value.slice(0, -1)] = this.parseIriToken();
+      } else if (this.acceptWord('BASE')) {
+        this.baseIri = this.parseIriToken();
+      } else {
+        return;
+      }
+    }
+  }
+
+  protected parseSelect(): SparqlSelectQuery {
+    this.expectWord('SELECT');
+    const distinct = this.acceptWord('DISTINCT') || this.acceptWord('REDUCED');
+    let projections: SparqlProjection[] | '*' = [];
+    if (this.accept('*')) {
+      projections = '*';
+    } else {
+      while (this.peek().type === 'variable' || this.is('(')) {
+        if (this.accept('(')) {
+          const expression = this.parseExpression();
+          this.expectWord('AS');
+          projections.push({ variable: this.parseVariableName(), expression });
+          this.expect(')');
+        } else {
+          projections.push({ variable: this.parseVariableName() });
+        }
+      }
+      if (projections.length === 0) {
+        this.fail('Expected * or variables after SELECT');
+      }
+    }
+    this.rejectDataset();
+    this.acceptWord('WHERE');
+    return { type: 'SELECT', distinct, projections, ...this.parseQueryBody() };
+  }
+
+  protected parseConstruct(): SparqlConstructQuery {
+    this.expectWord('CONSTRUCT');
+    let template: SparqlTriplePattern[];
+    if (this.is('{')) {
+      template = this.parseTemplate();
+      this.rejectDataset();
+      this.acceptWord('WHERE');
+      return { type: 'CONSTRUCT', template, ...this.parseQueryBody() };
+    }
+    // CONSTRUCT WHERE { ... } uses its pattern, which must be plain triples, as the template
+    this.rejectDataset();
+    this.expectWord('WHERE');
+    const start = this.index;
+    template = this.parseTemplate();
+    this.index = start;
+    return { type: 'CONSTRUCT', template, ...this.parseQueryBody() };
+  }
+
+  protected parseTemplate(): SparqlTriplePattern[] {
+    this.expect('{');
+    const triples: SparqlTriplePattern[] = [];
+    this.templateBlankNodes = new Map();
+    while (!this.is('}')) {
+      this.parseTriplesSameSubject(triples);
+      if (!this.accept('.')) {
+        break;
+      }
+    }
+    this.templateBlankNodes = undefined;
+    this.expect('}');
+    for (const triple of triples) {
+      if (!('term' in triple.predicate) && triple.predicate.type !== 'variable') {
+        this.fail('Property paths are not allowed in CONSTRUCT templates');
+      }
+    }
+    return triples;
+  }
+
+  protected rejectDataset(): void {
+    if (this.isWord('FROM')) {
+      this.fail('FROM is not supported: queries run over the loaded workspace');
+    }
+  }
+
+  protected parseQueryBody(): QueryBase {
+    const where = this.parseGroup();
+    const groupBy: SparqlGrouping[] = [];
+    const having: SparqlExpression[] = [];
+    const orderBy: SparqlOrdering[] = [];
+    let limit: number | undefined;
+    let offset: number | undefined;
+    if (this.acceptWord('GROUP')) {
+      this.expectWord('BY');
+      do {
+        if (this.accept('(')) {
+          const expression = this.parseExpression();
+          const variable = this.acceptWord('AS') ? this.parseVariableName() : undefined;
+          this.expect(')');
+          groupBy.push({ expression, variable });
+        } else if (this.peek().type === 'variable') {
+          const variable = this.parseVariableName();
+          groupBy.push({ expression: { type: 'variable', name: variable }, variable });
+        } else {
+          groupBy.push({ expression: this.parseConstraint() });
+        }
+      } while (this.peek().type === 'variable' || this.is('(') || this.isFunctionStart());
+    }
+    if (this.acceptWord('HAVING')) {
+      do {
+        having.push(this.parseConstraint());
+      } while (this.is('(') || this.isFunctionStart());
+    }
+    if (this.acceptWord('ORDER')) {
+      this.expectWord('BY');
+      do {
+        if (this.isWord('ASC') || this.isWord('DESC')) {
+          const descending = this.next().value.toUpperCase() === 'DESC';
+          this.expect('(');
+          orderBy.push({ expression: this.parseExpression(), descending });
+          this.expect(')');
+        } else if (this.peek().type === 'variable') {
+          orderBy.push({ expression: { type: 'variable', name: this.parseVariableName() }, descending: false });
+        } else {
+          orderBy.push({ expression: this.parseConstraint(), descending: false });
+        }
+      } while (this.peek().type === 'variable' || this.is('(') || this.isWord('ASC') || this.isWord('DESC') || this.isFunctionStart());
+    }
+    for (;;) {
+      if (this.acceptWord('LIMIT')) {
+        limit = this.parseInteger();
+      } else if (this.acceptWord('OFFSET')) {
+        offset = this.parseInteger();
+      } else {
+        break;
+      }
+    }
+    return { prefixes: { ...this.prefixes }, where, groupBy, having, orderBy, limit, offset };
+  }
+
+  protected parseGroup(): SparqlGroupPattern {
+    this.expect('{');
+    if (this.isWord('SELECT')) {
+      const query = this.parseSelect();
+      this.expect('}');
+      return { type: 'group', patterns: [{ type: 'query', query }] };
+    }
+    const patterns: SparqlPattern[] = [];
+    const addTriples = (triples: SparqlTriplePattern[]) => {
+      const last = patterns[patterns.length - 1];
+      if (last?.type === 'bgp') {
+        last.triples.push(...triples);
+      } else {
+        patterns.push({ type: 'bgp', triples });
+      }
+    };
+    while (!this.is('}')) {
+      if (this.acceptWord('OPTIONAL')) {
+        patterns.push({ type: 'optional', pattern: this.parseGroup() });
+      } else if (this.acceptWord('MINUS')) {
+        patterns.push({ type: 'minus', pattern: this.parseGroup() });
+      } else if (this.acceptWord('FILTER')) {
+        patterns.push({ type: 'filter', expression: this.parseConstraint() });
+      } else if (this.acceptWord('BIND')) {
+        this.expect('(');
+        const expression = this.parseExpression();
+        this.expectWord('AS');
+        patterns.push({ type: 'bind', expression, variable: this.parseVariableName() });
+        this.expect(')');
+      } else if (this.acceptWord('VALUES')) {
+        patterns.push(this.parseValues());
+      } else if (this.isWord('GRAPH') || this.isWord('SERVICE')) {
+        this.fail(`${this.peek().value.toUpperCase()} is not supported: queries run over the loaded workspace`);
+      } else if (this.is('{')) {
+        const groups = [this.parseGroup()];
+        while (this.acceptWord('UNION')) {
+          groups.push(this.parseGroup());
+        }
+        patterns.push(groups.length > 1 ? { type: 'union', patterns: groups } : groups[0]);
+      } else {
+        const triples: SparqlTriplePattern[] = [];
+        this.parseTriplesSameSubject(triples);
+        addTriples(triples);
+        if (!this.accept('.') && !this.is('}') && !this.isPatternKeyword() && !this.is('{')) {
+          this.fail(`Expected '.' or '}' but found '${this.peek().value}'`);
+        }
+        continue;
+      }
+      this.accept('.');
+    }
+    this.expect('}');
+    return { type: 'group', patterns };
+  }
+
+  protected isPatternKeyword(): boolean {
+    return ['OPTIONAL', 'MINUS', 'FILTER', 'BIND', 'VALUES', 'GRAPH', 'SERVICE'].some(word => this.isWord(word));
+  }
+
+  protected parseValues(): SparqlPattern {
+    const variables: string[] = [];
+    const rows: (RdfTerm | undefined)[][] = [];
+    if (this.peek().type === 'variable') {
+      variables.push(this.parseVariableName());
+      this.expect('{');
+      while (!this.accept('}')) {
+        rows.push([this.parseDataValue()]);
+      }
+    } else {
+      this.expect('(');
+      while (!this.accept(')')) {
+        variables.push(this.parseVariableName());
+      }
+      this.expect('{');
+      while (!this.accept('}')) {
+        this.expect('(');
+        const row: (RdfTerm | undefined)[] = [];
+        while (!this.accept(')')) {
+          row.push(this.parseDataValue());
+        }
+        if (row.length !== variables.length) {
+          this.fail(`Expected ${variables.length} value(s) in the VALUES row`);
+        }
+        rows.push(row);
+      }
+    }
+    return { type: 'values', variables, rows };
+  }
+
+  protected parseDataValue(): RdfTerm | undefined {
+    if (this.acceptWord('UNDEF')) {
+      return undefined;
+    }
+    const value = this.parseVariableOrTerm([]);
+    if (value.type !== 'term' || value.term.termType === 'BlankNode') {
+      this.fail('Expected an IRI, a literal or UNDEF in VALUES');
+    }
+    return (value as { term: RdfTerm }).term;
+  }
+
+  protected parseTriplesSameSubject(triples: SparqlTriplePattern[]): void {
+    if (this.is('[') || this.is('(')) {
+      const subject = this.parseTriplesNode(triples);
+      if (!this.is('.') && !this.is('}') && !this.is(']')) {
+        this.parsePropertyList(subject, triples);
+      }
+    } else {
+      this.parsePropertyList(this.parseVariableOrTerm(triples), triples);
+    }
+  }
+
+  protected parsePropertyList(subject: SparqlVariableOrTerm, triples: SparqlTriplePattern[]): void {
+    for (;;) {
+      if (this.is('.') || this.is('}') || this.is(']')) {
+        return;
+      }
+      const predicate = this.parseVerb();
+      do {
+        triples.push({ subject, predicate, object: this.parseObject(triples) });
+      } while (this.accept(','));
+      if (!this.accept(';')) {
+        return;
+      }
+      while (this.accept(';')) {
+        // a predicate-object list may end with, or repeat, semicolons
+      }
+    }
+  }
+
+  protected parseVerb(): SparqlVariableOrTerm | SparqlPropertyPath {
+    if (this.peek().type === 'variable') {
+      return { type: 'variable', name: this.parseVariableName() };
+    }
+    const path = this.parsePath();
+    return path.type === 'link' ? { type: 'term', term: namedNode(path.iri) } : path;
+  }
+
+  protected parsePath(): SparqlPropertyPath {
+    const alternatives = [this.parsePathSequence()];
+    while (this.accept('|')) {
+      alternatives.push(this.parsePathSequence());
+    }
+    return alternatives.length > 1 ? { type: 'alternative', paths: alternatives } : alternatives[0];
+  }
+
+  protected parsePathSequence(): SparqlPropertyPath {
+    const steps = [this.parsePathElement()];
+    while (this.accept('/')) {
+      steps.push(this.parsePathElement());
+    }
+    return steps.length > 1 ? { type: 'sequence', paths: steps } : steps[0];
+  }
+
+  protected parsePathElement(): SparqlPropertyPath {
+    const inverse = this.accept('^');
+    let path: SparqlPropertyPath;
+    if (this.accept('(')) {
+      path = this.parsePath();
+      this.expect(')');
+    } else if (this.accept('!')) {
+      path = this.parseNegatedPath();
+    } else {
+      path = { type: 'link', iri: this.parsePredicateIri() };
+    }
+    const modifier = this.peek().value;
+    if (this.peek().type === 'punctuation' && (modifier === '*' || modifier === '+' || modifier === '?')) {
+      this.next();
+      path = { type: 'repeat', path, modifier };
+    }
+    return inverse ? { type: 'inverse', path } : path;
+  }
+
+  protected parseNegatedPath(): SparqlPropertyPath {
+    const forward: string[] = [];
+    const inverse: string[] = [];
+    const parseOne = () => (this.accept('^') ? inverse : forward).push(this.parsePredicateIri());
+    if (this.accept('(')) {
+      do {
+        parseOne();
+      } while (this.accept('|'));
+      this.expect(')');
+    } else {
+      parseOne();
+    }
+    return { type: 'negated', forward, inverse };
+  }
+
+  protected parsePredicateIri(): string {
+    if (this.acceptWord('a', true)) {
+      return `${RDF}type`;
+    }
+    return this.parseIriToken();
+  }
+
+  protected parseObject(triples: SparqlTriplePattern[]): SparqlVariableOrTerm {
+    if (this.is('[') || this.is('(')) {
+      return this.parseTriplesNode(triples);
+    }
+    return this.parseVariableOrTerm(triples);
+  }
+
+  /**
+   * Parses a blank node property list (`[ p o ]`) or a collection (`( a b )`) and returns its node.
+   */
+  protected parseTriplesNode(triples: SparqlTriplePattern[]): SparqlVariableOrTerm {
+    if (this.accept('[')) {
+      const node = this.createBlankNode();
+      this.parsePropertyList(node, triples);
+      this.expect(']');
+      return node;
+    }
+    this.expect('(');
+    const items: SparqlVariableOrTerm[] = [];
+    while (!this.accept(')')) {
+      items.push(this.parseObject(triples));
+    }
+    let head: SparqlVariableOrTerm = { type: 'term', term: namedNode(`${RDF}nil`) };
+    for (const item of items.reverse()) {
+      const node = this.createBlankNode();
+      triples.push({ subject: node, predicate: { type: 'term', term: namedNode(`${RDF}first`) }, object: item });
+      triples.push({ subject: node, predicate: { type: 'term', term: namedNode(`${RDF}rest`) }, object: head });
+      head = node;
+    }
+    return head;
+  }
+
+  protected parseVariableOrTerm(triples: SparqlTriplePattern[]): SparqlVariableOrTerm {
+    const token = this.peek();
+    switch (token.type) {
+      case 'variable':
+        return { type: 'variable', name: this.parseVariableName() };
+      case 'iri':
+      case 'pname':
+        return { type: 'term', term: namedNode(this.parseIriToken()) };
+      case 'blank':
+        this.next();
+        return this.createBlankNode(token.value);
+      case 'string':
+      case 'integer':
+      case 'decimal':
+      case 'double':
+        return { type: 'term', term: this.parseLiteral() };
+      case 'word':
+        if (token.value === 'true' || token.value === 'false') {
+          this.next();
+          return { type: 'term', term: literal(token.value, `${XSD}boolean`) };
+        }
+        break;
+      case 'punctuation':
+        if ((token.value === '-' || token.value === '+') && ['integer', 'decimal', 'double'].includes(this.tokens[this.index + 1].type)) {
+          return { type: 'term', term: this.parseLiteral() };
+        }
+        if (token.value === '[' && this.tokens[this.index + 1].value === ']') {
+          this.index += 2;
+          return this.createBlankNode();
+        }
+        break;
+    }
+    return this.fail(`Expected a variable, IRI or literal but found '${token.value || 'end of query'}'`);
+  }
+
+  protected parseLiteral(): RdfTerm {
+    let sign = '';
+    if (this.is('-') || this.is('+')) {
+      sign = this.next().value === '-' ? '-' : '';
+    }
+    const token = this.next();
+    switch (token.type) {
+      case 'integer':
+      case 'decimal':
+      case 'double':
+        return literal(`${sign}${token.value}`, `${XSD}${token.type}`);
+      case 'string':
+        if (this.peek().type === 'language') {
+          return literal(token.value, undefined, this.next().value.toLowerCase());
+        }
+        if (this.accept('^^')) {
+          return literal(token.value, this.parseIriToken());
+        }
+        return literal(token.value);
+    }
+    return this.fail(`Expected a literal but found '${token.value}'`, token);
+  }
+
+  protected createBlankNode(label?: string): SparqlVariableOrTerm {
+    if (this.templateBlankNodes) {
+      const key = label ?? `.${this.blankNodeCount++}`;
+      if (!this.templateBlankNodes.has(key)) {
+        this.templateBlankNodes.set(key, { termType: 'BlankNode', value: key });
+      }
+      return { type: 'term', term: this.templateBlankNodes.get(key)! };
+    }
+    return { type: 'variable', name: label ? `.${label}` : `.b${this.blankNodeCount++}` };
+  }
+
+  // Expressions
+
+  /**
+   * Parses the constraint of a FILTER, HAVING or ORDER BY: a bracketted expression or a call.
+   */
+  protected parseConstraint(): SparqlExpression {
+    if (this.accept('(')) {
+      const expression = this.parseExpression();
+      this.expect(')');
+      return expression;
+    }
+    if (!this.isFunctionStart()) {
+      this.fail(`Expected '(' or a function call but found '${this.peek().value}'`);
+    }
+    return this.parsePrimaryExpression();
+  }
+
+  protected isFunctionStart(): boolean {
+    const token = this.peek();
+    return (token.type === 'word' && (token.value.toUpperCase() in SPARQL_FUNCTIONS || SPARQL_AGGREGATES.has(token.value.toUpperCase())
+        || ['EXISTS', 'NOT'].includes(token.value.toUpperCase())))
+      || ((token.type === 'iri' || token.type === 'pname') && this.tokens[this.index + 1].value === '(');
+  }
+
+  protected parseExpression(): SparqlExpression {
+    let left = this.parseAnd();
+    while (this.accept('||')) {
+      left = { type: 'operation', operator: '||', args: [left, this.parseAnd()] };
+    }
+    return left;
+  }
+
+  protected parseAnd(): SparqlExpression {
+    let left = this.parseRelational();
+    while (this.accept('&&')) {
+      left = { type: 'operation', operator: '&&', args: [left, this.parseRelational()] };
+    }
+    return left;
+  }
+
+  protected parseRelational(): SparqlExpression {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (token.type === 'punctuation' && ['=', '!=', '<', '>', '<=', '>='].includes(token.value)) {
+      this.next();
+      return { type: 'operation', operator: token.value, args: [left, this.parseAdditive()] };
+    }
+    const negated = this.isWord('NOT') && this.tokens[this.index + 1].value.toUpperCase() === 'IN';
+    if (negated || this.isWord('IN')) {
+      this.index += negated ? 2 : 1;
+      return { type: 'operation', operator: negated ? 'NOT IN' : 'IN', args: [left, ...this.parseArguments()] };
+    }
+    return left;
+  }
+
+  protected parseAdditive(): SparqlExpression {
+    let left = this.parseMultiplicative();
+    while (this.is('+') || this.is('-')) {
+      const operator = this.next().value;
+      left = { type: 'operation', operator, args: [left, this.parseMultiplicative()] };
+    }
+    return left;
+  }
+
+  protected parseMultiplicative(): SparqlExpression {
+    let left = this.parseUnary();
+    while (this.is('*') || this.is('/')) {
+      const operator = this.next().value;
+      left = { type: 'operation', operator, args: [left, this.parseUnary()] };
+    }
+    return left;
+  }
+
+  protected parseUnary(): SparqlExpression {
+    if (this.accept('!')) {
+      return { type: 'operation', operator: '!', args: [this.parseUnary()] };
+    }
+    if (this.is('-') || this.is('+')) {
+      const operator = this.next().value;
+      const operand = this.parseUnary();
+      return operator === '-' ? { type: 'operation', operator: 'negate', args: [operand] } : operand;
+    }
+    return this.parsePrimaryExpression();
+  }
+
+  protected parsePrimaryExpression(): SparqlExpression {
+    const token = this.peek();
+    if (this.accept('(')) {
+      const expression = this.parseExpression();
+      this.expect(')');
+      return expression;
+    }
+    if (token.type === 'iri' || token.type === 'pname') {
+      const iri = this.parseIriToken();
+      if (!this.is('(')) {
+        return { type: 'term', term: namedNode(iri) };
+      }
+      if (!CASTS.includes(iri)) {
+        this.fail(`Unsupported function <${iri}>`, token);
+      }
+      const args = this.parseArguments();
+      if (args.length !== 1) {
+        this.fail(`<${iri}> takes one argument`, token);
+      }
+      return { type: 'call', name: iri, args };
+    }
+    if (token.type === 'word' && token.value !== 'true' && token.value !== 'false') {
+      return this.parseCall();
+    }
+    return this.parseVariableOrTerm([]);
+  }
+
+  protected parseCall(): SparqlExpression {
+    const token = this.next();
+    const name = token.value.toUpperCase();
+    if (name === 'EXISTS' || (name === 'NOT' && this.acceptWord('EXISTS'))) {
+      return { type: 'exists', negated: name === 'NOT', pattern: this.parseGroup() };
+    }
+    if (SPARQL_AGGREGATES.has(name)) {
+      this.expect('(');
+      const distinct = this.acceptWord('DISTINCT');
+      if (name === 'COUNT' && this.accept('*')) {
+        this.expect(')');
+        return { type: 'call', name, args: [], distinct };
+      }
+      const args = [this.parseExpression()];
+      let separator: string | undefined;
+      if (name === 'GROUP_CONCAT' && this.accept(';')) {
+        this.expectWord('SEPARATOR');
+        this.expect('=');
+        const value = this.next();
+        if (value.type !== 'string') {
+          this.fail('Expected a string after SEPARATOR =', value);
+        }
+        separator = value.value;
+      }
+      this.expect(')');
+      return { type: 'call', name, args, distinct, separator };
+    }
+    const arity = SPARQL_FUNCTIONS[name];
+    if (!arity) {
+      this.fail(`Unsupported function ${token.value}`, token);
+    }
+    const args = this.parseArguments();
+    if (args.length < arity[0] || args.length > arity[1]) {
+      const expected = arity[0] === arity[1] ? `${arity[0]}` : arity[1] === Infinity ? `at least ${arity[0]}` : `${arity[0]} to ${arity[1]}`;
+      this.fail(`${name} takes ${expected} argument(s)`, token);
+    }
+    if (name === 'BOUND' && args[0].type !== 'variable') {
+      this.fail('BOUND takes a variable', token);
+    }
+    return { type: 'call', name, args };
+  }
+
+  protected parseArguments(): SparqlExpression[] {
+    this.expect('(');
+    const args: SparqlExpression[] = [];
+    if (!this.accept(')')) {
+      do {
+        args.push(this.parseExpression());
+      } while (this.accept(','));
+      this.expect(')');
+    }
+    return args;
+  }
+
+  // Tokens
+
+  protected parseIriToken(): string {
+    const token = this.next();
+    if (token.type === 'iri') {
+      return resolveIri(token.value, this.baseIri);
+    }
+    if (token.type === 'pname') {
+      const separator = token.value.indexOf(':');
+      const prefix = token.value.slice(0, separator);
+      const namespace = this.prefixes[prefix];
+      if (namespace === undefined) {
+        this.fail(`Undeclared prefix '${prefix}:'`, token);
+      }
+      return namespace + token.value.slice(separator + 1);
+    }
+    return this.fail(`Expected an IRI but found '${token.value || 'end of query'}'`, token);
+  }
+
+  protected parseVariableName(): string {
+    const token = this.next();
+    if (token.type !== 'variable') {
+      this.fail(`Expected a variable but found '${token.value || 'end of query'}'`, token);
+    }
+    return token.value;
+  }
+
+  protected parseInteger(): number {
+    const token = this.next();
+    if (token.type !== 'integer') {
+      this.fail(`Expected an integer but found '${token.value}'`, token);
+    }
+    return Number(token.value);
+  }
+
+  protected peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  protected next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  protected is(punctuation: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuation' && token.value === punctuation;
+  }
+
+  protected accept(punctuation: string): boolean {
+    if (this.is(punctuation)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  protected expect(punctuation: string): void {
+    if (!this.accept(punctuation)) {
+      this.fail(`Expected '${punctuation}' but found '${this.peek().value || 'end of query'}'`);
+    }
+  }
+
+  /**
+   * Keywords are case-insensitive, except `a` which is only a keyword in lower case.
+   */
+  protected isWord(word: string, caseSensitive = false): boolean {
+    const token = this.peek();
+    return token.type === 'word' && (caseSensitive ? token.value === word : token.value.toUpperCase() === word.toUpperCase());
+  }
+
+  protected acceptWord(word: string, caseSensitive = false): boolean {
+    if (this.isWord(word, caseSensitive)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  protected expectWord(word: string): void {
+    if (!this.acceptWord(word)) {
+      this.fail(`Expected ${word} but found '${this.peek().value || 'end of query'}'`);
+    }
+  }
+
+  protected fail(message: string, token: Token = this.peek()): never {
+    throw new SparqlParseError(message, token.line);
+  }
+}
+
+function resolveIri(iri: string, base: string): string {
+  if (!base || /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(iri)) {
+    return iri;
+  }
+  try {
+    return new URL(iri, base).href;
+  } catch {
+    return base + iri;
+  }
+}
@@ -0,0 +1,1130 @@
+/**
+ * OML SPARQL
+ * Evaluates SPARQL 1.1 queries over an in-memory RDF graph, such as the OWL view of a workspace
+ *
+ * Supported: SELECT (with expressions, DISTINCT, GROUP BY, HAVING and aggregates), ASK and
+ * CONSTRUCT; property paths, OPTIONAL, UNION, MINUS, FILTER with EXISTS / NOT EXISTS, BIND, VALUES
+ * and subqueries; ORDER BY, LIMIT and OFFSET; and the functions on terms, strings and numbers
+ * listed in `SPARQL_FUNCTIONS`. Datasets (FROM, GRAPH), DESCRIBE and updates are not.
+ *
+ * A group is evaluated by extending, pattern after pattern, the solutions of what precedes it, so
+ * an OPTIONAL or EXISTS sees the bindings of its context; filters apply at the end of their group.
+ */
+
+import type { Ontology } from './generated/ast.js';
+import { exportOntologiesToOwl } from './oml-owl.js';
+import { literal, namedNode, RDF, RdfGraph, termKey, XSD } from './oml-rdf.js';
+import type { BlankNode, RdfLiteral, RdfTerm, Triple } from './oml-rdf.js';
+import { SPARQL_AGGREGATES, parseSparql } from './oml-sparql-parser.js';
+import type {
+  SparqlExpression,
+  SparqlGroupPattern,
+  SparqlPattern,
+  SparqlPropertyPath,
+  SparqlParseOptions,
+  SparqlQuery,
+  SparqlSelectQuery,
+  SparqlTriplePattern,
+  SparqlVariableOrTerm
+} from './oml-sparql-parser.js';
+
+/** The values of the variables bound by a solution */
+export type SparqlSolution = Map<string, RdfTerm>;
+
+export interface SparqlSelectResult {
+  type: 'SELECT'
+  variables: string[]
+  solutions: SparqlSolution[]
+}
+
+export interface SparqlAskResult {
+  type: 'ASK'
+  value: boolean
+}
+
+export interface SparqlConstructResult {
+  type: 'CONSTRUCT'
+  graph: RdfGraph
+}
+
+export type SparqlResult = SparqlSelectResult | SparqlAskResult | SparqlConstructResult;
+
+/**
+ * The RDF view of a set of ontologies, with the prefixes of their namespaces.
+ */
+export interface SparqlDataset {
+  graph: RdfGraph
+  prefixes: Record<string, string>
+}
+
+/**
+ * Creates the RDF view queried by SPARQL: the OWL mapping of the given ontologies.
+ */
+export function createSparqlDataset(ontologies: Ontology[]): SparqlDataset {
+  const { graph, prefixes } = exportOntologiesToOwl(ontologies);
+  return { graph, prefixes };
+}
+
+/**
+ * Parses and evaluates a query. The prefixes given in the options need no PREFIX declaration.
+ */
+export function executeSparql(graph: RdfGraph, query: string | SparqlQuery, options: SparqlParseOptions = {}): SparqlResult {
+  return new SparqlEngine(graph).execute(typeof query === 'string' ? parseSparql(query, options) : query);
+}
+
+/**
+ * Raised while evaluating an expression; a filter is then false and a BIND leaves its variable unbound.
+ */
+class ExpressionError extends Error {}
+
+const NUMERIC_TYPES = ['integer', 'decimal', 'float', 'double', 'nonPositiveInteger', 'negativeInteger', 'long', 'int', 'short', 'byte',
+  'nonNegativeInteger', 'unsignedLong', 'unsignedInt', 'unsignedShort', 'unsignedByte', 'positiveInteger'].map(name => `${XSD}${name}`);
+
+const TRUE = literal('true', `${XSD}boolean`);
+const FALSE = literal('false', `${XSD}boolean`);
+
+function isNumeric(term: RdfTerm): term is RdfLiteral {
+  return term.termType === 'Literal' && NUMERIC_TYPES.includes(term.datatype);
+}
+
+function isStringLiteral(term: RdfTerm): boolean {
+  return term.termType === 'Literal' && (term.datatype === `${XSD}string` || term.datatype === `${RDF}langString`);
+}
+
+function getNumericType(datatype: string): string {
+  if (datatype === `${XSD}double` || datatype === `${XSD}float` || datatype === `${XSD}decimal`) {
+    return datatype;
+  }
+  return `${XSD}integer`;
+}
+
+function createNumber(value: number, datatype: string): RdfLiteral {
+  if (datatype === `${XSD}integer`) {
+    return literal(String(Math.trunc(value)), datatype);
+  }
+  if (datatype === `${XSD}decimal`) {
+    return literal(Number.isInteger(value) ? value.toFixed(1) : String(value), datatype);
+  }
+  return literal(Number.isInteger(value) ? `${value}.0E0` : String(value), datatype);
+}
+
+function createBoolean(value: boolean): RdfLiteral {
+  return value ? TRUE : FALSE;
+}
+
+export class SparqlEngine {
+
+  protected readonly bySubject = new Map<string, Triple[]>();
+  protected readonly byPredicate = new Map<string, Triple[]>();
+  protected readonly byObject = new Map<string, Triple[]>();
+  protected readonly nodes = new Map<string, RdfTerm>();
+  protected readonly regexes = new Map<string, RegExp>();
+
+  constructor(readonly graph: RdfGraph) {
+    const index = (map: Map<string, Triple[]>, key: string, triple: Triple) => {
+      const triples = map.get(key);
+      if (triples) {
+        triples.push(triple);
+      } else {
+        map.set(key, [triple]);
+      }
+    };
+    for (const triple of graph.triples) {
+      index(this.bySubject, termKey(triple.subject), triple);
+      index(this.byPredicate, triple.predicate.value, triple);
+      index(this.byObject, termKey(triple.object), triple);
+      this.nodes.set(termKey(triple.subject), triple.subject);
+      this.nodes.set(termKey(triple.object), triple.object);
+    }
+  }
+
+  execute(query: SparqlQuery): SparqlResult {
+    switch (query.type) {
+      case 'SELECT':
+        return this.evaluateSelect(query);
+      case 'ASK':
+        return { type: 'ASK', value: this.evaluateGroup(query.where, [new Map()]).length > 0 };
+      case 'CONSTRUCT':
+        return { type: 'CONSTRUCT', graph: this.evaluateConstruct(query.template, this.applyModifiers(query, this.evaluateGroup(query.where, [new Map()]))) };
+    }
+  }
+
+  // Query forms
+
+  protected evaluateSelect(query: SparqlSelectQuery): SparqlSelectResult {
+    const solutions = this.evaluateGroup(query.where, [new Map()]);
+    const projections = query.projections === '*'
+      ? collectVariables(query.where).map(variable => ({ variable, expression: undefined }))
+      : query.projections;
+    const aggregated = query.groupBy.length > 0
+      || projections.some(p => p.expression && hasAggregate(p.expression))
+      || query.having.some(hasAggregate)
+      || query.orderBy.some(o => hasAggregate(o.expression));
+
+    // Each row keeps the solutions it aggregates, for the aggregates of ORDER BY
+    let rows: { solution: SparqlSolution, group?: SparqlSolution[] }[];
+    if (aggregated) {
+      rows = this.group(solutions, query).filter(row => query.having.every(condition => this.test(condition, row.solution, row.group)));
+    } else {
+      rows = solutions.map(solution => ({ solution }));
+    }
+    for (const row of rows) {
+      for (const projection of projections) {
+        if (projection.expression) {
+          const value = this.tryEvaluate(projection.expression, row.solution, row.group);
+          if (value) {
+            row.solution = new Map(row.solution).set(projection.variable, value);
+          }
+        }
+      }
+    }
+    rows = this.order(rows, query);
+
+    const variables = projections.map(p => p.variable);
+    let projected = rows.map(row => new Map(variables.filter(v => row.solution.has(v)).map(v => [v, row.solution.get(v)!])));
+    if (query.distinct) {
+      projected = distinct(projected);
+    }
+    return { type: 'SELECT', variables, solutions: slice(projected, query.offset, query.limit) };
+  }
+
+  protected group(solutions: SparqlSolution[], query: SparqlSelectQuery): { solution: SparqlSolution, group: SparqlSolution[] }[] {
+    const groups = new Map<string, { solution: SparqlSolution, group: SparqlSolution[] }>();
+    for (const solution of solutions) {
+      const keys: SparqlSolution = new Map();
+      query.groupBy.forEach((grouping, index) => {
+        const value = this.tryEvaluate(grouping.expression, solution);
+        if (value) {
+          keys.set(grouping.variable ?? `.group${index}`, value);
+        }
+      });
+      const key = solutionKey(keys, [...keys.keys()]) + `|${keys.size}`;
+      const group = groups.get(key);
+      if (group) {
+        group.group.push(solution);
+      } else {
+        groups.set(key, { solution: keys, group: [solution] });
+      }
+    }
+    // Aggregating without GROUP BY gives one group, even when there is no solution
+    if (groups.size === 0 && query.groupBy.length === 0) {
+      groups.set('', { solution: new Map(), group: [] });
+    }
+    return [...groups.values()];
+  }
+
+  protected order<T extends { solution: SparqlSolution, group?: SparqlSolution[] }>(rows: T[], query: SparqlSelectQuery | SparqlQuery): T[] {
+    if (query.orderBy.length === 0) {
+      return rows;
+    }
+    const keyed = rows.map(row => ({ row, keys: query.orderBy.map(o => this.tryEvaluate(o.expression, row.solution, row.group)) }));
+    keyed.sort((a, b) => {
+      for (let i = 0; i < query.orderBy.length; i++) {
+        const comparison = compareForOrder(a.keys[i], b.keys[i]);
+        if (comparison !== 0) {
+          return query.orderBy[i].descending ? -comparison : comparison;
+        }
+      }
+      return 0;
+    });
+    return keyed.map(k => k.row);
+  }
+
+  protected applyModifiers(query: SparqlQuery, solutions: SparqlSolution[]): SparqlSolution[] {
+    return slice(this.order(solutions.map(solution => ({ solution })), query).map(row => row.solution), query.offset, query.limit);
+  }
+
+  protected evaluateConstruct(template: SparqlTriplePattern[], solutions: SparqlSolution[]): RdfGraph {
+    const graph = new RdfGraph();
+    for (const solution of solutions) {
+      const blankNodes = new Map<string, BlankNode>();
+      const instantiate = (term: SparqlVariableOrTerm): RdfTerm | undefined => {
+        if (term.type === 'variable') {
+          return solution.get(term.name);
+        }
+        if (term.term.termType === 'BlankNode') {
+          if (!blankNodes.has(term.term.value)) {
+            blankNodes.set(term.term.value, graph.createBlankNode());
+          }
+          return blankNodes.get(term.term.value);
+        }
+        return term.term;
+      };
+      for (const triple of template) {
+        const subject = instantiate(triple.subject);
+        const predicate = instantiate(triple.predicate as SparqlVariableOrTerm);
+        const object = instantiate(triple.object);
+        if (subject && subject.termType !== 'Literal' && predicate?.termType === 'NamedNode' && object) {
+          graph.add(subject, predicate, object);
+        }
+      }
+    }
+    return graph;
+  }
+
+  // Graph patterns
+
+  protected evaluateGroup(group: SparqlGroupPattern, input: SparqlSolution[]): SparqlSolution[] {
+    let solutions = input;
+    const filters: SparqlExpression[] = [];
+    for (const pattern of group.patterns) {
+      if (pattern.type === 'filter') {
+        filters.push(pattern.expression);
+      } else {
+        solutions = this.evaluatePattern(pattern, solutions);
+      }
+    }
+    return filters.length === 0 ? solutions : solutions.filter(solution => filters.every(filter => this.test(filter, solution)));
+  }
+
+  protected evaluatePattern(pattern: Exclude<SparqlPattern, { type: 'filter' }>, solutions: SparqlSolution[]): SparqlSolution[] {
+    switch (pattern.type) {
+      case 'group':
+        return this.evaluateGroup(pattern, solutions);
+      case 'bgp':
+        return solutions.flatMap(solution => this.evaluateTriples(pattern.triples, solution));
+      case 'optional':
+        return solutions.flatMap(solution => {
+          const extended = this.evaluateGroup(pattern.pattern, [solution]);
+          return extended.length > 0 ? extended : [solution];
+        });
+      case 'union':
+        return pattern.patterns.flatMap(branch => this.evaluateGroup(branch, solutions));
+      case 'minus': {
+        const excluded = this.evaluateGroup(pattern.pattern, [new Map()]);
+        return solutions.filter(solution => !excluded.some(other =>
+          [...other.keys()].some(v => solution.has(v)) && isCompatible(solution, other)));
+      }
+      case 'bind':
+        return solutions.map(solution => {
+          const value = this.tryEvaluate(pattern.expression, solution);
+          return value ? new Map(solution).set(pattern.variable, value) : solution;
+        });
+      case 'values':
+        return join(solutions, pattern.rows.map(row =>
+          new Map(row.flatMap((value, i) => value ? [[pattern.variables[i], value] as const] : []))));
+      case 'query':
+        return join(solutions, this.evaluateSelect(pattern.query).solutions);
+    }
+  }
+
+  /**
+   * Matches a basic graph pattern, starting each time with the triple that has the most bound terms.
+   */
+  protected evaluateTriples(triples: SparqlTriplePattern[], solution: SparqlSolution): SparqlSolution[] {
+    if (triples.length === 0) {
+      return [solution];
+    }
+    const bound = (term: SparqlVariableOrTerm | SparqlPropertyPath) => term.type === 'term' || (term.type === 'variable' && solution.has(term.name));
+    let best = 0;
+    let bestScore = -1;
+    triples.forEach((triple, index) => {
+      const score = (bound(triple.subject) ? 2 : 0) + (bound(triple.object) ? 2 : 0) + (bound(triple.predicate) ? 1 : 0);
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+    const rest = triples.filter((_, index) => index !== best);
+    return this.evaluateTriple(triples[best], solution).flatMap(extended => this.evaluateTriples(rest, extended));
+  }
+
+  protected evaluateTriple(triple: SparqlTriplePattern, solution: SparqlSolution): SparqlSolution[] {
+    const resolve = (term: SparqlVariableOrTerm) => term.type === 'term' ? term.term : solution.get(term.name);
+    const subject = resolve(triple.subject);
+    const object = resolve(triple.object);
+    const results: SparqlSolution[] = [];
+    const bind = (extended: SparqlSolution, term: SparqlVariableOrTerm, value: RdfTerm): boolean => {
+      if (term.type !== 'variable') {
+        return true;
+      }
+      const current = extended.get(term.name);
+      if (current) {
+        return termKey(current) === termKey(value);
+      }
+      extended.set(term.name, value);
+      return true;
+    };
+    if (triple.predicate.type === 'variable' || triple.predicate.type === 'term') {
+      const predicateTerm = resolve(triple.predicate);
+      if (predicateTerm && predicateTerm.termType !== 'NamedNode') {
+        return [];
+      }
+      for (const match of this.match(subject, predicateTerm?.value, object)) {
+        const extended = new Map(solution);
+        if (bind(extended, triple.subject, match.subject) && bind(extended, triple.predicate, match.predicate) && bind(extended, triple.object, match.object)) {
+          results.push(extended);
+        }
+      }
+    } else {
+      for (const [start, end] of this.evaluatePath(triple.predicate, subject, object)) {
+        const extended = new Map(solution);
+        if (bind(extended, triple.subject, start) && bind(extended, triple.object, end)) {
+          results.push(extended);
+        }
+      }
+    }
+    return results;
+  }
+
+  protected match(subject?: RdfTerm, predicate?: string, object?: RdfTerm): Triple[] {
+    const candidates = [
+      subject && (this.bySubject.get(termKey(subject)) ?? []),
+      predicate !== undefined && (this.byPredicate.get(predicate) ?? []),
+      object && (this.byObject.get(termKey(object)) ?? [])
+    ].filter((c): c is Triple[] => Array.isArray(c));
+    if (candidates.length === 0) {
+      return this.graph.triples;
+    }
+    const smallest = candidates.reduce((a, b) => a.length <= b.length ? a : b);
+    return smallest.filter(triple =>
+      (!subject || termKey(triple.subject) === termKey(subject)) &&
+      (predicate === undefined || triple.predicate.value === predicate) &&
+      (!object || termKey(triple.object) === termKey(object)));
+  }
+
+  /**
+   * Returns the pairs of nodes a path connects, from the given start and/or to the given end.
+   */
+  protected evaluatePath(path: SparqlPropertyPath, start?: RdfTerm, end?: RdfTerm): [RdfTerm, RdfTerm][] {
+    // Paths are followed forward, so a path with only its end known is followed backward
+    if (!start && end && path.type !== 'link' && path.type !== 'negated') {
+      return this.evaluatePath(invertPath(path), end, undefined).map(([a, b]) => [b, a]);
+    }
+    switch (path.type) {
+      case 'link':
+        return this.match(start, path.iri, end).map(t => [t.subject, t.object]);
+      case 'inverse':
+        return this.evaluatePath(path.path, end, start).map(([a, b]) => [b, a]);
+      case 'negated': {
+        const forward = path.forward.length > 0 || path.inverse.length === 0
+          ? this.match(start, undefined, end).filter(t => !path.forward.includes(t.predicate.value)).map(t => [t.subject, t.object] as [RdfTerm, RdfTerm])
+          : [];
+        const inverse = path.inverse.length > 0
+          ? this.match(end, undefined, start).filter(t => !path.inverse.includes(t.predicate.value)).map(t => [t.object, t.subject] as [RdfTerm, RdfTerm])
+          : [];
+        return distinctPairs([...forward, ...inverse]);
+      }
+      case 'alternative':
+        return distinctPairs(path.paths.flatMap(p => this.evaluatePath(p, start, end)));
+      case 'sequence': {
+        let pairs = this.evaluatePath(path.paths[0], start, path.paths.length === 1 ? end : undefined);
+        path.paths.slice(1).forEach((step, index) => {
+          const last = index === path.paths.length - 2;
+          pairs = distinctPairs(pairs.flatMap(([first, middle]) =>
+            this.evaluatePath(step, middle, last ? end : undefined).map(([, next]) => [first, next] as [RdfTerm, RdfTerm])));
+        });
+        return pairs;
+      }
+      case 'repeat': {
+        const starts = start ? [start]
+          : path.modifier === '+' ? distinctTerms(this.evaluatePath(path.path).map(([s]) => s))
+          : [...this.nodes.values()];
+        const pairs: [RdfTerm, RdfTerm][] = [];
+        for (const node of starts) {
+          for (const reached of this.reach(path.path, node, path.modifier)) {
+            if (!end || termKey(reached) === termKey(end)) {
+              pairs.push([node, reached]);
+            }
+          }
+        }
+        return pairs;
+      }
+    }
+  }
+
+  /**
+   * The nodes reached from a node by repeating a path zero or more (`*`), one or more (`+`) or
+   * zero or one (`?`) times.
+   */
+  protected reach(path: SparqlPropertyPath, node: RdfTerm, modifier: '*' | '+' | '?'): RdfTerm[] {
+    const reached = new Map<string, RdfTerm>();
+    if (modifier !== '+') {
+      reached.set(termKey(node), node);
+    }
+    let frontier = [node];
+    const visited = new Set([termKey(node)]);
+    while (frontier.length > 0) {
+      const next: RdfTerm[] = [];
+      for (const current of frontier) {
+        for (const [, target] of this.evaluatePath(path, current)) {
+          const key = termKey(target);
+          reached.set(key, target);
+          if (!visited.has(key)) {
+            visited.add(key);
+            next.push(target);
+          }
+        }
+      }
+      frontier = modifier === '?' ? [] : next;
+    }
+    return [...reached.values()];
+  }
+
+  // Expressions
+
+  protected test(expression: SparqlExpression, solution: SparqlSolution, group?: SparqlSolution[]): boolean {
+    try {
+      return getEffectiveBooleanValue(this.evaluate(expression, solution, group));
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  protected tryEvaluate(expression: SparqlExpression, solution: SparqlSolution, group?: SparqlSolution[]): RdfTerm | undefined {
+    try {
+      return this.evaluate(expression, solution, group);
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  protected evaluate(expression: SparqlExpression, solution: SparqlSolution, group?: SparqlSolution[]): RdfTerm {
+    switch (expression.type) {
+      case 'term':
+        return expression.term;
+      case 'variable': {
+        const value = solution.get(expression.name);
+        if (!value) {
+          throw new ExpressionError(`?${expression.name} is unbound`);
+        }
+        return value;
+      }
+      case 'exists': {
+        const found = this.evaluateGroup(expression.pattern, [solution]).length > 0;
+        return createBoolean(found !== expression.negated);
+      }
+      case 'operation':
+        return this.evaluateOperation(expression.operator, expression.args, solution, group);
+      case 'call':
+        if (SPARQL_AGGREGATES.has(expression.name)) {
+          if (!group) {
+            throw new ExpressionError(`${expression.name} is only allowed in aggregate queries`);
+          }
+          return this.evaluateAggregate(expression, group);
+        }
+        return this.evaluateCall(expression.name, expression.args, solution, group);
+    }
+  }
+
+  protected evaluateOperation(operator: string, args: SparqlExpression[], solution: SparqlSolution, group?: SparqlSolution[]): RdfTerm {
+    const value = (index: number) => this.evaluate(args[index], solution, group);
+    switch (operator) {
+      case '||':
+      case '&&': {
+        // An error on one side is ignored when the other side decides the result
+        const results = args.map(arg => {
+          try {
+            return getEffectiveBooleanValue(this.evaluate(arg, solution, group));
+          } catch (error) {
+            if (error instanceof ExpressionError) {
+              return undefined;
+            }
+            throw error;
+          }
+        });
+        const decisive = operator === '||';
+        if (results.includes(decisive)) {
+          return createBoolean(decisive);
+        }
+        if (results.includes(undefined)) {
+          throw new ExpressionError(`Error in ${operator}`);
+        }
+        return createBoolean(!decisive);
+      }
+      case '!':
+        return createBoolean(!getEffectiveBooleanValue(value(0)));
+      case 'negate': {
+        const operand = value(0);
+        if (!isNumeric(operand)) {
+          throw new ExpressionError('Unary minus needs a number');
+        }
+        return createNumber(-Number(operand.value), getNumericType(operand.datatype));
+      }
+      case '=':
+      case '!=':
+        return createBoolean(areEqual(value(0), value(1)) === (operator === '='));
+      case '<':
+      case '>':
+      case '<=':
+      case '>=': {
+        const comparison = compareValues(value(0), value(1));
+        return createBoolean(operator === '<' ? comparison < 0 : operator === '>' ? comparison > 0 : operator === '<=' ? comparison <= 0 : comparison >= 0);
+      }
+      case 'IN':
+      case 'NOT IN': {
+        const left = value(0);
+        let error = false;
+        for (let i = 1; i < args.length; i++) {
+          try {
+            if (areEqual(left, value(i))) {
+              return createBoolean(operator === 'IN');
+            }
+          } catch (e) {
+            if (!(e instanceof ExpressionError)) {
+              throw e;
+            }
+            error = true;
+          }
+        }
+        if (error) {
+          throw new ExpressionError(`Error in ${operator}`);
+        }
+        return createBoolean(operator === 'NOT IN');
+      }
+      case '+':
+      case '-':
+      case '*':
+      case '/': {
+        const left = value(0);
+        const right = value(1);
+        if (!isNumeric(left) || !isNumeric(right)) {
+          throw new ExpressionError(`${operator} needs numbers`);
+        }
+        const a = Number(left.value);
+        const b = Number(right.value);
+        let datatype = [left, right].map(t => getNumericType(t.datatype))
+          .reduce((x, y) => NUMERIC_RANKS.indexOf(x) >= NUMERIC_RANKS.indexOf(y) ? x : y);
+        if (operator === '/') {
+          if (datatype === `${XSD}integer`) {
+            datatype = `${XSD}decimal`;
+          }
+          if (b === 0 && datatype === `${XSD}decimal`) {
+            throw new ExpressionError('Division by zero');
+          }
+        }
+        const result = operator === '+' ? a + b : operator === '-' ? a - b : operator === '*' ? a * b : a / b;
+        return createNumber(result, datatype);
+      }
+    }
+    throw new ExpressionError(`Unknown operator ${operator}`);
+  }
+
+  protected evaluateCall(name: string, args: SparqlExpression[], solution: SparqlSolution, group?: SparqlSolution[]): RdfTerm {
+    // Functions that do not evaluate all their arguments
+    switch (name) {
+      case 'BOUND':
+        return createBoolean(solution.has((args[0] as { name: string }).name));
+      case 'IF':
+        return getEffectiveBooleanValue(this.evaluate(args[0], solution, group))
+          ? this.evaluate(args[1], solution, group)
+          : this.evaluate(args[2], solution, group);
+      case 'COALESCE':
+        for (const arg of args) {
+          const value = this.tryEvaluate(arg, solution, group);
+          if (value) {
+            return value;
+          }
+        }
+        throw new ExpressionError('COALESCE has no bound argument');
+    }
+    const values = args.map(arg => this.evaluate(arg, solution, group));
+    if (name.startsWith(XSD)) {
+      return cast(values[0], name);
+    }
+    const [first, second, third, fourth] = values;
+    switch (name) {
+      case 'STR':
+        if (first.termType === 'BlankNode') {
+          throw new ExpressionError('STR of a blank node');
+        }
+        return literal(first.value);
+      case 'LANG':
+        return literal(asLiteral(first).language ?? '');
+      case 'LANGMATCHES': {
+        const tag = asString(first).toLowerCase();
+        const range = asString(second).toLowerCase();
+        return createBoolean(range === '*' ? tag !== '' : tag === range || tag.startsWith(`${range}-`));
+      }
+      case 'DATATYPE':
+        return namedNode(asLiteral(first).datatype);
+      case 'IRI':
+      case 'URI':
+        return first.termType === 'NamedNode' ? first : namedNode(asString(first));
+      case 'STRDT':
+        return literal(asString(first), asIri(second));
+      case 'STRLANG':
+        return literal(asString(first), undefined, asString(second).toLowerCase());
+      case 'ISIRI':
+      case 'ISURI':
+        return createBoolean(first.termType === 'NamedNode');
+      case 'ISBLANK':
+        return createBoolean(first.termType === 'BlankNode');
+      case 'ISLITERAL':
+        return createBoolean(first.termType === 'Literal');
+      case 'ISNUMERIC':
+        return createBoolean(isNumeric(first) && !Number.isNaN(Number(first.value)));
+      case 'SAMETERM':
+        return createBoolean(termKey(first) === termKey(second));
+      case 'REGEX':
+        return createBoolean(this.getRegex(asString(second), third ? asString(third) : '').test(asString(first)));
+      case 'REPLACE':
+        return withLanguage(first, asString(first).replace(this.getRegex(asString(second), `${fourth ? asString(fourth) : ''}g`), asString(third).replace(/\$(\d)/g, '$$$1')));
+      case 'CONTAINS':
+        return createBoolean(asString(first).includes(asString(second)));
+      case 'STRSTARTS':
+        return createBoolean(asString(first).startsWith(asString(second)));
+      case 'STRENDS':
+        return createBoolean(asString(first).endsWith(asString(second)));
+      case 'STRBEFORE': {
+        const index = asString(first).indexOf(asString(second));
+        return index < 0 ? literal('') : withLanguage(first, asString(first).slice(0, index));
+      }
+      case 'STRAFTER': {
+        const index = asString(first).indexOf(asString(second));
+        return index < 0 ? literal('') : withLanguage(first, asString(first).slice(index + asString(second).length));
+      }
+      case 'SUBSTR': {
+        const characters = [...asString(first)];
+        const begin = Math.round(asNumber(second)) - 1;
+        const length = third ? Math.round(asNumber(third)) : characters.length;
+        return withLanguage(first, characters.slice(Math.max(begin, 0), Math.max(begin + length, 0)).join(''));
+      }
+      case 'STRLEN':
+        return literal(String([...asString(first)].length), `${XSD}integer`);
+      case 'UCASE':
+        return withLanguage(first, asString(first).toUpperCase());
+      case 'LCASE':
+        return withLanguage(first, asString(first).toLowerCase());
+      case 'CONCAT':
+        return literal(values.map(asString).join(''));
+      case 'ENCODE_FOR_URI':
+        return literal(encodeURIComponent(asString(first)).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`));
+      case 'ABS':
+      case 'ROUND':
+      case 'CEIL':
+      case 'FLOOR': {
+        const number = asLiteral(first);
+        if (!isNumeric(number)) {
+          throw new ExpressionError(`${name} needs a number`);
+        }
+        const operation = { ABS: Math.abs, ROUND: Math.round, CEIL: Math.ceil, FLOOR: Math.floor }[name];
+        return createNumber(operation(Number(number.value)), getNumericType(number.datatype));
+      }
+    }
+    throw new ExpressionError(`Unsupported function ${name}`);
+  }
+
+  protected evaluateAggregate(expression: Extract<SparqlExpression, { type: 'call' }>, group: SparqlSolution[]): RdfTerm {
+    if (expression.name === 'COUNT' && expression.args.length === 0) {
+      const solutions = expression.distinct ? distinct(group) : group;
+      return literal(String(solutions.length), `${XSD}integer`);
+    }
+    let values = group.map(solution => this.tryEvaluate(expression.args[0], solution)).filter((v): v is RdfTerm => v !== undefined);
+    if (expression.distinct) {
+      values = distinctTerms(values);
+    }
+    switch (expression.name) {
+      case 'COUNT':
+        return literal(String(values.length), `${XSD}integer`);
+      case 'SUM':
+      case 'AVG': {
+        if (values.some(v => !isNumeric(v))) {
+          throw new ExpressionError(`${expression.name} of a non-numeric value`);
+        }
+        const numbers = values as RdfLiteral[];
+        const datatype = numbers.map(v => getNumericType(v.datatype))
+          .reduce((x, y) => NUMERIC_RANKS.indexOf(x) >= NUMERIC_RANKS.indexOf(y) ? x : y, `${XSD}integer`);
+        const sum = numbers.reduce((total, v) => total + Number(v.value), 0);
+        if (expression.name === 'SUM') {
+          return createNumber(sum, datatype);
+        }
+        return numbers.length === 0
+          ? literal('0', `${XSD}integer`)
+          : createNumber(sum / numbers.length, datatype === `${XSD}integer` ? `${XSD}decimal` : datatype);
+      }
+      case 'MIN':
+      case 'MAX': {
+        if (values.length === 0) {
+          throw new ExpressionError(`${expression.name} of no value`);
+        }
+        const sign = expression.name === 'MIN' ? 1 : -1;
+        return values.reduce((best, v) => sign * compareForOrder(v, best) < 0 ? v : best);
+      }
+      case 'SAMPLE':
+        if (values.length === 0) {
+          throw new ExpressionError('SAMPLE of no value');
+        }
+        return values[0];
+      case 'GROUP_CONCAT':
+        return literal(values.map(asString).join(expression.separator ?? ' '));
+    }
+    throw new ExpressionError(`Unsupported aggregate ${expression.name}`);
+  }
+
+  protected getRegex(pattern: string, flags: string): RegExp {
+    const key = `${flags}/${pattern}`;
+    let regex = this.regexes.get(key);
+    if (!regex) {
+      try {
+        regex = new RegExp(pattern, [...new Set(flags.replace(/[^imsg]/g, ''))].join(''));
+      } catch {
+        throw new ExpressionError(`Invalid regular expression ${pattern}`);
+      }
+      this.regexes.set(key, regex);
+    }
+    return regex;
+  }
+}
+
+const NUMERIC_RANKS = [`${XSD}integer`, `${XSD}decimal`, `${XSD}float`, `${XSD}double`];
+
+function asLiteral(term: RdfTerm): RdfLiteral {
+  if (term.termType !== 'Literal') {
+    throw new ExpressionError(`Expected a literal but got ${termKey(term)}`);
+  }
+  return term;
+}
+
+/**
+ * The lexical form of a literal, for the functions on strings. IRIs are accepted too, as SPARQL
+ * engines commonly do, so that `CONTAINS(STR(?x), ...)` and `CONTAINS(?x, ...)` agree.
+ */
+function asString(term: RdfTerm): string {
+  if (term.termType === 'BlankNode') {
+    throw new ExpressionError('Expected a string but got a blank node');
+  }
+  return term.value;
+}
+
+function asIri(term: RdfTerm): string {
+  if (term.termType !== 'NamedNode') {
+    throw new ExpressionError(`Expected an IRI but got ${termKey(term)}`);
+  }
+  return term.value;
+}
+
+function asNumber(term: RdfTerm): number {
+  if (!isNumeric(term)) {
+    throw new ExpressionError(`Expected a number but got ${termKey(term)}`);
+  }
+  return Number(term.value);
+}
+
+function withLanguage(source: RdfTerm, value: string): RdfLiteral {
+  return source.termType === 'Literal' && source.language ? literal(value, undefined, source.language) : literal(value);
+}
+
+function getEffectiveBooleanValue(term: RdfTerm): boolean {
+  if (term.termType === 'Literal') {
+    if (term.datatype === `${XSD}boolean`) {
+      return term.value === 'true' || term.value === '1';
+    }
+    if (isStringLiteral(term)) {
+      return term.value.length > 0;
+    }
+    if (isNumeric(term)) {
+      const value = Number(term.value);
+      return !Number.isNaN(value) && value !== 0;
+    }
+  }
+  throw new ExpressionError(`${termKey(term)} has no boolean value`);
+}
+
+/**
+ * Compares two terms by value, for `<`, `>`, MIN and MAX; fails when the values are not comparable.
+ */
+function compareValues(a: RdfTerm, b: RdfTerm): number {
+  if (isNumeric(a) && isNumeric(b)) {
+    return Number(a.value) - Number(b.value);
+  }
+  if (a.termType === 'Literal' && b.termType === 'Literal') {
+    const comparable = (isStringLiteral(a) && isStringLiteral(b) && a.language === b.language)
+      || (a.datatype === b.datatype && [`${XSD}boolean`, `${XSD}dateTime`, `${XSD}date`, `${XSD}dateTimeStamp`].includes(a.datatype));
+    if (comparable) {
+      if (a.datatype.startsWith(`${XSD}date`)) {
+        return Date.parse(a.value) - Date.parse(b.value);
+      }
+      if (a.datatype === `${XSD}boolean`) {
+        return Number(getEffectiveBooleanValue(a)) - Number(getEffectiveBooleanValue(b));
+      }
+      return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+    }
+  }
+  throw new ExpressionError(`${termKey(a)} and ${termKey(b)} cannot be compared`);
+}
+
+function areEqual(a: RdfTerm, b: RdfTerm): boolean {
+  if (a.termType === 'Literal' && b.termType === 'Literal' && termKey(a) !== termKey(b)) {
+    try {
+      return compareValues(a, b) === 0;
+    } catch {
+      // Literals of unrelated types are different
+      return false;
+    }
+  }
+  return termKey(a) === termKey(b);
+}
+
+/**
+ * Orders any two terms, unbound first, then blank nodes, IRIs and literals, as ORDER BY does.
+ */
+function compareForOrder(a: RdfTerm | undefined, b: RdfTerm | undefined): number {
+  const rank = (term: RdfTerm | undefined) => !term ? 0 : term.termType === 'BlankNode' ? 1 : term.termType === 'NamedNode' ? 2 : 3;
+  if (!a || !b || a.termType !== b.termType) {
+    return rank(a) - rank(b);
+  }
+  if (a.termType === 'Literal') {
+    try {
+      return compareValues(a, b);
+    } catch {
+      // Fall back to the lexical forms for literals of unrelated types
+    }
+  }
+  return a.value < b.value ? -1 : a.value > b.value ? 1 : termKey(a) < termKey(b) ? -1 : termKey(a) > termKey(b) ? 1 : 0;
+}
+
+function cast(term: RdfTerm, datatype: string): RdfLiteral {
+  if (term.termType === 'BlankNode') {
+    throw new ExpressionError('Cannot cast a blank node');
+  }
+  const value = term.termType === 'Literal' && term.datatype === `${XSD}boolean` && datatype !== `${XSD}string`
+    ? (getEffectiveBooleanValue(term) ? '1' : '0')
+    : term.value.trim();
+  switch (datatype) {
+    case `${XSD}string`:
+      return literal(term.value);
+    case `${XSD}boolean`:
+      if (isNumeric(term)) {
+        return createBoolean(Number(term.value) !== 0);
+      }
+      if (!['true', 'false', '1', '0'].includes(value)) {
+        throw new ExpressionError(`Cannot cast '${value}' to xsd:boolean`);
+      }
+      return createBoolean(value === 'true' || value === '1');
+    case `${XSD}dateTime`:
+      if (Number.isNaN(Date.parse(value))) {
+        throw new ExpressionError(`Cannot cast '${value}' to xsd:dateTime`);
+      }
+      return literal(value, datatype);
+    default: {
+      const number = Number(value);
+      if (value === '' || Number.isNaN(number) || (datatype === `${XSD}integer` && !/^[+-]?\d+(\.0*)?$/.test(value) && !isNumeric(term))) {
+        throw new ExpressionError(`Cannot cast '${value}' to ${datatype.replace(XSD, 'xsd:')}`);
+      }
+      return createNumber(number, datatype);
+    }
+  }
+}
+
+// Solutions
+
+function solutionKey(solution: SparqlSolution, variables: string[]): string {
+  return variables.map(v => solution.has(v) ? termKey(solution.get(v)!) : '').join(' ');
+}
+
+function distinct(solutions: SparqlSolution[]): SparqlSolution[] {
+  const seen = new Set<string>();
+  return solutions.filter(solution => {
+    const variables = [...solution.keys()].sort();
+    const key = variables.map(v => `${v}=${termKey(solution.get(v)!)}`).join(' ');
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function distinctTerms<T extends RdfTerm>(terms: T[]): T[] {
+  return [...new Map(terms.map(term => [termKey(term), term])).values()];
+}
+
+function distinctPairs(pairs: [RdfTerm, RdfTerm][]): [RdfTerm, RdfTerm][] {
+  return [...new Map(pairs.map(pair => [`${termKey(pair[0])} ${termKey(pair[1])}`, pair])).values()];
+}
+
+function isCompatible(a: SparqlSolution, b: SparqlSolution): boolean {
+  for (const [variable, value] of b) {
+    const other = a.get(variable);
+    if (other && termKey(other) !== termKey(value)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function join(left: SparqlSolution[], right: SparqlSolution[]): SparqlSolution[] {
+  return left.flatMap(a => right.filter(b => isCompatible(a, b)).map(b => new Map([...a, ...b])));
+}
+
+function slice<T>(items: T[], offset = 0, limit?: number): T[] {
+  return items.slice(offset, limit === undefined ? undefined : offset + limit);
+}
+
+function hasAggregate(expression: SparqlExpression): boolean {
+  switch (expression.type) {
+    case 'call':
+      return SPARQL_AGGREGATES.has(expression.name) || expression.args.some(hasAggregate);
+    case 'operation':
+      return expression.args.some(hasAggregate);
+    default:
+      return false;
+  }
+}
+
+function invertPath(path: SparqlPropertyPath): SparqlPropertyPath {
+  switch (path.type) {
+    case 'link':
+      return { type: 'inverse', path };
+    case 'inverse':
+      return path.path;
+    case 'sequence':
+      return { type: 'sequence', paths: [...path.paths].reverse().map(invertPath) };
+    case 'alternative':
+      return { type: 'alternative', paths: path.paths.map(invertPath) };
+    case 'repeat':
+      return { type: 'repeat', path: invertPath(path.path), modifier: path.modifier };
+    case 'negated':
+      return { type: 'negated', forward: path.inverse, inverse: path.forward };
+  }
+}
+
+/**
+ * The variables a pattern binds, in order of appearance, without the hidden ones of blank nodes.
+ */
+function collectVariables(group: SparqlGroupPattern): string[] {
+  const variables = new Set<string>();
+  const addTerm = (term: SparqlVariableOrTerm | SparqlPropertyPath) => {
+    if (term.type === 'variable' && !term.name.startsWith('.')) {
+      variables.add(term.name);
+    }
+  };
+  const visit = (pattern: SparqlPattern) => {
+    switch (pattern.type) {
+      case 'group':
+        pattern.patterns.forEach(visit);
+        break;
+      case 'bgp':
+        pattern.triples.forEach(t => [t.subject, t.predicate, t.object].forEach(addTerm));
+        break;
+      case 'optional':
+        visit(pattern.pattern);
+        break;
+      case 'union':
+        pattern.patterns.forEach(visit);
+        break;
+      case 'bind':
+        variables.add(pattern.variable);
+        break;
+      case 'values':
+        pattern.variables.forEach(v => variables.add(v));
+        break;
+      case 'query':
+        (pattern.query.projections === '*' ? collectVariables(pattern.query.where) : pattern.query.projections.map(p => p.variable))
+          .forEach(v => variables.add(v));
+        break;
+    }
+  };
+  visit(group);
+  return [...variables];
+}
+
+// Results
+
+function compactIri(iri: string, prefixes: Record<string, string>): string {
+  let best: [string, string] | undefined;
+  for (const [prefix, namespace] of Object.entries(prefixes)) {
+    const local = iri.startsWith(namespace) ? iri.slice(namespace.length) : undefined;
+    if (local !== undefined && /^[A-Za-z0-9_][\w.-]*$|^$/.test(local) && !local.endsWith('.') && (!best || namespace.length > prefixes[best[0]].length)) {
+      best = [prefix, local];
+    }
+  }
+  return best ? `${best[0]}:${best[1]}` : `<${iri}>`;
+}
+
+/**
+ * Writes a term for display: IRIs with the given prefixes when possible, plain numbers and
+ * booleans, and quoted strings.
+ */
+export function formatSparqlTerm(term: RdfTerm | undefined, prefixes: Record<string, string> = {}): string {
+  if (!term) {
+    return '';
+  }
+  switch (term.termType) {
+    case 'NamedNode':
+      return compactIri(term.value, prefixes);
+    case 'BlankNode':
+      return `_:${term.value}`;
+    case 'Literal':
+      if (term.language) {
+        return `${JSON.stringify(term.value)}@${term.language}`;
+      }
+      if (term.datatype === `${XSD}boolean` || isNumeric(term as RdfTerm)) {
+        return term.value;
+      }
+      if (term.datatype === `${XSD}string`) {
+        return JSON.stringify(term.value);
+      }
+      return `${JSON.stringify(term.value)}^^${compactIri(term.datatype, prefixes)}`;
+  }
+}
+
+function toRows(result: SparqlResult): { variables: string[], rows: (RdfTerm | undefined)[][] } {
+  switch (result.type) {
+    case 'SELECT':
+      return { variables: result.variables, rows: result.solutions.map(s => result.variables.map(v => s.get(v))) };
+    case 'ASK':
+      return { variables: ['result'], rows: [[createBoolean(result.value)]] };
+    case 'CONSTRUCT':
+      return { variables: ['subject', 'predicate', 'object'], rows: result.graph.triples.map(t => [t.subject, t.predicate, t.object]) };
+  }
+}
+
+/**
+ * Formats a result as a Markdown table: the solutions of a SELECT, the triples of a CONSTRUCT, or
+ * the answer of an ASK. At most `maxRows` rows are written.
+ */
+export function formatSparqlTable(result: SparqlResult, prefixes: Record<string, string> = {}, maxRows = Infinity): string {
+  const { variables, rows } = toRows(result);
+  if (variables.length === 0) {
+    return `${rows.length} solution(s) without variables`;
+  }
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, '\\n');
+  const lines = [
+    `| ${variables.map(v => result.type === 'SELECT' ? `?${v}` : v).join(' | ')} |`,
+    `|${variables.map(() => '---').join('|')}|`,
+    ...rows.slice(0, maxRows).map(row => `| ${row.map(term => escape(formatSparqlTerm(term, prefixes))).join(' | ')} |`)
+  ];
+  if (rows.length > maxRows) {
+    lines.push('', `(${rows.length - maxRows} more row(s) not shown)`);
+  }
+  return lines.join('\n');
+}
+
+function toJsonTerm(term: RdfTerm): Record<string, string> {
+  switch (term.termType) {
+    case 'NamedNode':
+      return { type: 'uri', value: term.value };
+    case 'BlankNode':
+      return { type: 'bnode', value: term.value };
+    case 'Literal':
+      return term.language
+        ? { type: 'literal', value: term.value, 'xml:lang': term.language }
+        : { type: 'literal', value: term.value, datatype: term.datatype };
+  }
+}
+
+/**
+ * Converts a result to the SPARQL 1.1 Query Results JSON format. CONSTRUCT results, which that
+ * format does not cover, are given as bindings of `subject`, `predicate` and `object`.
+ */
+export function toSparqlJson(result: SparqlResult): object {
+  if (result.type === 'ASK') {
+    return { head: {}, boolean: result.value };
+  }
+  const { variables, rows } = toRows(result);
+  return {
+    head: { vars: variables },
+    results: {
+      bindings: rows.map(row => Object.fromEntries(row.flatMap((term, i) => term ? [[variables[i], toJsonTerm(term)]] : [])))
+    }
+  };
+}
+
@@ -1,6 +1,90 @@
-import type { ValidationAcceptor, ValidationChecks } from 'langium';
-import type { OmlAstType, Concept, Aspect, RelationEntity, Scalar, Element, Ontology, Import } from './generated/ast.js';
+import type { AstNode, Reference, ValidationAcceptor, ValidationChecks } from 'langium';
+import { diagnosticData, type DiagnosticData } from 'langium';
+import {
+    isBuiltInPredicate,
+    isDifferentFromPredicate,
+    isOntology,
+    isPropertyPredicate,
+    isRelationEntityPredicate,
+    isSameAsPredicate,
+    isScalar,
+    isScalarProperty,
+    isAnnotationProperty,
+    isTypePredicate
+} from './generated/ast.js';
+import type { OmlAstType, Concept, Aspect, RelationEntity, Scalar, Element, Ontology, Import, SpecializationAxiom, Vocabulary, Rule, Predicate, Argument, BuiltInPredicate } from './generated/ast.js';
 import type { OmlServices } from './oml-module.js';
+import { OntologyClosure, resolveMember } from './oml-semantics.js';
+
+/**
+ * Codes of OML diagnostics, for quick fixes (see OmlCodeActionProvider) and for telling
+ * the checks apart in validation reports.
+ */
+export const IssueCodes = {
+    ConceptNameCapital: 'concept-name-capital',
+    MissingImport: 'missing-import',
+    UnusedImport: 'unused-import',
+    InvalidImportKind: 'invalid-import-kind',
+    RedundantSpecialization: 'redundant-specialization',
+    SpecializationCycle: 'specialization-cycle',
+    RelationInstanceEnd: 'relation-instance-end',
+    PropertyDomain: 'property-domain',
+    PropertyRange: 'property-range',
+    PropertyValueKind: 'property-value-kind',
+    InvalidLiteral: 'invalid-literal',
+    RestrictionViolation: 'restriction-violation',
+    BuiltInInConsequent: 'built-in-in-consequent',
+    UnboundVariable: 'unbound-variable',
+    ArgumentKind: 'argument-kind',
+    BuiltInArity: 'built-in-arity'
+} as const;
+
+/**
+ * Diagnostic data attached to OML diagnostics, carrying what a quick fix needs.
+ */
+export interface OmlDiagnosticData extends DiagnosticData {
+    /** Namespace of the ontology to import (MissingImport) */
+    namespace?: string
+    /** Prefix of the ontology to import (MissingImport) */
+    prefix?: string
+    /** Import kind allowed between the two ontologies (InvalidImportKind) */
+    expectedKind?: string
+}
+
+/**
+ * Returns the import kind an ontology of `importingType` must use to import an ontology
+ * of `importedType`, or undefined when such an import is not allowed.
+ */
+export function getExpectedImportKind(importingType: string, importedType: string): 'extends' | 'uses' | 'includes' | undefined {
+    if (importingType === importedType) return 'extends';
+    switch (importingType) {
+        case 'Vocabulary':
+            return importedType === 'Description' ? 'uses' : undefined;
+        case 'VocabularyBundle':
+            return importedType === 'Vocabulary' ? 'includes' : undefined;
+        case 'Description':
+            return importedType === 'Vocabulary' ? 'uses' : undefined;
+        case 'DescriptionBundle':
+            if (importedType === 'Description') return 'includes';
+            return importedType === 'Vocabulary' || importedType === 'VocabularyBundle' ? 'uses' : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * Number of arguments of the SWRL built-ins, as [min, max]; max is omitted for variadic built-ins.
+ */
+const BUILTIN_ARITIES: Record<string, [number, number?]> = {
+    equal: [2, 2], notEqual: [2, 2],
+    lessThan: [2, 2], lessThanOrEqual: [2, 2], greaterThan: [2, 2], greaterThanOrEqual: [2, 2],
+    add: [2], subtract: [3, 3], multiply: [2], divide: [3, 3], integerDivide: [3, 3], mod: [3, 3], pow: [3, 3],
+    unaryPlus: [2, 2], unaryMinus: [2, 2], abs: [2, 2], ceiling: [2, 2], floor: [2, 2], round: [2, 2], roundHalfToEven: [2, 3],
+    sin: [2, 2], cos: [2, 2], tan: [2, 2], booleanNot: [2, 2],
+    stringEqualIgnoreCase: [2, 2], stringConcat: [1], substring: [3, 4], stringLength: [2, 2], normalizeSpace: [2, 2],
+    upperCase: [2, 2], lowerCase: [2, 2], translate: [4, 4], contains: [2, 2], containsIgnoreCase: [2, 2],
+    startsWith: [2, 2], endsWith: [2, 2], substringBefore: [3, 3], substringAfter: [3, 3],
+    matches: [2, 3], replace: [4, 5], tokenize: [3, 4]
+};
 
 /**
  * Register custom validation checks.
@@ -18,9 +102,17 @@ export function registerValidationChecks(services: OmlServices) {
         Scalar: [validator.checkScalarSpecializations],
         Element: [validator.checkImportedCrossReferences],
         Ontology: [validator.checkUnusedImports],
+        Vocabulary: [validator.checkSpecializationHierarchy],
+        Rule: [validator.checkRuleWellFormedness],
         Import: [validator.checkValidImports]
     };
     registry.register(checks, validator);
+
+    const instanceValidator = services.validation.OmlInstanceValidator;
+    const instanceChecks: ValidationChecks<OmlAstType> = {
+        Description: [instanceValidator.checkDescriptionInstances]
+    };
+    registry.register(instanceChecks, instanceValidator);
 }
 
 /**
@@ -32,7 +124,11 @@ export class OmlValidator {
         if (concept.name) {
             const firstChar = concept.name.substring(0, 1);
             if (firstChar.toUpperCase() !== firstChar) {
-                accept('warning', 'Concept name should start with a capital.', { node: concept, property: 'name' });
+                accept('warning', 'Concept name should start with a capital.', {
+                    node: concept,
+                    property: 'name',
+                    data: diagnosticData(IssueCodes.ConceptNameCapital)
+                });
             }
         }
     }
@@ -51,7 +147,11 @@ export class OmlValidator {
                 const refText: string | undefined = ref?.$refText;
                 if (!refText || !refText.startsWith('<')) return;
                 if (!this.isImportedIn(refText, ontology)) {
-                    accept('error', `Could not find an ontology import for term '${refText}'`, { node: element as any, property: key });
+                    accept('error', `Could not find an ontology import for term '${refText}'`, {
+                        node: element as any,
+                        property: key,
+                        data: { ...diagnosticData(IssueCodes.MissingImport), namespace: this.getNamespace(refText) } satisfies OmlDiagnosticData
+                    });
                 }
             };
             if (Array.isArray(value)) {
@@ -72,7 +172,11 @@ export class OmlValidator {
         const type = ontology?.$type;
         const importedType = imported?.$type;
 
-        const err = (msg: string) => accept('error', msg, { node: ownedImport });
+        const expectedKind = getExpectedImportKind(type, importedType);
+        const err = (msg: string) => accept('error', msg, {
+            node: ownedImport,
+            data: { ...diagnosticData(IssueCodes.InvalidImportKind), expectedKind } satisfies OmlDiagnosticData
+        });
 
         if (kind === 'extends') {
             if (type === importedType) return;
@@ -136,7 +240,8 @@ export class OmlValidator {
             if (ownedImport.prefix && !usedPrefixes.has(ownedImport.prefix)) {
                 accept('warning', `Could not find a reference to prefix '${ownedImport.prefix}'`, { 
                     node: ownedImport, 
-                    property: 'prefix' 
+                    property: 'prefix',
+                    data: diagnosticData(IssueCodes.UnusedImport)
                 });
             }
         }
@@ -177,6 +282,162 @@ export class OmlValidator {
         }
     }
 
+    /**
+     * Reports specialization cycles and redundant specializations, taking into account the
+     * specializations declared in imported vocabularies and by `ref` statements.
+     */
+    checkSpecializationHierarchy(vocabulary: Vocabulary, accept: ValidationAcceptor): void {
+        const closure = new OntologyClosure(vocabulary);
+        for (const statement of vocabulary.ownedStatements) {
+            const specializations: SpecializationAxiom[] = (statement as any).ownedSpecializations ?? [];
+            if (specializations.length === 0) continue;
+
+            const term = resolveMember(statement);
+            const directSuperTerms = closure.getDirectSuperTerms(term);
+            const seen = new Set<AstNode>();
+            for (const axiom of specializations) {
+                const superTerm = axiom.superTerm?.ref ? resolveMember(axiom.superTerm.ref) : undefined;
+                if (!superTerm) continue;
+
+                const path = this.findSpecializationPath(superTerm, term, closure);
+                if (path) {
+                    accept('error', `Specialization cycle: ${[term, ...path].map(getTermName).join(' < ')}`, {
+                        node: axiom,
+                        property: 'superTerm',
+                        data: diagnosticData(IssueCodes.SpecializationCycle)
+                    });
+                    continue;
+                }
+
+                const redundant = (message: string) => accept('warning', message, {
+                    node: axiom,
+                    property: 'superTerm',
+                    data: diagnosticData(IssueCodes.RedundantSpecialization)
+                });
+                const occurrences = directSuperTerms.filter(other => other === superTerm).length;
+                if (occurrences > 1 && (seen.has(superTerm) || (statement as any).ref)) {
+                    redundant(`'${getTermName(term)}' already specializes '${getTermName(superTerm)}'.`);
+                    continue;
+                }
+                seen.add(superTerm);
+
+                const implier = directSuperTerms.find(other =>
+                    other !== superTerm && closure.getSuperTerms(other).has(superTerm) && !closure.getSuperTerms(superTerm).has(other)
+                );
+                if (implier) {
+                    redundant(`Specialization of '${getTermName(superTerm)}' is redundant: it is implied by '${getTermName(implier)}'.`);
+                    continue;
+                }
+
+                // `S = A & B` makes every term that is already an A and a B an S, unless it is one
+                // only through S (those specializations are the redundant ones)
+                const alreadySpecializes = (candidate: AstNode) => candidate === term || directSuperTerms.some(other =>
+                    other !== superTerm && !closure.getSuperTerms(superTerm).has(other) && closure.getSuperTerms(other).has(candidate)
+                );
+                const equivalence = closure.getContributions(superTerm)
+                    .flatMap(member => (member as { ownedEquivalences?: AstNode[] }).ownedEquivalences ?? [])
+                    .find(equivalence => {
+                        const terms = getEquivalentTerms(equivalence);
+                        return isPlainEquivalence(equivalence) && terms.length > 0 && terms.every(t => t !== undefined && alreadySpecializes(t));
+                    });
+                if (equivalence) {
+                    redundant(`Specialization of '${getTermName(superTerm)}' is redundant: it is implied by the equivalence of '${getTermName(superTerm)}'.`);
+                }
+            }
+        }
+    }
+
+    /**
+     * Checks that a rule is safe and its predicates are well-formed: consequent variables are bound
+     * in the antecedent, built-ins have the right number of arguments and only appear in the
+     * antecedent, and each argument is used as an instance or as a literal consistently.
+     */
+    checkRuleWellFormedness(rule: Rule, accept: ValidationAcceptor): void {
+        const bound = new Set(rule.antecedent.flatMap(predicate => getArguments(predicate)).map(arg => arg.variable).filter(v => v !== undefined));
+        for (const predicate of rule.consequent) {
+            if (isBuiltInPredicate(predicate)) {
+                accept('error', 'Built-in predicates can only be used in the antecedent of a rule.', { node: predicate, data: diagnosticData(IssueCodes.BuiltInInConsequent) });
+            }
+            for (const argument of getArguments(predicate)) {
+                if (argument.variable && !bound.has(argument.variable)) {
+                    accept('error', `Variable '${argument.variable}' is not bound in the antecedent of rule '${rule.name ?? ''}'.`, {
+                        node: argument,
+                        property: 'variable',
+                        data: diagnosticData(IssueCodes.UnboundVariable)
+                    });
+                }
+            }
+        }
+
+        // Position of each variable: the instance or literal slot of a predicate
+        const usage = new Map<string, 'instance' | 'literal'>();
+        for (const predicate of [...rule.antecedent, ...rule.consequent]) {
+            if (isBuiltInPredicate(predicate)) {
+                this.checkBuiltInArity(predicate, accept);
+                continue;
+            }
+            for (const [argument, expected] of getArgumentSlots(predicate)) {
+                if (argument.literal && expected === 'instance') {
+                    accept('error', 'A literal cannot be used here: this argument must be an instance.', { node: argument, property: 'literal', data: diagnosticData(IssueCodes.ArgumentKind) });
+                } else if (argument.instance && expected === 'literal') {
+                    accept('error', 'An instance cannot be used here: this argument must be a literal.', { node: argument, property: 'instance', data: diagnosticData(IssueCodes.ArgumentKind) });
+                } else if (argument.variable && expected) {
+                    const previous = usage.get(argument.variable);
+                    if (previous && previous !== expected) {
+                        accept('error', `Variable '${argument.variable}' is used both as an instance and as a literal.`, {
+                            node: argument,
+                            property: 'variable',
+                            data: diagnosticData(IssueCodes.ArgumentKind)
+                        });
+                    }
+                    usage.set(argument.variable, previous ?? expected);
+                }
+            }
+        }
+    }
+
+    private checkBuiltInArity(predicate: BuiltInPredicate, accept: ValidationAcceptor): void {
+        const name = predicate.builtIn?.ref ? resolveMember(predicate.builtIn.ref).name : undefined;
+        const arity = name ? BUILTIN_ARITIES[name] : undefined;
+        if (!arity) return;
+        const [min, max] = arity;
+        const count = predicate.arguments.length;
+        if (count < min || (max !== undefined && count > max)) {
+            const expected = max === undefined ? `at least ${min}` : min === max ? `${min}` : `${min} to ${max}`;
+            accept('error', `Built-in '${name}' takes ${expected} argument(s), but ${count} ${count === 1 ? 'is' : 'are'} given.`, {
+                node: predicate,
+                property: 'arguments',
+                data: diagnosticData(IssueCodes.BuiltInArity)
+            });
+        }
+    }
+
+    /**
+     * Returns the shortest chain of specializations leading from `from` to `to`, if any.
+     * Equivalences are not followed: a term equivalent to its subterm is no cycle.
+     */
+    private findSpecializationPath(from: AstNode, to: AstNode, closure: OntologyClosure): AstNode[] | undefined {
+        const previous = new Map<AstNode, AstNode | undefined>([[from, undefined]]);
+        const queue: AstNode[] = [from];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            if (current === to) {
+                const path: AstNode[] = [];
+                for (let node: AstNode | undefined = current; node; node = previous.get(node)) {
+                    path.unshift(node);
+                }
+                return path;
+            }
+            for (const superTerm of closure.getDirectSuperTerms(current, false)) {
+                if (!previous.has(superTerm)) {
+                    previous.set(superTerm, current);
+                    queue.push(superTerm);
+                }
+            }
+        }
+        return undefined;
+    }
+
     private validateReference(ref: any, entity: any, accept: ValidationAcceptor): void {
         if (!ref) return;
 
@@ -206,6 +467,7 @@ export class OmlValidator {
             if (!importedPrefixes.has(prefix)) {
                 accept('error', `Prefix '${prefix}' is not imported. Use an import like: extends <namespace#> as ${prefix}`, {
                     node: entity,
+                    data: { ...diagnosticData(IssueCodes.MissingImport), prefix } satisfies OmlDiagnosticData
                 });
             }
         }
@@ -226,6 +488,7 @@ export class OmlValidator {
                 if (!hasImport) {
                     accept('error', `IRI namespace '${namespace}' is not imported. Use: extends <${namespace}#>`, {
                         node: entity,
+                        data: { ...diagnosticData(IssueCodes.MissingImport), namespace: this.getNamespace(refText) } satisfies OmlDiagnosticData
                     });
                 }
             }
@@ -283,19 +546,27 @@ export class OmlValidator {
 
     private getOntology(element: any): Ontology | null {
         let e: any = element;
-        while (e && e.$type !== 'Ontology') {
+        // Ontology is abstract: the container's $type is Vocabulary, Description, ...
+        while (e && !isOntology(e)) {
             e = e.$container;
         }
-        return e as Ontology | null;
+        return (e as Ontology | undefined) ?? null;
+    }
+
+    /**
+     * Namespace of an IRI reference, without '<' and with its trailing separator.
+     */
+    private getNamespace(iri: string): string | undefined {
+        let i = iri.lastIndexOf('#');
+        if (i === -1) i = iri.lastIndexOf('/');
+        return i !== -1 ? iri.substring(1, i + 1) : undefined;
     }
 
     private isImportedIn(iri: string, ontology: any): boolean {
         if (!ontology) return false;
         
-        let i = iri.lastIndexOf('#');
-        if (i === -1) i = iri.lastIndexOf('/');
-        if (i !== -1) {
-            const namespace = iri.substring(1, i + 1); // drop < and keep trailing sep
+        const namespace = this.getNamespace(iri);
+        if (namespace) {
             const normalizedNamespace = namespace.replace(/[#/]$/, '');
             
             // Check current ontology namespace
@@ -312,3 +583,52 @@ export class OmlValidator {
         return false;
     }
 }
+
+function getTermName(term: AstNode): string {
+    return (term as any).name ?? term.$type;
+}
+
+/**
+ * The terms an equivalence axiom equates its term with the intersection of (undefined
+ * for unresolved references).
+ */
+function getEquivalentTerms(equivalence: AstNode): (AstNode | undefined)[] {
+    return ((equivalence as { superTerms?: Reference<AstNode>[] }).superTerms ?? [])
+        .map(reference => reference.ref && resolveMember(reference.ref));
+}
+
+/**
+ * Whether an equivalence axiom only lists terms, without restrictions or facets.
+ */
+function isPlainEquivalence(equivalence: AstNode): boolean {
+    return Object.entries(equivalence)
+        .every(([key, value]) => key.startsWith('$') || key === 'superTerms' || !Array.isArray(value) || value.length === 0);
+}
+
+function getArguments(predicate: Predicate): Argument[] {
+    if (isBuiltInPredicate(predicate)) return predicate.arguments;
+    return getArgumentSlots(predicate).map(([argument]) => argument);
+}
+
+/**
+ * Returns the arguments of a predicate with the kind of value each one takes,
+ * or undefined when it can be either.
+ */
+function getArgumentSlots(predicate: Predicate): [Argument, 'instance' | 'literal' | undefined][] {
+    if (isTypePredicate(predicate)) {
+        const type = predicate.type?.ref;
+        return [[predicate.argument, type ? (isScalar(type) ? 'literal' : 'instance') : undefined]];
+    }
+    if (isRelationEntityPredicate(predicate)) {
+        return [[predicate.argument1, 'instance'], [predicate.argument, 'instance'], [predicate.argument2, 'instance']];
+    }
+    if (isPropertyPredicate(predicate)) {
+        const property = predicate.property?.ref;
+        const value = !property ? undefined : isScalarProperty(property) ? 'literal' : isAnnotationProperty(property) ? undefined : 'instance';
+        return [[predicate.argument1, 'instance'], [predicate.argument2, value]];
+    }
+    if (isSameAsPredicate(predicate) || isDifferentFromPredicate(predicate)) {
+        return [[predicate.argument1, 'instance'], [predicate.argument2, 'instance']];
+    }
+    return [];
+}
@@ -0,0 +1,103 @@
+import { EmptyFileSystem, TextDocument } from 'langium';
+import { clearDocuments, parseHelper, validationHelper } from 'langium/test';
+import { beforeAll, describe, expect, test } from 'vitest';
+import type { CodeAction } from 'vscode-languageserver-protocol';
+import { createOmlServices } from '../../src/oml-module.js';
+import { IssueCodes } from '../../src/oml-validator.js';
+
+const services = createOmlServices(EmptyFileSystem).Oml;
+const parse = parseHelper(services);
+const validate = validationHelper(services);
+
+beforeAll(async () => {
+    await parse(`vocabulary <http://example.com/base#> as base {
+    concept Thing
+}`);
+});
+
+/**
+ * Validates the text, applies the quick fix of its only diagnostic with the given code
+ * and returns the title of the fix and the fixed text.
+ */
+async function fix(text: string, code: string): Promise<{ title: string, text: string }> {
+    const { document, diagnostics } = await validate(text);
+    try {
+        const fixable = diagnostics.filter(diagnostic => diagnostic.data?.code === code);
+        expect(fixable).toHaveLength(1);
+        const uri = document.textDocument.uri;
+        const actions = await services.lsp.CodeActionProvider!.getCodeActions(document, {
+            textDocument: { uri },
+            range: fixable[0].range,
+            context: { diagnostics: fixable }
+        }) as CodeAction[];
+        expect(actions).toHaveLength(1);
+        return { title: actions[0].title, text: TextDocument.applyEdits(document.textDocument, actions[0].edit?.changes?.[uri] ?? []) };
+    } finally {
+        await clearDocuments(services, [document]);
+    }
+}
+
+describe('OML quick fixes', () => {
+
+    test('add the import of an unknown prefix', async () => {
+        expect(await fix(`vocabulary <http://example.com/v#> as v {
+    concept Car < base:Thing
+}`, IssueCodes.MissingImport)).toEqual({
+            title: 'Add import: extends <http://example.com/base#> as base',
+            text: `vocabulary <http://example.com/v#> as v {
+    extends <http://example.com/base#> as base
+    concept Car < base:Thing
+}`
+        });
+    });
+
+    test('add the import of an IRI namespace after the last import', async () => {
+        const { text } = await fix(`description <http://example.com/d#> as d {
+    uses <http://example.com/v#> as v
+    instance car : <http://example.com/base#Thing>
+}`, IssueCodes.MissingImport);
+        expect(text).toBe(`description <http://example.com/d#> as d {
+    uses <http://example.com/v#> as v
+    uses <http://example.com/base#> as base
+    instance car : <http://example.com/base#Thing>
+}`);
+    });
+
+    test('remove the line of an unused import', async () => {
+        expect(await fix(`vocabulary <http://example.com/v#> as v {
+    extends <http://example.com/base#> as base
+    concept Car
+}`, IssueCodes.UnusedImport)).toEqual({
+            title: `Remove unused import of 'base'`,
+            text: `vocabulary <http://example.com/v#> as v {
+    concept Car
+}`
+        });
+    });
+
+    test('capitalize a concept name and its references', async () => {
+        expect(await fix(`vocabulary <http://example.com/v#> as v {
+    concept car
+    concept Racer < car, v:car
+}`, IssueCodes.ConceptNameCapital)).toEqual({
+            title: `Rename 'car' to 'Car'`,
+            text: `vocabulary <http://example.com/v#> as v {
+    concept Car
+    concept Racer < Car, v:Car
+}`
+        });
+    });
+
+    test('change the kind of an import', async () => {
+        expect(await fix(`description <http://example.com/d#> as d {
+    extends <http://example.com/base#> as base
+    instance car : base:Thing
+}`, IssueCodes.InvalidImportKind)).toEqual({
+            title: `Change 'extends' to 'uses'`,
+            text: `description <http://example.com/d#> as d {
+    uses <http://example.com/base#> as base
+    instance car : base:Thing
+}`
+        });
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'vitest';
+import { diffOntologies, parseOntologySources } from '../../src/oml-diff.js';
+import type { OntologySource } from '../../src/oml-diff.js';
+
+const base: OntologySource = {
+    path: 'base.oml',
+    text: `vocabulary <http://example.com/base#> as base {
+    concept Thing
+}`
+};
+
+function vocabulary(body: string): OntologySource {
+    return {
+        path: 'v.oml',
+        text: `vocabulary <http://example.com/v#> as v {
+    extends <http://example.com/base#> as base
+    ${body}
+}`
+    };
+}
+
+async function diff(oldSources: OntologySource[], newSources: OntologySource[]) {
+    const oldVersion = await parseOntologySources(oldSources);
+    const newVersion = await parseOntologySources(newSources);
+    expect([...oldVersion.errors, ...newVersion.errors]).toEqual([]);
+    return diffOntologies(oldVersion.ontologies, newVersion.ontologies);
+}
+
+describe('Semantic diff', () => {
+
+    test('reports a replaced specialization as removed and added', async () => {
+        const result = await diff([base, vocabulary('concept A < base:Thing\n    concept B')], [base, vocabulary('concept A < v:B\n    concept B')]);
+        expect(result.changes).toEqual([
+            expect.objectContaining({ change: 'removed', element: 'axiom', member: 'v:A', before: 'base:Thing', breaking: ['specialization'] }),
+            expect.objectContaining({ change: 'added', element: 'axiom', member: 'v:A', after: 'v:B' })
+        ]);
+    });
+
+    test('ignores reordering and reformatting', async () => {
+        const result = await diff([base, vocabulary('concept A < base:Thing\n    concept B')], [base, vocabulary('concept B\n\n    concept   A   <   base:Thing')]);
+        expect(result.changes).toEqual([]);
+    });
+
+    test('compares references that resolve in one version only as written', async () => {
+        const result = await diff([base, vocabulary('concept A < base:Thing')], [vocabulary('concept A < base:Thing')]);
+        expect(result.changes).toEqual([
+            expect.objectContaining({ change: 'removed', element: 'ontology', ontology: 'http://example.com/base#' })
+        ]);
+    });
+
+    test('reports a reference that is written differently', async () => {
+        const result = await diff([base, vocabulary('concept A < base:Thing')], [vocabulary('concept A < base:Other')]);
+        expect(result.changes.filter(change => change.member === 'v:A')).toEqual([
+            expect.objectContaining({ change: 'removed', before: 'base:Thing' }),
+            expect.objectContaining({ change: 'added', after: 'base:Other' })
+        ]);
+    });
+});
@@ -0,0 +1,116 @@
+import { EmptyFileSystem } from 'langium';
+import { clearDocuments, parseHelper } from 'langium/test';
+import { describe, expect, test } from 'vitest';
+import { formatOmlDocument } from '../../src/oml-formatter.js';
+import { createOmlServices } from '../../src/oml-module.js';
+
+const services = createOmlServices(EmptyFileSystem).Oml;
+const parse = parseHelper(services);
+
+async function format(text: string): Promise<string> {
+    const document = await parse(text);
+    expect(document.parseResult.parserErrors).toEqual([]);
+    try {
+        return await formatOmlDocument(services, document);
+    } finally {
+        await clearDocuments(services, [document]);
+    }
+}
+
+const SAMPLES: Record<string, string> = {
+    vocabulary: `@dc:title "Vehicles"   vocabulary <http://example.com/v#> as v {
+  extends <http://purl.org/dc/elements/1.1/> as dc
+      // Things with wheels
+  concept Vehicle [ key id ] < Thing [ restricts all hasPart to Part restricts hasPart to min 1 Part ]
+  @dc:description 'A part' concept Part
+  aspect Thing
+  relation entity HasPart [ from Vehicle to Part forward hasPart reverse isPartOf functional ]
+  scalar Size [ oneOf "S" , "M" ]
+  scalar property id [ domain Vehicle range Size functional ]
+  rule parts [ Vehicle(x) & hasPart(x,y) -> Part(y) ]
+}`,
+    description: `description <http://example.com/d#> as d {
+uses <http://example.com/v#> as v
+instance car : v:Vehicle [ v:id "S" v:hasPart wheel , [ v:id "M" ] ]
+instance wheel : v:Part
+relation instance link : v:HasPart [ from car to wheel ]
+}`,
+    bundle: `vocabulary bundle <http://example.com/b#> as b {
+includes <http://example.com/v#>   as v
+}`
+};
+
+describe('OML formatter', () => {
+
+    test('puts statements, block members and annotations on lines of their own', async () => {
+        expect(await format(SAMPLES.vocabulary)).toBe(`@dc:title "Vehicles"
+vocabulary <http://example.com/v#> as v {
+    extends <http://purl.org/dc/elements/1.1/> as dc
+
+    // Things with wheels
+    concept Vehicle [
+        key id
+    ] < Thing [
+        restricts all hasPart to Part
+        restricts hasPart to min 1 Part
+    ]
+
+    @dc:description 'A part'
+    concept Part
+
+    aspect Thing
+
+    relation entity HasPart [
+        from Vehicle
+        to Part
+        forward hasPart
+        reverse isPartOf
+        functional
+    ]
+
+    scalar Size [
+        oneOf "S", "M"
+    ]
+
+    scalar property id [
+        domain Vehicle
+        range Size
+        functional
+    ]
+
+    rule parts [
+        Vehicle(x) & hasPart(x, y) -> Part(y)
+    ]
+}`);
+    });
+
+    test('indents nested anonymous instances', async () => {
+        expect(await format(SAMPLES.description)).toBe(`description <http://example.com/d#> as d {
+    uses <http://example.com/v#> as v
+
+    instance car : v:Vehicle [
+        v:id "S"
+        v:hasPart wheel, [
+            v:id "M"
+        ]
+    ]
+
+    instance wheel : v:Part
+
+    relation instance link : v:HasPart [
+        from car
+        to wheel
+    ]
+}`);
+    });
+
+    test.each(Object.keys(SAMPLES))('leaves the formatted %s sample unchanged', async name => {
+        const formatted = await format(SAMPLES[name]);
+        expect(await format(formatted)).toBe(formatted);
+    });
+
+    test('keeps CRLF line endings', async () => {
+        const formatted = await format(SAMPLES.bundle.replace(/\n/g, '\r\n'));
+        expect(formatted).toBe('vocabulary bundle <http://example.com/b#> as b {\r\n    includes <http://example.com/v#> as v\r\n}');
+    });
+});
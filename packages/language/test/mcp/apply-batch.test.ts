@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, test } from 'vitest';
+import { applyBatchHandler } from '../../src/mcp/tools/ontology/apply-batch.js';
+import { createTestWorkspace, getResultText } from './test-workspace.js';
+import type { TestWorkspace } from './test-workspace.js';
+
+const VOCABULARY = `vocabulary <http://example.com/v#> as v {
+
+    concept Component
+}
+`;
+
+let workspace: TestWorkspace;
+
+afterEach(() => workspace.dispose());
+
+describe('apply_batch', () => {
+
+    test('applies all operations and writes the result', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        const ontology = workspace.path('v.oml');
+        const result = await applyBatchHandler({
+            operations: [
+                { tool: 'create_concept', params: { ontology, name: 'Pump' } },
+                { tool: 'add_specialization', params: { ontology, term: 'Pump', superTerms: ['Component'] } }
+            ],
+            dryRun: false
+        });
+        expect(result.isError).toBeFalsy();
+        expect(getResultText(result)).toContain('Applied 2 operation(s) and validated the result');
+        expect(workspace.read('v.oml')).toContain('concept Pump < Component');
+    });
+
+    test('leaves all files unchanged when a later operation fails', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        const ontology = workspace.path('v.oml');
+        const result = await applyBatchHandler({
+            operations: [
+                { tool: 'create_concept', params: { ontology, name: 'Pump' } },
+                { tool: 'add_specialization', params: { ontology, term: 'Missing', superTerms: ['Component'] } }
+            ],
+            dryRun: false
+        });
+        expect(result.isError).toBe(true);
+        expect(getResultText(result)).toContain('Operation 2 of 2 (add_specialization) failed');
+        expect(getResultText(result)).toContain('No files were changed.');
+        expect(workspace.read('v.oml')).toBe(VOCABULARY);
+    });
+
+    test('leaves all files unchanged when the result has validation errors', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        const ontology = workspace.path('v.oml');
+        const result = await applyBatchHandler({
+            operations: [
+                { tool: 'create_concept', params: { ontology, name: 'Pump', superTerms: ['Component'] } },
+                { tool: 'add_specialization', params: { ontology, term: 'Component', superTerms: ['Pump'] } }
+            ],
+            dryRun: false
+        });
+        expect(result.isError).toBe(true);
+        expect(getResultText(result)).toContain('the result has validation errors');
+        expect(getResultText(result)).toContain('Specialization cycle: Component < Pump < Component');
+        expect(workspace.read('v.oml')).toBe(VOCABULARY);
+    });
+
+    test('checks the parameters of every operation before running any', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        const ontology = workspace.path('v.oml');
+        const result = await applyBatchHandler({
+            operations: [
+                { tool: 'create_concept', params: { ontology, name: 'Pump' } },
+                { tool: 'delete_term', params: { ontology, name: 'Component' } }
+            ],
+            dryRun: false
+        });
+        expect(result.isError).toBe(true);
+        expect(getResultText(result)).toContain('Operation 2 (delete_term): invalid parameters');
+        expect(workspace.read('v.oml')).toBe(VOCABULARY);
+    });
+
+    test('reports the diff of a dry run without writing', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        const ontology = workspace.path('v.oml');
+        const result = await applyBatchHandler({
+            operations: [
+                { tool: 'create_concept', params: { ontology, name: 'Pump' } },
+                { tool: 'add_specialization', params: { ontology, term: 'Pump', superTerms: ['Component'] } }
+            ],
+            dryRun: true
+        });
+        expect(result.isError).toBeFalsy();
+        expect(getResultText(result)).toContain('+++ b/v.oml');
+        expect(getResultText(result)).toContain('+    concept Pump < Component');
+        expect(getResultText(result)).toContain('Nothing was written.');
+        expect(workspace.read('v.oml')).toBe(VOCABULARY);
+    });
+});
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, test } from 'vitest';
+import { changeJournal } from '../../src/mcp/services/index.js';
+import { listChangeHistoryHandler } from '../../src/mcp/tools/history/list-change-history.js';
+import { redoChangeHandler } from '../../src/mcp/tools/history/redo-change.js';
+import { undoLastChangeHandler } from '../../src/mcp/tools/history/undo-last-change.js';
+import { createOntologyHandler } from '../../src/mcp/tools/ontology/create-ontology.js';
+import { createConceptHandler } from '../../src/mcp/tools/terms/create-concept.js';
+import { createTestWorkspace, getResultText } from './test-workspace.js';
+import type { TestWorkspace } from './test-workspace.js';
+
+const VOCABULARY = `vocabulary <http://example.com/v#> as v {
+
+    concept Component
+}
+`;
+
+let workspace: TestWorkspace;
+
+afterEach(() => workspace.dispose());
+
+/**
+ * Creates a concept in v.oml, recorded the way the server records tool calls.
+ */
+async function createConcept(name: string) {
+    const params = { ontology: workspace.path('v.oml'), name };
+    const result = await changeJournal.record('create_concept', params, () => createConceptHandler(params));
+    expect(result.isError).toBeFalsy();
+}
+
+describe('Change history', () => {
+
+    test('undoes and redoes a change', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        await createConcept('Pump');
+        const changed = workspace.read('v.oml');
+        expect(changed).toContain('concept Pump');
+
+        expect(getResultText(await undoLastChangeHandler({}))).toContain('Undid change #1 create_concept');
+        expect(workspace.read('v.oml')).toBe(VOCABULARY);
+        expect(getResultText(await listChangeHistoryHandler({}))).toMatch(/Undoable changes \(0[^]*Redoable changes \(1[^]*modified: v\.oml/);
+
+        expect(getResultText(await redoChangeHandler({}))).toContain('Redid change #1 create_concept');
+        expect(workspace.read('v.oml')).toBe(changed);
+        expect(getResultText(await listChangeHistoryHandler({}))).toMatch(/Undoable changes \(1[^]*Redoable changes \(0/);
+    });
+
+    test('steps back through several changes, most recent first', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        await createConcept('Pump');
+        const afterPump = workspace.read('v.oml');
+        await createConcept('Valve');
+
+        await undoLastChangeHandler({});
+        expect(workspace.read('v.oml')).toBe(afterPump);
+        await undoLastChangeHandler({});
+        expect(workspace.read('v.oml')).toBe(VOCABULARY);
+
+        const result = await undoLastChangeHandler({});
+        expect(result.isError).toBe(true);
+        expect(getResultText(result)).toBe('There is no change to undo.');
+    });
+
+    test('deletes the files a change created when it is undone', async () => {
+        workspace = createTestWorkspace({});
+        const params = { filePath: workspace.path('p.oml'), kind: 'vocabulary' as const, namespace: 'http://example.com/p#', prefix: 'p' };
+        await changeJournal.record('create_ontology', params, () => createOntologyHandler(params));
+        expect(workspace.read('p.oml')).not.toBeNull();
+
+        await undoLastChangeHandler({});
+        expect(workspace.read('p.oml')).toBeNull();
+        await redoChangeHandler({});
+        expect(workspace.read('p.oml')).toContain('vocabulary <http://example.com/p#> as p');
+    });
+
+    test('refuses to undo over later edits unless forced', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        await createConcept('Pump');
+        const edited = workspace.read('v.oml')!.replace('concept Component', 'concept Part');
+        workspace.write('v.oml', edited);
+
+        const refused = await undoLastChangeHandler({});
+        expect(refused.isError).toBe(true);
+        expect(getResultText(refused)).toContain('these files were edited since:\n  • v.oml');
+        expect(workspace.read('v.oml')).toBe(edited);
+
+        await undoLastChangeHandler({ force: true });
+        expect(workspace.read('v.oml')).toBe(VOCABULARY);
+    });
+
+    test('clears the changes that can be redone when a new change is made', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        await createConcept('Pump');
+        await undoLastChangeHandler({});
+        await createConcept('Valve');
+
+        const result = await redoChangeHandler({});
+        expect(result.isError).toBe(true);
+        expect(getResultText(result)).toBe('There is no undone change to redo.');
+        expect(workspace.read('v.oml')).toContain('concept Valve');
+        expect(workspace.read('v.oml')).not.toContain('concept Pump');
+    });
+});
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, test } from 'vitest';
+import { allTools } from '../../src/mcp/tools/index.js';
+import { createTestWorkspace, getResultText } from './test-workspace.js';
+import type { TestWorkspace } from './test-workspace.js';
+
+const VOCABULARY = `vocabulary <http://example.com/v#> as v {
+
+    concept Component
+}
+`;
+
+let workspace: TestWorkspace;
+
+afterEach(() => workspace.dispose());
+
+/**
+ * Calls a tool as it is registered with the server.
+ */
+async function callTool(name: string, params: Record<string, unknown>) {
+    const registration = allTools.find(registration => registration.tool.name === name)!;
+    return await registration.handler(params);
+}
+
+describe('Dry runs', () => {
+
+    test('report the unified diff of the change without writing', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        const result = await callTool('create_concept', { ontology: workspace.path('v.oml'), name: 'Pump', superTerms: ['Component'], dryRun: true });
+        const text = getResultText(result);
+        expect(text).toContain('Dry run of create_concept');
+        expect(text).toContain('--- a/v.oml\n+++ b/v.oml\n');
+        expect(text).toContain('\n+    concept Pump < Component\n');
+        expect(text).toContain('✓ Validation passed');
+        expect(text).toContain('Nothing was written. Call create_concept again without dryRun');
+        expect(workspace.read('v.oml')).toBe(VOCABULARY);
+    });
+
+    test('are the default in the confirm mode', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        const result = await callTool('create_concept', { ontology: workspace.path('v.oml'), name: 'Pump' });
+        expect(getResultText(result)).toContain('dry run is the default in confirm mode');
+        expect(workspace.read('v.oml')).toBe(VOCABULARY);
+    });
+
+    test('write the change when turned off', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        const result = await callTool('create_concept', { ontology: workspace.path('v.oml'), name: 'Pump', dryRun: false });
+        expect(getResultText(result)).not.toContain('Dry run');
+        expect(workspace.read('v.oml')).toContain('concept Pump');
+    });
+
+    test('show files the change would create', async () => {
+        workspace = createTestWorkspace({});
+        const result = await callTool('create_ontology', { filePath: workspace.path('p.oml'), kind: 'vocabulary', namespace: 'http://example.com/p#', prefix: 'p', dryRun: true });
+        expect(getResultText(result)).toContain('+++ b/p.oml\n@@ -1,1 +1,5 @@\n+vocabulary <http://example.com/p#> as p {');
+        expect(workspace.read('p.oml')).toBeNull();
+    });
+
+    test('report the validation errors of the result', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY.replace('concept Component', 'concept Component\n\n    concept Pump < Component') });
+        const result = await callTool('add_specialization', { ontology: workspace.path('v.oml'), term: 'Component', superTerms: ['Pump'], dryRun: true });
+        const text = getResultText(result);
+        expect(text).toContain('\n-    concept Component\n+    concept Component < Pump\n');
+        expect(text).toContain('⚠ Validation errors in the result:\nv.oml:\n');
+        expect(text).toContain('Specialization cycle: Component < Pump < Component');
+    });
+
+    test('return the error of a failing call as is', async () => {
+        workspace = createTestWorkspace({ 'v.oml': VOCABULARY });
+        const result = await callTool('delete_term', { ontology: workspace.path('v.oml'), term: 'Missing', dryRun: true });
+        expect(result.isError).toBe(true);
+        expect(getResultText(result)).toBe('Term "Missing" was not found in the vocabulary.');
+    });
+
+    test('are only offered by tools that change ontologies', () => {
+        const schemaOf = (name: string) => allTools.find(registration => registration.tool.name === name)!.tool.paramsSchema as object;
+        expect(schemaOf('create_concept')).toHaveProperty('dryRun');
+        expect(schemaOf('validate_oml')).not.toHaveProperty('dryRun');
+        expect(schemaOf('undo_last_change')).not.toHaveProperty('dryRun');
+    });
+});
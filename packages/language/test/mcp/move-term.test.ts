@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, test } from 'vitest';
+import { moveTermHandler } from '../../src/mcp/tools/terms/move-term.js';
+import { createTestWorkspace, getResultText } from './test-workspace.js';
+import type { TestWorkspace } from './test-workspace.js';
+
+const BASE = `vocabulary <http://example.com/base#> as base {
+
+    concept Component
+
+    concept Pump < Component
+}
+`;
+
+const MECHANICAL = `vocabulary <http://example.com/mechanical#> as mechanical {
+}
+`;
+
+let workspace: TestWorkspace;
+
+afterEach(() => workspace.dispose());
+
+/**
+ * Moves Pump from base.oml to mechanical.oml.
+ */
+async function movePump() {
+    return await moveTermHandler({ ontology: workspace.path('base.oml'), term: 'Pump', targetOntology: workspace.path('mechanical.oml') });
+}
+
+describe('move_term', () => {
+
+    test('moves the declaration and qualifies the references it keeps to the source', async () => {
+        workspace = createTestWorkspace({ 'base.oml': BASE, 'mechanical.oml': MECHANICAL });
+        const result = await movePump();
+        expect(getResultText(result)).toContain('Moved Concept "Pump" from base.oml to mechanical.oml');
+        expect(workspace.read('base.oml')).not.toContain('Pump');
+        expect(workspace.read('mechanical.oml')).toBe(`vocabulary <http://example.com/mechanical#> as mechanical {
+    extends <http://example.com/base#> as base
+
+    concept Pump < base:Component
+}
+`);
+    });
+
+    test('rewrites qualified references and replaces imports only needed for the term', async () => {
+        workspace = createTestWorkspace({ 'base.oml': BASE, 'mechanical.oml': MECHANICAL, 'plant.oml': `description <http://example.com/plant#> as plant {
+
+    uses <http://example.com/base#> as base
+
+    instance p1 : base:Pump
+}
+` });
+        await movePump();
+        expect(workspace.read('plant.oml')).toBe(`description <http://example.com/plant#> as plant {
+
+    uses <http://example.com/mechanical#> as mechanical
+
+    instance p1 : mechanical:Pump
+}
+`);
+    });
+
+    test('rewrites full IRI references and keeps imports still in use', async () => {
+        workspace = createTestWorkspace({ 'base.oml': BASE, 'mechanical.oml': MECHANICAL, 'other.oml': `vocabulary <http://example.com/other#> as other {
+
+    extends <http://example.com/base#> as base
+
+    concept BigPump < <http://example.com/base#Pump>
+
+    concept Part < base:Component
+}
+` });
+        await movePump();
+        expect(workspace.read('other.oml')).toBe(`vocabulary <http://example.com/other#> as other {
+
+    extends <http://example.com/base#> as base
+    extends <http://example.com/mechanical#> as mechanical
+
+    concept BigPump < <http://example.com/mechanical#Pump>
+
+    concept Part < base:Component
+}
+`);
+    });
+
+    test('refuses moves that would create an import cycle', async () => {
+        const base = BASE.replace('concept Pump < Component', 'concept Pump < Component\n\n    concept Valve < Pump');
+        workspace = createTestWorkspace({ 'base.oml': base, 'mechanical.oml': MECHANICAL });
+        const result = await movePump();
+        expect(result.isError).toBe(true);
+        expect(getResultText(result)).toContain('creating an import cycle:\n  <http://example.com/mechanical#> → <http://example.com/base#> → <http://example.com/mechanical#>');
+        expect(workspace.read('base.oml')).toBe(base);
+        expect(workspace.read('mechanical.oml')).toBe(MECHANICAL);
+    });
+
+    test('refuses to move a term the target already declares', async () => {
+        const mechanical = MECHANICAL.replace('{\n', '{\n    concept Pump\n');
+        workspace = createTestWorkspace({ 'base.oml': BASE, 'mechanical.oml': mechanical });
+        const result = await movePump();
+        expect(result.isError).toBe(true);
+        expect(getResultText(result)).toBe('The target vocabulary already declares "Pump".');
+        expect(workspace.read('base.oml')).toBe(BASE);
+        expect(workspace.read('mechanical.oml')).toBe(mechanical);
+    });
+});
@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { vi } from 'vitest';
+import { clearDocumentCache, resetOmlServices } from '../../src/mcp/services/index.js';
+
+/**
+ * A temporary workspace the MCP tools run in.
+ */
+export interface TestWorkspace {
+    root: string;
+    /** Absolute path of a workspace file */
+    path(name: string): string;
+    /** Content of a workspace file, or null if it does not exist */
+    read(name: string): string | null;
+    write(name: string, text: string): void;
+    dispose(): void;
+}
+
+/**
+ * Creates a workspace with the given files and makes it the workspace of the MCP tools,
+ * with fresh language services so that no documents of another workspace are linked to.
+ */
+export function createTestWorkspace(files: Record<string, string>): TestWorkspace {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'oml-mcp-'));
+    const previousRoot = process.env.OML_WORKSPACE_ROOT;
+    process.env.OML_WORKSPACE_ROOT = root;
+    resetOmlServices();
+    clearDocumentCache();
+    // The tools tell the editor about the files they write, and log that it is not running
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const workspace: TestWorkspace = {
+        root,
+        path: name => path.join(root, name),
+        read: name => fs.existsSync(path.join(root, name)) ? fs.readFileSync(path.join(root, name), 'utf-8') : null,
+        write: (name, text) => {
+            fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+            fs.writeFileSync(path.join(root, name), text);
+        },
+        dispose: () => {
+            consoleError.mockRestore();
+            process.env.OML_WORKSPACE_ROOT = previousRoot;
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    };
+    for (const [name, text] of Object.entries(files)) {
+        workspace.write(name, text);
+    }
+    return workspace;
+}
+
+/**
+ * The text of a tool result.
+ */
+export function getResultText(result: { content: { text: string }[] }): string {
+    return result.content.map(content => content.text).join('\n');
+}
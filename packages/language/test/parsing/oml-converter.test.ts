@@ -0,0 +1,59 @@
+import { EmptyFileSystem } from 'langium';
+import { parseHelper } from 'langium/test';
+import { describe, expect, test } from 'vitest';
+import type { QuotedLiteral, Vocabulary } from '../../src/generated/ast.js';
+import { formatLiteral } from '../../src/mcp/tools/common.js';
+import { createOmlServices } from '../../src/oml-module.js';
+
+const services = createOmlServices(EmptyFileSystem).Oml;
+const parse = parseHelper<Vocabulary>(services);
+
+/**
+ * Parses the given literal as the value of an annotation and returns the value it reads back as.
+ */
+async function readBack(literal: string): Promise<string> {
+    const document = await parse(`vocabulary <http://example.com/v#> as v {
+    annotation property note
+    @note ${literal}
+    concept C
+}`);
+    expect(document.parseResult.lexerErrors).toEqual([]);
+    expect(document.parseResult.parserErrors).toEqual([]);
+    const annotation = document.parseResult.value.ownedStatements[1].ownedAnnotations[0];
+    return (annotation.literalValues[0] as QuotedLiteral).value;
+}
+
+describe('STRING value conversion', () => {
+
+    test('reads backslash escapes', async () => {
+        expect(await readBack('"a\\tb\\\\c\\n"')).toBe('a\tb\\c\n');
+    });
+
+    test('removes the whole delimiter of triple-quoted strings', async () => {
+        expect(await readBack('"""he said "hi" it\'s"""')).toBe('he said "hi" it\'s');
+        expect(await readBack("'''it's \"quoted\"'''")).toBe('it\'s "quoted"');
+        expect(await readBack('""""""')).toBe('');
+    });
+});
+
+describe('Quoted literal formatting', () => {
+
+    const values = [
+        'plain',
+        'C:\\temp\\new',
+        'he said "hi" it\'s',
+        'ends with a "quote"',
+        'it\'s "quoted" twice: """ and \'\'\'',
+        '"\'both\'"',
+        'trailing backslash \\'
+    ];
+
+    test.each(values)('round-trips %s', async value => {
+        expect(await readBack(formatLiteral({ type: 'quoted', value }))).toBe(value);
+    });
+
+    test('keeps the type and language tag', () => {
+        expect(formatLiteral({ type: 'quoted', value: 'x', scalarType: 'xsd:string' })).toBe('"x"^^xsd:string');
+        expect(formatLiteral({ type: 'quoted', value: 'x', langTag: 'en' })).toBe('"x"$en');
+    });
+});
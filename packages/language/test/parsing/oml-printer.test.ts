@@ -0,0 +1,50 @@
+import { EmptyFileSystem } from 'langium';
+import { parseHelper } from 'langium/test';
+import { describe, expect, test } from 'vitest';
+import { isQuotedLiteral, isScalar } from '../../src/generated/ast.js';
+import type { Vocabulary } from '../../src/generated/ast.js';
+import { formatLiteral } from '../../src/mcp/tools/common.js';
+import { printVocabulary } from '../../src/mcp/tools/terms/oml-printer.js';
+import { createOmlServices } from '../../src/oml-module.js';
+
+const services = createOmlServices(EmptyFileSystem).Oml;
+const parse = parseHelper<Vocabulary>(services);
+
+async function parseVocabulary(text: string): Promise<Vocabulary> {
+    const document = await parse(text);
+    expect(document.parseResult.lexerErrors).toEqual([]);
+    expect(document.parseResult.parserErrors).toEqual([]);
+    return document.parseResult.value;
+}
+
+/**
+ * The values of the quoted literals and patterns of a vocabulary, in order.
+ */
+function getStrings(vocabulary: Vocabulary): string[] {
+    return vocabulary.ownedStatements.flatMap(statement => [
+        ...statement.ownedAnnotations.flatMap(annotation => annotation.literalValues.filter(isQuotedLiteral).map(literal => literal.value)),
+        ...(isScalar(statement) ? statement.ownedEquivalences.flatMap(equivalence => equivalence.pattern ?? []) : [])
+    ]);
+}
+
+describe('OML printer', () => {
+
+    test('prints strings that read back unchanged, quoted like formatLiteral', async () => {
+        const values = ['C:\\temp\\new', 'he said "hi" it\'s', 'ends with a "quote"'];
+        const vocabulary = await parseVocabulary(`vocabulary <http://example.com/v#> as v {
+    annotation property note
+    ${values.map(value => `@note ${formatLiteral({ type: 'quoted', value })}`).join('\n    ')}
+    scalar Text
+    scalar Code = Text [
+        pattern "\\\\d+"
+    ]
+}`);
+        expect(getStrings(vocabulary)).toEqual([...values, '\\d+']);
+
+        const printed = printVocabulary(vocabulary);
+        for (const value of values) {
+            expect(printed).toContain(formatLiteral({ type: 'quoted', value }));
+        }
+        expect(getStrings(await parseVocabulary(printed))).toEqual([...values, '\\d+']);
+    });
+});
@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import { describe, expect, test } from 'vitest';
+import { getNamespacePath, importOwlVocabularies } from '../../src/oml-owl-import.js';
+import { detectRdfFormat, parseRdf, parseTurtle } from '../../src/oml-rdf-parser.js';
+import type { OwlImport } from '../../src/oml-owl-import.js';
+
+function importFixture(name: string): OwlImport {
+    const text = fs.readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf-8');
+    const { graph, prefixes } = parseRdf(text, detectRdfFormat(name, text));
+    return importOwlVocabularies(graph, { prefixes });
+}
+
+const PEOPLE = `@dc:description "People and what they own"
+vocabulary <http://example.com/vocab#> as ex {
+	extends <http://purl.org/dc/elements/1.1/> as dc
+	extends <http://www.w3.org/2000/01/rdf-schema#> as rdfs
+	extends <http://www.w3.org/2001/XMLSchema#> as xsd
+
+	concept Agent
+
+	@rdfs:label "Person"$en
+	@rdfs:comment 'A human "being"'
+	concept Person < Agent
+
+	concept Thing
+
+	relation owns [
+		from Person
+		to Thing
+		reverse isOwnedBy
+	]
+
+	scalar property name [
+		domain Person
+		range xsd:string
+		functional
+	]
+
+	concept Adult < Person [
+		restricts some owns to Thing
+	]
+}
+`;
+
+describe('OWL import', () => {
+
+    test('imports an ontology in Turtle as a vocabulary', () => {
+        const result = importFixture('people.ttl');
+        expect(result.vocabularies.map(({ namespace, prefix, path }) => ({ namespace, prefix, path }))).toEqual([
+            { namespace: 'http://example.com/vocab#', prefix: 'ex', path: 'example.com/vocab.oml' }
+        ]);
+        expect(result.vocabularies[0].text).toBe(PEOPLE);
+    });
+
+    test('imports the same ontology in RDF/XML alike', () => {
+        expect(importFixture('people.rdf')).toEqual(importFixture('people.ttl'));
+    });
+
+    test('reports individuals as unsupported', () => {
+        expect(importFixture('people.ttl').unsupported).toEqual([{
+            subject: 'http://example.com/vocab#alice',
+            construct: 'rdf:type ex:Person',
+            reason: 'Individuals and statements about undeclared resources belong in OML descriptions'
+        }]);
+    });
+
+    test('imports declared and undeclared inverses in the namespace of the relation as its reverse', () => {
+        const { graph, prefixes } = parseTurtle(`
+            @prefix owl: <http://www.w3.org/2002/07/owl#> .
+            @prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+            @prefix ex: <http://example.com/vocab#> .
+            @prefix other: <http://example.com/other#> .
+
+            ex:Person a owl:Class .
+            ex:owns a owl:ObjectProperty ; rdfs:domain ex:Person ; rdfs:range ex:Person .
+            ex:isOwnedBy a owl:ObjectProperty ; owl:inverseOf ex:owns .
+            ex:knows a owl:ObjectProperty ; owl:inverseOf ex:isKnownBy .
+            ex:likes a owl:ObjectProperty ; owl:inverseOf other:isLikedBy .
+        `);
+        const result = importOwlVocabularies(graph, { prefixes });
+        expect(result.vocabularies[0].text).toContain('relation owns [\n\t\tfrom Person\n\t\tto Person\n\t\treverse isOwnedBy\n\t]');
+        expect(result.vocabularies[0].text).toContain('relation knows [\n\t\treverse isKnownBy\n\t]');
+        expect(result.vocabularies[0].text).toMatch(/relation likes\n/);
+        // A reverse relation in another namespace has no OML equivalent
+        expect(result.unsupported).toEqual([{
+            subject: 'http://example.com/vocab#likes',
+            construct: 'owl:inverseOf',
+            reason: 'owl:inverseOf has no OML equivalent here'
+        }]);
+    });
+
+    test('derives the file of a vocabulary from its namespace', () => {
+        expect(getNamespacePath('http://example.com/vocab#')).toBe('example.com/vocab.oml');
+        expect(getNamespacePath('https://example.com/a/b/')).toBe('example.com/a/b.oml');
+    });
+});
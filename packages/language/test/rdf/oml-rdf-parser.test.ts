@@ -0,0 +1,243 @@
+import { describe, expect, test } from 'vitest';
+import { detectRdfFormat, parseRdfXml, parseTurtle, RdfParseError } from '../../src/oml-rdf-parser.js';
+import { writeNTriples } from '../../src/oml-rdf.js';
+import type { RdfGraph } from '../../src/oml-rdf.js';
+
+const EX = 'http://example.com/ex#';
+const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+/**
+ * The triples of a graph as sorted N-Triples lines, which does not depend on the order of parsing.
+ */
+function lines(graph: RdfGraph): string[] {
+    return writeNTriples(graph).split('\n').filter(line => line).sort();
+}
+
+describe('Turtle parser', () => {
+
+    test('parses prefixes, `a`, predicate and object lists', () => {
+        const { graph, prefixes } = parseTurtle(`
+            @prefix ex: <${EX}> .
+            PREFIX : <http://example.com/default#>
+            ex:a a ex:Thing ; ex:p :b , :c .
+        `);
+        expect(prefixes).toEqual({ ex: EX, '': 'http://example.com/default#' });
+        expect(lines(graph)).toEqual([
+            `<${EX}a> <${EX}p> <http://example.com/default#b> .`,
+            `<${EX}a> <${EX}p> <http://example.com/default#c> .`,
+            `<${EX}a> <${RDF}type> <${EX}Thing> .`
+        ]);
+    });
+
+    test('reads the escapes of strings, IRIs and local names', () => {
+        const { graph } = parseTurtle(`
+            @prefix ex: <${EX}> .
+            ex:a ex:p "tab\\t \\"quoted\\" \\\\ \\u00e9 \\U0001F600" .
+            ex:a ex:p 'single \\'quoted\\'' .
+            <http://example.com/\\u00e9> ex:p ex:local\\-name\\.x .
+        `);
+        expect(graph.triples.map(t => t.object.value)).toEqual([
+            'tab\t "quoted" \\ é 😀',
+            "single 'quoted'",
+            `${EX}local-name.x`
+        ]);
+        expect(graph.triples[2].subject.value).toBe('http://example.com/é');
+    });
+
+    test('parses long strings, language tags, datatypes and number and boolean shorthands', () => {
+        const { graph } = parseTurtle(`
+            @prefix ex: <${EX}> .
+            @prefix xsd: <${XSD}> .
+            ex:a ex:p """two
+            "lines\\"""" , "chat"@fr-CA , "1"^^xsd:int , 2 , -1.5 , 1e3 , true .
+        `);
+        expect(graph.triples.map(t => t.object)).toEqual([
+            { termType: 'Literal', value: 'two\n            "lines"', datatype: `${XSD}string` },
+            { termType: 'Literal', value: 'chat', datatype: `${RDF}langString`, language: 'fr-CA' },
+            { termType: 'Literal', value: '1', datatype: `${XSD}int` },
+            { termType: 'Literal', value: '2', datatype: `${XSD}integer` },
+            { termType: 'Literal', value: '-1.5', datatype: `${XSD}decimal` },
+            { termType: 'Literal', value: '1e3', datatype: `${XSD}double` },
+            { termType: 'Literal', value: 'true', datatype: `${XSD}boolean` }
+        ]);
+    });
+
+    test('parses collections', () => {
+        const { graph } = parseTurtle(`
+            @prefix ex: <${EX}> .
+            ex:a ex:list ( 1 "two" ex:three ) ; ex:empty () .
+        `);
+        const head = graph.match(undefined, `${EX}list`)[0].object;
+        const items = [];
+        for (let node = head; node.value !== `${RDF}nil`;) {
+            items.push(graph.match(node as never, `${RDF}first`)[0].object.value);
+            node = graph.match(node as never, `${RDF}rest`)[0].object;
+        }
+        expect(items).toEqual(['1', 'two', `${EX}three`]);
+        expect(graph.match(undefined, `${EX}empty`)[0].object).toEqual({ termType: 'NamedNode', value: `${RDF}nil` });
+    });
+
+    test('parses labeled and anonymous blank nodes', () => {
+        const { graph } = parseTurtle(`
+            @prefix ex: <${EX}> .
+            ex:a ex:p _:x .
+            _:x ex:q [ ex:r _:x ] .
+            [ ex:s ex:b ] .
+            ex:c ex:t [] .
+        `);
+        const [ap, xq, inner, standalone, empty] = [
+            graph.match(undefined, `${EX}p`)[0],
+            graph.match(undefined, `${EX}q`)[0],
+            graph.match(undefined, `${EX}r`)[0],
+            graph.match(undefined, `${EX}s`)[0],
+            graph.match(undefined, `${EX}t`)[0]
+        ];
+        // The same label is the same node; each [] is a new one
+        expect(ap.object.termType).toBe('BlankNode');
+        expect(xq.subject).toEqual(ap.object);
+        expect(inner.subject).toEqual(xq.object);
+        expect(inner.object).toEqual(ap.object);
+        expect(standalone.subject.termType).toBe('BlankNode');
+        expect(empty.object.termType).toBe('BlankNode');
+        expect(new Set([ap.object.value, xq.object.value, standalone.subject.value, empty.object.value]).size).toBe(4);
+    });
+
+    test('resolves relative IRIs against the base', () => {
+        const { graph } = parseTurtle(`
+            <a> <p> <#frag> .
+            @base <http://example.com/dir/doc> .
+            <a> <p> <../up> .
+            BASE <http://other.org/x/>
+            PREFIX o: <sub#>
+            </abs> o:p <./here?q=1#f> .
+        `, 'http://example.com/start/');
+        expect(lines(graph)).toEqual([
+            '<http://example.com/dir/a> <http://example.com/dir/p> <http://example.com/up> .',
+            '<http://example.com/start/a> <http://example.com/start/p> <http://example.com/start/#frag> .',
+            '<http://other.org/abs> <http://other.org/x/sub#p> <http://other.org/x/here?q=1#f> .'
+        ]);
+    });
+
+    test('reads N-Triples', () => {
+        const text = `<${EX}a> <${EX}p> "x"@en .\n_:b0 <${EX}p> "1"^^<${XSD}integer> .\n`;
+        expect(writeNTriples(parseTurtle(text).graph)).toBe(text);
+    });
+
+    test('reports errors with their line', () => {
+        expect(() => parseTurtle('<a> <b> <c> .\n<a> <b> "\\q" .')).toThrow(RdfParseError);
+        expect(() => parseTurtle('<a> <b> <c> .\n<a> <b> "\\q" .')).toThrow(/^Line 2: Invalid escape/);
+        expect(() => parseTurtle('<a> <b> <c> .\nex:a <b> <c> .')).toThrow(/^Line 2: /);
+        expect(() => parseTurtle('<a> <b> <c>')).toThrow(RdfParseError);
+    });
+});
+
+describe('RDF/XML parser', () => {
+
+    const header = `<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="${RDF}" xmlns:ex="${EX}" xml:base="http://example.com/base/">`;
+
+    test('parses node elements, property elements and property attributes', () => {
+        const { graph, prefixes } = parseRdfXml(`${header}
+            <ex:Thing rdf:about="a" ex:attr="attribute">
+                <ex:ref rdf:resource="#frag"/>
+                <ex:n rdf:datatype="${XSD}integer">3</ex:n>
+                <ex:text>&lt;escaped&gt; &amp; &#233;</ex:text>
+            </ex:Thing>
+            <rdf:Description rdf:ID="t1" ex:b="x"/>
+        </rdf:RDF>`);
+        expect(prefixes).toEqual({ rdf: RDF, ex: EX });
+        expect(lines(graph)).toEqual([
+            `<http://example.com/base/#t1> <${EX}b> "x" .`,
+            `<http://example.com/base/a> <${EX}attr> "attribute" .`,
+            `<http://example.com/base/a> <${EX}n> "3"^^<${XSD}integer> .`,
+            `<http://example.com/base/a> <${EX}ref> <http://example.com/base/#frag> .`,
+            `<http://example.com/base/a> <${EX}text> "<escaped> & é" .`,
+            `<http://example.com/base/a> <${RDF}type> <${EX}Thing> .`
+        ]);
+    });
+
+    test('applies xml:lang and nested xml:base', () => {
+        const { graph } = parseRdfXml(`${header}
+            <rdf:Description rdf:about="a" xml:lang="en" ex:attr="attribute">
+                <ex:label>hello</ex:label>
+                <ex:label xml:lang="fr">bonjour</ex:label>
+                <ex:label xml:lang="">none</ex:label>
+            </rdf:Description>
+            <rdf:Description rdf:about="http://other.org/x" xml:base="http://other.org/y/">
+                <ex:rel rdf:resource="../z"/>
+            </rdf:Description>
+        </rdf:RDF>`);
+        expect(lines(graph)).toEqual([
+            `<http://example.com/base/a> <${EX}attr> "attribute"@en .`,
+            `<http://example.com/base/a> <${EX}label> "bonjour"@fr .`,
+            `<http://example.com/base/a> <${EX}label> "hello"@en .`,
+            `<http://example.com/base/a> <${EX}label> "none" .`,
+            `<http://other.org/x> <${EX}rel> <http://other.org/z> .`
+        ]);
+    });
+
+    test('parses rdf:parseType Resource, Collection and Literal', () => {
+        const { graph } = parseRdfXml(`${header}
+            <rdf:Description rdf:about="a">
+                <ex:res rdf:parseType="Resource"><ex:inner>x</ex:inner></ex:res>
+                <ex:list rdf:parseType="Collection">
+                    <rdf:Description rdf:about="i1"/>
+                    <rdf:Description rdf:about="i2"/>
+                </ex:list>
+                <ex:empty rdf:parseType="Collection"/>
+                <ex:xml rdf:parseType="Literal"><b>bold</b> text</ex:xml>
+            </rdf:Description>
+        </rdf:RDF>`);
+        const a = { termType: 'NamedNode' as const, value: 'http://example.com/base/a' };
+        const resource = graph.match(a, `${EX}res`)[0].object;
+        expect(resource.termType).toBe('BlankNode');
+        expect(graph.match(resource as never, `${EX}inner`)[0].object.value).toBe('x');
+
+        const items = [];
+        for (let node = graph.match(a, `${EX}list`)[0].object; node.value !== `${RDF}nil`;) {
+            items.push(graph.match(node as never, `${RDF}first`)[0].object.value);
+            node = graph.match(node as never, `${RDF}rest`)[0].object;
+        }
+        expect(items).toEqual(['http://example.com/base/i1', 'http://example.com/base/i2']);
+        expect(graph.match(a, `${EX}empty`)[0].object.value).toBe(`${RDF}nil`);
+
+        expect(graph.match(a, `${EX}xml`)[0].object).toEqual({ termType: 'Literal', value: '<b>bold</b> text', datatype: `${RDF}XMLLiteral` });
+    });
+
+    test('shares blank nodes by rdf:nodeID', () => {
+        const { graph } = parseRdfXml(`${header}
+            <rdf:Description rdf:about="a"><ex:node rdf:nodeID="n1"/></rdf:Description>
+            <rdf:Description rdf:nodeID="n1" ex:v="w"/>
+            <rdf:Description><ex:v>anonymous</ex:v></rdf:Description>
+        </rdf:RDF>`);
+        const [shared, anonymous] = graph.match(undefined, `${EX}v`);
+        expect(graph.match(undefined, `${EX}node`)[0].object).toEqual(shared.subject);
+        expect(anonymous.subject.termType).toBe('BlankNode');
+        expect(anonymous.subject).not.toEqual(shared.subject);
+    });
+
+    test('expands the entities of the document type', () => {
+        const { graph } = parseRdfXml(`<?xml version="1.0"?>
+            <!DOCTYPE rdf:RDF [ <!ENTITY xsd "${XSD}"> ]>
+            <rdf:RDF xmlns:rdf="${RDF}" xmlns:ex="${EX}">
+                <rdf:Description rdf:about="${EX}a"><ex:n rdf:datatype="&xsd;int">1</ex:n></rdf:Description>
+            </rdf:RDF>`);
+        expect(graph.triples[0].object).toEqual({ termType: 'Literal', value: '1', datatype: `${XSD}int` });
+    });
+
+    test('reports malformed documents', () => {
+        expect(() => parseRdfXml(`${header}\n<rdf:Description>\n</rdf:RDF>`)).toThrow(RdfParseError);
+    });
+});
+
+describe('RDF format detection', () => {
+
+    test('uses the extension, then the content', () => {
+        expect(detectRdfFormat('a.ttl', '')).toBe('turtle');
+        expect(detectRdfFormat('a.nt', '')).toBe('ntriples');
+        expect(detectRdfFormat('a.owl', '')).toBe('rdfxml');
+        expect(detectRdfFormat('a', '<?xml version="1.0"?><rdf:RDF/>')).toBe('rdfxml');
+        expect(detectRdfFormat('a', '@prefix ex: <x> .')).toBe('turtle');
+    });
+});
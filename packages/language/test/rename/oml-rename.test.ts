@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EmptyFileSystem, TextDocument } from 'langium';
+import type { LangiumDocument } from 'langium';
+import { clearDocuments, parseHelper } from 'langium/test';
+import { afterAll, afterEach, beforeAll, describe, expect, test, vi } from 'vitest';
+import { renameInstanceHandler } from '../../src/mcp/tools/instances/rename-instance.js';
+import { updateTermHandler } from '../../src/mcp/tools/terms/update-term.js';
+import { createOmlServices } from '../../src/oml-module.js';
+
+const services = createOmlServices(EmptyFileSystem).Oml;
+const parse = parseHelper(services);
+
+const VOCABULARY = `vocabulary <http://example.com/v#> as v {
+    concept Part
+    concept Wheel < Part
+    concept Axle < v:Part
+}`;
+
+const EXTENSION = `vocabulary <http://example.com/w#> as w {
+    extends <http://example.com/v#> as v
+    ref concept v:Part [
+        key w:id
+    ]
+    concept Spoke < v:Part
+    concept Gear < <http://example.com/v#Part>
+    scalar property id [
+        domain v:Part
+    ]
+}`;
+
+/**
+ * Renames the element declared at the first occurrence of `declaration` in the first document
+ * and returns the text of every document after the edits.
+ */
+async function rename(texts: string[], declaration: string, newName: string): Promise<string[]> {
+    const documents: LangiumDocument[] = [];
+    for (const text of texts) {
+        documents.push(await parse(text));
+    }
+    try {
+        const [document] = documents;
+        const offset = document.textDocument.getText().indexOf(declaration) + declaration.lastIndexOf(' ') + 1;
+        const edit = await services.lsp.RenameProvider!.rename(document, {
+            textDocument: { uri: document.uri.toString() },
+            position: document.textDocument.positionAt(offset),
+            newName
+        });
+        return documents.map(d => TextDocument.applyEdits(d.textDocument, edit?.changes?.[d.uri.toString()] ?? []));
+    } finally {
+        await clearDocuments(services, documents);
+    }
+}
+
+describe('OML rename provider', () => {
+
+    test('rewrites local, qualified, IRI and ref statement references', async () => {
+        const [vocabulary, extension] = await rename([VOCABULARY, EXTENSION], 'concept Part', 'Component');
+        expect(vocabulary).toBe(`vocabulary <http://example.com/v#> as v {
+    concept Component
+    concept Wheel < Component
+    concept Axle < v:Component
+}`);
+        expect(extension).toBe(EXTENSION.replace(/v:Part|v#Part/g, match => match.replace('Part', 'Component')));
+    });
+
+    test('escapes keywords in local names only', async () => {
+        const [vocabulary, extension] = await rename([VOCABULARY, EXTENSION], 'concept Part', 'concept');
+        expect(vocabulary).toContain('concept ^concept\n');
+        expect(vocabulary).toContain('concept Wheel < ^concept\n');
+        expect(vocabulary).toContain('concept Axle < v:concept\n');
+        expect(extension).toContain('ref concept v:concept [');
+        expect(extension).toContain('concept Gear < <http://example.com/v#concept>\n');
+    });
+
+    test('takes the local name of a qualified or escaped new name', async () => {
+        const [qualified] = await rename([VOCABULARY], 'concept Part', 'v:Component');
+        expect(qualified).toContain('concept Wheel < Component\n');
+        const [escaped] = await rename([VOCABULARY], 'concept Part', '^Component');
+        expect(escaped).toContain('concept Axle < v:Component\n');
+    });
+
+    test('refuses names that are not OML identifiers', async () => {
+        expect(await rename([VOCABULARY], 'concept Part', 'two words')).toEqual([VOCABULARY]);
+    });
+
+    test('renames instances in descriptions', async () => {
+        const description = `description <http://example.com/d#> as d {
+    instance left
+    instance right
+    relation instance link [
+        from left
+        to d:left, right
+    ]
+}`;
+        const usage = `description <http://example.com/e#> as e {
+    extends <http://example.com/d#> as d
+    ref instance d:left
+    relation instance loop [
+        from <http://example.com/d#left>
+        to d:left
+    ]
+}`;
+        const [renamed, used] = await rename([description, usage], 'instance left', 'port');
+        expect(renamed).toBe(description.replace(/left/g, 'port'));
+        expect(used).toBe(usage.replace(/left/g, 'port'));
+    });
+});
+
+describe('Headless rename tools', () => {
+
+    let workspace: string;
+    const previousRoot = process.env.OML_WORKSPACE_ROOT;
+
+    beforeAll(() => {
+        // The tools notify the editor of the files they write, which is not running here
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    afterAll(() => {
+        process.env.OML_WORKSPACE_ROOT = previousRoot;
+        vi.restoreAllMocks();
+    });
+
+    function createWorkspace(files: Record<string, string>): Record<string, string> {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'oml-rename-'));
+        process.env.OML_WORKSPACE_ROOT = workspace;
+        return Object.fromEntries(Object.entries(files).map(([name, text]) => {
+            const filePath = path.join(workspace, name);
+            fs.writeFileSync(filePath, text);
+            return [name, filePath];
+        }));
+    }
+
+    const getText = (result: { content: { text: string }[] }) => result.content.map(c => c.text).join('\n');
+
+    test('rename a term across files', async () => {
+        const files = createWorkspace({ 'v.oml': VOCABULARY, 'w.oml': EXTENSION });
+        const result = await updateTermHandler({ ontology: files['v.oml'], currentName: 'Part', newName: 'Component' });
+        expect(result.isError).toBeFalsy();
+        expect(fs.readFileSync(files['v.oml'], 'utf-8')).toContain('concept Axle < v:Component\n');
+        expect(fs.readFileSync(files['w.oml'], 'utf-8')).toBe(EXTENSION.replace(/v:Part|v#Part/g, match => match.replace('Part', 'Component')));
+    });
+
+    test('refuses to rename a term to the name of another term', async () => {
+        const files = createWorkspace({ 'v.oml': VOCABULARY });
+        const result = await updateTermHandler({ ontology: files['v.oml'], currentName: 'Part', newName: 'Wheel' });
+        expect(result.isError).toBe(true);
+        expect(getText(result)).toContain('Term "Wheel" already exists in vocabulary.');
+        expect(fs.readFileSync(files['v.oml'], 'utf-8')).toBe(VOCABULARY);
+    });
+
+    test('refuses to rename an instance to the name of another instance', async () => {
+        const files = createWorkspace({
+            'd.oml': `description <http://example.com/d#> as d {
+    instance left
+    instance right
+}`
+        });
+        const result = await renameInstanceHandler({ ontology: files['d.oml'], instance: 'left', newName: 'right' });
+        expect(result.isError).toBe(true);
+        expect(getText(result)).toContain('Instance "right" already exists in the description.');
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, test } from 'vitest';
+import { parseSparql, SparqlParseError } from '../../src/oml-sparql-parser.js';
+import type { SparqlSelectQuery } from '../../src/oml-sparql-parser.js';
+
+const EX = 'http://example.com/ex#';
+const PREFIX = `PREFIX ex: <${EX}>\n`;
+
+function parseSelect(text: string): SparqlSelectQuery {
+    const query = parseSparql(PREFIX + text);
+    expect(query.type).toBe('SELECT');
+    return query as SparqlSelectQuery;
+}
+
+describe('SPARQL parser', () => {
+
+    test('parses a basic graph pattern with prefixed names, `a` and literals', () => {
+        const query = parseSelect('SELECT ?s WHERE { ?s a ex:Person ; ex:age 30 ; ex:name "A"@en }');
+        expect(query.projections).toEqual([{ variable: 's' }]);
+        expect(query.where.patterns).toEqual([{
+            type: 'bgp',
+            triples: [
+                { subject: { type: 'variable', name: 's' }, predicate: { type: 'term', term: { termType: 'NamedNode', value: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type' } }, object: { type: 'term', term: { termType: 'NamedNode', value: `${EX}Person` } } },
+                { subject: { type: 'variable', name: 's' }, predicate: { type: 'term', term: { termType: 'NamedNode', value: `${EX}age` } }, object: { type: 'term', term: { termType: 'Literal', value: '30', datatype: 'http://www.w3.org/2001/XMLSchema#integer' } } },
+                { subject: { type: 'variable', name: 's' }, predicate: { type: 'term', term: { termType: 'NamedNode', value: `${EX}name` } }, object: { type: 'term', term: { termType: 'Literal', value: 'A', datatype: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString', language: 'en' } } }
+            ]
+        }]);
+    });
+
+    test('parses object lists and blank nodes as hidden variables', () => {
+        const query = parseSelect('SELECT * WHERE { ?s ex:knows ex:a, ex:b ; ex:owns [ ex:name ?n ] }');
+        const bgp = query.where.patterns[0];
+        expect(bgp.type).toBe('bgp');
+        if (bgp.type === 'bgp') {
+            expect(bgp.triples).toHaveLength(4);
+            const blank = bgp.triples.find(t => t.subject.type === 'variable' && t.subject.name !== 's')!;
+            expect(blank.subject.type === 'variable' && blank.subject.name.startsWith('.')).toBe(true);
+        }
+    });
+
+    test('parses OPTIONAL, UNION, MINUS, FILTER, BIND and VALUES', () => {
+        const query = parseSelect(`SELECT * WHERE {
+            ?s a ex:Person
+            OPTIONAL { ?s ex:age ?age }
+            { ?s ex:name ?n } UNION { ?s ex:label ?n }
+            MINUS { ?s a ex:Robot }
+            FILTER (?age > 20)
+            BIND (?age + 1 AS ?next)
+            VALUES ?s { ex:a ex:b }
+        }`);
+        expect(query.where.patterns.map(p => p.type)).toEqual(['bgp', 'optional', 'union', 'minus', 'filter', 'bind', 'values']);
+        const bind = query.where.patterns[5];
+        expect(bind).toEqual({
+            type: 'bind',
+            variable: 'next',
+            expression: { type: 'operation', operator: '+', args: [{ type: 'variable', name: 'age' }, { type: 'term', term: { termType: 'Literal', value: '1', datatype: 'http://www.w3.org/2001/XMLSchema#integer' } }] }
+        });
+        const values = query.where.patterns[6];
+        expect(values.type === 'values' && values.variables).toEqual(['s']);
+        expect(values.type === 'values' && values.rows).toHaveLength(2);
+    });
+
+    test('parses EXISTS and NOT EXISTS', () => {
+        const query = parseSelect('SELECT ?s WHERE { ?s a ex:Person FILTER NOT EXISTS { ?s ex:knows ?o } FILTER EXISTS { ?s ex:age ?a } }');
+        const filters = query.where.patterns.filter(p => p.type === 'filter');
+        expect(filters.map(f => f.type === 'filter' && f.expression.type === 'exists' && f.expression.negated)).toEqual([true, false]);
+    });
+
+    test('gives operators their precedence', () => {
+        const query = parseSelect('SELECT ?s WHERE { ?s ex:v ?v FILTER (?v = 1 || ?v > 2 && !BOUND(?w) ) }');
+        const filter = query.where.patterns[1];
+        expect(filter.type === 'filter' && filter.expression).toMatchObject({
+            type: 'operation',
+            operator: '||',
+            args: [
+                { operator: '=' },
+                { operator: '&&', args: [{ operator: '>' }, { operator: '!', args: [{ type: 'call', name: 'BOUND' }] }] }
+            ]
+        });
+    });
+
+    test('parses property paths', () => {
+        const query = parseSelect('SELECT * WHERE { ?s ^ex:p/(ex:q|ex:r)* ?o . ?s !(ex:p|^ex:q) ?x . ?s ex:p+ ?y . ?s ex:p? ?z }');
+        const bgp = query.where.patterns[0];
+        expect(bgp.type === 'bgp' && bgp.triples.map(t => t.predicate)).toEqual([
+            {
+                type: 'sequence',
+                paths: [
+                    { type: 'inverse', path: { type: 'link', iri: `${EX}p` } },
+                    { type: 'repeat', modifier: '*', path: { type: 'alternative', paths: [{ type: 'link', iri: `${EX}q` }, { type: 'link', iri: `${EX}r` }] } }
+                ]
+            },
+            { type: 'negated', forward: [`${EX}p`], inverse: [`${EX}q`] },
+            { type: 'repeat', modifier: '+', path: { type: 'link', iri: `${EX}p` } },
+            { type: 'repeat', modifier: '?', path: { type: 'link', iri: `${EX}p` } }
+        ]);
+    });
+
+    test('parses aggregates, GROUP BY, HAVING, ORDER BY, LIMIT and OFFSET', () => {
+        const query = parseSelect(`SELECT DISTINCT ?t (COUNT(DISTINCT ?s) AS ?n) (GROUP_CONCAT(?name; SEPARATOR=", ") AS ?names)
+            WHERE { ?s a ?t ; ex:name ?name }
+            GROUP BY ?t HAVING (COUNT(?s) > 1) ORDER BY DESC(?n) ?t LIMIT 5 OFFSET 2`);
+        expect(query.distinct).toBe(true);
+        expect(query.projections).toMatchObject([
+            { variable: 't' },
+            { variable: 'n', expression: { type: 'call', name: 'COUNT', distinct: true } },
+            { variable: 'names', expression: { type: 'call', name: 'GROUP_CONCAT', separator: ', ' } }
+        ]);
+        expect(query.groupBy).toEqual([{ expression: { type: 'variable', name: 't' }, variable: 't' }]);
+        expect(query.having).toHaveLength(1);
+        expect(query.orderBy.map(o => o.descending)).toEqual([true, false]);
+        expect(query.limit).toBe(5);
+        expect(query.offset).toBe(2);
+    });
+
+    test('parses subqueries', () => {
+        const query = parseSelect('SELECT ?s WHERE { { SELECT ?s WHERE { ?s a ex:Person } LIMIT 1 } }');
+        const group = query.where.patterns[0];
+        expect(group.type === 'group' && group.patterns[0].type).toBe('query');
+    });
+
+    test('parses ASK and CONSTRUCT', () => {
+        expect(parseSparql(`${PREFIX}ASK { ex:a ex:p ?o }`).type).toBe('ASK');
+        const construct = parseSparql(`${PREFIX}CONSTRUCT { ?o ex:inverse ?s } WHERE { ?s ex:p ?o }`);
+        expect(construct.type === 'CONSTRUCT' && construct.template).toEqual([{
+            subject: { type: 'variable', name: 'o' },
+            predicate: { type: 'term', term: { termType: 'NamedNode', value: `${EX}inverse` } },
+            object: { type: 'variable', name: 's' }
+        }]);
+    });
+
+    test('resolves prefixes given in the options and relative IRIs against the base', () => {
+        const query = parseSparql('SELECT ?s WHERE { ?s ex:knows <bob> ; <#age> ?o }', { prefixes: { ex: EX }, baseIri: 'http://example.com/people/alice' });
+        const bgp = query.where.patterns[0];
+        expect(bgp.type === 'bgp' && bgp.triples.map(t => [t.predicate, t.object].map(term => term.type === 'term' && term.term.value))).toEqual([
+            [`${EX}knows`, 'http://example.com/people/bob'],
+            ['http://example.com/people/alice#age', false]
+        ]);
+    });
+
+    test('reports errors with their line', () => {
+        expect(() => parseSparql('SELECT ?s\nWHERE { ?s ex:p ?o }')).toThrow(SparqlParseError);
+        expect(() => parseSparql('SELECT ?s\nWHERE { ?s ex:p ?o }')).toThrow(/^Line 2: /);
+        expect(() => parseSparql(`${PREFIX}SELECT ?s WHERE { ?s ex:p ?o FILTER (STRLEN()) }`)).toThrow(SparqlParseError);
+        expect(() => parseSparql(`${PREFIX}SELECT ?s WHERE { ?s ex:p ?o `)).toThrow(SparqlParseError);
+    });
+});
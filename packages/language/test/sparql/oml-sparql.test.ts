@@ -0,0 +1,229 @@
+import { describe, expect, test } from 'vitest';
+import { parseTurtle } from '../../src/oml-rdf-parser.js';
+import { executeSparql, formatSparqlTable, formatSparqlTerm, toSparqlJson } from '../../src/oml-sparql.js';
+import type { SparqlResult } from '../../src/oml-sparql.js';
+
+const EX = 'http://example.com/ex#';
+const prefixes = { ex: EX };
+
+const { graph } = parseTurtle(`
+@prefix ex: <${EX}> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+
+ex:Person rdfs:subClassOf ex:Agent .
+ex:Robot rdfs:subClassOf ex:Agent .
+
+ex:alice a ex:Person ; ex:name "Alice" ; ex:age 30 ; ex:knows ex:bob ; ex:label "Alice"@en .
+ex:bob a ex:Person ; ex:name "Bob" ; ex:age 25 ; ex:knows ex:carol .
+ex:carol a ex:Person ; ex:name "Carol" ; ex:age 35 .
+ex:dave a ex:Robot ; ex:name "Dave" .
+`);
+
+function run(query: string): SparqlResult {
+    return executeSparql(graph, query, { prefixes });
+}
+
+/**
+ * The solutions of a SELECT, each written as the formatted values of its variables.
+ */
+function select(query: string): string[][] {
+    const result = run(query);
+    if (result.type !== 'SELECT') {
+        throw new Error(`Expected a SELECT result, got ${result.type}`);
+    }
+    return result.solutions.map(solution => result.variables.map(variable => formatSparqlTerm(solution.get(variable), prefixes)));
+}
+
+describe('SPARQL evaluation', () => {
+
+    test('matches basic graph patterns', () => {
+        expect(select('SELECT ?s ?n WHERE { ?s a ex:Person ; ex:name ?n } ORDER BY ?n')).toEqual([
+            ['ex:alice', '"Alice"'],
+            ['ex:bob', '"Bob"'],
+            ['ex:carol', '"Carol"']
+        ]);
+        expect(select('SELECT ?s WHERE { ?s ex:label "Alice"@en }')).toEqual([['ex:alice']]);
+        expect(select('SELECT ?s WHERE { ?s ex:age 25 }')).toEqual([['ex:bob']]);
+    });
+
+    test('joins on blank nodes of the query', () => {
+        expect(select('SELECT ?s WHERE { ?s ex:knows [ ex:knows ex:carol ] }')).toEqual([['ex:alice']]);
+    });
+
+    test('filters with comparisons, logical operators and functions', () => {
+        expect(select('SELECT ?s WHERE { ?s ex:age ?a FILTER (?a >= 30 && ?a < 35) }')).toEqual([['ex:alice']]);
+        expect(select('SELECT ?s WHERE { ?s ex:age ?a FILTER (?a = 25 || ?a = 35) } ORDER BY ?s')).toEqual([['ex:bob'], ['ex:carol']]);
+        expect(select('SELECT ?n WHERE { ?s ex:name ?n FILTER (REGEX(?n, "^c", "i")) }')).toEqual([['"Carol"']]);
+        expect(select('SELECT ?n WHERE { ?s ex:name ?n FILTER (STRSTARTS(?n, "D") && CONTAINS(LCASE(?n), "av")) }')).toEqual([['"Dave"']]);
+        expect(select('SELECT ?l WHERE { ?s ex:label ?l FILTER (LANGMATCHES(LANG(?l), "en")) }')).toEqual([['"Alice"@en']]);
+        expect(select('SELECT ?s WHERE { ?s ex:name ?n FILTER (!(?s IN (ex:alice, ex:bob, ex:carol))) }')).toEqual([['ex:dave']]);
+    });
+
+    test('treats errors in filters as false', () => {
+        expect(select('SELECT ?s WHERE { ?s ex:name ?n FILTER (?n > 3) }')).toEqual([]);
+        expect(select('SELECT ?s WHERE { ?s ex:name ?n FILTER (?missing = 1) }')).toEqual([]);
+    });
+
+    test('keeps the solutions of OPTIONAL without a match', () => {
+        expect(select('SELECT ?s ?a WHERE { ?s ex:name ?n OPTIONAL { ?s ex:age ?a } } ORDER BY ?s')).toEqual([
+            ['ex:alice', '30'],
+            ['ex:bob', '25'],
+            ['ex:carol', '35'],
+            ['ex:dave', '']
+        ]);
+        expect(select('SELECT ?s WHERE { ?s ex:name ?n OPTIONAL { ?s ex:age ?a } FILTER (!BOUND(?a)) }')).toEqual([['ex:dave']]);
+    });
+
+    test('combines the solutions of UNION', () => {
+        expect(select('SELECT ?v WHERE { { ex:alice ex:name ?v } UNION { ex:alice ex:label ?v } }')).toEqual([['"Alice"'], ['"Alice"@en']]);
+    });
+
+    test('removes the compatible solutions of MINUS', () => {
+        expect(select('SELECT ?s WHERE { ?s ex:name ?n MINUS { ?s a ex:Person } }')).toEqual([['ex:dave']]);
+        // Solutions sharing no variable are kept
+        expect(select('SELECT ?s WHERE { ?s a ex:Robot MINUS { ?x a ex:Person } }')).toEqual([['ex:dave']]);
+    });
+
+    test('tests EXISTS and NOT EXISTS with the bindings of their context', () => {
+        expect(select('SELECT ?s WHERE { ?s a ex:Person FILTER EXISTS { ?s ex:knows ?o } } ORDER BY ?s')).toEqual([['ex:alice'], ['ex:bob']]);
+        expect(select('SELECT ?s WHERE { ?s a ex:Person FILTER NOT EXISTS { ?s ex:knows ?o } }')).toEqual([['ex:carol']]);
+    });
+
+    test('binds expressions and inline values', () => {
+        expect(select('SELECT ?s ?next WHERE { ?s ex:age ?a BIND (?a + 1 AS ?next) } ORDER BY ?next')).toEqual([
+            ['ex:bob', '26'],
+            ['ex:alice', '31'],
+            ['ex:carol', '36']
+        ]);
+        expect(select('SELECT ?s ?n WHERE { VALUES ?s { ex:bob ex:dave } ?s ex:name ?n }')).toEqual([
+            ['ex:bob', '"Bob"'],
+            ['ex:dave', '"Dave"']
+        ]);
+    });
+
+    test('follows property paths', () => {
+        expect(select('SELECT ?o WHERE { ex:alice ex:knows/ex:knows ?o }')).toEqual([['ex:carol']]);
+        expect(select('SELECT ?o WHERE { ex:alice ex:knows+ ?o } ORDER BY ?o')).toEqual([['ex:bob'], ['ex:carol']]);
+        expect(select('SELECT ?o WHERE { ex:alice ex:knows* ?o } ORDER BY ?o')).toEqual([['ex:alice'], ['ex:bob'], ['ex:carol']]);
+        expect(select('SELECT ?o WHERE { ex:alice ex:knows? ?o } ORDER BY ?o')).toEqual([['ex:alice'], ['ex:bob']]);
+        expect(select('SELECT ?s WHERE { ?s ^ex:knows ex:alice }')).toEqual([['ex:bob']]);
+        expect(select('SELECT ?v WHERE { ex:alice (ex:name|ex:label) ?v }')).toEqual([['"Alice"'], ['"Alice"@en']]);
+        expect(select('SELECT ?s WHERE { ?s a/rdfs:subClassOf ex:Agent FILTER NOT EXISTS { ?s a ex:Person } }')).toEqual([['ex:dave']]);
+        expect(select('SELECT DISTINCT ?p WHERE { ex:carol !(ex:name|ex:age) ?o BIND (rdf:type AS ?p) }')).toEqual([['<http://www.w3.org/1999/02/22-rdf-syntax-ns#type>']]);
+    });
+
+    test('groups and aggregates', () => {
+        expect(select('SELECT ?t (COUNT(?s) AS ?n) WHERE { ?s a ?t } GROUP BY ?t ORDER BY DESC(?n)')).toEqual([
+            ['ex:Person', '3'],
+            ['ex:Robot', '1']
+        ]);
+        expect(select('SELECT (SUM(?a) AS ?sum) (MIN(?a) AS ?min) (MAX(?a) AS ?max) (AVG(?a) AS ?avg) WHERE { ?s ex:age ?a }')).toEqual([
+            ['90', '25', '35', '30.0']
+        ]);
+        expect(select('SELECT (GROUP_CONCAT(?n; SEPARATOR="|") AS ?names) WHERE { { SELECT ?n WHERE { ?s ex:name ?n } ORDER BY ?n } }')).toEqual([
+            ['"Alice|Bob|Carol|Dave"']
+        ]);
+        expect(select('SELECT ?t WHERE { ?s a ?t } GROUP BY ?t HAVING (COUNT(?s) > 1)')).toEqual([['ex:Person']]);
+        expect(select('SELECT (COUNT(DISTINCT ?t) AS ?n) WHERE { ?s a ?t }')).toEqual([['2']]);
+    });
+
+    test('orders, removes duplicates and slices', () => {
+        expect(select('SELECT ?s WHERE { ?s ex:age ?a } ORDER BY DESC(?a)')).toEqual([['ex:carol'], ['ex:alice'], ['ex:bob']]);
+        expect(select('SELECT ?s WHERE { ?s ex:age ?a } ORDER BY ?a LIMIT 2 OFFSET 1')).toEqual([['ex:alice'], ['ex:carol']]);
+        expect(select('SELECT DISTINCT ?t WHERE { ?s a ?t } ORDER BY ?t')).toEqual([['ex:Person'], ['ex:Robot']]);
+    });
+
+    test('answers ASK queries', () => {
+        expect(run('ASK { ex:alice ex:knows ex:bob }')).toEqual({ type: 'ASK', value: true });
+        expect(run('ASK { ex:bob ex:knows ex:alice }')).toEqual({ type: 'ASK', value: false });
+    });
+
+    test('builds the graph of CONSTRUCT queries', () => {
+        const result = run('CONSTRUCT { ?o ex:knownBy ?s . ?s ex:friend [ ex:name ?n ] } WHERE { ?s ex:knows ?o . ?o ex:name ?n }');
+        expect(result.type).toBe('CONSTRUCT');
+        if (result.type === 'CONSTRUCT') {
+            expect(result.graph.match(undefined, `${EX}knownBy`).map(t => [t.subject.value, t.object.value])).toEqual([
+                [`${EX}bob`, `${EX}alice`],
+                [`${EX}carol`, `${EX}bob`]
+            ]);
+            // Each solution gets its own blank node
+            const friends = result.graph.match(undefined, `${EX}friend`);
+            expect(friends).toHaveLength(2);
+            expect(friends[0].object.termType).toBe('BlankNode');
+            expect(friends[0].object.value).not.toBe(friends[1].object.value);
+        }
+    });
+});
+
+describe('SPARQL result serialization', () => {
+
+    test('formats terms', () => {
+        expect(formatSparqlTerm({ termType: 'NamedNode', value: `${EX}a` }, prefixes)).toBe('ex:a');
+        expect(formatSparqlTerm({ termType: 'NamedNode', value: 'http://other.org/a' }, prefixes)).toBe('<http://other.org/a>');
+        expect(formatSparqlTerm({ termType: 'BlankNode', value: 'b0' })).toBe('_:b0');
+        expect(formatSparqlTerm({ termType: 'Literal', value: 'a "b"', datatype: 'http://www.w3.org/2001/XMLSchema#string' })).toBe('"a \\"b\\""');
+        expect(formatSparqlTerm({ termType: 'Literal', value: '2', datatype: 'http://www.w3.org/2001/XMLSchema#integer' })).toBe('2');
+        expect(formatSparqlTerm({ termType: 'Literal', value: '2024-01-01', datatype: 'http://www.w3.org/2001/XMLSchema#date' }, { xsd: 'http://www.w3.org/2001/XMLSchema#' })).toBe('"2024-01-01"^^xsd:date');
+        expect(formatSparqlTerm(undefined)).toBe('');
+    });
+
+    test('writes SELECT results as a Markdown table', () => {
+        const result = run('SELECT ?s ?a WHERE { ?s ex:name ?n OPTIONAL { ?s ex:age ?a } } ORDER BY ?s');
+        expect(formatSparqlTable(result, prefixes)).toBe([
+            '| ?s | ?a |',
+            '|---|---|',
+            '| ex:alice | 30 |',
+            '| ex:bob | 25 |',
+            '| ex:carol | 35 |',
+            '| ex:dave |  |'
+        ].join('\n'));
+        expect(formatSparqlTable(result, prefixes, 1)).toBe([
+            '| ?s | ?a |',
+            '|---|---|',
+            '| ex:alice | 30 |',
+            '',
+            '(3 more row(s) not shown)'
+        ].join('\n'));
+    });
+
+    test('escapes pipes in table cells', () => {
+        const result = run('SELECT ?v WHERE { BIND ("a|b\\nc" AS ?v) }');
+        expect(formatSparqlTable(result)).toBe('| ?v |\n|---|\n| "a\\|b\\nc" |');
+    });
+
+    test('writes ASK and CONSTRUCT results as tables', () => {
+        expect(formatSparqlTable(run('ASK { ?s a ex:Robot }'))).toBe('| result |\n|---|\n| true |');
+        expect(formatSparqlTable(run('CONSTRUCT { ?s a ex:Machine } WHERE { ?s a ex:Robot }'), prefixes)).toBe([
+            '| subject | predicate | object |',
+            '|---|---|---|',
+            '| ex:dave | <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> | ex:Machine |'
+        ].join('\n'));
+    });
+
+    test('converts results to the SPARQL JSON format', () => {
+        expect(toSparqlJson(run('SELECT ?s ?a ?l WHERE { ?s ex:name ?n OPTIONAL { ?s ex:age ?a } OPTIONAL { ?s ex:label ?l } FILTER (?s IN (ex:alice, ex:dave)) } ORDER BY ?s'))).toEqual({
+            head: { vars: ['s', 'a', 'l'] },
+            results: {
+                bindings: [
+                    {
+                        s: { type: 'uri', value: `${EX}alice` },
+                        a: { type: 'literal', value: '30', datatype: 'http://www.w3.org/2001/XMLSchema#integer' },
+                        l: { type: 'literal', value: 'Alice', 'xml:lang': 'en' }
+                    },
+                    { s: { type: 'uri', value: `${EX}dave` } }
+                ]
+            }
+        });
+        expect(toSparqlJson(run('ASK { ex:dave ex:knows ?o }'))).toEqual({ head: {}, boolean: false });
+        expect(toSparqlJson(run('CONSTRUCT { ?s ex:friend [] } WHERE { ?s ex:knows ex:carol }'))).toMatchObject({
+            head: { vars: ['subject', 'predicate', 'object'] },
+            results: {
+                bindings: [{
+                    subject: { type: 'uri', value: `${EX}bob` },
+                    predicate: { type: 'uri', value: `${EX}friend` },
+                    object: { type: 'bnode' }
+                }]
+            }
+        });
+    });
+});
@@ -0,0 +1,153 @@
+import { EmptyFileSystem } from 'langium';
+import { clearDocuments, parseHelper, validationHelper } from 'langium/test';
+import { beforeAll, describe, expect, test } from 'vitest';
+import type { Description } from '../../src/generated/ast.js';
+import { createOmlServices } from '../../src/oml-module.js';
+import { IssueCodes } from '../../src/oml-validator.js';
+
+const services = createOmlServices(EmptyFileSystem).Oml;
+const parse = parseHelper(services);
+const validate = validationHelper<Description>(services);
+
+const ERROR = 1;
+const WARNING = 2;
+
+beforeAll(async () => {
+    await parse(`vocabulary <http://www.w3.org/2001/XMLSchema#> as xsd {
+    scalar string
+}`);
+    await parse(`vocabulary <http://example.com/org#> as org {
+    extends <http://www.w3.org/2001/XMLSchema#> as xsd
+    concept Person
+    concept Organization < [
+        restricts all hasMember to Person
+        restricts hasName to exactly 1
+    ]
+    relation entity Employment [
+        from Person
+        to Organization
+        forward worksFor
+    ]
+    relation entity Membership [
+        from Organization
+        to Person
+        forward hasMember
+    ]
+    scalar property hasName [
+        domain Organization
+        range xsd:string
+    ]
+}`);
+});
+
+/**
+ * Validates a description using the org vocabulary and returns its diagnostics.
+ */
+async function getIssues(statements: string) {
+    const { diagnostics, document } = await validate(`description <http://example.com/d#> as d {
+    uses <http://example.com/org#> as org
+    ${statements}
+}`);
+    // Names not found in the document are looked up in the workspace, so remove it again
+    await clearDocuments(services, [document]);
+    return diagnostics.map(diagnostic => ({ code: diagnostic.data?.code, severity: diagnostic.severity, message: diagnostic.message }));
+}
+
+describe('Description instance validation', () => {
+
+    test('accepts instances that respect the vocabulary', async () => {
+        expect(await getIssues(`instance alice : org:Person
+    instance acme : org:Organization [
+        org:hasName "Acme"
+        org:hasMember alice
+    ]
+    relation instance job : org:Employment [
+        from alice
+        to acme
+    ]`)).toEqual([]);
+    });
+
+    test('reports relation instance ends of the wrong type', async () => {
+        expect(await getIssues(`instance acme : org:Organization [
+        org:hasName "Acme"
+    ]
+    relation instance job : org:Employment [
+        from acme
+        to acme
+    ]`)).toEqual([{
+            code: IssueCodes.RelationInstanceEnd,
+            severity: ERROR,
+            message: `'acme' is not an instance of 'Person', the source of relation entity 'Employment'.`
+        }]);
+    });
+
+    test('reports values on instances outside the domain', async () => {
+        expect(await getIssues(`instance alice : org:Person [
+        org:hasName "Alice"
+    ]`)).toEqual([{
+            code: IssueCodes.PropertyDomain,
+            severity: ERROR,
+            message: `'alice' is not an instance of 'Organization', the domain of property 'hasName'.`
+        }]);
+    });
+
+    test('reports values outside the range', async () => {
+        expect(await getIssues(`instance acme : org:Organization [
+        org:hasName "Acme"
+    ]
+    instance alice : org:Person [
+        org:worksFor alice
+    ]`)).toEqual([{
+            code: IssueCodes.PropertyRange,
+            severity: ERROR,
+            message: `'alice' is not an instance of 'Organization', the range of property 'worksFor'.`
+        }]);
+    });
+
+    test('does not check untyped instances', async () => {
+        expect(await getIssues(`instance somebody [
+        org:hasName "Somebody"
+    ]`)).toEqual([]);
+    });
+
+    test('reports instances given to scalar properties and literals given to relations', async () => {
+        expect(await getIssues(`instance alice : org:Person
+    instance acme : org:Organization [
+        org:hasName alice
+        org:hasMember "Alice"
+    ]`)).toEqual([
+            expect.objectContaining({ code: IssueCodes.PropertyValueKind, severity: ERROR, message: `Scalar property 'hasName' expects literal values.` }),
+            expect.objectContaining({ code: IssueCodes.PropertyValueKind, severity: ERROR, message: `Relation 'hasMember' expects instance values, not literals.` })
+        ]);
+    });
+
+    test('reports values that contradict a restriction as errors', async () => {
+        expect(await getIssues(`instance acme : org:Organization [
+        org:hasName "Acme"
+        org:hasName "ACME"
+    ]`)).toEqual([{
+            code: IssueCodes.RestrictionViolation,
+            severity: ERROR,
+            message: `'acme' must have exactly 1 value(s) of 'hasName', but has 2. (restricted by 'Organization')`
+        }]);
+    });
+
+    test('reports values of the wrong type under an all restriction', async () => {
+        expect(await getIssues(`instance acme : org:Organization [
+        org:hasName "Acme"
+        org:hasMember acme
+    ]`)).toContainEqual({
+            code: IssueCodes.RestrictionViolation,
+            severity: ERROR,
+            message: `All values of 'hasMember' on 'acme' must be instances of 'Person', but 'acme' is not. (restricted by 'Organization')`
+        });
+    });
+
+    test('reports values that may be asserted elsewhere as warnings', async () => {
+        expect(await getIssues('instance acme : org:Organization')).toEqual([{
+            code: IssueCodes.RestrictionViolation,
+            severity: WARNING,
+            message: `'acme' must have exactly 1 value(s) of 'hasName', but has 0. (restricted by 'Organization')`
+        }]);
+    });
+});
@@ -0,0 +1,90 @@
+import { EmptyFileSystem } from 'langium';
+import { clearDocuments, parseHelper, validationHelper } from 'langium/test';
+import { beforeAll, describe, expect, test } from 'vitest';
+import type { Description } from '../../src/generated/ast.js';
+import { createOmlServices } from '../../src/oml-module.js';
+import { IssueCodes } from '../../src/oml-validator.js';
+
+const services = createOmlServices(EmptyFileSystem).Oml;
+const parse = parseHelper(services);
+const validate = validationHelper<Description>(services);
+
+beforeAll(async () => {
+    await parse(`vocabulary <http://www.w3.org/2001/XMLSchema#> as xsd {
+    scalar string
+    scalar integer
+    scalar byte < integer
+}`);
+    await parse(`vocabulary <http://www.w3.org/1999/02/22-rdf-syntax-ns#> as rdf {
+    scalar langString
+}`);
+    await parse(`vocabulary <http://example.com/m#> as m {
+    extends <http://www.w3.org/2001/XMLSchema#> as xsd
+    extends <http://www.w3.org/1999/02/22-rdf-syntax-ns#> as rdf
+    concept Thing
+    scalar Code = xsd:string [ length 3 ]
+    scalar Label = xsd:string [ minLength 2 maxLength 5 ]
+    scalar Digits = xsd:string [ pattern "\\\\d+" ]
+    scalar Title = rdf:langString [ language en ]
+    scalar Percent = xsd:integer [ minInclusive 0 maxInclusive 100 ]
+    scalar Size [ oneOf "S", "M", "L" ] < xsd:string
+    scalar property count [ domain Thing range xsd:integer ]
+    scalar property small [ domain Thing range xsd:byte ]
+    scalar property code [ domain Thing range Code ]
+    scalar property label [ domain Thing range Label ]
+    scalar property digits [ domain Thing range Digits ]
+    scalar property title [ domain Thing range Title ]
+    scalar property percent [ domain Thing range Percent ]
+    scalar property size [ domain Thing range Size ]
+}`);
+});
+
+/**
+ * Validates the given property values of an instance and returns the diagnostics.
+ * The description uses xsd too when the values have standard types.
+ */
+async function getIssues(values: string) {
+    const xsd = values.includes('xsd:') ? '\n    uses <http://www.w3.org/2001/XMLSchema#> as xsd' : '';
+    const { diagnostics, document } = await validate(`description <http://example.com/d#> as d {
+    uses <http://example.com/m#> as m${xsd}
+    instance thing : m:Thing [
+        ${values}
+    ]
+}`);
+    // Names not found in the document are looked up in the workspace, so remove it again
+    await clearDocuments(services, [document]);
+    return diagnostics.map(diagnostic => ({ code: diagnostic.data?.code, severity: diagnostic.severity, message: diagnostic.message }));
+}
+
+describe('Literal validation', () => {
+
+    test('accepts values of the range scalars', async () => {
+        expect(await getIssues(`m:count 42
+        m:small -128
+        m:code "ABC"
+        m:label "abc"
+        m:digits "0042"
+        m:title "Hello"$en-GB
+        m:percent 100
+        m:size "M"`)).toEqual([]);
+    });
+
+    test.each([
+        ['m:count "42"', 'String "42" is not a value of xsd:integer; use a typed literal like "42"^^xsd:integer.'],
+        ['m:count "many"', 'String "many" is not a value of xsd:integer.'],
+        ['m:count 1.5', 'Decimal 1.5 is not a value of xsd:integer.'],
+        ['m:count "1"^^xsd:string', 'Literal of type xsd:string is not a value of xsd:integer.'],
+        ['m:count "x1"^^xsd:byte', '"x1" is not a valid xsd:byte.'],
+        ['m:small 300', '"300" is above the maximum 127 of xsd:byte.'],
+        ['m:code "ABCD"', `"ABCD" has length 4, expected 3 (facet of 'Code').`],
+        ['m:label "a"', `"a" is shorter than the minimum length 2 (facet of 'Label').`],
+        ['m:label "abcdef"', `"abcdef" is longer than the maximum length 5 (facet of 'Label').`],
+        ['m:digits "12a"', `"12a" does not match the pattern \\d+ (facet of 'Digits').`],
+        ['m:title "Bonjour"$fr', `"Bonjour" does not have the language tag @en (facet of 'Title').`],
+        ['m:percent -1', `"-1" is less than the minimum 0 (facet of 'Percent').`],
+        ['m:percent 150', `"150" is greater than the maximum 100 (facet of 'Percent').`],
+        ['m:size "XL"', `"XL" is not one of S, M, L (facet of 'Size').`]
+    ])('reports %s', async (value, message) => {
+        expect(await getIssues(value)).toEqual([{ code: IssueCodes.InvalidLiteral, severity: 1, message }]);
+    });
+});
@@ -0,0 +1,91 @@
+import { EmptyFileSystem } from 'langium';
+import { clearDocuments, parseHelper, validationHelper } from 'langium/test';
+import { beforeAll, describe, expect, test } from 'vitest';
+import type { Vocabulary } from '../../src/generated/ast.js';
+import { createOmlServices } from '../../src/oml-module.js';
+import { IssueCodes } from '../../src/oml-validator.js';
+
+const services = createOmlServices(EmptyFileSystem).Oml;
+const parse = parseHelper(services);
+const validate = validationHelper<Vocabulary>(services);
+
+const ERROR = 1;
+
+beforeAll(async () => {
+    await parse(`vocabulary <http://www.w3.org/2003/11/swrlb#> as swrlb {
+    builtin equal
+    builtin greaterThan
+    builtin add
+    builtin substring
+}`);
+    await parse(`description <http://example.com/people#> as people {
+    instance alice
+}`);
+});
+
+/**
+ * Validates a vocabulary with the given rule and returns the diagnostics. The vocabulary
+ * imports the built-ins and the people description when the rule refers to them.
+ */
+async function getIssues(rule: string) {
+    const imports = [
+        ...(rule.includes('swrlb:') ? ['extends <http://www.w3.org/2003/11/swrlb#> as swrlb'] : []),
+        ...(rule.includes('people:') ? ['uses <http://example.com/people#> as people'] : [])
+    ];
+    const { diagnostics, document } = await validate(`vocabulary <http://example.com/v#> as v {
+    ${imports.join('\n    ')}
+    concept Person
+    concept Adult < Person
+    scalar property age [
+        domain Person
+    ]
+    relation entity Knowing [
+        from Person
+        to Person
+        forward knows
+    ]
+    ${rule}
+}`);
+    // Names not found in the document are looked up in the workspace, so remove it again
+    await clearDocuments(services, [document]);
+    return diagnostics.map(diagnostic => ({ code: diagnostic.data?.code, severity: diagnostic.severity, message: diagnostic.message }));
+}
+
+describe('Rule validation', () => {
+
+    test('accepts a safe rule with well-formed predicates', async () => {
+        expect(await getIssues('rule adults [ Person(x) & age(x, a) & builtIn(swrlb:greaterThan, a, 17) -> Adult(x) ]')).toEqual([]);
+    });
+
+    test('reports built-ins in the consequent', async () => {
+        expect(await getIssues('rule r [ Person(x) -> builtIn(swrlb:equal, x, x) ]')).toEqual([{
+            code: IssueCodes.BuiltInInConsequent,
+            severity: ERROR,
+            message: 'Built-in predicates can only be used in the antecedent of a rule.'
+        }]);
+    });
+
+    test('reports consequent variables not bound in the antecedent', async () => {
+        expect(await getIssues('rule r [ Person(x) -> knows(x, y) ]')).toEqual([{
+            code: IssueCodes.UnboundVariable,
+            severity: ERROR,
+            message: `Variable 'y' is not bound in the antecedent of rule 'r'.`
+        }]);
+    });
+
+    test.each([
+        ['knows(x, "bob")', 'A literal cannot be used here: this argument must be an instance.'],
+        ['age(x, people:alice)', 'An instance cannot be used here: this argument must be a literal.'],
+        ['knows(x, y) & age(x, y)', `Variable 'y' is used both as an instance and as a literal.`]
+    ])('reports arguments of the wrong kind in %s', async (antecedent, message) => {
+        expect(await getIssues(`rule r [ Person(x) & ${antecedent} -> Adult(x) ]`)).toEqual([{ code: IssueCodes.ArgumentKind, severity: ERROR, message }]);
+    });
+
+    test.each([
+        ['builtIn(swrlb:greaterThan, a, 1, 2)', `Built-in 'greaterThan' takes 2 argument(s), but 3 are given.`],
+        ['builtIn(swrlb:add, a)', `Built-in 'add' takes at least 2 argument(s), but 1 is given.`],
+        ['builtIn(swrlb:substring, a, a)', `Built-in 'substring' takes 3 to 4 argument(s), but 2 are given.`]
+    ])('reports %s', async (builtIn, message) => {
+        expect(await getIssues(`rule r [ Person(x) & age(x, a) & ${builtIn} -> Adult(x) ]`)).toEqual([{ code: IssueCodes.BuiltInArity, severity: ERROR, message }]);
+    });
+});
@@ -0,0 +1,112 @@
+import { EmptyFileSystem } from 'langium';
+import { clearDocuments, parseHelper, validationHelper } from 'langium/test';
+import { beforeAll, describe, expect, test } from 'vitest';
+import type { Vocabulary } from '../../src/generated/ast.js';
+import { createOmlServices } from '../../src/oml-module.js';
+import { IssueCodes } from '../../src/oml-validator.js';
+
+const services = createOmlServices(EmptyFileSystem).Oml;
+const parse = parseHelper(services);
+const validate = validationHelper<Vocabulary>(services);
+
+const ERROR = 1;
+const WARNING = 2;
+
+beforeAll(async () => {
+    await parse(`vocabulary <http://example.com/base#> as base {
+    concept Thing
+    concept Part < Thing
+}`);
+});
+
+/**
+ * Validates a vocabulary and returns the diagnostics. The vocabulary extends the base
+ * vocabulary when the statements refer to it.
+ */
+async function getIssues(statements: string) {
+    const base = statements.includes('base:') ? '\n    extends <http://example.com/base#> as base' : '';
+    const { diagnostics, document } = await validate(`vocabulary <http://example.com/v#> as v {${base}
+    ${statements}
+}`);
+    // Names not found in the document are looked up in the workspace, so remove it again
+    await clearDocuments(services, [document]);
+    return diagnostics.map(diagnostic => ({ code: diagnostic.data?.code, severity: diagnostic.severity, message: diagnostic.message }));
+}
+
+describe('Specialization hierarchy validation', () => {
+
+    test('accepts a hierarchy without cycles or redundancy', async () => {
+        expect(await getIssues(`aspect Named
+    concept A < base:Part
+    concept B < A
+    concept C < B, Named [
+        restricts all base:Thing to A
+    ]`)).toEqual([]);
+    });
+
+    test('reports each specialization of a cycle', async () => {
+        expect(await getIssues(`concept A < C
+    concept B < A
+    concept C < B`)).toEqual(['A < C < B < A', 'B < A < C < B', 'C < B < A < C'].map(cycle => ({
+            code: IssueCodes.SpecializationCycle,
+            severity: ERROR,
+            message: `Specialization cycle: ${cycle}`
+        })));
+    });
+
+    test('reports cycles through imported terms and ref statements', async () => {
+        expect(await getIssues(`concept A < base:Part
+    ref concept base:Thing < A`)).toEqual(['A < Part < Thing < A', 'Thing < A < Part < Thing'].map(cycle => ({
+            code: IssueCodes.SpecializationCycle,
+            severity: ERROR,
+            message: `Specialization cycle: ${cycle}`
+        })));
+    });
+
+    test('does not follow equivalences for cycles', async () => {
+        expect(await getIssues(`concept A < B
+    concept B = A`)).toEqual([{
+            code: IssueCodes.RedundantSpecialization,
+            severity: WARNING,
+            message: `Specialization of 'B' is redundant: it is implied by the equivalence of 'B'.`
+        }]);
+    });
+
+    test('reports a repeated specialization', async () => {
+        expect(await getIssues('concept A < base:Thing, base:Thing')).toEqual([{
+            code: IssueCodes.RedundantSpecialization,
+            severity: WARNING,
+            message: `'A' already specializes 'Thing'.`
+        }]);
+    });
+
+    test('reports a ref statement repeating a specialization', async () => {
+        expect(await getIssues(`concept A < base:Thing
+    ref concept A < base:Thing`)).toEqual([{
+            code: IssueCodes.RedundantSpecialization,
+            severity: WARNING,
+            message: `'A' already specializes 'Thing'.`
+        }]);
+    });
+
+    test('reports a specialization implied by another one', async () => {
+        expect(await getIssues('concept A < base:Part, base:Thing')).toEqual([{
+            code: IssueCodes.RedundantSpecialization,
+            severity: WARNING,
+            message: `Specialization of 'Thing' is redundant: it is implied by 'Part'.`
+        }]);
+    });
+
+    test('reports a specialization implied by an equivalence', async () => {
+        expect(await getIssues(`aspect P
+    aspect Q
+    concept B < P
+    concept C < Q
+    concept S = P & Q
+    concept A < B, C, S`)).toEqual([{
+            code: IssueCodes.RedundantSpecialization,
+            severity: WARNING,
+            message: `Specialization of 'S' is redundant: it is implied by the equivalence of 'S'.`
+        }]);
+    });
+});